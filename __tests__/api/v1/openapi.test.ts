@@ -0,0 +1,121 @@
+import { readdirSync, readFileSync, statSync } from 'fs'
+import path from 'path'
+import { getApiV1Document, getApiV1Operations } from '@/lib/openapi'
+import { zodToJsonSchema } from '@/lib/utils/openapi'
+import { generateApiClient } from '@/lib/utils/openapi-client'
+import { getRequiredApiKeyScope } from '@/lib/utils/api-key'
+
+const ROOT = path.join(__dirname, '../../..')
+const V1_DIR = path.join(ROOT, 'src/app/api/v1')
+
+interface RouteHandler {
+  key: string
+  path: string
+  method: string
+  source: string
+  scope: string | null
+}
+
+function findRouteFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    const fullPath = path.join(dir, entry)
+    if (statSync(fullPath).isDirectory()) return findRouteFiles(fullPath)
+    return entry === 'route.ts' ? [fullPath] : []
+  })
+}
+
+// The handlers an API key can reach, read from the route files
+function getApiKeyHandlers(): RouteHandler[] {
+  return findRouteFiles(V1_DIR).flatMap((file) => {
+    const routePath = `/api/v1/${path.relative(V1_DIR, path.dirname(file))}`
+      .split(path.sep).join('/')
+      .replace(/\[(\w+)\]/g, '{$1}')
+    const segments = readFileSync(file, 'utf8').split(/^export const (?=[A-Z]+ = )/m).slice(1)
+
+    return segments
+      .filter((segment) => /^[A-Z]+ = withApiKeyAuth\(/.test(segment))
+      .map((segment) => {
+        const method = segment.slice(0, segment.indexOf(' ')).toLowerCase()
+        const override = segment.match(/^\}, '([\w-]+:(?:read|write))'\)$/m)?.[1]
+
+        return {
+          key: `${method} ${routePath}`,
+          path: routePath,
+          method,
+          source: segment,
+          scope: override ?? getRequiredApiKeyScope(routePath, method),
+        }
+      })
+  })
+}
+
+function matchAll(source: string, pattern: RegExp): string[] {
+  return Array.from(new Set(Array.from(source.matchAll(pattern), (match) => match[1]))).sort()
+}
+
+describe('/api/v1 OpenAPI contract', () => {
+  const handlers = getApiKeyHandlers()
+  const operations = new Map(getApiV1Operations().map((operation) => [`${operation.method} ${operation.path}`, operation]))
+
+  it('documents every route an API key can call, and only those', () => {
+    expect(handlers.length).toBeGreaterThan(0)
+    expect(handlers.map((handler) => handler.key).sort()).toEqual(Array.from(operations.keys()).sort())
+  })
+
+  it('documents the path and query parameters each handler reads', () => {
+    for (const handler of handlers) {
+      const operation = operations.get(handler.key)!
+
+      expect({ [handler.key]: matchAll(handler.source, /params\.(\w+)/g) })
+        .toEqual({ [handler.key]: Object.keys(operation.params?.shape || {}).sort() })
+      expect({ [handler.key]: matchAll(handler.source, /searchParams\.get\('(\w+)'\)/g) })
+        .toEqual({ [handler.key]: Object.keys(operation.query?.shape || {}).sort() })
+    }
+  })
+
+  it('documents the body of each handler that reads one', () => {
+    for (const handler of handlers) {
+      const operation = operations.get(handler.key)!
+      const readsBody = handler.source.includes('request.json()')
+
+      expect({ [handler.key]: Boolean(operation.body) }).toEqual({ [handler.key]: readsBody })
+      if (!operation.body) continue
+
+      const documented = Object.keys(zodToJsonSchema(operation.body).properties || {})
+      const missing = matchAll(handler.source, /\bbody\.(\w+)/g).filter((field) => !documented.includes(field))
+      expect({ [handler.key]: missing }).toEqual({ [handler.key]: [] })
+    }
+  })
+
+  it('documents the scope, status codes and not found answers of each handler', () => {
+    for (const handler of handlers) {
+      const operation = operations.get(handler.key)!
+
+      expect({ [handler.key]: operation.scope }).toEqual({ [handler.key]: handler.scope })
+      expect({ [handler.key]: Boolean(operation.created) })
+        .toEqual({ [handler.key]: handler.source.includes('{ status: 201 }') })
+      expect({ [handler.key]: Boolean(operation.notFound) })
+        .toEqual({ [handler.key]: handler.source.includes('? 404') })
+    }
+  })
+
+  it('builds a document whose references all resolve', () => {
+    const document = getApiV1Document()
+    const serialized = JSON.stringify(document)
+    const operationIds = Object.values(document.paths).flatMap((item) => Object.values(item).map((operation) => operation!.operationId))
+
+    for (const ref of matchAll(serialized, /"\$ref":"#\/components\/(\w+\/\w+)"/g)) {
+      const [section, name] = ref.split('/')
+      expect((document.components as Record<string, Record<string, unknown>>)[section][name]).toBeDefined()
+    }
+
+    expect(new Set(operationIds).size).toBe(operationIds.length)
+  })
+
+  it('keeps the generated client in sync with the document', () => {
+    const client = readFileSync(path.join(ROOT, 'src/lib/api-client/v1.ts'), 'utf8')
+
+    // Run `npm run api:client` when this fails
+    expect(client).toBe(generateApiClient(getApiV1Document()))
+  })
+})
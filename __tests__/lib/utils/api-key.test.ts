@@ -0,0 +1,79 @@
+import {
+  generateApiKey,
+  getClientIp,
+  getRequiredApiKeyScope,
+  hasApiKeyScope,
+  hashApiKey,
+  isApiKeyToken,
+  isIpAllowed,
+  isValidIpRange,
+  parseBearerToken,
+} from '@/lib/utils/api-key'
+
+describe('API key utilities', () => {
+  it('generates keys that are only stored hashed', () => {
+    const { key, prefix, keyHash } = generateApiKey()
+
+    expect(key).toMatch(/^sk_[\w-]{43}$/)
+    expect(key.startsWith(prefix)).toBe(true)
+    expect(prefix).toHaveLength(11)
+    expect(keyHash).toBe(hashApiKey(key))
+    expect(keyHash).not.toContain(key)
+    expect(generateApiKey().key).not.toBe(key)
+  })
+
+  it('reads the key from a bearer authorization header', () => {
+    expect(parseBearerToken('Bearer sk_abc123')).toBe('sk_abc123')
+    expect(parseBearerToken('bearer  sk_abc123 ')).toBe('sk_abc123')
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull()
+    expect(parseBearerToken(null)).toBeNull()
+
+    expect(isApiKeyToken('sk_abc123')).toBe(true)
+    expect(isApiKeyToken('eyJhbGciOiJSUzI1NiJ9.session')).toBe(false)
+  })
+
+  it('maps REST requests to the scope they need', () => {
+    expect(getRequiredApiKeyScope('/api/v1/bookings', 'GET')).toBe('bookings:read')
+    expect(getRequiredApiKeyScope('/api/v1/bookings/ck123', 'DELETE')).toBe('bookings:write')
+    expect(getRequiredApiKeyScope('/api/v1/visitors/ck123/checkin', 'POST')).toBe('visitors:write')
+    expect(getRequiredApiKeyScope('/api/v1/access-control/analytics', 'GET')).toBe('access-control:read')
+    expect(getRequiredApiKeyScope('/api/v1/unknown', 'GET')).toBeNull()
+    expect(getRequiredApiKeyScope('/api/search', 'GET')).toBeNull()
+  })
+
+  it('lets write access cover reads', () => {
+    expect(hasApiKeyScope(['bookings:write'], 'bookings:read')).toBe(true)
+    expect(hasApiKeyScope(['bookings:read'], 'bookings:write')).toBe(false)
+    expect(hasApiKeyScope(['spaces:write'], 'bookings:read')).toBe(false)
+  })
+
+  it('checks the caller against the IP allow-list', () => {
+    expect(isIpAllowed('203.0.113.7', [])).toBe(true)
+    expect(isIpAllowed(null, [])).toBe(true)
+    expect(isIpAllowed('203.0.113.7', ['203.0.113.7'])).toBe(true)
+    expect(isIpAllowed('203.0.113.7', ['203.0.113.0/24'])).toBe(true)
+    expect(isIpAllowed('::ffff:203.0.113.7', ['203.0.113.0/24'])).toBe(true)
+    expect(isIpAllowed('198.51.100.1', ['203.0.113.0/24'])).toBe(false)
+    expect(isIpAllowed('2001:db8::1', ['2001:db8::/32'])).toBe(true)
+    expect(isIpAllowed(null, ['203.0.113.0/24'])).toBe(false)
+
+    expect(isValidIpRange('10.0.0.0/8')).toBe(true)
+    expect(isValidIpRange('10.0.0.0/33')).toBe(false)
+    expect(isValidIpRange('example.com')).toBe(false)
+  })
+
+  it('takes the client address from the hop our proxy appended', () => {
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7')
+    expect(getClientIp(new Headers({ 'x-real-ip': '198.51.100.1' }))).toBe('198.51.100.1')
+    expect(getClientIp(new Headers())).toBeNull()
+  })
+
+  it('ignores addresses a client puts in X-Forwarded-For itself', () => {
+    const spoofed = new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' })
+    expect(getClientIp(spoofed)).toBe('203.0.113.7')
+    expect(isIpAllowed(getClientIp(spoofed), ['10.0.0.0/8'])).toBe(false)
+
+    const onVercel = new Headers({ 'x-forwarded-for': '10.0.0.1', 'x-real-ip': '203.0.113.7' })
+    expect(getClientIp(onVercel)).toBe('203.0.113.7')
+  })
+})
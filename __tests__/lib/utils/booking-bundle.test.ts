@@ -0,0 +1,40 @@
+import { getBundleCost, splitBundleRequest } from '@/lib/utils/booking-bundle'
+import { findServiceShortages } from '@/lib/utils/booking-services'
+
+describe('booking bundle utilities', () => {
+  const services = [
+    { serviceId: 'projector', quantity: 1, unitPrice: 5000, totalPrice: 5000 },
+    { serviceId: 'coffee', quantity: 20, unitPrice: 2500, totalPrice: 50000 },
+  ]
+
+  it('books the services and the discount code once, with the first space', () => {
+    expect(splitBundleRequest(['room', 'lounge', 'terrace'], services, 'EVENTO10')).toEqual([
+      { spaceId: 'room', services, discountCode: 'EVENTO10' },
+      { spaceId: 'lounge', services: [], discountCode: undefined },
+      { spaceId: 'terrace', services: [], discountCode: undefined },
+    ])
+  })
+
+  it('charges the sum of its bookings as the bundle total', () => {
+    expect(getBundleCost([{ total: 75000.1 }, { total: 30000.2 }, { total: 0 }])).toBe(105000.3)
+    expect(getBundleCost([])).toBe(0)
+  })
+
+  it('takes the bundle services from the units overlapping bookings leave', () => {
+    const inventory = [
+      { id: 'projector', name: 'Proyector', inventoryQuantity: 2 },
+      { id: 'coffee', name: 'Café', inventoryQuantity: null },
+    ]
+
+    // One projector is held by another booking at the same time
+    expect(findServiceShortages(services, inventory, [{ serviceId: 'projector', quantity: 1 }])).toEqual([])
+
+    expect(findServiceShortages(
+      [...services, { serviceId: 'projector', quantity: 1 }],
+      inventory,
+      [{ serviceId: 'projector', quantity: 1 }]
+    )).toEqual([
+      { serviceId: 'projector', name: 'Proyector', requested: 2, available: 1 },
+    ])
+  })
+})
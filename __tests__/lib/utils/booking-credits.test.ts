@@ -0,0 +1,51 @@
+import {
+  allocateBookingCredits,
+  getAvailableCredits,
+  getCreditPeriod,
+  getRolloverCredits,
+} from '@/lib/utils/booking-credits'
+
+describe('booking credits', () => {
+  it('finds the billing period anchored on the configured day', () => {
+    const monthly = getCreditPeriod(new Date(2025, 0, 10, 12), { cycle: 'MONTHLY', dayOfMonth: 15 })
+    expect(monthly.start).toEqual(new Date(2024, 11, 15))
+    expect(monthly.end).toEqual(new Date(2025, 0, 15))
+
+    // Short months start the period on their last day
+    const february = getCreditPeriod(new Date(2025, 1, 28, 9), { cycle: 'MONTHLY', dayOfMonth: 31 })
+    expect(february.start).toEqual(new Date(2025, 1, 28))
+    expect(february.end).toEqual(new Date(2025, 2, 31))
+
+    const quarterly = getCreditPeriod(new Date(2025, 4, 20), { cycle: 'QUARTERLY' })
+    expect(quarterly.start).toEqual(new Date(2025, 3, 1))
+    expect(quarterly.end).toEqual(new Date(2025, 6, 1))
+
+    // Wednesday 15 January 2025 falls in the week starting Monday 13
+    const weekly = getCreditPeriod(new Date(2025, 0, 15, 10), { cycle: 'WEEKLY', dayOfWeek: 1 })
+    expect(weekly.start).toEqual(new Date(2025, 0, 13))
+  })
+
+  it('rolls over unused credits up to the plan limit', () => {
+    const previous = { granted: 10, rolledOver: 2, used: 5 }
+
+    expect(getRolloverCredits(previous, 5)).toBe(5)
+    expect(getRolloverCredits(previous, 20)).toBe(7)
+    expect(getRolloverCredits(previous, null)).toBe(0)
+    expect(getRolloverCredits(null, 5)).toBe(0)
+    expect(getAvailableCredits(previous)).toBe(7)
+  })
+
+  it('covers booked hours and bills the rest as overage', () => {
+    const booking = { startTime: new Date(2025, 0, 15, 10), endTime: new Date(2025, 0, 15, 13), amount: 90 }
+
+    expect(allocateBookingCredits(2, 'HOURS', booking)).toEqual({ credits: 2, coveredAmount: 60, overageAmount: 30 })
+    expect(allocateBookingCredits(5, 'HOURS', booking)).toEqual({ credits: 3, coveredAmount: 90, overageAmount: 0 })
+    expect(allocateBookingCredits(0, 'HOURS', booking)).toEqual({ credits: 0, coveredAmount: 0, overageAmount: 90 })
+  })
+
+  it('covers the booking cost with currency credits', () => {
+    const booking = { startTime: new Date(2025, 0, 15, 10), endTime: new Date(2025, 0, 15, 12), amount: 50 }
+
+    expect(allocateBookingCredits(30, 'CURRENCY', booking)).toEqual({ credits: 30, coveredAmount: 30, overageAmount: 20 })
+  })
+})
@@ -0,0 +1,134 @@
+import { BookingPolicyValidator, toPolicyFieldErrors, type BookingPolicyConfig } from '@/lib/utils/booking-policy'
+
+describe('BookingPolicyValidator', () => {
+  const baseConfig: BookingPolicyConfig = {
+    maxAdvanceBookingDays: 30,
+    minBookingDuration: 60,
+    maxBookingDuration: 240,
+    cancellationHours: 24,
+    allowRecurring: true,
+    openingHours: [],
+    unavailableWindows: [],
+    maintenanceWindows: [],
+  }
+
+  // Monday 13 January 2025, 08:00 local time
+  const now = new Date(2025, 0, 13, 8, 0)
+  // Wednesday 15 January 2025
+  const at = (hours: number, minutes = 0) => new Date(2025, 0, 15, hours, minutes)
+
+  it('accepts a booking inside every limit', () => {
+    const validator = new BookingPolicyValidator(baseConfig)
+
+    expect(validator.validateBooking(at(10), at(12), { now })).toEqual([])
+  })
+
+  it('rejects bookings in the past or beyond the advance window', () => {
+    const validator = new BookingPolicyValidator(baseConfig)
+
+    expect(validator.validateBooking(new Date(2025, 0, 12, 10), new Date(2025, 0, 12, 12), { now })
+      .map(v => v.code)).toEqual(['START_IN_PAST'])
+    expect(validator.validateBooking(new Date(2025, 2, 1, 10), new Date(2025, 2, 1, 12), { now })
+      .map(v => v.code)).toEqual(['TOO_FAR_IN_ADVANCE'])
+  })
+
+  it('enforces minimum and maximum durations with localized messages', () => {
+    const validator = new BookingPolicyValidator(baseConfig)
+    const englishValidator = new BookingPolicyValidator(baseConfig, 'en')
+
+    const tooShort = validator.validateBooking(at(10), at(10, 30), { now })
+    expect(tooShort).toEqual([expect.objectContaining({
+      code: 'DURATION_TOO_SHORT',
+      field: 'endTime',
+      message: 'La duración mínima de una reserva es de 60 minutos',
+    })])
+    expect(englishValidator.validateBooking(at(9), at(15), { now })[0].message)
+      .toBe('Bookings can last at most 240 minutes')
+  })
+
+  it('checks opening hours and unavailable periods for the booking day', () => {
+    const validator = new BookingPolicyValidator({
+      ...baseConfig,
+      openingHours: [
+        { dayOfWeek: 3, startTime: '09:00', endTime: '13:00' },
+        { dayOfWeek: 3, startTime: '14:00', endTime: '18:00' },
+      ],
+      unavailableWindows: [{ dayOfWeek: 3, startTime: '16:00', endTime: '17:00', reason: 'Limpieza' }],
+    })
+
+    expect(validator.validateBooking(at(12), at(14), { now }).map(v => v.code)).toEqual(['OUTSIDE_OPENING_HOURS'])
+    expect(validator.validateBooking(at(15), at(17), { now })[0].message)
+      .toBe('El espacio no está disponible de 16:00 a 17:00 (Limpieza)')
+    expect(validator.validateBooking(new Date(2025, 0, 16, 10), new Date(2025, 0, 16, 11), { now })
+      .map(v => v.code)).toEqual(['SPACE_CLOSED'])
+  })
+
+  it('reads opening hours in the tenant time zone', () => {
+    const validator = new BookingPolicyValidator({
+      ...baseConfig,
+      timeZone: 'America/Santiago',
+      openingHours: [{ dayOfWeek: 3, startTime: '09:00', endTime: '18:00' }],
+      maintenanceWindows: [{
+        id: 'm1',
+        title: 'Pintura',
+        startTime: new Date(Date.UTC(2025, 0, 15, 19)),
+        endTime: new Date(Date.UTC(2025, 0, 15, 21)),
+      }],
+    })
+    const utcNow = new Date(Date.UTC(2025, 0, 13, 12))
+
+    // 12:00-14:00 UTC is 09:00-11:00 in Santiago (UTC-3 in January)
+    expect(validator.validateBooking(
+      new Date(Date.UTC(2025, 0, 15, 12)),
+      new Date(Date.UTC(2025, 0, 15, 14)),
+      { now: utcNow }
+    )).toEqual([])
+
+    // 10:00 UTC is 07:00 in Santiago, before opening
+    expect(validator.validateBooking(
+      new Date(Date.UTC(2025, 0, 15, 10)),
+      new Date(Date.UTC(2025, 0, 15, 12)),
+      { now: utcNow }
+    ).map(v => v.code)).toEqual(['OUTSIDE_OPENING_HOURS'])
+
+    // Thursday 01:00 UTC is still Wednesday 22:00 in Santiago, after closing
+    expect(validator.validateBooking(
+      new Date(Date.UTC(2025, 0, 16, 1)),
+      new Date(Date.UTC(2025, 0, 16, 2)),
+      { now: utcNow }
+    ).map(v => v.code)).toEqual(['OUTSIDE_OPENING_HOURS'])
+
+    // Maintenance windows are shown in local time
+    const evening = validator.validateBooking(
+      new Date(Date.UTC(2025, 0, 15, 20)),
+      new Date(Date.UTC(2025, 0, 15, 21)),
+      { now: utcNow }
+    )
+    expect(evening.map(v => v.message)).toEqual([
+      'El espacio tiene mantenimiento programado (Pintura) del 15/01 16:00 al 15/01 18:00',
+    ])
+  })
+
+  it('rejects overlapping maintenance windows and disallowed recurrence', () => {
+    const validator = new BookingPolicyValidator({
+      ...baseConfig,
+      allowRecurring: false,
+      maintenanceWindows: [{ id: 'm1', title: 'Pintura', startTime: at(11), endTime: at(15) }],
+    })
+
+    const violations = validator.validateBooking(at(10), at(12), { now, isRecurring: true })
+    expect(violations.map(v => v.code)).toEqual(['RECURRING_NOT_ALLOWED', 'MAINTENANCE_WINDOW'])
+    expect(toPolicyFieldErrors(violations)).toEqual({
+      recurrence: 'Este espacio no admite reservas recurrentes',
+      startTime: 'El espacio tiene mantenimiento programado (Pintura) del 15/01 11:00 al 15/01 15:00',
+    })
+  })
+
+  it('only allows cancellations outside the notice period', () => {
+    const validator = new BookingPolicyValidator(baseConfig)
+
+    expect(validator.validateCancellation(at(10), now)).toEqual([])
+    expect(validator.validateCancellation(at(10), new Date(2025, 0, 14, 12)).map(v => v.code))
+      .toEqual(['CANCELLATION_TOO_LATE'])
+  })
+})
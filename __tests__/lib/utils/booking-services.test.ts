@@ -0,0 +1,107 @@
+import { buildServiceConsumptions, priceBookingServices } from '@/lib/utils/booking-services'
+import type { BookingPriceBreakdown } from '@/lib/utils/pricing-integration'
+
+describe('priceBookingServices', () => {
+  const breakdown: BookingPriceBreakdown = {
+    currency: 'CLP',
+    lines: [
+      { type: 'SPACE', description: 'Sala Andes (2.00 h)', quantity: 2, unitPrice: 10000, amount: 20000, referenceId: 'space-1' },
+      { type: 'SERVICE', description: 'Proyector (x1)', quantity: 1, unitPrice: 5000, amount: 5000, referenceId: 'projector' },
+      { type: 'SERVICE', description: 'Café (x4)', quantity: 4, unitPrice: 2500, amount: 10000, referenceId: 'coffee' },
+    ],
+    subtotal: 35000,
+    discounts: 0,
+    total: 35000,
+    calculatedAt: '2025-01-14T10:00:00.000Z',
+  }
+
+  it('matches breakdown lines by service rather than by position', () => {
+    const services = [
+      { serviceId: 'coffee', quantity: 4, unitPrice: 0, totalPrice: 0 },
+      { serviceId: 'projector', quantity: 1, unitPrice: 0, totalPrice: 0 },
+    ]
+
+    expect(priceBookingServices(services, breakdown)).toEqual([
+      { serviceId: 'coffee', quantity: 4, unitPrice: 2500, totalPrice: 10000 },
+      { serviceId: 'projector', quantity: 1, unitPrice: 5000, totalPrice: 5000 },
+    ])
+  })
+
+  it('keeps the requested price of services the breakdown leaves out', () => {
+    const services = [
+      { serviceId: 'catering', quantity: 10, unitPrice: 3000, totalPrice: 30000, notes: 'Sin gluten' },
+      { serviceId: 'projector', quantity: 1, unitPrice: 0, totalPrice: 0, notes: undefined },
+    ]
+
+    const priced = priceBookingServices(services, breakdown)
+
+    expect(priced[0]).toEqual(services[0])
+    expect(priced[1]).toMatchObject({ serviceId: 'projector', unitPrice: 5000, totalPrice: 5000 })
+    expect(priceBookingServices(services, null)).toEqual(services)
+  })
+
+  it('takes the lines of a service requested twice in order', () => {
+    const twice: BookingPriceBreakdown = {
+      ...breakdown,
+      lines: [
+        { type: 'SERVICE', description: 'Café (x2)', quantity: 2, unitPrice: 2500, amount: 5000, referenceId: 'coffee' },
+        { type: 'SERVICE', description: 'Café (x6)', quantity: 6, unitPrice: 2000, amount: 12000, referenceId: 'coffee' },
+      ],
+    }
+
+    const priced = priceBookingServices([
+      { serviceId: 'coffee', quantity: 2, unitPrice: 0, totalPrice: 0 },
+      { serviceId: 'coffee', quantity: 6, unitPrice: 0, totalPrice: 0 },
+    ], twice)
+
+    expect(priced.map(service => service.totalPrice)).toEqual([5000, 12000])
+  })
+})
+
+describe('buildServiceConsumptions', () => {
+  const endTime = new Date('2025-01-15T12:00:00.000Z')
+  const bookingService = {
+    id: 'bs-1',
+    serviceId: 'coffee',
+    quantity: 4,
+    unitPrice: 2500,
+    totalPrice: 10000,
+    status: 'CONFIRMED',
+    serviceConsumptionId: null,
+  }
+
+  it('records each service of the booking for the booking user at its end', () => {
+    const consumptions = buildServiceConsumptions('tenant-1', {
+      userId: 'user-1',
+      endTime,
+      bookingServices: [bookingService],
+    })
+
+    expect(consumptions).toEqual([{
+      bookingServiceId: 'bs-1',
+      consumption: {
+        tenantId: 'tenant-1',
+        serviceId: 'coffee',
+        userId: 'user-1',
+        quantity: 4,
+        unitPrice: 2500,
+        total: 10000,
+        date: endTime,
+      },
+    }])
+  })
+
+  it('skips cancelled services and services already recorded', () => {
+    const consumptions = buildServiceConsumptions('tenant-1', {
+      userId: 'user-1',
+      endTime,
+      bookingServices: [
+        { ...bookingService, id: 'bs-1', status: 'CANCELLED' },
+        { ...bookingService, id: 'bs-2', status: 'COMPLETED', serviceConsumptionId: 'sc-1' },
+        { ...bookingService, id: 'bs-3', serviceId: 'projector' },
+      ],
+    })
+
+    expect(consumptions.map(consumption => consumption.bookingServiceId)).toEqual(['bs-3'])
+  })
+})
@@ -0,0 +1,98 @@
+import {
+  buildCancellationFeeUsage,
+  evaluateCancellation,
+  parseCancellationTiers,
+  type CancellationPolicyConfig,
+} from '@/lib/utils/cancellation-policy'
+
+describe('cancellation policy evaluation', () => {
+  // Wednesday 15 January 2025, 10:00 local time
+  const startTime = new Date(2025, 0, 15, 10, 0)
+  const policy: CancellationPolicyConfig = {
+    refundMethod: 'REFUND',
+    tiers: [
+      { minNoticeHours: 0, refundPercent: 0, feeAmount: 5000 },
+      { minNoticeHours: 48, refundPercent: 100 },
+      { minNoticeHours: 24, refundPercent: 50, feeAmount: 2000 },
+    ],
+  }
+
+  it('picks the tier matching the notice given', () => {
+    const early = evaluateCancellation(policy, {
+      startTime,
+      cancelledAt: new Date(2025, 0, 12, 10, 0),
+      paidAmount: 20000,
+    })
+    expect(early).toEqual(expect.objectContaining({ noticeHours: 72, refundPercent: 100, refundAmount: 20000, resolution: 'REFUND' }))
+
+    const dayBefore = evaluateCancellation(policy, {
+      startTime,
+      cancelledAt: new Date(2025, 0, 14, 9, 0),
+      paidAmount: 20000,
+    })
+    expect(dayBefore).toEqual(expect.objectContaining({
+      refundPercent: 50,
+      refundAmount: 8000,
+      feeAmount: 2000,
+      outstandingFee: 0,
+    }))
+  })
+
+  it('bills the late fee that the refund does not cover', () => {
+    const late = evaluateCancellation(policy, {
+      startTime,
+      cancelledAt: new Date(2025, 0, 15, 9, 0),
+      paidAmount: 0,
+    })
+
+    expect(late).toEqual(expect.objectContaining({
+      refundAmount: 0,
+      feeAmount: 5000,
+      outstandingFee: 5000,
+      resolution: 'NONE',
+    }))
+  })
+
+  it('bills the outstanding fee to the member client as usage', () => {
+    const booking = { id: 'booking-1', tenantId: 'tenant-1', spaceId: 'space-1', title: 'Reunión de equipo' }
+    const cancelledAt = new Date(2025, 0, 15, 9, 0)
+
+    expect(buildCancellationFeeUsage(booking, 'client-1', 5000, cancelledAt)).toEqual({
+      tenantId: 'tenant-1',
+      clientId: 'client-1',
+      resourceType: 'SPACE_BOOKING',
+      resourceId: 'space-1',
+      quantity: 1,
+      unit: 'items',
+      unitPrice: 5000,
+      totalCost: 5000,
+      usageDate: cancelledAt,
+      billingPeriod: '2025-01',
+      metadata: { bookingId: 'booking-1', description: 'Cancelación tardía: Reunión de equipo' },
+    })
+    expect(buildCancellationFeeUsage(booking, 'client-1', 0, cancelledAt)).toBeNull()
+    expect(buildCancellationFeeUsage(booking, null, 5000, cancelledAt)).toBeNull()
+  })
+
+  it('honours the member choice only when the policy allows it', () => {
+    const input = { startTime, cancelledAt: new Date(2025, 0, 10), paidAmount: 100, preferredMethod: 'CREDIT' as const }
+
+    expect(evaluateCancellation({ ...policy, refundMethod: 'CHOICE' }, input).resolution).toBe('CREDIT')
+    expect(evaluateCancellation({ ...policy, refundMethod: 'REFUND' }, input).resolution).toBe('REFUND')
+    expect(evaluateCancellation({ ...policy, refundMethod: 'CREDIT' }, { ...input, preferredMethod: undefined }).resolution)
+      .toBe('CREDIT')
+  })
+
+  it('parses stored tiers and drops invalid ones', () => {
+    expect(parseCancellationTiers(JSON.stringify([
+      { minNoticeHours: 24, refundPercent: 50 },
+      { minNoticeHours: 72, refundPercent: 100, feeAmount: null },
+      { minNoticeHours: 12, refundPercent: 150 },
+      { refundPercent: 10 },
+    ]))).toEqual([
+      { minNoticeHours: 72, refundPercent: 100, feeAmount: undefined },
+      { minNoticeHours: 24, refundPercent: 50, feeAmount: undefined },
+    ])
+    expect(parseCancellationTiers('not json')).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import {
+  allocateCreditBalance,
+  buildCreditNoteLines,
+  calculateCreditNoteTotals,
+  splitCreditAmount,
+} from '@/lib/utils/credit-note'
+
+describe('credit note utilities', () => {
+  const items = [
+    { id: 'plan', description: 'Oficina Privada', quantity: 1, unitPrice: 500, total: 500, credited: 0, taxRate: 19 },
+    { id: 'room', description: 'Sala de reuniones', quantity: 4, unitPrice: 25, total: 100, credited: 25, taxRate: 0 },
+  ]
+
+  it('credits whole lines, units or amounts of an invoice', () => {
+    const { lines, errors } = buildCreditNoteLines(items, [
+      { invoiceItemId: 'plan' },
+      { invoiceItemId: 'room', quantity: 2 },
+    ])
+
+    expect(errors).toEqual([])
+    expect(lines).toEqual([
+      { invoiceItemId: 'plan', description: 'Oficina Privada', quantity: 1, unitPrice: 500, total: 500, taxRate: 19, taxAmount: 95 },
+      { invoiceItemId: 'room', description: 'Sala de reuniones', quantity: 2, unitPrice: 25, total: 50, taxRate: 0, taxAmount: 0 },
+    ])
+
+    expect(buildCreditNoteLines(items, [{ invoiceItemId: 'plan', amount: 120 }]).lines[0])
+      .toEqual(expect.objectContaining({ quantity: 1, unitPrice: 120, total: 120 }))
+  })
+
+  it('never credits a line beyond what is left of it', () => {
+    const { lines, errors } = buildCreditNoteLines(items, [
+      { invoiceItemId: 'room', amount: 60 },
+      { invoiceItemId: 'room' },
+      { invoiceItemId: 'room', amount: 20 },
+      { invoiceItemId: 'room' },
+      { invoiceItemId: 'missing' },
+    ])
+
+    expect(lines.map(line => line.total)).toEqual([60, 15])
+    expect(errors).toEqual([
+      '"Sala de reuniones" can be credited up to 0',
+      'Nothing left to credit on "Sala de reuniones"',
+      'Invoice line missing not found',
+    ])
+  })
+
+  it('gives back the tax each line was charged', () => {
+    const { lines } = buildCreditNoteLines(items, [
+      { invoiceItemId: 'plan', amount: 100 },
+      { invoiceItemId: 'room', amount: 20 },
+    ])
+    expect(calculateCreditNoteTotals(lines)).toEqual({ subtotal: 120, tax: 19, total: 139 })
+
+    const included = buildCreditNoteLines(items, [{ invoiceItemId: 'plan', amount: 119 }], true)
+    expect(included.lines[0].taxAmount).toBe(19)
+    expect(calculateCreditNoteTotals(included.lines, true)).toEqual({ subtotal: 100, tax: 19, total: 119 })
+  })
+
+  it('splits a refunded amount with the invoice tax ratio', () => {
+    expect(splitCreditAmount(119, { subtotal: 600, tax: 114 })).toEqual({ subtotal: 100, tax: 19, total: 119 })
+    expect(splitCreditAmount(50, { subtotal: 0, tax: 0 })).toEqual({ subtotal: 50, tax: 0, total: 50 })
+  })
+
+  it('uses the oldest credit notes first', () => {
+    expect(allocateCreditBalance([
+      { id: 'nc1', available: 30 },
+      { id: 'nc2', available: 0 },
+      { id: 'nc3', available: 100 },
+    ], 80)).toEqual([
+      { creditNoteId: 'nc1', amount: 30 },
+      { creditNoteId: 'nc3', amount: 50 },
+    ])
+  })
+})
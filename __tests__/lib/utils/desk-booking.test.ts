@@ -0,0 +1,41 @@
+import {
+  deskPeriodsOverlap,
+  getDeskBookingPrice,
+  getDeskPeriodWindow,
+  getRemainingDeskCapacity,
+} from '@/lib/utils/desk-booking'
+
+describe('desk booking', () => {
+  it('splits the day into morning and afternoon', () => {
+    const date = new Date(2025, 2, 10)
+
+    expect(getDeskPeriodWindow(date, 'FULL_DAY')).toEqual({
+      start: new Date(2025, 2, 10, 8),
+      end: new Date(2025, 2, 10, 18),
+    })
+    expect(getDeskPeriodWindow(date, 'MORNING').end).toEqual(new Date(2025, 2, 10, 13))
+    expect(getDeskPeriodWindow(date, 'AFTERNOON', { openHour: 7, middayHour: 12, closeHour: 20 })).toEqual({
+      start: new Date(2025, 2, 10, 12),
+      end: new Date(2025, 2, 10, 20),
+    })
+  })
+
+  it('only lets the two halves of a day share a desk', () => {
+    expect(deskPeriodsOverlap('MORNING', 'AFTERNOON')).toBe(false)
+    expect(deskPeriodsOverlap('MORNING', 'MORNING')).toBe(true)
+    expect(deskPeriodsOverlap('FULL_DAY', 'AFTERNOON')).toBe(true)
+  })
+
+  it('charges half days half and lets desk plans book for free', () => {
+    expect(getDeskBookingPrice(25, 'FULL_DAY')).toBe(25)
+    expect(getDeskBookingPrice(25, 'MORNING', 'MEETING_ROOM')).toBe(12.5)
+    expect(getDeskBookingPrice(25, 'FULL_DAY', 'HOT_DESK')).toBe(0)
+    expect(getDeskBookingPrice(null, 'FULL_DAY')).toBe(0)
+  })
+
+  it('counts occupied desks against the occupancy limit', () => {
+    expect(getRemainingDeskCapacity(8, 10)).toBe(2)
+    expect(getRemainingDeskCapacity(12, 10)).toBe(0)
+    expect(getRemainingDeskCapacity(50, null)).toBe(Infinity)
+  })
+})
@@ -0,0 +1,160 @@
+import { createHash, createVerify, generateKeyPairSync } from 'crypto'
+import {
+  buildDteDocument,
+  calculateDteTotals,
+  formatRut,
+  isValidRut,
+  parseCaf,
+  selectDteDocumentType,
+  signDte,
+  toDteLines,
+  toSiiRut,
+  type DteDraft,
+} from '@/lib/utils/dte'
+
+describe('chilean electronic documents', () => {
+  const cafKeys = generateKeyPairSync('rsa', { modulusLength: 1024 })
+  const certificateKeys = generateKeyPairSync('rsa', { modulusLength: 1024 })
+  const cafPrivateKey = cafKeys.privateKey.export({ type: 'pkcs1', format: 'pem' }).toString()
+
+  const cafXml = `<?xml version="1.0"?>
+<AUTORIZACION>
+  <CAF version="1.0">
+    <DA>
+      <RE>76123456-0</RE>
+      <RS>COWORK SPA</RS>
+      <TD>33</TD>
+      <RNG><D>101</D><H>200</H></RNG>
+      <FA>2026-01-15</FA>
+      <RSAPK><M>bW9kdWx1cw==</M><E>Aw==</E></RSAPK>
+      <IDK>100</IDK>
+    </DA>
+    <FRMA algoritmo="SHA1withRSA">ZmlybWE=</FRMA>
+  </CAF>
+  <RSASK>${cafPrivateKey}</RSASK>
+  <RSAPUBK>public</RSAPUBK>
+</AUTORIZACION>`
+
+  const issuer = {
+    rut: '76.123.456-0',
+    businessName: 'Cowork SpA',
+    businessActivity: 'Arriendo de oficinas',
+    activityCode: 681011,
+    address: 'Av. Providencia 1234',
+    commune: 'Providencia',
+    city: 'Santiago',
+  }
+
+  it('validates and formats RUTs', () => {
+    expect(isValidRut('76.123.456-0')).toBe(true)
+    expect(isValidRut('12.345.678-5')).toBe(true)
+    expect(isValidRut('11.111.111-1')).toBe(true)
+    expect(isValidRut('76.123.456-7')).toBe(false)
+    expect(isValidRut('abc')).toBe(false)
+    expect(toSiiRut('76.123.456-0')).toBe('76123456-0')
+    expect(formatRut('123456785')).toBe('12.345.678-5')
+  })
+
+  it('reads the folio range and key of a CAF file', () => {
+    const caf = parseCaf(cafXml)
+
+    expect(caf).toMatchObject({ issuerRut: '76123456-0', documentTypeCode: 33, rangeStart: 101, rangeEnd: 200 })
+    expect(caf.cafElement.startsWith('<CAF version="1.0"><DA><RE>')).toBe(true)
+    expect(caf.privateKeyPem).toContain('BEGIN RSA PRIVATE KEY')
+    expect(() => parseCaf('<AUTORIZACION></AUTORIZACION>')).toThrow('Invalid CAF file')
+  })
+
+  it('issues facturas to clients with a RUT and boletas to everyone else', () => {
+    const taxed = [{ description: 'Oficina', quantity: 1, unitPrice: 100000, total: 100000, taxRate: 19, taxAmount: 19000 }]
+    const exempt = [{ ...taxed[0], taxRate: 0, taxAmount: 0 }]
+
+    expect(selectDteDocumentType('12.345.678-5', taxed)).toBe('FACTURA')
+    expect(selectDteDocumentType('12.345.678-5', exempt)).toBe('FACTURA_EXENTA')
+    expect(selectDteDocumentType(null, taxed)).toBe('BOLETA')
+    expect(selectDteDocumentType('12.345.678-0', exempt)).toBe('BOLETA_EXENTA')
+  })
+
+  it('turns lines into net or gross amounts and negative lines into discounts', () => {
+    const source = [
+      { description: 'Plan mensual', quantity: 1, unitPrice: 100000, total: 100000, taxRate: 19, taxAmount: 19000 },
+      { description: 'Crédito por cambio de plan', quantity: 1, unitPrice: -20000, total: -20000, taxRate: 19, taxAmount: -3800 },
+      { description: 'Café', quantity: 4, unitPrice: 2500, total: 10000, taxRate: 0, taxAmount: 0 },
+    ]
+
+    const factura = toDteLines(source, false, 'FACTURA')
+    expect(factura.lines.map(line => [line.amount, line.exempt])).toEqual([[100000, false], [10000, true]])
+    expect(factura.discounts).toEqual([{ description: 'Crédito por cambio de plan', amount: 20000, exempt: false }])
+    expect(calculateDteTotals(factura.lines, factura.discounts, 'FACTURA')).toEqual({
+      net: 80000, exempt: 10000, taxRate: 19, tax: 15200, total: 105200,
+    })
+
+    const boleta = toDteLines(source.slice(0, 1), false, 'BOLETA')
+    expect(boleta.lines[0].amount).toBe(119000)
+    expect(calculateDteTotals(boleta.lines, boleta.discounts, 'BOLETA')).toMatchObject({ net: 100000, tax: 19000, total: 119000 })
+
+    expect(() => toDteLines([{ ...source[0], taxRate: 10 }], false, 'FACTURA')).toThrow('19% IVA')
+    expect(() => toDteLines(source, false, 'FACTURA_EXENTA')).toThrow('exempt document')
+  })
+
+  it('builds a stamped and signed document', () => {
+    const caf = parseCaf(cafXml)
+    const { lines, discounts } = toDteLines(
+      [{ description: 'Oficina privada & sala', quantity: 2, unitPrice: 50000, total: 100000, taxRate: 19, taxAmount: 19000 }],
+      false,
+      'FACTURA'
+    )
+    const draft: DteDraft = {
+      documentType: 'FACTURA',
+      folio: 101,
+      issueDate: new Date(2026, 2, 10),
+      issuer,
+      receiver: { rut: '12.345.678-5', name: 'Cliente "Uno" Ltda', businessActivity: 'Consultoría' },
+      lines,
+      discounts,
+      totals: calculateDteTotals(lines, discounts, 'FACTURA'),
+    }
+
+    const document = buildDteDocument(draft, caf, new Date(2026, 2, 10, 9, 30))
+    expect(document.id).toBe('F101T33')
+    expect(document.content).toContain('<NmbItem>Oficina privada &amp; sala</NmbItem>')
+    expect(document.content).toContain('<MntNeto>100000</MntNeto><TasaIVA>19</TasaIVA><IVA>19000</IVA><MntTotal>119000</MntTotal>')
+
+    const dd = document.ted.match(/<DD>.*<\/DD>/)?.[0] ?? ''
+    const frmt = document.ted.match(/<FRMT algoritmo="SHA1withRSA">(.*)<\/FRMT>/)?.[1] ?? ''
+    expect(dd).toContain('<RSR>Cliente Uno Ltda</RSR>')
+    expect(createVerify('RSA-SHA1').update(Buffer.from(dd, 'latin1')).verify(cafKeys.publicKey, frmt, 'base64')).toBe(true)
+
+    const xml = signDte(document, {
+      certificatePem: '-----BEGIN CERTIFICATE-----\nY2VydA==\n-----END CERTIFICATE-----',
+      privateKeyPem: certificateKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    })
+    const canonical = `<Documento xmlns="http://www.sii.cl/SiiDte" ID="F101T33">${document.content}</Documento>`
+    const digest = createHash('sha1').update(canonical).digest('base64')
+    const signedInfo = xml.match(/<SignedInfo>.*<\/SignedInfo>/)?.[0] ?? ''
+    const signatureValue = xml.match(/<SignatureValue>(.*)<\/SignatureValue>/)?.[1] ?? ''
+
+    expect(signedInfo).toContain(`<DigestValue>${digest}</DigestValue>`)
+    expect(createVerify('RSA-SHA1')
+      .update(signedInfo.replace('<SignedInfo>', '<SignedInfo xmlns="http://www.w3.org/2000/09/xmldsig#">'))
+      .verify(certificateKeys.publicKey, signatureValue, 'base64')).toBe(true)
+    expect(xml).toContain('<X509Certificate>Y2VydA==</X509Certificate>')
+  })
+
+  it('refuses folios the CAF does not authorize', () => {
+    const caf = parseCaf(cafXml)
+    const lines = [{ description: 'Oficina', quantity: 1, unitPrice: 1000, amount: 1000, exempt: false }]
+    const draft: DteDraft = {
+      documentType: 'FACTURA',
+      folio: 201,
+      issueDate: new Date(),
+      issuer,
+      receiver: { rut: '12.345.678-5', name: 'Cliente' },
+      lines,
+      discounts: [],
+      totals: calculateDteTotals(lines, [], 'FACTURA'),
+    }
+
+    expect(() => buildDteDocument(draft, caf, new Date())).toThrow('outside the CAF range')
+    expect(() => buildDteDocument({ ...draft, folio: 150, documentType: 'BOLETA' }, caf, new Date())).toThrow('document type')
+  })
+})
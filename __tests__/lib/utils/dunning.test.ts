@@ -0,0 +1,68 @@
+import {
+  calculateLateFee,
+  getDueDunningSteps,
+  getDunningSchedule,
+  renderDunningTemplate,
+  resolveDunningConfig,
+} from '@/lib/utils/dunning'
+
+describe('dunning utilities', () => {
+  const dueDate = new Date(2025, 0, 10)
+  const settings = {
+    dunningReminderDays: [7, 1, 1, -2],
+    gracePeriodDays: 15,
+    latePaymentFee: '5.00',
+    latePaymentFeeType: 'PERCENTAGE' as const,
+    retryFailedPayments: true,
+    autoCollectPayments: true,
+    maxRetryAttempts: 2,
+    retryIntervalDays: 5,
+  }
+  const config = resolveDunningConfig(settings)
+
+  it('resolves the tenant settings into a dunning configuration', () => {
+    expect(config).toEqual({
+      reminderDays: [1, 7],
+      gracePeriodDays: 15,
+      lateFee: 5,
+      lateFeeType: 'PERCENTAGE',
+      retryPayments: true,
+      maxRetryAttempts: 2,
+      retryIntervalDays: 5,
+    })
+    expect(resolveDunningConfig({ ...settings, autoCollectPayments: false }).retryPayments).toBe(false)
+  })
+
+  it('orders the collection schedule by date', () => {
+    expect(getDunningSchedule(dueDate, config).map(step => `${step.type}:${step.step}`)).toEqual([
+      'OVERDUE:0',
+      'LATE_FEE:0',
+      'REMINDER:1',
+      'PAYMENT_RETRY:1',
+      'REMINDER:2',
+      'PAYMENT_RETRY:2',
+      'SUSPENSION:0',
+    ])
+  })
+
+  it('returns the steps that are due and did not run yet', () => {
+    expect(getDueDunningSteps(dueDate, new Date(2025, 0, 9), config, new Set())).toEqual([])
+
+    const due = getDueDunningSteps(dueDate, new Date(2025, 0, 16), config, new Set(['OVERDUE:0', 'LATE_FEE:0']))
+    expect(due.map(step => `${step.type}:${step.step}`)).toEqual(['REMINDER:1', 'PAYMENT_RETRY:1'])
+
+    const withoutFee = resolveDunningConfig({ ...settings, latePaymentFee: 0, dunningReminderDays: [] })
+    expect(getDueDunningSteps(dueDate, new Date(2025, 1, 1), withoutFee, new Set()).map(step => step.type))
+      .toEqual(['OVERDUE', 'PAYMENT_RETRY', 'PAYMENT_RETRY', 'SUSPENSION'])
+  })
+
+  it('calculates fixed and percentage late fees', () => {
+    expect(calculateLateFee(1190, config)).toBe(59.5)
+    expect(calculateLateFee(1190, { lateFee: 2500, lateFeeType: 'FIXED' })).toBe(2500)
+  })
+
+  it('fills the reminder template placeholders', () => {
+    expect(renderDunningTemplate('Factura {{number}} vencida hace {{days}} días {{unknown}}', { number: 'INV-001000', days: 3 }))
+      .toBe('Factura INV-001000 vencida hace 3 días {{unknown}}')
+  })
+})
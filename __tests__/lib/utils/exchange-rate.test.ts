@@ -0,0 +1,71 @@
+import {
+  convertAmount,
+  findExchangeRate,
+  parseExchangeRateFile,
+  sumInCurrency,
+  type ExchangeRateRecord,
+} from '@/lib/utils/exchange-rate'
+
+describe('exchange rates', () => {
+  const rates: ExchangeRateRecord[] = [
+    { fromCurrency: 'CLF', toCurrency: 'CLP', rate: 39000, effectiveDate: new Date('2026-05-01T00:00:00Z') },
+    { fromCurrency: 'CLF', toCurrency: 'CLP', rate: 39100.5, effectiveDate: new Date('2026-05-10T00:00:00Z') },
+    { fromCurrency: 'USD', toCurrency: 'CLP', rate: 950, effectiveDate: new Date('2026-05-01T00:00:00Z') },
+  ]
+
+  it('uses the latest rate in effect on the document date', () => {
+    expect(findExchangeRate(rates, 'CLF', 'CLP', new Date('2026-05-09T18:00:00Z'))).toBe(39000)
+    expect(findExchangeRate(rates, 'CLF', 'CLP', new Date('2026-05-10T09:00:00Z'))).toBe(39100.5)
+    expect(findExchangeRate(rates, 'CLF', 'CLP', new Date('2026-04-30T00:00:00Z'))).toBeNull()
+    expect(findExchangeRate(rates, 'EUR', 'EUR', new Date('2026-04-30T00:00:00Z'))).toBe(1)
+  })
+
+  it('converts the other way round and through a common currency', () => {
+    const date = new Date('2026-05-12T00:00:00Z')
+
+    expect(convertAmount(rates, 19000, 'CLP', 'USD', date)).toBe(20)
+    expect(convertAmount(rates, 10, 'CLF', 'USD', date)).toBe(411.58)
+    expect(convertAmount(rates, 100, 'EUR', 'CLP', date)).toBeNull()
+  })
+
+  it('rounds converted amounts to the units of the target currency', () => {
+    expect(convertAmount(rates, 1.5, 'CLF', 'CLP', new Date('2026-05-10T00:00:00Z'))).toBe(58651)
+    expect(convertAmount(rates, 10.333, 'USD', 'CLP', new Date('2026-05-10T00:00:00Z'))).toBe(9816)
+  })
+
+  it('keeps amounts without a rate out of the total', () => {
+    const total = sumInCurrency(rates, [
+      { amount: 100000, currency: 'CLP', date: new Date('2026-05-02T00:00:00Z') },
+      { amount: 2, currency: 'CLF', date: new Date('2026-05-02T00:00:00Z') },
+      { amount: 10, currency: 'USD', date: new Date('2026-05-02T00:00:00Z') },
+      { amount: 50.25, currency: 'EUR', date: new Date('2026-05-02T00:00:00Z') },
+      { amount: 10.5, currency: 'EUR', date: new Date('2026-05-03T00:00:00Z') },
+    ], 'CLP')
+
+    expect(total).toEqual({ currency: 'CLP', total: 187500, count: 3, unconverted: { EUR: 60.75 } })
+  })
+
+  it('parses rate files with or without a target currency column', () => {
+    const series = parseExchangeRateFile([
+      'Serie histórica UF',
+      'Fecha;Moneda;Valor',
+      '01-05-2026;UF;39.000,00',
+      '02-05-2026;UF;',
+      '03-05-2026;UF;39.012,34',
+      '03-05-2026;UF;39.012,35',
+    ].join('\n'), 'CLP')
+
+    expect(series).toEqual([
+      { fromCurrency: 'CLF', toCurrency: 'CLP', rate: 39000, effectiveDate: new Date('2026-05-01T00:00:00Z') },
+      { fromCurrency: 'CLF', toCurrency: 'CLP', rate: 39012.35, effectiveDate: new Date('2026-05-03T00:00:00Z') },
+    ])
+
+    expect(parseExchangeRateFile('date,from,to,rate\n2026-05-01,usd,eur,0.92', 'CLP')).toEqual([
+      { fromCurrency: 'USD', toCurrency: 'EUR', rate: 0.92, effectiveDate: new Date('2026-05-01T00:00:00Z') },
+    ])
+    expect(() => parseExchangeRateFile('date,from,rate\n2026-05-01,dollars,950', 'CLP'))
+      .toThrow('Invalid exchange rate on line 2')
+    expect(() => parseExchangeRateFile('date,amount\n2026-05-01,950', 'CLP'))
+      .toThrow('The file needs date, currency and rate columns')
+  })
+})
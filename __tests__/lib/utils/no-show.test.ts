@@ -0,0 +1,71 @@
+import {
+  DEFAULT_NO_SHOW_POLICY,
+  buildNoShowFeeUsage,
+  evaluateNoShowStrikes,
+  getNoShowDeadline,
+  isNoShow,
+  resolveNoShowPolicy,
+} from '@/lib/utils/no-show'
+
+describe('no-show policy utilities', () => {
+  // Wednesday 15 January 2025, 10:00 local time
+  const startTime = new Date(2025, 0, 15, 10, 0)
+
+  it('lets the space override the tenant grace period and fee', () => {
+    const tenantSettings = { noShowPolicy: { graceMinutes: 20, fee: 5000, maxStrikes: 3 } }
+
+    expect(resolveNoShowPolicy(tenantSettings)).toEqual({
+      ...DEFAULT_NO_SHOW_POLICY,
+      graceMinutes: 20,
+      fee: 5000,
+      maxStrikes: 3,
+    })
+    expect(resolveNoShowPolicy(tenantSettings, { noShowGraceMinutes: 5, noShowFee: '2500.00' }))
+      .toEqual(expect.objectContaining({ graceMinutes: 5, fee: 2500, maxStrikes: 3 }))
+    expect(resolveNoShowPolicy(null, { noShowGraceMinutes: null, noShowFee: null })).toEqual(DEFAULT_NO_SHOW_POLICY)
+  })
+
+  it('only flags confirmed bookings without check-in after the grace period', () => {
+    const policy = { ...DEFAULT_NO_SHOW_POLICY, graceMinutes: 15 }
+    const booking = { status: 'CONFIRMED', startTime, hasCheckIn: false }
+
+    expect(getNoShowDeadline(startTime, policy)).toEqual(new Date(2025, 0, 15, 10, 15))
+    expect(isNoShow(booking, policy, new Date(2025, 0, 15, 10, 10))).toBe(false)
+    expect(isNoShow(booking, policy, new Date(2025, 0, 15, 10, 15))).toBe(true)
+    expect(isNoShow({ ...booking, hasCheckIn: true }, policy, new Date(2025, 0, 15, 11))).toBe(false)
+    expect(isNoShow({ ...booking, status: 'PENDING' }, policy, new Date(2025, 0, 15, 11))).toBe(false)
+  })
+
+  it('blocks members that reach the strike limit for the suspension period', () => {
+    const policy = { ...DEFAULT_NO_SHOW_POLICY, maxStrikes: 2, strikeWindowDays: 30, suspensionDays: 7 }
+    const noShows = [new Date(2024, 10, 1), new Date(2025, 0, 5), new Date(2025, 0, 10)]
+
+    expect(evaluateNoShowStrikes(noShows, policy, startTime)).toEqual({
+      strikes: 2,
+      blockedUntil: new Date(2025, 0, 17),
+    })
+    expect(evaluateNoShowStrikes(noShows, policy, new Date(2025, 0, 20)).blockedUntil).toBeNull()
+    expect(evaluateNoShowStrikes(noShows, { ...policy, maxStrikes: 0 }, startTime))
+      .toEqual({ strikes: 2, blockedUntil: null })
+  })
+
+  it('bills the no-show fee to the member client as usage', () => {
+    const booking = { id: 'booking-1', tenantId: 'tenant-1', spaceId: 'space-1', title: 'Reunión de equipo', startTime }
+
+    expect(buildNoShowFeeUsage(booking, 'client-1', 5000)).toEqual({
+      tenantId: 'tenant-1',
+      clientId: 'client-1',
+      resourceType: 'SPACE_BOOKING',
+      resourceId: 'space-1',
+      quantity: 1,
+      unit: 'items',
+      unitPrice: 5000,
+      totalCost: 5000,
+      usageDate: startTime,
+      billingPeriod: '2025-01',
+      metadata: { bookingId: 'booking-1', description: 'Inasistencia: Reunión de equipo' },
+    })
+    expect(buildNoShowFeeUsage(booking, 'client-1', 0)).toBeNull()
+    expect(buildNoShowFeeUsage(booking, null, 5000)).toBeNull()
+  })
+})
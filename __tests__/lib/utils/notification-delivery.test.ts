@@ -0,0 +1,101 @@
+import { createHmac } from 'crypto'
+import {
+  buildEmailMessage,
+  calculateNextNotificationAttempt,
+  calculateNotificationRates,
+  getReceiptUpdate,
+  verifyResendSignature,
+  verifyTwilioSignature,
+} from '@/lib/utils/notification-delivery'
+
+describe('notification delivery utilities', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+  const sent = { status: 'SENT', sentAt: now, deliveredAt: null, openedAt: null, clickedAt: null }
+
+  it('retries with a doubling delay until the retries are used up', () => {
+    const delayMinutes = (attempts: number) => {
+      const next = calculateNextNotificationAttempt(attempts, 3, 300, now)
+      return next ? (next.getTime() - now.getTime()) / 60000 : null
+    }
+
+    expect(delayMinutes(1)).toBe(5)
+    expect(delayMinutes(2)).toBe(10)
+    expect(delayMinutes(3)).toBe(20)
+    expect(delayMinutes(4)).toBeNull()
+    expect(calculateNextNotificationAttempt(1, 0, 300, now)).toBeNull()
+    expect(calculateNextNotificationAttempt(10, 20, 3600, now)!.getTime() - now.getTime()).toBe(24 * 60 * 60 * 1000)
+  })
+
+  it('moves notifications forward with the receipts providers send', () => {
+    const later = new Date('2026-06-01T12:05:00Z')
+
+    expect(getReceiptUpdate(sent, { providerMessageId: 'm1', type: 'DELIVERED', occurredAt: later }))
+      .toEqual({ status: 'DELIVERED', deliveredAt: later })
+    expect(getReceiptUpdate(sent, { providerMessageId: 'm1', type: 'CLICKED', occurredAt: later }))
+      .toEqual({ status: 'DELIVERED', deliveredAt: later, openedAt: later, clickedAt: later })
+    expect(getReceiptUpdate({ ...sent, status: 'SENDING', sentAt: null }, { providerMessageId: 'm1', type: 'SENT', occurredAt: later }))
+      .toEqual({ status: 'SENT', sentAt: later })
+    expect(getReceiptUpdate(sent, { providerMessageId: 'm1', type: 'BOUNCED', occurredAt: later, errorMessage: 'Mailbox full' }))
+      .toEqual({ status: 'BOUNCED', errorMessage: 'Mailbox full' })
+  })
+
+  it('ignores repeated and late receipts', () => {
+    const delivered = { ...sent, status: 'DELIVERED', deliveredAt: now, openedAt: now }
+
+    expect(getReceiptUpdate(delivered, { providerMessageId: 'm1', type: 'DELIVERED', occurredAt: now })).toBeNull()
+    expect(getReceiptUpdate(delivered, { providerMessageId: 'm1', type: 'SENT', occurredAt: now })).toBeNull()
+    expect(getReceiptUpdate(delivered, { providerMessageId: 'm1', type: 'OPENED', occurredAt: now })).toBeNull()
+    expect(getReceiptUpdate(delivered, { providerMessageId: 'm1', type: 'FAILED', occurredAt: now })).toBeNull()
+    expect(getReceiptUpdate({ ...sent, status: 'CANCELLED' }, { providerMessageId: 'm1', type: 'DELIVERED', occurredAt: now })).toBeNull()
+  })
+
+  it('calculates delivery and engagement rates', () => {
+    expect(calculateNotificationRates({ total: 20, sent: 16, delivered: 12, failed: 4, opened: 6, clicked: 1 })).toEqual({
+      deliveryRate: 75,
+      failureRate: 20,
+      openRate: 50,
+      clickRate: 8.3,
+    })
+    expect(calculateNotificationRates({ total: 0, sent: 0, delivered: 0, failed: 0, opened: 0, clicked: 0 }).deliveryRate).toBe(0)
+  })
+
+  it('verifies Resend and Twilio webhook signatures', () => {
+    const secret = `whsec_${Buffer.from('resend-secret').toString('base64')}`
+    const body = JSON.stringify({ type: 'email.delivered', data: { email_id: 'm1' } })
+    const timestamp = String(now.getTime() / 1000)
+    const signature = createHmac('sha256', 'resend-secret').update(`msg_1.${timestamp}.${body}`).digest('base64')
+    const headers = { id: 'msg_1', timestamp, signature: `v1,bad v1,${signature}` }
+
+    expect(verifyResendSignature(body, headers, secret, now)).toBe(true)
+    expect(verifyResendSignature(`${body} `, headers, secret, now)).toBe(false)
+    expect(verifyResendSignature(body, headers, secret, new Date(now.getTime() + 600_000))).toBe(false)
+    expect(verifyResendSignature(body, { ...headers, signature: null }, secret, now)).toBe(false)
+
+    const url = 'https://app.test/api/webhooks/notifications/twilio'
+    const params = { MessageStatus: 'delivered', MessageSid: 'SM1', AccountSid: 'AC1' }
+    const twilioSignature = createHmac('sha1', 'token')
+      .update(`${url}AccountSidAC1MessageSidSM1MessageStatusdelivered`)
+      .digest('base64')
+
+    expect(verifyTwilioSignature(url, params, twilioSignature, 'token')).toBe(true)
+    expect(verifyTwilioSignature(url, { ...params, MessageStatus: 'failed' }, twilioSignature, 'token')).toBe(false)
+    expect(verifyTwilioSignature(url, params, null, 'token')).toBe(false)
+  })
+
+  it('builds emails with encoded subjects and an HTML alternative', () => {
+    const message = buildEmailMessage({
+      from: 'SweetSpot <noreply@sweetspot.test>',
+      to: ['ana@example.com'],
+      subject: 'Reserva confirmada ✔',
+      text: 'Hola Ana',
+      html: '<p>Hola Ana</p>',
+      messageId: 'ntf_1@sweetspot.test',
+      date: now,
+    })
+
+    expect(message).toContain('Subject: =?UTF-8?B?UmVzZXJ2YSBjb25maXJtYWRhIOKclA==?=\r\n')
+    expect(message).toContain('Content-Type: multipart/alternative; boundary="alt_ntf_1sweetspottest"')
+    expect(message).toContain(`\r\n\r\n--alt_ntf_1sweetspottest\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${Buffer.from('Hola Ana').toString('base64')}\r\n`)
+    expect(message.endsWith('--alt_ntf_1sweetspottest--')).toBe(true)
+  })
+})
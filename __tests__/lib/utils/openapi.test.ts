@@ -0,0 +1,88 @@
+import { z } from 'zod'
+import { buildOpenApiDocument, getOperationParameters, zodToJsonSchema } from '@/lib/utils/openapi'
+import { generateApiClient, renderType } from '@/lib/utils/openapi-client'
+import { toSearchParams } from '@/lib/api-client/runtime'
+
+describe('OpenAPI utilities', () => {
+  it('describes the input Zod schemas accept', () => {
+    const schema = z.object({
+      title: z.string().min(1).max(200),
+      email: z.string().email().optional(),
+      seats: z.number().int().min(1).default(1),
+      startTime: z.date(),
+      status: z.enum(['PENDING', 'CONFIRMED']).nullable(),
+      tags: z.array(z.string()).max(5),
+      metadata: z.record(z.any()).optional(),
+    }).refine((data) => data.seats < 100)
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        email: { type: 'string', format: 'email' },
+        seats: { type: 'integer', minimum: 1, default: 1 },
+        startTime: { type: 'string', format: 'date-time' },
+        status: { type: 'string', enum: ['PENDING', 'CONFIRMED'], nullable: true },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        metadata: { type: 'object', additionalProperties: true },
+      },
+      required: ['title', 'startTime', 'status', 'tags'],
+    })
+  })
+
+  it('turns path and query schemas into parameters', () => {
+    const parameters = getOperationParameters({
+      method: 'get',
+      path: '/api/v1/spaces/{id}',
+      operationId: 'getSpace',
+      summary: 'Get a space',
+      tag: 'Spaces',
+      params: z.object({ id: z.string() }),
+      query: z.object({
+        ids: z.array(z.string()).optional(),
+        from: z.date().describe('Start of the range'),
+      }),
+    })
+
+    expect(parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'ids', in: 'query', required: false, schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: false },
+      { name: 'from', in: 'query', required: true, description: 'Start of the range', schema: { type: 'string', format: 'date-time' } },
+    ])
+  })
+
+  it('generates a client method and request types per operation', () => {
+    const document = buildOpenApiDocument({ title: 'Test API', version: '1.0.0', tags: [{ name: 'Spaces' }] }, [
+      {
+        method: 'put',
+        path: '/api/v1/spaces/{id}',
+        operationId: 'updateSpace',
+        summary: 'Update a space',
+        tag: 'Spaces',
+        scope: 'spaces:write',
+        params: z.object({ id: z.string() }),
+        body: z.object({ name: z.string(), capacity: z.number().int().optional() }),
+        notFound: true,
+      },
+    ])
+
+    expect(document.paths['/api/v1/spaces/{id}'].put).toMatchObject({
+      'x-api-key-scope': 'spaces:write',
+      requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/UpdateSpaceBody' } } } },
+      responses: { '404': { $ref: '#/components/responses/NotFound' } },
+    })
+
+    const client = generateApiClient(document, 'createTestClient')
+    expect(client).toContain('export interface UpdateSpaceBody {\n  name: string\n  capacity?: number\n}')
+    expect(client).toContain('updateSpace: <T = unknown>(id: string, body: UpdateSpaceBody) =>')
+    expect(client).toContain("requestApi<T>(fetcher, 'PUT', `/api/v1/spaces/${encodeURIComponent(id)}`, { body })")
+    expect(client).toContain('export type TestClient = ReturnType<typeof createTestClient>')
+
+    expect(renderType({ anyOf: [{ type: 'string', enum: ["it's"] }, { type: 'number' }], nullable: true }, '')).toBe("'it\\'s' | number | null")
+  })
+
+  it('sends arrays in the query comma separated and skips empty values', () => {
+    expect(toSearchParams({ page: 2, tags: ['a', 'b'], search: undefined, isActive: false })).toBe('page=2&tags=a%2Cb&isActive=false')
+    expect(toSearchParams()).toBe('')
+  })
+})
@@ -0,0 +1,58 @@
+import { createHmac } from 'crypto'
+import {
+  createIdempotencyKey,
+  fromMinorUnits,
+  toMinorUnits,
+  verifyMercadoPagoSignature,
+  verifyStripeSignature,
+} from '@/lib/utils/payment-gateway'
+
+describe('payment gateway utilities', () => {
+  const secret = 'whsec_test'
+  const body = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded' })
+  const now = new Date('2026-03-10T12:00:00Z')
+  const timestamp = Math.floor(now.getTime() / 1000)
+
+  const stripeHeader = (t: number, payload: string = body) =>
+    `t=${t},v1=${createHmac('sha256', secret).update(`${t}.${payload}`).digest('hex')}`
+
+  it('creates the same idempotency key for the same operation', () => {
+    const key = createIdempotencyKey('charge', 'pay_1', 1)
+
+    expect(key).toBe(createIdempotencyKey('charge', 'pay_1', 1))
+    expect(key).not.toBe(createIdempotencyKey('charge', 'pay_1', 2))
+    expect(key).toMatch(/^charge_[0-9a-f]{40}$/)
+  })
+
+  it('converts amounts to minor units, keeping zero-decimal currencies whole', () => {
+    expect(toMinorUnits(12.34, 'USD')).toBe(1234)
+    expect(toMinorUnits(0.1 + 0.2, 'EUR')).toBe(30)
+    expect(toMinorUnits(15000, 'CLP')).toBe(15000)
+    expect(fromMinorUnits(1234, 'usd')).toBe(12.34)
+    expect(fromMinorUnits(15000, 'clp')).toBe(15000)
+  })
+
+  it('verifies stripe signatures within the tolerance', () => {
+    expect(verifyStripeSignature(body, stripeHeader(timestamp), secret, now)).toBe(true)
+    expect(verifyStripeSignature(body, `${stripeHeader(timestamp)},v1=deadbeef`, secret, now)).toBe(true)
+    expect(verifyStripeSignature(`${body} `, stripeHeader(timestamp), secret, now)).toBe(false)
+    expect(verifyStripeSignature(body, stripeHeader(timestamp), 'other', now)).toBe(false)
+    expect(verifyStripeSignature(body, stripeHeader(timestamp - 600), secret, now)).toBe(false)
+    expect(verifyStripeSignature(body, 'v1=abc', secret, now)).toBe(false)
+  })
+
+  it('verifies mercado pago signatures over the notification manifest', () => {
+    const ts = String(now.getTime())
+    const sign = (manifest: string) => createHmac('sha256', secret).update(manifest).digest('hex')
+    const header = `ts=${ts},v1=${sign(`id:abc123;request-id:req-1;ts:${ts};`)}`
+
+    expect(verifyMercadoPagoSignature(header, secret, { dataId: 'ABC123', requestId: 'req-1' }, now)).toBe(true)
+    expect(verifyMercadoPagoSignature(header, secret, { dataId: 'abc124', requestId: 'req-1' }, now)).toBe(false)
+    expect(verifyMercadoPagoSignature(
+      `ts=${ts},v1=${sign(`ts:${ts};`)}`, secret, { dataId: null, requestId: null }, now
+    )).toBe(true)
+    expect(verifyMercadoPagoSignature(
+      header, secret, { dataId: 'abc123', requestId: 'req-1' }, new Date(now.getTime() + 3600000)
+    )).toBe(false)
+  })
+})
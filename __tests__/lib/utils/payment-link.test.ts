@@ -0,0 +1,49 @@
+import {
+  calculateInvoiceBalance,
+  calculatePaymentLinkExpiry,
+  generatePaymentLinkToken,
+  getPaymentLinkStatus,
+  validatePaymentAmount,
+} from '@/lib/utils/payment-link'
+
+describe('invoice payment links', () => {
+  const now = new Date('2026-05-10T12:00:00Z')
+
+  it('generates unguessable url-safe tokens', () => {
+    const token = generatePaymentLinkToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(generatePaymentLinkToken()).not.toBe(token)
+  })
+
+  it('keeps links alive at least until the invoice is due', () => {
+    expect(calculatePaymentLinkExpiry(now, new Date('2026-05-20T00:00:00Z'), 30))
+      .toEqual(new Date('2026-06-09T12:00:00Z'))
+    expect(calculatePaymentLinkExpiry(now, new Date('2026-07-01T00:00:00Z'), 30))
+      .toEqual(new Date('2026-07-02T00:00:00Z'))
+  })
+
+  it('reports revoked and expired links', () => {
+    const expiresAt = new Date('2026-06-01T00:00:00Z')
+
+    expect(getPaymentLinkStatus({ expiresAt }, now)).toBe('ACTIVE')
+    expect(getPaymentLinkStatus({ expiresAt, revokedAt: now }, now)).toBe('REVOKED')
+    expect(getPaymentLinkStatus({ expiresAt }, new Date('2026-06-01T00:00:00Z'))).toBe('EXPIRED')
+  })
+
+  it('calculates the balance left on an invoice', () => {
+    expect(calculateInvoiceBalance(119, 50.5, 'USD')).toBe(68.5)
+    expect(calculateInvoiceBalance(0.3, 0.1 + 0.2, 'USD')).toBe(0)
+    expect(calculateInvoiceBalance(100, 150, 'USD')).toBe(0)
+    expect(calculateInvoiceBalance(119000, 19000.4, 'CLP')).toBe(100000)
+  })
+
+  it('accepts partial payments up to the balance', () => {
+    expect(validatePaymentAmount(50, 68.5, 'USD')).toBeNull()
+    expect(validatePaymentAmount(68.5, 68.5, 'USD')).toBeNull()
+    expect(validatePaymentAmount(0, 68.5, 'USD')).toMatch(/positive/)
+    expect(validatePaymentAmount(68.51, 68.5, 'USD')).toMatch(/exceed/)
+    expect(validatePaymentAmount(10.005, 68.5, 'USD')).toMatch(/two decimals/)
+    expect(validatePaymentAmount(1000.5, 100000, 'CLP')).toMatch(/CLP amounts cannot have decimals/)
+  })
+})
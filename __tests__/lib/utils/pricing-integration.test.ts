@@ -0,0 +1,191 @@
+import { PricingCalculator, type DiscountRule } from '@/lib/utils/pricing'
+import { SpaceServicePricingCalculator, applyPriceOverride } from '@/lib/utils/pricing-integration'
+
+describe('SpaceServicePricingCalculator.calculateSpaceBookingPrice', () => {
+  const spaceConfig = {
+    basePrice: 10000,
+    currency: 'CLP',
+    pricingMode: 'HOURLY' as const,
+  }
+
+  // Wednesday 10:00 - 12:00 local time
+  const startTime = new Date(2025, 0, 15, 10, 0)
+  const endTime = new Date(2025, 0, 15, 12, 0)
+  const context = { clientId: 'space-1', date: startTime }
+
+  const baseOptions = {
+    spaceId: 'space-1',
+    spaceName: 'Sala Andes',
+    startTime,
+    endTime,
+    bookedAt: new Date(2025, 0, 14, 10, 0),
+  }
+
+  it('prices a booking from the hourly rate', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, baseOptions, context)
+
+    expect(result.total).toBe(20000)
+    expect(result.currency).toBe('CLP')
+    expect(result.lines).toHaveLength(1)
+    expect(result.lines[0]).toMatchObject({ type: 'SPACE', amount: 20000, referenceId: 'space-1' })
+  })
+
+  it('applies room pricing rules in priority order', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, {
+      ...baseOptions,
+      pricingRules: [
+        { id: 'r2', name: 'Tarifa plana', modifierType: 'REPLACEMENT', basePrice: 8000, priceModifier: 1, priority: 1 },
+        { id: 'r1', name: 'Recargo', modifierType: 'MULTIPLIER', priceModifier: 1.5, priority: 2 },
+      ],
+    }, context)
+
+    // Replacement first (16000), then the higher priority multiplier (24000)
+    expect(result.total).toBe(24000)
+    expect(result.lines.map(line => line.type)).toEqual(['SPACE', 'PRICING_RULE', 'PRICING_RULE'])
+  })
+
+  it('ignores rules outside their validity window or time conditions', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, {
+      ...baseOptions,
+      pricingRules: [
+        { id: 'r1', name: 'Expirada', modifierType: 'MULTIPLIER', priceModifier: 2, priority: 1, validTo: new Date(2024, 11, 31) },
+        { id: 'r2', name: 'Fin de semana', modifierType: 'MULTIPLIER', priceModifier: 2, priority: 1, conditions: { daysOfWeek: [0, 6] } },
+      ],
+    }, context)
+
+    expect(result.total).toBe(20000)
+  })
+
+  it('applies peak hour surcharges and last minute adjustments', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, {
+      ...baseOptions,
+      priceAdjustments: [
+        { id: 'a1', name: 'Hora punta', adjustmentType: 'PEAK_HOURS', value: 10, valueType: 'PERCENTAGE', priority: 2 },
+        { id: 'a2', name: 'Anticipada', adjustmentType: 'EARLY_BIRD', value: 20, valueType: 'PERCENTAGE', priority: 1 },
+        { id: 'a3', name: 'Último minuto', adjustmentType: 'LAST_MINUTE', value: 1000, valueType: 'FIXED_AMOUNT', priority: 0 },
+      ],
+    }, context)
+
+    // Booked one day ahead: peak (+2000) and last minute (+1000), no early bird
+    expect(result.total).toBe(23000)
+    expect(result.lines.filter(line => line.type === 'ADJUSTMENT').map(line => line.referenceId)).toEqual(['a1', 'a3'])
+  })
+
+  it('reads peak hours and weekends in the tenant time zone', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+    const santiagoConfig = { ...spaceConfig, timeZone: 'America/Santiago' }
+    const priceAdjustments = [
+      { id: 'a1', name: 'Hora punta', adjustmentType: 'PEAK_HOURS', value: 10, valueType: 'PERCENTAGE' as const, priority: 2 },
+      { id: 'a2', name: 'Fin de semana', adjustmentType: 'WEEKEND', value: 50, valueType: 'PERCENTAGE' as const, priority: 1 },
+    ]
+
+    // 12:00 UTC is 09:00 in Santiago (UTC-3 in January), inside peak hours
+    const morning = calculator.calculateSpaceBookingPrice(santiagoConfig, {
+      ...baseOptions,
+      startTime: new Date(Date.UTC(2025, 0, 15, 12)),
+      endTime: new Date(Date.UTC(2025, 0, 15, 14)),
+      bookedAt: new Date(Date.UTC(2025, 0, 10, 12)),
+      priceAdjustments,
+    }, context)
+    expect(morning.lines.filter(line => line.type === 'ADJUSTMENT').map(line => line.referenceId)).toEqual(['a1'])
+
+    // Saturday 01:00 UTC is still Friday 22:00 in Santiago: neither peak nor weekend
+    const friday = calculator.calculateSpaceBookingPrice(santiagoConfig, {
+      ...baseOptions,
+      startTime: new Date(Date.UTC(2025, 0, 18, 1)),
+      endTime: new Date(Date.UTC(2025, 0, 18, 3)),
+      bookedAt: new Date(Date.UTC(2025, 0, 10, 12)),
+      priceAdjustments,
+    }, context)
+    expect(friday.total).toBe(20000)
+  })
+
+  it('applies an early bird adjustment as a discount', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, {
+      ...baseOptions,
+      bookedAt: new Date(2025, 0, 1, 10, 0),
+      priceAdjustments: [
+        { id: 'a1', name: 'Anticipada', adjustmentType: 'EARLY_BIRD', value: 25, valueType: 'PERCENTAGE', priority: 1 },
+      ],
+    }, context)
+
+    expect(result.total).toBe(15000)
+  })
+
+  it('applies a matching discount code and records it', () => {
+    const discountRule: DiscountRule = {
+      id: 'd1',
+      name: 'Bienvenida',
+      type: 'PERCENTAGE',
+      value: 10,
+      couponCode: 'HOLA10',
+      stackable: false,
+      priority: 1,
+      isActive: true,
+    }
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator([], [discountRule]))
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, {
+      ...baseOptions,
+      discountCode: 'HOLA10',
+    }, context)
+
+    expect(result.subtotal).toBe(20000)
+    expect(result.discounts).toBe(2000)
+    expect(result.total).toBe(18000)
+    expect(result.discountCode).toBe('HOLA10')
+    expect(result.lines[result.lines.length - 1]).toMatchObject({ type: 'DISCOUNT', amount: -2000 })
+  })
+
+  it('adds service lines to the total', () => {
+    const calculator = new SpaceServicePricingCalculator(new PricingCalculator())
+
+    const result = calculator.calculateSpaceBookingPrice(spaceConfig, {
+      ...baseOptions,
+      services: [{
+        serviceConfig: { basePrice: 2500, currency: 'CLP', pricingMode: 'PER_UNIT' },
+        quantity: 4,
+        serviceId: 'coffee',
+        serviceName: 'Café',
+      }],
+    }, context)
+
+    expect(result.total).toBe(30000)
+    expect(result.lines[1]).toMatchObject({ type: 'SERVICE', amount: 10000, referenceId: 'coffee' })
+  })
+})
+
+describe('applyPriceOverride', () => {
+  const breakdown = {
+    currency: 'CLP',
+    lines: [{ type: 'SPACE' as const, description: 'Sala Andes (2.00 h)', amount: 20000 }],
+    subtotal: 20000,
+    discounts: 0,
+    total: 20000,
+    calculatedAt: '2025-01-14T10:00:00.000Z',
+  }
+
+  it('charges the amount set and keeps the calculated total', () => {
+    expect(applyPriceOverride(breakdown, 15000, 'admin-1')).toEqual({
+      ...breakdown,
+      total: 15000,
+      override: { calculatedTotal: 20000, setBy: 'admin-1' },
+    })
+  })
+
+  it('keeps the calculated price when no other amount is set', () => {
+    expect(applyPriceOverride(breakdown, 0, 'admin-1')).toBe(breakdown)
+    expect(applyPriceOverride(breakdown, undefined, 'admin-1')).toBe(breakdown)
+    expect(applyPriceOverride(breakdown, 20000, 'admin-1')).toBe(breakdown)
+  })
+})
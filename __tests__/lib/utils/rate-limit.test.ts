@@ -0,0 +1,90 @@
+import {
+  MemoryRateLimitStore,
+  checkRateLimit,
+  getRateLimitHeaders,
+  getRateLimitRoute,
+  pickRateLimitResult,
+} from '@/lib/utils/rate-limit'
+
+describe('rate limiting', () => {
+  const rule = { limit: 3, windowSeconds: 60 }
+  const windowStart = Date.UTC(2026, 5, 1, 12, 0, 0)
+
+  it('rejects requests over the limit within a window', async () => {
+    const store = new MemoryRateLimitStore()
+    const results = []
+
+    for (let i = 0; i < 5; i++) {
+      results.push(await checkRateLimit(store, 'key:1', rule, windowStart + i * 1000))
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false, false])
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0, 0])
+    expect(results.map(result => result.firstBreach)).toEqual([false, false, false, true, false])
+    expect(results[0].resetSeconds).toBe(60)
+  })
+
+  it('keeps counters apart per key', async () => {
+    const store = new MemoryRateLimitStore()
+
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit(store, 'key:1', rule, windowStart)
+    }
+
+    expect((await checkRateLimit(store, 'key:1', rule, windowStart)).allowed).toBe(false)
+    expect((await checkRateLimit(store, 'key:2', rule, windowStart)).allowed).toBe(true)
+  })
+
+  it('weighs the previous window by how much of it still overlaps', async () => {
+    const store = new MemoryRateLimitStore()
+
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit(store, 'key:1', rule, windowStart + 50_000)
+    }
+
+    // Right after the window turns the previous three requests still count almost fully
+    expect((await checkRateLimit(store, 'key:1', rule, windowStart + 61_000)).allowed).toBe(false)
+
+    // Two thirds into the next window only one of them is left
+    const result = await checkRateLimit(store, 'key:1', rule, windowStart + 100_000)
+    expect(result.allowed).toBe(true)
+    expect(result.remaining).toBe(0)
+  })
+
+  it('describes the limit in standard headers', async () => {
+    const store = new MemoryRateLimitStore()
+    const allowed = await checkRateLimit(store, 'key:1', { limit: 1, windowSeconds: 60 }, windowStart + 15_000)
+    const rejected = await checkRateLimit(store, 'key:1', { limit: 1, windowSeconds: 60 }, windowStart + 15_000)
+
+    expect(getRateLimitHeaders(allowed)).toEqual({
+      'RateLimit-Limit': '1',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '45',
+      'RateLimit-Policy': '1;w=60',
+    })
+    expect(getRateLimitHeaders(rejected)['Retry-After']).toBe('45')
+  })
+
+  it('counts requests to different records of a route together', () => {
+    expect(getRateLimitRoute('get', '/api/v1/spaces/clx1a2b3c4d5e6f7g8h9i0j1k')).toBe('GET /api/v1/spaces/:id')
+    expect(getRateLimitRoute('PUT', '/api/v1/bookings/123/checkout')).toBe('PUT /api/v1/bookings/:id/checkout')
+    expect(getRateLimitRoute('POST', '/api/v1/bookings/conflicts')).toBe('POST /api/v1/bookings/conflicts')
+    expect(getRateLimitRoute('GET', '/api/v1/visitors/6f1c2b7e-1d2a-4c3b-9e8f-0a1b2c3d4e5f'))
+      .toBe('GET /api/v1/visitors/:id')
+  })
+
+  it('answers with the strictest of several limits', async () => {
+    const store = new MemoryRateLimitStore()
+    const caller = await checkRateLimit(store, 'key:1', { limit: 10, windowSeconds: 60 }, windowStart)
+    const tenant = await checkRateLimit(store, 'tenant:1', { limit: 5, windowSeconds: 60 }, windowStart)
+
+    expect(pickRateLimitResult([caller, tenant])).toBe(tenant)
+
+    await checkRateLimit(store, 'key:2', rule, windowStart)
+    await checkRateLimit(store, 'key:2', rule, windowStart)
+    await checkRateLimit(store, 'key:2', rule, windowStart)
+    const rejected = await checkRateLimit(store, 'key:2', rule, windowStart)
+
+    expect(pickRateLimitResult([caller, rejected])).toBe(rejected)
+  })
+})
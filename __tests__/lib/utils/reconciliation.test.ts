@@ -0,0 +1,122 @@
+import {
+  detectBankStatementFormat,
+  findDuplicateLines,
+  isAutoMatch,
+  matchStatementLines,
+  parseBankStatement,
+  parseStatementAmount,
+  scoreReconciliationMatch,
+  type BankStatementLine,
+  type ReconciliationCandidate,
+} from '@/lib/utils/reconciliation'
+
+describe('bank reconciliation', () => {
+  const line = (overrides: Partial<BankStatementLine> = {}): BankStatementLine => ({
+    transactionReference: 'TRX-1',
+    bankReference: null,
+    amount: 119000,
+    currency: 'CLP',
+    transactionDate: new Date('2026-05-12T00:00:00Z'),
+    description: 'TRANSFERENCIA DE ACME SPA FACT INV-2026-0012',
+    ...overrides,
+  })
+
+  const invoice: ReconciliationCandidate = {
+    type: 'INVOICE',
+    id: 'invoice-1',
+    amount: 119000,
+    currency: 'CLP',
+    date: new Date('2026-05-01T00:00:00Z'),
+    dueDate: new Date('2026-05-31T00:00:00Z'),
+    references: ['INV-2026-0012'],
+  }
+
+  it('reads amounts in the formats banks export', () => {
+    expect(parseStatementAmount('1.234,56')).toBe(1234.56)
+    expect(parseStatementAmount('1,234.56')).toBe(1234.56)
+    expect(parseStatementAmount('$ 119.000')).toBe(119000)
+    expect(parseStatementAmount('(50.00)')).toBe(-50)
+    expect(parseStatementAmount('')).toBeNull()
+  })
+
+  it('parses CSV statements with a preamble and separate credit and debit columns', () => {
+    const csv = [
+      'Cuenta Corriente;000-123456-7',
+      'Fecha;Descripción;N° Documento;Cargos;Abonos;Saldo',
+      '12/05/2026;"TRANSF. ACME SPA; FACT INV-2026-0012";88123;;119.000;500.000',
+      '13/05/2026;COMISION MANTENCION;;5.950;;494.050',
+      'Saldo final;;;;;494.050',
+    ].join('\n')
+
+    expect(detectBankStatementFormat(csv)).toBe('CSV')
+    expect(parseBankStatement(csv, 'CSV', 'CLP')).toEqual([
+      expect.objectContaining({
+        transactionReference: '88123',
+        amount: 119000,
+        currency: 'CLP',
+        transactionDate: new Date('2026-05-12T00:00:00Z'),
+        description: 'TRANSF. ACME SPA; FACT INV-2026-0012',
+      }),
+      expect.objectContaining({ amount: -5950, bankReference: null }),
+    ])
+  })
+
+  it('parses OFX and CAMT.053 statements', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260512120000<TRNAMT>250.00<FITID>F-991<NAME>ACME LLC<MEMO>INV-2026-0012</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`
+
+    const camt = `<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry><Amt Ccy="EUR">80.50</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts><BookgDt><Dt>2026-05-12</Dt></BookgDt>
+<AcctSvcrRef>CAMT-1</AcctSvcrRef><NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+<RltdPties><Dbtr><Nm>Acme GmbH</Nm></Dbtr></RltdPties><RmtInf><Ustrd>INV-2026-0012</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+<Ntry><Amt Ccy="EUR">10.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts><BookgDt><Dt>2026-05-13</Dt></BookgDt></Ntry>
+</Stmt></BkToCstmrStmt></Document>`
+
+    expect(detectBankStatementFormat(ofx)).toBe('OFX')
+    expect(parseBankStatement(ofx, 'OFX', 'CLP')).toEqual([expect.objectContaining({
+      transactionReference: 'F-991',
+      amount: 250,
+      currency: 'USD',
+      description: 'ACME LLC INV-2026-0012',
+    })])
+
+    expect(detectBankStatementFormat(camt)).toBe('CAMT053')
+    expect(parseBankStatement(camt, 'CAMT053', 'CLP')).toEqual([expect.objectContaining({
+      transactionReference: 'CAMT-1',
+      bankReference: null,
+      amount: 80.5,
+      currency: 'EUR',
+      description: 'Acme GmbH INV-2026-0012',
+    })])
+  })
+
+  it('scores matches by reference, amount and date', () => {
+    const exact = scoreReconciliationMatch(line(), invoice)
+    expect(exact).toEqual({ confidence: 100, discrepancyType: null, discrepancyAmount: 0 })
+    expect(isAutoMatch(exact)).toBe(true)
+
+    const withoutReference = scoreReconciliationMatch(line({ description: 'TRANSFERENCIA DE ACME SPA' }), invoice)
+    expect(withoutReference).toMatchObject({ confidence: 50, discrepancyType: 'REFERENCE_MISMATCH' })
+    expect(isAutoMatch(withoutReference)).toBe(false)
+
+    const partial = scoreReconciliationMatch(line({ amount: 50000 }), invoice)
+    expect(partial).toMatchObject({ confidence: 75, discrepancyType: 'AMOUNT_MISMATCH', discrepancyAmount: -69000 })
+
+    expect(scoreReconciliationMatch(line({ currency: 'USD' }), invoice).confidence).toBe(0)
+  })
+
+  it('matches each payment or invoice to one line and flags repeated lines', () => {
+    // A transfer the client already reported wins over the invoice it pays
+    const payment: ReconciliationCandidate = { ...invoice, type: 'PAYMENT', id: 'payment-1', date: new Date('2026-05-11T00:00:00Z') }
+    const lines = [line(), line({ transactionReference: 'TRX-2' }), line({ transactionReference: 'TRX-3' })]
+
+    const matches = matchStatementLines(lines, [payment, invoice])
+    expect(matches.map(match => match?.candidate.id ?? null)).toEqual(['payment-1', 'invoice-1', null])
+
+    expect(findDuplicateLines([line(), line(), line({ transactionReference: 'OLD' })], new Set(['OLD'])))
+      .toEqual([false, true, true])
+  })
+})
@@ -0,0 +1,83 @@
+import {
+  buildRRule,
+  countOccurrencesBefore,
+  expandRecurrence,
+  getOccurrenceKey,
+  parseRRule,
+} from '@/lib/utils/recurrence'
+
+describe('recurrence utilities', () => {
+  // Monday 6 January 2025, 09:00 - 10:00 local time
+  const seriesStart = new Date(2025, 0, 6, 9, 0)
+  const oneHour = 60 * 60 * 1000
+
+  it('expands a daily rule with an interval and count', () => {
+    const occurrences = expandRecurrence({ pattern: 'DAILY', interval: 2, occurrences: 3 }, seriesStart, oneHour)
+
+    expect(occurrences.map(o => getOccurrenceKey(o.startTime))).toEqual(['2025-01-06', '2025-01-08', '2025-01-10'])
+    expect(occurrences[0].endTime).toEqual(new Date(2025, 0, 6, 10, 0))
+  })
+
+  it('expands weekly rules on several weekdays until the end date', () => {
+    const occurrences = expandRecurrence({
+      pattern: 'WEEKLY',
+      interval: 1,
+      daysOfWeek: [1, 3, 5],
+      endDate: new Date(2025, 0, 12, 23, 59),
+    }, seriesStart, oneHour)
+
+    expect(occurrences.map(o => getOccurrenceKey(o.startTime))).toEqual(['2025-01-06', '2025-01-08', '2025-01-10'])
+    expect(occurrences.every(o => o.startTime.getHours() === 9)).toBe(true)
+  })
+
+  it('skips exception dates but still counts them towards COUNT', () => {
+    const occurrences = expandRecurrence({
+      pattern: 'WEEKLY',
+      interval: 1,
+      occurrences: 3,
+      exceptions: [new Date(2025, 0, 13)],
+    }, seriesStart, oneHour)
+
+    expect(occurrences.map(o => o.index)).toEqual([0, 2])
+    expect(getOccurrenceKey(occurrences[1].startTime)).toBe('2025-01-20')
+  })
+
+  it('skips months without the requested day of month', () => {
+    const occurrences = expandRecurrence(
+      { pattern: 'MONTHLY', interval: 1, occurrences: 3 },
+      new Date(2025, 0, 31, 9, 0),
+      oneHour
+    )
+
+    expect(occurrences.map(o => getOccurrenceKey(o.startTime))).toEqual(['2025-01-31', '2025-03-31', '2025-05-31'])
+  })
+
+  it('only returns occurrences inside the requested window', () => {
+    const occurrences = expandRecurrence({ pattern: 'DAILY', interval: 1 }, seriesStart, oneHour, {
+      from: new Date(2025, 0, 8),
+      until: new Date(2025, 0, 10, 23, 59),
+    })
+
+    expect(occurrences.map(o => o.index)).toEqual([2, 3, 4])
+  })
+
+  it('round-trips rules through RRULE strings', () => {
+    const rule = buildRRule({ pattern: 'WEEKLY', interval: 2, daysOfWeek: [5, 1], occurrences: 10 })
+
+    expect(rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=10')
+    expect(parseRRule(`RRULE:${rule}`)).toEqual({
+      pattern: 'WEEKLY',
+      interval: 2,
+      daysOfWeek: [1, 5],
+      occurrences: 10,
+    })
+    expect(parseRRule('FREQ=DAILY;UNTIL=20250131T120000Z').endDate).toEqual(new Date(Date.UTC(2025, 0, 31, 12)))
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow()
+  })
+
+  it('counts the occurrences before a split point', () => {
+    const config = { pattern: 'WEEKLY' as const, interval: 1, occurrences: 10, exceptions: [new Date(2025, 0, 13)] }
+
+    expect(countOccurrencesBefore(config, seriesStart, new Date(2025, 0, 27, 9, 0))).toBe(3)
+  })
+})
@@ -0,0 +1,90 @@
+import {
+  buildPlanChangeProration,
+  buildSubscriptionInvoice,
+  getNextBillingPeriod,
+  getProratedPlanFee,
+  getProrationDays,
+  getUsageCutoff,
+} from '@/lib/utils/subscription-billing'
+
+describe('subscription billing', () => {
+  const period = { start: new Date(2025, 0, 15), end: new Date(2025, 1, 15) }
+
+  it('advances to the next period of the billing cycle', () => {
+    expect(getNextBillingPeriod(period, { cycle: 'MONTHLY', dayOfMonth: 15 })).toEqual({
+      start: new Date(2025, 1, 15),
+      end: new Date(2025, 2, 15),
+    })
+
+    expect(getNextBillingPeriod(
+      { start: new Date(2025, 0, 6), end: new Date(2025, 0, 13) },
+      { cycle: 'WEEKLY', dayOfWeek: 1 }
+    ).end).toEqual(new Date(2025, 0, 20))
+  })
+
+  it('stops billing usage at the cutoff', () => {
+    expect(getUsageCutoff(period, 0)).toEqual(period.end)
+    expect(getUsageCutoff(period, 3)).toEqual(new Date(2025, 1, 12))
+  })
+
+  it('adds the usage of the period to the plan fee', () => {
+    const invoice = buildSubscriptionInvoice(
+      { name: 'Hot Desk', price: 100 },
+      period,
+      [{ id: 'u1', description: 'Sala de reuniones', quantity: 2.5, unitPrice: 10, total: 25 }],
+      { rules: [], context: { pricesIncludeTax: false, exempt: false, fallbackRate: 19 } }
+    )
+
+    expect(invoice.lines).toEqual([
+      { description: 'Hot Desk (15/01/2025 - 14/02/2025)', quantity: 1, unitPrice: 100, total: 100, taxRuleId: null, taxRate: 19, taxAmount: 19 },
+      { description: 'Sala de reuniones', quantity: 3, unitPrice: 8.33, total: 25, taxRuleId: null, taxRate: 19, taxAmount: 4.75 },
+    ])
+    expect(invoice).toMatchObject({ subtotal: 125, tax: 23.75, total: 148.75 })
+  })
+
+  it('splits the tax out of prices that include it', () => {
+    const invoice = buildSubscriptionInvoice({ name: 'Plan', price: 119 }, period, [], {
+      rules: [],
+      context: { pricesIncludeTax: true, exempt: false, fallbackRate: 19 },
+    })
+
+    expect(invoice).toMatchObject({ subtotal: 100, tax: 19, total: 119 })
+  })
+
+  it('taxes the plan fee and the usage by their own rules', () => {
+    const rules = [
+      { id: 'iva', name: 'IVA 19%', rate: 19, type: 'VAT' as const, jurisdiction: 'CL', isActive: true },
+      { id: 'exento', name: 'Exento', rate: 0, type: 'VAT' as const, jurisdiction: 'CL', conditions: { serviceTypes: ['PARKING'] }, isActive: true },
+    ]
+    const invoice = buildSubscriptionInvoice(
+      { name: 'Hot Desk', price: 100 },
+      period,
+      [{ id: 'u1', description: 'Estacionamiento', quantity: 1, unitPrice: 50, total: 50, category: 'PARKING' }],
+      { rules, context: { pricesIncludeTax: false, exempt: false } }
+    )
+
+    expect(invoice.lines.map(line => line.taxRuleId)).toEqual(['iva', 'exento'])
+    expect(invoice).toMatchObject({ subtotal: 150, tax: 19, total: 169 })
+  })
+
+  it('prorates the plan fee by the days used', () => {
+    expect(getProrationDays(period, new Date(2025, 0, 25, 15))).toEqual({ used: 10, remaining: 21, total: 31 })
+    expect(getProrationDays(period, new Date(2025, 2, 1))).toEqual({ used: 31, remaining: 0, total: 31 })
+    expect(getProratedPlanFee(310, period, new Date(2025, 0, 25))).toBe(100)
+  })
+
+  it('charges the previous plan and credits the new one for the days before a change', () => {
+    const lines = buildPlanChangeProration(
+      { name: 'Hot Desk', price: 155 },
+      { name: 'Oficina Privada', price: 620 },
+      period,
+      new Date(2025, 0, 25)
+    )
+
+    expect(lines).toEqual([
+      { description: 'Cambio de plan: Hot Desk (15/01/2025 - 24/01/2025)', quantity: 10, unitPrice: 5, total: 50 },
+      { description: 'Cambio de plan: crédito Oficina Privada (15/01/2025 - 24/01/2025)', quantity: 10, unitPrice: -20, total: -200 },
+    ])
+    expect(buildPlanChangeProration({ name: 'A', price: 100 }, { name: 'B', price: 50 }, period, period.start)).toEqual([])
+  })
+})
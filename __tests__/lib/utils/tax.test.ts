@@ -0,0 +1,78 @@
+import {
+  calculateDocumentTaxes,
+  getDisplayLineAmounts,
+  selectTaxRule,
+  summarizeTaxes,
+} from '@/lib/utils/tax'
+import type { TaxRule } from '@/lib/utils/pricing'
+
+describe('tax engine', () => {
+  const rules: TaxRule[] = [
+    { id: 'iva', name: 'IVA 19%', rate: 19, type: 'VAT', jurisdiction: 'CL', isActive: true },
+    { id: 'exento', name: 'Exento', rate: 0, type: 'VAT', jurisdiction: 'CL', conditions: { serviceTypes: ['FOOD'] }, isActive: true },
+    { id: 'lujo', name: 'Servicio premium', rate: 25, type: 'SERVICE_TAX', jurisdiction: 'CL', conditions: { serviceTypes: ['PARKING'], amountThreshold: 1000 }, isActive: true },
+    { id: 'viejo', name: 'IVA antiguo', rate: 16, type: 'VAT', jurisdiction: 'CL', isActive: false },
+  ]
+
+  it('prefers the chosen rule, then the category rule, then the general one', () => {
+    expect(selectTaxRule({ description: 'Café', quantity: 1, unitPrice: 5, category: 'FOOD' }, rules, 5)?.id).toBe('exento')
+    expect(selectTaxRule({ description: 'Oficina', quantity: 1, unitPrice: 500 }, rules, 500)?.id).toBe('iva')
+    expect(selectTaxRule({ description: 'Café', quantity: 1, unitPrice: 5, category: 'FOOD', taxRuleId: 'iva' }, rules, 5)?.id).toBe('iva')
+    expect(selectTaxRule({ description: 'Estacionamiento', quantity: 1, unitPrice: 50, category: 'PARKING' }, rules, 50)?.id).toBe('iva')
+    expect(selectTaxRule({ description: 'Oficina', quantity: 1, unitPrice: 500, taxRuleId: 'viejo' }, rules, 500)?.id).toBe('iva')
+  })
+
+  it('taxes every line by its own rule', () => {
+    const result = calculateDocumentTaxes([
+      { description: 'Oficina', quantity: 1, unitPrice: 500 },
+      { description: 'Café', quantity: 10, unitPrice: 3, category: 'FOOD' },
+    ], rules, { pricesIncludeTax: false, exempt: false })
+
+    expect(result.lines.map(line => [line.taxRuleId, line.taxAmount])).toEqual([['iva', 95], ['exento', 0]])
+    expect(result).toMatchObject({ amount: 530, subtotal: 530, tax: 95, total: 625 })
+    expect(result.breakdown).toEqual([
+      { taxRuleId: 'iva', name: 'IVA 19%', rate: 19, taxableAmount: 500, taxAmount: 95 },
+      { taxRuleId: 'exento', name: 'Exento', rate: 0, taxableAmount: 30, taxAmount: 0 },
+    ])
+  })
+
+  it('spreads a discount over the lines and extracts tax from inclusive prices', () => {
+    const result = calculateDocumentTaxes([
+      { description: 'Oficina', quantity: 1, unitPrice: 238 },
+      { description: 'Café', quantity: 1, unitPrice: 238, category: 'FOOD' },
+    ], rules, { pricesIncludeTax: true, exempt: false }, 238)
+
+    expect(result).toMatchObject({ amount: 476, discount: 238, subtotal: 219, tax: 19, total: 238 })
+  })
+
+  it('charges no tax to exempt clients and falls back to the settings rate without rules', () => {
+    const lines = [{ description: 'Oficina', quantity: 2, unitPrice: 100 }]
+
+    expect(calculateDocumentTaxes(lines, rules, { pricesIncludeTax: false, exempt: true })).toMatchObject({ tax: 0, total: 200 })
+    expect(calculateDocumentTaxes(lines, [], { pricesIncludeTax: false, exempt: false, fallbackRate: 10 })).toMatchObject({ tax: 20, total: 220 })
+  })
+
+  it('shows line amounts with or without tax', () => {
+    const line = { quantity: 2, unitPrice: 100, total: 200, taxAmount: 38 }
+
+    expect(getDisplayLineAmounts(line, false, 'EXCLUSIVE')).toEqual({ unitPrice: 100, total: 200 })
+    expect(getDisplayLineAmounts(line, false, 'INCLUSIVE')).toEqual({ unitPrice: 119, total: 238 })
+    expect(getDisplayLineAmounts({ ...line, total: 238, unitPrice: 119 }, true, 'EXCLUSIVE')).toEqual({ unitPrice: 100, total: 200 })
+  })
+
+  it('nets credited tax out of the period summary', () => {
+    const summary = summarizeTaxes(
+      [
+        { taxRuleId: 'iva', name: 'IVA 19%', rate: 19, taxableAmount: 1000, taxAmount: 190 },
+        { taxRuleId: 'exento', name: 'Exento', rate: 0, taxableAmount: 30, taxAmount: 0 },
+        { taxRuleId: 'iva', name: 'IVA 19%', rate: 19, taxableAmount: 500, taxAmount: 95 },
+      ],
+      [{ taxRuleId: 'iva', name: 'IVA 19%', rate: 19, taxableAmount: 100, taxAmount: 19 }]
+    )
+
+    expect(summary).toEqual([
+      { taxRuleId: 'iva', name: 'IVA 19%', rate: 19, taxableAmount: 1400, taxAmount: 285, creditedAmount: 19, netTaxAmount: 266 },
+      { taxRuleId: 'exento', name: 'Exento', rate: 0, taxableAmount: 30, taxAmount: 0, creditedAmount: 0, netTaxAmount: 0 },
+    ])
+  })
+})
@@ -0,0 +1,83 @@
+import {
+  getWaitlistHoldExpiry,
+  planWaitlistPromotion,
+  resolveExpiredWaitlistOffer,
+} from '@/lib/utils/waitlist'
+
+describe('waitlist utilities', () => {
+  const now = new Date('2025-01-15T09:00:00.000Z')
+  const at = (time: string) => new Date(`2025-01-15T${time}:00.000Z`)
+  const entry = (id: string, start: string, end: string, joined: string) => ({
+    id,
+    startTime: at(start),
+    endTime: at(end),
+    createdAt: new Date(`2025-01-10T${joined}:00.000Z`),
+  })
+
+  describe('getWaitlistHoldExpiry', () => {
+    it('holds the slot for the hold period', () => {
+      expect(getWaitlistHoldExpiry(now, at('14:00'), 30)).toEqual(at('09:30'))
+    })
+
+    it('never holds the slot past its start', () => {
+      expect(getWaitlistHoldExpiry(now, at('09:10'), 30)).toEqual(at('09:10'))
+    })
+  })
+
+  describe('planWaitlistPromotion', () => {
+    it('offers the slot to whoever joined first', () => {
+      const steps = planWaitlistPromotion([
+        entry('late', '10:00', '11:00', '12:00'),
+        entry('early', '10:00', '11:00', '08:00'),
+      ], new Set(), now, 30)
+
+      expect(steps).toEqual([
+        { entryId: 'early', action: 'OFFER', offerExpiresAt: at('09:30') },
+      ])
+    })
+
+    it('offers requests that do not overlap the one already offered', () => {
+      const steps = planWaitlistPromotion([
+        entry('first', '10:00', '11:00', '08:00'),
+        entry('overlapping', '10:30', '11:30', '09:00'),
+        entry('after', '11:00', '12:00', '10:00'),
+      ], new Set(), now, 30)
+
+      expect(steps.map(step => step.entryId)).toEqual(['first', 'after'])
+    })
+
+    it('passes over requests whose slot is still taken', () => {
+      const steps = planWaitlistPromotion([
+        entry('blocked', '10:00', '11:00', '08:00'),
+        entry('next', '10:00', '11:00', '09:00'),
+      ], new Set(['blocked']), now, 30)
+
+      expect(steps).toEqual([
+        { entryId: 'next', action: 'OFFER', offerExpiresAt: at('09:30') },
+      ])
+    })
+
+    it('expires requests whose slot already started', () => {
+      const steps = planWaitlistPromotion([
+        entry('started', '08:30', '10:00', '08:00'),
+        entry('upcoming', '09:15', '10:00', '09:00'),
+      ], new Set(), now, 30)
+
+      expect(steps).toEqual([
+        { entryId: 'started', action: 'EXPIRE' },
+        { entryId: 'upcoming', action: 'OFFER', offerExpiresAt: at('09:15') },
+      ])
+    })
+  })
+
+  describe('resolveExpiredWaitlistOffer', () => {
+    it('books members that opted in while the slot is ahead', () => {
+      expect(resolveExpiredWaitlistOffer({ autoConfirm: true, startTime: at('10:00') }, now)).toBe('CONFIRM')
+    })
+
+    it('expires the hold otherwise', () => {
+      expect(resolveExpiredWaitlistOffer({ autoConfirm: false, startTime: at('10:00') }, now)).toBe('EXPIRE')
+      expect(resolveExpiredWaitlistOffer({ autoConfirm: true, startTime: at('08:00') }, now)).toBe('EXPIRE')
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto'
+import { createVapidAuthorization, encryptPushPayload, parsePushSubscription } from '@/lib/utils/web-push'
+
+describe('web push utilities', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+
+  it('reads push subscriptions stored as JSON', () => {
+    const subscription = { endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys: { p256dh: 'key', auth: 'secret' } }
+
+    expect(parsePushSubscription(JSON.stringify(subscription))).toEqual(subscription)
+    expect(parsePushSubscription(JSON.stringify({ ...subscription, endpoint: 'http://push.test/abc' }))).toBeNull()
+    expect(parsePushSubscription('fcm-registration-token')).toBeNull()
+  })
+
+  it('encrypts payloads the browser can decrypt', () => {
+    const browser = createECDH('prime256v1')
+    browser.generateKeys()
+    const auth = randomBytes(16)
+    const subscription = {
+      endpoint: 'https://push.test/abc',
+      keys: { p256dh: browser.getPublicKey().toString('base64url'), auth: auth.toString('base64url') },
+    }
+
+    const body = encryptPushPayload(JSON.stringify({ title: 'Reserva confirmada' }), subscription)
+
+    // Decrypt the way RFC 8291 tells user agents to
+    const salt = body.subarray(0, 16)
+    const keyLength = body.readUInt8(20)
+    const senderPublicKey = body.subarray(21, 21 + keyLength)
+    const ciphertext = body.subarray(21 + keyLength)
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browser.getPublicKey(), senderPublicKey])
+    const inputKey = Buffer.from(hkdfSync('sha256', browser.computeSecret(senderPublicKey), auth, keyInfo, 32))
+    const contentKey = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16))
+    const nonce = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+
+    const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce)
+    decipher.setAuthTag(ciphertext.subarray(-16))
+    const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()])
+
+    expect(body.readUInt32BE(16)).toBe(4096)
+    expect(plaintext.subarray(-1)[0]).toBe(2)
+    expect(JSON.parse(plaintext.subarray(0, -1).toString())).toEqual({ title: 'Reserva confirmada' })
+  })
+
+  it('signs VAPID tokens for the origin of the endpoint', () => {
+    const server = createECDH('prime256v1')
+    server.generateKeys()
+    const keys = {
+      publicKey: server.getPublicKey().toString('base64url'),
+      privateKey: server.getPrivateKey().toString('base64url'),
+      subject: 'mailto:ops@sweetspot.test',
+    }
+
+    const header = createVapidAuthorization('https://push.test/send/abc?x=1', keys, now)
+    const [, token, publicKey] = header.match(/^vapid t=([\w-]+\.[\w-]+\.[\w-]+), k=([\w-]+)$/)!
+    const [encodedHeader, encodedClaims, signature] = token.split('.')
+
+    expect(publicKey).toBe(keys.publicKey)
+    expect(JSON.parse(Buffer.from(encodedClaims, 'base64url').toString())).toEqual({
+      aud: 'https://push.test',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:ops@sweetspot.test',
+    })
+
+    const point = server.getPublicKey()
+    const verifyKey = createPublicKey({
+      format: 'jwk',
+      key: { kty: 'EC', crv: 'P-256', x: point.subarray(1, 33).toString('base64url'), y: point.subarray(33).toString('base64url') },
+    })
+    expect(verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: verifyKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )).toBe(true)
+  })
+})
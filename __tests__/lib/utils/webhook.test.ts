@@ -0,0 +1,93 @@
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  calculateNextWebhookAttempt,
+  createWebhookPayload,
+  generateWebhookSecret,
+  isPublicWebhookAddress,
+  isSuccessfulWebhookResponse,
+  lookupPublicWebhookAddress,
+  signWebhookPayload,
+} from '@/lib/utils/webhook'
+import { verifyStripeSignature } from '@/lib/utils/payment-gateway'
+
+describe('webhook utilities', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+
+  it('signs deliveries so receivers can verify them like Stripe events', () => {
+    const secret = generateWebhookSecret()
+    const body = JSON.stringify(createWebhookPayload('tenant_1', 'invoice.paid', { id: 'inv_1' }, now))
+    const header = signWebhookPayload(body, secret, now)
+
+    expect(secret).toMatch(/^whsec_[\w-]{32}$/)
+    expect(header).toMatch(new RegExp(`^t=${now.getTime() / 1000},v1=[0-9a-f]{64}$`))
+    expect(verifyStripeSignature(body, header, secret, now)).toBe(true)
+    expect(verifyStripeSignature(`${body} `, header, secret, now)).toBe(false)
+    expect(verifyStripeSignature(body, header, generateWebhookSecret(), now)).toBe(false)
+  })
+
+  it('builds payloads with a unique event id', () => {
+    const payload = createWebhookPayload('tenant_1', 'booking.created', { id: 'bkg_1' }, now)
+
+    expect(payload).toEqual({
+      id: expect.stringMatching(/^evt_[0-9a-f]{32}$/),
+      type: 'booking.created',
+      createdAt: '2026-06-01T12:00:00.000Z',
+      tenantId: 'tenant_1',
+      data: { id: 'bkg_1' },
+    })
+    expect(createWebhookPayload('tenant_1', 'booking.created', {}, now).id).not.toBe(payload.id)
+  })
+
+  it('backs off exponentially up to a day, then gives up', () => {
+    const delayMinutes = (attempts: number) => {
+      const next = calculateNextWebhookAttempt(attempts, now)
+      return next ? (next.getTime() - now.getTime()) / 60000 : null
+    }
+
+    expect(delayMinutes(1)).toBe(5)
+    expect(delayMinutes(2)).toBe(10)
+    expect(delayMinutes(3)).toBe(20)
+    expect(delayMinutes(7)).toBe(320)
+    expect(delayMinutes(MAX_WEBHOOK_ATTEMPTS)).toBeNull()
+    expect(calculateNextWebhookAttempt(20, now)).toBeNull()
+  })
+
+  it('only counts 2xx responses as delivered', () => {
+    expect(isSuccessfulWebhookResponse(200)).toBe(true)
+    expect(isSuccessfulWebhookResponse(204)).toBe(true)
+    expect(isSuccessfulWebhookResponse(301)).toBe(false)
+    expect(isSuccessfulWebhookResponse(500)).toBe(false)
+  })
+
+  it('refuses to deliver to loopback, private and link-local addresses', () => {
+    expect(isPublicWebhookAddress('127.0.0.1')).toBe(false)
+    expect(isPublicWebhookAddress('10.1.2.3')).toBe(false)
+    expect(isPublicWebhookAddress('172.20.0.5')).toBe(false)
+    expect(isPublicWebhookAddress('192.168.1.10')).toBe(false)
+    expect(isPublicWebhookAddress('169.254.169.254')).toBe(false)
+    expect(isPublicWebhookAddress('0.0.0.0')).toBe(false)
+    expect(isPublicWebhookAddress('::1')).toBe(false)
+    expect(isPublicWebhookAddress('fd00::1')).toBe(false)
+    expect(isPublicWebhookAddress('fe80::1')).toBe(false)
+    expect(isPublicWebhookAddress('::ffff:127.0.0.1')).toBe(false)
+    expect(isPublicWebhookAddress('::ffff:a9fe:a9fe')).toBe(false)
+    expect(isPublicWebhookAddress('64:ff9b::a00:1')).toBe(false)
+    expect(isPublicWebhookAddress('64:ff9b::127.0.0.1')).toBe(false)
+    expect(isPublicWebhookAddress('not-an-ip')).toBe(false)
+  })
+
+  it('delivers to public addresses', () => {
+    expect(isPublicWebhookAddress('93.184.216.34')).toBe(true)
+    expect(isPublicWebhookAddress('172.32.0.1')).toBe(true)
+    expect(isPublicWebhookAddress('2606:4700:4700::1111')).toBe(true)
+    expect(isPublicWebhookAddress('::ffff:8.8.8.8')).toBe(true)
+  })
+
+  it('fails the connection lookup of hosts that resolve to private addresses', async () => {
+    const error = await new Promise<Error | null>(resolve => {
+      lookupPublicWebhookAddress('localhost', {}, err => resolve(err))
+    })
+
+    expect(error?.message).toBe('Webhook URL resolves to a private network address')
+  })
+})
@@ -0,0 +1,10 @@
+import { writeFileSync } from 'fs'
+import path from 'path'
+import { getApiV1Document } from '@/lib/openapi'
+import { generateApiClient } from '@/lib/utils/openapi-client'
+
+// Regenerate after changing the operations in src/lib/openapi.ts; the contract test fails otherwise
+const output = path.join(process.cwd(), 'src/lib/api-client/v1.ts')
+
+writeFileSync(output, generateApiClient(getApiV1Document()))
+console.log(`✅ API client written to ${path.relative(process.cwd(), output)}`)
@@ -1,5 +1,5 @@
 import { Suspense } from 'react'
-import { listBookingsAction } from '@/lib/actions/booking'
+import { listBookingsAction, listCancellationPoliciesAction, listWaitlistAction } from '@/lib/actions/booking'
 import { listSpacesAction } from '@/lib/actions/space'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -10,6 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator'
 import { BookingApprovalButtons } from '@/components/bookings/booking-approval-buttons'
 import { BookingEditDialog } from '@/components/admin/booking-edit-dialog'
+import { NoShowProcessButton } from '@/components/admin/no-show-process-button'
+import { BookingWaitlistPanel } from '@/components/bookings/booking-waitlist-panel'
+import { CancellationPolicyManager } from '@/components/admin/cancellation-policy-manager'
 import {
   Calendar,
   Clock,
@@ -23,13 +26,15 @@ import {
   MapPin,
   Eye,
   Edit,
-  Trash2
+  ListOrdered,
+  UserX,
+  Ban
 } from 'lucide-react'
 import Link from 'next/link'
 
 async function BookingManagementContent() {
   // Fetch all bookings and spaces
-  const [bookingsResult, spacesResult] = await Promise.all([
+  const [bookingsResult, spacesResult, waitlistResult, cancellationPoliciesResult] = await Promise.all([
     listBookingsAction({
       page: 1,
       limit: 100,
@@ -42,10 +47,16 @@ async function BookingManagementContent() {
       sortBy: 'name',
       sortOrder: 'asc',
     }),
+    listWaitlistAction(),
+    listCancellationPoliciesAction(),
   ])
 
   const allBookings = bookingsResult.success ? (bookingsResult.data?.bookings || []) : []
   const spaces = spacesResult.success ? (spacesResult.data?.spaces || []) : []
+  const waitlist = waitlistResult.success ? (waitlistResult.data || []) : []
+  const cancellationPolicies = cancellationPoliciesResult.success
+    ? cancellationPoliciesResult.data
+    : { policies: [], plans: [] }
 
   // Create space lookup for easy access
   const spaceMap = new Map(spaces.map(space => [space.id, space]))
@@ -92,6 +103,11 @@ async function BookingManagementContent() {
         icon: XCircle,
         text: 'Cancelada'
       },
+      'NO_SHOW': {
+        color: 'bg-orange-100 text-orange-800 border-orange-200',
+        icon: UserX,
+        text: 'No Asistió'
+      },
     }
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig['PENDING']
@@ -296,6 +312,7 @@ async function BookingManagementContent() {
                   <SelectItem value="CHECKED_IN">En Curso</SelectItem>
                   <SelectItem value="CHECKED_OUT">Completada</SelectItem>
                   <SelectItem value="CANCELLED">Cancelada</SelectItem>
+                  <SelectItem value="NO_SHOW">No Asistió</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -350,6 +367,43 @@ async function BookingManagementContent() {
         </Card>
       )}
 
+      {/* Waitlist */}
+      {waitlist.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Lista de Espera ({waitlist.length})
+            </CardTitle>
+            <CardDescription>
+              Solicitudes en espera de un horario ocupado, en orden de llegada
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BookingWaitlistPanel entries={waitlist} isAdmin showSpace />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cancellation Policies */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Políticas de Cancelación
+          </CardTitle>
+          <CardDescription>
+            Reembolsos y cargos según la anticipación con que se cancela, por plan o para todos los miembros
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CancellationPolicyManager
+            policies={cancellationPolicies.policies}
+            plans={cancellationPolicies.plans}
+          />
+        </CardContent>
+      </Card>
+
       {/* All Other Bookings */}
       <Card>
         <CardHeader>
@@ -486,6 +540,7 @@ export default function BookingManagementPage() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <NoShowProcessButton />
           <Link href="/bookings/new">
             <Button>
               <Calendar className="h-4 w-4 mr-2" />
@@ -0,0 +1,634 @@
+import { Suspense } from 'react'
+import {
+  getCreditNotesAction,
+  getDunningOverviewAction,
+  getSubscriptionBillingOverviewAction,
+  getTaxRulesAction,
+} from '@/lib/actions/billing'
+import { getDteOverviewAction } from '@/lib/actions/dte'
+import { getReconciliationsAction } from '@/lib/actions/reconciliation'
+import { getExchangeRatesAction } from '@/lib/actions/exchange-rate'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { BillingRunButton } from '@/components/admin/billing-run-button'
+import { SubscriptionActions } from '@/components/admin/subscription-actions'
+import { DunningRunButton } from '@/components/admin/dunning-run-button'
+import { DunningSettingsDialog } from '@/components/admin/dunning-settings-dialog'
+import { CreditNoteDialog } from '@/components/admin/credit-note-dialog'
+import { ApplyCreditBalanceButton, CreditNoteActions } from '@/components/admin/credit-note-actions'
+import { DeleteTaxRuleButton, TaxRuleDialog } from '@/components/admin/tax-rule-dialog'
+import { TaxSettingsDialog } from '@/components/admin/tax-settings-dialog'
+import { TaxSummaryReport } from '@/components/admin/tax-summary-report'
+import { DteSettingsDialog } from '@/components/admin/dte-settings-dialog'
+import { CafUploadButton, DteDocumentActions, IssueDteButton } from '@/components/admin/dte-actions'
+import { OnlinePaymentSettingsDialog } from '@/components/admin/online-payment-settings-dialog'
+import { PaymentLinkActions } from '@/components/admin/payment-link-actions'
+import { BankStatementUploadButton } from '@/components/admin/reconciliation-actions'
+import {
+  BaseCurrencySelect,
+  DeleteExchangeRateButton,
+  ExchangeRateDialog,
+  ExchangeRateImportButton,
+} from '@/components/admin/exchange-rate-dialog'
+import { AlertTriangle, ArrowLeft, ArrowRightLeft, CalendarClock, FileCheck, FileMinus, FileText, Landmark, Percent, Receipt } from 'lucide-react'
+import { TAX_CATEGORY_LABELS, TAX_TYPE_LABELS } from '@/lib/validations/billing'
+import { DTE_ENVIRONMENT_LABELS, DTE_STATUS_LABELS } from '@/lib/validations/dte'
+import { RECONCILIATION_STATUS_LABELS } from '@/lib/validations/reconciliation'
+import { CURRENCY_LABELS, EXCHANGE_RATE_SOURCE_LABELS } from '@/lib/validations/exchange-rate'
+import { DTE_TYPE_NAMES } from '@/lib/utils/dte'
+import Link from 'next/link'
+
+const invoiceStatusLabels: Record<string, string> = {
+  DRAFT: 'Borrador',
+  SENT: 'Enviada',
+  PAID: 'Pagada',
+  OVERDUE: 'Vencida',
+  CANCELLED: 'Cancelada',
+}
+
+const dunningStepLabels: Record<string, string> = {
+  OVERDUE: 'Vencida',
+  REMINDER: 'Recordatorio',
+  LATE_FEE: 'Recargo',
+  PAYMENT_RETRY: 'Reintento de cobro',
+  SUSPENSION: 'Acceso suspendido',
+  REINSTATEMENT: 'Acceso restablecido',
+}
+
+const creditNoteStatusLabels: Record<string, string> = {
+  ISSUED: 'Con saldo',
+  APPLIED: 'Aplicada',
+  VOID: 'Anulada',
+}
+
+const dteStatusColors: Record<string, string> = {
+  ACCEPTED: 'bg-green-100 text-green-800 border-green-200',
+  ACCEPTED_WITH_REPAIRS: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  REJECTED: 'bg-red-100 text-red-800 border-red-200',
+}
+
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+const formatAmount = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('es-ES', { style: 'currency', currency }).format(amount)
+}
+
+// Exchange rates apply from a calendar day, stored at UTC midnight
+const formatRateDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+async function BillingContent() {
+  const [result, dunningResult, creditNotesResult, taxResult, dteResult, reconciliationsResult, exchangeRatesResult] = await Promise.all([
+    getSubscriptionBillingOverviewAction(),
+    getDunningOverviewAction(),
+    getCreditNotesAction(),
+    getTaxRulesAction(),
+    getDteOverviewAction(),
+    getReconciliationsAction(),
+    getExchangeRatesAction(),
+  ])
+
+  if (!result.success) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          {result.error === 'Admin access required'
+            ? 'Solo los administradores pueden gestionar la facturación'
+            : 'No se pudo cargar la facturación'}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { subscriptions, invoices, plans, paymentSettings } = result.data
+  const dunning = dunningResult.success ? dunningResult.data : null
+  const creditNotes = creditNotesResult.success ? creditNotesResult.data : []
+  const taxes = taxResult.success ? taxResult.data : null
+  const dte = dteResult.success ? dteResult.data : null
+  const reconciliations = reconciliationsResult.success ? reconciliationsResult.data : []
+  const exchangeRates = exchangeRatesResult.success ? exchangeRatesResult.data : null
+  // Clients with unused credit in each currency
+  const clientsWithCredit = new Set(
+    creditNotes
+      .filter((creditNote: any) => creditNote.available > 0)
+      .map((creditNote: any) => `${creditNote.clientId}:${creditNote.currency}`)
+  )
+  const dueCount = subscriptions.filter((subscription: any) => subscription.isDue).length
+
+  return (
+    <div className="space-y-6">
+      {/* Subscriptions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Suscripciones Activas
+          </CardTitle>
+          <CardDescription>
+            {dueCount > 0
+              ? `${dueCount} suscripciones con facturación pendiente`
+              : 'Todas las suscripciones están al día'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay suscripciones activas</p>
+          ) : (
+            <div className="space-y-3">
+              {subscriptions.map((subscription: any) => (
+                <div key={subscription.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="font-medium">{subscription.client.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {subscription.plan.name} • {formatAmount(subscription.plan.price, subscription.plan.currency)}
+                    </p>
+                    {subscription.pendingPlanName && (
+                      <p className="text-sm text-muted-foreground">
+                        Cambia a {subscription.pendingPlanName} el {formatDate(subscription.currentPeriodEnd)}
+                      </p>
+                    )}
+                    {!subscription.autoRenew && subscription.endDate && (
+                      <p className="text-sm text-muted-foreground">
+                        Termina el {formatDate(subscription.endDate)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="text-muted-foreground">
+                      Próxima factura: {formatDate(subscription.nextBillingDate)}
+                    </span>
+                    {subscription.isDue && (
+                      <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200 border">
+                        Pendiente
+                      </Badge>
+                    )}
+                    <SubscriptionActions subscription={subscription} plans={plans} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Dunning */}
+      {dunning && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5" />
+                Cobranza
+              </CardTitle>
+              <CardDescription>
+                {dunning.settings.dunningEnabled
+                  ? `Recordatorios a los ${dunning.settings.dunningReminderDays.join(', ')} días del vencimiento, suspensión tras ${dunning.settings.gracePeriodDays} días`
+                  : 'La cobranza automática está desactivada'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <DunningSettingsDialog settings={dunning.settings} />
+              <DunningRunButton />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {dunning.invoices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No hay facturas vencidas</p>
+            ) : (
+              <div className="space-y-3">
+                {dunning.invoices.map((invoice: any) => (
+                  <div key={invoice.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{invoice.number} • {invoice.client.name}</p>
+                        <p className="text-sm text-muted-foreground">Venció el {formatDate(invoice.dueDate)}</p>
+                      </div>
+                      <span className="font-medium">{formatAmount(invoice.total, invoice.currency)}</span>
+                    </div>
+                    {invoice.dunningEvents.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {invoice.dunningEvents.map((event: any) => (
+                          <Badge
+                            key={event.id}
+                            variant="outline"
+                            className={event.success ? '' : 'border-red-200 text-red-700'}
+                            title={event.message || undefined}
+                          >
+                            {dunningStepLabels[event.type] || event.type}
+                            {event.step > 0 && ` ${event.step}`} • {formatDate(event.createdAt)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Generated invoices */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Facturas de Suscripciones
+            </CardTitle>
+            <CardDescription>Últimas facturas generadas por la facturación recurrente</CardDescription>
+          </div>
+          <OnlinePaymentSettingsDialog settings={paymentSettings} />
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aún no se han generado facturas</p>
+          ) : (
+            <div className="space-y-3">
+              {invoices.map((invoice: any) => (
+                <div key={invoice.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="font-medium">{invoice.number} • {invoice.client.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {invoice.periodStart && invoice.periodEnd
+                        ? `${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`
+                        : formatDate(invoice.createdAt)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{formatAmount(invoice.total, invoice.currency)}</span>
+                    <Badge variant="outline">{invoiceStatusLabels[invoice.status] || invoice.status}</Badge>
+                    {!['PAID', 'CANCELLED'].includes(invoice.status) && clientsWithCredit.has(`${invoice.clientId}:${invoice.currency}`) && (
+                      <ApplyCreditBalanceButton invoiceId={invoice.id} />
+                    )}
+                    {['SENT', 'OVERDUE'].includes(invoice.status) && (
+                      <PaymentLinkActions invoiceId={invoice.id} paymentLink={invoice.paymentLink} />
+                    )}
+                    {invoice.status !== 'CANCELLED' && <CreditNoteDialog invoice={invoice} />}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bank reconciliation */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="h-5 w-5" />
+              Conciliación Bancaria
+            </CardTitle>
+            <CardDescription>Importa la cartola del banco (CSV, OFX o CAMT.053) para conciliar las transferencias recibidas</CardDescription>
+          </div>
+          <BankStatementUploadButton />
+        </CardHeader>
+        <CardContent>
+          {reconciliations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aún no se han importado cartolas</p>
+          ) : (
+            <div className="space-y-3">
+              {reconciliations.map((reconciliation: any) => (
+                <Link
+                  key={reconciliation.id}
+                  href={`/billing/reconciliations/${reconciliation.id}`}
+                  className="flex items-center justify-between border rounded-lg p-3 hover:bg-muted/50"
+                >
+                  <div>
+                    <p className="font-medium">{reconciliation.statementFileName || formatDate(reconciliation.createdAt)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(reconciliation.startDate)} - {formatDate(reconciliation.endDate)} • {reconciliation.matchedTransactions} conciliados
+                      {reconciliation.unmatchedTransactions + reconciliation.duplicateTransactions + reconciliation.missingTransactions > 0 &&
+                        ` • ${reconciliation.unmatchedTransactions + reconciliation.duplicateTransactions + reconciliation.missingTransactions} con diferencias`}
+                    </p>
+                  </div>
+                  <Badge variant="outline">{RECONCILIATION_STATUS_LABELS[reconciliation.status] || reconciliation.status}</Badge>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Credit notes */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            Notas de Crédito
+          </CardTitle>
+          <CardDescription>El saldo a favor se descuenta automáticamente de las próximas facturas del cliente</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {creditNotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No se han emitido notas de crédito</p>
+          ) : (
+            <div className="space-y-3">
+              {creditNotes.map((creditNote: any) => (
+                <div key={creditNote.id} className="flex items-center justify-between border rounded-lg p-3">
+                  <div>
+                    <p className="font-medium">{creditNote.number} • {creditNote.client.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Factura {creditNote.invoice.number} • {formatDate(creditNote.createdAt)} • {creditNote.reason}
+                    </p>
+                    {creditNote.available > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Saldo a favor: {formatAmount(creditNote.available, creditNote.currency)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{formatAmount(creditNote.total, creditNote.currency)}</span>
+                    <Badge variant="outline">{creditNoteStatusLabels[creditNote.status] || creditNote.status}</Badge>
+                    <CreditNoteActions creditNote={creditNote} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Taxes */}
+      {taxes && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Percent className="h-5 w-5" />
+                Impuestos
+              </CardTitle>
+              <CardDescription>
+                {taxes.settings.taxIncluded ? 'Los precios incluyen impuestos' : 'Los impuestos se suman a los precios'}
+                {' • '}
+                {taxes.settings.taxDisplay === 'INCLUSIVE' ? 'Líneas con impuestos en los documentos' : 'Líneas sin impuestos en los documentos'}
+                {' • '}
+                Los clientes exentos con RUT no pagan impuestos
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <TaxSettingsDialog settings={taxes.settings} />
+              <TaxRuleDialog />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {taxes.rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No hay impuestos configurados, se aplica la tasa general de {taxes.settings.taxRate}%
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {taxes.rules.map((rule: any) => (
+                  <div key={rule.id} className="flex items-center justify-between border rounded-lg p-3">
+                    <div>
+                      <p className="font-medium">{rule.name} • {rule.rate}%</p>
+                      <p className="text-sm text-muted-foreground">
+                        {TAX_TYPE_LABELS[rule.type] || rule.type}
+                        {rule.jurisdiction && ` • ${rule.jurisdiction}`}
+                        {' • '}
+                        {rule.serviceTypes.length > 0
+                          ? rule.serviceTypes.map((serviceType: string) => TAX_CATEGORY_LABELS[serviceType] || serviceType).join(', ')
+                          : 'Todas las categorías'}
+                        {rule.amountThreshold && ` • Desde ${formatAmount(rule.amountThreshold, taxes.currency)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!rule.isActive && <Badge variant="outline">Inactivo</Badge>}
+                      <TaxRuleDialog rule={rule} />
+                      <DeleteTaxRuleButton rule={rule} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Resumen de Impuestos</h3>
+              <TaxSummaryReport currency={taxes.currency} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Currencies */}
+      {exchangeRates && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <ArrowRightLeft className="h-5 w-5" />
+                Monedas y Tipos de Cambio
+              </CardTitle>
+              <CardDescription>
+                Reportes y estadísticas se expresan en la moneda base; cada documento se convierte con el tipo de cambio vigente en su fecha
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <BaseCurrencySelect baseCurrency={exchangeRates.baseCurrency} />
+              <ExchangeRateImportButton />
+              <ExchangeRateDialog baseCurrency={exchangeRates.baseCurrency} />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {exchangeRates.rates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No hay tipos de cambio registrados, los documentos en otras monedas quedan fuera de los totales
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {exchangeRates.rates.map((rate: any) => (
+                  <div key={rate.id} className="flex items-center justify-between border rounded-lg p-3">
+                    <div>
+                      <p className="font-medium">
+                        1 {rate.fromCurrency === 'CLF' ? 'UF' : rate.fromCurrency} = {new Intl.NumberFormat('es-ES', { maximumFractionDigits: 6 }).format(rate.rate)} {rate.toCurrency}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Desde el {formatRateDate(rate.effectiveDate)} • {CURRENCY_LABELS[rate.fromCurrency] || rate.fromCurrency}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">
+                        {EXCHANGE_RATE_SOURCE_LABELS[rate.source as keyof typeof EXCHANGE_RATE_SOURCE_LABELS] || rate.source}
+                      </Badge>
+                      <DeleteExchangeRateButton rateId={rate.id} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Electronic invoicing */}
+      {dte && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <FileCheck className="h-5 w-5" />
+                Facturación Electrónica
+              </CardTitle>
+              <CardDescription>
+                {dte.settings
+                  ? `${dte.settings.businessName} • RUT ${dte.settings.rut} • Ambiente de ${DTE_ENVIRONMENT_LABELS[dte.settings.environment as keyof typeof DTE_ENVIRONMENT_LABELS].toLowerCase()}`
+                  : 'Configura el emisor para emitir facturas, boletas y notas de crédito electrónicas del SII'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <DteSettingsDialog settings={dte.settings} adapters={dte.adapters} />
+              {dte.settings && <CafUploadButton />}
+            </div>
+          </CardHeader>
+          {dte.settings && (
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                <h3 className="font-medium">Folios</h3>
+                {dte.ranges.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Carga un CAF del SII para cada tipo de documento que emitas</p>
+                ) : (
+                  <div className="space-y-2">
+                    {dte.ranges.map((range: any) => (
+                      <div key={range.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                        <span className="font-medium">{DTE_TYPE_NAMES[range.documentType as keyof typeof DTE_TYPE_NAMES]}</span>
+                        <span className="text-muted-foreground">
+                          Folios {range.rangeStart} a {range.rangeEnd} • {range.remaining} disponibles
+                        </span>
+                        {!range.isActive && <Badge variant="outline">Agotado</Badge>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {(dte.pendingInvoices.length > 0 || dte.pendingCreditNotes.length > 0) && (
+                <div className="space-y-3">
+                  <h3 className="font-medium">Pendientes de emitir</h3>
+                  <div className="space-y-2">
+                    {dte.pendingInvoices.map((invoice: any) => (
+                      <div key={invoice.id} className="flex items-center justify-between border rounded-lg p-3">
+                        <div>
+                          <p className="font-medium">{invoice.number} • {invoice.client.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {invoice.client.taxId ? `Factura a RUT ${invoice.client.taxId}` : 'Boleta, el cliente no tiene RUT'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">{formatAmount(invoice.total, 'CLP')}</span>
+                          <IssueDteButton invoiceId={invoice.id} />
+                        </div>
+                      </div>
+                    ))}
+                    {dte.pendingCreditNotes.map((creditNote: any) => (
+                      <div key={creditNote.id} className="flex items-center justify-between border rounded-lg p-3">
+                        <div>
+                          <p className="font-medium">{creditNote.number} • {creditNote.client.name}</p>
+                          <p className="text-sm text-muted-foreground">Nota de crédito</p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">{formatAmount(creditNote.total, 'CLP')}</span>
+                          <IssueDteButton creditNoteId={creditNote.id} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <h3 className="font-medium">Documentos emitidos</h3>
+                {dte.documents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Aún no se han emitido documentos electrónicos</p>
+                ) : (
+                  <div className="space-y-2">
+                    {dte.documents.map((document: any) => (
+                      <div key={document.id} className="flex items-center justify-between border rounded-lg p-3">
+                        <div>
+                          <p className="font-medium">
+                            {DTE_TYPE_NAMES[document.documentType as keyof typeof DTE_TYPE_NAMES]} N° {document.folio}
+                            {document.client && ` • ${document.client.name}`}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDate(document.issueDate)}
+                            {document.invoice && ` • Factura ${document.invoice.number}`}
+                            {document.creditNote && ` • ${document.creditNote.number}`}
+                            {document.statusMessage && ` • ${document.statusMessage}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">{formatAmount(document.totalAmount, 'CLP')}</span>
+                          <Badge variant="outline" className={dteStatusColors[document.status] || ''}>
+                            {DTE_STATUS_LABELS[document.status as keyof typeof DTE_STATUS_LABELS] || document.status}
+                          </Badge>
+                          <DteDocumentActions document={document} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
+
+function BillingLoading() {
+  return (
+    <div className="space-y-6">
+      {[...Array(2)].map((_, i) => (
+        <Skeleton key={i} className="h-64 w-full" />
+      ))}
+    </div>
+  )
+}
+
+export default function BillingPage() {
+  return (
+    <div className="container mx-auto py-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <Link href="/dashboard">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Volver al Dashboard
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Receipt className="h-8 w-8" />
+              Facturación
+            </h1>
+            <p className="text-muted-foreground">
+              Genera las facturas de las suscripciones, gestiona la cobranza, los impuestos, los tipos de cambio, las notas de crédito, la conciliación bancaria y los documentos del SII
+            </p>
+          </div>
+        </div>
+        <BillingRunButton />
+      </div>
+
+      <Suspense fallback={<BillingLoading />}>
+        <BillingContent />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import { notFound } from 'next/navigation'
+import { getReconciliationAction } from '@/lib/actions/reconciliation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ReconciliationActions, ReconciliationItemActions } from '@/components/admin/reconciliation-actions'
+import { ArrowLeft, Landmark } from 'lucide-react'
+import {
+  BANK_STATEMENT_FORMAT_LABELS,
+  DISCREPANCY_TYPE_LABELS,
+  MATCH_STATUS_LABELS,
+  RECONCILIATION_STATUS_LABELS,
+} from '@/lib/validations/reconciliation'
+import Link from 'next/link'
+
+interface ReconciliationPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+const matchStatusColors: Record<string, string> = {
+  MATCHED: 'bg-green-100 text-green-800 border-green-200',
+  MANUALLY_MATCHED: 'bg-green-100 text-green-800 border-green-200',
+  PARTIAL_MATCH: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  UNMATCHED: 'bg-red-100 text-red-800 border-red-200',
+}
+
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+const formatAmount = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('es-ES', { style: 'currency', currency }).format(amount)
+}
+
+export default async function ReconciliationPage({ params }: ReconciliationPageProps) {
+  const { id } = await params
+  const result = await getReconciliationAction({ reconciliationId: id })
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const reconciliation = result.data
+  const isOpen = !['APPROVED', 'REJECTED'].includes(reconciliation.status)
+  const pendingCount = reconciliation.transactions.filter((item: any) => item.requiresAction).length
+  const currency = reconciliation.transactions[0]?.currency || 'USD'
+
+  const matchOptions = (itemCurrency: string) => [
+    ...reconciliation.candidates.payments
+      .filter((payment: any) => payment.currency === itemCurrency)
+      .map((payment: any) => ({
+        value: `payment:${payment.id}`,
+        label: `Transferencia ${payment.reference || ''} • ${payment.client.name} • ${formatAmount(payment.amount, payment.currency)}`,
+      })),
+    ...reconciliation.candidates.invoices
+      .filter((invoice: any) => invoice.currency === itemCurrency)
+      .map((invoice: any) => ({
+        value: `invoice:${invoice.id}`,
+        label: `Factura ${invoice.number} • ${invoice.client.name} • ${formatAmount(invoice.balance, invoice.currency)}`,
+      })),
+  ]
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/billing">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Volver a Facturación
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Landmark className="h-8 w-8" />
+              Conciliación Bancaria
+            </h1>
+            <p className="text-muted-foreground">
+              {reconciliation.statementFileName}
+              {reconciliation.statementFormat && ` (${BANK_STATEMENT_FORMAT_LABELS[reconciliation.statementFormat as keyof typeof BANK_STATEMENT_FORMAT_LABELS]})`}
+              {' • '}{formatDate(reconciliation.startDate)} - {formatDate(reconciliation.endDate)}
+            </p>
+          </div>
+        </div>
+        {isOpen && <ReconciliationActions reconciliationId={reconciliation.id} canApprove={pendingCount === 0} />}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Resumen
+            <Badge variant="outline">{RECONCILIATION_STATUS_LABELS[reconciliation.status] || reconciliation.status}</Badge>
+          </CardTitle>
+          <CardDescription>
+            {isOpen
+              ? pendingCount > 0
+                ? `${pendingCount} movimientos requieren revisión antes de aprobar`
+                : 'Todos los movimientos están revisados'
+              : reconciliation.approvedAt && `Aprobada el ${formatDate(reconciliation.approvedAt)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Abonos en la cartola</p>
+              <p className="text-lg font-semibold">{formatAmount(reconciliation.bankStatementTotal, currency)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Transferencias registradas</p>
+              <p className="text-lg font-semibold">{formatAmount(reconciliation.recordedPaymentsTotal, currency)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Diferencia</p>
+              <p className="text-lg font-semibold">{formatAmount(reconciliation.variance, currency)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Conciliación automática</p>
+              <p className="text-lg font-semibold">{reconciliation.autoMatchPercentage}%</p>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground mt-4">
+            {reconciliation.matchedTransactions} conciliados • {reconciliation.unmatchedTransactions} sin conciliar • {reconciliation.duplicateTransactions} duplicados • {reconciliation.missingTransactions} faltantes en la cartola
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Movimientos</CardTitle>
+          <CardDescription>Los abonos por revisar aparecen primero</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {reconciliation.transactions.map((item: any) => (
+              <div key={item.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {formatDate(item.transactionDate)} • {item.description || item.bankReference || item.transactionReference}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {item.payment && `Transferencia de ${item.payment.client.name}${item.payment.invoice ? ` • Factura ${item.payment.invoice.number}` : ''}`}
+                    {!item.payment && item.invoice && `Factura ${item.invoice.number} • ${item.invoice.client.name}`}
+                    {(item.payment || item.invoice) && item.matchStatus !== 'MANUALLY_MATCHED' && ` • Confianza ${item.matchConfidence}%`}
+                    {item.discrepancyType && ` • ${DISCREPANCY_TYPE_LABELS[item.discrepancyType] || item.discrepancyType}`}
+                    {item.discrepancyAmount !== null && ` (${formatAmount(item.discrepancyAmount, item.currency)})`}
+                    {item.notes && ` • ${item.notes}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="font-medium">{formatAmount(item.amount, item.currency)}</span>
+                  <Badge variant="outline" className={matchStatusColors[item.matchStatus] || ''}>
+                    {MATCH_STATUS_LABELS[item.matchStatus as keyof typeof MATCH_STATUS_LABELS] || item.matchStatus}
+                  </Badge>
+                  {isOpen && (item.requiresAction || item.matchStatus !== 'DISPUTED') && (
+                    <ReconciliationItemActions item={item} options={matchOptions(item.currency)} />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,10 @@
 import { notFound } from 'next/navigation'
 import { QRCodeGenerator } from '@/components/bookings/qr-code-generator'
 import { BookingApprovalButtons } from '@/components/bookings/booking-approval-buttons'
+import { BookingSeriesActions } from '@/components/bookings/booking-series-actions'
+import { BookingWaitlistPanel } from '@/components/bookings/booking-waitlist-panel'
+import { BookingCancelDialog } from '@/components/bookings/booking-cancel-dialog'
+import { BookingBundleActions } from '@/components/bookings/booking-bundle-actions'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -18,13 +22,17 @@ import {
   RotateCcw,
   CheckCircle,
   AlertCircle,
-  XCircle
+  XCircle,
+  Package,
+  ListOrdered,
+  Layers
 } from 'lucide-react'
 import Link from 'next/link'
 import { format, differenceInMinutes } from 'date-fns'
 import { es } from 'date-fns/locale'
-import { getBookingAction } from '@/lib/actions/booking'
+import { getBookingAction, listWaitlistAction } from '@/lib/actions/booking'
 import { getTenantContext } from '@/lib/auth'
+import type { BookingPriceBreakdown } from '@/lib/utils/pricing-integration'
 
 interface BookingDetailPageProps {
   params: Promise<{
@@ -49,6 +57,10 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
   const booking = result.data
   const space = booking.space
 
+  // Members waiting for this booking's slot to free up
+  const waitlistResult = await listWaitlistAction({ bookingId: booking.id })
+  const waitlist = waitlistResult.success ? (waitlistResult.data || []) : []
+
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60)
     const mins = minutes % 60
@@ -84,6 +96,7 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
   const duration = differenceInMinutes(new Date(booking.endTime), new Date(booking.startTime))
   const totalDuration = duration
   const totalCost = booking.cost ? Number(booking.cost) : 0
+  const priceBreakdown = booking.priceBreakdown as BookingPriceBreakdown | null
 
   // Generate QR data
   const qrCodeData = JSON.stringify({
@@ -126,6 +139,11 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
               </Button>
             </Link>
           )}
+          {['PENDING', 'CONFIRMED'].includes(booking.status) &&
+            !booking.parentBookingId && !booking.recurrence && !booking.bundleId &&
+            (isAdmin || booking.userId === user?.id) && (
+            <BookingCancelDialog booking={booking} />
+          )}
         </div>
       </div>
 
@@ -216,6 +234,40 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
             </CardContent>
           </Card>
 
+          {/* Booked Services */}
+          {booking.services && booking.services.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Package className="h-5 w-5" />
+                  Servicios Adicionales
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {booking.services.map((bookingService: any) => (
+                    <div key={bookingService.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <div className="font-medium">
+                          {bookingService.service?.name || 'Servicio'} × {bookingService.quantity}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {bookingService.startTime
+                            ? `Entrega: ${format(new Date(bookingService.startTime), 'HH:mm')}${bookingService.endTime ? ` - ${format(new Date(bookingService.endTime), 'HH:mm')}` : ''}`
+                            : 'Sin horario de entrega'}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-medium">${bookingService.totalPrice.toFixed(2)}</div>
+                        <Badge variant="outline">{bookingService.status}</Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Contact Information */}
           <Card>
             <CardHeader>
@@ -279,6 +331,49 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
             </Card>
           )}
 
+          {/* Recurring Series */}
+          {(booking.parentBookingId || booking.recurrence) && ['PENDING', 'CONFIRMED'].includes(booking.status) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <RotateCcw className="h-5 w-5" />
+                  Serie Recurrente
+                </CardTitle>
+                <CardDescription>
+                  {booking.recurrence
+                    ? 'Esta es la primera reserva de una serie recurrente'
+                    : 'Esta reserva es una ocurrencia de una serie recurrente'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BookingSeriesActions booking={booking} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Waitlist */}
+          {['PENDING', 'CONFIRMED'].includes(booking.status) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ListOrdered className="h-5 w-5" />
+                  Lista de Espera
+                </CardTitle>
+                <CardDescription>
+                  Si esta reserva se cancela, el horario se ofrece en orden a quienes están esperando
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BookingWaitlistPanel
+                  entries={waitlist}
+                  booking={booking}
+                  currentUserId={user?.id}
+                  isAdmin={isAdmin}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Check-in History */}
           {booking.checkIns && booking.checkIns.length > 0 && (
             <Card>
@@ -362,6 +457,92 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
             </CardContent>
           </Card>
 
+          {/* Bundle */}
+          {booking.bundle && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Layers className="h-5 w-5" />
+                  Reserva de Evento
+                </CardTitle>
+                <CardDescription>
+                  {booking.bundle.title} • {booking.bundle.bookings.length} espacios reservados juntos
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-2 text-sm">
+                  {booking.bundle.bookings.map((bundleBooking: any) => (
+                    <div key={bundleBooking.id} className="flex justify-between">
+                      <Link
+                        href={`/bookings/${bundleBooking.id}`}
+                        className={bundleBooking.id === booking.id ? 'font-medium' : 'text-muted-foreground hover:underline'}
+                      >
+                        {bundleBooking.space?.name}
+                      </Link>
+                      <span>${(bundleBooking.cost || 0).toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <Separator />
+                  <div className="flex justify-between font-medium">
+                    <span>Total del Evento</span>
+                    <span>${(booking.bundle.cost || 0).toFixed(2)}</span>
+                  </div>
+                </div>
+                {['PENDING', 'CONFIRMED'].includes(booking.bundle.status) &&
+                  (isAdmin || booking.userId === user?.id) && (
+                  <BookingBundleActions bundle={booking.bundle} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Cancellation */}
+          {booking.cancellation && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cancelación</CardTitle>
+                {booking.cancelledAt && (
+                  <CardDescription>
+                    Cancelada el {format(new Date(booking.cancelledAt), "dd 'de' MMMM, HH:mm", { locale: es })}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Aviso</span>
+                    <span>{booking.cancellation.noticeHours.toFixed(1)} h</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Reembolso</span>
+                    <span>{booking.cancellation.refundPercent}%</span>
+                  </div>
+                  {booking.cancellation.feeAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Cargo por cancelación</span>
+                      <span>${booking.cancellation.feeAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <Separator />
+                  <div className="flex justify-between font-medium">
+                    <span>
+                      {booking.cancellation.resolution === 'CREDIT'
+                        ? 'Crédito abonado'
+                        : booking.cancellation.resolution === 'REFUND' ? 'Reembolsado' : 'Sin devolución'}
+                    </span>
+                    <span>${booking.cancellation.refundAmount.toFixed(2)}</span>
+                  </div>
+                  {booking.cancellation.outstandingFee > 0 && (
+                    <div className="flex justify-between text-red-600">
+                      <span>Cargo pendiente</span>
+                      <span>${booking.cancellation.outstandingFee.toFixed(2)}</span>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Booking Summary */}
           <Card>
             <CardHeader>
@@ -378,10 +559,27 @@ export default async function BookingDetailPage({ params }: BookingDetailPagePro
                   <span>Tiempo Total</span>
                   <span>{formatDuration(totalDuration)}</span>
                 </div>
+                {priceBreakdown && priceBreakdown.lines.length > 0 && (
+                  <>
+                    <Separator />
+                    {priceBreakdown.lines.map((line, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span className="text-muted-foreground">{line.description}</span>
+                        <span>{line.amount < 0 ? '-' : ''}${Math.abs(line.amount).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {priceBreakdown.discountCode && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Código de descuento</span>
+                        <span>{priceBreakdown.discountCode}</span>
+                      </div>
+                    )}
+                  </>
+                )}
                 {totalCost > 0 && (
                   <div className="flex justify-between font-medium">
                     <span>Costo Total</span>
-                    <span>${totalCost.toFixed(2)}</span>
+                    <span>${totalCost.toFixed(2)}{priceBreakdown?.currency ? ` ${priceBreakdown.currency}` : ''}</span>
                   </div>
                 )}
               </div>
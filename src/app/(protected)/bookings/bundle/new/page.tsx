@@ -0,0 +1,75 @@
+import { listSpacesAction } from '@/lib/actions/space'
+import { listServicesAction } from '@/lib/actions/service'
+import { getTenantContext } from '@/lib/auth'
+import { BookingBundleForm } from '@/components/bookings/booking-bundle-form'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Layers } from 'lucide-react'
+import Link from 'next/link'
+
+export default async function NewBookingBundlePage() {
+  const { user } = await getTenantContext()
+
+  const [spacesResult, servicesResult] = await Promise.all([
+    listSpacesAction({
+      page: 1,
+      limit: 100,
+      sortBy: 'name',
+      sortOrder: 'asc',
+    }),
+    listServicesAction({
+      page: 1,
+      limit: 100,
+      isActive: true,
+      sortBy: 'name',
+      sortOrder: 'asc',
+    }),
+  ])
+
+  const spaces = (spacesResult.data?.spaces || [])
+    .filter((space: any) => space.isActive !== false)
+    .map((space: any) => ({
+      id: space.id,
+      name: space.name,
+      type: space.type,
+      capacity: space.capacity,
+      requiresApproval: space.requiresApproval,
+    }))
+
+  const services = (servicesResult.data?.services || []).map((service: any) => ({
+    id: service.id,
+    name: service.name,
+    price: Number(service.price),
+    unit: service.unit,
+    inventoryQuantity: service.inventoryQuantity,
+  }))
+
+  return (
+    <div className="container max-w-4xl mx-auto py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Link href="/bookings">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-1" />Volver a Reservas
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Layers className="h-8 w-8" />
+            Reserva de Evento
+          </h1>
+          <p className="text-muted-foreground">
+            Reserva varios espacios, equipos y servicios en una sola operación
+          </p>
+        </div>
+      </div>
+
+      {!user || spaces.length === 0 ? (
+        <div className="text-center text-muted-foreground">
+          No hay espacios activos disponibles para reservar en este momento.
+        </div>
+      ) : (
+        <BookingBundleForm spaces={spaces} services={services} userId={user.id} />
+      )}
+    </div>
+  )
+}
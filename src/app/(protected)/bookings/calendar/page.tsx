@@ -63,7 +63,8 @@ async function CalendarContent({ selectedSpaceId, view }: { selectedSpaceId?: st
     spaceName: booking.space?.name || 'Espacio no encontrado',
     status: booking.status as 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED',
     attendeeCount: booking.attendeeCount,
-    isRecurring: false, // TODO: Add recurrence support
+    isRecurring: !!(booking.parentBookingId || booking.recurrence),
+    seriesId: booking.parentBookingId || (booking.recurrence ? booking.id : undefined),
     color: booking.space?.color,
   }))
 
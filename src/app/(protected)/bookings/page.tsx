@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Calendar, Plus, Clock, Users, TrendingUp } from 'lucide-react'
+import { Calendar, Clock, Users, TrendingUp, Layers } from 'lucide-react'
 import Link from 'next/link'
 import { listBookingsAction } from '@/lib/actions/booking'
 import { listSpacesAction } from '@/lib/actions/space'
@@ -91,7 +91,7 @@ async function BookingsContent() {
     totalBookings: bookings.length,
     confirmedBookings: bookings.filter(b => b.status === 'CONFIRMED').length,
     pendingBookings: bookings.filter(b => b.status === 'PENDING').length,
-    recurringBookings: bookings.filter(b => b.isRecurring).length,
+    recurringBookings: bookings.filter(b => b.parentBookingId || b.recurrence).length,
   }
 
   return (
@@ -218,11 +218,18 @@ export default function BookingsPage() {
             Gestiona y visualiza todas las reservas de espacios
           </p>
         </div>
-        <Link href="/bookings/calendar">
-          <Button variant="outline">
-            <Calendar className="h-4 w-4 mr-1" />Vista de Calendario
-          </Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link href="/bookings/bundle/new">
+            <Button variant="outline">
+              <Layers className="h-4 w-4 mr-1" />Reserva de Evento
+            </Button>
+          </Link>
+          <Link href="/bookings/calendar">
+            <Button variant="outline">
+              <Calendar className="h-4 w-4 mr-1" />Vista de Calendario
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <Suspense fallback={<BookingsLoading />}>
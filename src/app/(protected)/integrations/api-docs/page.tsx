@@ -0,0 +1,183 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { BookOpen, Download, KeyRound } from 'lucide-react'
+import { getApiV1Document } from '@/lib/openapi'
+import { API_KEY_SCOPE_LABELS } from '@/lib/validations/integration'
+import type { JsonSchema, OpenApiOperation } from '@/lib/utils/openapi'
+import Link from 'next/link'
+
+const methodColors: Record<string, string> = {
+  get: 'bg-blue-100 text-blue-800 border-blue-200',
+  post: 'bg-green-100 text-green-800 border-green-200',
+  put: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  delete: 'bg-red-100 text-red-800 border-red-200',
+}
+
+const tagLabels: Record<string, string> = {
+  Bookings: 'Reservas',
+  Spaces: 'Espacios',
+  Resources: 'Recursos',
+  Visitors: 'Visitas',
+  'Access control': 'Control de acceso',
+}
+
+const describeType = (schema: JsonSchema): string => {
+  if (schema.$ref) return 'objeto'
+  if (schema.enum) return schema.enum.join(' | ')
+  if (schema.anyOf) return schema.anyOf.map(describeType).join(' | ')
+  if (schema.format === 'date-time') return 'fecha ISO 8601'
+  if (schema.type === 'array') return `lista de ${schema.items ? describeType(schema.items) : 'valores'}`
+  if (schema.type === 'object') return 'objeto'
+  return schema.format ? `${schema.type} (${schema.format})` : schema.type || 'cualquier valor'
+}
+
+function FieldTable({ fields }: { fields: { name: string; location?: string; schema: JsonSchema; required: boolean }[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">Nombre</th>
+            <th className="py-2 pr-4 font-medium">Tipo</th>
+            <th className="py-2 font-medium">Descripción</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map((field) => (
+            <tr key={`${field.location}-${field.name}`} className="border-b last:border-0 align-top">
+              <td className="py-2 pr-4">
+                <code>{field.name}</code>
+                {field.required && <span className="text-red-600"> *</span>}
+                {field.location && <span className="block text-xs text-muted-foreground">{field.location}</span>}
+              </td>
+              <td className="py-2 pr-4 max-w-xs break-words">{describeType(field.schema)}</td>
+              <td className="py-2 text-muted-foreground">
+                {field.schema.description}
+                {field.schema.default !== undefined && (
+                  <span className="block text-xs">Por defecto: <code>{JSON.stringify(field.schema.default)}</code></span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default async function ApiDocsPage() {
+  const document = getApiV1Document()
+  const operations = Object.entries(document.paths).flatMap(([path, item]) =>
+    Object.entries(item).map(([method, operation]) => ({ path, method, operation: operation as OpenApiOperation }))
+  )
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <BookOpen className="h-8 w-8" />
+            Documentación de la API
+          </h1>
+          <p className="text-muted-foreground">
+            Operaciones de la API REST /api/v1 con los campos que acepta cada una
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/integrations/api-keys">
+              <KeyRound className="h-4 w-4 mr-2" />
+              API Keys
+            </Link>
+          </Button>
+          <Button asChild>
+            <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+              <Download className="h-4 w-4 mr-2" />
+              OpenAPI
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Autenticación</CardTitle>
+          <CardDescription>
+            Envía una API key en la cabecera Authorization: Bearer sk_… con el permiso que indica cada operación
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-1">
+          <p>Las fechas se envían como texto ISO 8601, por ejemplo 2026-01-15T09:00:00Z.</p>
+          <p>Las respuestas tienen la forma {'{ success, data }'}; los errores, {'{ error, fieldErrors }'}.</p>
+          <p>Las cabeceras RateLimit-* informan cuántas solicitudes quedan antes de recibir un 429.</p>
+        </CardContent>
+      </Card>
+
+      {document.tags.map((tag) => (
+        <Card key={tag.name}>
+          <CardHeader>
+            <CardTitle>{tagLabels[tag.name] || tag.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {operations
+              .filter(({ operation }) => operation.tags.includes(tag.name))
+              .map(({ path, method, operation }) => {
+                const bodyRef = operation.requestBody?.content['application/json'].schema.$ref
+                const body = bodyRef ? document.components.schemas[bodyRef.split('/').pop()!] : null
+                const scope = operation['x-api-key-scope']
+
+                return (
+                  <details key={operation.operationId} className="border rounded-lg">
+                    <summary className="flex items-center gap-3 p-3 cursor-pointer">
+                      <Badge variant="outline" className={`w-16 justify-center uppercase ${methodColors[method] || ''}`}>
+                        {method}
+                      </Badge>
+                      <code className="text-sm">{path}</code>
+                      <span className="text-sm text-muted-foreground truncate">{operation.summary}</span>
+                      {scope && (
+                        <Badge variant="secondary" className="ml-auto shrink-0">
+                          {API_KEY_SCOPE_LABELS[scope as keyof typeof API_KEY_SCOPE_LABELS] || scope}
+                        </Badge>
+                      )}
+                    </summary>
+                    <div className="border-t p-3 space-y-4">
+                      {operation.parameters && (
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">Parámetros</p>
+                          <FieldTable
+                            fields={operation.parameters.map((parameter) => ({
+                              name: parameter.name,
+                              location: parameter.in === 'path' ? 'ruta' : 'query',
+                              schema: { ...parameter.schema, description: parameter.description },
+                              required: parameter.required,
+                            }))}
+                          />
+                        </div>
+                      )}
+                      {body && (
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">Cuerpo (JSON)</p>
+                          <FieldTable
+                            fields={Object.entries(body.properties || {}).map(([name, schema]) => ({
+                              name,
+                              schema,
+                              required: (body.required || []).includes(name),
+                            }))}
+                          />
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Respuestas: {Object.keys(operation.responses).join(', ')}
+                      </p>
+                    </div>
+                  </details>
+                )
+              })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { listApiKeysAction, listRateLimitsAction } from '@/lib/actions/integration'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ApiKeyActions, ApiKeyDialog, RateLimitDialog } from '@/components/admin/api-key-actions'
+import { BookOpen, KeyRound } from 'lucide-react'
+import { API_KEY_SCOPE_LABELS, RATE_LIMIT_POLICY_LABELS } from '@/lib/validations/integration'
+import Link from 'next/link'
+
+const formatDateTime = (date: string | Date) => {
+  return new Date(date).toLocaleString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default async function ApiKeysPage() {
+  const [result, rateLimitsResult] = await Promise.all([
+    listApiKeysAction({ includeRevoked: true }),
+    listRateLimitsAction(),
+  ])
+  const apiKeys = result.success ? result.data : []
+  const rateLimits = rateLimitsResult.success ? rateLimitsResult.data : []
+  const now = new Date()
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <KeyRound className="h-8 w-8" />
+            API Keys
+          </h1>
+          <p className="text-muted-foreground">
+            Conecta tus sistemas a la API REST de reservas, espacios, recursos, visitas y control de acceso
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/integrations/api-docs">
+              <BookOpen className="h-4 w-4 mr-2" />
+              Documentación
+            </Link>
+          </Button>
+          <ApiKeyDialog />
+        </div>
+      </div>
+
+      {!result.success && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6 text-red-800">{result.error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keys</CardTitle>
+          <CardDescription>
+            Envía la key en la cabecera Authorization: Bearer de cada solicitud a /api/v1
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {apiKeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aún no hay API keys</p>
+          ) : (
+            <div className="space-y-3">
+              {apiKeys.map((apiKey: any) => {
+                const isExpired = apiKey.expiresAt && new Date(apiKey.expiresAt) <= now
+
+                return (
+                  <div
+                    key={apiKey.id}
+                    className={`flex items-center justify-between gap-4 border rounded-lg p-3 ${apiKey.revokedAt ? 'opacity-60' : ''}`}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        {apiKey.name}
+                        <code className="text-xs text-muted-foreground">{apiKey.prefix}…</code>
+                        {apiKey.revokedAt && <Badge variant="destructive">Revocada</Badge>}
+                        {!apiKey.revokedAt && isExpired && <Badge variant="secondary">Vencida</Badge>}
+                      </p>
+                      {apiKey.description && (
+                        <p className="text-sm text-muted-foreground">{apiKey.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {apiKey.scopes.map((scope: string) => API_KEY_SCOPE_LABELS[scope as keyof typeof API_KEY_SCOPE_LABELS] || scope).join(' • ')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {apiKey.allowedIps.length > 0 ? `IPs: ${apiKey.allowedIps.join(', ')}` : 'Cualquier IP'}
+                        {apiKey.expiresAt && ` • Vence el ${formatDate(apiKey.expiresAt)}`}
+                        {apiKey.rateLimitPerMinute && ` • ${apiKey.rateLimitPerMinute} solicitudes por minuto`}
+                        {apiKey.previousKeyExpiresAt && new Date(apiKey.previousKeyExpiresAt) > now &&
+                          ` • La key anterior funciona hasta el ${formatDateTime(apiKey.previousKeyExpiresAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 shrink-0">
+                      <div className="text-right text-sm">
+                        <p>{apiKey.recentRequests} solicitudes en 30 días</p>
+                        {apiKey.recentErrors > 0 && (
+                          <p className="text-xs text-red-700">{apiKey.recentErrors} con error</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {apiKey.lastUsedAt
+                            ? `Último uso ${formatDateTime(apiKey.lastUsedAt)}${apiKey.lastUsedIp ? ` desde ${apiKey.lastUsedIp}` : ''}`
+                            : 'Sin uso'}
+                        </p>
+                      </div>
+                      <ApiKeyActions apiKey={apiKey} />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Límites de uso</CardTitle>
+          <CardDescription>
+            Solicitudes permitidas a cada API key o usuario. Las respuestas informan el consumo en las cabeceras RateLimit-*
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {rateLimits.map((rateLimit: any) => (
+              <div key={rateLimit.policy} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {RATE_LIMIT_POLICY_LABELS[rateLimit.policy as keyof typeof RATE_LIMIT_POLICY_LABELS]}
+                    {rateLimit.isDefault && <Badge variant="secondary">Predeterminado</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {rateLimit.limit} solicitudes cada {rateLimit.windowSeconds} segundos
+                  </p>
+                </div>
+                <RateLimitDialog {...rateLimit} />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
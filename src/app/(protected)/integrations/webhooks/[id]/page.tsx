@@ -0,0 +1,161 @@
+import { notFound } from 'next/navigation'
+import { getWebhookAction } from '@/lib/actions/integration'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { RedeliverWebhookButton, WebhookActions, WebhookSecret } from '@/components/admin/webhook-actions'
+import { ArrowLeft, Webhook } from 'lucide-react'
+import { WEBHOOK_DELIVERY_STATUS_LABELS, WEBHOOK_EVENT_LABELS } from '@/lib/validations/integration'
+import Link from 'next/link'
+
+interface WebhookPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+const deliveryStatusColors: Record<string, string> = {
+  SUCCEEDED: 'bg-green-100 text-green-800 border-green-200',
+  PENDING: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  DEAD_LETTER: 'bg-red-100 text-red-800 border-red-200',
+}
+
+const formatDateTime = (date: string | Date) => {
+  return new Date(date).toLocaleString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+export default async function WebhookPage({ params }: WebhookPageProps) {
+  const { id } = await params
+  const result = await getWebhookAction({ id })
+
+  if (!result.success || !result.data) {
+    notFound()
+  }
+
+  const webhook = result.data
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href="/integrations/webhooks">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Volver a Webhooks
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Webhook className="h-8 w-8" />
+              {webhook.name}
+              {!webhook.isActive && <Badge variant="secondary">Inactivo</Badge>}
+            </h1>
+            <p className="text-muted-foreground">{webhook.url}</p>
+          </div>
+        </div>
+        <WebhookActions
+          webhook={{
+            id: webhook.id,
+            name: webhook.name,
+            description: webhook.description,
+            url: webhook.url,
+            events: webhook.events,
+            isActive: webhook.isActive,
+          }}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Configuración</CardTitle>
+          <CardDescription>
+            {webhook.description || 'Verifica cada envío calculando el HMAC-SHA256 de "t.cuerpo" con este secreto y comparándolo con v1 en la cabecera X-SweetSpot-Signature'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Secreto de firma</p>
+            <WebhookSecret webhookId={webhook.id} secret={webhook.secret} />
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Eventos</p>
+            <div className="flex flex-wrap gap-2">
+              {webhook.events.map((event: string) => (
+                <Badge key={event} variant="outline">
+                  {WEBHOOK_EVENT_LABELS[event as keyof typeof WEBHOOK_EVENT_LABELS] || event}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Último envío exitoso</p>
+              <p className="font-medium">{webhook.lastDeliveryAt ? formatDateTime(webhook.lastDeliveryAt) : 'Nunca'}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Fallos seguidos</p>
+              <p className="font-medium">{webhook.failureCount}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Envíos</CardTitle>
+          <CardDescription>
+            Los últimos 50 envíos. Los fallidos se reintentan con esperas crecientes y quedan como fallidos tras 8 intentos
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {webhook.deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aún no hay envíos</p>
+          ) : (
+            <div className="space-y-3">
+              {webhook.deliveries.map((delivery: any) => (
+                <details key={delivery.id} className="border rounded-lg p-3">
+                  <summary className="flex items-center justify-between gap-4 cursor-pointer list-none">
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {WEBHOOK_EVENT_LABELS[delivery.event as keyof typeof WEBHOOK_EVENT_LABELS] || delivery.event}
+                        {delivery.isTest && <Badge variant="secondary" className="ml-2">Prueba</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDateTime(delivery.createdAt)} • {delivery.attempts} {delivery.attempts === 1 ? 'intento' : 'intentos'}
+                        {delivery.responseStatus !== null && ` • HTTP ${delivery.responseStatus}`}
+                        {delivery.responseTimeMs !== null && ` • ${delivery.responseTimeMs} ms`}
+                        {delivery.status === 'PENDING' && delivery.nextAttemptAt && ` • Próximo intento ${formatDateTime(delivery.nextAttemptAt)}`}
+                        {delivery.errorMessage && ` • ${delivery.errorMessage}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <Badge variant="outline" className={deliveryStatusColors[delivery.status] || ''}>
+                        {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status as keyof typeof WEBHOOK_DELIVERY_STATUS_LABELS]}
+                      </Badge>
+                      {delivery.status !== 'PENDING' && <RedeliverWebhookButton deliveryId={delivery.id} />}
+                    </div>
+                  </summary>
+                  <div className="mt-3 space-y-2 text-xs">
+                    <p className="text-muted-foreground">Evento {delivery.eventId}</p>
+                    <pre className="rounded bg-muted p-3 overflow-x-auto">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                    {delivery.responseBody && (
+                      <pre className="rounded bg-muted p-3 overflow-x-auto whitespace-pre-wrap">{delivery.responseBody}</pre>
+                    )}
+                  </div>
+                </details>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
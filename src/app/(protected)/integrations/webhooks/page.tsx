@@ -0,0 +1,104 @@
+import { listWebhooksAction } from '@/lib/actions/integration'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { WebhookDialog } from '@/components/admin/webhook-actions'
+import { AlertTriangle, ChevronRight, Webhook } from 'lucide-react'
+import { WEBHOOK_DELIVERY_STATUS_LABELS, WEBHOOK_EVENT_LABELS } from '@/lib/validations/integration'
+import Link from 'next/link'
+
+const deliveryStatusColors: Record<string, string> = {
+  SUCCEEDED: 'bg-green-100 text-green-800 border-green-200',
+  PENDING: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  DEAD_LETTER: 'bg-red-100 text-red-800 border-red-200',
+}
+
+const formatDateTime = (date: string | Date) => {
+  return new Date(date).toLocaleString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default async function WebhooksPage() {
+  const result = await listWebhooksAction({ limit: 100 })
+  const webhooks = result.success ? result.data.webhooks : []
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Webhook className="h-8 w-8" />
+            Webhooks
+          </h1>
+          <p className="text-muted-foreground">
+            Avisa a tus otros sistemas cuando se crean reservas, se pagan facturas o llegan visitas
+          </p>
+        </div>
+        <WebhookDialog />
+      </div>
+
+      {!result.success && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6 text-red-800">{result.error}</CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+          <CardDescription>
+            Cada envío va firmado en la cabecera X-SweetSpot-Signature con el secreto del webhook
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {webhooks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aún no hay webhooks configurados</p>
+          ) : (
+            <div className="space-y-3">
+              {webhooks.map((webhook: any) => (
+                <Link
+                  key={webhook.id}
+                  href={`/integrations/webhooks/${webhook.id}`}
+                  className="flex items-center justify-between gap-4 border rounded-lg p-3 hover:bg-muted/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium flex items-center gap-2">
+                      {webhook.name}
+                      {!webhook.isActive && <Badge variant="secondary">Inactivo</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{webhook.url}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {webhook.events.map((event: string) => WEBHOOK_EVENT_LABELS[event as keyof typeof WEBHOOK_EVENT_LABELS] || event).join(' • ')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {webhook.deadLetterCount > 0 && (
+                      <span className="flex items-center gap-1 text-sm text-red-700">
+                        <AlertTriangle className="h-4 w-4" />
+                        {webhook.deadLetterCount} fallidos
+                      </span>
+                    )}
+                    {webhook.lastDelivery && (
+                      <div className="text-right">
+                        <Badge variant="outline" className={deliveryStatusColors[webhook.lastDelivery.status] || ''}>
+                          {WEBHOOK_DELIVERY_STATUS_LABELS[webhook.lastDelivery.status as keyof typeof WEBHOOK_DELIVERY_STATUS_LABELS]}
+                        </Badge>
+                        <p className="text-xs text-muted-foreground mt-1">{formatDateTime(webhook.lastDelivery.createdAt)}</p>
+                      </div>
+                    )}
+                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -25,13 +25,14 @@ import {
   Mail
 } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
-import { listQuotationsAction, changeQuotationStatusAction, duplicateQuotationAction, deleteQuotationAction } from '@/lib/actions/quotations'
+import { listQuotationsAction, changeQuotationStatusAction, duplicateQuotationAction, deleteQuotationAction, getQuotationStatsAction } from '@/lib/actions/quotations'
 import QuotationsList from '@/components/quotations/QuotationsList'
 import CreateQuotationModal from '@/components/quotations/CreateQuotationModal'
 import QuotationDetailModal from '@/components/quotations/QuotationDetailModal'
 import EditQuotationModal from '@/components/quotations/EditQuotationModal'
 import QuotationVersionsModal from '@/components/quotations/QuotationVersionsModal'
 import SendQuotationModal from '@/components/quotations/SendQuotationModal'
+import type { ListQuotationsRequest } from '@/lib/validations/quotations'
 
 interface Quotation {
   id: string
@@ -86,6 +87,7 @@ interface QuotationStats {
   converted: number
   totalValue: number
   averageValue: number
+  currency: string
 }
 
 const STATUS_FILTERS = [
@@ -120,6 +122,7 @@ function QuotationsPageContent() {
     converted: 0,
     totalValue: 0,
     averageValue: 0,
+    currency: 'COP',
   })
   const [isLoading, setIsLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -143,14 +146,17 @@ function QuotationsPageContent() {
     setIsLoading(true)
     try {
       const [sortField, sortOrder] = sortBy.split('-')
-      const result = await listQuotationsAction({
-        search: searchTerm || undefined,
-        status: statusFilter === 'all' ? undefined : statusFilter,
-        page: currentPage,
-        limit: 20,
-        sortBy: sortField as any,
-        sortOrder: sortOrder as 'asc' | 'desc',
-      })
+      const [result, statsResult] = await Promise.all([
+        listQuotationsAction({
+          search: searchTerm || undefined,
+          status: statusFilter === 'all' ? undefined : statusFilter,
+          page: currentPage,
+          limit: 20,
+          sortBy: sortField as ListQuotationsRequest['sortBy'],
+          sortOrder: sortOrder as 'asc' | 'desc',
+        }),
+        getQuotationStatsAction({}),
+      ])
       
       if (result.success && result.data) {
         const quotations = result.data.quotations || []
@@ -167,8 +173,10 @@ function QuotationsPageContent() {
           rejected: quotations.filter(q => q.status === 'REJECTED').length,
           expired: quotations.filter(q => q.status === 'EXPIRED').length,
           converted: quotations.filter(q => q.status === 'CONVERTED').length,
-          totalValue: quotations.reduce((sum, q) => sum + q.total, 0),
-          averageValue: quotations.length > 0 ? quotations.reduce((sum, q) => sum + q.total, 0) / quotations.length : 0,
+          // Values come from the server, added up in the base currency across all quotations
+          totalValue: statsResult.success ? statsResult.data.totalValue : 0,
+          averageValue: statsResult.success ? statsResult.data.averageValue : 0,
+          currency: statsResult.success ? statsResult.data.currency : 'COP',
         }
         setStats(stats)
         
@@ -351,7 +359,7 @@ function QuotationsPageContent() {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('es-CO', {
       style: 'currency',
-      currency: 'COP',
+      currency: stats.currency,
       minimumFractionDigits: 0,
     }).format(amount)
   }
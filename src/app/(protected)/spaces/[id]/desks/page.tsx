@@ -0,0 +1,67 @@
+import { notFound } from 'next/navigation'
+import { getDeskMapAction, listUnassignedDeskMembershipsAction } from '@/lib/actions/desk'
+import { getTenantContext } from '@/lib/auth'
+import { DeskMap } from '@/components/spaces/desk-map'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Monitor } from 'lucide-react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+
+interface DeskMapPageProps {
+  params: Promise<{
+    id: string
+  }>
+  searchParams: Promise<{
+    date?: string
+  }>
+}
+
+export default async function DeskMapPage({ params, searchParams }: DeskMapPageProps) {
+  const { id } = await params
+  const { date: dateParam } = await searchParams
+
+  // Get current user context
+  const { user } = await getTenantContext()
+  const isAdmin = user?.role === 'COWORK_ADMIN' || user?.role === 'SUPER_ADMIN'
+
+  const date = dateParam || format(new Date(), 'yyyy-MM-dd')
+  const result = await getDeskMapAction({ spaceId: id, date: new Date(`${date}T00:00`) })
+
+  if (!result.success || !result.data || !user) {
+    notFound()
+  }
+
+  // Dedicated-desk members still waiting for a desk
+  const membershipsResult = isAdmin ? await listUnassignedDeskMembershipsAction() : null
+  const memberships = membershipsResult?.success ? (membershipsResult.data || []) : []
+
+  return (
+    <div className="container max-w-6xl mx-auto py-6">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-6">
+        <Link href={`/spaces/${id}`}>
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-1" />Volver al Espacio
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Monitor className="h-8 w-8" />
+            Mapa de Escritorios
+          </h1>
+          <p className="text-muted-foreground">
+            {result.data.space.name} • Reserva un escritorio por día o medio día
+          </p>
+        </div>
+      </div>
+
+      <DeskMap
+        map={result.data}
+        date={date}
+        userId={user.id}
+        isAdmin={isAdmin}
+        memberships={memberships}
+      />
+    </div>
+  )
+}
@@ -17,6 +17,7 @@ import {
   Shield,
   RotateCcw,
   Palette,
+  Monitor,
 } from 'lucide-react'
 import Link from 'next/link'
 
@@ -292,6 +293,11 @@ export default async function SpaceDetailPage({ params }: SpaceDetailPageProps)
                   <Users className="h-4 w-4 mr-2" />Analíticas
                 </Button>
               </Link>
+              <Link href={`/spaces/${space.id}/desks`}>
+                <Button variant="outline" className="w-full justify-start">
+                  <Monitor className="h-4 w-4 mr-2" />Mapa de Escritorios
+                </Button>
+              </Link>
             </CardContent>
           </Card>
 
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SubscriptionBillingService } from '@/services/subscription-billing.service'
+
+/**
+ * Subscription billing run
+ * Called by the scheduler (see vercel.json) with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await SubscriptionBillingService.getInstance().runBilling({ scheduled: true })
+
+    return NextResponse.json({
+      success: true,
+      inspected: result.inspected,
+      invoiced: result.invoiced.length,
+      skipped: result.skipped.length,
+      errors: result.errors,
+    })
+  } catch (error: any) {
+    console.error('Subscription billing job error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to run subscription billing' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DunningService } from '@/services/dunning.service'
+
+/**
+ * Dunning run
+ * Called by the scheduler (see vercel.json) with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await DunningService.getInstance().runDunning()
+
+    return NextResponse.json({
+      success: true,
+      inspected: result.inspected,
+      steps: result.steps.length,
+      reinstated: result.reinstated.length,
+      errors: result.errors,
+    })
+  } catch (error: any) {
+    console.error('Dunning job error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to run dunning' },
+      { status: 500 }
+    )
+  }
+}
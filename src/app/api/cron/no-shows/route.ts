@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BookingNoShowService } from '@/services/booking-no-show.service'
+
+/**
+ * No-show detection job
+ * Called by the scheduler (see vercel.json) with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await BookingNoShowService.getInstance().processNoShows()
+
+    return NextResponse.json({
+      success: true,
+      inspected: result.inspected,
+      noShows: result.noShows.length,
+      errors: result.errors,
+    })
+  } catch (error: any) {
+    console.error('No-show detection job error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to process no-shows' },
+      { status: 500 }
+    )
+  }
+}
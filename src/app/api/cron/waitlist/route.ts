@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processScheduledWaitlistOffersAction } from '@/lib/actions/booking'
+
+/**
+ * Waitlist hold expiry job
+ * Called by the scheduler (see vercel.json) with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await processScheduledWaitlistOffersAction()
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result.data,
+    })
+  } catch (error: any) {
+    console.error('Waitlist hold expiry job error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to process waitlist offers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { WebhookService } from '@/services/webhook.service'
+
+/**
+ * Webhook delivery retries
+ * Called by the scheduler (see vercel.json) with `Authorization: Bearer $CRON_SECRET`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await WebhookService.getInstance().processDueDeliveries()
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error: any) {
+    console.error('Webhook delivery job error:', error)
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to process webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -10,23 +10,9 @@ import {
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = parseInt(searchParams.get('limit') || '20')
-    const search = searchParams.get('search') || undefined
-    const isActive = searchParams.get('isActive') ? searchParams.get('isActive') === 'true' : undefined
-    const environment = searchParams.get('environment') || undefined
-    const sortBy = searchParams.get('sortBy') || 'name'
-    const sortOrder = searchParams.get('sortOrder') || 'asc'
+    const includeRevoked = searchParams.get('includeRevoked') === 'true'
 
-    const result = await listApiKeysAction({
-      page,
-      limit,
-      search,
-      isActive,
-      environment: environment as any,
-      sortBy: sortBy as any,
-      sortOrder: sortOrder as any,
-    })
+    const result = await listApiKeysAction({ includeRevoked })
 
     if (!result.success) {
       return NextResponse.json(
@@ -51,7 +37,10 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
-    const result = await createApiKeyAction(data)
+    const result = await createApiKeyAction({
+      ...data,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    })
 
     if (!result.success) {
       return NextResponse.json(
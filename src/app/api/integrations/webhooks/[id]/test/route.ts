@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { testWebhookAction } from '@/lib/actions/integration'
 
 interface RouteParams {
-  params: { id: string }
+  params: Promise<{ id: string }>
 }
 
 /**
@@ -10,10 +10,11 @@ interface RouteParams {
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
+    const { id } = await params
     const data = await request.json()
     const result = await testWebhookAction({
-      id: params.id,
       ...data,
+      id,
     })
 
     if (!result.success) {
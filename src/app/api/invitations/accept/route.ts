@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withRateLimit } from '@/lib/server/rate-limit'
 import { auth, clerkClient } from '@clerk/nextjs/server'
 import { InvitationService } from '@/services/invitation.service'
 
@@ -6,7 +7,7 @@ import { InvitationService } from '@/services/invitation.service'
  * Unified Accept Invitation API
  * Uses the centralized InvitationService for accepting invitations
  */
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('invitation-accept', async function POST(request: NextRequest) {
   try {
     const { email, clerkUserId } = await request.json()
     
@@ -75,4 +76,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
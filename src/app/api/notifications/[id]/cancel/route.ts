@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelNotificationAction } from '@/lib/actions/notification'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * POST /api/notifications/[id]/cancel - Cancel a notification that has not been sent yet
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const data = await request.json().catch(() => ({}))
+    const result = await cancelNotificationAction({
+      id: params.id,
+      reason: data.reason,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, details: result.fieldErrors },
+        { status: result.error === 'Notification not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(result.data)
+  } catch (error) {
+    console.error('Cancel notification API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resendNotificationAction } from '@/lib/actions/notification'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * POST /api/notifications/[id]/resend - Queue a failed or cancelled notification again
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const data = await request.json().catch(() => ({}))
+    const result = await resendNotificationAction({
+      id: params.id,
+      resetRetryCount: data.resetRetryCount,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, details: result.fieldErrors },
+        { status: result.error === 'Notification not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(result.data)
+  } catch (error) {
+    console.error('Resend notification API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
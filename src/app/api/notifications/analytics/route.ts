@@ -10,8 +10,8 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate') ? new Date(searchParams.get('startDate')!) : undefined
     const endDate = searchParams.get('endDate') ? new Date(searchParams.get('endDate')!) : undefined
     const groupBy = searchParams.get('groupBy') || 'day'
-    const includeDeliveryRates = searchParams.get('includeDeliveryRates') === 'true'
-    const includeEngagementRates = searchParams.get('includeEngagementRates') === 'true'
+    const includeDeliveryRates = searchParams.get('includeDeliveryRates') !== 'false'
+    const includeEngagementRates = searchParams.get('includeEngagementRates') !== 'false'
 
     const result = await getNotificationAnalyticsAction({
       startDate,
@@ -15,6 +15,10 @@ export async function POST(
       transactionId: body.transactionId,
       processorFee: body.processorFee,
       notes: body.notes,
+      provider: body.provider,
+      paymentMethodId: body.paymentMethodId,
+      capture: body.capture,
+      returnUrl: body.returnUrl,
     }
     
     const result = await processPaymentAction(data)
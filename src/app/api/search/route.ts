@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withRateLimit } from '@/lib/server/rate-limit'
 import { globalSearchAction, advancedSearchAction, getSearchSuggestionsAction } from '@/lib/actions/search'
 
 // Global search (GET /api/search)
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('search', async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const query = searchParams.get('q')
@@ -82,10 +83,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Advanced search (POST /api/search)
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('search', async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -122,4 +123,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
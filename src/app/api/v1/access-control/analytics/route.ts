@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   getAccessAnalyticsAction,
   type GetAccessAnalyticsRequest
@@ -13,7 +14,7 @@ import {
  * GET /api/v1/access-control/analytics
  * Get access control analytics and statistics
  */
-export async function GET(request: NextRequest) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     
@@ -47,4 +48,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   controlAccessPointAction,
   grantAccessAction,
@@ -19,7 +20,7 @@ interface RouteParams {
  * POST /api/v1/access-control/points/[id]/control
  * Control an access point (lock, unlock, etc.)
  */
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -48,13 +49,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/access-control/points/[id]/control
  * Grant temporary access to a user or visitor
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -85,4 +86,4 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   createAccessPointAction, 
   listAccessPointsAction,
@@ -15,7 +16,7 @@ import {
  * GET /api/v1/access-control/points
  * List access points with filtering and pagination
  */
-export async function GET(request: NextRequest) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     
@@ -52,13 +53,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/v1/access-control/points
  * Create a new access point
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -100,4 +101,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/server/rate-limit';
 import { currentUser } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
@@ -15,7 +16,7 @@ const updateActivitySchema = z.object({
   completedAt: z.string().nullish(),
 });
 
-export async function GET(
+export const GET = withRateLimit('api', async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -100,9 +101,9 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
+export const PUT = withRateLimit('api', async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -212,9 +213,9 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withRateLimit('api', async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -274,4 +275,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
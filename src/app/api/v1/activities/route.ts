@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withRateLimit } from '@/lib/server/rate-limit';
 import { currentUser } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
@@ -18,7 +19,7 @@ const createActivitySchema = z.object({
   completedAt: z.string().optional(),
 });
 
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('api', async function GET(request: NextRequest) {
   try {
     const user = await currentUser();
     if (!user) {
@@ -131,9 +132,9 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('api', async function POST(request: NextRequest) {
   try {
     const user = await currentUser();
     if (!user) {
@@ -220,4 +221,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
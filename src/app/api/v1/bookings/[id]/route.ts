@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   getBookingAction,
   updateBookingAction,
@@ -21,7 +22,7 @@ interface RouteParams {
  * GET /api/v1/bookings/[id]
  * Get a booking by ID
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await getBookingAction({ id: params.id } as GetBookingRequest)
 
@@ -43,13 +44,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/bookings/[id]
  * Update a booking
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -97,13 +98,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * DELETE /api/v1/bookings/[id]
  * Cancel a booking
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withApiKeyAuth(async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json().catch(() => ({}))
     
@@ -131,4 +132,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   checkBookingConflictsAction,
   type CheckBookingConflictsRequest
@@ -13,7 +14,7 @@ import {
  * POST /api/v1/bookings/conflicts
  * Check for booking conflicts
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -42,13 +43,13 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+}, 'bookings:read')
 
 /**
  * GET /api/v1/bookings/conflicts
  * Check for booking conflicts (query params)
  */
-export async function GET(request: NextRequest) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const spaceId = searchParams.get('spaceId')
@@ -88,4 +89,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
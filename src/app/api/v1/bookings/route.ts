@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   createBookingAction, 
   listBookingsAction,
@@ -15,7 +16,7 @@ import {
  * GET /api/v1/bookings
  * List bookings with filtering and pagination
  */
-export async function GET(request: NextRequest) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     
@@ -24,13 +25,12 @@ export async function GET(request: NextRequest) {
       limit: parseInt(searchParams.get('limit') || '20'),
       search: searchParams.get('search') || undefined,
       spaceId: searchParams.get('spaceId') || undefined,
-      clientId: searchParams.get('clientId') || undefined,
+      userId: searchParams.get('userId') || undefined,
       status: searchParams.get('status') as any || undefined,
       type: searchParams.get('type') as any || undefined,
       startDate: searchParams.get('startDate') ? new Date(searchParams.get('startDate')!) : undefined,
       endDate: searchParams.get('endDate') ? new Date(searchParams.get('endDate')!) : undefined,
       isRecurring: searchParams.get('isRecurring') ? searchParams.get('isRecurring') === 'true' : undefined,
-      requiresApproval: searchParams.get('requiresApproval') ? searchParams.get('requiresApproval') === 'true' : undefined,
       sortBy: searchParams.get('sortBy') as any || 'startTime',
       sortOrder: searchParams.get('sortOrder') as any || 'asc',
     }
@@ -55,13 +55,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/v1/bookings
  * Create a new booking
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -102,4 +102,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * OpenAPI document of the REST API
+ * Public so integrators and client generators can read it without a key
+ */
+
+import { NextResponse } from 'next/server'
+import { getApiV1Document } from '@/lib/openapi'
+import { getApiBaseUrl } from '@/lib/api-config'
+
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3 document of the /api/v1 operations
+ */
+export async function GET() {
+  return NextResponse.json(getApiV1Document(getApiBaseUrl()), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  })
+}
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   checkoutResourceAction,
   checkinResourceAction,
@@ -19,7 +20,7 @@ interface RouteParams {
  * POST /api/v1/resources/[id]/checkout
  * Check out a resource
  */
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -50,13 +51,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/resources/[id]/checkout
  * Check in a resource (return)
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -85,4 +86,4 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
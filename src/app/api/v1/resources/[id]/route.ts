@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   getResourceAction,
   updateResourceAction,
@@ -21,7 +22,7 @@ interface RouteParams {
  * GET /api/v1/resources/[id]
  * Get a resource by ID
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await getResourceAction({ id: params.id } as GetResourceRequest)
 
@@ -43,13 +44,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/resources/[id]
  * Update a resource
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -93,13 +94,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * DELETE /api/v1/resources/[id]
  * Delete a resource
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withApiKeyAuth(async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await deleteResourceAction({ id: params.id } as DeleteResourceRequest)
 
@@ -121,4 +122,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
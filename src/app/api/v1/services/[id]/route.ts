@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withRateLimit } from '@/lib/server/rate-limit'
 import { 
   getServiceAction,
   updateServiceAction,
@@ -21,7 +22,7 @@ interface RouteParams {
  * GET /api/v1/services/[id]
  * Get a service by ID
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withRateLimit('api', async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await getServiceAction({ id: params.id } as GetServiceRequest)
 
@@ -43,13 +44,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/services/[id]
  * Update a service
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withRateLimit('api', async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -85,13 +86,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * DELETE /api/v1/services/[id]
  * Delete a service
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withRateLimit('api', async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await deleteServiceAction({ id: params.id } as DeleteServiceRequest)
 
@@ -113,4 +114,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
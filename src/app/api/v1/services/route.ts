@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withRateLimit } from '@/lib/server/rate-limit'
 import { 
   createServiceAction, 
   listServicesAction,
@@ -15,7 +16,7 @@ import {
  * GET /api/v1/services
  * List services with filtering and pagination
  */
-export async function GET(request: NextRequest) {
+export const GET = withRateLimit('api', async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     
@@ -54,13 +55,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/v1/services
  * Create a new service
  */
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('api', async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -93,4 +94,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
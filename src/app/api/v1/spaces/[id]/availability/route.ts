@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   checkSpaceAvailabilityAction,
   type CheckSpaceAvailabilityRequest
@@ -17,7 +18,7 @@ interface RouteParams {
  * POST /api/v1/spaces/[id]/availability
  * Check space availability for a time period
  */
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -46,13 +47,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+}, 'spaces:read')
 
 /**
  * GET /api/v1/spaces/[id]/availability
  * Get space availability for a date range (query params)
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const searchParams = request.nextUrl.searchParams
     const startTime = searchParams.get('startTime')
@@ -91,4 +92,4 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
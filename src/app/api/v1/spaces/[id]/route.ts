@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   getSpaceAction,
   updateSpaceAction,
@@ -21,7 +22,7 @@ interface RouteParams {
  * GET /api/v1/spaces/[id]
  * Get a space by ID
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await getSpaceAction({ id: params.id } as GetSpaceRequest)
 
@@ -43,27 +44,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/spaces/[id]
  * Update a space
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
-    // Convert string dates to Date objects if needed
-    if (body.availabilityRules) {
-      body.availabilityRules = body.availabilityRules.map((rule: any) => ({
-        ...rule,
-        startTime: rule.startTime ? new Date(rule.startTime) : undefined,
-        endTime: rule.endTime ? new Date(rule.endTime) : undefined,
-        startDate: rule.startDate ? new Date(rule.startDate) : undefined,
-        endDate: rule.endDate ? new Date(rule.endDate) : undefined,
-      }))
-    }
-
     const result = await updateSpaceAction({
       id: params.id,
       ...body,
@@ -87,13 +77,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * DELETE /api/v1/spaces/[id]
  * Delete a space
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withApiKeyAuth(async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await deleteSpaceAction({ id: params.id } as DeleteSpaceRequest)
 
@@ -115,4 +105,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   createSpaceAction, 
   listSpacesAction,
@@ -15,7 +16,7 @@ import {
  * GET /api/v1/spaces
  * List spaces with filtering and pagination
  */
-export async function GET(request: NextRequest) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     
@@ -25,11 +26,12 @@ export async function GET(request: NextRequest) {
       search: searchParams.get('search') || undefined,
       type: searchParams.get('type') as any || undefined,
       status: searchParams.get('status') as any || undefined,
-      capacity: searchParams.get('capacity') ? parseInt(searchParams.get('capacity')!) : undefined,
-      minPrice: searchParams.get('minPrice') ? parseFloat(searchParams.get('minPrice')!) : undefined,
-      maxPrice: searchParams.get('maxPrice') ? parseFloat(searchParams.get('maxPrice')!) : undefined,
+      capacity: searchParams.get('capacity') ? { min: parseInt(searchParams.get('capacity')!) } : undefined,
+      priceRange: searchParams.get('minPrice') || searchParams.get('maxPrice') ? {
+        min: searchParams.get('minPrice') ? parseFloat(searchParams.get('minPrice')!) : undefined,
+        max: searchParams.get('maxPrice') ? parseFloat(searchParams.get('maxPrice')!) : undefined,
+      } : undefined,
       isActive: searchParams.get('isActive') ? searchParams.get('isActive') === 'true' : undefined,
-      isBookable: searchParams.get('isBookable') ? searchParams.get('isBookable') === 'true' : undefined,
       sortBy: searchParams.get('sortBy') as any || 'name',
       sortOrder: searchParams.get('sortOrder') as any || 'asc',
     }
@@ -54,27 +56,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * POST /api/v1/spaces
  * Create a new space
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
-    // Convert string dates to Date objects if needed
-    if (body.availabilityRules) {
-      body.availabilityRules = body.availabilityRules.map((rule: any) => ({
-        ...rule,
-        startTime: rule.startTime ? new Date(rule.startTime) : undefined,
-        endTime: rule.endTime ? new Date(rule.endTime) : undefined,
-        startDate: rule.startDate ? new Date(rule.startDate) : undefined,
-        endDate: rule.endDate ? new Date(rule.endDate) : undefined,
-      }))
-    }
-
     const result = await createSpaceAction(body as CreateSpaceRequest)
 
     if (!result.success) {
@@ -95,4 +86,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
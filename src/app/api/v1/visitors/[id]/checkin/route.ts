@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   checkInVisitorAction,
   checkOutVisitorAction,
@@ -19,7 +20,7 @@ interface RouteParams {
  * POST /api/v1/visitors/[id]/checkin
  * Check in a visitor
  */
-export async function POST(request: NextRequest, { params }: RouteParams) {
+export const POST = withApiKeyAuth(async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -54,13 +55,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/visitors/[id]/checkin
  * Check out a visitor (return)
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -92,4 +93,4 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
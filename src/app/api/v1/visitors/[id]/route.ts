@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withApiKeyAuth } from '@/lib/server/api-key-auth'
 import { 
   getVisitorAction,
   updateVisitorAction,
@@ -21,7 +22,7 @@ interface RouteParams {
  * GET /api/v1/visitors/[id]
  * Get a visitor by ID
  */
-export async function GET(request: NextRequest, { params }: RouteParams) {
+export const GET = withApiKeyAuth(async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await getVisitorAction({ id: params.id } as GetVisitorRequest)
 
@@ -43,13 +44,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * PUT /api/v1/visitors/[id]
  * Update a visitor
  */
-export async function PUT(request: NextRequest, { params }: RouteParams) {
+export const PUT = withApiKeyAuth(async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const body = await request.json()
     
@@ -108,13 +109,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * DELETE /api/v1/visitors/[id]
  * Cancel a visitor
  */
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+export const DELETE = withApiKeyAuth(async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const result = await deleteVisitorAction({ id: params.id } as DeleteVisitorRequest)
 
@@ -136,4 +137,4 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotificationDeliveryService } from '@/services/notification-delivery.service'
+import { NotificationReceiptSignatureError } from '@/services/notification-channels'
+import { logger } from '@/lib/logger'
+
+/**
+ * Delivery receipts of the notification providers, e.g. /api/webhooks/notifications/resend
+ * for email events and /api/webhooks/notifications/twilio for SMS status callbacks
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params
+
+  try {
+    // Signatures are computed over the raw body, it is parsed by the channel adapter
+    const result = await NotificationDeliveryService.getInstance().handleReceipts(provider, {
+      body: await request.text(),
+      headers: request.headers,
+      url: request.url,
+    })
+
+    if (!result) {
+      return NextResponse.json({ error: 'Unknown notification provider' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof NotificationReceiptSignatureError) {
+      logger.error('Invalid notification receipt signature', error, { operation: 'notification_receipt', provider })
+      return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 400 })
+    }
+
+    // A 5xx makes the provider send the receipt again later
+    logger.error('Notification receipt processing failed', error as Error, { operation: 'notification_receipt', provider })
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 })
+  }
+}
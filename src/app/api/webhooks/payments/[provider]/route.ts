@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { PaymentProvider } from '@prisma/client'
+import { PaymentGatewayService } from '@/services/payment-gateway.service'
+import { PaymentWebhookSignatureError, isGatewayProvider } from '@/services/payment-gateways'
+import { logger } from '@/lib/logger'
+
+// URL segment of each gateway, e.g. /api/webhooks/payments/mercado-pago
+const PROVIDERS: Record<string, PaymentProvider> = {
+  stripe: 'STRIPE',
+  'mercado-pago': 'MERCADO_PAGO',
+  transbank: 'TRANSBANK',
+}
+
+/**
+ * Payment gateway notifications. Stripe and Mercado Pago sign their webhooks; Transbank
+ * sends the client's browser back here with the transaction token instead.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  return await handleNotification(request, (await params).provider)
+}
+
+// Webpay returns by GET when the client leaves the payment page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params
+  if (provider !== 'transbank') {
+    return NextResponse.json({ error: 'Method not allowed' }, { status: 405 })
+  }
+  return await handleNotification(request, provider)
+}
+
+async function handleNotification(request: NextRequest, segment: string) {
+  const provider = PROVIDERS[segment]
+  if (!provider || !isGatewayProvider(provider)) {
+    return NextResponse.json({ error: 'Unknown payment provider' }, { status: 404 })
+  }
+
+  try {
+    // Signatures are computed over the raw body, it is parsed by the gateway adapter
+    const body = request.method === 'POST' ? await request.text() : ''
+
+    const result = await PaymentGatewayService.getInstance().handleWebhook(provider, {
+      body,
+      headers: request.headers,
+      url: request.url,
+    })
+
+    if (provider === 'TRANSBANK') {
+      const returnUrl = result.returnUrl || `${process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin}/billing`
+      return NextResponse.redirect(returnUrl, 303)
+    }
+
+    return NextResponse.json({ received: true, handled: result.handled })
+  } catch (error) {
+    if (error instanceof PaymentWebhookSignatureError) {
+      logger.error('Invalid payment webhook signature', error, { operation: 'payment_webhook', provider })
+      return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 400 })
+    }
+
+    // A 5xx makes the gateway deliver the event again later
+    logger.error('Payment webhook processing failed', error as Error, { operation: 'payment_webhook', provider })
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 })
+  }
+}
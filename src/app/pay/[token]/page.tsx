@@ -0,0 +1,218 @@
+import { Metadata } from 'next'
+import { AlertCircle, CheckCircle2, Clock, XCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { getPublicInvoiceAction } from '@/lib/actions/payment-link'
+import { isZeroDecimalCurrency } from '@/lib/utils/payment-gateway'
+import { PayForm } from './pay-form'
+
+// The invoice and its balance change as payments arrive
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Pagar Factura - SweetSpot Cowork',
+  description: 'Revisa y paga tu factura',
+  robots: 'noindex, nofollow',
+}
+
+interface PayInvoicePageProps {
+  params: Promise<{ token: string }>
+  searchParams: Promise<{ returned?: string }>
+}
+
+const invoiceStatusLabels: Record<string, string> = {
+  SENT: 'Pendiente de pago',
+  OVERDUE: 'Vencida',
+  PAID: 'Pagada',
+  CANCELLED: 'Cancelada',
+}
+
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-ES', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+const formatAmount = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('es-ES', { style: 'currency', currency }).format(amount)
+}
+
+function Message({ icon: Icon, title, description, className }: {
+  icon: typeof AlertCircle
+  title: string
+  description: string
+  className: string
+}) {
+  return (
+    <div className={`flex items-start gap-3 rounded-lg border p-4 ${className}`}>
+      <Icon className="h-5 w-5 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium">{title}</p>
+        <p className="text-sm">{description}</p>
+      </div>
+    </div>
+  )
+}
+
+function PaymentResult({ payment, currency }: { payment: any, currency: string }) {
+  const amount = formatAmount(payment.amount, currency)
+
+  if (payment.status === 'COMPLETED') {
+    return (
+      <Message
+        icon={CheckCircle2}
+        title="Pago recibido"
+        description={`Recibimos tu pago de ${amount}. Gracias.`}
+        className="border-green-200 bg-green-50 text-green-800"
+      />
+    )
+  }
+
+  if (payment.status === 'FAILED' || payment.status === 'CANCELLED') {
+    return (
+      <Message
+        icon={XCircle}
+        title="El pago no se completó"
+        description={`No se pudo cobrar ${amount}. Puedes intentarlo de nuevo.`}
+        className="border-red-200 bg-red-50 text-red-800"
+      />
+    )
+  }
+
+  return (
+    <Message
+      icon={Clock}
+      title="Pago en proceso"
+      description={payment.method === 'BANK_TRANSFER'
+        ? `Registramos tu transferencia de ${amount}. La factura se actualizará cuando la confirmemos.`
+        : `Estamos confirmando tu pago de ${amount}. Recarga la página en unos minutos.`}
+      className="border-yellow-200 bg-yellow-50 text-yellow-800"
+    />
+  )
+}
+
+export default async function PayInvoicePage({ params, searchParams }: PayInvoicePageProps) {
+  const { token } = await params
+  const { returned } = await searchParams
+  const result = await getPublicInvoiceAction({ token })
+
+  if (!result.success || !result.data.invoice) {
+    const status = result.success ? result.data.status : null
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-8 text-center space-y-3">
+            <AlertCircle className="h-8 w-8 mx-auto text-muted-foreground" />
+            <p className="font-medium">
+              {status === 'EXPIRED'
+                ? 'Este enlace de pago ha vencido'
+                : status === 'REVOKED'
+                  ? 'Este enlace de pago ya no está disponible'
+                  : 'Enlace de pago no encontrado'}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {result.success
+                ? `Solicita un nuevo enlace a ${result.data.tenant.name}`
+                : 'Revisa que el enlace esté completo o solicita uno nuevo'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const { tenant, invoice, lastPayment } = result.data
+  const isPayable = ['SENT', 'OVERDUE'].includes(invoice.status) && invoice.balance > 0
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="flex items-center gap-3">
+          {tenant.logo && <img src={tenant.logo} alt={tenant.name} className="h-10 w-10 rounded object-contain" />}
+          <h1 className="text-xl font-semibold">{tenant.name}</h1>
+        </div>
+
+        {returned && lastPayment && <PaymentResult payment={lastPayment} currency={invoice.currency} />}
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Factura {invoice.number}</CardTitle>
+              <CardDescription>
+                {invoice.client.name} • Emitida el {formatDate(invoice.createdAt)} • Vence el {formatDate(invoice.dueDate)}
+              </CardDescription>
+            </div>
+            <Badge variant="outline">{invoiceStatusLabels[invoice.status] || invoice.status}</Badge>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {invoice.title && <p className="text-sm text-muted-foreground">{invoice.title}</p>}
+
+            <div className="divide-y border rounded-lg">
+              {invoice.items.map((item: any) => (
+                <div key={item.id} className="flex items-center justify-between p-3 text-sm">
+                  <div>
+                    <p>{item.description}</p>
+                    <p className="text-muted-foreground">
+                      {item.quantity} × {formatAmount(item.unitPrice, invoice.currency)}
+                      {item.taxRate > 0 && ` • Impuesto ${item.taxRate}%`}
+                    </p>
+                  </div>
+                  <span className="font-medium">{formatAmount(item.total, invoice.currency)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatAmount(invoice.subtotal, invoice.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {invoice.taxIncluded ? 'Impuestos incluidos' : 'Impuestos'}
+                </span>
+                <span>{formatAmount(invoice.tax, invoice.currency)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{formatAmount(invoice.total, invoice.currency)}</span>
+              </div>
+              {invoice.paid > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Pagado</span>
+                  <span>-{formatAmount(invoice.paid, invoice.currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-base font-semibold pt-2 border-t">
+                <span>Saldo pendiente</span>
+                <span>{formatAmount(invoice.balance, invoice.currency)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isPayable ? (
+          <PayForm
+            token={token}
+            balance={invoice.balance}
+            currency={invoice.currency}
+            amountStep={isZeroDecimalCurrency(invoice.currency) ? 1 : 0.01}
+            onlinePayments={result.data.onlinePayments}
+            bankTransferInstructions={result.data.bankTransferInstructions}
+          />
+        ) : (
+          <Card>
+            <CardContent className="py-6 text-center text-sm text-muted-foreground">
+              {invoice.balance > 0
+                ? 'Esta factura no admite pagos en este momento'
+                : 'Esta factura no tiene saldo pendiente'}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Building2, CreditCard } from 'lucide-react'
+import { payInvoiceOnlineAction, reportBankTransferAction } from '@/lib/actions/payment-link'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface PayFormProps {
+  token: string
+  balance: number
+  currency: string
+  amountStep: number
+  onlinePayments: boolean
+  bankTransferInstructions: string | null
+}
+
+export function PayForm({ token, balance, currency, amountStep, onlinePayments, bankTransferInstructions }: PayFormProps) {
+  const router = useRouter()
+  const [amount, setAmount] = useState(balance)
+  const [reference, setReference] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handlePayOnline = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await payInvoiceOnlineAction({ token, amount })
+
+      if (result.success && result.data.redirectUrl) {
+        window.location.href = result.data.redirectUrl
+        return
+      }
+
+      if (result.success) {
+        router.push(`/pay/${token}?returned=1`)
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'No se pudo iniciar el pago')
+      }
+    } catch (error) {
+      console.error('Error starting online payment:', error)
+      toast.error('Error al procesar la solicitud')
+    }
+
+    setIsProcessing(false)
+  }
+
+  const handleReportTransfer = async () => {
+    if (!reference.trim()) {
+      toast.error('Indica el número de operación de la transferencia')
+      return
+    }
+    setIsProcessing(true)
+
+    try {
+      const result = await reportBankTransferAction({ token, amount, reference: reference.trim() })
+
+      if (result.success) {
+        setReference('')
+        router.push(`/pay/${token}?returned=1`)
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'No se pudo registrar la transferencia')
+      }
+    } catch (error) {
+      console.error('Error reporting bank transfer:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  if (!onlinePayments && !bankTransferInstructions) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-center text-sm text-muted-foreground">
+          Contacta a tu espacio de coworking para coordinar el pago
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pagar</CardTitle>
+        <CardDescription>Puedes pagar el saldo completo o solo una parte</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="amount">Monto a pagar ({currency})</Label>
+          <Input
+            id="amount"
+            type="number"
+            min={amountStep}
+            max={balance}
+            step={amountStep}
+            value={amount}
+            onChange={e => setAmount(Number(e.target.value))}
+          />
+        </div>
+
+        {onlinePayments && (
+          <Button className="w-full" disabled={isProcessing} onClick={handlePayOnline}>
+            <CreditCard className="h-4 w-4 mr-2" />
+            {isProcessing ? 'Procesando...' : 'Pagar con tarjeta'}
+          </Button>
+        )}
+
+        {bankTransferInstructions && (
+          <div className="space-y-3 border-t pt-6">
+            <p className="flex items-center gap-2 font-medium">
+              <Building2 className="h-4 w-4" />
+              Transferencia bancaria
+            </p>
+            <p className="whitespace-pre-line rounded-lg bg-gray-50 p-3 text-sm">{bankTransferInstructions}</p>
+            <div className="space-y-2">
+              <Label htmlFor="reference">Número de operación</Label>
+              <Input
+                id="reference"
+                value={reference}
+                maxLength={100}
+                onChange={e => setReference(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" className="w-full" disabled={isProcessing} onClick={handleReportTransfer}>
+              Informar transferencia
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,476 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Ban, Copy, Pencil, Plus, RotateCcw, RotateCw, Trash2 } from 'lucide-react'
+import {
+  createApiKeyAction,
+  deleteApiKeyAction,
+  deleteRateLimitAction,
+  revokeApiKeyAction,
+  rotateApiKeyAction,
+  saveRateLimitAction,
+  updateApiKeyAction,
+} from '@/lib/actions/integration'
+import {
+  API_KEY_SCOPE_LABELS,
+  RATE_LIMIT_POLICY_LABELS,
+  type ApiKeyScope,
+  type TenantRateLimitPolicy,
+} from '@/lib/validations/integration'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface ApiKey {
+  id: string
+  name: string
+  description: string | null
+  scopes: string[]
+  allowedIps: string[]
+  expiresAt: string | Date | null
+  rateLimitPerMinute: number | null
+  revokedAt: string | Date | null
+}
+
+interface ApiKeyRevealDialogProps {
+  apiKey: string | null
+  onClose: () => void
+}
+
+/**
+ * Shows a newly issued key; it is only stored hashed, so this is the only chance to copy it
+ */
+function ApiKeyRevealDialog({ apiKey, onClose }: ApiKeyRevealDialogProps) {
+  const handleCopy = async () => {
+    if (!apiKey) return
+
+    try {
+      await navigator.clipboard.writeText(apiKey)
+      toast.success('API key copiada')
+    } catch {
+      // Clipboard access can be blocked by the browser, show the key instead
+      window.prompt('API key', apiKey)
+    }
+  }
+
+  return (
+    <Dialog open={!!apiKey} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Copia tu API key</DialogTitle>
+          <DialogDescription>
+            Guárdala en un lugar seguro: no volveremos a mostrarla. Envíala en la cabecera Authorization: Bearer de cada solicitud a /api/v1.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <code className="flex-1 min-w-0 break-all rounded bg-muted px-3 py-2 text-sm">{apiKey}</code>
+          <Button variant="outline" size="sm" onClick={handleCopy} title="Copiar">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose}>Listo</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ApiKeyDialogProps {
+  apiKey?: ApiKey // Edit this key, create a new one otherwise
+}
+
+export function ApiKeyDialog({ apiKey }: ApiKeyDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [issuedKey, setIssuedKey] = useState<string | null>(null)
+  const [formData, setFormData] = useState({
+    name: apiKey?.name ?? '',
+    description: apiKey?.description ?? '',
+    scopes: (apiKey?.scopes ?? []) as ApiKeyScope[],
+    allowedIps: apiKey?.allowedIps.join('\n') ?? '',
+    expiresAt: apiKey?.expiresAt ? new Date(apiKey.expiresAt).toISOString().slice(0, 10) : '',
+    rateLimitPerMinute: apiKey?.rateLimitPerMinute ? String(apiKey.rateLimitPerMinute) : '',
+  })
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(current => current !== scope),
+    }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const data = {
+        name: formData.name,
+        description: formData.description || undefined,
+        scopes: formData.scopes,
+        allowedIps: formData.allowedIps.split(/[\s,]+/).filter(Boolean),
+        // The key stops working at the end of the chosen day
+        expiresAt: formData.expiresAt ? new Date(`${formData.expiresAt}T23:59:59`) : null,
+        rateLimitPerMinute: formData.rateLimitPerMinute ? Number(formData.rateLimitPerMinute) : null,
+      }
+      const result = apiKey
+        ? await updateApiKeyAction({ id: apiKey.id, ...data })
+        : await createApiKeyAction(data)
+
+      if (result.success) {
+        toast.success(apiKey ? 'API key actualizada' : 'API key creada')
+        setIsOpen(false)
+        if (!apiKey) setIssuedKey(result.data.key)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar la API key')
+      }
+    } catch (error) {
+      console.error('Error saving API key:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          {apiKey ? (
+            <Button variant="outline" size="sm" title="Editar">
+              <Pencil className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Nueva API Key
+            </Button>
+          )}
+        </DialogTrigger>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{apiKey ? `Editar ${apiKey.name}` : 'Nueva API Key'}</DialogTitle>
+            <DialogDescription>
+              Las solicitudes hechas con la key actúan en tu nombre, limitadas a los permisos que elijas.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Nombre</Label>
+                <Input
+                  value={formData.name}
+                  onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Kiosco de recepción, app móvil..."
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Vence el</Label>
+                <Input
+                  type="date"
+                  value={formData.expiresAt}
+                  onChange={e => setFormData(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Descripción</Label>
+              <Textarea
+                rows={2}
+                value={formData.description}
+                onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Permisos</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {(Object.entries(API_KEY_SCOPE_LABELS) as [ApiKeyScope, string][]).map(([scope, label]) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.scopes.includes(scope)}
+                      onCheckedChange={checked => toggleScope(scope, checked === true)}
+                    />
+                    {label}
+                    <span className="text-muted-foreground font-mono text-xs">{scope}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Gestionar incluye ver</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Solicitudes por minuto</Label>
+              <Input
+                type="number"
+                min={1}
+                value={formData.rateLimitPerMinute}
+                onChange={e => setFormData(prev => ({ ...prev, rateLimitPerMinute: e.target.value }))}
+                placeholder="Límite de la API del espacio"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>IPs permitidas</Label>
+              <Textarea
+                rows={3}
+                value={formData.allowedIps}
+                onChange={e => setFormData(prev => ({ ...prev, allowedIps: e.target.value }))}
+                placeholder={'203.0.113.7\n198.51.100.0/24'}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">Una dirección o rango CIDR por línea. Vacío permite cualquier IP.</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={isSaving || !formData.name || formData.scopes.length === 0}
+              onClick={handleSave}
+            >
+              {isSaving ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ApiKeyRevealDialog apiKey={issuedKey} onClose={() => setIssuedKey(null)} />
+    </>
+  )
+}
+
+interface ApiKeyActionsProps {
+  apiKey: ApiKey
+}
+
+export function ApiKeyActions({ apiKey }: ApiKeyActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [issuedKey, setIssuedKey] = useState<string | null>(null)
+
+  const handleRotate = async () => {
+    if (!window.confirm(`Se generará una nueva key para ${apiKey.name}. La actual seguirá funcionando 24 horas para que puedas reemplazarla. ¿Continuar?`)) return
+    setIsProcessing(true)
+
+    try {
+      const result = await rotateApiKeyAction({ id: apiKey.id })
+
+      if (result.success) {
+        setIssuedKey(result.data.key)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al rotar la API key')
+      }
+    } catch (error) {
+      console.error('Error rotating API key:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!window.confirm(`Las integraciones que usan ${apiKey.name} dejarán de funcionar de inmediato. ¿Revocar la API key?`)) return
+    setIsProcessing(true)
+
+    try {
+      const result = await revokeApiKeyAction({ id: apiKey.id })
+
+      if (result.success) {
+        toast.success('API key revocada')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al revocar la API key')
+      }
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm(`¿Eliminar la API key ${apiKey.name} y su historial de uso?`)) return
+    setIsProcessing(true)
+
+    try {
+      const result = await deleteApiKeyAction({ id: apiKey.id })
+
+      if (result.success) {
+        toast.success('API key eliminada')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al eliminar la API key')
+      }
+    } catch (error) {
+      console.error('Error deleting API key:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {!apiKey.revokedAt && (
+        <>
+          <ApiKeyDialog apiKey={apiKey} />
+          <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleRotate} title="Rotar">
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleRevoke} title="Revocar">
+            <Ban className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleDelete} title="Eliminar">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+
+      <ApiKeyRevealDialog apiKey={issuedKey} onClose={() => setIssuedKey(null)} />
+    </div>
+  )
+}
+
+interface RateLimitDialogProps {
+  policy: TenantRateLimitPolicy
+  limit: number
+  windowSeconds: number
+  isDefault: boolean
+}
+
+export function RateLimitDialog({ policy, limit, windowSeconds, isDefault }: RateLimitDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    limit: String(limit),
+    windowSeconds: String(windowSeconds),
+  })
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await saveRateLimitAction({
+        policy,
+        limit: Number(formData.limit),
+        windowSeconds: Number(formData.windowSeconds),
+      })
+
+      if (result.success) {
+        toast.success('Límite actualizado')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar el límite')
+      }
+    } catch (error) {
+      console.error('Error saving rate limit:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm(`¿Volver al límite predeterminado de ${RATE_LIMIT_POLICY_LABELS[policy]}?`)) return
+    setIsSaving(true)
+
+    try {
+      const result = await deleteRateLimitAction({ policy })
+
+      if (result.success) {
+        toast.success('Límite restablecido')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al restablecer el límite')
+      }
+    } catch (error) {
+      console.error('Error resetting rate limit:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" title="Editar">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Límite de {RATE_LIMIT_POLICY_LABELS[policy]}</DialogTitle>
+            <DialogDescription>
+              Se cuenta por API key o por usuario. Las solicitudes por encima del límite reciben un error 429 y quedan registradas como evento de seguridad.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Solicitudes</Label>
+              <Input
+                type="number"
+                min={1}
+                value={formData.limit}
+                onChange={e => setFormData(prev => ({ ...prev, limit: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Cada (segundos)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={formData.windowSeconds}
+                onChange={e => setFormData(prev => ({ ...prev, windowSeconds: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancelar
+            </Button>
+            <Button disabled={isSaving || !formData.limit || !formData.windowSeconds} onClick={handleSave}>
+              {isSaving ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {!isDefault && (
+        <Button variant="outline" size="sm" disabled={isSaving} onClick={handleReset} title="Restablecer">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Receipt } from 'lucide-react'
+import { runSubscriptionBillingAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+export function BillingRunButton() {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleRun = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await runSubscriptionBillingAction()
+
+      if (result.success) {
+        const invoiced = result.data?.invoiced?.length || 0
+        const errors = result.data?.errors?.length || 0
+        toast.success(invoiced > 0
+          ? `${invoiced} suscripciones facturadas`
+          : 'No hay suscripciones pendientes de facturar')
+        if (errors > 0) {
+          toast.error(`${errors} suscripciones no pudieron facturarse`)
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al ejecutar la facturación')
+      }
+    } catch (error) {
+      console.error('Error running subscription billing:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <Button disabled={isProcessing} onClick={handleRun}>
+      <Receipt className="h-4 w-4 mr-2" />
+      {isProcessing ? 'Facturando...' : 'Ejecutar Facturación'}
+    </Button>
+  )
+}
@@ -0,0 +1,291 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Edit, Plus, Trash2 } from 'lucide-react'
+import { deleteCancellationPolicyAction, upsertCancellationPolicyAction } from '@/lib/actions/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface CancellationPolicyManagerProps {
+  policies: any[]
+  plans: Array<{ id: string; name: string }>
+}
+
+interface TierDraft {
+  minNoticeHours: string
+  refundPercent: string
+  feeAmount: string
+}
+
+const DEFAULT_PLAN = 'DEFAULT'
+
+const REFUND_METHOD_LABELS: Record<string, string> = {
+  REFUND: 'Reembolso',
+  CREDIT: 'Crédito en la cuenta',
+  CHOICE: 'A elección del miembro',
+}
+
+const EMPTY_TIERS: TierDraft[] = [
+  { minNoticeHours: '48', refundPercent: '100', feeAmount: '' },
+  { minNoticeHours: '0', refundPercent: '0', feeAmount: '' },
+]
+
+export function CancellationPolicyManager({ policies, plans }: CancellationPolicyManagerProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [editingId, setEditingId] = useState<string | undefined>()
+  const [name, setName] = useState('')
+  const [planId, setPlanId] = useState(DEFAULT_PLAN)
+  const [refundMethod, setRefundMethod] = useState('REFUND')
+  const [isActive, setIsActive] = useState(true)
+  const [tiers, setTiers] = useState<TierDraft[]>(EMPTY_TIERS)
+
+  const openEditor = (policy?: any) => {
+    setEditingId(policy?.id)
+    setName(policy?.name || '')
+    setPlanId(policy?.planId || DEFAULT_PLAN)
+    setRefundMethod(policy?.refundMethod || 'REFUND')
+    setIsActive(policy?.isActive ?? true)
+    setTiers(policy
+      ? policy.tiers.map((tier: any) => ({
+        minNoticeHours: String(tier.minNoticeHours),
+        refundPercent: String(tier.refundPercent),
+        feeAmount: tier.feeAmount !== undefined ? String(tier.feeAmount) : '',
+      }))
+      : EMPTY_TIERS)
+    setOpen(true)
+  }
+
+  const updateTier = (index: number, field: keyof TierDraft, value: string) => {
+    setTiers(tiers.map((tier, i) => i === index ? { ...tier, [field]: value } : tier))
+  }
+
+  const handleSave = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await upsertCancellationPolicyAction({
+        id: editingId,
+        planId: planId === DEFAULT_PLAN ? null : planId,
+        name,
+        refundMethod: refundMethod as 'REFUND' | 'CREDIT' | 'CHOICE',
+        isActive,
+        tiers: tiers.map(tier => ({
+          minNoticeHours: Number(tier.minNoticeHours),
+          refundPercent: Number(tier.refundPercent),
+          feeAmount: tier.feeAmount ? Number(tier.feeAmount) : undefined,
+        })),
+      })
+
+      if (result.success) {
+        toast.success('Política de cancelación guardada')
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al guardar la política')
+      }
+    } catch (error) {
+      console.error('Error saving cancellation policy:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setIsProcessing(true)
+
+    try {
+      const result = await deleteCancellationPolicyAction({ id })
+
+      if (result.success) {
+        toast.success('Política de cancelación eliminada')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al eliminar la política')
+      }
+    } catch (error) {
+      console.error('Error deleting cancellation policy:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {policies.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Sin políticas configuradas. Las cancelaciones solo respetan el aviso mínimo de cada espacio.
+          </p>
+        )}
+
+        {policies.map(policy => (
+          <div key={policy.id} className="flex items-start justify-between p-3 border rounded-lg">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                {policy.name}
+                <Badge variant="outline">{policy.plan?.name || 'Predeterminada'}</Badge>
+                {!policy.isActive && <Badge variant="secondary">Inactiva</Badge>}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {REFUND_METHOD_LABELS[policy.refundMethod]} •{' '}
+                {policy.tiers.map((tier: any) =>
+                  `${tier.minNoticeHours}h+: ${tier.refundPercent}%${tier.feeAmount ? ` (cargo $${tier.feeAmount})` : ''}`
+                ).join(' • ')}
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" disabled={isProcessing} onClick={() => openEditor(policy)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" disabled={isProcessing} onClick={() => handleDelete(policy.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={() => openEditor()}>
+          <Plus className="h-4 w-4 mr-1" />Nueva Política
+        </Button>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar Política de Cancelación' : 'Nueva Política de Cancelación'}</DialogTitle>
+            <DialogDescription>
+              Cada tramo aplica cuando se cancela con al menos esa cantidad de horas de aviso
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Nombre</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Plan</label>
+                <Select value={planId} onValueChange={setPlanId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PLAN}>Todos los miembros</SelectItem>
+                    {plans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {plan.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Devolución</label>
+                <Select value={refundMethod} onValueChange={setRefundMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REFUND_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                <span>Horas de aviso</span>
+                <span>% reembolso</span>
+                <span>Cargo</span>
+                <span />
+              </div>
+              {tiers.map((tier, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={tier.minNoticeHours}
+                    onChange={(e) => updateTier(index, 'minNoticeHours', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={tier.refundPercent}
+                    onChange={(e) => updateTier(index, 'refundPercent', e.target.value)}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="0"
+                    value={tier.feeAmount}
+                    onChange={(e) => updateTier(index, 'feeAmount', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={tiers.length <= 1}
+                    onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={tiers.length >= 10}
+                onClick={() => setTiers([...tiers, { minNoticeHours: '', refundPercent: '', feeAmount: '' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />Agregar Tramo
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch checked={isActive} onCheckedChange={setIsActive} />
+              <span className="text-sm">Política activa</span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isProcessing}>
+              Volver
+            </Button>
+            <Button disabled={isProcessing || !name} onClick={handleSave}>
+              {isProcessing ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Ban, Download, Wallet } from 'lucide-react'
+import { applyCreditBalanceAction, voidCreditNoteAction } from '@/lib/actions/billing'
+import { generateCreditNotePDFAction } from '@/lib/actions/pdf'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface CreditNoteActionsProps {
+  creditNote: {
+    id: string
+    number: string
+    status: string
+    appliedAmount: number
+  }
+}
+
+export function CreditNoteActions({ creditNote }: CreditNoteActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleDownload = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await generateCreditNotePDFAction({ creditNoteId: creditNote.id })
+
+      if (result.success) {
+        const bytes = Uint8Array.from(atob(result.data.pdfBuffer), char => char.charCodeAt(0))
+        const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = result.data.fileName
+        link.click()
+        URL.revokeObjectURL(url)
+      } else {
+        toast.error(result.error || 'Error al generar PDF')
+      }
+    } catch (error) {
+      console.error('Error downloading credit note PDF:', error)
+      toast.error('Error al descargar PDF')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleVoid = async () => {
+    if (!window.confirm(`¿Anular la nota de crédito ${creditNote.number}?`)) return
+    setIsProcessing(true)
+
+    try {
+      const result = await voidCreditNoteAction({ creditNoteId: creditNote.id })
+
+      if (result.success) {
+        toast.success('Nota de crédito anulada')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al anular la nota de crédito')
+      }
+    } catch (error) {
+      console.error('Error voiding credit note:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleDownload}>
+        <Download className="h-4 w-4 mr-1" />
+        PDF
+      </Button>
+      {creditNote.status === 'ISSUED' && creditNote.appliedAmount === 0 && (
+        <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleVoid}>
+          <Ban className="h-4 w-4 mr-1" />
+          Anular
+        </Button>
+      )}
+    </div>
+  )
+}
+
+interface ApplyCreditBalanceButtonProps {
+  invoiceId: string
+}
+
+export function ApplyCreditBalanceButton({ invoiceId }: ApplyCreditBalanceButtonProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleApply = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await applyCreditBalanceAction({ invoiceId })
+
+      if (result.success) {
+        toast.success(result.data.appliedAmount > 0
+          ? `Saldo a favor aplicado: ${result.data.appliedAmount}`
+          : 'El cliente no tiene saldo a favor disponible')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al aplicar el saldo a favor')
+      }
+    } catch (error) {
+      console.error('Error applying credit balance:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleApply}>
+      <Wallet className="h-4 w-4 mr-1" />
+      {isProcessing ? 'Aplicando...' : 'Aplicar Saldo'}
+    </Button>
+  )
+}
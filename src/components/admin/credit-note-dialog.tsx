@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { FileMinus } from 'lucide-react'
+import { createCreditNoteAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface CreditNoteDialogProps {
+  invoice: {
+    id: string
+    number: string
+    currency: string
+    items: Array<{ id: string; description: string; quantity: number; unitPrice: number; total: number }>
+  }
+}
+
+export function CreditNoteDialog({ invoice }: CreditNoteDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [reason, setReason] = useState('')
+  const [amount, setAmount] = useState('')
+  // Amount to credit per selected invoice line, the whole line by default
+  const [selectedLines, setSelectedLines] = useState<Record<string, string>>({})
+
+  const toggleLine = (item: CreditNoteDialogProps['invoice']['items'][number], checked: boolean) => {
+    setSelectedLines(prev => {
+      const next = { ...prev }
+      if (checked) {
+        next[item.id] = String(item.total)
+      } else {
+        delete next[item.id]
+      }
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const lines = Object.entries(selectedLines).map(([invoiceItemId, lineAmount]) => {
+        const item = invoice.items.find(candidate => candidate.id === invoiceItemId)
+        return Number(lineAmount) === item?.total
+          ? { invoiceItemId }
+          : { invoiceItemId, amount: Number(lineAmount) }
+      })
+
+      const result = await createCreditNoteAction({
+        invoiceId: invoice.id,
+        reason,
+        lines: lines.length > 0 ? lines : undefined,
+        amount: lines.length === 0 && amount ? Number(amount) : undefined,
+      })
+
+      if (result.success) {
+        toast.success(`Nota de crédito ${result.data.number} emitida`)
+        setIsOpen(false)
+        setReason('')
+        setAmount('')
+        setSelectedLines({})
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al emitir la nota de crédito')
+      }
+    } catch (error) {
+      console.error('Error creating credit note:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileMinus className="h-4 w-4 mr-1" />
+          Nota de Crédito
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nota de Crédito para {invoice.number}</DialogTitle>
+          <DialogDescription>
+            Acredita líneas completas o parte de ellas. El crédito salda primero lo pendiente de la factura y el resto queda como saldo a favor del cliente para sus próximas facturas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Líneas de la factura</Label>
+            {invoice.items.map(item => (
+              <div key={item.id} className="flex items-center gap-3 border rounded-lg p-2">
+                <Checkbox
+                  checked={item.id in selectedLines}
+                  onCheckedChange={checked => toggleLine(item, checked === true)}
+                />
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">{item.description}</p>
+                  <p className="text-muted-foreground">
+                    {item.quantity} x {item.unitPrice} {invoice.currency} = {item.total} {invoice.currency}
+                  </p>
+                </div>
+                {item.id in selectedLines && (
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="w-32"
+                    value={selectedLines[item.id]}
+                    onChange={e => setSelectedLines(prev => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          {Object.keys(selectedLines).length === 0 && (
+            <div className="space-y-2">
+              <Label>O un monto con impuestos incluidos</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <Textarea
+              rows={3}
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Ej: Descuento por sala fuera de servicio"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving || !reason} onClick={handleSave}>
+            {isSaving ? 'Emitiendo...' : 'Emitir'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Download, FileCode, RefreshCw, Send, Stamp, Upload } from 'lucide-react'
+import {
+  getDteXmlAction,
+  issueCreditNoteDteAction,
+  issueInvoiceDteAction,
+  refreshDteStatusAction,
+  submitDteAction,
+  uploadCafAction,
+} from '@/lib/actions/dte'
+import { generateCreditNotePDFAction, generateInvoicePDFAction } from '@/lib/actions/pdf'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function CafUploadButton() {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setIsUploading(true)
+
+    try {
+      // CAF files from the SII are ISO-8859-1 encoded
+      const cafXml = new TextDecoder('iso-8859-1').decode(await file.arrayBuffer())
+      const result = await uploadCafAction({ cafXml })
+
+      if (result.success) {
+        toast.success(`Folios ${result.data.rangeStart} a ${result.data.rangeEnd} cargados`)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al cargar el CAF')
+      }
+    } catch (error) {
+      console.error('Error uploading CAF:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".xml"
+        className="hidden"
+        onChange={e => handleFile(e.target.files?.[0])}
+      />
+      <Button variant="outline" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-2" />
+        {isUploading ? 'Cargando...' : 'Cargar CAF'}
+      </Button>
+    </>
+  )
+}
+
+interface IssueDteButtonProps {
+  invoiceId?: string
+  creditNoteId?: string
+}
+
+export function IssueDteButton({ invoiceId, creditNoteId }: IssueDteButtonProps) {
+  const router = useRouter()
+  const [isIssuing, setIsIssuing] = useState(false)
+
+  const handleIssue = async () => {
+    setIsIssuing(true)
+
+    try {
+      const result = creditNoteId
+        ? await issueCreditNoteDteAction({ creditNoteId })
+        : await issueInvoiceDteAction({ invoiceId: invoiceId ?? '' })
+
+      if (result.success) {
+        toast.success(`Documento emitido con folio ${result.data.folio}`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al emitir el documento')
+      }
+    } catch (error) {
+      console.error('Error issuing DTE:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsIssuing(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" disabled={isIssuing} onClick={handleIssue}>
+      <Stamp className="h-4 w-4 mr-1" />
+      {isIssuing ? 'Emitiendo...' : 'Emitir DTE'}
+    </Button>
+  )
+}
+
+interface DteDocumentActionsProps {
+  document: {
+    id: string
+    status: string
+    trackId: string | null
+    invoiceId: string | null
+    creditNoteId: string | null
+  }
+}
+
+export function DteDocumentActions({ document }: DteDocumentActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsProcessing(true)
+
+    try {
+      await action()
+    } catch (error) {
+      console.error(errorMessage, error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleSubmit = () => run(async () => {
+    const result = await submitDteAction({ documentId: document.id })
+
+    if (result.success) {
+      toast.success('Documento enviado al SII')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Error al enviar el documento')
+    }
+  }, 'Error submitting DTE:')
+
+  const handleRefresh = () => run(async () => {
+    const result = await refreshDteStatusAction({ documentId: document.id })
+
+    if (result.success) {
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Error al consultar el estado')
+    }
+  }, 'Error refreshing DTE status:')
+
+  const handleXml = () => run(async () => {
+    const result = await getDteXmlAction({ documentId: document.id })
+
+    if (result.success && result.data) {
+      // The SII expects documents encoded as ISO-8859-1
+      const bytes = Uint8Array.from(result.data.xml, char => Math.min(char.charCodeAt(0), 0xff))
+      downloadFile(bytes, 'application/xml', result.data.fileName)
+    } else {
+      toast.error(result.error || 'Error al descargar el XML')
+    }
+  }, 'Error downloading DTE XML:')
+
+  const handlePdf = () => run(async () => {
+    const result = document.creditNoteId
+      ? await generateCreditNotePDFAction({ creditNoteId: document.creditNoteId })
+      : await generateInvoicePDFAction({ invoiceId: document.invoiceId ?? '' })
+
+    if (result.success) {
+      const bytes = Uint8Array.from(atob(result.data.pdfBuffer), char => char.charCodeAt(0))
+      downloadFile(bytes, 'application/pdf', result.data.fileName)
+    } else {
+      toast.error(result.error || 'Error al generar PDF')
+    }
+  }, 'Error downloading DTE PDF:')
+
+  return (
+    <div className="flex items-center gap-2">
+      {document.status === 'SIGNED' && (
+        <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleSubmit}>
+          <Send className="h-4 w-4 mr-1" />
+          Enviar
+        </Button>
+      )}
+      {document.status === 'SUBMITTED' && document.trackId && (
+        <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleRefresh}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Estado
+        </Button>
+      )}
+      <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleXml}>
+        <FileCode className="h-4 w-4 mr-1" />
+        XML
+      </Button>
+      {(document.invoiceId || document.creditNoteId) && (
+        <Button variant="outline" size="sm" disabled={isProcessing} onClick={handlePdf}>
+          <Download className="h-4 w-4 mr-1" />
+          PDF
+        </Button>
+      )}
+    </div>
+  )
+}
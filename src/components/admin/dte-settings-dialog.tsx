@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Settings } from 'lucide-react'
+import { updateDteSettingsAction } from '@/lib/actions/dte'
+import { DTE_ENVIRONMENT_LABELS } from '@/lib/validations/dte'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface DteSettings {
+  rut: string
+  businessName: string
+  businessActivity: string
+  activityCode: number
+  address: string
+  commune: string
+  city: string
+  resolutionNumber: number
+  resolutionDate: string | Date
+  environment: 'CERTIFICATION' | 'PRODUCTION'
+  submissionAdapter: string
+  hasCertificate: boolean
+}
+
+interface DteSettingsDialogProps {
+  settings: DteSettings | null // Not configured yet
+  adapters: string[]
+}
+
+const toDateInput = (date: string | Date) => new Date(date).toISOString().slice(0, 10)
+
+export function DteSettingsDialog({ settings, adapters }: DteSettingsDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    rut: settings?.rut ?? '',
+    businessName: settings?.businessName ?? '',
+    businessActivity: settings?.businessActivity ?? '',
+    activityCode: settings ? String(settings.activityCode) : '',
+    address: settings?.address ?? '',
+    commune: settings?.commune ?? '',
+    city: settings?.city ?? 'Santiago',
+    resolutionNumber: String(settings?.resolutionNumber ?? 0),
+    resolutionDate: toDateInput(settings?.resolutionDate ?? new Date()),
+    environment: settings?.environment ?? 'CERTIFICATION',
+    submissionAdapter: settings?.submissionAdapter ?? 'stub',
+    certificatePem: '',
+    privateKeyPem: '',
+  })
+
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }))
+  }
+
+  const readFile = async (field: 'certificatePem' | 'privateKeyPem', file?: File) => {
+    if (!file) return
+    updateField(field, await file.text())
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await updateDteSettingsAction({
+        ...formData,
+        activityCode: Number(formData.activityCode),
+        resolutionNumber: Number(formData.resolutionNumber),
+        resolutionDate: new Date(`${formData.resolutionDate}T00:00:00`),
+        certificatePem: formData.certificatePem || undefined,
+        privateKeyPem: formData.privateKeyPem || undefined,
+      })
+
+      if (result.success) {
+        toast.success('Configuración de facturación electrónica actualizada')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar la configuración')
+      }
+    } catch (error) {
+      console.error('Error updating DTE settings:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Settings className="h-4 w-4 mr-2" />
+          {settings ? 'Configurar' : 'Activar'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Facturación Electrónica SII</DialogTitle>
+          <DialogDescription>
+            Datos del emisor tal como están registrados en el SII y el certificado digital con que se firman los documentos
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>RUT del emisor</Label>
+              <Input value={formData.rut} onChange={e => updateField('rut', e.target.value)} placeholder="76.123.456-7" />
+            </div>
+            <div className="space-y-2">
+              <Label>Razón social</Label>
+              <Input value={formData.businessName} onChange={e => updateField('businessName', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Giro</Label>
+              <Input
+                value={formData.businessActivity}
+                onChange={e => updateField('businessActivity', e.target.value)}
+                placeholder="Arriendo de oficinas"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Código de actividad económica</Label>
+              <Input
+                type="number"
+                min={1}
+                value={formData.activityCode}
+                onChange={e => updateField('activityCode', e.target.value)}
+                placeholder="681011"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Dirección</Label>
+              <Input value={formData.address} onChange={e => updateField('address', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Comuna</Label>
+              <Input value={formData.commune} onChange={e => updateField('commune', e.target.value)} placeholder="Providencia" />
+            </div>
+            <div className="space-y-2">
+              <Label>Ciudad</Label>
+              <Input value={formData.city} onChange={e => updateField('city', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Ambiente</Label>
+              <Select value={formData.environment} onValueChange={value => updateField('environment', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DTE_ENVIRONMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>N° de resolución</Label>
+              <Input
+                type="number"
+                min={0}
+                value={formData.resolutionNumber}
+                onChange={e => updateField('resolutionNumber', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fecha de resolución</Label>
+              <Input
+                type="date"
+                value={formData.resolutionDate}
+                onChange={e => updateField('resolutionDate', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Envío al SII</Label>
+              <Select value={formData.submissionAdapter} onValueChange={value => updateField('submissionAdapter', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {adapters.map(adapter => (
+                    <SelectItem key={adapter} value={adapter}>
+                      {adapter === 'stub' ? 'Simulado (pruebas)' : adapter}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Certificado digital (PEM)</Label>
+              <Input type="file" accept=".pem,.crt,.cer" onChange={e => readFile('certificatePem', e.target.files?.[0])} />
+            </div>
+            <div className="space-y-2">
+              <Label>Llave privada (PEM)</Label>
+              <Input type="file" accept=".pem,.key" onChange={e => readFile('privateKeyPem', e.target.files?.[0])} />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {settings?.hasCertificate
+              ? 'Ya hay un certificado cargado, sube ambos archivos solo para reemplazarlo'
+              : 'Sin certificado no se pueden emitir documentos'}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving || !formData.rut || !formData.businessName} onClick={handleSave}>
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
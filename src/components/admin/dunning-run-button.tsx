@@ -0,0 +1,47 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { BellRing } from 'lucide-react'
+import { runDunningAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+export function DunningRunButton() {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleRun = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await runDunningAction()
+
+      if (result.success) {
+        const steps = result.data?.steps?.length || 0
+        const errors = result.data?.errors?.length || 0
+        toast.success(steps > 0
+          ? `${steps} acciones de cobranza ejecutadas`
+          : 'No hay acciones de cobranza pendientes')
+        if (errors > 0) {
+          toast.error(`${errors} facturas no pudieron procesarse`)
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al ejecutar la cobranza')
+      }
+    } catch (error) {
+      console.error('Error running dunning:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" disabled={isProcessing} onClick={handleRun}>
+      <BellRing className="h-4 w-4 mr-2" />
+      {isProcessing ? 'Procesando...' : 'Ejecutar Cobranza'}
+    </Button>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Settings } from 'lucide-react'
+import { updateDunningSettingsAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface DunningSettings {
+  dunningEnabled: boolean
+  dunningReminderDays: number[]
+  gracePeriodDays: number
+  latePaymentFee: number
+  latePaymentFeeType: 'FIXED' | 'PERCENTAGE'
+  retryFailedPayments: boolean
+  maxRetryAttempts: number
+  retryIntervalDays: number
+  reminderSubject: string
+  reminderBody: string
+}
+
+interface DunningSettingsDialogProps {
+  settings: DunningSettings
+}
+
+export function DunningSettingsDialog({ settings }: DunningSettingsDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    ...settings,
+    dunningReminderDays: settings.dunningReminderDays.join(', '),
+  })
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await updateDunningSettingsAction({
+        ...formData,
+        dunningReminderDays: formData.dunningReminderDays
+          .split(',')
+          .map(day => day.trim())
+          .filter(Boolean)
+          .map(Number),
+      })
+
+      if (result.success) {
+        toast.success('Configuración de cobranza actualizada')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar la configuración')
+      }
+    } catch (error) {
+      console.error('Error updating dunning settings:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Settings className="h-4 w-4 mr-2" />
+          Configurar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Configuración de Cobranza</DialogTitle>
+          <DialogDescription>
+            Define los recordatorios, recargos, reintentos de cobro y el período de gracia antes de suspender el acceso
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="dunning-enabled">Cobranza automática</Label>
+            <Switch
+              id="dunning-enabled"
+              checked={formData.dunningEnabled}
+              onCheckedChange={checked => setFormData(prev => ({ ...prev, dunningEnabled: checked }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Recordatorios (días después del vencimiento)</Label>
+              <Input
+                value={formData.dunningReminderDays}
+                onChange={e => setFormData(prev => ({ ...prev, dunningReminderDays: e.target.value }))}
+                placeholder="1, 7, 14"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Período de gracia (días)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={formData.gracePeriodDays}
+                onChange={e => setFormData(prev => ({ ...prev, gracePeriodDays: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Recargo por atraso</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.latePaymentFee}
+                onChange={e => setFormData(prev => ({ ...prev, latePaymentFee: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo de recargo</Label>
+              <Select
+                value={formData.latePaymentFeeType}
+                onValueChange={value => setFormData(prev => ({ ...prev, latePaymentFeeType: value as 'FIXED' | 'PERCENTAGE' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FIXED">Monto fijo</SelectItem>
+                  <SelectItem value="PERCENTAGE">Porcentaje del total</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="retry-payments">Reintentar cobro con el medio de pago guardado</Label>
+            <Switch
+              id="retry-payments"
+              checked={formData.retryFailedPayments}
+              onCheckedChange={checked => setFormData(prev => ({ ...prev, retryFailedPayments: checked }))}
+            />
+          </div>
+
+          {formData.retryFailedPayments && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Máximo de reintentos</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.maxRetryAttempts}
+                  onChange={e => setFormData(prev => ({ ...prev, maxRetryAttempts: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Días entre reintentos</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={formData.retryIntervalDays}
+                  onChange={e => setFormData(prev => ({ ...prev, retryIntervalDays: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Asunto del recordatorio</Label>
+            <Input
+              value={formData.reminderSubject}
+              onChange={e => setFormData(prev => ({ ...prev, reminderSubject: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Mensaje del recordatorio</Label>
+            <Textarea
+              rows={8}
+              value={formData.reminderBody}
+              onChange={e => setFormData(prev => ({ ...prev, reminderBody: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Variables disponibles: {'{{client}}'}, {'{{number}}'}, {'{{total}}'}, {'{{dueDate}}'}, {'{{days}}'}, {'{{tenant}}'}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving} onClick={handleSave}>
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
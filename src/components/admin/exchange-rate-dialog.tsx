@@ -0,0 +1,275 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Plus, Trash2, Upload } from 'lucide-react'
+import {
+  deleteExchangeRateAction,
+  importExchangeRatesAction,
+  saveExchangeRateAction,
+  updateBaseCurrencyAction,
+} from '@/lib/actions/exchange-rate'
+import { COMMON_CURRENCIES, CURRENCY_LABELS } from '@/lib/validations/exchange-rate'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface BaseCurrencySelectProps {
+  baseCurrency: string
+}
+
+export function BaseCurrencySelect({ baseCurrency }: BaseCurrencySelectProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+  const currencies = Array.from(new Set([...COMMON_CURRENCIES, baseCurrency]))
+
+  const handleChange = async (value: string) => {
+    if (value === baseCurrency) return
+    if (!window.confirm(`Los reportes y estadísticas se mostrarán en ${CURRENCY_LABELS[value] || value}. ¿Continuar?`)) return
+    setIsSaving(true)
+
+    try {
+      const result = await updateBaseCurrencyAction({ baseCurrency: value })
+
+      if (result.success) {
+        toast.success('Moneda base actualizada')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al actualizar la moneda base')
+      }
+    } catch (error) {
+      console.error('Error updating base currency:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Select value={baseCurrency} onValueChange={handleChange} disabled={isSaving}>
+      <SelectTrigger className="w-60">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map(currency => (
+          <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency] || currency}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface ExchangeRateDialogProps {
+  baseCurrency: string
+}
+
+export function ExchangeRateDialog({ baseCurrency }: ExchangeRateDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    fromCurrency: baseCurrency === 'CLP' ? 'CLF' : 'USD',
+    toCurrency: baseCurrency,
+    rate: '',
+    effectiveDate: new Date().toISOString().slice(0, 10),
+  })
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await saveExchangeRateAction({ ...formData, rate: Number(formData.rate) })
+
+      if (result.success) {
+        toast.success('Tipo de cambio guardado')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar el tipo de cambio')
+      }
+    } catch (error) {
+      console.error('Error saving exchange rate:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Plus className="h-4 w-4 mr-2" />
+          Nuevo Tipo de Cambio
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Nuevo Tipo de Cambio</DialogTitle>
+          <DialogDescription>
+            Cada documento se convierte con el último tipo de cambio vigente en su fecha. Si ya hay uno para ese día, se reemplaza.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Desde</Label>
+            <Select
+              value={formData.fromCurrency}
+              onValueChange={value => setFormData(prev => ({ ...prev, fromCurrency: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMMON_CURRENCIES.map(currency => (
+                  <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Hacia</Label>
+            <Select
+              value={formData.toCurrency}
+              onValueChange={value => setFormData(prev => ({ ...prev, toCurrency: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES])).map(currency => (
+                  <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency] || currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Valor de 1 {formData.fromCurrency === 'CLF' ? 'UF' : formData.fromCurrency}</Label>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={formData.rate}
+              onChange={e => setFormData(prev => ({ ...prev, rate: e.target.value }))}
+              placeholder="39000.00"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Vigente desde</Label>
+            <Input
+              type="date"
+              value={formData.effectiveDate}
+              onChange={e => setFormData(prev => ({ ...prev, effectiveDate: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button
+            disabled={isSaving || !formData.rate || !formData.effectiveDate || formData.fromCurrency === formData.toCurrency}
+            onClick={handleSave}
+          >
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ExchangeRateImportButton() {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setIsUploading(true)
+
+    try {
+      const result = await importExchangeRatesAction({ fileName: file.name, content: await file.text() })
+
+      if (result.success) {
+        toast.success(`${result.data.imported} tipos de cambio importados`)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al importar los tipos de cambio')
+      }
+    } catch (error) {
+      console.error('Error importing exchange rates:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.txt"
+        className="hidden"
+        onChange={e => handleFile(e.target.files?.[0])}
+      />
+      <Button variant="outline" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-2" />
+        {isUploading ? 'Importando...' : 'Importar CSV'}
+      </Button>
+    </>
+  )
+}
+
+interface DeleteExchangeRateButtonProps {
+  rateId: string
+}
+
+export function DeleteExchangeRateButton({ rateId }: DeleteExchangeRateButtonProps) {
+  const router = useRouter()
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleDelete = async () => {
+    if (!window.confirm('¿Eliminar este tipo de cambio? Los reportes usarán el anterior vigente.')) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteExchangeRateAction({ rateId })
+
+      if (result.success) {
+        toast.success('Tipo de cambio eliminado')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al eliminar el tipo de cambio')
+      }
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" disabled={isDeleting} onClick={handleDelete}>
+      <Trash2 className="h-4 w-4" />
+    </Button>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { UserX } from 'lucide-react'
+import { processNoShowsAction } from '@/lib/actions/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+export function NoShowProcessButton() {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleProcess = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await processNoShowsAction()
+
+      if (result.success) {
+        const noShows = result.data?.noShows || 0
+        toast.success(noShows > 0
+          ? `${noShows} reservas marcadas como inasistencia`
+          : 'No hay reservas sin check-in fuera del período de tolerancia')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al detectar inasistencias')
+      }
+    } catch (error) {
+      console.error('Error processing no-shows:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" disabled={isProcessing} onClick={handleProcess}>
+      <UserX className="h-4 w-4 mr-2" />
+      {isProcessing ? 'Procesando...' : 'Detectar Inasistencias'}
+    </Button>
+  )
+}
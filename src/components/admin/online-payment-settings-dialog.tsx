@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { CreditCard } from 'lucide-react'
+import { updateOnlinePaymentSettingsAction } from '@/lib/actions/billing'
+import { GATEWAY_PROVIDER_LABELS } from '@/lib/validations/payment'
+import type { UpdateOnlinePaymentSettingsRequest } from '@/lib/validations/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface OnlinePaymentSettingsDialogProps {
+  settings: UpdateOnlinePaymentSettingsRequest
+}
+
+export function OnlinePaymentSettingsDialog({ settings }: OnlinePaymentSettingsDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState(settings)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await updateOnlinePaymentSettingsAction({
+        ...formData,
+        bankTransferInstructions: formData.bankTransferInstructions?.trim() || null,
+      })
+
+      if (result.success) {
+        toast.success('Configuración de pagos en línea actualizada')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar la configuración')
+      }
+    } catch (error) {
+      console.error('Error updating online payment settings:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CreditCard className="h-4 w-4 mr-2" />
+          Pagos en línea
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pagos en Línea</DialogTitle>
+          <DialogDescription>
+            Define cómo pueden pagar los clientes desde el enlace de pago que reciben con cada factura
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Pasarela para pagos con tarjeta</Label>
+            <Select
+              value={formData.onlinePaymentProvider || 'NONE'}
+              onValueChange={value => setFormData(prev => ({
+                ...prev,
+                onlinePaymentProvider: value === 'NONE' ? null : value as UpdateOnlinePaymentSettingsRequest['onlinePaymentProvider'],
+              }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NONE">Sin pagos con tarjeta</SelectItem>
+                {Object.entries(GATEWAY_PROVIDER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank-transfer-instructions">Datos para transferencia bancaria</Label>
+            <Textarea
+              id="bank-transfer-instructions"
+              rows={4}
+              placeholder="Banco, tipo y número de cuenta, RUT y correo de confirmación"
+              value={formData.bankTransferInstructions || ''}
+              onChange={e => setFormData(prev => ({ ...prev, bankTransferInstructions: e.target.value }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Déjalo vacío para no ofrecer transferencias en la página de pago
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Vigencia de los enlaces de pago (días)</Label>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={formData.paymentLinkExpiryDays}
+              onChange={e => setFormData(prev => ({ ...prev, paymentLinkExpiryDays: Number(e.target.value) }))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Un enlace nunca vence antes que su factura
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving} onClick={handleSave}>
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Ban, Link2, RefreshCw } from 'lucide-react'
+import { createPaymentLinkAction, revokePaymentLinkAction } from '@/lib/actions/payment-link'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface PaymentLinkActionsProps {
+  invoiceId: string
+  paymentLink: {
+    id: string
+    url: string
+    expiresAt: string | Date
+  } | null
+}
+
+export function PaymentLinkActions({ invoiceId, paymentLink }: PaymentLinkActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsProcessing(true)
+
+    try {
+      await action()
+    } catch (error) {
+      console.error(errorMessage, error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const copyLink = async (url: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success(message)
+    } catch {
+      // Clipboard access can be blocked by the browser, show the link instead
+      window.prompt('Enlace de pago', url)
+    }
+  }
+
+  const handleCopy = () => run(async () => {
+    if (paymentLink) {
+      await copyLink(paymentLink.url, 'Enlace de pago copiado')
+      return
+    }
+
+    const result = await createPaymentLinkAction({ invoiceId })
+
+    if (result.success) {
+      await copyLink(result.data.url, 'Enlace de pago creado y copiado')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Error al crear el enlace de pago')
+    }
+  }, 'Error creating payment link:')
+
+  const handleRegenerate = () => run(async () => {
+    if (!window.confirm('El enlace actual dejará de funcionar. ¿Generar uno nuevo?')) return
+    const result = await createPaymentLinkAction({ invoiceId, regenerate: true })
+
+    if (result.success) {
+      await copyLink(result.data.url, 'Nuevo enlace de pago copiado')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Error al regenerar el enlace de pago')
+    }
+  }, 'Error regenerating payment link:')
+
+  const handleRevoke = () => run(async () => {
+    if (!paymentLink || !window.confirm('¿Revocar el enlace de pago? El cliente ya no podrá usarlo.')) return
+    const result = await revokePaymentLinkAction({ linkId: paymentLink.id })
+
+    if (result.success) {
+      toast.success('Enlace de pago revocado')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Error al revocar el enlace de pago')
+    }
+  }, 'Error revoking payment link:')
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isProcessing}
+        onClick={handleCopy}
+        title={paymentLink ? `Vence el ${new Date(paymentLink.expiresAt).toLocaleDateString('es-ES')}` : undefined}
+      >
+        <Link2 className="h-4 w-4 mr-1" />
+        {paymentLink ? 'Copiar enlace' : 'Enlace de pago'}
+      </Button>
+      {paymentLink && (
+        <>
+          <Button variant="ghost" size="sm" disabled={isProcessing} onClick={handleRegenerate} title="Regenerar enlace">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" disabled={isProcessing} onClick={handleRevoke} title="Revocar enlace">
+            <Ban className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
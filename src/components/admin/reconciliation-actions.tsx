@@ -0,0 +1,228 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Ban, Check, Link2, Trash2, Upload } from 'lucide-react'
+import {
+  approveReconciliationAction,
+  deleteReconciliationAction,
+  excludeReconciliationItemAction,
+  importBankStatementAction,
+  matchReconciliationItemAction,
+} from '@/lib/actions/reconciliation'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+export function BankStatementUploadButton() {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setIsUploading(true)
+
+    try {
+      const result = await importBankStatementAction({ fileName: file.name, content: await file.text() })
+
+      if (result.success) {
+        toast.success(`${result.data.matchedTransactions} movimientos conciliados automáticamente`)
+        router.push(`/billing/reconciliations/${result.data.id}`)
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al importar la cartola')
+      }
+    } catch (error) {
+      console.error('Error importing bank statement:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.txt,.ofx,.qfx,.xml"
+        className="hidden"
+        onChange={e => handleFile(e.target.files?.[0])}
+      />
+      <Button variant="outline" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-2" />
+        {isUploading ? 'Importando...' : 'Importar cartola'}
+      </Button>
+    </>
+  )
+}
+
+interface MatchOption {
+  value: string // "payment:<id>" or "invoice:<id>"
+  label: string
+}
+
+interface ReconciliationItemActionsProps {
+  item: {
+    id: string
+    matchStatus: string
+    discrepancyType: string | null
+    paymentId: string | null
+    invoiceId: string | null
+  }
+  options: MatchOption[]
+}
+
+export function ReconciliationItemActions({ item, options }: ReconciliationItemActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [selected, setSelected] = useState('')
+  const isMissing = item.discrepancyType === 'MISSING_TRANSACTION'
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    setIsProcessing(true)
+
+    try {
+      await action()
+    } catch (error) {
+      console.error(errorMessage, error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const match = (value: string) => run(async () => {
+    const [type, id] = value.split(':')
+    const result = await matchReconciliationItemAction(
+      type === 'payment' ? { itemId: item.id, paymentId: id } : { itemId: item.id, invoiceId: id }
+    )
+
+    if (result.success) {
+      toast.success('Movimiento conciliado')
+      router.refresh()
+    } else {
+      const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+      toast.error(fieldError || result.error || 'Error al conciliar el movimiento')
+    }
+  }, 'Error matching reconciliation item:')
+
+  const handleExclude = () => run(async () => {
+    const notes = window.prompt(isMissing
+      ? '¿Por qué este pago no aparece en la cartola?'
+      : '¿Por qué se excluye este movimiento?')
+    if (!notes?.trim()) return
+
+    const result = await excludeReconciliationItemAction({ itemId: item.id, notes: notes.trim() })
+
+    if (result.success) {
+      toast.success('Movimiento excluido')
+      router.refresh()
+    } else {
+      toast.error(result.error || 'Error al excluir el movimiento')
+    }
+  }, 'Error excluding reconciliation item:')
+
+  // Suggested matches only need to be confirmed
+  const suggestion = item.matchStatus === 'PARTIAL_MATCH'
+    ? (item.paymentId ? `payment:${item.paymentId}` : `invoice:${item.invoiceId}`)
+    : null
+
+  return (
+    <div className="flex items-center gap-2">
+      {suggestion && (
+        <Button variant="outline" size="sm" disabled={isProcessing} onClick={() => match(suggestion)}>
+          <Check className="h-4 w-4 mr-1" />
+          Confirmar
+        </Button>
+      )}
+      {!isMissing && options.length > 0 && (
+        <>
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger className="w-56 h-9">
+              <SelectValue placeholder="Conciliar con..." />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" disabled={isProcessing || !selected} onClick={() => match(selected)} title="Conciliar">
+            <Link2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      <Button variant="ghost" size="sm" disabled={isProcessing} onClick={handleExclude} title="Excluir">
+        <Ban className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+interface ReconciliationActionsProps {
+  reconciliationId: string
+  canApprove: boolean
+}
+
+export function ReconciliationActions({ reconciliationId, canApprove }: ReconciliationActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleApprove = async () => {
+    if (!window.confirm('Se registrarán como pagados los movimientos conciliados. ¿Aprobar la conciliación?')) return
+    setIsProcessing(true)
+
+    try {
+      const result = await approveReconciliationAction({ reconciliationId })
+
+      if (result.success) {
+        toast.success(`Conciliación aprobada, ${result.data.invoices} facturas actualizadas`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al aprobar la conciliación')
+      }
+    } catch (error) {
+      console.error('Error approving reconciliation:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm('¿Descartar esta conciliación? Podrás volver a importar la cartola.')) return
+    setIsProcessing(true)
+
+    try {
+      const result = await deleteReconciliationAction({ reconciliationId })
+
+      if (result.success) {
+        toast.success('Conciliación descartada')
+        router.push('/billing')
+      } else {
+        toast.error(result.error || 'Error al descartar la conciliación')
+      }
+    } catch (error) {
+      console.error('Error deleting reconciliation:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button variant="outline" disabled={isProcessing} onClick={handleDelete}>
+        <Trash2 className="h-4 w-4 mr-2" />
+        Descartar
+      </Button>
+      <Button disabled={isProcessing || !canApprove} onClick={handleApprove}>
+        <Check className="h-4 w-4 mr-2" />
+        {isProcessing ? 'Procesando...' : 'Aprobar'}
+      </Button>
+    </div>
+  )
+}
@@ -61,6 +61,7 @@ const ICON_OPTIONS = [
   { value: 'coffee', label: '☕ Café', description: 'Para áreas comunes' },
   { value: 'utensils', label: '🍴 Utensilios', description: 'Para cocinas' },
   { value: 'sofa', label: '🛋️ Sofá', description: 'Para salas de descanso' },
+  { value: 'monitor', label: '🖥️ Monitor', description: 'Para áreas de escritorios' },
 ]
 
 const COLOR_OPTIONS = [
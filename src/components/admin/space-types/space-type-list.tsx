@@ -319,6 +319,7 @@ export function SpaceTypeList({ spaceTypes: initialSpaceTypes, totalCount }: Spa
       coffee: <div className="h-5 w-5 bg-lime-500 rounded flex items-center justify-center text-white text-xs">☕</div>,
       utensils: <div className="h-5 w-5 bg-red-500 rounded flex items-center justify-center text-white text-xs">🍴</div>,
       sofa: <div className="h-5 w-5 bg-indigo-500 rounded flex items-center justify-center text-white text-xs">🛋️</div>,
+      monitor: <div className="h-5 w-5 bg-teal-500 rounded flex items-center justify-center text-white text-xs">🖥️</div>,
     }
 
     return iconMap[icon] || <Palette className="h-5 w-5 text-muted-foreground" />
@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { ArrowRightLeft, XCircle } from 'lucide-react'
+import { changeSubscriptionPlanAction, cancelSubscriptionAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface SubscriptionActionsProps {
+  subscription: any
+  plans: Array<{ id: string; name: string; price: number; currency: string }>
+}
+
+export function SubscriptionActions({ subscription, plans }: SubscriptionActionsProps) {
+  const router = useRouter()
+  const [planDialogOpen, setPlanDialogOpen] = useState(false)
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [planId, setPlanId] = useState('')
+  const [atPeriodEnd, setAtPeriodEnd] = useState(true)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const availablePlans = plans.filter(plan => plan.id !== subscription.planId)
+
+  const handleChangePlan = async () => {
+    if (!planId) return
+    setIsProcessing(true)
+
+    try {
+      const result = await changeSubscriptionPlanAction({ subscriptionId: subscription.id, planId })
+
+      if (result.success) {
+        toast.success(result.data?.effective === 'IMMEDIATE'
+          ? 'Plan actualizado, el prorrateo se incluirá en la próxima factura'
+          : 'El cambio de plan se aplicará al final del período')
+        setPlanDialogOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al cambiar el plan')
+      }
+    } catch (error) {
+      console.error('Error changing subscription plan:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await cancelSubscriptionAction({ subscriptionId: subscription.id, atPeriodEnd })
+
+      if (result.success) {
+        toast.success(atPeriodEnd
+          ? 'La suscripción terminará al final del período'
+          : 'Suscripción cancelada y factura final generada')
+        setCancelDialogOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al cancelar la suscripción')
+      }
+    } catch (error) {
+      console.error('Error cancelling subscription:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Dialog open={planDialogOpen} onOpenChange={setPlanDialogOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <ArrowRightLeft className="h-4 w-4 mr-1" />
+            Cambiar Plan
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cambiar Plan</DialogTitle>
+            <DialogDescription>
+              {subscription.proration
+                ? 'El cambio se aplica de inmediato y los días ya usados se prorratean en la próxima factura. Las bajas de plan pueden esperar al final del período según la configuración de facturación.'
+                : 'Esta suscripción no prorratea, el nuevo plan se aplicará al final del período actual.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Nuevo plan</Label>
+            <Select value={planId} onValueChange={setPlanId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecciona un plan" />
+              </SelectTrigger>
+              <SelectContent>
+                {availablePlans.map(plan => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name} ({plan.price} {plan.currency})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button disabled={!planId || isProcessing} onClick={handleChangePlan}>
+              {isProcessing ? 'Guardando...' : 'Cambiar Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <XCircle className="h-4 w-4 mr-1" />
+            Cancelar
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Suscripción</DialogTitle>
+            <DialogDescription>
+              {atPeriodEnd
+                ? 'La suscripción se facturará normalmente hasta el final del período actual y luego terminará.'
+                : subscription.proration
+                  ? 'La suscripción termina hoy con una factura final por los días usados y el consumo pendiente.'
+                  : 'La suscripción termina hoy con una factura final por el período completo y el consumo pendiente.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`period-end-${subscription.id}`}>Cancelar al final del período</Label>
+            <Switch
+              id={`period-end-${subscription.id}`}
+              checked={atPeriodEnd}
+              onCheckedChange={setAtPeriodEnd}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelDialogOpen(false)}>
+              Volver
+            </Button>
+            <Button variant="destructive" disabled={isProcessing} onClick={handleCancel}>
+              {isProcessing ? 'Cancelando...' : 'Cancelar Suscripción'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { createTaxRuleAction, deleteTaxRuleAction, updateTaxRuleAction } from '@/lib/actions/billing'
+import { TAX_CATEGORY_LABELS, TAX_TYPE_LABELS } from '@/lib/validations/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface TaxRule {
+  id: string
+  name: string
+  rate: number
+  type: 'SALES_TAX' | 'VAT' | 'SERVICE_TAX' | 'OTHER'
+  jurisdiction: string
+  serviceTypes: string[]
+  amountThreshold: number | null
+  isActive: boolean
+}
+
+interface TaxRuleDialogProps {
+  rule?: TaxRule // Edit this rule, create a new one otherwise
+}
+
+export function TaxRuleDialog({ rule }: TaxRuleDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    name: rule?.name ?? '',
+    rate: String(rule?.rate ?? 19),
+    type: rule?.type ?? 'VAT',
+    jurisdiction: rule?.jurisdiction ?? '',
+    serviceTypes: rule?.serviceTypes ?? [],
+    amountThreshold: rule?.amountThreshold ? String(rule.amountThreshold) : '',
+    isActive: rule?.isActive ?? true,
+  })
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      serviceTypes: checked
+        ? [...prev.serviceTypes, category]
+        : prev.serviceTypes.filter(serviceType => serviceType !== category),
+    }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const data = {
+        ...formData,
+        rate: Number(formData.rate),
+        amountThreshold: formData.amountThreshold ? Number(formData.amountThreshold) : null,
+      }
+
+      const result = rule
+        ? await updateTaxRuleAction({ taxRuleId: rule.id, ...data })
+        : await createTaxRuleAction(data)
+
+      if (result.success) {
+        toast.success(rule ? 'Impuesto actualizado' : 'Impuesto creado')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar el impuesto')
+      }
+    } catch (error) {
+      console.error('Error saving tax rule:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {rule ? (
+          <Button variant="outline" size="sm">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Impuesto
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? `Editar ${rule.name}` : 'Nuevo Impuesto'}</DialogTitle>
+          <DialogDescription>
+            Cada línea de una factura o cotización usa el impuesto de su categoría o, si no hay, el impuesto general. Los documentos ya emitidos conservan su tasa.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Nombre</Label>
+              <Input
+                value={formData.name}
+                onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="IVA 19%"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tasa (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={formData.rate}
+                onChange={e => setFormData(prev => ({ ...prev, rate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={formData.type}
+                onValueChange={value => setFormData(prev => ({ ...prev, type: value as TaxRule['type'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TAX_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Jurisdicción</Label>
+              <Input
+                value={formData.jurisdiction}
+                onChange={e => setFormData(prev => ({ ...prev, jurisdiction: e.target.value }))}
+                placeholder="Chile"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Monto mínimo de la línea</Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.amountThreshold}
+                onChange={e => setFormData(prev => ({ ...prev, amountThreshold: e.target.value }))}
+                placeholder="Sin mínimo"
+              />
+            </div>
+            <div className="flex items-center justify-between pt-8">
+              <Label htmlFor="tax-rule-active">Activo</Label>
+              <Switch
+                id="tax-rule-active"
+                checked={formData.isActive}
+                onCheckedChange={checked => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categorías (todas si no eliges ninguna)</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {Object.entries(TAX_CATEGORY_LABELS).map(([category, label]) => (
+                <label key={category} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={formData.serviceTypes.includes(category)}
+                    onCheckedChange={checked => toggleCategory(category, checked === true)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving || !formData.name} onClick={handleSave}>
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface DeleteTaxRuleButtonProps {
+  rule: { id: string; name: string }
+}
+
+export function DeleteTaxRuleButton({ rule }: DeleteTaxRuleButtonProps) {
+  const router = useRouter()
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleDelete = async () => {
+    if (!window.confirm(`¿Eliminar el impuesto ${rule.name}?`)) return
+    setIsDeleting(true)
+
+    try {
+      const result = await deleteTaxRuleAction({ taxRuleId: rule.id })
+
+      if (result.success) {
+        toast.success(result.data.deleted
+          ? 'Impuesto eliminado'
+          : 'El impuesto ya se usó en documentos, se desactivó')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al eliminar el impuesto')
+      }
+    } catch (error) {
+      console.error('Error deleting tax rule:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" disabled={isDeleting} onClick={handleDelete}>
+      <Trash2 className="h-4 w-4" />
+    </Button>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Settings } from 'lucide-react'
+import { updateTaxSettingsAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface TaxSettings {
+  taxRate: number
+  taxIncluded: boolean
+  taxDisplay: 'EXCLUSIVE' | 'INCLUSIVE'
+}
+
+interface TaxSettingsDialogProps {
+  settings: TaxSettings
+}
+
+export function TaxSettingsDialog({ settings }: TaxSettingsDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState(settings)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await updateTaxSettingsAction(formData)
+
+      if (result.success) {
+        toast.success('Configuración de impuestos actualizada')
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar la configuración')
+      }
+    } catch (error) {
+      console.error('Error updating tax settings:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Settings className="h-4 w-4 mr-2" />
+          Configurar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Configuración de Impuestos</DialogTitle>
+          <DialogDescription>
+            Define si los precios incluyen impuestos y cómo se muestran en facturas, cotizaciones y notas de crédito
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="tax-included">Los precios incluyen impuestos</Label>
+            <Switch
+              id="tax-included"
+              checked={formData.taxIncluded}
+              onCheckedChange={checked => setFormData(prev => ({ ...prev, taxIncluded: checked }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Montos de las líneas en los documentos</Label>
+            <Select
+              value={formData.taxDisplay}
+              onValueChange={value => setFormData(prev => ({ ...prev, taxDisplay: value as TaxSettings['taxDisplay'] }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="EXCLUSIVE">Sin impuestos</SelectItem>
+                <SelectItem value="INCLUSIVE">Con impuestos</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tasa general sin impuestos configurados (%)</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              value={formData.taxRate}
+              onChange={e => setFormData(prev => ({ ...prev, taxRate: Number(e.target.value) }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving} onClick={handleSave}>
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
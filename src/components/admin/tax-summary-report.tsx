@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getTaxSummaryAction } from '@/lib/actions/billing'
+import { toast } from 'sonner'
+
+interface TaxSummaryRow {
+  taxRuleId: string | null
+  name: string
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+  creditedAmount: number
+  netTaxAmount: number
+}
+
+interface TaxSummary {
+  rows: TaxSummaryRow[]
+  totals: Omit<TaxSummaryRow, 'taxRuleId' | 'name' | 'rate'>
+}
+
+interface TaxSummaryReportProps {
+  currency: string
+}
+
+const toMonthInput = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+
+export function TaxSummaryReport({ currency }: TaxSummaryReportProps) {
+  const [month, setMonth] = useState(toMonthInput(new Date()))
+  const [summary, setSummary] = useState<TaxSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const formatAmount = (amount: number) => {
+    return new Intl.NumberFormat('es-ES', { style: 'currency', currency }).format(amount)
+  }
+
+  const loadSummary = async (period: string) => {
+    const [year, monthNumber] = period.split('-').map(Number)
+    if (!year || !monthNumber) return
+    setIsLoading(true)
+
+    try {
+      const result = await getTaxSummaryAction({
+        from: new Date(year, monthNumber - 1, 1),
+        to: new Date(year, monthNumber, 1),
+      })
+
+      if (result.success) {
+        setSummary(result.data)
+      } else {
+        toast.error(result.error || 'Error al cargar el resumen de impuestos')
+      }
+    } catch (error) {
+      console.error('Error loading tax summary:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSummary(month)
+  }, [month])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-3">
+        <div className="space-y-2">
+          <Label>Período</Label>
+          <Input type="month" value={month} onChange={e => setMonth(e.target.value)} className="w-48" />
+        </div>
+        <Button variant="outline" disabled={isLoading} onClick={() => loadSummary(month)}>
+          {isLoading ? 'Cargando...' : 'Actualizar'}
+        </Button>
+      </div>
+
+      {!summary || summary.rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? 'Cargando...' : 'No hay facturas emitidas en el período'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">Impuesto</th>
+                <th className="py-2 font-medium text-right">Tasa</th>
+                <th className="py-2 font-medium text-right">Base imponible</th>
+                <th className="py-2 font-medium text-right">Facturado</th>
+                <th className="py-2 font-medium text-right">Notas de crédito</th>
+                <th className="py-2 font-medium text-right">Neto</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.rows.map(row => (
+                <tr key={`${row.taxRuleId}-${row.rate}`} className="border-b">
+                  <td className="py-2">{row.name}</td>
+                  <td className="py-2 text-right">{row.rate}%</td>
+                  <td className="py-2 text-right">{formatAmount(row.taxableAmount)}</td>
+                  <td className="py-2 text-right">{formatAmount(row.taxAmount)}</td>
+                  <td className="py-2 text-right">-{formatAmount(row.creditedAmount)}</td>
+                  <td className="py-2 text-right font-medium">{formatAmount(row.netTaxAmount)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2" colSpan={2}>Total</td>
+                <td className="py-2 text-right">{formatAmount(summary.totals.taxableAmount)}</td>
+                <td className="py-2 text-right">{formatAmount(summary.totals.taxAmount)}</td>
+                <td className="py-2 text-right">-{formatAmount(summary.totals.creditedAmount)}</td>
+                <td className="py-2 text-right">{formatAmount(summary.totals.netTaxAmount)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
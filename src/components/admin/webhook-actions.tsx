@@ -0,0 +1,363 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Copy, Eye, EyeOff, KeyRound, Pencil, Plus, RotateCw, Send, Trash2 } from 'lucide-react'
+import {
+  createWebhookAction,
+  deleteWebhookAction,
+  redeliverWebhookAction,
+  rotateWebhookSecretAction,
+  testWebhookAction,
+  updateWebhookAction,
+} from '@/lib/actions/integration'
+import { WEBHOOK_EVENT_LABELS, type WebhookEvent } from '@/lib/validations/integration'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface Webhook {
+  id: string
+  name: string
+  description: string | null
+  url: string
+  events: string[]
+  isActive: boolean
+}
+
+interface WebhookDialogProps {
+  webhook?: Webhook // Edit this webhook, create a new one otherwise
+}
+
+export function WebhookDialog({ webhook }: WebhookDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    name: webhook?.name ?? '',
+    description: webhook?.description ?? '',
+    url: webhook?.url ?? '',
+    events: (webhook?.events ?? []) as WebhookEvent[],
+    isActive: webhook?.isActive ?? true,
+  })
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(current => current !== event),
+    }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const data = { ...formData, description: formData.description || undefined }
+      const result = webhook
+        ? await updateWebhookAction({ id: webhook.id, ...data })
+        : await createWebhookAction(data)
+
+      if (result.success) {
+        toast.success(webhook ? 'Webhook actualizado' : 'Webhook creado')
+        setIsOpen(false)
+
+        if (webhook) {
+          router.refresh()
+        } else {
+          // The signing secret is on the detail page
+          router.push(`/integrations/webhooks/${result.data.id}`)
+        }
+      } else {
+        const fieldError = result.fieldErrors ? Object.values(result.fieldErrors)[0] : null
+        toast.error(fieldError || result.error || 'Error al guardar el webhook')
+      }
+    } catch (error) {
+      console.error('Error saving webhook:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {webhook ? (
+          <Button variant="outline">
+            <Pencil className="h-4 w-4 mr-2" />
+            Editar
+          </Button>
+        ) : (
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Webhook
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{webhook ? `Editar ${webhook.name}` : 'Nuevo Webhook'}</DialogTitle>
+          <DialogDescription>
+            Enviamos un POST firmado a la URL cada vez que ocurre uno de los eventos elegidos. Si la URL no responde con un 2xx, el envío se reintenta durante un par de días.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Nombre</Label>
+              <Input
+                value={formData.name}
+                onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="CRM, contabilidad..."
+              />
+            </div>
+            <div className="flex items-center justify-between pt-8">
+              <Label htmlFor="webhook-active">Activo</Label>
+              <Switch
+                id="webhook-active"
+                checked={formData.isActive}
+                onCheckedChange={checked => setFormData(prev => ({ ...prev, isActive: checked }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>URL</Label>
+            <Input
+              type="url"
+              value={formData.url}
+              onChange={e => setFormData(prev => ({ ...prev, url: e.target.value }))}
+              placeholder="https://ejemplo.com/webhooks/sweetspot"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Descripción</Label>
+            <Textarea
+              rows={2}
+              value={formData.description}
+              onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Eventos</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {(Object.entries(WEBHOOK_EVENT_LABELS) as [WebhookEvent, string][]).map(([event, label]) => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={formData.events.includes(event)}
+                    onCheckedChange={checked => toggleEvent(event, checked === true)}
+                  />
+                  {label}
+                  <span className="text-muted-foreground font-mono text-xs">{event}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancelar
+          </Button>
+          <Button
+            disabled={isSaving || !formData.name || !formData.url || formData.events.length === 0}
+            onClick={handleSave}
+          >
+            {isSaving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface WebhookSecretProps {
+  webhookId: string
+  secret: string
+}
+
+export function WebhookSecret({ webhookId, secret }: WebhookSecretProps) {
+  const router = useRouter()
+  const [isVisible, setIsVisible] = useState(false)
+  const [isRotating, setIsRotating] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(secret)
+      toast.success('Secreto copiado')
+    } catch {
+      // Clipboard access can be blocked by the browser, show the secret instead
+      window.prompt('Secreto de firma', secret)
+    }
+  }
+
+  const handleRotate = async () => {
+    if (!window.confirm('Los próximos envíos se firmarán con un secreto nuevo. Actualiza el receptor para no rechazarlos. ¿Continuar?')) return
+    setIsRotating(true)
+
+    try {
+      const result = await rotateWebhookSecretAction({ id: webhookId })
+
+      if (result.success) {
+        toast.success('Secreto regenerado')
+        setIsVisible(true)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al regenerar el secreto')
+      }
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsRotating(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <code className="flex-1 min-w-0 truncate rounded bg-muted px-3 py-2 text-sm">
+        {isVisible ? secret : `${secret.slice(0, 6)}${'•'.repeat(24)}`}
+      </code>
+      <Button variant="outline" size="sm" onClick={() => setIsVisible(!isVisible)} title={isVisible ? 'Ocultar' : 'Mostrar'}>
+        {isVisible ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleCopy} title="Copiar">
+        <Copy className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="sm" disabled={isRotating} onClick={handleRotate}>
+        <KeyRound className="h-4 w-4 mr-1" />
+        Regenerar
+      </Button>
+    </div>
+  )
+}
+
+interface WebhookActionsProps {
+  webhook: Webhook
+}
+
+export function WebhookActions({ webhook }: WebhookActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [testEvent, setTestEvent] = useState<WebhookEvent>((webhook.events[0] as WebhookEvent) || 'booking.created')
+
+  const handleTest = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await testWebhookAction({ id: webhook.id, event: testEvent })
+
+      if (result.success && result.data.success) {
+        toast.success(`Evento de prueba entregado (HTTP ${result.data.responseStatus})`)
+      } else if (result.success) {
+        toast.error(`El receptor no aceptó el evento: ${result.data.error}`)
+      } else {
+        toast.error(result.error || 'Error al enviar el evento de prueba')
+      }
+      router.refresh()
+    } catch (error) {
+      console.error('Error testing webhook:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!window.confirm(`¿Eliminar el webhook ${webhook.name} y su historial de envíos?`)) return
+    setIsProcessing(true)
+
+    try {
+      const result = await deleteWebhookAction({ id: webhook.id })
+
+      if (result.success) {
+        toast.success('Webhook eliminado')
+        router.push('/integrations/webhooks')
+      } else {
+        toast.error(result.error || 'Error al eliminar el webhook')
+      }
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={testEvent} onValueChange={value => setTestEvent(value as WebhookEvent)}>
+        <SelectTrigger className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.entries(WEBHOOK_EVENT_LABELS) as [WebhookEvent, string][]).map(([event, label]) => (
+            <SelectItem key={event} value={event}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" disabled={isProcessing} onClick={handleTest}>
+        <Send className="h-4 w-4 mr-2" />
+        Enviar prueba
+      </Button>
+      <WebhookDialog webhook={webhook} />
+      <Button variant="outline" disabled={isProcessing} onClick={handleDelete}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+interface RedeliverWebhookButtonProps {
+  deliveryId: string
+}
+
+export function RedeliverWebhookButton({ deliveryId }: RedeliverWebhookButtonProps) {
+  const router = useRouter()
+  const [isSending, setIsSending] = useState(false)
+
+  const handleRedeliver = async () => {
+    setIsSending(true)
+
+    try {
+      const result = await redeliverWebhookAction({ deliveryId })
+
+      if (result.success && result.data.status === 'SUCCEEDED') {
+        toast.success('Evento reenviado')
+      } else if (result.success) {
+        toast.error(`El receptor no aceptó el evento: ${result.data.errorMessage}`)
+      } else {
+        toast.error(result.error || 'Error al reenviar el evento')
+      }
+      router.refresh()
+    } catch (error) {
+      console.error('Error redelivering webhook:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" disabled={isSending} onClick={handleRedeliver} title="Reenviar">
+      <RotateCw className="h-4 w-4" />
+    </Button>
+  )
+}
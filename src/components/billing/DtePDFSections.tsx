@@ -0,0 +1,82 @@
+import React from 'react'
+import { Text, View, StyleSheet } from '@react-pdf/renderer'
+import { PDFImage } from './PDFImage'
+
+// Electronic document (DTE) details printed on invoices and credit notes
+export interface DtePDFInfo {
+  issuerRut: string
+  documentName: string
+  folio: number
+  timbre: string // Image of the timbre electrónico
+  resolutionNumber: number
+  resolutionYear: number
+  totals: {
+    net: number
+    exempt: number
+    tax: number
+    total: number
+  }
+}
+
+const styles = StyleSheet.create({
+  siiBox: {
+    width: 200,
+    borderWidth: 2,
+    borderColor: '#dc2626',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+  },
+
+  siiBoxText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#dc2626',
+    textAlign: 'center',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+
+  siiOffice: {
+    fontSize: 9,
+    color: '#dc2626',
+    marginTop: 4,
+  },
+
+  timbre: {
+    marginTop: 20,
+    width: 200,
+    alignItems: 'center',
+  },
+
+  timbreImage: {
+    width: 140,
+    height: 140,
+  },
+
+  timbreText: {
+    fontSize: 8,
+    color: '#374151',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+})
+
+export const SiiDocumentBox: React.FC<{ dte: DtePDFInfo }> = ({ dte }) => (
+  <View style={styles.siiBox}>
+    <Text style={styles.siiBoxText}>R.U.T.: {dte.issuerRut}</Text>
+    <Text style={styles.siiBoxText}>{dte.documentName}</Text>
+    <Text style={styles.siiBoxText}>N° {dte.folio}</Text>
+    <Text style={styles.siiOffice}>S.I.I.</Text>
+  </View>
+)
+
+export const DteTimbre: React.FC<{ dte: DtePDFInfo }> = ({ dte }) => (
+  <View style={styles.timbre} wrap={false}>
+    <PDFImage src={dte.timbre} style={styles.timbreImage} alt="Timbre Electrónico SII" />
+    <Text style={styles.timbreText}>Timbre Electrónico SII</Text>
+    <Text style={styles.timbreText}>
+      Res. {dte.resolutionNumber} de {dte.resolutionYear} - Verifique documento: www.sii.cl
+    </Text>
+  </View>
+)
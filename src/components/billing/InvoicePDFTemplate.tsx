@@ -0,0 +1,521 @@
+import React from 'react'
+import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer'
+import { DteTimbre, SiiDocumentBox, type DtePDFInfo } from './DtePDFSections'
+import { PDFImage } from './PDFImage'
+
+// Define types for the PDF template
+interface InvoicePDFProps {
+  invoice: {
+    id: string
+    number: string
+    title?: string
+    description?: string
+    subtotal: number
+    tax: number
+    taxIncluded: boolean
+    total: number
+    paidAmount: number
+    currency: string
+    status: string
+    dueDate: string
+    createdAt: string
+    client: {
+      name: string
+      email: string
+      phone?: string
+      address?: string
+      taxId?: string
+    }
+    items: Array<{
+      id: string
+      description: string
+      quantity: number
+      unitPrice: number
+      total: number
+    }>
+  }
+  coworkInfo: {
+    name: string
+    address: string
+    phone: string
+    email: string
+    website?: string
+    logo?: string
+  }
+  dte?: DtePDFInfo // Electronic document the invoice was issued as
+}
+
+// Create styles
+const styles = StyleSheet.create({
+  page: {
+    flexDirection: 'column',
+    backgroundColor: '#ffffff',
+    padding: 40,
+    fontFamily: 'Helvetica',
+  },
+
+  // Header styles
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 40,
+    paddingBottom: 20,
+    borderBottom: 2,
+    borderBottomColor: '#6366f1',
+  },
+
+  headerLeft: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+
+  companyLogo: {
+    width: 50,
+    height: 50,
+    objectFit: 'contain',
+  },
+
+  companyDetails: {
+    flex: 1,
+  },
+
+  headerRight: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+
+  companyName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+
+  companyInfo: {
+    fontSize: 10,
+    color: '#6b7280',
+    marginBottom: 2,
+  },
+
+  documentTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#6366f1',
+    marginBottom: 8,
+  },
+
+  documentNumber: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+
+  documentDate: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+
+  // Client section
+  clientSection: {
+    marginBottom: 20,
+  },
+
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+
+  clientInfo: {
+    backgroundColor: '#f8fafc',
+    padding: 12,
+    borderRadius: 6,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+
+  clientInfoLeft: {
+    flex: 1,
+    marginRight: 10,
+  },
+
+  clientInfoRight: {
+    flex: 1,
+  },
+
+  clientName: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+
+  clientDetail: {
+    fontSize: 10,
+    color: '#4b5563',
+    marginBottom: 2,
+  },
+
+  // Description section
+  descriptionSection: {
+    marginBottom: 15,
+  },
+
+  description: {
+    fontSize: 11,
+    color: '#374151',
+    lineHeight: 1.4,
+    backgroundColor: '#f8fafc',
+    padding: 10,
+    borderRadius: 6,
+  },
+
+  // Items table
+  itemsSection: {
+    marginBottom: 20,
+  },
+
+  table: {
+    width: '100%',
+    borderStyle: 'solid',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+
+  tableRowLast: {
+    borderBottomWidth: 0,
+  },
+
+  tableCell: {
+    fontSize: 11,
+    color: '#374151',
+  },
+
+  tableCellHeader: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    textTransform: 'uppercase',
+  },
+
+  tableCellDescription: {
+    flex: 3,
+  },
+
+  tableCellQuantity: {
+    flex: 1,
+    textAlign: 'center',
+  },
+
+  tableCellPrice: {
+    flex: 1.5,
+    textAlign: 'right',
+  },
+
+  tableCellTotal: {
+    flex: 1.5,
+    textAlign: 'right',
+    fontWeight: 'bold',
+  },
+
+  // Totals section
+  totalsSection: {
+    marginTop: 15,
+    alignItems: 'flex-end',
+  },
+
+  totalsContainer: {
+    width: 260,
+    backgroundColor: '#f8fafc',
+    padding: 15,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  totalRowFinal: {
+    marginBottom: 0,
+    paddingTop: 12,
+    borderTopWidth: 2,
+    borderTopColor: '#6366f1',
+  },
+
+  totalLabel: {
+    fontSize: 12,
+    color: '#4b5563',
+  },
+
+  totalLabelFinal: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+
+  totalAmount: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#374151',
+  },
+
+  totalAmountFinal: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+
+  // Terms section
+  termsSection: {
+    marginTop: 20,
+    paddingTop: 15,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+
+  termsTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+
+  termsText: {
+    fontSize: 9,
+    color: '#6b7280',
+    lineHeight: 1.4,
+  },
+})
+
+// Main PDF component
+const InvoicePDFTemplate: React.FC<InvoicePDFProps> = ({ invoice, coworkInfo, dte }) => {
+  const formatCurrency = (amount: number) => {
+    const currency = invoice.currency || 'CLP'
+    const locale = currency === 'CLP' ? 'es-CL' : 'es-CO'
+
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('es-ES', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric'
+    })
+  }
+
+  const balance = Math.max(invoice.total - invoice.paidAmount, 0)
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Main Header */}
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            {coworkInfo.logo && (
+              <PDFImage src={coworkInfo.logo} style={styles.companyLogo} alt={`Logo de ${coworkInfo.name}`} />
+            )}
+            <View style={styles.companyDetails}>
+              <Text style={styles.companyName}>{coworkInfo.name}</Text>
+              <Text style={styles.companyInfo}>{coworkInfo.address}</Text>
+              <Text style={styles.companyInfo}>{coworkInfo.phone} • {coworkInfo.email}</Text>
+              {coworkInfo.website && (
+                <Text style={styles.companyInfo}>{coworkInfo.website}</Text>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.headerRight}>
+            {dte ? (
+              <SiiDocumentBox dte={dte} />
+            ) : (
+              <Text style={styles.documentTitle}>FACTURA</Text>
+            )}
+            <Text style={styles.documentNumber}>{invoice.number}</Text>
+            <Text style={styles.documentDate}>{formatDate(invoice.createdAt)}</Text>
+          </View>
+        </View>
+
+        {/* Client Information */}
+        <View style={styles.clientSection}>
+          <Text style={styles.sectionTitle}>Cliente</Text>
+          <View style={styles.clientInfo}>
+            <View style={styles.clientInfoLeft}>
+              <Text style={styles.clientName}>{invoice.client.name}</Text>
+              {invoice.client.taxId && (
+                <Text style={styles.clientDetail}>{invoice.client.taxId}</Text>
+              )}
+              <Text style={styles.clientDetail}>{invoice.client.email}</Text>
+            </View>
+            <View style={styles.clientInfoRight}>
+              {invoice.client.phone && (
+                <Text style={styles.clientDetail}>Tel: {invoice.client.phone}</Text>
+              )}
+              {invoice.client.address && (
+                <Text style={styles.clientDetail}>{invoice.client.address}</Text>
+              )}
+            </View>
+          </View>
+        </View>
+
+        {/* Description */}
+        {(invoice.title || invoice.description) && (
+          <View style={styles.descriptionSection}>
+            <Text style={styles.sectionTitle}>{invoice.title || 'Descripción'}</Text>
+            {invoice.description && (
+              <Text style={styles.description}>{invoice.description}</Text>
+            )}
+          </View>
+        )}
+
+        {/* Items Table */}
+        <View style={styles.itemsSection}>
+          <Text style={styles.sectionTitle}>Conceptos</Text>
+          <View style={styles.table}>
+            <View style={styles.tableHeader}>
+              <Text style={[styles.tableCellHeader, styles.tableCellDescription]}>
+                Descripción
+              </Text>
+              <Text style={[styles.tableCellHeader, styles.tableCellQuantity]}>
+                Cantidad
+              </Text>
+              <Text style={[styles.tableCellHeader, styles.tableCellPrice]}>
+                Precio Unit.
+              </Text>
+              <Text style={[styles.tableCellHeader, styles.tableCellTotal]}>
+                Total
+              </Text>
+            </View>
+
+            {invoice.items.map((item, index) => (
+              <View
+                key={item.id || index}
+                style={[
+                  styles.tableRow,
+                  index === invoice.items.length - 1 ? styles.tableRowLast : {}
+                ]}
+              >
+                <Text style={[styles.tableCell, styles.tableCellDescription]}>
+                  {item.description}
+                </Text>
+                <Text style={[styles.tableCell, styles.tableCellQuantity]}>
+                  {item.quantity}
+                </Text>
+                <Text style={[styles.tableCell, styles.tableCellPrice]}>
+                  {formatCurrency(item.unitPrice)}
+                </Text>
+                <Text style={[styles.tableCell, styles.tableCellTotal]}>
+                  {formatCurrency(item.total)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Totals */}
+        <View style={styles.totalsSection}>
+          <View style={styles.totalsContainer}>
+            {dte ? (
+              <>
+                {dte.totals.net > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>Monto neto:</Text>
+                    <Text style={styles.totalAmount}>{formatCurrency(dte.totals.net)}</Text>
+                  </View>
+                )}
+                {dte.totals.exempt > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>Monto exento:</Text>
+                    <Text style={styles.totalAmount}>{formatCurrency(dte.totals.exempt)}</Text>
+                  </View>
+                )}
+                {dte.totals.net > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>IVA 19%:</Text>
+                    <Text style={[styles.totalAmount, { color: '#f97316' }]}>
+                      {formatCurrency(dte.totals.tax)}
+                    </Text>
+                  </View>
+                )}
+              </>
+            ) : (
+              <>
+                <View style={styles.totalRow}>
+                  <Text style={styles.totalLabel}>Subtotal:</Text>
+                  <Text style={styles.totalAmount}>{formatCurrency(invoice.subtotal)}</Text>
+                </View>
+
+                {invoice.tax > 0 && (
+                  <View style={styles.totalRow}>
+                    <Text style={styles.totalLabel}>
+                      {invoice.taxIncluded ? 'Impuestos incluidos:' : 'Impuestos:'}
+                    </Text>
+                    <Text style={[styles.totalAmount, { color: '#f97316' }]}>
+                      {formatCurrency(invoice.tax)}
+                    </Text>
+                  </View>
+                )}
+              </>
+            )}
+
+            <View style={[styles.totalRow, styles.totalRowFinal]}>
+              <Text style={styles.totalLabelFinal}>Total:</Text>
+              <Text style={styles.totalAmountFinal}>{formatCurrency(dte ? dte.totals.total : invoice.total)}</Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Timbre */}
+        {dte && <DteTimbre dte={dte} />}
+
+        {/* Terms */}
+        <View style={styles.termsSection}>
+          <Text style={styles.termsTitle}>Condiciones de pago</Text>
+          <Text style={styles.termsText}>
+            • Fecha de vencimiento: {formatDate(invoice.dueDate)}{'\n'}
+            • Pagado: {formatCurrency(invoice.paidAmount)}{'\n'}
+            • Saldo pendiente: {formatCurrency(invoice.status === 'CANCELLED' ? 0 : balance)}
+          </Text>
+        </View>
+
+      </Page>
+    </Document>
+  )
+}
+
+export default InvoicePDFTemplate
@@ -0,0 +1,13 @@
+import React from 'react'
+import { Image as ReactPDFImage } from '@react-pdf/renderer'
+
+type ReactPDFImageProps = React.ComponentProps<typeof ReactPDFImage>
+
+type PDFImageProps = ReactPDFImageProps & {
+  alt: string // What the image shows, as on an HTML image
+}
+
+// react-pdf images take no alt text, so documents use this to keep every image described
+export function PDFImage(props: PDFImageProps) {
+  return <ReactPDFImage {...(props as ReactPDFImageProps)} />
+}
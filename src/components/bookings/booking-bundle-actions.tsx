@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { XCircle } from 'lucide-react'
+import { cancelBookingBundleAction } from '@/lib/actions/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface BookingBundleActionsProps {
+  bundle: any
+}
+
+export function BookingBundleActions({ bundle }: BookingBundleActionsProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const handleCancel = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await cancelBookingBundleAction({
+        id: bundle.id,
+        reason: 'CLIENT_REQUEST',
+      })
+
+      if (result.success) {
+        toast.success(`${result.data?.cancelled?.length || 0} reservas del evento canceladas`)
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al cancelar la reserva de evento')
+      }
+    } catch (error) {
+      console.error('Error cancelling booking bundle:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" className="w-full justify-start" onClick={() => setOpen(true)}>
+        <XCircle className="h-4 w-4 mr-2" />Cancelar Evento Completo
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Reserva de Evento</DialogTitle>
+            <DialogDescription>
+              Se cancelarán las reservas de todos los espacios y servicios del evento &quot;{bundle.title}&quot;
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isProcessing}>
+              Volver
+            </Button>
+            <Button variant="destructive" disabled={isProcessing} onClick={handleCancel}>
+              <XCircle className="h-4 w-4 mr-1" />
+              {isProcessing ? 'Procesando...' : 'Confirmar Cancelación'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
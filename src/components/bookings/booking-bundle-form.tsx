@@ -0,0 +1,228 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle, MapPin, Package } from 'lucide-react'
+import { createBookingBundleAction } from '@/lib/actions/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface BookingBundleFormProps {
+  spaces: Array<{ id: string; name: string; type: string; capacity: number; requiresApproval: boolean }>
+  services: Array<{ id: string; name: string; price: number; unit?: string; inventoryQuantity?: number | null }>
+  userId: string
+}
+
+const UNAVAILABLE_LABELS: Record<string, string> = {
+  POLICY: 'No cumple las reglas de reserva del espacio',
+  CONFLICT: 'Ya está reservado en ese horario',
+  WAITLIST_HOLD: 'Reservado temporalmente para la lista de espera',
+}
+
+export function BookingBundleForm({ spaces, services, userId }: BookingBundleFormProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [date, setDate] = useState('')
+  const [startTime, setStartTime] = useState('09:00')
+  const [endTime, setEndTime] = useState('10:00')
+  const [discountCode, setDiscountCode] = useState('')
+  const [spaceIds, setSpaceIds] = useState<string[]>([])
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [unavailable, setUnavailable] = useState<any[]>([])
+  const [shortages, setShortages] = useState<any[]>([])
+
+  const toggleSpace = (spaceId: string, checked: boolean) => {
+    setSpaceIds(checked ? [...spaceIds, spaceId] : spaceIds.filter(id => id !== spaceId))
+  }
+
+  const updateQuantity = (serviceId: string, value: string) => {
+    setQuantities({ ...quantities, [serviceId]: Math.max(0, Number(value) || 0) })
+  }
+
+  const handleSubmit = async () => {
+    const start = new Date(`${date}T${startTime}`)
+    const end = new Date(`${date}T${endTime}`)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      toast.error('La hora de fin debe ser posterior a la hora de inicio')
+      return
+    }
+
+    setIsProcessing(true)
+    setUnavailable([])
+    setShortages([])
+
+    try {
+      const result = await createBookingBundleAction({
+        title,
+        description: description || undefined,
+        userId,
+        startTime: start,
+        endTime: end,
+        spaceIds,
+        services: services
+          .filter(service => (quantities[service.id] || 0) > 0)
+          .map(service => ({
+            serviceId: service.id,
+            quantity: quantities[service.id],
+            unitPrice: service.price,
+            totalPrice: service.price * quantities[service.id],
+            status: 'PENDING' as const,
+          })),
+        discountCode: discountCode.trim() || undefined,
+      })
+
+      if (result.success) {
+        toast.success(result.data?.status === 'PENDING'
+          ? 'Reserva de evento creada, pendiente de aprobación'
+          : 'Reserva de evento confirmada')
+        router.push(`/bookings/${result.data.bookings[0].id}`)
+      } else {
+        setUnavailable(result.details?.unavailable || [])
+        setShortages(result.details?.shortages || [])
+        toast.error(result.error || 'Error al crear la reserva de evento')
+      }
+    } catch (error) {
+      console.error('Error creating booking bundle:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Detalles del Evento</CardTitle>
+          <CardDescription>
+            Todos los espacios y servicios se reservan juntos: si alguno no está disponible, no se reserva ninguno
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Título</label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Ej: Lanzamiento de producto" />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Descripción (opcional)</label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Fecha</label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Inicio</label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Fin</label>
+              <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Espacios
+          </CardTitle>
+          <CardDescription>Selecciona hasta 10 espacios para el evento</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {spaces.map(space => (
+            <label key={space.id} className="flex items-center justify-between p-3 border rounded-lg cursor-pointer">
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={spaceIds.includes(space.id)}
+                  disabled={!spaceIds.includes(space.id) && spaceIds.length >= 10}
+                  onCheckedChange={(checked) => toggleSpace(space.id, checked === true)}
+                />
+                <div>
+                  <div className="font-medium">{space.name}</div>
+                  <div className="text-sm text-muted-foreground">Capacidad: {space.capacity} personas</div>
+                </div>
+              </div>
+              {space.requiresApproval && <Badge variant="outline">Requiere aprobación</Badge>}
+            </label>
+          ))}
+        </CardContent>
+      </Card>
+
+      {services.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Equipos y Servicios
+            </CardTitle>
+            <CardDescription>Proyectores, catering y otros servicios para el evento</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {services.map(service => (
+              <div key={service.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <div className="font-medium">{service.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    ${service.price.toFixed(2)}{service.unit ? ` / ${service.unit}` : ''}
+                    {service.inventoryQuantity ? ` • ${service.inventoryQuantity} unidades` : ''}
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={service.inventoryQuantity || undefined}
+                  className="w-20"
+                  value={quantities[service.id] || 0}
+                  onChange={(e) => updateQuantity(service.id, e.target.value)}
+                />
+              </div>
+            ))}
+            <div className="space-y-2 pt-2">
+              <label className="text-sm font-medium">Código de descuento (opcional)</label>
+              <Input value={discountCode} onChange={(e) => setDiscountCode(e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {(unavailable.length > 0 || shortages.length > 0) && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="space-y-1">
+              {unavailable.map(item => (
+                <li key={item.spaceId}>
+                  {item.spaceName}: {UNAVAILABLE_LABELS[item.reason] || item.reason}
+                </li>
+              ))}
+              {shortages.map(shortage => (
+                <li key={shortage.serviceId}>
+                  {shortage.name}: solo quedan {shortage.available} de {shortage.requested} unidades solicitadas
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end">
+        <Button disabled={isProcessing || !title || !date || spaceIds.length === 0} onClick={handleSubmit}>
+          {isProcessing ? 'Reservando...' : `Reservar ${spaceIds.length} Espacio${spaceIds.length === 1 ? '' : 's'}`}
+        </Button>
+      </div>
+    </div>
+  )
+}
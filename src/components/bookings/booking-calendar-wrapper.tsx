@@ -17,6 +17,7 @@ interface Booking {
   status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED'
   attendeeCount?: number
   isRecurring?: boolean
+  seriesId?: string
   color?: string
 }
 
@@ -4,7 +4,7 @@ import { useCallback, useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Calendar, Clock, MapPin, Users, Plus, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Calendar, Users, Plus, Repeat } from 'lucide-react'
 import { Skeleton } from '@/components/ui/skeleton'
 import { darkenColor, lightenColor } from '@/lib/utils/colors'
 
@@ -25,6 +25,7 @@ interface Booking {
   status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED'
   attendeeCount?: number
   isRecurring?: boolean
+  seriesId?: string
   color?: string
 }
 
@@ -100,6 +101,11 @@ export function BookingCalendar({
     ? bookings
     : bookings.filter(b => b.spaceId === selectedSpace)
 
+  // Occurrences of the same recurring series share a seriesId
+  const seriesCount = new Set(
+    filteredBookings.filter(b => b.seriesId).map(b => b.seriesId)
+  ).size
+
   const calendarEvents = filteredBookings.map(booking => {
     let backgroundColor = getBookingColor(booking, spaces)
     let borderColor = darkenColor(backgroundColor, 15)
@@ -132,7 +138,9 @@ export function BookingCalendar({
       end: booking.end,
       backgroundColor,
       borderColor,
-      className: `booking-${booking.status?.toLowerCase() || 'confirmed'}`,
+      // Group series occurrences so FullCalendar treats them as one recurring event
+      groupId: booking.seriesId,
+      className: `booking-${booking.status?.toLowerCase() || 'confirmed'}${booking.seriesId ? ' booking-series' : ''}`,
       extendedProps: {
         booking: {
           ...booking,
@@ -200,6 +208,7 @@ export function BookingCalendar({
             </CardTitle>
             <CardDescription>
               {filteredBookings.length} reservas en el calendario
+              {seriesCount > 0 && ` · ${seriesCount} ${seriesCount === 1 ? 'serie recurrente' : 'series recurrentes'}`}
             </CardDescription>
           </div>
 
@@ -299,7 +308,12 @@ export function BookingCalendar({
 
               return (
                 <div className="p-1 text-xs">
-                  <div className="font-semibold truncate">{eventInfo.event.title}</div>
+                  <div className="font-semibold truncate flex items-center gap-1">
+                    {booking.isRecurring && <Repeat className="h-3 w-3 shrink-0" aria-label="Reserva recurrente" />}
+                    <span className={booking.status === 'CANCELLED' ? 'truncate line-through' : 'truncate'}>
+                      {eventInfo.event.title}
+                    </span>
+                  </div>
                   <div className="text-[10px] opacity-90 truncate">
                     {booking.spaceName || 'Espacio no asignado'}
                   </div>
@@ -0,0 +1,225 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { XCircle } from 'lucide-react'
+import { deleteBookingAction, previewBookingCancellationAction } from '@/lib/actions/booking'
+import type { CancellationReason, RefundPreference } from '@/lib/validations/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface BookingCancelDialogProps {
+  booking: any
+}
+
+const REASON_LABELS: Partial<Record<CancellationReason, string>> = {
+  CLIENT_REQUEST: 'Solicitud del cliente',
+  SPACE_UNAVAILABLE: 'Espacio no disponible',
+  MAINTENANCE: 'Mantenimiento',
+  EMERGENCY: 'Emergencia',
+  OTHER: 'Otro motivo',
+}
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  REFUND: 'Reembolso al medio de pago',
+  CREDIT: 'Crédito en la cuenta',
+  NONE: 'Sin devolución',
+}
+
+export function BookingCancelDialog({ booking }: BookingCancelDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [preview, setPreview] = useState<any>(null)
+  const [reason, setReason] = useState<CancellationReason>('CLIENT_REQUEST')
+  const [refundMethod, setRefundMethod] = useState<RefundPreference>('REFUND')
+
+  const loadPreview = async (method: RefundPreference) => {
+    setIsLoading(true)
+
+    try {
+      const result = await previewBookingCancellationAction({ id: booking.id, refundMethod: method })
+
+      if (result.success) {
+        setPreview(result.data)
+      } else {
+        toast.error(result.error || 'Error al calcular la cancelación')
+      }
+    } catch (error) {
+      console.error('Error previewing cancellation:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpen = async () => {
+    setOpen(true)
+    await loadPreview(refundMethod)
+  }
+
+  const handleRefundMethodChange = async (value: RefundPreference) => {
+    setRefundMethod(value)
+    await loadPreview(value)
+  }
+
+  const handleCancel = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await deleteBookingAction({
+        id: booking.id,
+        reason,
+        refundMethod,
+      })
+
+      if (result.success) {
+        const cancellation = result.data?.cancellation
+        if (cancellation?.resolution === 'REFUND') {
+          toast.success(`Reserva cancelada. Se reembolsarán $${cancellation.refundAmount.toFixed(2)}`)
+        } else if (cancellation?.resolution === 'CREDIT') {
+          toast.success(`Reserva cancelada. Se abonaron $${cancellation.refundAmount.toFixed(2)} en crédito`)
+        } else {
+          toast.success('Reserva cancelada')
+        }
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al cancelar la reserva')
+      }
+    } catch (error) {
+      console.error('Error cancelling booking:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const outcome = preview?.outcome
+
+  return (
+    <>
+      <Button variant="destructive" onClick={handleOpen}>
+        <XCircle className="h-4 w-4 mr-1" />Cancelar Reserva
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Reserva</DialogTitle>
+            <DialogDescription>
+              {preview?.policy
+                ? `Se aplica la política de cancelación "${preview.policy.name}"`
+                : 'Revisa los detalles antes de confirmar la cancelación'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Motivo</label>
+              <Select value={reason} onValueChange={(value) => setReason(value as CancellationReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading && (
+              <p className="text-sm text-muted-foreground">Calculando reembolso...</p>
+            )}
+
+            {!isLoading && outcome && (
+              <div className="space-y-2 text-sm border rounded-lg p-3">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Aviso de cancelación</span>
+                  <span>{outcome.noticeHours.toFixed(1)} h</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Monto pagado</span>
+                  <span>${outcome.paidAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Reembolso</span>
+                  <span>{outcome.refundPercent}%</span>
+                </div>
+                {outcome.feeAmount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Cargo por cancelación tardía</span>
+                    <span>-${outcome.feeAmount.toFixed(2)}</span>
+                  </div>
+                )}
+                <Separator />
+                <div className="flex justify-between font-medium">
+                  <span>{RESOLUTION_LABELS[outcome.resolution]}</span>
+                  <span>${outcome.refundAmount.toFixed(2)}</span>
+                </div>
+                {outcome.outstandingFee > 0 && (
+                  <p className="text-red-600">
+                    Se facturarán ${outcome.outstandingFee.toFixed(2)} del cargo no cubierto por el reembolso
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!isLoading && preview?.policy?.refundMethod === 'CHOICE' && outcome?.refundAmount > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Recibir devolución como</label>
+                <Select value={refundMethod} onValueChange={(value) => handleRefundMethodChange(value as RefundPreference)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="REFUND">{RESOLUTION_LABELS.REFUND}</SelectItem>
+                    <SelectItem value="CREDIT">{RESOLUTION_LABELS.CREDIT}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isProcessing}
+            >
+              Volver
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isProcessing || isLoading}
+              onClick={handleCancel}
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              {isProcessing ? 'Procesando...' : 'Confirmar Cancelación'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
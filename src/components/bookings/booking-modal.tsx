@@ -19,10 +19,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Calendar, Clock, Users, MapPin, AlertCircle } from 'lucide-react'
+import { Calendar, Clock, Users, MapPin, AlertCircle, ListPlus } from 'lucide-react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
-import { createBookingAction } from '@/lib/actions/booking'
+import { createBookingAction, calculateBookingPriceAction, checkBookingPolicyAction, joinWaitlistAction } from '@/lib/actions/booking'
+import type { BookingPriceBreakdown } from '@/lib/utils/pricing-integration'
+import type { BookingPolicyViolation } from '@/lib/utils/booking-policy'
 import { toast } from 'sonner'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/clerk-auth-context'
@@ -49,6 +51,10 @@ export function BookingModal({
   const router = useRouter()
   const { user } = useAuth()
   const [loading, setLoading] = useState(false)
+  const [pricePreview, setPricePreview] = useState<BookingPriceBreakdown | null>(null)
+  const [priceError, setPriceError] = useState<string | null>(null)
+  const [policyViolations, setPolicyViolations] = useState<BookingPolicyViolation[]>([])
+  const [slotTaken, setSlotTaken] = useState(false)
   const [formData, setFormData] = useState({
     spaceId: selectedSpaceId || '',
     date: format(selectedDate, 'yyyy-MM-dd'),
@@ -59,6 +65,7 @@ export function BookingModal({
     attendees: 1,
     isRecurring: false,
     requiresApproval: false,
+    discountCode: '',
   })
 
   // Update form data when props change
@@ -82,6 +89,7 @@ export function BookingModal({
         attendees: 1, // Always start with 1 attendee
         isRecurring: false,
         requiresApproval: false,
+        discountCode: '',
       }
 
       console.log('BookingModal - Setting form data:', newFormData)
@@ -91,6 +99,58 @@ export function BookingModal({
 
   const selectedSpace = spaces.find(s => s.id === formData.spaceId)
 
+  // Recalculate the price preview whenever the slot or discount code changes
+  React.useEffect(() => {
+    setSlotTaken(false)
+
+    if (!open || !formData.spaceId) {
+      setPricePreview(null)
+      setPolicyViolations([])
+      return
+    }
+
+    const startDateTime = new Date(`${formData.date}T${formData.startTime}`)
+    const endDateTime = new Date(`${formData.date}T${formData.endTime}`)
+    if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime()) || endDateTime <= startDateTime) {
+      setPricePreview(null)
+      setPolicyViolations([])
+      return
+    }
+
+    let cancelled = false
+    calculateBookingPriceAction({
+      spaceId: formData.spaceId,
+      startTime: startDateTime,
+      endTime: endDateTime,
+      services: [],
+      discountCode: formData.discountCode.trim() || undefined,
+    }).then(result => {
+      if (cancelled) return
+      if (result.success && result.data) {
+        setPricePreview(result.data)
+        setPriceError(null)
+      } else {
+        setPricePreview(null)
+        setPriceError(result.error || null)
+      }
+    })
+
+    checkBookingPolicyAction({
+      spaceId: formData.spaceId,
+      startTime: startDateTime,
+      endTime: endDateTime,
+      isRecurring: false,
+      language: 'es',
+    }).then(result => {
+      if (cancelled) return
+      setPolicyViolations(result.success ? result.data?.violations || [] : [])
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, formData.spaceId, formData.date, formData.startTime, formData.endTime, formData.discountCode])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     console.log('BookingModal - Submit triggered with formData:', formData)
@@ -178,6 +238,7 @@ export function BookingModal({
         endTime: endDateTime,
         title: formData.title || `Reserva de ${selectedSpace?.name}`,
         description: formData.description,
+        discountCode: formData.discountCode.trim() || undefined,
         metadata: {
           attendees: formData.attendees,
         },
@@ -194,7 +255,15 @@ export function BookingModal({
         router.refresh()
       } else {
         console.log('BookingModal - Booking creation failed:', result.error)
-        toast.error(result.error || 'Error al crear la reserva')
+        if (result.details?.violations?.length) {
+          setPolicyViolations(result.details.violations)
+          toast.error('La reserva no cumple las políticas del espacio')
+        } else if (result.details?.conflicts?.length || result.details?.holdExpiresAt) {
+          setSlotTaken(true)
+          toast.error('El horario seleccionado ya está reservado')
+        } else {
+          toast.error(result.error || 'Error al crear la reserva')
+        }
       }
     } catch (error) {
       console.error('BookingModal - Error creating booking:', error)
@@ -204,6 +273,34 @@ export function BookingModal({
     }
   }
 
+  const handleJoinWaitlist = async () => {
+    setLoading(true)
+
+    try {
+      const result = await joinWaitlistAction({
+        spaceId: formData.spaceId,
+        title: formData.title || `Reserva de ${selectedSpace?.name}`,
+        startTime: new Date(`${formData.date}T${formData.startTime}`),
+        endTime: new Date(`${formData.date}T${formData.endTime}`),
+        notes: formData.description || undefined,
+        autoConfirm: false,
+      })
+
+      if (result.success) {
+        toast.success(`Te uniste a la lista de espera (posición ${result.data?.position})`)
+        onOpenChange(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al unirse a la lista de espera')
+      }
+    } catch (error) {
+      console.error('BookingModal - Error joining waitlist:', error)
+      toast.error('Error al unirse a la lista de espera')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl">
@@ -294,6 +391,16 @@ export function BookingModal({
               </div>
             </div>
           </div>
+          {policyViolations.length > 0 && (
+            <div className="space-y-1">
+              {policyViolations.map((violation, index) => (
+                <p key={`${violation.code}-${index}`} className="text-sm text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {violation.message}
+                </p>
+              ))}
+            </div>
+          )}
 
           {/* Title and Description */}
           <div className="space-y-2">
@@ -340,6 +447,23 @@ export function BookingModal({
             )}
           </div>
 
+          {/* Discount Code */}
+          <div className="space-y-2">
+            <Label htmlFor="discountCode">Código de Descuento</Label>
+            <Input
+              id="discountCode"
+              value={formData.discountCode}
+              onChange={(e) => setFormData(prev => ({ ...prev, discountCode: e.target.value }))}
+              placeholder="Opcional"
+            />
+            {priceError && formData.discountCode && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {priceError}
+              </p>
+            )}
+          </div>
+
           {/* Space Info */}
           {selectedSpace && (
             <div className="bg-muted p-4 rounded-lg space-y-2">
@@ -359,6 +483,20 @@ export function BookingModal({
                     {selectedSpace.floor}
                   </div>
                 )}
+                {pricePreview && (
+                  <div className="col-span-2 border-t pt-2 space-y-1">
+                    {pricePreview.lines.map((line, index) => (
+                      <div key={index} className="flex justify-between">
+                        <span className="text-muted-foreground">{line.description}</span>
+                        <span>{line.amount < 0 ? '-' : ''}${Math.abs(line.amount).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-medium">
+                      <span>Total estimado</span>
+                      <span>${pricePreview.total.toFixed(2)} {pricePreview.currency}</span>
+                    </div>
+                  </div>
+                )}
                 {selectedSpace.requiresApproval && (
                   <div className="col-span-2">
                     <span className="text-warning flex items-center gap-1">
@@ -371,6 +509,19 @@ export function BookingModal({
             </div>
           )}
 
+          {/* Waitlist for a taken slot */}
+          {slotTaken && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm">
+              <span className="text-yellow-800">
+                Este horario ya está ocupado. Puedes esperar a que se libere y te avisaremos.
+              </span>
+              <Button type="button" size="sm" variant="outline" onClick={handleJoinWaitlist} disabled={loading}>
+                <ListPlus className="h-4 w-4 mr-1" />
+                Unirse a la lista de espera
+              </Button>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end gap-2 pt-4">
             <Button
@@ -383,7 +534,7 @@ export function BookingModal({
             </Button>
             <Button
               type="submit"
-              disabled={loading || (selectedSpace && formData.attendees > selectedSpace.capacity)}
+              disabled={loading || policyViolations.length > 0 || (selectedSpace && formData.attendees > selectedSpace.capacity)}
             >
               {loading ? 'Creando...' : 'Crear Reserva'}
             </Button>
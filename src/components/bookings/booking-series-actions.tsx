@@ -0,0 +1,173 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CalendarPlus, XCircle } from 'lucide-react'
+import { addMonths } from 'date-fns'
+import { cancelBookingSeriesAction, generateRecurringBookingsAction } from '@/lib/actions/booking'
+import type { SeriesEditScope } from '@/lib/validations/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface BookingSeriesActionsProps {
+  booking: any
+}
+
+const SCOPE_LABELS: Record<SeriesEditScope, string> = {
+  THIS: 'Solo esta reserva',
+  FOLLOWING: 'Esta y las siguientes',
+  ALL: 'Toda la serie',
+}
+
+export function BookingSeriesActions({ booking }: BookingSeriesActionsProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [showCancelDialog, setShowCancelDialog] = useState(false)
+  const [scope, setScope] = useState<SeriesEditScope>('THIS')
+
+  const handleGenerate = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await generateRecurringBookingsAction({
+        templateBookingId: booking.id,
+        generateUntil: addMonths(new Date(), 3),
+        maxBookings: 100,
+        skipConflicts: true,
+        notifyConflicts: true,
+        dryRun: false,
+      })
+
+      if (result.success) {
+        const created = result.data?.created?.length || 0
+        const conflicts = result.data?.conflicts?.length || 0
+        toast.success(`${created} reservas generadas para los próximos 3 meses`)
+        if (conflicts > 0) {
+          toast.warning(`${conflicts} fechas se omitieron por conflictos con otras reservas`)
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al generar las reservas de la serie')
+      }
+    } catch (error) {
+      console.error('Error generating series:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    setIsProcessing(true)
+
+    try {
+      const result = await cancelBookingSeriesAction({
+        id: booking.id,
+        scope,
+      })
+
+      if (result.success) {
+        toast.success(`${result.data?.cancelled?.length || 0} reservas canceladas`)
+        setShowCancelDialog(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Error al cancelar la serie')
+      }
+    } catch (error) {
+      console.error('Error cancelling series:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-4">
+        {booking.recurrence && (
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={isProcessing}
+            onClick={handleGenerate}
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            {isProcessing ? 'Procesando...' : 'Generar Próximas Fechas'}
+          </Button>
+        )}
+
+        <Button
+          variant="destructive"
+          className="flex-1"
+          disabled={isProcessing}
+          onClick={() => setShowCancelDialog(true)}
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Cancelar Reservas
+        </Button>
+      </div>
+
+      <Dialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Reserva Recurrente</DialogTitle>
+            <DialogDescription>
+              Esta reserva forma parte de una serie. Elige qué reservas quieres cancelar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Aplicar a</label>
+              <Select value={scope} onValueChange={(value) => setScope(value as SeriesEditScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowCancelDialog(false)}
+              disabled={isProcessing}
+            >
+              Volver
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isProcessing}
+              onClick={handleCancel}
+            >
+              <XCircle className="h-4 w-4 mr-1" />
+              {isProcessing ? 'Procesando...' : 'Confirmar Cancelación'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
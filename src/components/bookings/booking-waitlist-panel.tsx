@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { CheckCircle, Clock, ListPlus, LogOut, RefreshCw, XCircle } from 'lucide-react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import {
+  acceptWaitlistOfferAction,
+  joinWaitlistAction,
+  leaveWaitlistAction,
+  processWaitlistOffersAction,
+} from '@/lib/actions/booking'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface BookingWaitlistPanelProps {
+  entries: any[]
+  booking?: any // When set, members can join the waitlist for this booking's slot
+  currentUserId?: string
+  isAdmin?: boolean
+  showSpace?: boolean
+}
+
+const STATUS_LABELS: Record<string, { text: string; color: string }> = {
+  WAITING: { text: 'En espera', color: 'bg-blue-100 text-blue-800' },
+  OFFERED: { text: 'Cupo ofrecido', color: 'bg-green-100 text-green-800' },
+  CONFIRMED: { text: 'Confirmada', color: 'bg-gray-100 text-gray-800' },
+  EXPIRED: { text: 'Expirada', color: 'bg-gray-100 text-gray-800' },
+  CANCELLED: { text: 'Cancelada', color: 'bg-red-100 text-red-800' },
+}
+
+export function BookingWaitlistPanel({
+  entries,
+  booking,
+  currentUserId,
+  isAdmin = false,
+  showSpace = false,
+}: BookingWaitlistPanelProps) {
+  const router = useRouter()
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [autoConfirm, setAutoConfirm] = useState(false)
+
+  const hasOwnEntry = entries.some(entry => entry.isOwn)
+  const canJoin = booking &&
+    booking.userId !== currentUserId &&
+    !hasOwnEntry &&
+    ['PENDING', 'CONFIRMED'].includes(booking.status) &&
+    new Date(booking.startTime) > new Date()
+
+  const runAction = async (action: () => Promise<any>, successMessage: string, errorMessage: string) => {
+    setIsProcessing(true)
+
+    try {
+      const result = await action()
+
+      if (result.success) {
+        toast.success(successMessage)
+        router.refresh()
+      } else {
+        toast.error(result.error || errorMessage)
+      }
+    } catch (error) {
+      console.error('Error processing waitlist action:', error)
+      toast.error('Error al procesar la solicitud')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleJoin = () => runAction(
+    () => joinWaitlistAction({
+      spaceId: booking.spaceId,
+      title: booking.title,
+      startTime: new Date(booking.startTime),
+      endTime: new Date(booking.endTime),
+      autoConfirm,
+    }),
+    'Te uniste a la lista de espera',
+    'Error al unirse a la lista de espera'
+  )
+
+  const handleAccept = (id: string) => runAction(
+    () => acceptWaitlistOfferAction({ id }),
+    'Reserva confirmada',
+    'Error al aceptar el cupo'
+  )
+
+  const handleLeave = (entry: any) => runAction(
+    () => leaveWaitlistAction({ id: entry.id }),
+    entry.status === 'OFFERED' ? 'Cupo liberado para el siguiente en la lista' : 'Saliste de la lista de espera',
+    'Error al salir de la lista de espera'
+  )
+
+  const handleProcess = () => runAction(
+    () => processWaitlistOffersAction(),
+    'Ofertas vencidas procesadas',
+    'Error al procesar la lista de espera'
+  )
+
+  const formatSlot = (entry: any) => {
+    const start = new Date(entry.startTime)
+    const end = new Date(entry.endTime)
+    return `${format(start, "d 'de' MMM, HH:mm", { locale: es })} - ${format(end, 'HH:mm')}`
+  }
+
+  return (
+    <div className="space-y-4">
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No hay personas en la lista de espera</p>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => {
+            const status = STATUS_LABELS[entry.status] || STATUS_LABELS.WAITING
+
+            return (
+              <div key={entry.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">#{entry.position}</span>
+                    <span className="text-sm">
+                      {entry.user
+                        ? `${entry.user.firstName} ${entry.user.lastName}`
+                        : 'Otro miembro'}
+                      {entry.isOwn && ' (tú)'}
+                    </span>
+                    <Badge className={status.color}>{status.text}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {showSpace && entry.space ? `${entry.space.name} • ` : ''}
+                    {formatSlot(entry)}
+                  </p>
+                  {entry.status === 'OFFERED' && entry.offerExpiresAt && (
+                    <p className="flex items-center gap-1 text-xs text-green-700">
+                      <Clock className="h-3 w-3" />
+                      Reservado hasta las {format(new Date(entry.offerExpiresAt), 'HH:mm')}
+                      {entry.autoConfirm && ' • se confirmará automáticamente'}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {entry.isOwn && entry.status === 'OFFERED' && (
+                    <Button size="sm" disabled={isProcessing} onClick={() => handleAccept(entry.id)}>
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Aceptar
+                    </Button>
+                  )}
+                  {(entry.isOwn || isAdmin) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isProcessing}
+                      onClick={() => handleLeave(entry)}
+                    >
+                      {entry.isOwn ? (
+                        <>
+                          <LogOut className="h-4 w-4 mr-1" />
+                          {entry.status === 'OFFERED' ? 'Rechazar' : 'Salir'}
+                        </>
+                      ) : (
+                        <>
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Quitar
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {canJoin && (
+        <div className="flex items-center justify-between gap-4 rounded-lg bg-muted/50 p-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={autoConfirm} onCheckedChange={setAutoConfirm} />
+            Confirmar automáticamente si se libera
+          </label>
+          <Button size="sm" variant="outline" disabled={isProcessing} onClick={handleJoin}>
+            <ListPlus className="h-4 w-4 mr-1" />
+            Unirse a la lista de espera
+          </Button>
+        </div>
+      )}
+
+      {isAdmin && entries.some(entry => entry.status === 'OFFERED') && (
+        <Button variant="outline" size="sm" disabled={isProcessing} onClick={handleProcess}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Procesar ofertas vencidas
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -28,7 +28,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { RotateCcw, Calendar, Clock, AlertCircle } from 'lucide-react'
-import { format, addDays, addWeeks, addMonths } from 'date-fns'
+import { format } from 'date-fns'
+import { expandRecurrence } from '@/lib/utils/recurrence'
 
 const recurringBookingSchema = z.object({
   enabled: z.boolean().default(false),
@@ -79,51 +80,16 @@ export function RecurringBookingForm({
       return
     }
 
-    const dates: Date[] = [startDate]
-    let currentDate = new Date(startDate)
-    let count = 0
-    const maxPreview = 10 // Limit preview to 10 dates
+    // Use the same expansion as the server so the preview matches the generated series
+    const occurrences = expandRecurrence({
+      pattern: data.frequency,
+      interval: data.interval,
+      daysOfWeek: data.frequency === 'WEEKLY' ? data.daysOfWeek : undefined,
+      endDate: data.endType === 'DATE' ? data.endDate : undefined,
+      occurrences: data.endType === 'COUNT' ? data.occurrences : undefined,
+    }, startDate, endDate.getTime() - startDate.getTime(), { limit: 11 }) // Limit preview to 10 dates
 
-    while (count < maxPreview) {
-      let nextDate: Date
-
-      switch (data.frequency) {
-        case 'DAILY':
-          nextDate = addDays(currentDate, data.interval)
-          break
-        case 'WEEKLY':
-          nextDate = addWeeks(currentDate, data.interval)
-          break
-        case 'MONTHLY':
-          nextDate = addMonths(currentDate, data.interval)
-          break
-        default:
-          return
-      }
-
-      // Check end conditions
-      if (data.endType === 'DATE' && data.endDate && nextDate > data.endDate) {
-        break
-      }
-      if (data.endType === 'COUNT' && data.occurrences && dates.length >= data.occurrences) {
-        break
-      }
-
-      // For weekly frequency, check days of week
-      if (data.frequency === 'WEEKLY' && data.daysOfWeek && data.daysOfWeek.length > 0) {
-        if (data.daysOfWeek.includes(nextDate.getDay())) {
-          dates.push(nextDate)
-          count++
-        }
-      } else {
-        dates.push(nextDate)
-        count++
-      }
-
-      currentDate = nextDate
-    }
-
-    setPreviewDates(dates.slice(1)) // Exclude the first date (original booking)
+    setPreviewDates(occurrences.slice(1).map(occurrence => occurrence.startTime)) // Exclude the first date (original booking)
   }
 
   // Update preview when form values change
@@ -261,13 +261,13 @@ export default function CreateClientModal({
             <div className="grid grid-cols-2 gap-4 bg-gradient-to-r from-blue-50/50 to-indigo-50/50 p-4 rounded-lg border border-blue-200">
               <div className="space-y-2">
                 <Label htmlFor="taxId" className="text-sm font-medium text-foreground">
-                  NIT / RUT
+                  RUT
                 </Label>
                 <Input
                   id="taxId"
                   value={formData.taxId}
                   onChange={(e) => handleInputChange('taxId', e.target.value)}
-                  placeholder="900.123.456-7"
+                  placeholder="76.123.456-7"
                   className="h-11"
                 />
               </div>
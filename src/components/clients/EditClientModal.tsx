@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { 
   Loader2, 
   Building2,
@@ -43,6 +44,7 @@ interface EditClientForm {
   phone: string;
   address: string;
   taxId: string;
+  taxExempt: boolean;
   contactPerson: string;
   status: ClientStatus;
   notes: string;
@@ -61,6 +63,7 @@ export default function EditClientModal({
     phone: '',
     address: '',
     taxId: '',
+    taxExempt: false,
     contactPerson: '',
     status: 'LEAD',
     notes: '',
@@ -76,6 +79,7 @@ export default function EditClientModal({
         phone: client.phone || '',
         address: client.address || '',
         taxId: client.taxId || '',
+        taxExempt: client.taxExempt ?? false,
         contactPerson: client.contactPerson || '',
         status: client.status,
         notes: client.notes || '',
@@ -83,7 +87,7 @@ export default function EditClientModal({
     }
   }, [isOpen, client]);
 
-  const handleInputChange = (field: keyof EditClientForm, value: string) => {
+  const handleInputChange = (field: Exclude<keyof EditClientForm, 'taxExempt'>, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
@@ -111,6 +115,9 @@ export default function EditClientModal({
       if (formData.taxId !== (client.taxId || '')) {
         updateData.taxId = formData.taxId || undefined;
       }
+      if (formData.taxExempt !== (client.taxExempt ?? false)) {
+        updateData.taxExempt = formData.taxExempt;
+      }
       if (formData.contactPerson !== (client.contactPerson || '')) {
         updateData.contactPerson = formData.contactPerson || undefined;
       }
@@ -289,13 +296,13 @@ export default function EditClientModal({
             <div className="grid grid-cols-2 gap-4 bg-gradient-to-r from-blue-50/50 to-indigo-50/50 p-4 rounded-lg border border-blue-200">
               <div className="space-y-2">
                 <Label htmlFor="taxId" className="text-sm font-medium text-foreground">
-                  NIT / RUT
+                  RUT
                 </Label>
                 <Input
                   id="taxId"
                   value={formData.taxId}
                   onChange={(e) => handleInputChange('taxId', e.target.value)}
-                  placeholder="900.123.456-7"
+                  placeholder="76.123.456-7"
                   className="h-11"
                 />
               </div>
@@ -323,6 +330,22 @@ export default function EditClientModal({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="col-span-2 flex items-center justify-between">
+                <div>
+                  <Label htmlFor="taxExempt" className="text-sm font-medium text-foreground">
+                    Exento de impuestos
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Solo se aplica mientras el cliente tenga RUT
+                  </p>
+                </div>
+                <Switch
+                  id="taxExempt"
+                  checked={formData.taxExempt}
+                  disabled={!formData.taxId.trim() && !formData.taxExempt}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, taxExempt: checked }))}
+                />
+              </div>
             </div>
           </div>
 
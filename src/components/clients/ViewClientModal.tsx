@@ -158,7 +158,7 @@ export default function ViewClientModal({
             <div className="grid grid-cols-2 gap-4 bg-gradient-to-r from-blue-50/50 to-indigo-50/50 p-4 rounded-lg border border-blue-200">
               <div className="space-y-2">
                 <label className="text-sm font-medium text-foreground">
-                  NIT / RUT
+                  RUT
                 </label>
                 <div className="p-3 bg-white rounded-md border text-sm">
                   {client.taxId || (
@@ -11,6 +11,8 @@ import {
 import { EndUserOnly } from "@/components/rbac/role-gate";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { getBookingCreditBalanceAction } from "@/lib/actions/booking";
+import { format } from "date-fns";
 import {
   Calendar,
   MapPin,
@@ -36,7 +38,6 @@ export function EndUserDashboard({ className = "" }: EndUserDashboardProps) {
   const [userMetrics, setUserMetrics] = useState({
     upcomingBookings: 0,
     totalBookings: 0,
-    creditsRemaining: 0,
     membershipDays: 0,
     favoriteSpaces: 0,
     hoursThisMonth: 0,
@@ -117,12 +118,22 @@ export function EndUserDashboard({ className = "" }: EndUserDashboardProps) {
     },
   ]);
 
+  const [creditBalance, setCreditBalance] = useState<any>(null);
+
+  // Meeting-room credits of the member's plan for the current billing period
+  useEffect(() => {
+    getBookingCreditBalanceAction().then((result) => {
+      if (result.success) {
+        setCreditBalance(result.data);
+      }
+    });
+  }, []);
+
   // Mock data - in real app, this would come from API
   useEffect(() => {
     setUserMetrics({
       upcomingBookings: 3,
       totalBookings: 24,
-      creditsRemaining: 15,
       membershipDays: 127,
       favoriteSpaces: 4,
       hoursThisMonth: 42,
@@ -209,8 +220,18 @@ export function EndUserDashboard({ className = "" }: EndUserDashboardProps) {
 
           <MetricWidget
             title="Credits Remaining"
-            value={userMetrics.creditsRemaining}
-            description="This month"
+            value={
+              creditBalance
+                ? creditBalance.unit === "HOURS"
+                  ? `${creditBalance.available} h`
+                  : `$${creditBalance.available.toFixed(2)}`
+                : 0
+            }
+            description={
+              creditBalance
+                ? `Meeting rooms, until ${format(new Date(creditBalance.periodEnd), "MMM d")}`
+                : "No meeting-room credits in your plan"
+            }
             icon={<CreditCard className="h-4 w-4" />}
           />
 
@@ -408,14 +429,21 @@ export function EndUserDashboard({ className = "" }: EndUserDashboardProps) {
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="text-center">
-                <div className="text-2xl font-bold text-blue-600">Premium</div>
+                <div className="text-2xl font-bold text-blue-600">
+                  {creditBalance?.planName || "Premium"}
+                </div>
                 <p className="text-sm text-gray-600">Current Plan</p>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-green-600">
-                  {userMetrics.creditsRemaining}
+                  {creditBalance
+                    ? `${creditBalance.available} / ${creditBalance.granted + creditBalance.rolledOver}${creditBalance.unit === "HOURS" ? " h" : ""}`
+                    : 0}
                 </div>
-                <p className="text-sm text-gray-600">Credits Remaining</p>
+                <p className="text-sm text-gray-600">
+                  Credits Remaining
+                  {creditBalance?.rolledOver > 0 && ` (${creditBalance.rolledOver} rolled over)`}
+                </p>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">
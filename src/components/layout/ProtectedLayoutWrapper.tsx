@@ -44,6 +44,7 @@ export default function ProtectedLayoutWrapper({
     if (pathname.startsWith('/analytics')) return 'Analítica'
     if (pathname.startsWith('/operations')) return 'Operaciones'
     if (pathname.startsWith('/billing')) return 'Facturación'
+    if (pathname.startsWith('/integrations')) return 'Integraciones'
     return ''
   }
 
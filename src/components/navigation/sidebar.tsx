@@ -40,7 +40,9 @@ import {
   Clock,
   Banknote,
   Settings2,
-  Headphones
+  Headphones,
+  Webhook,
+  KeyRound
 } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
 import { useI18n } from "@/lib/i18n";
@@ -107,6 +109,18 @@ const getAdminItems = () => [
     icon: Calendar,
     description: "Todas las reservas",
   },
+  {
+    title: "Webhooks",
+    href: "/integrations/webhooks",
+    icon: Webhook,
+    description: "Eventos a sistemas externos",
+  },
+  {
+    title: "API Keys",
+    href: "/integrations/api-keys",
+    icon: KeyRound,
+    description: "Acceso a la API REST",
+  },
 ];
 
 const getAccountItems = (t: (key: string) => string) => [
@@ -23,7 +23,7 @@ import {
   Info
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { createQuotationAction } from '@/lib/actions/quotations'
+import { createQuotationAction, previewQuotationTaxesAction } from '@/lib/actions/quotations'
 import { useApi } from '@/hooks/use-api'
 import ServiceSelector from '@/components/services/ServiceSelector'
 
@@ -46,6 +46,13 @@ interface SelectedService {
   metadata?: any
 }
 
+interface TaxPreview {
+  taxes: number
+  total: number
+  taxIncluded: boolean
+  breakdown: Array<{ taxRuleId: string | null; name: string; rate: number; taxAmount: number }>
+}
+
 const initialFormData = {
   title: '',
   description: '',
@@ -109,7 +116,41 @@ export default function CreateQuotationModal({
     }
   }, [isOpen, clientId])
 
-  // Calculate totals with automatic IVA
+  // Items as the quotation actions expect them
+  const quotationItems = React.useMemo(() => selectedServices.map(service => ({
+    serviceId: service.serviceId,
+    description: service.description,
+    quantity: parseInt(service.quantity.toString()) || 1,
+    unitPrice: parseFloat(service.unitPrice.toString()) || 0,
+    total: parseFloat(service.total.toString()) || 0,
+  })), [selectedServices])
+
+  // Taxes per item with the tax rules of the cowork, worked out on the server
+  const [taxPreview, setTaxPreview] = useState<TaxPreview | null>(null)
+  const previewClientId = formData.clientId || clientId
+
+  React.useEffect(() => {
+    if (!isOpen || quotationItems.length === 0) {
+      setTaxPreview(null)
+      return
+    }
+
+    let cancelled = false
+    previewQuotationTaxesAction({
+      clientId: previewClientId || undefined,
+      items: quotationItems,
+      discountType: formData.discountType,
+      discountValue: formData.discountValue,
+    }).then(result => {
+      if (!cancelled) setTaxPreview(result.success ? result.data : null)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, quotationItems, previewClientId, formData.discountType, formData.discountValue])
+
+  // Calculate totals
   const subtotal = selectedServices.reduce((sum, service) => sum + service.total, 0)
 
   // Calculate discount amount based on type
@@ -117,14 +158,10 @@ export default function CreateQuotationModal({
     ? (subtotal * formData.discountValue) / 100
     : formData.discountValue
 
-  // Calculate taxable amount (subtotal - discount)
-  const taxableAmount = Math.max(0, subtotal - discountAmount)
-
-  // Calculate IVA (19% of taxable amount)
-  const taxes = taxableAmount * 0.19
+  const taxes = taxPreview?.taxes ?? 0
 
   // Calculate total
-  const total = subtotal - discountAmount + taxes
+  const total = taxPreview?.total ?? Math.max(0, subtotal - discountAmount)
 
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }))
@@ -171,12 +208,7 @@ export default function CreateQuotationModal({
         leadId,
         title: formData.title,
         description: formData.description || undefined,
-        items: selectedServices.map(service => ({
-          description: service.description,
-          quantity: parseInt(service.quantity.toString()) || 1,
-          unitPrice: parseFloat(service.unitPrice.toString()) || 0,
-          total: parseFloat(service.total.toString()) || 0,
-        })),
+        items: quotationItems,
         discountType: formData.discountType,
         discountValue: formData.discountValue,
         currency: formData.currency,
@@ -489,9 +521,15 @@ export default function CreateQuotationModal({
                   </div>
                 )}
                 <div className="flex justify-between items-center text-orange-600">
-                  <span>Impuestos (IVA 19%):</span>
-                  <span>+${Math.round(taxes).toLocaleString()} {formData.currency}</span>
+                  <span>Impuestos{taxPreview?.taxIncluded && ' (incluidos en los precios)'}:</span>
+                  <span>{taxPreview?.taxIncluded ? '' : '+'}${Math.round(taxes).toLocaleString()} {formData.currency}</span>
                 </div>
+                {taxPreview?.breakdown.filter(entry => entry.taxAmount > 0).map(entry => (
+                  <div key={`${entry.taxRuleId}-${entry.rate}`} className="flex justify-between items-center text-sm text-muted-foreground">
+                    <span>{entry.name} ({entry.rate}%)</span>
+                    <span>${Math.round(entry.taxAmount).toLocaleString()} {formData.currency}</span>
+                  </div>
+                ))}
                 <Separator />
                 <div className="flex justify-between items-center text-lg font-semibold">
                   <span>Total:</span>
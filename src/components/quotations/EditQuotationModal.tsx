@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -21,7 +21,7 @@ import {
   Save
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { updateQuotationAction } from '@/lib/actions/quotations'
+import { previewQuotationTaxesAction, updateQuotationAction } from '@/lib/actions/quotations'
 import ServiceSelector from '@/components/services/ServiceSelector'
 
 interface Quotation {
@@ -51,6 +51,14 @@ interface QuotationItem {
   quantity: number
   unitPrice: number
   total: number
+  taxRuleId?: string | null
+}
+
+interface TaxPreview {
+  taxes: number
+  total: number
+  taxIncluded: boolean
+  breakdown: Array<{ taxRuleId: string | null; name: string; rate: number; taxAmount: number }>
 }
 
 interface EditQuotationModalProps {
@@ -113,14 +121,49 @@ export default function EditQuotationModal({
         total: Number(item.total),
         metadata: {
           originalItemId: item.id,
-          isExisting: !!item.id
+          isExisting: !!item.id,
+          taxRuleId: item.taxRuleId
         }
       }))
       setSelectedServices(services)
     }
   }, [isOpen, quotation])
 
-  // Calculate totals with automatic IVA
+  // Items as the quotation actions expect them. Existing items keep the tax rule they were priced with
+  const quotationItems = useMemo(() => selectedServices.map(service => ({
+    serviceId: service.metadata?.isExisting ? undefined : service.serviceId,
+    description: service.description,
+    quantity: Number(service.quantity),
+    unitPrice: Number(service.unitPrice),
+    total: Number(service.total),
+    taxRuleId: service.metadata?.taxRuleId || undefined,
+  })), [selectedServices])
+
+  // Taxes per item with the tax rules of the cowork, worked out on the server
+  const [taxPreview, setTaxPreview] = useState<TaxPreview | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || !quotation || quotationItems.length === 0) {
+      setTaxPreview(null)
+      return
+    }
+
+    let cancelled = false
+    previewQuotationTaxesAction({
+      clientId: quotation.clientId,
+      items: quotationItems,
+      discountType: formData.discountType,
+      discountValue: formData.discountValue,
+    }).then(result => {
+      if (!cancelled) setTaxPreview(result.success ? result.data : null)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, quotation, quotationItems, formData.discountType, formData.discountValue])
+
+  // Calculate totals
   const subtotal = selectedServices.reduce((sum, service) => {
     // Ensure we're working with proper numbers, not Decimal objects
     const serviceTotal = typeof service.total === 'number' ? service.total : parseFloat(service.total?.toString() || '0')
@@ -132,14 +175,10 @@ export default function EditQuotationModal({
     ? (subtotal * formData.discountValue) / 100
     : formData.discountValue
 
-  // Calculate taxable amount (subtotal - discount)
-  const taxableAmount = Math.max(0, subtotal - discountAmount)
-
-  // Calculate IVA (19% of taxable amount)
-  const taxes = taxableAmount * 0.19
+  const taxes = taxPreview?.taxes ?? 0
 
   // Calculate total
-  const total = subtotal - discountAmount + taxes
+  const total = taxPreview?.total ?? Math.max(0, subtotal - discountAmount)
 
   const handleInputChange = (field: string, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }))
@@ -198,12 +237,7 @@ export default function EditQuotationModal({
         id: quotation.id,
         title: formData.title,
         description: formData.description || undefined,
-        items: selectedServices.map(service => ({
-          description: service.description,
-          quantity: Number(service.quantity),
-          unitPrice: Number(service.unitPrice),
-          total: Number(service.total),
-        })),
+        items: quotationItems,
         discountType: formData.discountType,
         discountValue: formData.discountValue,
         currency: formData.currency,
@@ -461,9 +495,15 @@ export default function EditQuotationModal({
                     </div>
                   )}
                   <div className="flex justify-between items-center text-orange-600">
-                    <span>Impuestos (IVA 19%):</span>
-                    <span>+${Math.round(taxes).toLocaleString()} {formData.currency}</span>
+                    <span>Impuestos{taxPreview?.taxIncluded && ' (incluidos en los precios)'}:</span>
+                    <span>{taxPreview?.taxIncluded ? '' : '+'}${Math.round(taxes).toLocaleString()} {formData.currency}</span>
                   </div>
+                  {taxPreview?.breakdown.filter(entry => entry.taxAmount > 0).map(entry => (
+                    <div key={`${entry.taxRuleId}-${entry.rate}`} className="flex justify-between items-center text-sm text-muted-foreground">
+                      <span>{entry.name} ({entry.rate}%)</span>
+                      <span>${Math.round(entry.taxAmount).toLocaleString()} {formData.currency}</span>
+                    </div>
+                  ))}
                   <Separator />
                   <div className="flex justify-between items-center text-lg font-semibold">
                     <span>Total:</span>
@@ -11,6 +11,7 @@ interface QuotationPDFProps {
     subtotal: number
     discounts: number
     taxes: number
+    taxIncluded?: boolean // Item prices already include the taxes
     total: number
     currency: string
     validUntil: string
@@ -474,9 +475,11 @@ const QuotationPDFTemplate: React.FC<QuotationPDFProps> = ({ quotation, coworkIn
             
             {quotation.taxes > 0 && (
               <View style={styles.totalRow}>
-                <Text style={styles.totalLabel}>Impuestos:</Text>
+                <Text style={styles.totalLabel}>
+                  {quotation.taxIncluded ? 'Impuestos incluidos:' : 'Impuestos:'}
+                </Text>
                 <Text style={[styles.totalAmount, { color: '#f97316' }]}>
-                  +{formatCurrency(quotation.taxes)}
+                  {quotation.taxIncluded ? '' : '+'}{formatCurrency(quotation.taxes)}
                 </Text>
               </View>
             )}
@@ -88,6 +88,7 @@ export default function CreateServiceModal({ isOpen, onClose, onServiceCreated }
     unit: 'unit',
     availability: 'BUSINESS_HOURS',
     maxQuantity: '',
+    inventoryQuantity: '',
     minimumOrder: '1',
     requiresApproval: false,
     estimatedDeliveryTime: '',
@@ -160,6 +161,7 @@ export default function CreateServiceModal({ isOpen, onClose, onServiceCreated }
         unit: formData.unit,
         availability: formData.availability,
         maxQuantity: formData.maxQuantity ? parseInt(formData.maxQuantity) : undefined,
+        inventoryQuantity: formData.inventoryQuantity ? parseInt(formData.inventoryQuantity) : undefined,
         minimumOrder: parseInt(formData.minimumOrder),
         requiresApproval: formData.requiresApproval,
         estimatedDeliveryTime: formData.estimatedDeliveryTime || undefined,
@@ -224,6 +226,7 @@ export default function CreateServiceModal({ isOpen, onClose, onServiceCreated }
       unit: 'unit',
       availability: 'BUSINESS_HOURS',
       maxQuantity: '',
+      inventoryQuantity: '',
       minimumOrder: '1',
       requiresApproval: false,
       estimatedDeliveryTime: '',
@@ -515,6 +518,21 @@ export default function CreateServiceModal({ isOpen, onClose, onServiceCreated }
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="inventoryQuantity">Unidades Disponibles (opcional)</Label>
+                  <Input
+                    id="inventoryQuantity"
+                    type="number"
+                    value={formData.inventoryQuantity}
+                    onChange={(e) => handleInputChange('inventoryQuantity', e.target.value)}
+                    placeholder="Sin límite"
+                    min="1"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Unidades que pueden reservarse a la vez, como proyectores o equipos
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="estimatedDeliveryTime">Tiempo de Entrega</Label>
                   <Input
@@ -35,6 +35,7 @@ interface Service {
   availability: string
   isActive: boolean
   maxQuantity?: number
+  inventoryQuantity?: number
   minimumOrder?: number
   requiresApproval: boolean
   estimatedDeliveryTime?: string
@@ -104,6 +105,7 @@ export default function EditServiceModal({ service, isOpen, onClose, onServiceUp
     unit: 'unit',
     availability: 'BUSINESS_HOURS',
     maxQuantity: '',
+    inventoryQuantity: '',
     minimumOrder: '1',
     requiresApproval: false,
     estimatedDeliveryTime: '',
@@ -131,6 +133,7 @@ export default function EditServiceModal({ service, isOpen, onClose, onServiceUp
         unit: service.unit,
         availability: service.availability,
         maxQuantity: service.maxQuantity ? service.maxQuantity.toString() : '',
+        inventoryQuantity: service.inventoryQuantity ? service.inventoryQuantity.toString() : '',
         minimumOrder: service.minimumOrder ? service.minimumOrder.toString() : '1',
         requiresApproval: service.requiresApproval,
         estimatedDeliveryTime: service.estimatedDeliveryTime || '',
@@ -204,6 +207,7 @@ export default function EditServiceModal({ service, isOpen, onClose, onServiceUp
         serviceType: formData.serviceType,
         availability: formData.availability,
         maxQuantity: formData.maxQuantity ? parseInt(formData.maxQuantity) : undefined,
+        inventoryQuantity: formData.inventoryQuantity ? parseInt(formData.inventoryQuantity) : undefined,
         requiresApproval: formData.requiresApproval,
         estimatedDeliveryTime: formData.estimatedDeliveryTime || undefined,
         instructions: formData.instructions || undefined,
@@ -534,6 +538,21 @@ export default function EditServiceModal({ service, isOpen, onClose, onServiceUp
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="inventoryQuantity">Unidades Disponibles (opcional)</Label>
+                  <Input
+                    id="inventoryQuantity"
+                    type="number"
+                    value={formData.inventoryQuantity}
+                    onChange={(e) => handleInputChange('inventoryQuantity', e.target.value)}
+                    placeholder="Sin límite"
+                    min="1"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Unidades que pueden reservarse a la vez, como proyectores o equipos
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="estimatedDeliveryTime">Tiempo de Entrega</Label>
                   <Input
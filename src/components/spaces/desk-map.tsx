@@ -0,0 +1,464 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { MousePointerClick, Plus, Trash2, UserPlus, UserMinus, XCircle } from 'lucide-react'
+import {
+  assignDeskAction,
+  cancelDeskBookingAction,
+  createDeskBookingAction,
+  deleteDeskAction,
+  releaseDeskAssignmentAction,
+  updateSpaceFloorPlanAction,
+  upsertDeskAction,
+} from '@/lib/actions/desk'
+import type { DeskBookingPeriod, DeskType } from '@/lib/validations/desk'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+interface DeskMapProps {
+  map: any
+  date: string // yyyy-MM-dd
+  userId: string
+  isAdmin: boolean
+  memberships: any[]
+}
+
+interface DeskDraft {
+  id?: string
+  label: string
+  type: DeskType
+  positionX: string
+  positionY: string
+  dailyRate: string
+}
+
+const PERIOD_LABELS: Record<DeskBookingPeriod, string> = {
+  FULL_DAY: 'Día completo',
+  MORNING: 'Mañana',
+  AFTERNOON: 'Tarde',
+}
+
+const EMPTY_DRAFT: DeskDraft = {
+  label: '',
+  type: 'HOT',
+  positionX: '50',
+  positionY: '50',
+  dailyRate: '',
+}
+
+export function DeskMap({ map, date, userId, isAdmin, memberships }: DeskMapProps) {
+  const router = useRouter()
+  const [period, setPeriod] = useState<DeskBookingPeriod>('FULL_DAY')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isPlacing, setIsPlacing] = useState(false)
+  const [draft, setDraft] = useState<DeskDraft | null>(null)
+  const [floorPlanImage, setFloorPlanImage] = useState(map.space.floorPlanImage || '')
+  const [membershipId, setMembershipId] = useState('')
+
+  const selectedDesk = map.desks.find((desk: any) => desk.id === selectedId) || null
+  const occupancy = map.occupancy[period]
+
+  const getDeskColor = (desk: any) => {
+    if (desk.bookings.some((booking: any) => booking.userId === userId) || desk.assignment?.userId === userId) {
+      return 'bg-blue-500 border-blue-700 text-white'
+    }
+    if (desk.type === 'DEDICATED') {
+      return desk.assignment ? 'bg-purple-500 border-purple-700 text-white' : 'bg-purple-100 border-purple-400 text-purple-800'
+    }
+    return desk.availability[period]
+      ? 'bg-green-500 border-green-700 text-white'
+      : 'bg-red-500 border-red-700 text-white'
+  }
+
+  const runAction = async (action: () => Promise<any>, successMessage: string, errorMessage: string) => {
+    setIsProcessing(true)
+
+    try {
+      const result = await action()
+
+      if (result.success) {
+        toast.success(successMessage)
+        router.refresh()
+        return true
+      }
+
+      toast.error(result.error || errorMessage)
+      return false
+    } catch (error) {
+      console.error(errorMessage, error)
+      toast.error('Error al procesar la solicitud')
+      return false
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handlePlanClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!isPlacing) {
+      return
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    setDraft({
+      ...EMPTY_DRAFT,
+      positionX: ((event.clientX - rect.left) / rect.width * 100).toFixed(1),
+      positionY: ((event.clientY - rect.top) / rect.height * 100).toFixed(1),
+    })
+    setIsPlacing(false)
+  }
+
+  const handleSaveDesk = async () => {
+    if (!draft) {
+      return
+    }
+
+    const saved = await runAction(
+      () => upsertDeskAction({
+        id: draft.id,
+        spaceId: map.space.id,
+        label: draft.label,
+        type: draft.type,
+        positionX: Number(draft.positionX),
+        positionY: Number(draft.positionY),
+        amenities: [],
+        dailyRate: draft.dailyRate ? Number(draft.dailyRate) : null,
+        isActive: true,
+      }),
+      'Escritorio guardado',
+      'Error al guardar el escritorio'
+    )
+
+    if (saved) {
+      setDraft(null)
+    }
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="lg:col-span-2 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle>Plano</CardTitle>
+                <CardDescription>
+                  {map.maxCapacity !== null
+                    ? `Ocupación: ${occupancy.occupied} de ${map.maxCapacity} puestos`
+                    : `${occupancy.occupied} escritorios ocupados`}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  className="w-40"
+                  value={date}
+                  onChange={(e) => e.target.value && router.push(`?date=${e.target.value}`)}
+                />
+                <Select value={period} onValueChange={(value) => setPeriod(value as DeskBookingPeriod)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div
+              className={`relative w-full aspect-[16/10] rounded-lg border bg-muted bg-cover bg-center ${isPlacing ? 'cursor-crosshair' : ''}`}
+              style={map.space.floorPlanImage ? { backgroundImage: `url(${map.space.floorPlanImage})` } : undefined}
+              onClick={handlePlanClick}
+            >
+              {map.desks.length === 0 && (
+                <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                  Este espacio aún no tiene escritorios
+                </p>
+              )}
+              {map.desks.map((desk: any) => (
+                <button
+                  key={desk.id}
+                  type="button"
+                  title={desk.label}
+                  className={`absolute -translate-x-1/2 -translate-y-1/2 min-w-10 h-8 px-1 rounded border-2 text-xs font-medium ${getDeskColor(desk)} ${selectedId === desk.id ? 'ring-2 ring-offset-2 ring-primary' : ''}`}
+                  style={{ left: `${desk.positionX}%`, top: `${desk.positionY}%` }}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setSelectedId(desk.id)
+                  }}
+                >
+                  {desk.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4 mt-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-green-500" />Disponible</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-500" />Ocupado</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-500" />Tu escritorio</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-purple-500" />Dedicado</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Administrar Plano</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="URL de la imagen del plano"
+                  value={floorPlanImage}
+                  onChange={(e) => setFloorPlanImage(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  disabled={isProcessing}
+                  onClick={() => runAction(
+                    () => updateSpaceFloorPlanAction({ spaceId: map.space.id, floorPlanImage: floorPlanImage || null }),
+                    'Plano actualizado',
+                    'Error al actualizar el plano'
+                  )}
+                >
+                  Guardar
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button variant={isPlacing ? 'default' : 'outline'} size="sm" onClick={() => setIsPlacing(!isPlacing)}>
+                  <MousePointerClick className="h-4 w-4 mr-1" />
+                  {isPlacing ? 'Haz clic en el plano...' : 'Ubicar en el Plano'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+                  <Plus className="h-4 w-4 mr-1" />Nuevo Escritorio
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{selectedDesk ? `Escritorio ${selectedDesk.label}` : 'Escritorio'}</CardTitle>
+          {selectedDesk && (
+            <CardDescription>
+              {selectedDesk.type === 'DEDICATED' ? 'Escritorio dedicado' : 'Hot desk'}
+              {selectedDesk.dailyRate ? ` • $${selectedDesk.dailyRate.toFixed(2)} por día` : ''}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!selectedDesk && (
+            <p className="text-sm text-muted-foreground">Selecciona un escritorio en el plano</p>
+          )}
+
+          {selectedDesk?.assignment && (
+            <div className="text-sm">
+              Asignado a{' '}
+              <span className="font-medium">
+                {selectedDesk.assignment.user.firstName} {selectedDesk.assignment.user.lastName}
+              </span>
+            </div>
+          )}
+
+          {selectedDesk?.bookings.map((booking: any) => (
+            <div key={booking.id} className="flex items-center justify-between text-sm">
+              <div>
+                <Badge variant="outline" className="mr-2">{PERIOD_LABELS[booking.period as DeskBookingPeriod]}</Badge>
+                {booking.userId === userId ? 'Tu reserva' : booking.userName}
+              </div>
+              {(isAdmin || booking.userId === userId) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isProcessing}
+                  onClick={() => runAction(
+                    () => cancelDeskBookingAction({ id: booking.id }),
+                    'Reserva de escritorio cancelada',
+                    'Error al cancelar la reserva'
+                  )}
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {selectedDesk?.type === 'HOT' && (
+            <Button
+              className="w-full"
+              disabled={isProcessing || !selectedDesk.availability[period]}
+              onClick={() => runAction(
+                () => createDeskBookingAction({ deskId: selectedDesk.id, userId, date: new Date(`${date}T00:00`), period }),
+                `Escritorio ${selectedDesk.label} reservado`,
+                'Error al reservar el escritorio'
+              )}
+            >
+              {selectedDesk.availability[period] ? `Reservar (${PERIOD_LABELS[period]})` : 'No disponible'}
+            </Button>
+          )}
+
+          {isAdmin && selectedDesk && (
+            <div className="space-y-2 border-t pt-4">
+              {selectedDesk.type === 'DEDICATED' && !selectedDesk.assignment && (
+                <div className="flex gap-2">
+                  <Select value={membershipId} onValueChange={setMembershipId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Miembro" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {memberships.map(membership => (
+                        <SelectItem key={membership.id} value={membership.id}>
+                          {membership.user.firstName} {membership.user.lastName} ({membership.plan.name})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    disabled={isProcessing || !membershipId}
+                    onClick={() => runAction(
+                      () => assignDeskAction({ deskId: selectedDesk.id, membershipId }),
+                      'Escritorio asignado',
+                      'Error al asignar el escritorio'
+                    )}
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              {selectedDesk.assignment && (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  disabled={isProcessing}
+                  onClick={() => runAction(
+                    () => releaseDeskAssignmentAction({ id: selectedDesk.assignment.id }),
+                    'Asignación finalizada',
+                    'Error al liberar el escritorio'
+                  )}
+                >
+                  <UserMinus className="h-4 w-4 mr-2" />Liberar Escritorio
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="w-full justify-start"
+                onClick={() => setDraft({
+                  id: selectedDesk.id,
+                  label: selectedDesk.label,
+                  type: selectedDesk.type,
+                  positionX: String(selectedDesk.positionX),
+                  positionY: String(selectedDesk.positionY),
+                  dailyRate: selectedDesk.dailyRate !== null ? String(selectedDesk.dailyRate) : '',
+                })}
+              >
+                Editar Escritorio
+              </Button>
+              <Button
+                variant="outline"
+                className="w-full justify-start"
+                disabled={isProcessing}
+                onClick={async () => {
+                  const deleted = await runAction(
+                    () => deleteDeskAction({ id: selectedDesk.id }),
+                    'Escritorio eliminado',
+                    'Error al eliminar el escritorio'
+                  )
+                  if (deleted) {
+                    setSelectedId(null)
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />Eliminar Escritorio
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Editar Escritorio' : 'Nuevo Escritorio'}</DialogTitle>
+            <DialogDescription>
+              La posición es el porcentaje del ancho y alto del plano
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Nombre</label>
+                  <Input value={draft.label} placeholder="A-12" onChange={(e) => setDraft({ ...draft, label: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Tipo</label>
+                  <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as DeskType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="HOT">Hot desk</SelectItem>
+                      <SelectItem value="DEDICATED">Dedicado</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Posición X (%)</label>
+                  <Input type="number" min="0" max="100" value={draft.positionX} onChange={(e) => setDraft({ ...draft, positionX: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Posición Y (%)</label>
+                  <Input type="number" min="0" max="100" value={draft.positionY} onChange={(e) => setDraft({ ...draft, positionY: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Tarifa diaria</label>
+                  <Input type="number" min="0" placeholder="0" value={draft.dailyRate} onChange={(e) => setDraft({ ...draft, dailyRate: e.target.value })} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isProcessing}>
+              Volver
+            </Button>
+            <Button disabled={isProcessing || !draft?.label} onClick={handleSaveDesk}>
+              {isProcessing ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -45,6 +45,8 @@ interface Space {
   isActive: boolean
   requiresApproval: boolean
   allowRecurring: boolean
+  noShowGraceMinutes?: number | null
+  noShowFee?: number | null
   color?: string
 }
 
@@ -72,6 +74,8 @@ export function EditSpaceModal({ open, onOpenChange, space, onSuccess }: EditSpa
     maxBookingDuration: '',
     maxAdvanceBooking: '30',
     cancellationHours: '24',
+    noShowGraceMinutes: '',
+    noShowFee: '',
     isActive: true,
     requiresApproval: false,
     allowRecurring: true,
@@ -101,6 +105,8 @@ export function EditSpaceModal({ open, onOpenChange, space, onSuccess }: EditSpa
         maxBookingDuration: space.maxBookingDuration?.toString() || '',
         maxAdvanceBooking: space.maxAdvanceBooking?.toString() || '30',
         cancellationHours: space.cancellationHours?.toString() || '24',
+        noShowGraceMinutes: space.noShowGraceMinutes?.toString() || '',
+        noShowFee: space.noShowFee?.toString() || '',
         isActive: space.isActive ?? true,
         requiresApproval: space.requiresApproval ?? false,
         allowRecurring: space.allowRecurring ?? true,
@@ -154,6 +160,8 @@ export function EditSpaceModal({ open, onOpenChange, space, onSuccess }: EditSpa
         maxBookingDuration: formData.maxBookingDuration ? parseInt(formData.maxBookingDuration) : undefined,
         maxAdvanceBooking: parseInt(formData.maxAdvanceBooking),
         cancellationHours: parseInt(formData.cancellationHours),
+        noShowGraceMinutes: formData.noShowGraceMinutes ? parseInt(formData.noShowGraceMinutes) : undefined,
+        noShowFee: formData.noShowFee ? parseFloat(formData.noShowFee) : undefined,
         isActive: formData.isActive,
         requiresApproval: formData.requiresApproval,
         allowRecurring: formData.allowRecurring,
@@ -424,6 +432,37 @@ export function EditSpaceModal({ open, onOpenChange, space, onSuccess }: EditSpa
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label htmlFor="noShowGraceMinutes" className="text-sm font-medium">
+                    Tolerancia de Inasistencia (minutos)
+                  </label>
+                  <Input
+                    id="noShowGraceMinutes"
+                    type="number"
+                    min="0"
+                    value={formData.noShowGraceMinutes}
+                    onChange={(e) => handleInputChange('noShowGraceMinutes', e.target.value)}
+                    placeholder="Según configuración del cowork"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="noShowFee" className="text-sm font-medium">
+                    Cargo por Inasistencia
+                  </label>
+                  <Input
+                    id="noShowFee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.noShowFee}
+                    onChange={(e) => handleInputChange('noShowFee', e.target.value)}
+                    placeholder="Según configuración del cowork"
+                  />
+                </div>
+              </div>
+
               <Separator />
 
               <div className="space-y-4">
@@ -2,6 +2,7 @@ import { useMemo, useCallback } from 'react';
 import { useAuth as useClerkAuth } from '@clerk/nextjs';
 import { useAuth } from '@/contexts/auth-context';
 import { getApiBaseUrl } from "@/lib/api-config";
+import { createApiV1Client } from "@/lib/api-client/v1";
 
 export function useApi() {
   const { getToken } = useClerkAuth();
@@ -87,5 +88,8 @@ export function useApi() {
     
     delete: (url: string, options: RequestInit = {}) =>
       makeRequest(url, { ...options, method: 'DELETE' }),
+
+    // Typed /api/v1 client generated from the OpenAPI document, sent with the same session token
+    client: createApiV1Client(makeRequest),
   }), [makeRequest]);
 }
\ No newline at end of file
@@ -0,0 +1,1068 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/prisma'
+import { getTenantContext } from '@/lib/auth'
+import type { ActionResult } from '@/types/database'
+import { SubscriptionBillingService } from '@/services/subscription-billing.service'
+import { DunningService } from '@/services/dunning.service'
+import { CreditNoteService } from '@/services/credit-note.service'
+import { TaxService } from '@/services/tax.service'
+import { PaymentLinkService } from '@/services/payment-link.service'
+import { DEFAULT_DUNNING_TEMPLATE } from '@/lib/utils/dunning'
+import {
+  changeSubscriptionPlanSchema,
+  cancelSubscriptionSchema,
+  updateDunningSettingsSchema,
+  createCreditNoteSchema,
+  applyCreditBalanceSchema,
+  voidCreditNoteSchema,
+  taxRuleSchema,
+  updateTaxRuleSchema,
+  deleteTaxRuleSchema,
+  updateTaxSettingsSchema,
+  updateOnlinePaymentSettingsSchema,
+  taxSummarySchema,
+  type ChangeSubscriptionPlanRequest,
+  type CancelSubscriptionRequest,
+  type UpdateDunningSettingsRequest,
+  type CreateCreditNoteRequest,
+  type ApplyCreditBalanceRequest,
+  type VoidCreditNoteRequest,
+  type TaxRuleRequest,
+  type UpdateTaxRuleRequest,
+  type DeleteTaxRuleRequest,
+  type UpdateTaxSettingsRequest,
+  type UpdateOnlinePaymentSettingsRequest,
+  type TaxSummaryRequest,
+} from '@/lib/validations/billing'
+
+/**
+ * Invoice the tenant's due subscriptions now instead of waiting for the scheduled run (admin only)
+ */
+export async function runSubscriptionBillingAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const result = await SubscriptionBillingService.getInstance().runBilling({
+      tenantId,
+      createdById: user.id,
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Run subscription billing error:', error)
+    return { success: false, error: 'Failed to run subscription billing' }
+  }
+}
+
+/**
+ * Move a subscription to another plan, prorating the days already used when the subscription prorates (admin only)
+ */
+export async function changeSubscriptionPlanAction(data: ChangeSubscriptionPlanRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = changeSubscriptionPlanSchema.parse(data)
+
+    const result = await SubscriptionBillingService.getInstance().changePlan({
+      tenantId,
+      subscriptionId: validatedData.subscriptionId,
+      planId: validatedData.planId,
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Change subscription plan error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to change subscription plan' }
+  }
+}
+
+/**
+ * Cancel a subscription at the end of its period or right away with a final invoice (admin only)
+ */
+export async function cancelSubscriptionAction(data: CancelSubscriptionRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = cancelSubscriptionSchema.parse(data)
+
+    const result = await SubscriptionBillingService.getInstance().cancelSubscription({
+      tenantId,
+      subscriptionId: validatedData.subscriptionId,
+      atPeriodEnd: validatedData.atPeriodEnd,
+      createdById: user.id,
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Cancel subscription error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to cancel subscription' }
+  }
+}
+
+/**
+ * Get the active subscriptions with their next billing date, the latest subscription invoices with their
+ * payment links, the plans to move to and the online payment settings (admin only)
+ */
+export async function getSubscriptionBillingOverviewAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const now = new Date()
+
+    const [subscriptions, invoices, plans, settings] = await Promise.all([
+      prisma.subscription.findMany({
+        where: {
+          tenantId,
+          status: 'ACTIVE',
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          plan: { select: { id: true, name: true, price: true, currency: true } },
+        },
+        orderBy: { nextBillingDate: 'asc' },
+        take: 50,
+      }),
+      prisma.invoice.findMany({
+        where: {
+          tenantId,
+          subscriptionId: { not: null },
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          items: { select: { id: true, description: true, quantity: true, unitPrice: true, total: true } },
+          paymentLinks: {
+            where: {
+              revokedAt: null,
+              expiresAt: { gt: now },
+            },
+            select: { id: true, token: true, expiresAt: true, lastViewedAt: true },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      }),
+      prisma.plan.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+        },
+        select: { id: true, name: true, price: true, currency: true },
+        orderBy: { price: 'asc' },
+      }),
+      prisma.billingSettings.findUnique({
+        where: { tenantId },
+        select: { onlinePaymentProvider: true, bankTransferInstructions: true, paymentLinkExpiryDays: true },
+      }),
+    ])
+
+    const planNames = new Map(plans.map(plan => [plan.id, plan.name]))
+    const paymentLinks = PaymentLinkService.getInstance()
+
+    return {
+      success: true,
+      data: {
+        subscriptions: subscriptions.map(subscription => ({
+          ...subscription,
+          isDue: subscription.nextBillingDate <= now,
+          pendingPlanName: subscription.pendingPlanId ? planNames.get(subscription.pendingPlanId) || null : null,
+          plan: {
+            ...subscription.plan,
+            price: Number(subscription.plan.price),
+          },
+        })),
+        invoices: invoices.map(({ paymentLinks: [paymentLink], ...invoice }) => ({
+          ...invoice,
+          paymentLink: paymentLink
+            ? {
+              id: paymentLink.id,
+              url: paymentLinks.getLinkUrl(paymentLink.token),
+              expiresAt: paymentLink.expiresAt,
+              lastViewedAt: paymentLink.lastViewedAt,
+            }
+            : null,
+          subtotal: Number(invoice.subtotal),
+          tax: Number(invoice.tax),
+          total: Number(invoice.total),
+          items: invoice.items.map(item => ({
+            ...item,
+            unitPrice: Number(item.unitPrice),
+            total: Number(item.total),
+          })),
+        })),
+        plans: plans.map(plan => ({
+          ...plan,
+          price: Number(plan.price),
+        })),
+        paymentSettings: {
+          onlinePaymentProvider: settings?.onlinePaymentProvider ?? null,
+          bankTransferInstructions: settings?.bankTransferInstructions ?? null,
+          paymentLinkExpiryDays: settings?.paymentLinkExpiryDays ?? 30,
+        },
+      },
+    }
+  } catch (error: any) {
+    console.error('Get subscription billing overview error:', error)
+    return { success: false, error: 'Failed to get subscription billing overview' }
+  }
+}
+
+/**
+ * Run the collection schedule of the tenant's overdue invoices now (admin only)
+ */
+export async function runDunningAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const result = await DunningService.getInstance().runDunning({ tenantId })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Run dunning error:', error)
+    return { success: false, error: 'Failed to run dunning' }
+  }
+}
+
+/**
+ * Get the dunning settings and the unpaid invoices past their due date with their collection steps (admin only)
+ */
+export async function getDunningOverviewAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const [settings, invoices] = await Promise.all([
+      prisma.billingSettings.findUnique({
+        where: { tenantId },
+      }),
+      prisma.invoice.findMany({
+        where: {
+          tenantId,
+          status: { in: ['SENT', 'OVERDUE'] },
+          dueDate: { lt: new Date() },
+        },
+        include: {
+          client: { select: { id: true, name: true, email: true } },
+          dunningEvents: { orderBy: { createdAt: 'asc' } },
+        },
+        orderBy: { dueDate: 'asc' },
+        take: 50,
+      }),
+    ])
+
+    const templates = settings?.emailTemplates as { dunningReminder?: { subject?: string; body?: string } } | null
+
+    return {
+      success: true,
+      data: {
+        settings: {
+          dunningEnabled: settings?.dunningEnabled ?? true,
+          dunningReminderDays: settings?.dunningReminderDays ?? [1, 7, 14],
+          gracePeriodDays: settings?.gracePeriodDays ?? 7,
+          latePaymentFee: Number(settings?.latePaymentFee ?? 0),
+          latePaymentFeeType: settings?.latePaymentFeeType ?? 'FIXED',
+          retryFailedPayments: settings?.retryFailedPayments ?? true,
+          maxRetryAttempts: settings?.maxRetryAttempts ?? 3,
+          retryIntervalDays: settings?.retryIntervalDays ?? 7,
+          reminderSubject: templates?.dunningReminder?.subject || DEFAULT_DUNNING_TEMPLATE.subject,
+          reminderBody: templates?.dunningReminder?.body || DEFAULT_DUNNING_TEMPLATE.body,
+        },
+        invoices: invoices.map(invoice => ({
+          ...invoice,
+          subtotal: Number(invoice.subtotal),
+          tax: Number(invoice.tax),
+          total: Number(invoice.total),
+          dunningEvents: invoice.dunningEvents.map(event => ({
+            ...event,
+            amount: event.amount !== null ? Number(event.amount) : null,
+          })),
+        })),
+      },
+    }
+  } catch (error: any) {
+    console.error('Get dunning overview error:', error)
+    return { success: false, error: 'Failed to get dunning overview' }
+  }
+}
+
+/**
+ * Update the reminder sequence, late fee, payment retries and grace period used for dunning (admin only)
+ */
+export async function updateDunningSettingsAction(data: UpdateDunningSettingsRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updateDunningSettingsSchema.parse(data)
+    const { reminderSubject, reminderBody, ...dunningSettings } = validatedData
+
+    const existing = await prisma.billingSettings.findUnique({
+      where: { tenantId },
+      select: { emailTemplates: true },
+    })
+
+    const emailTemplates = {
+      ...(existing?.emailTemplates as Record<string, unknown> | null),
+      dunningReminder: {
+        subject: reminderSubject || DEFAULT_DUNNING_TEMPLATE.subject,
+        body: reminderBody || DEFAULT_DUNNING_TEMPLATE.body,
+      },
+    }
+
+    const settings = await prisma.billingSettings.upsert({
+      where: { tenantId },
+      create: {
+        tenantId,
+        ...dunningSettings,
+        dunningReminderDays: [...new Set(dunningSettings.dunningReminderDays)].sort((a, b) => a - b),
+        emailTemplates,
+      },
+      update: {
+        ...dunningSettings,
+        dunningReminderDays: [...new Set(dunningSettings.dunningReminderDays)].sort((a, b) => a - b),
+        emailTemplates,
+      },
+    })
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        ...settings,
+        taxRate: Number(settings.taxRate),
+        latePaymentFee: Number(settings.latePaymentFee),
+      },
+    }
+  } catch (error: any) {
+    console.error('Update dunning settings error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update dunning settings' }
+  }
+}
+
+/**
+ * Issue a credit note for whole lines, units or amounts of an invoice, or for a plain amount (admin only)
+ */
+export async function createCreditNoteAction(data: CreateCreditNoteRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = createCreditNoteSchema.parse(data)
+
+    const creditNote = await CreditNoteService.getInstance().issueCreditNote({
+      tenantId,
+      invoiceId: validatedData.invoiceId,
+      reason: validatedData.reason,
+      lines: validatedData.lines,
+      amount: validatedData.amount,
+      createdById: user.id,
+    })
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        ...creditNote,
+        subtotal: Number(creditNote.subtotal),
+        tax: Number(creditNote.tax),
+        total: Number(creditNote.total),
+        appliedAmount: Number(creditNote.appliedAmount),
+      },
+    }
+  } catch (error: any) {
+    console.error('Create credit note error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to create credit note' }
+  }
+}
+
+/**
+ * Get the tenant's credit notes with what is left of each to apply (admin only)
+ */
+export async function getCreditNotesAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const creditNotes = await prisma.creditNote.findMany({
+      where: { tenantId },
+      include: {
+        client: { select: { id: true, name: true } },
+        invoice: { select: { id: true, number: true } },
+        applications: {
+          include: { invoice: { select: { id: true, number: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    })
+
+    return {
+      success: true,
+      data: creditNotes.map(creditNote => ({
+        ...creditNote,
+        subtotal: Number(creditNote.subtotal),
+        tax: Number(creditNote.tax),
+        total: Number(creditNote.total),
+        appliedAmount: Number(creditNote.appliedAmount),
+        available: creditNote.status === 'ISSUED'
+          ? Number(creditNote.total) - Number(creditNote.appliedAmount)
+          : 0,
+        applications: creditNote.applications.map(application => ({
+          ...application,
+          amount: Number(application.amount),
+        })),
+      })),
+    }
+  } catch (error: any) {
+    console.error('Get credit notes error:', error)
+    return { success: false, error: 'Failed to get credit notes' }
+  }
+}
+
+/**
+ * Settle an open invoice with the client's unused credit notes (admin only)
+ */
+export async function applyCreditBalanceAction(data: ApplyCreditBalanceRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = applyCreditBalanceSchema.parse(data)
+
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        id: validatedData.invoiceId,
+        tenantId,
+      },
+    })
+
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found' }
+    }
+
+    if (['PAID', 'CANCELLED'].includes(invoice.status)) {
+      return { success: false, error: 'Only open invoices can take credit' }
+    }
+
+    const appliedAmount = await prisma.$transaction(tx =>
+      CreditNoteService.getInstance().applyCreditBalance(tx, invoice)
+    )
+
+    if (appliedAmount > 0) {
+      await DunningService.getInstance().resolveInvoice(invoice.id)
+    }
+
+    revalidatePath('/billing')
+
+    return { success: true, data: { invoiceId: invoice.id, appliedAmount } }
+  } catch (error: any) {
+    console.error('Apply credit balance error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to apply credit balance' }
+  }
+}
+
+/**
+ * Void a credit note issued by mistake, as long as none of it was applied (admin only)
+ */
+export async function voidCreditNoteAction(data: VoidCreditNoteRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = voidCreditNoteSchema.parse(data)
+
+    const creditNote = await CreditNoteService.getInstance().voidCreditNote(tenantId, validatedData.creditNoteId)
+
+    revalidatePath('/billing')
+
+    return { success: true, data: { id: creditNote.id, status: creditNote.status } }
+  } catch (error: any) {
+    console.error('Void credit note error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to void credit note' }
+  }
+}
+
+/**
+ * Get the tax rules and the tax settings of the tenant (admin only)
+ */
+export async function getTaxRulesAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const [rules, settings] = await Promise.all([
+      prisma.taxRule.findMany({
+        where: { tenantId },
+        orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+      }),
+      prisma.billingSettings.findUnique({
+        where: { tenantId },
+        select: { currency: true, taxRate: true, taxIncluded: true, taxDisplay: true },
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        currency: settings?.currency ?? 'USD',
+        rules: rules.map(serializeTaxRule),
+        settings: {
+          taxRate: settings ? Number(settings.taxRate) * 100 : 0,
+          taxIncluded: settings?.taxIncluded ?? false,
+          taxDisplay: settings?.taxDisplay ?? 'EXCLUSIVE',
+        },
+      },
+    }
+  } catch (error: any) {
+    console.error('Get tax rules error:', error)
+    return { success: false, error: 'Failed to get tax rules' }
+  }
+}
+
+/**
+ * Create a tax rule, optionally limited to some service categories or to lines above an amount (admin only)
+ */
+export async function createTaxRuleAction(data: TaxRuleRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = taxRuleSchema.parse(data)
+
+    const existing = await prisma.taxRule.findFirst({
+      where: { tenantId, name: validatedData.name },
+      select: { id: true },
+    })
+
+    if (existing) {
+      return { success: false, error: 'A tax rule with this name already exists' }
+    }
+
+    const rule = await prisma.taxRule.create({
+      data: {
+        tenantId,
+        ...validatedData,
+        amountThreshold: validatedData.amountThreshold ?? null,
+      },
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: serializeTaxRule(rule) }
+  } catch (error: any) {
+    console.error('Create tax rule error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to create tax rule' }
+  }
+}
+
+/**
+ * Update a tax rule. Documents already issued keep the rate they were taxed with (admin only)
+ */
+export async function updateTaxRuleAction(data: UpdateTaxRuleRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const { taxRuleId, ...updates } = updateTaxRuleSchema.parse(data)
+
+    const rule = await prisma.taxRule.findFirst({
+      where: { id: taxRuleId, tenantId },
+      select: { id: true },
+    })
+
+    if (!rule) {
+      return { success: false, error: 'Tax rule not found' }
+    }
+
+    if (updates.name) {
+      const duplicate = await prisma.taxRule.findFirst({
+        where: { tenantId, name: updates.name, id: { not: taxRuleId } },
+        select: { id: true },
+      })
+
+      if (duplicate) {
+        return { success: false, error: 'A tax rule with this name already exists' }
+      }
+    }
+
+    const updated = await prisma.taxRule.update({
+      where: { id: taxRuleId },
+      data: updates,
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: serializeTaxRule(updated) }
+  } catch (error: any) {
+    console.error('Update tax rule error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update tax rule' }
+  }
+}
+
+/**
+ * Delete a tax rule. A rule already used on invoices or quotations is deactivated instead (admin only)
+ */
+export async function deleteTaxRuleAction(data: DeleteTaxRuleRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteTaxRuleSchema.parse(data)
+
+    const rule = await prisma.taxRule.findFirst({
+      where: { id: validatedData.taxRuleId, tenantId },
+      include: { _count: { select: { invoiceItems: true, quotationItems: true } } },
+    })
+
+    if (!rule) {
+      return { success: false, error: 'Tax rule not found' }
+    }
+
+    if (rule._count.invoiceItems > 0 || rule._count.quotationItems > 0) {
+      await prisma.taxRule.update({
+        where: { id: rule.id },
+        data: { isActive: false },
+      })
+
+      revalidatePath('/billing')
+
+      return { success: true, data: { id: rule.id, deleted: false, isActive: false } }
+    }
+
+    await prisma.taxRule.delete({
+      where: { id: rule.id },
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: { id: rule.id, deleted: true } }
+  } catch (error: any) {
+    console.error('Delete tax rule error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to delete tax rule' }
+  }
+}
+
+/**
+ * Update the fallback tax rate, whether prices include tax and how documents show line amounts (admin only)
+ */
+export async function updateTaxSettingsAction(data: UpdateTaxSettingsRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updateTaxSettingsSchema.parse(data)
+
+    // Billing settings store the rate as a fraction
+    const taxSettings = {
+      taxRate: validatedData.taxRate / 100,
+      taxIncluded: validatedData.taxIncluded,
+      taxDisplay: validatedData.taxDisplay,
+    }
+
+    const settings = await prisma.billingSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...taxSettings },
+      update: taxSettings,
+    })
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        taxRate: Number(settings.taxRate) * 100,
+        taxIncluded: settings.taxIncluded,
+        taxDisplay: settings.taxDisplay,
+      },
+    }
+  } catch (error: any) {
+    console.error('Update tax settings error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update tax settings' }
+  }
+}
+
+/**
+ * Update the gateway, bank transfer details and link lifetime of the hosted invoice payment page (admin only)
+ */
+export async function updateOnlinePaymentSettingsAction(data: UpdateOnlinePaymentSettingsRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updateOnlinePaymentSettingsSchema.parse(data)
+
+    const paymentSettings = {
+      ...validatedData,
+      bankTransferInstructions: validatedData.bankTransferInstructions?.trim() || null,
+    }
+
+    const settings = await prisma.billingSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...paymentSettings },
+      update: paymentSettings,
+    })
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        onlinePaymentProvider: settings.onlinePaymentProvider,
+        bankTransferInstructions: settings.bankTransferInstructions,
+        paymentLinkExpiryDays: settings.paymentLinkExpiryDays,
+      },
+    }
+  } catch (error: any) {
+    console.error('Update online payment settings error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update online payment settings' }
+  }
+}
+
+/**
+ * Get the tax invoiced per rule and rate in a period, net of credit notes (admin only)
+ */
+export async function getTaxSummaryAction(data: TaxSummaryRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = taxSummarySchema.parse(data)
+
+    const summary = await TaxService.getInstance().getTaxSummary(tenantId, {
+      from: validatedData.from,
+      to: validatedData.to,
+    })
+
+    return { success: true, data: summary }
+  } catch (error: any) {
+    console.error('Get tax summary error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to get tax summary' }
+  }
+}
+
+function serializeTaxRule<T extends { rate: unknown; amountThreshold: unknown }>(rule: T) {
+  return {
+    ...rule,
+    rate: Number(rule.rate),
+    amountThreshold: rule.amountThreshold !== null ? Number(rule.amountThreshold) : null,
+  }
+}
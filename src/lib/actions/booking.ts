@@ -1,9 +1,11 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
 import { prisma } from '@/lib/prisma'
 import { getTenantContext } from '@/lib/auth'
 import type { ActionResult } from '@/types/database'
+import type { AdjustmentType, Prisma } from '@prisma/client'
 import {
   createBookingSchema,
   updateBookingSchema,
@@ -19,6 +21,21 @@ import {
   getBookingStatsSchema,
   getBookingUtilizationSchema,
   generateRecurringBookingsSchema,
+  calculateBookingPriceSchema,
+  checkBookingPolicySchema,
+  updateBookingSeriesSchema,
+  cancelBookingSeriesSchema,
+  joinWaitlistSchema,
+  leaveWaitlistSchema,
+  acceptWaitlistOfferSchema,
+  listWaitlistSchema,
+  upsertCancellationPolicySchema,
+  deleteCancellationPolicySchema,
+  previewBookingCancellationSchema,
+  updatePlanBookingCreditsSchema,
+  createBookingBundleSchema,
+  getBookingBundleSchema,
+  cancelBookingBundleSchema,
   type CreateBookingRequest,
   type UpdateBookingRequest,
   type DeleteBookingRequest,
@@ -33,8 +50,73 @@ import {
   type GetBookingStatsRequest,
   type GetBookingUtilizationRequest,
   type GenerateRecurringBookingsRequest,
+  type CalculateBookingPriceRequest,
+  type CheckBookingPolicyRequest,
+  type UpdateBookingSeriesRequest,
+  type CancelBookingSeriesRequest,
+  type JoinWaitlistRequest,
+  type LeaveWaitlistRequest,
+  type AcceptWaitlistOfferRequest,
+  type ListWaitlistRequest,
+  type UpsertCancellationPolicyRequest,
+  type DeleteCancellationPolicyRequest,
+  type PreviewBookingCancellationRequest,
+  type RefundPreference,
+  type UpdatePlanBookingCreditsRequest,
+  type CreateBookingBundleRequest,
+  type GetBookingBundleRequest,
+  type CancelBookingBundleRequest,
+  type BookingService as BookingServiceRequest,
+  type WaitlistStatus,
 } from '@/lib/validations/booking'
-import { PricingCalculator } from '@/lib/utils/pricing'
+import { PricingCalculator, type DiscountRule } from '@/lib/utils/pricing'
+import {
+  SpaceServicePricingCalculator,
+  applyPriceOverride,
+  type BookingPriceBreakdown,
+  type PriceAdjustmentConfig,
+  type RoomPricingRuleConfig,
+} from '@/lib/utils/pricing-integration'
+import {
+  buildServiceConsumptions,
+  findServiceShortages,
+  priceBookingServices,
+  type ServiceShortage,
+} from '@/lib/utils/booking-services'
+import { getBundleCost, splitBundleRequest } from '@/lib/utils/booking-bundle'
+import { endOfZonedDay } from '@/lib/utils/time-zone'
+import { resolveExpiredWaitlistOffer } from '@/lib/utils/waitlist'
+import {
+  countOccurrencesBefore,
+  expandRecurrence,
+  getOccurrenceKey,
+  type RecurrenceConfig,
+} from '@/lib/utils/recurrence'
+import {
+  BookingPolicyValidator,
+  toPolicyFieldErrors,
+  type BookingPolicyViolation,
+  type MaintenanceWindow,
+} from '@/lib/utils/booking-policy'
+import {
+  buildCancellationFeeUsage,
+  evaluateCancellation,
+  parseCancellationTiers,
+  type CancellationRefundMethod,
+} from '@/lib/utils/cancellation-policy'
+import type { Language } from '@/lib/i18n'
+import { BookingNoShowService } from '@/services/booking-no-show.service'
+import { PaymentRefundService } from '@/services/payment-refund.service'
+import { BookingCreditService } from '@/services/booking-credit.service'
+import { DunningService } from '@/services/dunning.service'
+import { CreditNoteService } from '@/services/credit-note.service'
+import { WebhookService } from '@/services/webhook.service'
+import { BookingWaitlistService } from '@/services/booking-waitlist.service'
+
+// Adjustment types that depend on when a booking happens or when it was made
+const BOOKING_ADJUSTMENT_TYPES: AdjustmentType[] = ['PEAK_HOURS', 'WEEKEND', 'EARLY_BIRD', 'LAST_MINUTE']
+
+const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['WAITING', 'OFFERED']
 
 /**
  * Create a new booking
@@ -50,84 +132,193 @@ export async function createBookingAction(data: CreateBookingRequest): Promise<A
     // Validate input data
     const validatedData = createBookingSchema.parse(data)
 
-    // Verify space exists if specified
-    let space: any = null
-    if (validatedData.spaceId) {
-      space = await prisma.space.findFirst({
-        where: {
-          id: validatedData.spaceId,
-          tenantId,
-          isActive: true,
-        },
-      })
+    const result = await createBookingInternal(tenantId, validatedData, canOverrideBookingPrice(user) ? user.id : null)
+    if (result.success) {
+      revalidatePath('/bookings')
+    }
 
-      if (!space) {
-        return { success: false, error: 'Space not found or not available' }
+    return result
+  } catch (error: any) {
+    console.error('Create booking error:', error)
+    
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
       }
+    }
 
-      // Check for conflicts
-      const conflicts = await checkBookingConflictsInternal(
-        validatedData.spaceId,
-        validatedData.startTime,
-        validatedData.endTime,
-        tenantId
-      )
+    return { success: false, error: 'Failed to create booking' }
+  }
+}
 
-      if (conflicts.length > 0) {
-        return {
-          success: false,
-          error: 'Booking conflicts with existing reservation',
-          details: { conflicts }
-        }
+/**
+ * Internal helper to create a booking for already validated data. Shared by the booking
+ * form and by flows that book on behalf of a member, such as the waitlist. The booking is
+ * charged its calculated price; `totalAmount` only replaces it when `priceOverrideBy`, the
+ * admin allowed to set prices, is given.
+ */
+async function createBookingInternal(
+  tenantId: string,
+  validatedData: CreateBookingRequest,
+  priceOverrideBy: string | null = null
+): Promise<ActionResult<any>> {
+  // Verify space exists if specified
+  let space: any = null
+  if (validatedData.spaceId) {
+    space = await prisma.space.findFirst({
+      where: {
+        id: validatedData.spaceId,
+        tenantId,
+        isActive: true,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found or not available' }
+    }
+
+    // Enforce the space booking policy
+    const policy = await loadBookingPolicyInternal(tenantId, space, validatedData.startTime, validatedData.endTime)
+    const violations = policy.validateBooking(validatedData.startTime, validatedData.endTime, {
+      isRecurring: validatedData.isRecurring,
+    })
+
+    if (violations.length > 0) {
+      return bookingPolicyErrorResult(violations)
+    }
+
+    // Check for conflicts
+    const conflicts = await checkBookingConflictsInternal(
+      validatedData.spaceId,
+      validatedData.startTime,
+      validatedData.endTime,
+      tenantId
+    )
+
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        error: 'Booking conflicts with existing reservation',
+        details: { conflicts }
       }
     }
 
-    // Verify user exists
-    const bookingUser = await prisma.user.findFirst({
+    // A freed slot stays reserved while it is offered to someone on the waitlist
+    const hold = await BookingWaitlistService.getInstance().findHold(
+      tenantId,
+      validatedData.spaceId,
+      validatedData.startTime,
+      validatedData.endTime,
+      validatedData.userId
+    )
+
+    if (hold) {
+      return {
+        success: false,
+        error: 'This slot is on hold for a waitlisted member',
+        details: { holdExpiresAt: hold.offerExpiresAt }
+      }
+    }
+  }
+
+  // Verify user exists
+  const bookingUser = await prisma.user.findFirst({
+    where: {
+      id: validatedData.userId,
+      tenantId,
+    },
+  })
+
+  if (!bookingUser) {
+    return { success: false, error: 'User not found' }
+  }
+
+  // Members that reached the no-show strike limit cannot book until their suspension ends
+  const strikeStatus = await BookingNoShowService.getInstance().getStrikeStatus(tenantId, validatedData.userId)
+  if (strikeStatus.blockedUntil) {
+    return {
+      success: false,
+      error: 'Member cannot book after repeated no-shows',
+      details: { noShowStrikes: strikeStatus.strikes, blockedUntil: strikeStatus.blockedUntil }
+    }
+  }
+
+  // Clients suspended by dunning cannot book until their overdue invoices are paid
+  if (await DunningService.getInstance().isClientSuspended(tenantId, bookingUser.clientId)) {
+    return { success: false, error: 'Member access is suspended for unpaid invoices' }
+  }
+
+  // Verify services exist if specified
+  if (validatedData.services && validatedData.services.length > 0) {
+    const serviceIds = validatedData.services.map(s => s.serviceId)
+    const existingServices = await prisma.service.findMany({
       where: {
-        id: validatedData.userId,
+        id: { in: serviceIds },
         tenantId,
+        isActive: true,
       },
+      select: { id: true },
     })
 
-    if (!bookingUser) {
-      return { success: false, error: 'User not found' }
+    if (existingServices.length !== serviceIds.length) {
+      return { success: false, error: 'One or more services not found or not bookable' }
     }
 
-    // Verify services exist if specified
-    if (validatedData.services && validatedData.services.length > 0) {
-      const serviceIds = validatedData.services.map(s => s.serviceId)
-      const existingServices = await prisma.service.findMany({
-        where: {
-          id: { in: serviceIds },
-          tenantId,
-          isActive: true,
-          isBookable: true,
-        },
-        select: { id: true },
-      })
+    // Services with limited units, such as projectors, cannot be over-reserved
+    const shortages = await checkServiceInventoryInternal(
+      tenantId,
+      validatedData.services,
+      validatedData.startTime,
+      validatedData.endTime
+    )
 
-      if (existingServices.length !== serviceIds.length) {
-        return { success: false, error: 'One or more services not found or not bookable' }
-      }
+    if (shortages.length > 0) {
+      return serviceInventoryErrorResult(shortages)
     }
+  }
+
+  // Charge the space pricing; only admins may set another amount
+  let totalAmount = priceOverrideBy ? validatedData.totalAmount : 0
+  let priceBreakdown: BookingPriceBreakdown | null = null
+  if (space) {
+    const pricing = await calculateBookingPriceInternal(
+      tenantId,
+      space,
+      validatedData.userId,
+      validatedData.startTime,
+      validatedData.endTime,
+      validatedData.services,
+      validatedData.discountCode
+    )
 
-    // Calculate total amount if not provided
-    let totalAmount = validatedData.totalAmount
-    if (totalAmount === 0 && (validatedData.spaceId || validatedData.services?.length)) {
-      // This would integrate with pricing calculator
-      // For now, we'll use a simple calculation
-      totalAmount = 100 // Placeholder
+    if (pricing.error || !pricing.breakdown) {
+      return { success: false, error: pricing.error || 'Failed to calculate booking price' }
     }
 
-    // Determine booking status based on space approval requirements
-    let bookingStatus = validatedData.status
-    if (space && space.requiresApproval) {
-      bookingStatus = 'PENDING'
+    priceBreakdown = priceOverrideBy
+      ? applyPriceOverride(pricing.breakdown, validatedData.totalAmount, priceOverrideBy)
+      : pricing.breakdown
+    totalAmount = priceBreakdown.total
+  }
+
+  // Determine booking status based on space approval requirements
+  let bookingStatus = validatedData.status
+  if (space && space.requiresApproval) {
+    bookingStatus = 'PENDING'
+  }
+
+  // Create booking, counting the discount code use in the same transaction
+  const booking = await prisma.$transaction(async (tx) => {
+    if (priceBreakdown?.discountCode && !await claimDiscountCodeUseInternal(tx, tenantId, priceBreakdown.discountCode)) {
+      return null
     }
 
-    // Create booking
-    const booking = await prisma.booking.create({
+    return tx.booking.create({
       data: {
         tenantId,
         spaceId: validatedData.spaceId!,
@@ -138,83 +329,63 @@ export async function createBookingAction(data: CreateBookingRequest): Promise<A
         endTime: validatedData.endTime,
         status: bookingStatus,
         cost: totalAmount,
+        priceBreakdown: toPriceBreakdownJson(priceBreakdown),
+        discountCode: priceBreakdown?.discountCode,
+        bookingServices: validatedData.services.length > 0 ? {
+          create: buildBookingServiceRows(tenantId, validatedData.services, priceBreakdown),
+        } : undefined,
       },
       include: {
         tenant: true,
         space: true,
         user: true,
+        bookingServices: {
+          include: { service: true },
+        },
       },
     })
+  })
 
-    // Create approval record if space requires approval
-    if (space && space.requiresApproval) {
-      await prisma.bookingApproval.create({
-        data: {
-          tenantId,
-          bookingId: booking.id,
-          status: 'PENDING',
-          requestedAt: new Date(),
-          notes: `Reserva requiere aprobación para el espacio: ${space.name}`,
-        },
-      })
-    }
+  if (!booking) {
+    return { success: false, error: 'Discount code usage limit reached' }
+  }
 
-    // Create booking service records if services are specified
-    // NOTE: BookingService model not currently defined in schema
-    // Uncomment when model is added
-    /*
-    if (validatedData.services && validatedData.services.length > 0) {
-      const bookingServices = validatedData.services.map(service => ({
+  // Create approval record if space requires approval
+  if (space && space.requiresApproval) {
+    await prisma.bookingApproval.create({
+      data: {
+        tenantId,
         bookingId: booking.id,
-        serviceId: service.serviceId,
-        quantity: service.quantity,
-        unitPrice: service.unitPrice,
-        totalPrice: service.totalPrice,
-        status: service.status,
-        notes: service.notes,
-        startTime: service.startTime,
-        endTime: service.endTime,
-        metadata: service.metadata ? JSON.stringify(service.metadata) : null,
-      }))
+        status: 'PENDING',
+        requestedAt: new Date(),
+        notes: `Reserva requiere aprobación para el espacio: ${space.name}`,
+      },
+    })
+  }
 
-      await prisma.bookingService.createMany({
-        data: bookingServices,
-      })
-    }
-    */
+  // Plan credits pay for the booking before the member is charged
+  const credits = space
+    ? await BookingCreditService.getInstance().applyToBooking(tenantId, booking, space.type)
+    : null
 
-    revalidatePath('/bookings')
+  await WebhookService.getInstance().emit(tenantId, 'booking.created', bookingWebhookData(booking))
 
-    return {
-      success: true,
-      data: {
-        ...booking,
-        cost: booking.cost ? Number(booking.cost) : null,
-        space: booking.space ? {
-          ...booking.space,
-          hourlyRate: booking.space.hourlyRate ? Number(booking.space.hourlyRate) : null,
-        } : null,
-        participants: booking.participants ? JSON.parse(booking.participants) : [],
-        services: booking.services ? JSON.parse(booking.services) : [],
-        recurrenceRule: booking.recurrenceRule ? JSON.parse(booking.recurrenceRule) : null,
-        metadata: booking.metadata ? JSON.parse(booking.metadata) : null,
-      }
-    }
-  } catch (error: any) {
-    console.error('Create booking error:', error)
-    
-    if (error.name === 'ZodError') {
-      return {
-        success: false,
-        error: 'Validation failed',
-        fieldErrors: error.errors.reduce((acc: any, err: any) => {
-          acc[err.path.join('.')] = err.message
-          return acc
-        }, {}),
-      }
+  return {
+    success: true,
+    data: {
+      ...booking,
+      cost: credits ? credits.overageAmount : booking.cost ? Number(booking.cost) : null,
+      credits,
+      space: booking.space ? {
+        ...booking.space,
+        hourlyRate: booking.space.hourlyRate ? Number(booking.space.hourlyRate) : null,
+        noShowFee: booking.space.noShowFee !== null ? Number(booking.space.noShowFee) : null,
+      } : null,
+      participants: booking.participants ? JSON.parse(booking.participants) : [],
+      services: booking.bookingServices.map(serializeBookingService),
+      recurrenceRule: booking.recurrenceRule ? JSON.parse(booking.recurrenceRule) : null,
+      metadata: booking.metadata ? JSON.parse(booking.metadata) : null,
     }
-
-    return { success: false, error: 'Failed to create booking' }
   }
 }
 
@@ -231,7 +402,7 @@ export async function updateBookingAction(data: UpdateBookingRequest): Promise<A
 
     // Validate input data
     const validatedData = updateBookingSchema.parse(data)
-    const { id, ...updateData } = validatedData
+    const { id, refundMethod, ...updateData } = validatedData
 
     // Check if booking exists and belongs to tenant
     const existingBooking = await prisma.booking.findFirst({
@@ -239,6 +410,11 @@ export async function updateBookingAction(data: UpdateBookingRequest): Promise<A
         id,
         tenantId,
       },
+      include: {
+        bookingServices: {
+          where: { status: { not: 'CANCELLED' } },
+        },
+      },
     })
 
     if (!existingBooking) {
@@ -265,6 +441,37 @@ export async function updateBookingAction(data: UpdateBookingRequest): Promise<A
       }
     }
 
+    // A cancellation policy replaces the space cancellation notice when one applies
+    const cancellationPolicy = updateData.status === 'CANCELLED'
+      ? await resolveCancellationPolicyInternal(tenantId, existingBooking.userId)
+      : null
+
+    // Enforce the space booking policy for a new slot or a cancellation
+    if (
+      updateData.startTime || updateData.endTime || updateData.spaceId ||
+      (updateData.status === 'CANCELLED' && !cancellationPolicy)
+    ) {
+      const policySpace = await prisma.space.findFirst({
+        where: {
+          id: updateData.spaceId || existingBooking.spaceId,
+          tenantId,
+        },
+      })
+
+      if (policySpace) {
+        const startTime = updateData.startTime || existingBooking.startTime
+        const endTime = updateData.endTime || existingBooking.endTime
+        const policy = await loadBookingPolicyInternal(tenantId, policySpace, startTime, endTime)
+        const violations = updateData.status === 'CANCELLED'
+          ? policy.validateCancellation(existingBooking.startTime)
+          : policy.validateBooking(startTime, endTime)
+
+        if (violations.length > 0) {
+          return bookingPolicyErrorResult(violations)
+        }
+      }
+    }
+
     // Check for conflicts if time or space is being changed
     if ((updateData.startTime || updateData.endTime || updateData.spaceId) && 
         (updateData.spaceId || existingBooking.spaceId)) {
@@ -288,34 +495,175 @@ export async function updateBookingAction(data: UpdateBookingRequest): Promise<A
             details: { conflicts }
           }
         }
+
+        const hold = await BookingWaitlistService.getInstance().findHold(tenantId, spaceId, startTime, endTime, existingBooking.userId)
+        if (hold) {
+          return {
+            success: false,
+            error: 'This slot is on hold for a waitlisted member',
+            details: { holdExpiresAt: hold.offerExpiresAt }
+          }
+        }
+      }
+    }
+
+    // Verify services exist if being replaced
+    if (updateData.services && updateData.services.length > 0) {
+      const serviceIds = updateData.services.map(s => s.serviceId)
+      const existingServices = await prisma.service.findMany({
+        where: {
+          id: { in: serviceIds },
+          tenantId,
+          isActive: true,
+        },
+        select: { id: true },
+      })
+
+      if (existingServices.length !== new Set(serviceIds).size) {
+        return { success: false, error: 'One or more services not found or not bookable' }
+      }
+    }
+
+    // Services with limited units must still be available for the new slot
+    if (updateData.services || updateData.startTime || updateData.endTime) {
+      const shortages = await checkServiceInventoryInternal(
+        tenantId,
+        updateData.services || existingBooking.bookingServices,
+        updateData.startTime || existingBooking.startTime,
+        updateData.endTime || existingBooking.endTime,
+        [id]
+      )
+
+      if (shortages.length > 0) {
+        return serviceInventoryErrorResult(shortages)
       }
     }
 
     // Prepare update data with JSON stringification
-    const processedUpdateData: any = { ...updateData }
+    const { services: updatedServices, totalAmount, ...bookingUpdateData } = updateData
+    const processedUpdateData: any = { ...bookingUpdateData }
+
+    // Services that stay on the booking after this update
+    const bookingServices = updatedServices || existingBooking.bookingServices.map(service => ({
+      serviceId: service.serviceId,
+      quantity: service.quantity,
+    }))
+
+    // Re-price the booking when its slot or services change, keeping the original discount code
+    let priceBreakdown: BookingPriceBreakdown | null = null
+    if (
+      updateData.startTime || updateData.endTime || updateData.spaceId || updateData.discountCode || updatedServices ||
+      totalAmount !== undefined
+    ) {
+      const space = await prisma.space.findFirst({
+        where: {
+          id: updateData.spaceId || existingBooking.spaceId,
+          tenantId,
+        },
+      })
+
+      if (space) {
+        const pricing = await calculateBookingPriceInternal(
+          tenantId,
+          space,
+          updateData.userId || existingBooking.userId,
+          updateData.startTime || existingBooking.startTime,
+          updateData.endTime || existingBooking.endTime,
+          bookingServices,
+          updateData.discountCode || existingBooking.discountCode || undefined
+        )
+
+        if (pricing.error || !pricing.breakdown) {
+          return { success: false, error: pricing.error || 'Failed to calculate booking price' }
+        }
+
+        // Only admins may charge another amount than the calculated price
+        priceBreakdown = canOverrideBookingPrice(user)
+          ? applyPriceOverride(pricing.breakdown, totalAmount, user.id)
+          : pricing.breakdown
+        processedUpdateData.priceBreakdown = priceBreakdown
+        processedUpdateData.discountCode = priceBreakdown.discountCode || null
+        processedUpdateData.cost = priceBreakdown.total
+      }
+    }
+
+    if (updatedServices) {
+      // Replace the booked services that have not been delivered yet
+      processedUpdateData.bookingServices = {
+        deleteMany: { status: { in: ['PENDING', 'CONFIRMED'] } },
+        create: buildBookingServiceRows(tenantId, updatedServices, priceBreakdown),
+      }
+    }
     if (updateData.participants) {
       processedUpdateData.participants = JSON.stringify(updateData.participants)
     }
-    if (updateData.services) {
-      processedUpdateData.services = JSON.stringify(updateData.services)
-    }
     if (updateData.recurrenceRule) {
       processedUpdateData.recurrenceRule = JSON.stringify(updateData.recurrenceRule)
     }
     if (updateData.metadata) {
       processedUpdateData.metadata = JSON.stringify(updateData.metadata)
     }
+    if (updateData.status === 'CANCELLED') {
+      processedUpdateData.cancelledAt = new Date()
+      processedUpdateData.cancelledBy = user.id
+    }
 
-    // Update booking
-    const booking = await prisma.booking.update({
-      where: { id },
-      data: processedUpdateData,
-      include: {
-        tenant: true,
-        space: true,
-        user: true,
-      },
-    })
+    // Update booking, settling a cancellation in the same transaction
+    const cancelling = updateData.status === 'CANCELLED'
+    const { result: booking, cancellations } = await cancelBookingsInternal(
+      tenantId,
+      cancellationPolicy,
+      cancelling ? [existingBooking] : [],
+      refundMethod,
+      async (tx, cancelledIds) => {
+        // Someone else cancelled the booking in the meantime
+        if (cancelling && cancelledIds.length === 0) return null
+
+        return tx.booking.update({
+          where: { id },
+          data: processedUpdateData,
+          include: {
+            tenant: true,
+            space: true,
+            user: true,
+            bookingServices: {
+              include: { service: true },
+            },
+          },
+        })
+      }
+    )
+
+    if (!booking) {
+      return { success: false, error: 'Booking is already cancelled' }
+    }
+
+    const cancellation = cancellations[0] || null
+
+    // Completing a booking rolls its services into billable consumptions
+    if (updateData.status === 'COMPLETED') {
+      await recordBookingServiceConsumptionsInternal(tenantId, id)
+    }
+
+    // Cancelled bookings give their plan credits back, re-priced ones consume them again
+    let credits = null
+    if (priceBreakdown || updateData.status === 'CANCELLED') {
+      await BookingCreditService.getInstance().releaseForBooking(tenantId, id)
+
+      if (priceBreakdown && updateData.status !== 'CANCELLED' && booking.space) {
+        credits = await BookingCreditService.getInstance().applyToBooking(tenantId, booking, booking.space.type)
+      }
+    }
+
+    // Offer the original slot to the waitlist once the booking releases it
+    const releasesSlot = updateData.status === 'CANCELLED' || updateData.status === 'NO_SHOW'
+    const movesSlot = booking.spaceId !== existingBooking.spaceId ||
+      booking.startTime.getTime() !== existingBooking.startTime.getTime() ||
+      booking.endTime.getTime() !== existingBooking.endTime.getTime()
+
+    if (existingBooking.spaceId && (releasesSlot || movesSlot)) {
+      await BookingWaitlistService.getInstance().promote(tenantId, existingBooking.spaceId, existingBooking.startTime, existingBooking.endTime)
+    }
 
     revalidatePath('/bookings')
     revalidatePath(`/bookings/${id}`)
@@ -325,9 +673,12 @@ export async function updateBookingAction(data: UpdateBookingRequest): Promise<A
       data: {
         ...booking,
         participants: booking.participants ? JSON.parse(booking.participants) : [],
-        services: booking.services ? JSON.parse(booking.services) : [],
+        services: booking.bookingServices.map(serializeBookingService),
         recurrenceRule: booking.recurrenceRule ? JSON.parse(booking.recurrenceRule) : null,
         metadata: booking.metadata ? JSON.parse(booking.metadata) : null,
+        ...(credits && { cost: credits.overageAmount }),
+        credits,
+        cancellation,
       }
     }
   } catch (error: any) {
@@ -351,7 +702,7 @@ export async function updateBookingAction(data: UpdateBookingRequest): Promise<A
 /**
  * Cancel/delete a booking
  */
-export async function deleteBookingAction(data: DeleteBookingRequest): Promise<ActionResult<void>> {
+export async function deleteBookingAction(data: DeleteBookingRequest): Promise<ActionResult<any>> {
   try {
     // Get tenant context and validate auth
     const { tenantId, user } = await getTenantContext()
@@ -368,37 +719,88 @@ export async function deleteBookingAction(data: DeleteBookingRequest): Promise<A
         id: validatedData.id,
         tenantId,
       },
+      include: { space: true },
     })
 
     if (!existingBooking) {
       return { success: false, error: 'Booking not found' }
     }
 
-    // Update booking status to cancelled instead of deleting
-    await prisma.booking.update({
-      where: { id: validatedData.id },
-      data: { 
-        status: 'CANCELLED',
-        cancellationReason: validatedData.reason,
-        cancellationNotes: validatedData.notes,
-        cancelledAt: new Date(),
-        cancelledBy: user.id,
-      },
-    })
+    if (existingBooking.status === 'CANCELLED') {
+      return { success: false, error: 'Booking is already cancelled' }
+    }
 
-    // Update associated booking services to cancelled
-    // NOTE: BookingService model not currently defined in schema
-    // Uncomment when model is added
-    /*
-    await prisma.bookingService.updateMany({
-      where: { bookingId: validatedData.id },
-      data: { status: 'CANCELLED' },
-    })
-    */
+    // A cancellation policy decides the refund and fees for late cancellations,
+    // otherwise cancellations must respect the space cancellation notice
+    const cancellationPolicy = await resolveCancellationPolicyInternal(tenantId, existingBooking.userId)
 
-    revalidatePath('/bookings')
-    
-    return { success: true }
+    if (!cancellationPolicy) {
+      const policy = await loadBookingPolicyInternal(
+        tenantId,
+        existingBooking.space,
+        existingBooking.startTime,
+        existingBooking.endTime
+      )
+      const violations = policy.validateCancellation(existingBooking.startTime)
+
+      if (violations.length > 0) {
+        return bookingPolicyErrorResult(violations)
+      }
+    }
+
+    const { cancelledIds, cancellations } = await cancelBookingsInternal(
+      tenantId,
+      cancellationPolicy,
+      [existingBooking],
+      validatedData.refundMethod,
+      async (tx, cancelledIds) => {
+        if (cancelledIds.length === 0) return
+
+        // Update booking status to cancelled instead of deleting
+        await tx.booking.update({
+          where: { id: validatedData.id },
+          data: { 
+            status: 'CANCELLED',
+            cancellationReason: validatedData.reason,
+            cancellationNotes: validatedData.notes,
+            cancelledAt: new Date(),
+            cancelledBy: user.id,
+          },
+        })
+
+        // Update associated booking services to cancelled
+        await tx.bookingService.updateMany({
+          where: {
+            bookingId: validatedData.id,
+            status: { in: ['PENDING', 'CONFIRMED'] },
+          },
+          data: { status: 'CANCELLED' },
+        })
+      }
+    )
+
+    // Someone else cancelled the booking in the meantime
+    if (cancelledIds.length === 0) {
+      return { success: false, error: 'Booking is already cancelled' }
+    }
+
+    const cancellation = cancellations[0] || null
+
+    // Give back the plan credits the booking used
+    await BookingCreditService.getInstance().releaseForBooking(tenantId, validatedData.id)
+
+    // Offer the freed slot to the waitlist
+    await BookingWaitlistService.getInstance().promote(tenantId, existingBooking.spaceId, existingBooking.startTime, existingBooking.endTime)
+
+    await WebhookService.getInstance().emit(tenantId, 'booking.cancelled', {
+      ...bookingWebhookData({ ...existingBooking, status: 'CANCELLED' }),
+      reason: validatedData.reason || null,
+    })
+
+    revalidatePath('/bookings')
+    revalidatePath(`/bookings/${validatedData.id}`)
+    
+    return { success: true, data: { cancellation } }
   } catch (error: any) {
     console.error('Delete booking error:', error)
     
@@ -441,6 +843,23 @@ export async function getBookingAction(data: GetBookingRequest): Promise<ActionR
         tenant: true,
         space: true,
         user: true,
+        recurrence: true,
+        bookingServices: {
+          include: { service: true },
+        },
+        cancellation: true,
+        bundle: {
+          include: {
+            bookings: {
+              include: {
+                space: {
+                  select: { id: true, name: true, type: true },
+                },
+              },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+        },
       },
     })
 
@@ -453,13 +872,30 @@ export async function getBookingAction(data: GetBookingRequest): Promise<ActionR
       data: {
         ...booking,
         cost: booking.cost ? Number(booking.cost) : null,
+        cancellation: booking.cancellation ? {
+          ...booking.cancellation,
+          noticeHours: Number(booking.cancellation.noticeHours),
+          paidAmount: Number(booking.cancellation.paidAmount),
+          refundAmount: Number(booking.cancellation.refundAmount),
+          feeAmount: Number(booking.cancellation.feeAmount),
+          outstandingFee: Number(booking.cancellation.outstandingFee),
+        } : null,
+        bundle: booking.bundle ? {
+          ...booking.bundle,
+          cost: booking.bundle.cost !== null ? Number(booking.bundle.cost) : null,
+          bookings: booking.bundle.bookings.map(bundleBooking => ({
+            ...bundleBooking,
+            cost: bundleBooking.cost !== null ? Number(bundleBooking.cost) : null,
+          })),
+        } : null,
         space: booking.space ? {
           ...booking.space,
           hourlyRate: booking.space.hourlyRate ? Number(booking.space.hourlyRate) : null,
+          noShowFee: booking.space.noShowFee !== null ? Number(booking.space.noShowFee) : null,
           area: booking.space.area ? Number(booking.space.area) : null,
         } : null,
         participants: booking.participants ? JSON.parse(booking.participants) : [],
-        services: booking.services ? JSON.parse(booking.services) : [],
+        services: booking.bookingServices.map(serializeBookingService),
         recurrenceRule: booking.recurrenceRule ? JSON.parse(booking.recurrenceRule) : null,
         metadata: booking.metadata ? JSON.parse(booking.metadata) : null,
       }
@@ -555,6 +991,10 @@ export async function listBookingsAction(data: ListBookingsRequest = {}): Promis
         space: true,
         user: true,
         approval: true,
+        recurrence: true,
+        bookingServices: {
+          include: { service: true },
+        },
       },
     })
 
@@ -565,9 +1005,10 @@ export async function listBookingsAction(data: ListBookingsRequest = {}): Promis
       space: booking.space ? {
         ...booking.space,
         hourlyRate: booking.space.hourlyRate ? Number(booking.space.hourlyRate) : null,
+        noShowFee: booking.space.noShowFee !== null ? Number(booking.space.noShowFee) : null,
       } : null,
       participants: booking.participants ? JSON.parse(booking.participants) : [],
-      services: booking.services ? JSON.parse(booking.services) : [],
+      services: booking.bookingServices.map(serializeBookingService),
       recurrenceRule: booking.recurrenceRule ? JSON.parse(booking.recurrenceRule) : null,
       metadata: booking.metadata ? JSON.parse(booking.metadata) : null,
     }))
@@ -786,6 +1227,9 @@ export async function checkOutBookingAction(data: CheckOutBookingRequest): Promi
       },
     })
 
+    // Roll booked services into billable consumptions
+    await recordBookingServiceConsumptionsInternal(tenantId, validatedData.id)
+
     revalidatePath('/bookings')
     revalidatePath(`/bookings/${validatedData.id}`)
     
@@ -879,6 +1323,42 @@ export async function approveBookingAction(data: ApproveBookingRequest): Promise
       }),
     ])
 
+    // A bundle is approved or rejected as a whole through the approval of one of its bookings
+    const decidedBookingIds = [validatedData.id]
+    if (booking.bundleId) {
+      const siblings = await prisma.booking.findMany({
+        where: {
+          bundleId: booking.bundleId,
+          tenantId,
+          status: 'PENDING',
+        },
+        select: { id: true },
+      })
+      decidedBookingIds.push(...siblings.map(sibling => sibling.id))
+
+      await prisma.$transaction([
+        prisma.booking.updateMany({
+          where: { id: { in: siblings.map(sibling => sibling.id) } },
+          data: {
+            status: validatedData.approved ? 'CONFIRMED' : 'CANCELLED',
+            cancellationReason: validatedData.approved ? null : 'ADMIN_REJECTED',
+            cancellationNotes: validatedData.approved ? null : validatedData.notes,
+          },
+        }),
+        prisma.bookingBundle.update({
+          where: { id: booking.bundleId },
+          data: { status: validatedData.approved ? 'CONFIRMED' : 'CANCELLED' },
+        }),
+      ])
+    }
+
+    // Rejected bookings give back the plan credits they reserved
+    if (!validatedData.approved) {
+      for (const bookingId of decidedBookingIds) {
+        await BookingCreditService.getInstance().releaseForBooking(tenantId, bookingId)
+      }
+    }
+
     revalidatePath('/bookings')
     revalidatePath(`/bookings/${validatedData.id}`)
     
@@ -910,6 +1390,2769 @@ export async function approveBookingAction(data: ApproveBookingRequest): Promise
   }
 }
 
+/**
+ * Calculate the price of a booking without creating it
+ */
+export async function calculateBookingPriceAction(data: CalculateBookingPriceRequest): Promise<ActionResult<BookingPriceBreakdown>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = calculateBookingPriceSchema.parse(data)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: validatedData.spaceId,
+        tenantId,
+        isActive: true,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found or not available' }
+    }
+
+    const pricing = await calculateBookingPriceInternal(
+      tenantId,
+      space,
+      user?.id || null,
+      validatedData.startTime,
+      validatedData.endTime,
+      validatedData.services,
+      validatedData.discountCode
+    )
+
+    if (pricing.error || !pricing.breakdown) {
+      return { success: false, error: pricing.error || 'Failed to calculate booking price' }
+    }
+
+    return { success: true, data: pricing.breakdown }
+  } catch (error: any) {
+    console.error('Calculate booking price error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to calculate booking price' }
+  }
+}
+
+/**
+ * Check a booking slot against the space booking policy
+ */
+export async function checkBookingPolicyAction(data: CheckBookingPolicyRequest): Promise<ActionResult<{ violations: BookingPolicyViolation[] }>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = checkBookingPolicySchema.parse(data)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: validatedData.spaceId,
+        tenantId,
+        isActive: true,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found or not available' }
+    }
+
+    const policy = await loadBookingPolicyInternal(
+      tenantId,
+      space,
+      validatedData.startTime,
+      validatedData.endTime,
+      validatedData.language
+    )
+
+    return {
+      success: true,
+      data: {
+        violations: policy.validateBooking(validatedData.startTime, validatedData.endTime, {
+          isRecurring: validatedData.isRecurring,
+        }),
+      },
+    }
+  } catch (error: any) {
+    console.error('Check booking policy error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to check booking policy' }
+  }
+}
+
+/**
+ * Materialise the upcoming occurrences of a recurring booking series,
+ * checking each occurrence for conflicts
+ */
+export async function generateRecurringBookingsAction(data: GenerateRecurringBookingsRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = generateRecurringBookingsSchema.parse(data)
+
+    const template = await prisma.booking.findFirst({
+      where: {
+        id: validatedData.templateBookingId,
+        tenantId,
+      },
+      include: {
+        space: true,
+        recurrence: true,
+        bookingServices: {
+          where: { status: { not: 'CANCELLED' } },
+        },
+        occurrences: {
+          select: { occurrenceDate: true },
+        },
+      },
+    })
+
+    if (!template) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    if (!template.recurrence) {
+      return { success: false, error: 'Booking is not the first occurrence of a recurring series' }
+    }
+
+    const seriesStart = template.occurrenceDate || template.startTime
+    const duration = template.endTime.getTime() - template.startTime.getTime()
+
+    // Occurrences that already exist as bookings, including moved or cancelled ones
+    const existingKeys = new Set([
+      getOccurrenceKey(seriesStart),
+      ...template.occurrences
+        .filter(occurrence => occurrence.occurrenceDate)
+        .map(occurrence => getOccurrenceKey(occurrence.occurrenceDate!)),
+    ])
+
+    const pendingOccurrences = expandRecurrence(
+      toRecurrenceConfig(template.recurrence),
+      seriesStart,
+      duration,
+      { from: new Date(), until: validatedData.generateUntil }
+    )
+      .filter(occurrence => !existingKeys.has(getOccurrenceKey(occurrence.occurrenceDate)))
+      .slice(0, validatedData.maxBookings)
+
+    const templateServices = template.bookingServices.map(service => ({
+      serviceId: service.serviceId,
+      quantity: service.quantity,
+    }))
+
+    // Occurrences follow the same space policy as single bookings
+    const policy = await loadBookingPolicyInternal(
+      tenantId,
+      template.space,
+      pendingOccurrences[0]?.startTime || seriesStart,
+      pendingOccurrences[pendingOccurrences.length - 1]?.endTime || template.endTime
+    )
+
+    // Check and price every occurrence before creating any of them
+    const report = []
+    for (const occurrence of pendingOccurrences) {
+      const violations = policy.validateBooking(occurrence.startTime, occurrence.endTime, { isRecurring: true })
+      const conflicts = await checkBookingConflictsInternal(
+        template.spaceId,
+        occurrence.startTime,
+        occurrence.endTime,
+        tenantId
+      )
+
+      let priceBreakdown: BookingPriceBreakdown | null = null
+      if (conflicts.length === 0 && violations.length === 0) {
+        const pricing = await calculateBookingPriceInternal(
+          tenantId,
+          template.space,
+          template.userId,
+          occurrence.startTime,
+          occurrence.endTime,
+          templateServices
+        )
+
+        if (pricing.error || !pricing.breakdown) {
+          return { success: false, error: pricing.error || 'Failed to calculate booking price' }
+        }
+
+        priceBreakdown = pricing.breakdown
+      }
+
+      report.push({ ...occurrence, conflicts, violations, priceBreakdown })
+    }
+
+    const conflicting = report
+      .filter(occurrence => occurrence.conflicts.length > 0 || occurrence.violations.length > 0)
+      .map(occurrence => ({
+        index: occurrence.index,
+        occurrenceDate: occurrence.occurrenceDate,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        conflicts: occurrence.conflicts,
+        violations: occurrence.violations,
+      }))
+
+    if (conflicting.length > 0 && !validatedData.skipConflicts) {
+      return {
+        success: false,
+        error: 'One or more occurrences conflict with existing reservations or the space booking policy',
+        details: { conflicts: conflicting },
+      }
+    }
+
+    const available = report.filter(occurrence => occurrence.priceBreakdown)
+
+    if (validatedData.dryRun) {
+      return {
+        success: true,
+        data: {
+          created: [],
+          occurrences: available.map(occurrence => ({
+            index: occurrence.index,
+            occurrenceDate: occurrence.occurrenceDate,
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            cost: occurrence.priceBreakdown?.total ?? null,
+          })),
+          conflicts: validatedData.notifyConflicts ? conflicting : [],
+        },
+      }
+    }
+
+    const created = await prisma.$transaction(
+      available.map(occurrence => {
+        const offset = occurrence.startTime.getTime() - template.startTime.getTime()
+
+        return prisma.booking.create({
+          data: {
+            tenantId,
+            spaceId: template.spaceId,
+            userId: template.userId,
+            title: template.title,
+            description: template.description,
+            startTime: occurrence.startTime,
+            endTime: occurrence.endTime,
+            status: template.status === 'PENDING' ? 'PENDING' : 'CONFIRMED',
+            cost: occurrence.priceBreakdown!.total,
+            priceBreakdown: toPriceBreakdownJson(occurrence.priceBreakdown),
+            parentBookingId: template.id,
+            occurrenceDate: occurrence.occurrenceDate,
+            bookingServices: template.bookingServices.length > 0 ? {
+              create: buildBookingServiceRows(
+                tenantId,
+                template.bookingServices.map(service => ({
+                  serviceId: service.serviceId,
+                  quantity: service.quantity,
+                  unitPrice: Number(service.unitPrice),
+                  totalPrice: Number(service.totalPrice),
+                  status: 'PENDING' as const,
+                  notes: service.notes || undefined,
+                  startTime: service.startTime ? new Date(service.startTime.getTime() + offset) : undefined,
+                  endTime: service.endTime ? new Date(service.endTime.getTime() + offset) : undefined,
+                  metadata: (service.metadata as Record<string, any>) || undefined,
+                })),
+                occurrence.priceBreakdown
+              ),
+            } : undefined,
+          },
+          select: {
+            id: true,
+            startTime: true,
+            endTime: true,
+            status: true,
+            cost: true,
+            occurrenceDate: true,
+          },
+        })
+      })
+    )
+
+    // Anchor the first occurrence so later series edits keep matching dates
+    if (!template.occurrenceDate) {
+      await prisma.booking.update({
+        where: { id: template.id },
+        data: { occurrenceDate: template.startTime },
+      })
+    }
+
+    for (const booking of created) {
+      await WebhookService.getInstance().emit(tenantId, 'booking.created', bookingWebhookData({
+        ...booking,
+        spaceId: template.spaceId,
+        userId: template.userId,
+        title: template.title,
+      }))
+    }
+
+    revalidatePath('/bookings')
+
+    return {
+      success: true,
+      data: {
+        created: created.map(booking => ({
+          ...booking,
+          cost: booking.cost ? Number(booking.cost) : null,
+        })),
+        occurrences: [],
+        conflicts: validatedData.notifyConflicts ? conflicting : [],
+      },
+    }
+  } catch (error: any) {
+    console.error('Generate recurring bookings error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to generate recurring bookings' }
+  }
+}
+
+/**
+ * Edit one occurrence, an occurrence and the ones following it, or a whole recurring series
+ */
+export async function updateBookingSeriesAction(data: UpdateBookingSeriesRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = updateBookingSeriesSchema.parse(data)
+    const { id, scope, ...changes } = validatedData
+
+    const booking = await prisma.booking.findFirst({
+      where: { id, tenantId },
+      include: { recurrence: true },
+    })
+
+    if (!booking) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    const rootId = booking.parentBookingId || (booking.recurrence ? booking.id : null)
+    if (!rootId) {
+      return { success: false, error: 'Booking is not part of a recurring series' }
+    }
+
+    const anchor = booking.occurrenceDate || booking.startTime
+
+    // A single occurrence is edited like any other booking; its occurrence date keeps it in the series
+    if (scope === 'THIS') {
+      if (!booking.occurrenceDate) {
+        await prisma.booking.update({
+          where: { id },
+          data: { occurrenceDate: anchor },
+        })
+      }
+
+      return await updateBookingAction({ id, ...changes })
+    }
+
+    if (booking.status === 'COMPLETED' || booking.status === 'CANCELLED') {
+      return { success: false, error: 'Cannot modify completed or cancelled booking' }
+    }
+
+    // Series edits move every occurrence by the same amount, so they must stay on their own day
+    const newStart = changes.startTime || booking.startTime
+    const newEnd = changes.endTime || new Date(newStart.getTime() + booking.endTime.getTime() - booking.startTime.getTime())
+    if (getOccurrenceKey(newStart) !== getOccurrenceKey(booking.startTime)) {
+      return { success: false, error: 'Series edits can only change the time of day; reschedule single occurrences instead' }
+    }
+    if (newEnd <= newStart) {
+      return { success: false, error: 'End time must be after start time' }
+    }
+
+    const shift = newStart.getTime() - booking.startTime.getTime()
+    const duration = newEnd.getTime() - newStart.getTime()
+    const timeChanged = !!(changes.startTime || changes.endTime)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: changes.spaceId || booking.spaceId,
+        tenantId,
+        isActive: true,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found or not available' }
+    }
+
+    const members = await getSeriesMembersInternal(tenantId, rootId, scope === 'FOLLOWING' ? anchor : undefined)
+    const now = new Date()
+    const policy = await loadBookingPolicyInternal(
+      tenantId,
+      space,
+      new Date((members[0]?.startTime || newStart).getTime() - Math.abs(shift)),
+      new Date((members[members.length - 1]?.endTime || newEnd).getTime() + Math.abs(shift))
+    )
+
+    // Check and price every occurrence before updating any of them
+    const updates = []
+    const conflicting = []
+    for (const member of members) {
+      // Occurrences that already started keep their slot
+      const reschedule = (timeChanged || !!changes.spaceId) && member.startTime > now
+      const startTime = reschedule && timeChanged ? new Date(member.startTime.getTime() + shift) : member.startTime
+      const endTime = reschedule && timeChanged ? new Date(startTime.getTime() + duration) : member.endTime
+
+      const memberUpdate: any = {
+        title: changes.title,
+        description: changes.description,
+      }
+
+      if (reschedule) {
+        const violations = policy.validateBooking(startTime, endTime, { isRecurring: true })
+        const conflicts = await checkBookingConflictsInternal(space.id, startTime, endTime, tenantId, member.id)
+        if (conflicts.length > 0 || violations.length > 0) {
+          conflicting.push({ id: member.id, occurrenceDate: member.occurrenceDate, startTime, endTime, conflicts, violations })
+          continue
+        }
+
+        const pricing = await calculateBookingPriceInternal(
+          tenantId,
+          space,
+          member.userId,
+          startTime,
+          endTime,
+          member.bookingServices.map(service => ({
+            serviceId: service.serviceId,
+            quantity: service.quantity,
+          })),
+          member.discountCode || undefined
+        )
+
+        if (pricing.error || !pricing.breakdown) {
+          return { success: false, error: pricing.error || 'Failed to calculate booking price' }
+        }
+
+        memberUpdate.spaceId = changes.spaceId
+        memberUpdate.startTime = startTime
+        memberUpdate.endTime = endTime
+        memberUpdate.occurrenceDate = new Date((member.occurrenceDate || member.startTime).getTime() + (timeChanged ? shift : 0))
+        memberUpdate.cost = pricing.breakdown.total
+        memberUpdate.priceBreakdown = pricing.breakdown
+        memberUpdate.discountCode = pricing.breakdown.discountCode || null
+      }
+
+      updates.push({ id: member.id, data: memberUpdate })
+    }
+
+    if (conflicting.length > 0) {
+      return {
+        success: false,
+        error: 'One or more occurrences conflict with existing reservations or the space booking policy',
+        details: { conflicts: conflicting },
+      }
+    }
+
+    const operations: any[] = updates.map(update =>
+      prisma.booking.update({
+        where: { id: update.id },
+        data: update.data,
+      })
+    )
+
+    // Editing "this and following" from the middle of a series splits it into a new series
+    if (scope === 'FOLLOWING' && rootId !== booking.id) {
+      operations.push(...await splitBookingSeriesInternal(tenantId, rootId, booking.id, anchor, timeChanged ? shift : 0))
+    }
+
+    await prisma.$transaction(operations)
+
+    revalidatePath('/bookings')
+    revalidatePath(`/bookings/${id}`)
+
+    return {
+      success: true,
+      data: {
+        updated: updates.map(update => update.id),
+        seriesId: scope === 'FOLLOWING' ? booking.id : rootId,
+      },
+    }
+  } catch (error: any) {
+    console.error('Update booking series error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update booking series' }
+  }
+}
+
+/**
+ * Cancel one occurrence, an occurrence and the ones following it, or a whole recurring series
+ */
+export async function cancelBookingSeriesAction(data: CancelBookingSeriesRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = cancelBookingSeriesSchema.parse(data)
+
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+      include: { recurrence: true },
+    })
+
+    if (!booking) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    const rootId = booking.parentBookingId || (booking.recurrence ? booking.id : null)
+    if (!rootId) {
+      return { success: false, error: 'Booking is not part of a recurring series' }
+    }
+
+    const root = rootId === booking.id
+      ? booking
+      : await prisma.booking.findFirst({
+        where: { id: rootId, tenantId },
+        include: { recurrence: true },
+      })
+
+    const anchor = booking.occurrenceDate || booking.startTime
+    const seriesStart = root?.occurrenceDate || root?.startTime || anchor
+
+    const members = validatedData.scope === 'THIS'
+      ? [booking]
+      : await getSeriesMembersInternal(tenantId, rootId, validatedData.scope === 'FOLLOWING' ? anchor : undefined)
+    const cancellable = members.filter(member => ['PENDING', 'CONFIRMED'].includes(member.status))
+
+    // A cancellation policy decides refunds and fees per occurrence, otherwise
+    // cancellations must respect the space cancellation notice
+    const cancellationPolicy = await resolveCancellationPolicyInternal(tenantId, booking.userId)
+    const space = cancellationPolicy
+      ? null
+      : await prisma.space.findFirst({
+        where: { id: booking.spaceId, tenantId },
+      })
+
+    if (space) {
+      const policy = await loadBookingPolicyInternal(tenantId, space, booking.startTime, booking.endTime)
+      const violations = cancellable.flatMap(member => policy.validateCancellation(member.startTime))
+
+      if (violations.length > 0) {
+        return bookingPolicyErrorResult(violations.slice(0, 1))
+      }
+    }
+
+    const { cancelledIds, cancellations } = await cancelBookingsInternal(
+      tenantId,
+      cancellationPolicy,
+      cancellable,
+      validatedData.refundMethod,
+      async (tx, cancelledIds) => {
+        await tx.booking.updateMany({
+          where: { id: { in: cancelledIds } },
+          data: {
+            status: 'CANCELLED',
+            cancellationReason: validatedData.reason,
+            cancelledAt: new Date(),
+            cancelledBy: user.id,
+          },
+        })
+        await tx.bookingService.updateMany({
+          where: {
+            bookingId: { in: cancelledIds },
+            status: { in: ['PENDING', 'CONFIRMED'] },
+          },
+          data: { status: 'CANCELLED' },
+        })
+
+        if (root?.recurrence) {
+          if (validatedData.scope === 'THIS') {
+            // Record the skipped date so the occurrence is never generated again
+            const exceptions = toRecurrenceConfig(root.recurrence).exceptions || []
+            await tx.bookingRecurrence.update({
+              where: { id: root.recurrence.id },
+              data: {
+                exceptions: [...exceptions, anchor].map(date => date.toISOString()),
+              },
+            })
+          } else {
+            // End the series right before the first cancelled occurrence
+            const cutOff = validatedData.scope === 'ALL' ? seriesStart : anchor
+            await tx.bookingRecurrence.update({
+              where: { id: root.recurrence.id },
+              data: {
+                endDate: new Date(cutOff.getTime() - 1),
+                occurrences: null,
+              },
+            })
+          }
+        }
+      }
+    )
+
+    // Give back plan credits and offer each freed occurrence to the waitlist; occurrences
+    // cancelled concurrently were already released by that cancellation
+    for (const member of cancellable.filter(member => cancelledIds.includes(member.id))) {
+      await BookingCreditService.getInstance().releaseForBooking(tenantId, member.id)
+      await BookingWaitlistService.getInstance().promote(tenantId, member.spaceId, member.startTime, member.endTime)
+      await WebhookService.getInstance().emit(tenantId, 'booking.cancelled', {
+        ...bookingWebhookData({ ...member, status: 'CANCELLED' }),
+        reason: validatedData.reason || null,
+      })
+    }
+
+    revalidatePath('/bookings')
+    revalidatePath(`/bookings/${validatedData.id}`)
+
+    return { success: true, data: { cancelled: cancelledIds, cancellations } }
+  } catch (error: any) {
+    console.error('Cancel booking series error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to cancel booking series' }
+  }
+}
+
+/**
+ * Join the waitlist for a space and time slot that is already booked
+ */
+export async function joinWaitlistAction(data: JoinWaitlistRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = joinWaitlistSchema.parse(data)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: validatedData.spaceId,
+        tenantId,
+        isActive: true,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found or not available' }
+    }
+
+    // The requested slot must itself be bookable once it frees up
+    const policy = await loadBookingPolicyInternal(tenantId, space, validatedData.startTime, validatedData.endTime)
+    const violations = policy.validateBooking(validatedData.startTime, validatedData.endTime)
+
+    if (violations.length > 0) {
+      return bookingPolicyErrorResult(violations)
+    }
+
+    const conflicts = await checkBookingConflictsInternal(
+      validatedData.spaceId,
+      validatedData.startTime,
+      validatedData.endTime,
+      tenantId
+    )
+
+    if (conflicts.length === 0) {
+      return { success: false, error: 'This slot is available and can be booked directly' }
+    }
+
+    const existingEntry = await prisma.bookingWaitlistEntry.findFirst({
+      where: {
+        tenantId,
+        spaceId: validatedData.spaceId,
+        userId: user.id,
+        status: { in: ACTIVE_WAITLIST_STATUSES },
+        startTime: { lt: validatedData.endTime },
+        endTime: { gt: validatedData.startTime },
+      },
+    })
+
+    if (existingEntry) {
+      return { success: false, error: 'You are already on the waitlist for this slot' }
+    }
+
+    const entry = await prisma.bookingWaitlistEntry.create({
+      data: {
+        tenantId,
+        spaceId: validatedData.spaceId,
+        userId: user.id,
+        title: validatedData.title,
+        startTime: validatedData.startTime,
+        endTime: validatedData.endTime,
+        notes: validatedData.notes,
+        autoConfirm: validatedData.autoConfirm,
+      },
+    })
+
+    const position = await prisma.bookingWaitlistEntry.count({
+      where: {
+        tenantId,
+        spaceId: validatedData.spaceId,
+        status: { in: ACTIVE_WAITLIST_STATUSES },
+        startTime: { lt: validatedData.endTime },
+        endTime: { gt: validatedData.startTime },
+        createdAt: { lte: entry.createdAt },
+      },
+    })
+
+    revalidatePath('/bookings')
+
+    return { success: true, data: { ...entry, position } }
+  } catch (error: any) {
+    console.error('Join waitlist error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to join waitlist' }
+  }
+}
+
+/**
+ * Leave the waitlist, or decline a slot currently offered
+ */
+export async function leaveWaitlistAction(data: LeaveWaitlistRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = leaveWaitlistSchema.parse(data)
+
+    const entry = await prisma.bookingWaitlistEntry.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+    })
+
+    if (!entry) {
+      return { success: false, error: 'Waitlist entry not found' }
+    }
+
+    const isAdmin = ['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)
+    if (entry.userId !== user.id && !isAdmin) {
+      return { success: false, error: 'You can only leave your own waitlist entries' }
+    }
+
+    if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+      return { success: false, error: 'Waitlist entry is no longer active' }
+    }
+
+    await prisma.bookingWaitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: 'CANCELLED' },
+    })
+
+    // A declined offer passes the slot to the next person in line
+    if (entry.status === 'OFFERED') {
+      await BookingWaitlistService.getInstance().promote(tenantId, entry.spaceId, entry.startTime, entry.endTime)
+    }
+
+    revalidatePath('/bookings')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Leave waitlist error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to leave waitlist' }
+  }
+}
+
+/**
+ * Accept a freed slot offered from the waitlist, creating the booking
+ */
+export async function acceptWaitlistOfferAction(data: AcceptWaitlistOfferRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = acceptWaitlistOfferSchema.parse(data)
+
+    await processExpiredWaitlistOffersInternal(tenantId)
+
+    const entry = await prisma.bookingWaitlistEntry.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+        userId: user.id,
+      },
+    })
+
+    if (!entry) {
+      return { success: false, error: 'Waitlist entry not found' }
+    }
+
+    if (entry.status !== 'OFFERED') {
+      return { success: false, error: 'This slot is not currently offered to you' }
+    }
+
+    const result = await confirmWaitlistEntryInternal(tenantId, entry)
+
+    if (result.success) {
+      revalidatePath('/bookings')
+    }
+
+    return result
+  } catch (error: any) {
+    console.error('Accept waitlist offer error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to accept waitlist offer' }
+  }
+}
+
+/**
+ * List waitlist entries for a space, a booking's slot or the whole tenant
+ */
+export async function listWaitlistAction(data: ListWaitlistRequest = {}): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = listWaitlistSchema.parse(data)
+
+    // Resolve holds that timed out before showing the queue
+    await processExpiredWaitlistOffersInternal(tenantId)
+
+    const where: any = {
+      tenantId,
+      status: validatedData.status || { in: ACTIVE_WAITLIST_STATUSES },
+    }
+
+    if (validatedData.spaceId) {
+      where.spaceId = validatedData.spaceId
+    }
+
+    if (validatedData.bookingId) {
+      const booking = await prisma.booking.findFirst({
+        where: {
+          id: validatedData.bookingId,
+          tenantId,
+        },
+      })
+
+      if (!booking) {
+        return { success: false, error: 'Booking not found' }
+      }
+
+      where.spaceId = booking.spaceId
+      where.startTime = { lt: booking.endTime }
+      where.endTime = { gt: booking.startTime }
+    }
+
+    const entries = await prisma.bookingWaitlistEntry.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      include: {
+        space: {
+          select: { id: true, name: true },
+        },
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+    })
+
+    // Members only see who else is waiting as a position in the queue
+    const isAdmin = ['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)
+
+    return {
+      success: true,
+      data: entries.map((entry, index) => ({
+        ...entry,
+        position: index + 1,
+        isOwn: entry.userId === user.id,
+        user: isAdmin || entry.userId === user.id ? entry.user : null,
+      })),
+    }
+  } catch (error: any) {
+    console.error('List waitlist error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to list waitlist' }
+  }
+}
+
+/**
+ * Resolve timed out waitlist offers for the tenant (admin only)
+ */
+export async function processWaitlistOffersAction(): Promise<ActionResult<{ confirmed: number; expired: number }>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const stats = await processExpiredWaitlistOffersInternal(tenantId)
+
+    revalidatePath('/bookings')
+
+    return { success: true, data: stats }
+  } catch (error: any) {
+    console.error('Process waitlist offers error:', error)
+    return { success: false, error: 'Failed to process waitlist offers' }
+  }
+}
+
+/**
+ * Resolve timed out waitlist offers across all tenants. Run by the scheduled job
+ * (see /api/cron/waitlist) and guarded by the same `Authorization: Bearer $CRON_SECRET`
+ */
+export async function processScheduledWaitlistOffersAction(): Promise<ActionResult<{ tenants: number; confirmed: number; expired: number }>> {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    const authorization = (await headers()).get('authorization')
+    if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const tenantIds = await BookingWaitlistService.getInstance().getTenantsWithExpiredOffers()
+    const totals = { tenants: tenantIds.length, confirmed: 0, expired: 0 }
+
+    for (const tenantId of tenantIds) {
+      const stats = await processExpiredWaitlistOffersInternal(tenantId)
+      totals.confirmed += stats.confirmed
+      totals.expired += stats.expired
+    }
+
+    return { success: true, data: totals }
+  } catch (error: any) {
+    console.error('Process scheduled waitlist offers error:', error)
+    return { success: false, error: 'Failed to process waitlist offers' }
+  }
+}
+
+/**
+ * Mark the tenant's unclaimed bookings as no-shows now instead of waiting for the scheduled job (admin only)
+ */
+export async function processNoShowsAction(): Promise<ActionResult<{ inspected: number; noShows: number }>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const result = await BookingNoShowService.getInstance().processNoShows({ tenantId })
+
+    revalidatePath('/bookings')
+    revalidatePath('/admin/booking-management')
+
+    return { success: true, data: { inspected: result.inspected, noShows: result.noShows.length } }
+  } catch (error: any) {
+    console.error('Process no-shows error:', error)
+    return { success: false, error: 'Failed to process no-shows' }
+  }
+}
+
+/**
+ * Preview what cancelling a booking would refund and charge under the member's cancellation policy
+ */
+export async function previewBookingCancellationAction(data: PreviewBookingCancellationRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = previewBookingCancellationSchema.parse(data)
+
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+    })
+
+    if (!booking) {
+      return { success: false, error: 'Booking not found' }
+    }
+
+    const isAdmin = ['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)
+    if (booking.userId !== user.id && !isAdmin) {
+      return { success: false, error: 'Access denied' }
+    }
+
+    const policy = await resolveCancellationPolicyInternal(tenantId, booking.userId)
+    if (!policy) {
+      return { success: true, data: { policy: null, outcome: null } }
+    }
+
+    const { outcome, paidAmount } = await evaluateBookingCancellationInternal(
+      tenantId,
+      booking,
+      policy,
+      validatedData.refundMethod
+    )
+
+    return {
+      success: true,
+      data: {
+        policy: {
+          id: policy.id,
+          name: policy.name,
+          refundMethod: policy.refundMethod,
+          tiers: parseCancellationTiers(policy.tiers),
+        },
+        outcome: { ...outcome, paidAmount },
+      },
+    }
+  } catch (error: any) {
+    console.error('Preview booking cancellation error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to preview booking cancellation' }
+  }
+}
+
+/**
+ * List the tenant's cancellation policies and the plans they can apply to (admin only)
+ */
+export async function listCancellationPoliciesAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const [policies, plans] = await Promise.all([
+      prisma.cancellationPolicy.findMany({
+        where: { tenantId },
+        include: {
+          plan: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.plan.findMany({
+        where: { tenantId, isActive: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        policies: policies.map(policy => ({
+          ...policy,
+          tiers: parseCancellationTiers(policy.tiers),
+        })),
+        plans,
+      },
+    }
+  } catch (error: any) {
+    console.error('List cancellation policies error:', error)
+    return { success: false, error: 'Failed to list cancellation policies' }
+  }
+}
+
+/**
+ * Create or update a cancellation policy for the tenant or one of its plans (admin only)
+ */
+export async function upsertCancellationPolicyAction(data: UpsertCancellationPolicyRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = upsertCancellationPolicySchema.parse(data)
+    const { id, ...policyData } = validatedData
+    const planId = policyData.planId || null
+
+    if (planId) {
+      const plan = await prisma.plan.findFirst({
+        where: { id: planId, tenantId },
+      })
+
+      if (!plan) {
+        return { success: false, error: 'Plan not found' }
+      }
+    }
+
+    if (id) {
+      const existingPolicy = await prisma.cancellationPolicy.findFirst({
+        where: { id, tenantId },
+      })
+
+      if (!existingPolicy) {
+        return { success: false, error: 'Cancellation policy not found' }
+      }
+    }
+
+    // Only one active policy per plan, or one active tenant default
+    if (policyData.isActive) {
+      const activeConflict = await prisma.cancellationPolicy.findFirst({
+        where: {
+          tenantId,
+          planId,
+          isActive: true,
+          ...(id && { id: { not: id } }),
+        },
+      })
+
+      if (activeConflict) {
+        return {
+          success: false,
+          error: planId
+            ? 'This plan already has an active cancellation policy'
+            : 'An active default cancellation policy already exists',
+        }
+      }
+    }
+
+    const values = {
+      planId,
+      name: policyData.name,
+      tiers: [...policyData.tiers].sort((a, b) => b.minNoticeHours - a.minNoticeHours),
+      refundMethod: policyData.refundMethod,
+      isActive: policyData.isActive,
+    }
+
+    const policy = id
+      ? await prisma.cancellationPolicy.update({
+        where: { id },
+        data: values,
+      })
+      : await prisma.cancellationPolicy.create({
+        data: { tenantId, ...values },
+      })
+
+    revalidatePath('/admin/booking-management')
+
+    return {
+      success: true,
+      data: { ...policy, tiers: parseCancellationTiers(policy.tiers) },
+    }
+  } catch (error: any) {
+    console.error('Upsert cancellation policy error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to save cancellation policy' }
+  }
+}
+
+/**
+ * Delete a cancellation policy (admin only). Recorded cancellations keep their amounts.
+ */
+export async function deleteCancellationPolicyAction(data: DeleteCancellationPolicyRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteCancellationPolicySchema.parse(data)
+
+    const policy = await prisma.cancellationPolicy.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+    })
+
+    if (!policy) {
+      return { success: false, error: 'Cancellation policy not found' }
+    }
+
+    await prisma.cancellationPolicy.delete({
+      where: { id: validatedData.id },
+    })
+
+    revalidatePath('/admin/booking-management')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete cancellation policy error:', error)
+    return { success: false, error: 'Failed to delete cancellation policy' }
+  }
+}
+
+/**
+ * Reserve several spaces and services together, e.g. a room, a projector and catering for an
+ * event. Every space is checked before anything is reserved and the bookings are created in a
+ * single transaction, so either the whole bundle is booked or nothing is.
+ */
+export async function createBookingBundleAction(data: CreateBookingBundleRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = createBookingBundleSchema.parse(data)
+    const { startTime, endTime } = validatedData
+
+    const spaces = await prisma.space.findMany({
+      where: {
+        id: { in: validatedData.spaceIds },
+        tenantId,
+        isActive: true,
+      },
+    })
+
+    if (spaces.length !== validatedData.spaceIds.length) {
+      return { success: false, error: 'One or more spaces not found or not available' }
+    }
+
+    // Keep the requested order, the first space carries the services and discount code
+    const orderedSpaces = validatedData.spaceIds.map(spaceId => spaces.find(space => space.id === spaceId)!)
+
+    const bookingUser = await prisma.user.findFirst({
+      where: {
+        id: validatedData.userId,
+        tenantId,
+      },
+    })
+
+    if (!bookingUser) {
+      return { success: false, error: 'User not found' }
+    }
+
+    const strikeStatus = await BookingNoShowService.getInstance().getStrikeStatus(tenantId, validatedData.userId)
+    if (strikeStatus.blockedUntil) {
+      return {
+        success: false,
+        error: 'Member cannot book after repeated no-shows',
+        details: { noShowStrikes: strikeStatus.strikes, blockedUntil: strikeStatus.blockedUntil }
+      }
+    }
+
+    if (await DunningService.getInstance().isClientSuspended(tenantId, bookingUser.clientId)) {
+      return { success: false, error: 'Member access is suspended for unpaid invoices' }
+    }
+
+    // Check every space before reserving any of them
+    const unavailable: Array<{ spaceId: string; spaceName: string; reason: string; details: any }> = []
+    for (const space of orderedSpaces) {
+      const policy = await loadBookingPolicyInternal(tenantId, space, startTime, endTime)
+      const violations = policy.validateBooking(startTime, endTime)
+      if (violations.length > 0) {
+        unavailable.push({ spaceId: space.id, spaceName: space.name, reason: 'POLICY', details: { violations } })
+        continue
+      }
+
+      const conflicts = await checkBookingConflictsInternal(space.id, startTime, endTime, tenantId)
+      if (conflicts.length > 0) {
+        unavailable.push({ spaceId: space.id, spaceName: space.name, reason: 'CONFLICT', details: { conflicts } })
+        continue
+      }
+
+      const hold = await BookingWaitlistService.getInstance().findHold(tenantId, space.id, startTime, endTime, validatedData.userId)
+      if (hold) {
+        unavailable.push({
+          spaceId: space.id,
+          spaceName: space.name,
+          reason: 'WAITLIST_HOLD',
+          details: { holdExpiresAt: hold.offerExpiresAt },
+        })
+      }
+    }
+
+    if (unavailable.length > 0) {
+      return {
+        success: false,
+        error: 'One or more spaces in the bundle are not available',
+        details: { unavailable },
+      }
+    }
+
+    if (validatedData.services.length > 0) {
+      const serviceIds = validatedData.services.map(service => service.serviceId)
+      const existingServices = await prisma.service.findMany({
+        where: {
+          id: { in: serviceIds },
+          tenantId,
+          isActive: true,
+        },
+        select: { id: true },
+      })
+
+      if (existingServices.length !== new Set(serviceIds).size) {
+        return { success: false, error: 'One or more services not found or not bookable' }
+      }
+
+      const shortages = await checkServiceInventoryInternal(tenantId, validatedData.services, startTime, endTime)
+      if (shortages.length > 0) {
+        return serviceInventoryErrorResult(shortages)
+      }
+    }
+
+    // Price each space on its own so every booking keeps its breakdown
+    const requests = splitBundleRequest(validatedData.spaceIds, validatedData.services, validatedData.discountCode)
+    const pricedSpaces: Array<{ space: any; services: typeof validatedData.services; breakdown: BookingPriceBreakdown }> = []
+    for (const [index, request] of requests.entries()) {
+      const space = orderedSpaces[index]
+      const pricing = await calculateBookingPriceInternal(
+        tenantId,
+        space,
+        validatedData.userId,
+        startTime,
+        endTime,
+        request.services,
+        request.discountCode
+      )
+
+      if (pricing.error || !pricing.breakdown) {
+        return { success: false, error: pricing.error || 'Failed to calculate booking price' }
+      }
+
+      pricedSpaces.push({ space, services: request.services, breakdown: pricing.breakdown })
+    }
+
+    // A single approval covers the bundle when any of its spaces requires one
+    const approvalSpace = orderedSpaces.find(space => space.requiresApproval)
+    const status = approvalSpace ? 'PENDING' : 'CONFIRMED'
+
+    const created = await prisma.$transaction(async (tx) => {
+      const discountCode = pricedSpaces[0].breakdown.discountCode
+      if (discountCode && !await claimDiscountCodeUseInternal(tx, tenantId, discountCode)) {
+        return null
+      }
+
+      const createdBundle = await tx.bookingBundle.create({
+        data: {
+          tenantId,
+          userId: validatedData.userId,
+          title: validatedData.title,
+          description: validatedData.description,
+          startTime,
+          endTime,
+          status,
+          cost: getBundleCost(pricedSpaces.map(priced => priced.breakdown)),
+        },
+      })
+
+      const createdBookings = []
+      for (const { space, services, breakdown } of pricedSpaces) {
+        const booking = await tx.booking.create({
+          data: {
+            tenantId,
+            spaceId: space.id,
+            userId: validatedData.userId,
+            bundleId: createdBundle.id,
+            title: validatedData.title,
+            description: validatedData.description,
+            startTime,
+            endTime,
+            status,
+            cost: breakdown.total,
+            priceBreakdown: toPriceBreakdownJson(breakdown),
+            discountCode: breakdown.discountCode,
+            bookingServices: services.length > 0 ? {
+              create: buildBookingServiceRows(tenantId, services, breakdown),
+            } : undefined,
+          },
+        })
+
+        if (approvalSpace?.id === space.id) {
+          await tx.bookingApproval.create({
+            data: {
+              tenantId,
+              bookingId: booking.id,
+              status: 'PENDING',
+              requestedAt: new Date(),
+              notes: `Reserva agrupada requiere aprobación para el espacio: ${space.name}`,
+            },
+          })
+        }
+
+        createdBookings.push({ booking, space })
+      }
+
+      return { bundle: createdBundle, bookings: createdBookings }
+    })
+
+    if (!created) {
+      return { success: false, error: 'Discount code usage limit reached' }
+    }
+
+    const { bundle, bookings } = created
+
+    // Plan credits pay for each space before the member is charged
+    let hasCredits = false
+    for (const { booking, space } of bookings) {
+      const credits = await BookingCreditService.getInstance().applyToBooking(tenantId, booking, space.type)
+      hasCredits = hasCredits || credits !== null
+    }
+
+    if (hasCredits) {
+      const costs = await prisma.booking.aggregate({
+        where: { bundleId: bundle.id },
+        _sum: { cost: true },
+      })
+
+      await prisma.bookingBundle.update({
+        where: { id: bundle.id },
+        data: { cost: costs._sum.cost || 0 },
+      })
+    }
+
+    for (const { booking } of bookings) {
+      await WebhookService.getInstance().emit(tenantId, 'booking.created', bookingWebhookData(booking))
+    }
+
+    revalidatePath('/bookings')
+
+    return await getBookingBundleInternal(tenantId, bundle.id)
+  } catch (error: any) {
+    console.error('Create booking bundle error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to create booking bundle' }
+  }
+}
+
+/**
+ * Get a booking bundle with its bookings and services
+ */
+export async function getBookingBundleAction(data: GetBookingBundleRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = getBookingBundleSchema.parse(data)
+
+    return await getBookingBundleInternal(tenantId, validatedData.id)
+  } catch (error: any) {
+    console.error('Get booking bundle error:', error)
+    return { success: false, error: 'Failed to get booking bundle' }
+  }
+}
+
+/**
+ * Cancel every booking of a bundle together
+ */
+export async function cancelBookingBundleAction(data: CancelBookingBundleRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = cancelBookingBundleSchema.parse(data)
+
+    const bundle = await prisma.bookingBundle.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+      include: {
+        bookings: {
+          where: { status: { in: ['PENDING', 'CONFIRMED'] } },
+          include: { space: true },
+        },
+      },
+    })
+
+    if (!bundle) {
+      return { success: false, error: 'Booking bundle not found' }
+    }
+
+    if (bundle.bookings.length === 0) {
+      return { success: false, error: 'Booking bundle is already cancelled' }
+    }
+
+    // A cancellation policy decides refunds and fees per booking, otherwise
+    // cancellations must respect the cancellation notice of every space
+    const cancellationPolicy = await resolveCancellationPolicyInternal(tenantId, bundle.userId)
+
+    if (!cancellationPolicy) {
+      for (const booking of bundle.bookings) {
+        const policy = await loadBookingPolicyInternal(tenantId, booking.space, booking.startTime, booking.endTime)
+        const violations = policy.validateCancellation(booking.startTime)
+
+        if (violations.length > 0) {
+          return bookingPolicyErrorResult(violations)
+        }
+      }
+    }
+
+    const { cancelledIds, cancellations } = await cancelBookingsInternal(
+      tenantId,
+      cancellationPolicy,
+      bundle.bookings,
+      validatedData.refundMethod,
+      async (tx, cancelledIds) => {
+        await tx.booking.updateMany({
+          where: { id: { in: cancelledIds } },
+          data: {
+            status: 'CANCELLED',
+            cancellationReason: validatedData.reason,
+            cancelledAt: new Date(),
+            cancelledBy: user.id,
+          },
+        })
+        await tx.bookingService.updateMany({
+          where: {
+            bookingId: { in: cancelledIds },
+            status: { in: ['PENDING', 'CONFIRMED'] },
+          },
+          data: { status: 'CANCELLED' },
+        })
+        await tx.bookingBundle.update({
+          where: { id: bundle.id },
+          data: { status: 'CANCELLED' },
+        })
+      }
+    )
+
+    for (const booking of bundle.bookings.filter(booking => cancelledIds.includes(booking.id))) {
+      await BookingCreditService.getInstance().releaseForBooking(tenantId, booking.id)
+      await BookingWaitlistService.getInstance().promote(tenantId, booking.spaceId, booking.startTime, booking.endTime)
+      await WebhookService.getInstance().emit(tenantId, 'booking.cancelled', {
+        ...bookingWebhookData({ ...booking, status: 'CANCELLED' }),
+        reason: validatedData.reason || null,
+      })
+    }
+
+    revalidatePath('/bookings')
+
+    return { success: true, data: { cancelled: cancelledIds, cancellations } }
+  } catch (error: any) {
+    console.error('Cancel booking bundle error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to cancel booking bundle' }
+  }
+}
+
+/**
+ * Get the current member's meeting-room credit balance for this billing period
+ */
+export async function getBookingCreditBalanceAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const balance = await BookingCreditService.getInstance().getBalance(tenantId, user.id)
+
+    return { success: true, data: balance }
+  } catch (error: any) {
+    console.error('Get booking credit balance error:', error)
+    return { success: false, error: 'Failed to get booking credit balance' }
+  }
+}
+
+/**
+ * Set the meeting-room credits a plan grants each billing period (admin only)
+ */
+export async function updatePlanBookingCreditsAction(data: UpdatePlanBookingCreditsRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updatePlanBookingCreditsSchema.parse(data)
+
+    const plan = await prisma.plan.findFirst({
+      where: {
+        id: validatedData.planId,
+        tenantId,
+      },
+    })
+
+    if (!plan) {
+      return { success: false, error: 'Plan not found' }
+    }
+
+    // Balances already opened keep the credits granted when the period started
+    const updatedPlan = await prisma.plan.update({
+      where: { id: validatedData.planId },
+      data: {
+        bookingCredits: validatedData.bookingCredits,
+        bookingCreditUnit: validatedData.bookingCreditUnit,
+        bookingCreditRollover: validatedData.bookingCreditRollover,
+        bookingCreditSpaceTypes: validatedData.bookingCreditSpaceTypes,
+      },
+    })
+
+    return {
+      success: true,
+      data: {
+        ...updatedPlan,
+        price: Number(updatedPlan.price),
+        bookingCredits: updatedPlan.bookingCredits !== null ? Number(updatedPlan.bookingCredits) : null,
+        bookingCreditRollover: updatedPlan.bookingCreditRollover !== null ? Number(updatedPlan.bookingCreditRollover) : null,
+      },
+    }
+  } catch (error: any) {
+    console.error('Update plan booking credits error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update plan booking credits' }
+  }
+}
+
+/**
+ * Internal helper function to price a booking from the space hourly rate,
+ * its room pricing rules, tenant price adjustments and an optional discount code.
+ * Rules are read in the tenant time zone and apply to the client of the booking user.
+ */
+async function calculateBookingPriceInternal(
+  tenantId: string,
+  space: any,
+  userId: string | null,
+  startTime: Date,
+  endTime: Date,
+  services: Array<{ serviceId: string; quantity: number }> = [],
+  discountCode?: string
+): Promise<{ breakdown?: BookingPriceBreakdown; error?: string }> {
+  const now = new Date()
+
+  const [billingSettings, bookingUser, pricingRules, priceAdjustments, serviceRecords] = await Promise.all([
+    prisma.billingSettings.findUnique({
+      where: { tenantId },
+      select: { currency: true, timezone: true },
+    }),
+    userId
+      ? prisma.user.findFirst({
+          where: { id: userId, tenantId },
+          select: { id: true, clientId: true },
+        })
+      : Promise.resolve(null),
+    prisma.roomPricingRule.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        OR: [{ spaceId: space.id }, { spaceId: null }],
+      },
+    }),
+    prisma.priceAdjustment.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        targetType: 'space',
+        adjustmentType: { in: BOOKING_ADJUSTMENT_TYPES },
+      },
+    }),
+    services.length > 0
+      ? prisma.service.findMany({
+          where: {
+            id: { in: services.map(s => s.serviceId) },
+            tenantId,
+          },
+        })
+      : Promise.resolve([]),
+  ])
+
+  let discountRules: DiscountRule[] = []
+  if (discountCode) {
+    const code = await prisma.discountCode.findFirst({
+      where: {
+        tenantId,
+        code: discountCode,
+        isActive: true,
+        validFrom: { lte: now },
+        validTo: { gte: now },
+      },
+    })
+
+    if (!code) {
+      return { error: 'Invalid or expired discount code' }
+    }
+
+    if (code.usageLimit !== null && code.usageCount >= code.usageLimit) {
+      return { error: 'Discount code usage limit reached' }
+    }
+
+    const applicableTo = Array.isArray(code.applicableTo) ? code.applicableTo as string[] : []
+    if (applicableTo.length > 0 && !applicableTo.some(target => ['all', 'booking', space.type].includes(target))) {
+      return { error: 'Discount code does not apply to this space' }
+    }
+
+    if (code.discountType !== 'PERCENTAGE' && code.discountType !== 'FIXED_AMOUNT') {
+      return { error: 'Discount code cannot be applied to bookings' }
+    }
+
+    discountRules = [{
+      id: code.id,
+      name: code.name,
+      type: code.discountType,
+      value: Number(code.value),
+      maxDiscount: code.maxDiscount ? Number(code.maxDiscount) : undefined,
+      conditions: code.minAmount ? { minAmount: Number(code.minAmount) } : undefined,
+      couponCode: code.code,
+      stackable: false,
+      priority: 1,
+      isActive: true,
+    }]
+  }
+
+  const ruleConfigs: RoomPricingRuleConfig[] = pricingRules.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    basePrice: rule.basePrice !== null ? Number(rule.basePrice) : null,
+    priceModifier: Number(rule.priceModifier),
+    modifierType: rule.modifierType,
+    priority: rule.priority,
+    conditions: (rule.conditions as RoomPricingRuleConfig['conditions']) || undefined,
+    validFrom: rule.validFrom,
+    validTo: rule.validTo,
+  }))
+
+  const adjustmentConfigs: PriceAdjustmentConfig[] = priceAdjustments
+    .filter(adjustment => {
+      const targetIds = Array.isArray(adjustment.targetIds) ? adjustment.targetIds as string[] : []
+      return targetIds.length === 0 || targetIds.includes('all') || targetIds.includes(space.id)
+    })
+    .map(adjustment => ({
+      id: adjustment.id,
+      name: adjustment.name,
+      adjustmentType: adjustment.adjustmentType,
+      value: Number(adjustment.value),
+      valueType: adjustment.valueType,
+      priority: adjustment.priority,
+      conditions: (adjustment.conditions as PriceAdjustmentConfig['conditions']) || undefined,
+      validFrom: adjustment.validFrom,
+      validTo: adjustment.validTo,
+    }))
+
+  const currency = billingSettings?.currency || 'USD'
+  const calculator = new SpaceServicePricingCalculator(new PricingCalculator([], discountRules))
+
+  const breakdown = calculator.calculateSpaceBookingPrice(
+    {
+      basePrice: space.hourlyRate ? Number(space.hourlyRate) : 0,
+      currency,
+      pricingMode: 'HOURLY',
+      timeZone: billingSettings?.timezone,
+    },
+    {
+      spaceId: space.id,
+      spaceName: space.name,
+      startTime,
+      endTime,
+      bookedAt: now,
+      pricingRules: ruleConfigs,
+      priceAdjustments: adjustmentConfigs,
+      services: services
+        .map(service => {
+          const record = serviceRecords.find(r => r.id === service.serviceId)
+          if (!record) return null
+          return {
+            serviceConfig: {
+              basePrice: Number(record.price),
+              currency,
+              pricingMode: 'PER_UNIT' as const,
+              maximumQuantity: record.maxQuantity || undefined,
+            },
+            quantity: service.quantity,
+            serviceId: record.id,
+            serviceName: record.name,
+          }
+        })
+        .filter((service): service is NonNullable<typeof service> => service !== null),
+      discountCode,
+    },
+    {
+      // Members without a client are priced on their own
+      clientId: bookingUser?.clientId || bookingUser?.id || '',
+      spaceType: space.type,
+      date: startTime,
+    }
+  )
+
+  if (discountCode && !breakdown.discountCode) {
+    return { error: 'Booking does not meet the discount code requirements' }
+  }
+
+  return { breakdown }
+}
+
+/**
+ * Internal helper to count one use of a discount code. The usage limit is checked in the
+ * same statement, so concurrent bookings cannot use a code more often than allowed.
+ */
+async function claimDiscountCodeUseInternal(tx: Prisma.TransactionClient, tenantId: string, code: string): Promise<boolean> {
+  const claimed = await tx.discountCode.updateMany({
+    where: {
+      tenantId,
+      code,
+      OR: [
+        { usageLimit: null },
+        { usageCount: { lt: prisma.discountCode.fields.usageLimit } },
+      ],
+    },
+    data: { usageCount: { increment: 1 } },
+  })
+
+  return claimed.count > 0
+}
+
+/**
+ * Internal helper to store a price breakdown in the booking JSON column
+ */
+function toPriceBreakdownJson(breakdown: BookingPriceBreakdown | null): Prisma.InputJsonValue | undefined {
+  return breakdown ? breakdown as unknown as Prisma.InputJsonValue : undefined
+}
+
+/**
+ * Internal helper to build booking service rows priced from a booking price breakdown
+ */
+function buildBookingServiceRows(
+  tenantId: string,
+  services: BookingServiceRequest[],
+  priceBreakdown: BookingPriceBreakdown | null
+) {
+  return priceBookingServices(services, priceBreakdown).map(service => ({
+    tenantId,
+    serviceId: service.serviceId,
+    quantity: service.quantity,
+    unitPrice: service.unitPrice,
+    totalPrice: service.totalPrice,
+    status: service.status,
+    notes: service.notes,
+    startTime: service.startTime,
+    endTime: service.endTime,
+    metadata: service.metadata || {},
+  }))
+}
+
+/**
+ * Internal helper to serialize a booking service for the client
+ */
+function serializeBookingService(bookingService: any) {
+  return {
+    ...bookingService,
+    unitPrice: Number(bookingService.unitPrice),
+    totalPrice: Number(bookingService.totalPrice),
+    service: bookingService.service ? {
+      ...bookingService.service,
+      price: Number(bookingService.service.price),
+    } : undefined,
+  }
+}
+
+/**
+ * Internal helper to tell whether a user may charge a booking another amount than its
+ * calculated price
+ */
+function canOverrideBookingPrice(user: { role: string }): boolean {
+  return ['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)
+}
+
+/**
+ * Internal helper to build the booking data sent to webhook subscribers
+ */
+function bookingWebhookData(booking: {
+  id: string
+  spaceId: string
+  userId: string
+  title: string
+  startTime: Date
+  endTime: Date
+  status: string
+  cost?: unknown
+}): Record<string, unknown> {
+  return {
+    id: booking.id,
+    spaceId: booking.spaceId,
+    userId: booking.userId,
+    title: booking.title,
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+    status: booking.status,
+    cost: booking.cost !== null && booking.cost !== undefined ? Number(booking.cost) : null,
+  }
+}
+
+/**
+ * Internal helper to record the services of a completed booking as service consumptions,
+ * so they are picked up by invoicing. Services already recorded are skipped.
+ */
+async function recordBookingServiceConsumptionsInternal(tenantId: string, bookingId: string): Promise<void> {
+  const booking = await prisma.booking.findFirst({
+    where: { id: bookingId, tenantId },
+    include: { bookingServices: true },
+  })
+
+  const consumptions = booking ? buildServiceConsumptions(tenantId, booking) : []
+  if (consumptions.length === 0) {
+    return
+  }
+
+  await prisma.$transaction(
+    consumptions.map(({ bookingServiceId, consumption }) =>
+      prisma.bookingService.update({
+        where: { id: bookingServiceId },
+        data: {
+          status: 'COMPLETED',
+          serviceConsumption: { create: consumption },
+        },
+      })
+    )
+  )
+}
+
+/**
+ * Internal helper to build the booking policy validator for a space, loading its opening
+ * hours, unavailable periods and maintenance windows that affect the given date range
+ */
+async function loadBookingPolicyInternal(
+  tenantId: string,
+  space: any,
+  rangeStart: Date,
+  rangeEnd: Date,
+  language: Language = 'es'
+): Promise<BookingPolicyValidator> {
+  const [billingSettings, schedules, roomAvailability, maintenanceSchedules, maintenanceLogs] = await Promise.all([
+    prisma.billingSettings.findUnique({
+      where: { tenantId },
+      select: { timezone: true },
+    }),
+    prisma.spaceAvailabilitySchedule.findMany({
+      where: { spaceId: space.id, isActive: true },
+    }),
+    prisma.roomAvailability.findMany({
+      where: {
+        tenantId,
+        spaceId: space.id,
+        effectiveFrom: { lte: rangeEnd },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: rangeStart } }],
+      },
+    }),
+    prisma.spaceMaintenanceSchedule.findMany({
+      where: {
+        spaceId: space.id,
+        startTime: { lt: rangeEnd },
+        OR: [{ isRecurring: true }, { endTime: { gt: rangeStart } }],
+      },
+    }),
+    prisma.roomMaintenanceLog.findMany({
+      where: {
+        tenantId,
+        spaceId: space.id,
+        status: { in: ['SCHEDULED', 'IN_PROGRESS', 'DELAYED'] },
+        scheduledAt: { lt: rangeEnd },
+      },
+    }),
+  ])
+
+  const maintenanceWindows: MaintenanceWindow[] = []
+
+  for (const schedule of maintenanceSchedules) {
+    const duration = schedule.endTime.getTime() - schedule.startTime.getTime()
+
+    if (schedule.isRecurring && schedule.recurrence) {
+      const recurrence: Prisma.JsonObject = typeof schedule.recurrence === 'string'
+        ? JSON.parse(schedule.recurrence)
+        : schedule.recurrence as Prisma.JsonObject
+      const occurrences = expandRecurrence(
+        toRecurrenceConfig({ ...recurrence, endDate: recurrence.endDate ? new Date(String(recurrence.endDate)) : null }),
+        schedule.startTime,
+        duration,
+        { from: new Date(rangeStart.getTime() - duration), until: rangeEnd }
+      )
+
+      maintenanceWindows.push(...occurrences.map(occurrence => ({
+        id: schedule.id,
+        title: schedule.title,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+      })))
+    } else {
+      maintenanceWindows.push({
+        id: schedule.id,
+        title: schedule.title,
+        startTime: schedule.startTime,
+        endTime: schedule.endTime,
+      })
+    }
+  }
+
+  // Maintenance logs have no planned end, so they block the rest of the day until completed
+  for (const log of maintenanceLogs) {
+    const endTime = log.completedAt || endOfZonedDay(log.scheduledAt, billingSettings?.timezone)
+    if (endTime > rangeStart) {
+      maintenanceWindows.push({
+        id: log.id,
+        title: log.title,
+        startTime: log.scheduledAt,
+        endTime,
+      })
+    }
+  }
+
+  return new BookingPolicyValidator({
+    maxAdvanceBookingDays: space.maxAdvanceBooking,
+    minBookingDuration: space.minBookingDuration,
+    maxBookingDuration: space.maxBookingDuration,
+    cancellationHours: space.cancellationHours,
+    allowRecurring: space.allowRecurring,
+    openingHours: [
+      ...schedules,
+      ...roomAvailability.filter(window => window.isAvailable),
+    ],
+    unavailableWindows: roomAvailability.filter(window => !window.isAvailable),
+    maintenanceWindows,
+    timeZone: billingSettings?.timezone,
+  }, language)
+}
+
+/**
+ * Internal helper to find the cancellation policy that applies to a member: the policy
+ * of their active membership plan, otherwise the tenant default. Null when none is set.
+ */
+async function resolveCancellationPolicyInternal(tenantId: string, userId: string) {
+  const membership = await prisma.membership.findFirst({
+    where: {
+      tenantId,
+      userId,
+      status: 'ACTIVE',
+    },
+    select: { planId: true },
+    orderBy: { startDate: 'desc' },
+  })
+
+  if (membership) {
+    const planPolicy = await prisma.cancellationPolicy.findFirst({
+      where: {
+        tenantId,
+        planId: membership.planId,
+        isActive: true,
+      },
+      orderBy: { updatedAt: 'desc' },
+    })
+
+    if (planPolicy) {
+      return planPolicy
+    }
+  }
+
+  return await prisma.cancellationPolicy.findFirst({
+    where: {
+      tenantId,
+      planId: null,
+      isActive: true,
+    },
+    orderBy: { updatedAt: 'desc' },
+  })
+}
+
+/**
+ * Internal helper to evaluate cancelling a booking under a policy without changing anything.
+ * Only a completed payment counts as paid, capped at the booking cost. Credit is kept as a
+ * credit note on the invoice the payment settled, so payments outside an invoice are refunded.
+ */
+async function evaluateBookingCancellationInternal(
+  tenantId: string,
+  booking: { paymentId: string | null; cost: any; startTime: Date },
+  policy: { tiers: unknown; refundMethod: CancellationRefundMethod },
+  preferredMethod?: RefundPreference
+) {
+  const payment = booking.paymentId
+    ? await prisma.payment.findFirst({ where: { id: booking.paymentId, tenantId } })
+    : null
+
+  const paymentAmount = payment?.status === 'COMPLETED' ? Number(payment.amount) : 0
+  const paidAmount = booking.cost !== null ? Math.min(paymentAmount, Number(booking.cost)) : paymentAmount
+
+  const outcome = evaluateCancellation(
+    { tiers: parseCancellationTiers(policy.tiers), refundMethod: policy.refundMethod },
+    { startTime: booking.startTime, paidAmount, preferredMethod }
+  )
+
+  if (outcome.resolution === 'CREDIT' && !payment?.invoiceId) {
+    outcome.resolution = 'REFUND'
+  }
+
+  return { outcome, payment, paidAmount }
+}
+
+/**
+ * Internal helper to cancel bookings and settle them under a cancellation policy. Each booking
+ * is claimed inside the transaction by moving it to CANCELLED only if it is not cancelled yet,
+ * so concurrent cancellations settle it once; `cancel` gets the ids it claimed and finishes
+ * the change in the same transaction that records each settlement, bills the outstanding fee
+ * and issues credit. Refunds go through the payment gateway once the transaction commits.
+ * Without a policy nothing is settled.
+ */
+async function cancelBookingsInternal<T>(
+  tenantId: string,
+  policy: { id: string; tiers: unknown; refundMethod: CancellationRefundMethod } | null,
+  bookings: CancellableBooking[],
+  preferredMethod: RefundPreference | undefined,
+  cancel: (tx: Prisma.TransactionClient, cancelledIds: string[]) => Promise<T>
+) {
+  const evaluations = policy
+    ? await Promise.all(bookings.map(booking => evaluateBookingCancellationInternal(tenantId, booking, policy, preferredMethod)))
+    : []
+
+  const { result, cancelledIds, settlements } = await prisma.$transaction(async (tx) => {
+    const cancelledIds: string[] = []
+    for (const booking of bookings) {
+      const claimed = await tx.booking.updateMany({
+        where: { id: booking.id, tenantId, status: { not: 'CANCELLED' } },
+        data: { status: 'CANCELLED' },
+      })
+      if (claimed.count > 0) {
+        cancelledIds.push(booking.id)
+      }
+    }
+
+    const result = await cancel(tx, cancelledIds)
+
+    const settlements = []
+    for (const [index, evaluation] of evaluations.entries()) {
+      if (!cancelledIds.includes(bookings[index].id)) continue
+      settlements.push(await settleBookingCancellationInternal(tx, tenantId, bookings[index], policy!, evaluation))
+    }
+
+    return { result, cancelledIds, settlements }
+  })
+
+  const cancellations = []
+  for (const settlement of settlements) {
+    cancellations.push(await refundBookingCancellationInternal(tenantId, settlement))
+  }
+
+  return { result, cancelledIds, cancellations }
+}
+
+interface CancellableBooking {
+  id: string
+  userId: string
+  spaceId: string
+  title: string
+  paymentId: string | null
+  cost: any
+  startTime: Date
+}
+
+/**
+ * Internal helper to record the settlement of a cancelled booking inside the cancelling
+ * transaction: the late fee the refund does not cover is billed as usage and credit is
+ * issued as a credit note for the client
+ */
+async function settleBookingCancellationInternal(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  booking: CancellableBooking,
+  policy: { id: string },
+  evaluation: Awaited<ReturnType<typeof evaluateBookingCancellationInternal>>
+) {
+  const { outcome, payment, paidAmount } = evaluation
+
+  const bookingUser = await tx.user.findUnique({
+    where: { id: booking.userId },
+    select: { clientId: true },
+  })
+  const feeUsage = buildCancellationFeeUsage(
+    { ...booking, tenantId },
+    payment?.clientId || bookingUser?.clientId,
+    outcome.outstandingFee,
+    new Date()
+  )
+  const usageRecord = feeUsage
+    ? await tx.usageRecord.create({ data: feeUsage })
+    : null
+
+  const creditNote = outcome.resolution === 'CREDIT' && payment?.invoiceId
+    ? await CreditNoteService.getInstance().issueCreditNoteInTransaction(tx, {
+      tenantId,
+      invoiceId: payment.invoiceId,
+      amount: outcome.refundAmount,
+      reason: `Cancelación de la reserva "${booking.title}"`,
+    })
+    : null
+
+  const cancellation = await tx.bookingCancellation.create({
+    data: {
+      tenantId,
+      bookingId: booking.id,
+      policyId: policy.id,
+      noticeHours: outcome.noticeHours,
+      paidAmount,
+      refundPercent: Math.round(outcome.refundPercent),
+      refundAmount: outcome.refundAmount,
+      feeAmount: outcome.feeAmount,
+      outstandingFee: outcome.outstandingFee,
+      resolution: outcome.resolution,
+      creditNoteId: creditNote?.id,
+      usageRecordId: usageRecord?.id,
+    },
+  })
+
+  return { cancellationId: cancellation.id, booking, payment, outcome, paidAmount, creditNoteId: creditNote?.id || null }
+}
+
+/**
+ * Internal helper to refund a settled cancellation once it is committed. A refund the
+ * gateway rejects is kept as credit instead when the payment settled an invoice.
+ */
+async function refundBookingCancellationInternal(
+  tenantId: string,
+  settlement: Awaited<ReturnType<typeof settleBookingCancellationInternal>>
+) {
+  const { booking, payment, outcome, paidAmount } = settlement
+  let resolution = outcome.resolution
+  let refundPaymentId: string | null = null
+  let creditNoteId = settlement.creditNoteId
+
+  if (resolution === 'REFUND' && payment) {
+    const refund = await PaymentRefundService.getInstance().refundPayment({
+      paymentId: payment.id,
+      tenantId,
+      refundAmount: outcome.refundAmount,
+      reason: `Booking cancelled: ${booking.title}`,
+    })
+
+    if (refund.success) {
+      refundPaymentId = refund.data.refundPayment.id
+    } else if (payment.invoiceId) {
+      // Keep the member whole when the payment cannot be refunded
+      console.error('Cancellation refund failed, granting credit instead:', refund.error)
+      const creditNote = await CreditNoteService.getInstance().issueCreditNote({
+        tenantId,
+        invoiceId: payment.invoiceId,
+        amount: outcome.refundAmount,
+        reason: `Cancelación de la reserva "${booking.title}"`,
+      })
+      creditNoteId = creditNote.id
+      resolution = 'CREDIT'
+    } else {
+      console.error('Cancellation refund failed:', refund.error)
+      resolution = 'NONE'
+    }
+
+    await prisma.bookingCancellation.update({
+      where: { id: settlement.cancellationId },
+      data: { resolution, refundPaymentId, creditNoteId },
+    })
+  } else if (creditNoteId && payment?.invoiceId) {
+    await DunningService.getInstance().resolveInvoice(payment.invoiceId)
+  }
+
+  return { bookingId: booking.id, ...outcome, paidAmount, resolution, refundPaymentId, creditNoteId }
+}
+
+/**
+ * Internal helper to load the active occurrences of a recurring series,
+ * optionally only those scheduled from a given occurrence date onwards
+ */
+async function getSeriesMembersInternal(tenantId: string, rootId: string, from?: Date) {
+  const members = await prisma.booking.findMany({
+    where: {
+      tenantId,
+      OR: [{ id: rootId }, { parentBookingId: rootId }],
+      status: { in: ['PENDING', 'CONFIRMED'] },
+    },
+    include: {
+      bookingServices: {
+        where: { status: { not: 'CANCELLED' } },
+      },
+    },
+    orderBy: { startTime: 'asc' },
+  })
+
+  return from
+    ? members.filter(member => (member.occurrenceDate || member.startTime) >= from)
+    : members
+}
+
+/**
+ * Internal helper to split a recurring series at an occurrence. The original series ends
+ * right before it and the occurrence becomes the first booking of a new series that
+ * inherits the remaining rule. Returns the operations to run in a transaction.
+ */
+async function splitBookingSeriesInternal(
+  tenantId: string,
+  rootId: string,
+  newRootId: string,
+  anchor: Date,
+  shift: number
+): Promise<any[]> {
+  const root = await prisma.booking.findFirst({
+    where: { id: rootId, tenantId },
+    include: { recurrence: true },
+  })
+
+  if (!root?.recurrence) {
+    return []
+  }
+
+  const config = toRecurrenceConfig(root.recurrence)
+  const seriesStart = root.occurrenceDate || root.startTime
+  const remaining = config.occurrences
+    ? Math.max(1, config.occurrences - countOccurrencesBefore(config, seriesStart, anchor))
+    : null
+
+  return [
+    prisma.bookingRecurrence.update({
+      where: { id: root.recurrence.id },
+      data: {
+        endDate: new Date(anchor.getTime() - 1),
+        occurrences: null,
+      },
+    }),
+    prisma.bookingRecurrence.upsert({
+      where: { bookingId: newRootId },
+      create: {
+        bookingId: newRootId,
+        pattern: config.pattern,
+        interval: config.interval,
+        daysOfWeek: config.daysOfWeek,
+        dayOfMonth: config.dayOfMonth,
+        endDate: config.endDate,
+        occurrences: remaining,
+        exceptions: (config.exceptions || [])
+          .filter(date => date >= anchor)
+          .map(date => new Date(date.getTime() + shift).toISOString()),
+      },
+      update: {},
+    }),
+    prisma.booking.updateMany({
+      where: {
+        tenantId,
+        parentBookingId: rootId,
+        id: { not: newRootId },
+        OR: [
+          { occurrenceDate: { gte: anchor } },
+          { occurrenceDate: null, startTime: { gte: anchor } },
+        ],
+      },
+      data: { parentBookingId: newRootId },
+    }),
+    prisma.booking.update({
+      where: { id: newRootId },
+      data: { parentBookingId: null },
+    }),
+  ]
+}
+
+/**
+ * Internal helper to read a stored booking recurrence as an expansion config.
+ * JSON fields may hold either arrays or JSON-encoded strings.
+ */
+function toRecurrenceConfig(recurrence: any): RecurrenceConfig {
+  const parseList = (value: any): any[] => {
+    if (!value) return []
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return []
+      }
+    }
+    return Array.isArray(value) ? value : []
+  }
+
+  const daysOfWeek = parseList(recurrence.daysOfWeek).map(Number)
+
+  return {
+    pattern: recurrence.pattern,
+    interval: recurrence.interval,
+    daysOfWeek: daysOfWeek.length > 0 ? daysOfWeek : undefined,
+    dayOfMonth: recurrence.dayOfMonth ?? undefined,
+    endDate: recurrence.endDate,
+    occurrences: recurrence.occurrences,
+    exceptions: parseList(recurrence.exceptions).map((date: string) => new Date(date)),
+  }
+}
+
+/**
+ * Internal helper to resolve waitlist holds that timed out. Entries that opted in are
+ * booked automatically; the others expire and the slot passes to the next person.
+ */
+async function processExpiredWaitlistOffersInternal(tenantId: string): Promise<{ confirmed: number; expired: number }> {
+  const now = new Date()
+  const stats = { confirmed: 0, expired: 0 }
+
+  const expiredOffers = await prisma.bookingWaitlistEntry.findMany({
+    where: {
+      tenantId,
+      status: 'OFFERED',
+      offerExpiresAt: { lte: now },
+    },
+    orderBy: { offerExpiresAt: 'asc' },
+  })
+
+  for (const entry of expiredOffers) {
+    if (resolveExpiredWaitlistOffer(entry, now) === 'CONFIRM') {
+      const result = await confirmWaitlistEntryInternal(tenantId, entry)
+      if (result.success) {
+        stats.confirmed++
+        continue
+      }
+    }
+
+    await prisma.bookingWaitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: 'EXPIRED' },
+    })
+    stats.expired++
+
+    await BookingWaitlistService.getInstance().promote(tenantId, entry.spaceId, entry.startTime, entry.endTime)
+  }
+
+  return stats
+}
+
+/**
+ * Internal helper to book the slot of a waitlist entry on behalf of its member
+ */
+async function confirmWaitlistEntryInternal(tenantId: string, entry: any): Promise<ActionResult<any>> {
+  const result = await createBookingInternal(tenantId, createBookingSchema.parse({
+    spaceId: entry.spaceId,
+    userId: entry.userId,
+    title: entry.title,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    description: entry.notes || undefined,
+    status: 'CONFIRMED',
+  }))
+
+  if (result.success) {
+    await prisma.bookingWaitlistEntry.update({
+      where: { id: entry.id },
+      data: {
+        status: 'CONFIRMED',
+        bookingId: result.data.id,
+      },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Internal helper to build the failed action result for booking policy violations
+ */
+function bookingPolicyErrorResult(violations: BookingPolicyViolation[]): ActionResult<any> {
+  return {
+    success: false,
+    error: 'Booking does not comply with the space booking policy',
+    fieldErrors: toPolicyFieldErrors(violations),
+    details: { violations },
+  }
+}
+
+/**
+ * Internal helper to load a booking bundle with its bookings, services and approval
+ */
+async function getBookingBundleInternal(tenantId: string, bundleId: string): Promise<ActionResult<any>> {
+  const bundle = await prisma.bookingBundle.findFirst({
+    where: {
+      id: bundleId,
+      tenantId,
+    },
+    include: {
+      user: {
+        select: { id: true, firstName: true, lastName: true, email: true },
+      },
+      bookings: {
+        include: {
+          space: {
+            select: { id: true, name: true, type: true, requiresApproval: true },
+          },
+          bookingServices: {
+            include: { service: true },
+          },
+          approval: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+
+  if (!bundle) {
+    return { success: false, error: 'Booking bundle not found' }
+  }
+
+  return {
+    success: true,
+    data: {
+      ...bundle,
+      cost: bundle.cost !== null ? Number(bundle.cost) : null,
+      bookings: bundle.bookings.map(booking => ({
+        ...booking,
+        cost: booking.cost !== null ? Number(booking.cost) : null,
+        services: booking.bookingServices.map(serializeBookingService),
+      })),
+    },
+  }
+}
+
+/**
+ * Internal helper to find services with limited units that cannot cover the requested
+ * quantities, counting what overlapping active bookings already reserved
+ */
+async function checkServiceInventoryInternal(
+  tenantId: string,
+  services: Array<{ serviceId: string; quantity: number }>,
+  startTime: Date,
+  endTime: Date,
+  excludeBookingIds: string[] = []
+): Promise<ServiceShortage[]> {
+  if (services.length === 0) {
+    return []
+  }
+
+  const limitedServices = await prisma.service.findMany({
+    where: {
+      id: { in: services.map(service => service.serviceId) },
+      tenantId,
+      inventoryQuantity: { not: null },
+    },
+    select: { id: true, name: true, inventoryQuantity: true },
+  })
+
+  if (limitedServices.length === 0) {
+    return []
+  }
+
+  const reserved = await prisma.bookingService.groupBy({
+    by: ['serviceId'],
+    where: {
+      tenantId,
+      serviceId: { in: limitedServices.map(service => service.id) },
+      status: { in: ['PENDING', 'CONFIRMED'] },
+      booking: {
+        id: { notIn: excludeBookingIds },
+        status: { in: ['PENDING', 'CONFIRMED'] },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+    },
+    _sum: { quantity: true },
+  })
+
+  return findServiceShortages(
+    services,
+    limitedServices,
+    reserved.map(row => ({ serviceId: row.serviceId, quantity: row._sum.quantity || 0 }))
+  )
+}
+
+function serviceInventoryErrorResult(shortages: ServiceShortage[]): ActionResult<any> {
+  return {
+    success: false,
+    error: 'Not enough units available for one or more services',
+    details: { shortages },
+  }
+}
+
 /**
  * Internal helper function to check booking conflicts
  */
@@ -72,6 +72,13 @@ export async function createClient(input: CreateClientInput) {
       }
     }
 
+    if (validatedInput.taxExempt && !validatedInput.taxId?.trim()) {
+      return {
+        success: false,
+        error: 'Un cliente exento de impuestos debe tener RUT',
+      }
+    }
+
     const client = await db.client.create({
       data: {
         ...validatedInput,
@@ -134,6 +141,16 @@ export async function updateClient(id: string, input: UpdateClientInput) {
       }
     }
 
+    // Tax exemption needs a tax ID, whether it is being set now or already on file
+    const taxExempt = validatedInput.taxExempt ?? existingClient.taxExempt
+    const taxId = validatedInput.taxId !== undefined ? validatedInput.taxId : existingClient.taxId
+    if (taxExempt && !taxId?.trim()) {
+      return {
+        success: false,
+        error: 'Un cliente exento de impuestos debe tener RUT',
+      }
+    }
+
     // Check email uniqueness if email is being updated
     if (validatedInput.email && validatedInput.email !== existingClient.email) {
       const emailExists = await db.client.findFirst({
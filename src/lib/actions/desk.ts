@@ -0,0 +1,839 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/prisma'
+import { getTenantContext } from '@/lib/auth'
+import type { ActionResult } from '@/types/database'
+import type { Prisma } from '@prisma/client'
+import { addDays, startOfDay } from 'date-fns'
+import {
+  deskPeriodsOverlap,
+  getDeskBookingPrice,
+  getDeskPeriodWindow,
+  getRemainingDeskCapacity,
+  type DeskBookingPeriod,
+} from '@/lib/utils/desk-booking'
+import {
+  upsertDeskSchema,
+  deleteDeskSchema,
+  updateSpaceFloorPlanSchema,
+  getDeskMapSchema,
+  createDeskBookingSchema,
+  cancelDeskBookingSchema,
+  listMyDeskBookingsSchema,
+  assignDeskSchema,
+  releaseDeskAssignmentSchema,
+  type UpsertDeskRequest,
+  type DeleteDeskRequest,
+  type UpdateSpaceFloorPlanRequest,
+  type GetDeskMapRequest,
+  type CreateDeskBookingRequest,
+  type CancelDeskBookingRequest,
+  type ListMyDeskBookingsRequest,
+  type AssignDeskRequest,
+  type ReleaseDeskAssignmentRequest,
+} from '@/lib/validations/desk'
+import { DunningService } from '@/services/dunning.service'
+
+const DESK_PERIODS: DeskBookingPeriod[] = ['FULL_DAY', 'MORNING', 'AFTERNOON']
+
+/**
+ * Get the desks of a space with their bookings, dedicated assignments and
+ * availability for one day, to draw them on the floor plan
+ */
+export async function getDeskMapAction(data: GetDeskMapRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = getDeskMapSchema.parse(data)
+    const date = startOfDay(validatedData.date)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: validatedData.spaceId,
+        tenantId,
+      },
+      select: { id: true, name: true, type: true, floorPlanImage: true },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found' }
+    }
+
+    const [desks, bookings, assignments, maxCapacity] = await Promise.all([
+      prisma.desk.findMany({
+        where: {
+          spaceId: space.id,
+          tenantId,
+          isActive: true,
+        },
+        orderBy: { label: 'asc' },
+      }),
+      prisma.deskBooking.findMany({
+        where: {
+          spaceId: space.id,
+          tenantId,
+          date,
+          status: { in: ['PENDING', 'CONFIRMED', 'CHECKED_IN'] },
+        },
+        include: {
+          user: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+        },
+      }),
+      findActiveAssignmentsInternal(tenantId, { desk: { spaceId: space.id } }, date),
+      getSpaceMaxCapacityInternal(tenantId, space.id),
+    ])
+
+    // Occupancy per period counts the bookings of that period plus every dedicated desk in use
+    const occupancy = DESK_PERIODS.reduce((acc, period) => {
+      const occupied = bookings.filter(booking => deskPeriodsOverlap(booking.period, period)).length + assignments.length
+      acc[period] = {
+        occupied,
+        remaining: maxCapacity !== null ? getRemainingDeskCapacity(occupied, maxCapacity) : null,
+      }
+      return acc
+    }, {} as Record<DeskBookingPeriod, { occupied: number; remaining: number | null }>)
+
+    return {
+      success: true,
+      data: {
+        space,
+        date,
+        maxCapacity,
+        occupancy,
+        desks: desks.map(desk => {
+          const deskBookings = bookings.filter(booking => booking.deskId === desk.id)
+          const assignment = assignments.find(assignment => assignment.deskId === desk.id) || null
+
+          return {
+            ...desk,
+            dailyRate: desk.dailyRate !== null ? Number(desk.dailyRate) : null,
+            assignment,
+            bookings: deskBookings.map(booking => ({
+              id: booking.id,
+              userId: booking.userId,
+              userName: `${booking.user.firstName} ${booking.user.lastName}`,
+              period: booking.period,
+              status: booking.status,
+            })),
+            availability: DESK_PERIODS.reduce((acc, period) => {
+              acc[period] = desk.type === 'HOT' &&
+                !deskBookings.some(booking => deskPeriodsOverlap(booking.period, period)) &&
+                occupancy[period].remaining !== 0
+              return acc
+            }, {} as Record<DeskBookingPeriod, boolean>),
+          }
+        }),
+      },
+    }
+  } catch (error: any) {
+    console.error('Get desk map error:', error)
+    return { success: false, error: 'Failed to get desk map' }
+  }
+}
+
+/**
+ * Create or update a desk and its position on the floor plan
+ */
+export async function upsertDeskAction(data: UpsertDeskRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const { id, ...deskData } = upsertDeskSchema.parse(data)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: deskData.spaceId,
+        tenantId,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found' }
+    }
+
+    const duplicate = await prisma.desk.findFirst({
+      where: {
+        spaceId: deskData.spaceId,
+        label: deskData.label,
+        ...(id && { id: { not: id } }),
+      },
+    })
+
+    if (duplicate) {
+      return { success: false, error: 'A desk with this label already exists in the space' }
+    }
+
+    if (id) {
+      const existing = await prisma.desk.findFirst({
+        where: { id, tenantId },
+        include: {
+          assignments: {
+            where: { endDate: null },
+          },
+        },
+      })
+
+      if (!existing) {
+        return { success: false, error: 'Desk not found' }
+      }
+
+      // A desk still assigned to a member stays dedicated until it is released
+      if (deskData.type === 'HOT' && existing.assignments.length > 0) {
+        return { success: false, error: 'Release the dedicated desk assignment before making it a hot desk' }
+      }
+    }
+
+    const desk = id
+      ? await prisma.desk.update({
+        where: { id },
+        data: deskData,
+      })
+      : await prisma.desk.create({
+        data: {
+          tenantId,
+          ...deskData,
+        },
+      })
+
+    revalidatePath(`/spaces/${deskData.spaceId}/desks`)
+
+    return {
+      success: true,
+      data: {
+        ...desk,
+        dailyRate: desk.dailyRate !== null ? Number(desk.dailyRate) : null,
+      },
+    }
+  } catch (error: any) {
+    console.error('Upsert desk error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to save desk' }
+  }
+}
+
+/**
+ * Remove a desk from the floor plan. Past bookings are kept, so the desk is deactivated.
+ */
+export async function deleteDeskAction(data: DeleteDeskRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteDeskSchema.parse(data)
+
+    const desk = await prisma.desk.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+    })
+
+    if (!desk) {
+      return { success: false, error: 'Desk not found' }
+    }
+
+    const upcomingBookings = await prisma.deskBooking.count({
+      where: {
+        deskId: desk.id,
+        date: { gte: startOfDay(new Date()) },
+        status: { in: ['PENDING', 'CONFIRMED'] },
+      },
+    })
+
+    if (upcomingBookings > 0) {
+      return { success: false, error: 'Cannot remove a desk with upcoming bookings' }
+    }
+
+    await prisma.$transaction([
+      prisma.deskAssignment.updateMany({
+        where: {
+          deskId: desk.id,
+          endDate: null,
+        },
+        data: { endDate: new Date() },
+      }),
+      prisma.desk.update({
+        where: { id: desk.id },
+        data: { isActive: false },
+      }),
+    ])
+
+    revalidatePath(`/spaces/${desk.spaceId}/desks`)
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete desk error:', error)
+    return { success: false, error: 'Failed to delete desk' }
+  }
+}
+
+/**
+ * Set the floor plan image the desks of a space are placed on
+ */
+export async function updateSpaceFloorPlanAction(data: UpdateSpaceFloorPlanRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updateSpaceFloorPlanSchema.parse(data)
+
+    const space = await prisma.space.findFirst({
+      where: {
+        id: validatedData.spaceId,
+        tenantId,
+      },
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found' }
+    }
+
+    const updatedSpace = await prisma.space.update({
+      where: { id: space.id },
+      data: { floorPlanImage: validatedData.floorPlanImage },
+      select: { id: true, floorPlanImage: true },
+    })
+
+    revalidatePath(`/spaces/${space.id}/desks`)
+
+    return { success: true, data: updatedSpace }
+  } catch (error: any) {
+    console.error('Update floor plan error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update floor plan' }
+  }
+}
+
+/**
+ * Book a hot desk for a day or half day
+ */
+export async function createDeskBookingAction(data: CreateDeskBookingRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = createDeskBookingSchema.parse(data)
+    const date = startOfDay(validatedData.date)
+    const { period } = validatedData
+
+    if (date < startOfDay(new Date())) {
+      return { success: false, error: 'Cannot book a desk in the past' }
+    }
+
+    const desk = await prisma.desk.findFirst({
+      where: {
+        id: validatedData.deskId,
+        tenantId,
+        isActive: true,
+        space: { isActive: true },
+      },
+    })
+
+    if (!desk) {
+      return { success: false, error: 'Desk not found or not available' }
+    }
+
+    if (desk.type === 'DEDICATED') {
+      return { success: false, error: 'Dedicated desks are assigned through a membership and cannot be booked' }
+    }
+
+    const bookingUser = await prisma.user.findFirst({
+      where: {
+        id: validatedData.userId,
+        tenantId,
+      },
+    })
+
+    if (!bookingUser) {
+      return { success: false, error: 'User not found' }
+    }
+
+    // Clients suspended by dunning cannot book until their overdue invoices are paid
+    if (await DunningService.getInstance().isClientSuspended(tenantId, bookingUser.clientId)) {
+      return { success: false, error: 'Member access is suspended for unpaid invoices' }
+    }
+
+    const sameDayBookings = await prisma.deskBooking.findMany({
+      where: {
+        tenantId,
+        date,
+        status: { in: ['PENDING', 'CONFIRMED', 'CHECKED_IN'] },
+        OR: [
+          { deskId: desk.id },
+          { userId: validatedData.userId },
+          { spaceId: desk.spaceId },
+        ],
+      },
+    })
+
+    const overlapping = sameDayBookings.filter(booking => deskPeriodsOverlap(booking.period, period))
+
+    if (overlapping.some(booking => booking.deskId === desk.id)) {
+      return { success: false, error: 'Desk is already booked for this period' }
+    }
+
+    if (overlapping.some(booking => booking.userId === validatedData.userId)) {
+      return { success: false, error: 'Member already has a desk booked for this period' }
+    }
+
+    // Bookings and dedicated desks in use count against the occupancy limit of the space
+    const maxCapacity = await getSpaceMaxCapacityInternal(tenantId, desk.spaceId)
+    if (maxCapacity !== null) {
+      const assignments = await findActiveAssignmentsInternal(tenantId, { desk: { spaceId: desk.spaceId } }, date)
+      const occupied = overlapping.filter(booking => booking.spaceId === desk.spaceId).length + assignments.length
+
+      if (getRemainingDeskCapacity(occupied, maxCapacity) === 0) {
+        return {
+          success: false,
+          error: 'Space has reached its occupancy limit',
+          details: { occupied, maxCapacity },
+        }
+      }
+    }
+
+    // Members whose plan includes desks book them at no charge
+    const membership = await prisma.membership.findFirst({
+      where: {
+        tenantId,
+        userId: validatedData.userId,
+        status: 'ACTIVE',
+      },
+      include: { plan: { select: { type: true } } },
+      orderBy: { startDate: 'desc' },
+    })
+
+    const { start, end } = getDeskPeriodWindow(date, period)
+
+    const deskBooking = await prisma.deskBooking.create({
+      data: {
+        tenantId,
+        deskId: desk.id,
+        spaceId: desk.spaceId,
+        userId: validatedData.userId,
+        date,
+        period,
+        startTime: start,
+        endTime: end,
+        cost: getDeskBookingPrice(
+          desk.dailyRate !== null ? Number(desk.dailyRate) : null,
+          period,
+          membership?.plan.type
+        ),
+      },
+    })
+
+    revalidatePath(`/spaces/${desk.spaceId}/desks`)
+
+    return {
+      success: true,
+      data: {
+        ...deskBooking,
+        cost: deskBooking.cost !== null ? Number(deskBooking.cost) : null,
+      },
+    }
+  } catch (error: any) {
+    console.error('Create desk booking error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to book desk' }
+  }
+}
+
+/**
+ * Cancel a desk booking
+ */
+export async function cancelDeskBookingAction(data: CancelDeskBookingRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = cancelDeskBookingSchema.parse(data)
+
+    const deskBooking = await prisma.deskBooking.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+    })
+
+    if (!deskBooking) {
+      return { success: false, error: 'Desk booking not found' }
+    }
+
+    const isAdmin = ['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)
+    if (!isAdmin && deskBooking.userId !== user.id) {
+      return { success: false, error: 'Only the member or an admin can cancel this desk booking' }
+    }
+
+    if (!['PENDING', 'CONFIRMED'].includes(deskBooking.status)) {
+      return { success: false, error: 'Desk booking cannot be cancelled' }
+    }
+
+    await prisma.deskBooking.update({
+      where: { id: deskBooking.id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+      },
+    })
+
+    revalidatePath(`/spaces/${deskBooking.spaceId}/desks`)
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Cancel desk booking error:', error)
+    return { success: false, error: 'Failed to cancel desk booking' }
+  }
+}
+
+/**
+ * List the upcoming desk bookings and dedicated desk of the current member
+ */
+export async function listMyDeskBookingsAction(data: ListMyDeskBookingsRequest = {}): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = listMyDeskBookingsSchema.parse(data)
+    const from = startOfDay(validatedData.from || new Date())
+
+    const [bookings, assignments] = await Promise.all([
+      prisma.deskBooking.findMany({
+        where: {
+          tenantId,
+          userId: user.id,
+          date: { gte: from },
+          status: { in: ['PENDING', 'CONFIRMED', 'CHECKED_IN'] },
+        },
+        include: {
+          desk: { select: { id: true, label: true } },
+          space: { select: { id: true, name: true } },
+        },
+        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+      }),
+      findActiveAssignmentsInternal(tenantId, { userId: user.id }, from),
+    ])
+
+    return {
+      success: true,
+      data: {
+        bookings: bookings.map(booking => ({
+          ...booking,
+          cost: booking.cost !== null ? Number(booking.cost) : null,
+        })),
+        dedicatedDesk: assignments[0] || null,
+      },
+    }
+  } catch (error: any) {
+    console.error('List desk bookings error:', error)
+    return { success: false, error: 'Failed to list desk bookings' }
+  }
+}
+
+/**
+ * Assign a dedicated desk to a member with a dedicated-desk membership
+ */
+export async function assignDeskAction(data: AssignDeskRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = assignDeskSchema.parse(data)
+    const startDate = startOfDay(validatedData.startDate || new Date())
+
+    const [desk, membership] = await Promise.all([
+      prisma.desk.findFirst({
+        where: {
+          id: validatedData.deskId,
+          tenantId,
+          isActive: true,
+        },
+      }),
+      prisma.membership.findFirst({
+        where: {
+          id: validatedData.membershipId,
+          tenantId,
+          status: 'ACTIVE',
+        },
+        include: { plan: { select: { type: true } } },
+      }),
+    ])
+
+    if (!desk) {
+      return { success: false, error: 'Desk not found' }
+    }
+
+    if (desk.type !== 'DEDICATED') {
+      return { success: false, error: 'Only dedicated desks can be assigned' }
+    }
+
+    if (!membership) {
+      return { success: false, error: 'Active membership not found' }
+    }
+
+    if (membership.plan.type !== 'DEDICATED_DESK') {
+      return { success: false, error: 'Membership plan does not include a dedicated desk' }
+    }
+
+    const [deskAssignment, membershipAssignment] = await Promise.all([
+      prisma.deskAssignment.findFirst({
+        where: { deskId: desk.id, tenantId, endDate: null },
+      }),
+      prisma.deskAssignment.findFirst({
+        where: { membershipId: membership.id, tenantId, endDate: null },
+      }),
+    ])
+
+    if (deskAssignment) {
+      return { success: false, error: 'Desk is already assigned to another member' }
+    }
+
+    if (membershipAssignment) {
+      return { success: false, error: 'Membership already has a dedicated desk' }
+    }
+
+    const assignment = await prisma.deskAssignment.create({
+      data: {
+        tenantId,
+        deskId: desk.id,
+        membershipId: membership.id,
+        userId: membership.userId,
+        startDate,
+        assignedBy: user.id,
+      },
+    })
+
+    revalidatePath(`/spaces/${desk.spaceId}/desks`)
+
+    return { success: true, data: assignment }
+  } catch (error: any) {
+    console.error('Assign desk error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to assign desk' }
+  }
+}
+
+/**
+ * List the active dedicated-desk memberships still waiting for a desk
+ */
+export async function listUnassignedDeskMembershipsAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: {
+        tenantId,
+        status: 'ACTIVE',
+        plan: { type: 'DEDICATED_DESK' },
+        deskAssignments: {
+          none: { endDate: null },
+        },
+      },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        plan: { select: { id: true, name: true } },
+      },
+      orderBy: { startDate: 'asc' },
+    })
+
+    return { success: true, data: memberships }
+  } catch (error: any) {
+    console.error('List unassigned desk memberships error:', error)
+    return { success: false, error: 'Failed to list memberships' }
+  }
+}
+
+/**
+ * End a dedicated desk assignment
+ */
+export async function releaseDeskAssignmentAction(data: ReleaseDeskAssignmentRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = releaseDeskAssignmentSchema.parse(data)
+
+    const assignment = await prisma.deskAssignment.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+        endDate: null,
+      },
+      include: { desk: { select: { spaceId: true } } },
+    })
+
+    if (!assignment) {
+      return { success: false, error: 'Active desk assignment not found' }
+    }
+
+    const updatedAssignment = await prisma.deskAssignment.update({
+      where: { id: assignment.id },
+      data: { endDate: validatedData.endDate || new Date() },
+    })
+
+    revalidatePath(`/spaces/${assignment.desk.spaceId}/desks`)
+
+    return { success: true, data: updatedAssignment }
+  } catch (error: any) {
+    console.error('Release desk assignment error:', error)
+    return { success: false, error: 'Failed to release desk assignment' }
+  }
+}
+
+/**
+ * Internal helper to find the dedicated desk assignments in effect on a day
+ */
+async function findActiveAssignmentsInternal(tenantId: string, where: Prisma.DeskAssignmentWhereInput, date: Date) {
+  return await prisma.deskAssignment.findMany({
+    where: {
+      ...where,
+      tenantId,
+      startDate: { lt: addDays(date, 1) },
+      OR: [
+        { endDate: null },
+        { endDate: { gt: date } },
+      ],
+    },
+    include: {
+      desk: { select: { id: true, label: true, spaceId: true } },
+      user: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  })
+}
+
+/**
+ * Internal helper to get the occupancy limit of a space, null when it has none
+ */
+async function getSpaceMaxCapacityInternal(tenantId: string, spaceId: string): Promise<number | null> {
+  const tracking = await prisma.occupancyTracking.findFirst({
+    where: {
+      tenantId,
+      spaceId,
+    },
+    select: { maxCapacity: true },
+  })
+
+  return tracking?.maxCapacity ?? null
+}
@@ -0,0 +1,435 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/prisma'
+import { getTenantContext } from '@/lib/auth'
+import type { ActionResult } from '@/types/database'
+import type { DteDocument } from '@prisma/client'
+import { DteService } from '@/services/dte.service'
+import { getDteSubmissionAdapterNames } from '@/services/dte-submission.service'
+import { formatRut, toSiiRut } from '@/lib/utils/dte'
+import {
+  updateDteSettingsSchema,
+  uploadCafSchema,
+  issueInvoiceDteSchema,
+  issueCreditNoteDteSchema,
+  dteDocumentSchema,
+  type UpdateDteSettingsRequest,
+  type UploadCafRequest,
+  type IssueInvoiceDteRequest,
+  type IssueCreditNoteDteRequest,
+  type DteDocumentRequest,
+} from '@/lib/validations/dte'
+
+/**
+ * Get the tenant's electronic invoicing setup, folios left, issued documents and the
+ * invoices and credit notes still to be documented (admin only)
+ */
+export async function getDteOverviewAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const notDocumented = { none: { status: { not: 'REJECTED' as const } } }
+
+    const [settings, ranges, documents, pendingInvoices, pendingCreditNotes] = await Promise.all([
+      prisma.dteSettings.findUnique({ where: { tenantId } }),
+      prisma.dteFolioRange.findMany({
+        where: { tenantId },
+        omit: { cafXml: true },
+        orderBy: [{ documentType: 'asc' }, { rangeStart: 'asc' }],
+      }),
+      prisma.dteDocument.findMany({
+        where: { tenantId },
+        omit: { xml: true, ted: true },
+        include: {
+          client: { select: { id: true, name: true } },
+          invoice: { select: { id: true, number: true } },
+          creditNote: { select: { id: true, number: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      }),
+      prisma.invoice.findMany({
+        where: {
+          tenantId,
+          currency: 'CLP',
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+          dteDocuments: notDocumented,
+        },
+        select: { id: true, number: true, total: true, client: { select: { name: true, taxId: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      }),
+      prisma.creditNote.findMany({
+        where: {
+          tenantId,
+          status: { not: 'VOID' },
+          dteDocuments: notDocumented,
+          invoice: { dteDocuments: { some: { status: { not: 'REJECTED' } } } },
+        },
+        select: { id: true, number: true, total: true, client: { select: { name: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        settings: settings && {
+          rut: formatRut(settings.rut),
+          businessName: settings.businessName,
+          businessActivity: settings.businessActivity,
+          activityCode: settings.activityCode,
+          address: settings.address,
+          commune: settings.commune,
+          city: settings.city ?? '',
+          resolutionNumber: settings.resolutionNumber,
+          resolutionDate: settings.resolutionDate,
+          environment: settings.environment,
+          submissionAdapter: settings.submissionAdapter,
+          hasCertificate: Boolean(settings.certificatePem && settings.privateKeyPem),
+        },
+        adapters: getDteSubmissionAdapterNames(),
+        ranges: ranges.map(range => ({
+          ...range,
+          remaining: Math.max(range.rangeEnd - range.nextFolio + 1, 0),
+        })),
+        documents: documents.map(document => ({
+          ...document,
+          netAmount: Number(document.netAmount),
+          exemptAmount: Number(document.exemptAmount),
+          taxAmount: Number(document.taxAmount),
+          totalAmount: Number(document.totalAmount),
+        })),
+        pendingInvoices: pendingInvoices.map(invoice => ({ ...invoice, total: Number(invoice.total) })),
+        pendingCreditNotes: pendingCreditNotes.map(creditNote => ({ ...creditNote, total: Number(creditNote.total) })),
+      },
+    }
+  } catch (error: any) {
+    console.error('Get DTE overview error:', error)
+    return { success: false, error: 'Failed to get electronic invoicing overview' }
+  }
+}
+
+/**
+ * Save the issuer details, SII resolution and signing certificate (admin only)
+ */
+export async function updateDteSettingsAction(data: UpdateDteSettingsRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updateDteSettingsSchema.parse(data)
+
+    if (!getDteSubmissionAdapterNames().includes(validatedData.submissionAdapter)) {
+      return { success: false, error: `Unknown submission adapter: ${validatedData.submissionAdapter}` }
+    }
+
+    const values = {
+      ...validatedData,
+      rut: toSiiRut(validatedData.rut),
+      city: validatedData.city || null,
+    }
+
+    // Keep the stored certificate unless a new one is uploaded
+    if (!values.certificatePem) {
+      delete values.certificatePem
+      delete values.privateKeyPem
+    }
+
+    await prisma.dteSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...values },
+      update: values,
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: { rut: formatRut(values.rut) } }
+  } catch (error: any) {
+    console.error('Update DTE settings error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to update electronic invoicing settings' }
+  }
+}
+
+/**
+ * Load the folios of a CAF file downloaded from the SII (admin only)
+ */
+export async function uploadCafAction(data: UploadCafRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = uploadCafSchema.parse(data)
+
+    const range = await DteService.getInstance().addFolioRange(tenantId, validatedData.cafXml)
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        id: range.id,
+        documentType: range.documentType,
+        rangeStart: range.rangeStart,
+        rangeEnd: range.rangeEnd,
+      },
+    }
+  } catch (error: any) {
+    console.error('Upload CAF error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to upload CAF' }
+  }
+}
+
+/**
+ * Issue the DTE of an invoice (admin only)
+ */
+export async function issueInvoiceDteAction(data: IssueInvoiceDteRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = issueInvoiceDteSchema.parse(data)
+
+    const document = await DteService.getInstance().issueInvoiceDocument(
+      tenantId,
+      validatedData.invoiceId,
+      validatedData.documentType
+    )
+
+    revalidatePath('/billing')
+
+    return { success: true, data: serializeDteDocument(document) }
+  } catch (error: any) {
+    console.error('Issue invoice DTE error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to issue DTE' }
+  }
+}
+
+/**
+ * Issue the nota de crédito of a credit note (admin only)
+ */
+export async function issueCreditNoteDteAction(data: IssueCreditNoteDteRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = issueCreditNoteDteSchema.parse(data)
+
+    const document = await DteService.getInstance().issueCreditNoteDocument(tenantId, validatedData.creditNoteId)
+
+    revalidatePath('/billing')
+
+    return { success: true, data: serializeDteDocument(document) }
+  } catch (error: any) {
+    console.error('Issue credit note DTE error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to issue DTE' }
+  }
+}
+
+/**
+ * Send a signed document to the SII through the tenant's submission adapter (admin only)
+ */
+export async function submitDteAction(data: DteDocumentRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = dteDocumentSchema.parse(data)
+
+    const document = await DteService.getInstance().submitDocument(tenantId, validatedData.documentId)
+
+    revalidatePath('/billing')
+
+    return { success: true, data: serializeDteDocument(document) }
+  } catch (error: any) {
+    console.error('Submit DTE error:', error)
+    return { success: false, error: error.message || 'Failed to submit DTE' }
+  }
+}
+
+/**
+ * Check with the submission adapter whether the SII accepted a document (admin only)
+ */
+export async function refreshDteStatusAction(data: DteDocumentRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = dteDocumentSchema.parse(data)
+
+    const document = await DteService.getInstance().refreshDocumentStatus(tenantId, validatedData.documentId)
+
+    revalidatePath('/billing')
+
+    return { success: true, data: serializeDteDocument(document) }
+  } catch (error: any) {
+    console.error('Refresh DTE status error:', error)
+    return { success: false, error: error.message || 'Failed to refresh DTE status' }
+  }
+}
+
+/**
+ * Get the signed XML of a document for download (admin only)
+ */
+export async function getDteXmlAction(data: DteDocumentRequest): Promise<ActionResult<{ fileName: string; xml: string }>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = dteDocumentSchema.parse(data)
+
+    const document = await prisma.dteDocument.findFirst({
+      where: { id: validatedData.documentId, tenantId },
+      select: { documentType: true, folio: true, xml: true },
+    })
+
+    if (!document) {
+      return { success: false, error: 'Document not found' }
+    }
+
+    return {
+      success: true,
+      data: {
+        fileName: `DTE-${document.documentType}-${document.folio}.xml`,
+        xml: document.xml,
+      },
+    }
+  } catch (error: any) {
+    console.error('Get DTE XML error:', error)
+    return { success: false, error: 'Failed to get DTE XML' }
+  }
+}
+
+function serializeDteDocument(document: DteDocument) {
+  return {
+    id: document.id,
+    documentType: document.documentType,
+    folio: document.folio,
+    status: document.status,
+    trackId: document.trackId,
+    statusMessage: document.statusMessage,
+    totalAmount: Number(document.totalAmount),
+  }
+}
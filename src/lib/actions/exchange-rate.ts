@@ -0,0 +1,226 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/prisma'
+import { getTenantContext } from '@/lib/auth'
+import type { ActionResult } from '@/types/database'
+import { ExchangeRateService } from '@/services/exchange-rate.service'
+import {
+  saveExchangeRateSchema,
+  importExchangeRatesSchema,
+  deleteExchangeRateSchema,
+  updateBaseCurrencySchema,
+  type SaveExchangeRateRequest,
+  type ImportExchangeRatesRequest,
+  type DeleteExchangeRateRequest,
+  type UpdateBaseCurrencyRequest,
+} from '@/lib/validations/exchange-rate'
+
+/**
+ * Get the base currency and the latest exchange rates (admin only)
+ */
+export async function getExchangeRatesAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const [baseCurrency, rates] = await Promise.all([
+      ExchangeRateService.getInstance().getBaseCurrency(tenantId),
+      prisma.exchangeRate.findMany({
+        where: { tenantId },
+        orderBy: [{ effectiveDate: 'desc' }, { fromCurrency: 'asc' }],
+        take: 50,
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        baseCurrency,
+        rates: rates.map(rate => ({ ...rate, rate: Number(rate.rate) })),
+      },
+    }
+  } catch (error: any) {
+    console.error('Get exchange rates error:', error)
+    return { success: false, error: error.message || 'Failed to get exchange rates' }
+  }
+}
+
+/**
+ * Enter the exchange rate for a day by hand (admin only)
+ */
+export async function saveExchangeRateAction(data: SaveExchangeRateRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = saveExchangeRateSchema.parse(data)
+
+    const rate = await ExchangeRateService.getInstance().saveRate({
+      tenantId,
+      userId: user.id,
+      ...validatedData,
+      effectiveDate: new Date(`${validatedData.effectiveDate}T00:00:00Z`),
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: { ...rate, rate: Number(rate.rate) } }
+  } catch (error: any) {
+    console.error('Save exchange rate error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to save exchange rate' }
+  }
+}
+
+/**
+ * Import a CSV file of exchange rates, such as a UF or dollar series (admin only)
+ */
+export async function importExchangeRatesAction(data: ImportExchangeRatesRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = importExchangeRatesSchema.parse(data)
+
+    const result = await ExchangeRateService.getInstance().importRates({
+      tenantId,
+      userId: user.id,
+      content: validatedData.content,
+      toCurrency: validatedData.toCurrency,
+    })
+
+    revalidatePath('/billing')
+
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Import exchange rates error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to import exchange rates' }
+  }
+}
+
+/**
+ * Delete an exchange rate entered by mistake (admin only)
+ */
+export async function deleteExchangeRateAction(data: DeleteExchangeRateRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteExchangeRateSchema.parse(data)
+
+    await ExchangeRateService.getInstance().deleteRate(tenantId, validatedData.rateId)
+
+    revalidatePath('/billing')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete exchange rate error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Exchange rate not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to delete exchange rate' }
+  }
+}
+
+/**
+ * Change the currency reports and statistics are aggregated in (admin only)
+ */
+export async function updateBaseCurrencyAction(data: UpdateBaseCurrencyRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = updateBaseCurrencySchema.parse(data)
+
+    await ExchangeRateService.getInstance().updateBaseCurrency(tenantId, validatedData.baseCurrency)
+
+    revalidatePath('/billing')
+
+    return { success: true, data: validatedData }
+  } catch (error: any) {
+    console.error('Update base currency error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to update base currency' }
+  }
+}
@@ -26,6 +26,16 @@ import {
 } from '../validations/financial-report'
 import { ActionResult } from '@/types/database'
 import { QueryBuilder } from '../utils/search'
+import { getTenantContext } from '@/lib/auth'
+import { ExchangeRateService } from '@/services/exchange-rate.service'
+import { sumInCurrency, type CurrencyTotal, type ExchangeRateRecord } from '../utils/exchange-rate'
+
+// Currency a report is presented in, with the rates its payments are converted at
+interface ReportCurrency {
+  tenantId: string
+  currency: string
+  rates: ExchangeRateRecord[]
+}
 
 /**
  * Financial Report Generation
@@ -52,16 +62,17 @@ export async function createFinancialReportAction(data: CreateFinancialReportReq
     
     const validatedData = validation.data
     const prisma = await getTenantPrisma()
+    const reportCurrency = await getReportCurrency(validatedData.currency)
 
     // Generate report data based on type
     let reportData: any = {}
     
     switch (validatedData.reportType) {
       case 'INCOME_STATEMENT':
-        reportData = await generateIncomeStatement(validatedData, prisma)
+        reportData = await generateIncomeStatement(validatedData, prisma, reportCurrency)
         break
       case 'REVENUE_ANALYSIS':
-        reportData = await generateRevenueAnalysis(validatedData, prisma)
+        reportData = await generateRevenueAnalysis(validatedData, prisma, reportCurrency)
         break
       case 'CASH_FLOW':
         reportData = await generateCashFlowReport(validatedData, prisma)
@@ -309,8 +320,9 @@ export async function generateRevenueAnalysisAction(data: RevenueAnalysisRequest
     
     const validatedData = validation.data
     const prisma = await getTenantPrisma()
+    const reportCurrency = await getReportCurrency(validatedData.currency)
 
-    const analysis = await generateRevenueAnalysis(validatedData, prisma)
+    const analysis = await generateRevenueAnalysis(validatedData, prisma, reportCurrency)
 
     return {
       success: true,
@@ -354,8 +366,9 @@ export async function generateCashFlowAnalysisAction(data: CashFlowAnalysisReque
     
     const validatedData = validation.data
     const prisma = await getTenantPrisma()
+    const reportCurrency = await getReportCurrency(validatedData.currency)
 
-    const analysis = await generateCashFlowAnalysis(validatedData, prisma)
+    const analysis = await generateCashFlowAnalysis(validatedData, prisma, reportCurrency)
 
     return {
       success: true,
@@ -399,8 +412,9 @@ export async function generateFinancialMetricsAction(data: FinancialMetricsReque
     
     const validatedData = validation.data
     const prisma = await getTenantPrisma()
+    const reportCurrency = await getReportCurrency(validatedData.currency)
 
-    const metrics = await generateFinancialMetrics(validatedData, prisma)
+    const metrics = await generateFinancialMetrics(validatedData, prisma, reportCurrency)
 
     return {
       success: true,
@@ -428,43 +442,79 @@ export async function generateFinancialMetricsAction(data: FinancialMetricsReque
  * Helper Functions for Report Generation
  */
 
-async function generateIncomeStatement(data: any, prisma: any): Promise<any> {
+/**
+ * The requested currency or the tenant's base currency. Payments in other currencies are
+ * converted at the rate of the day they were received.
+ */
+async function getReportCurrency(requested?: string): Promise<ReportCurrency> {
+  const { tenantId } = await getTenantContext()
+  if (!tenantId) {
+    throw new Error('Authentication required')
+  }
+
+  const { baseCurrency, rates } = await ExchangeRateService.getInstance().getCurrencyContext(tenantId)
+  return { tenantId, currency: requested || baseCurrency, rates }
+}
+
+function sumPayments(payments: any[], report: ReportCurrency): CurrencyTotal {
+  return sumInCurrency(
+    report.rates,
+    payments.map(payment => ({
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      date: payment.processedAt || payment.createdAt,
+    })),
+    report.currency
+  )
+}
+
+async function generateIncomeStatement(data: any, prisma: any, report: ReportCurrency): Promise<any> {
   const { startDate, endDate } = data
 
-  // Get revenue from completed payments
-  const revenue = await prisma.payment.aggregate({
+  // Get revenue from completed payments. Credit notes applied to invoices are recorded as
+  // payments too but bring no money in, so every report here leaves them out
+  const revenue = await prisma.payment.findMany({
     where: {
+      tenantId: report.tenantId,
       status: 'COMPLETED',
+      method: { not: 'CREDIT_NOTE' },
       amount: { gt: 0 },
       createdAt: { gte: startDate, lte: endDate },
     },
-    _sum: { amount: true },
+    select: { amount: true, currency: true, processedAt: true, createdAt: true },
   })
 
   // For expenses, we would need an expense model - for now, use negative amounts as expenses
-  const expenses = await prisma.payment.aggregate({
+  const expenses = await prisma.payment.findMany({
     where: {
+      tenantId: report.tenantId,
       status: 'COMPLETED',
+      method: { not: 'CREDIT_NOTE' },
       amount: { lt: 0 },
       createdAt: { gte: startDate, lte: endDate },
     },
-    _sum: { amount: true },
+    select: { amount: true, currency: true, processedAt: true, createdAt: true },
   })
 
-  const totalRevenue = Number(revenue._sum.amount || 0)
-  const totalExpenses = Math.abs(Number(expenses._sum.amount || 0))
+  const revenueTotal = sumPayments(revenue, report)
+  const expensesTotal = sumPayments(expenses, report)
+  const totalRevenue = revenueTotal.total
+  const totalExpenses = Math.abs(expensesTotal.total)
   const netIncome = totalRevenue - totalExpenses
 
   return {
     period: { startDate, endDate },
+    currency: report.currency,
     revenue: {
       total: totalRevenue,
+      unconverted: revenueTotal.unconverted,
       breakdown: {
         // Could add breakdown by service type, space type, etc.
       },
     },
     expenses: {
       total: totalExpenses,
+      unconverted: expensesTotal.unconverted,
       breakdown: {
         // Could add breakdown by category
       },
@@ -474,13 +524,15 @@ async function generateIncomeStatement(data: any, prisma: any): Promise<any> {
   }
 }
 
-async function generateRevenueAnalysis(data: any, prisma: any): Promise<any> {
+async function generateRevenueAnalysis(data: any, prisma: any, report: ReportCurrency): Promise<any> {
   const { startDate, endDate, groupBy, includeBreakdown, breakdownBy } = data
 
   // Base revenue query
   const revenueData = await prisma.payment.findMany({
     where: {
+      tenantId: report.tenantId,
       status: 'COMPLETED',
+      method: { not: 'CREDIT_NOTE' },
       amount: { gt: 0 },
       createdAt: { gte: startDate, lte: endDate },
     },
@@ -499,8 +551,9 @@ async function generateRevenueAnalysis(data: any, prisma: any): Promise<any> {
   const groupedData = groupRevenueByPeriod(revenueData, groupBy)
 
   // Calculate totals
-  const totalRevenue = revenueData.reduce((sum, payment) => sum + Number(payment.amount), 0)
-  const averageTransaction = revenueData.length > 0 ? totalRevenue / revenueData.length : 0
+  const revenue = sumPayments(revenueData, report)
+  const totalRevenue = revenue.total
+  const averageTransaction = revenue.count > 0 ? totalRevenue / revenue.count : 0
 
   // Breakdown analysis
   let breakdown = {}
@@ -510,22 +563,26 @@ async function generateRevenueAnalysis(data: any, prisma: any): Promise<any> {
 
   return {
     period: { startDate, endDate },
+    currency: report.currency,
     totalRevenue,
     averageTransaction,
     transactionCount: revenueData.length,
+    unconverted: revenue.unconverted,
     groupedData,
     breakdown,
     trends: calculateRevenueTrends(groupedData),
   }
 }
 
-async function generateCashFlowAnalysis(data: any, prisma: any): Promise<any> {
+async function generateCashFlowAnalysis(data: any, prisma: any, report: ReportCurrency): Promise<any> {
   const { startDate, endDate, includeProjections, projectionDays } = data
 
   // Get all payments (inflows and outflows)
   const payments = await prisma.payment.findMany({
     where: {
+      tenantId: report.tenantId,
       status: 'COMPLETED',
+      method: { not: 'CREDIT_NOTE' },
       createdAt: { gte: startDate, lte: endDate },
     },
     orderBy: { createdAt: 'asc' },
@@ -535,8 +592,10 @@ async function generateCashFlowAnalysis(data: any, prisma: any): Promise<any> {
   const inflows = payments.filter(p => Number(p.amount) > 0)
   const outflows = payments.filter(p => Number(p.amount) < 0)
 
-  const totalInflows = inflows.reduce((sum, p) => sum + Number(p.amount), 0)
-  const totalOutflows = Math.abs(outflows.reduce((sum, p) => sum + Number(p.amount), 0))
+  const inflowsTotal = sumPayments(inflows, report)
+  const outflowsTotal = sumPayments(outflows, report)
+  const totalInflows = inflowsTotal.total
+  const totalOutflows = Math.abs(outflowsTotal.total)
   const netCashFlow = totalInflows - totalOutflows
 
   // Generate daily cash flow
@@ -549,32 +608,37 @@ async function generateCashFlowAnalysis(data: any, prisma: any): Promise<any> {
 
   return {
     period: { startDate, endDate },
+    currency: report.currency,
     summary: {
       totalInflows,
       totalOutflows,
       netCashFlow,
       inflowCount: inflows.length,
       outflowCount: outflows.length,
+      unconvertedInflows: inflowsTotal.unconverted,
+      unconvertedOutflows: outflowsTotal.unconverted,
     },
     dailyCashFlow,
     projections,
   }
 }
 
-async function generateFinancialMetrics(data: any, prisma: any): Promise<any> {
+async function generateFinancialMetrics(data: any, prisma: any, report: ReportCurrency): Promise<any> {
   const { startDate, endDate, includeKPIs, includeRatios, includeTrends } = data
 
-  const metrics: any = {}
+  const metrics: any = { currency: report.currency }
 
   if (includeKPIs) {
     // Revenue Growth
-    const currentRevenue = await prisma.payment.aggregate({
+    const currentRevenue = await prisma.payment.findMany({
       where: {
+        tenantId: report.tenantId,
         status: 'COMPLETED',
+        method: { not: 'CREDIT_NOTE' },
         amount: { gt: 0 },
         createdAt: { gte: startDate, lte: endDate },
       },
-      _sum: { amount: true },
+      select: { amount: true, currency: true, processedAt: true, createdAt: true },
     })
 
     // Calculate previous period for comparison
@@ -582,23 +646,27 @@ async function generateFinancialMetrics(data: any, prisma: any): Promise<any> {
     const previousStartDate = new Date(startDate.getTime() - periodLength)
     const previousEndDate = new Date(startDate.getTime())
 
-    const previousRevenue = await prisma.payment.aggregate({
+    const previousRevenue = await prisma.payment.findMany({
       where: {
+        tenantId: report.tenantId,
         status: 'COMPLETED',
+        method: { not: 'CREDIT_NOTE' },
         amount: { gt: 0 },
         createdAt: { gte: previousStartDate, lte: previousEndDate },
       },
-      _sum: { amount: true },
+      select: { amount: true, currency: true, processedAt: true, createdAt: true },
     })
 
-    const currentRev = Number(currentRevenue._sum.amount || 0)
-    const previousRev = Number(previousRevenue._sum.amount || 0)
+    const current = sumPayments(currentRevenue, report)
+    const currentRev = current.total
+    const previousRev = sumPayments(previousRevenue, report).total
     const revenueGrowth = previousRev > 0 ? ((currentRev - previousRev) / previousRev) * 100 : 0
 
     metrics.kpis = {
       revenueGrowth,
       totalRevenue: currentRev,
       previousRevenue: previousRev,
+      unconverted: current.unconverted,
     }
   }
 
@@ -28,6 +28,9 @@ export * from './service'
 // Booking management actions
 export * from './booking'
 
+// Desk booking actions
+export * from './desk'
+
 // Resource management actions
 export * from './resource'
 
@@ -43,6 +46,11 @@ export * from './membership'
 // Financial management actions
 export * from './invoice'
 export * from './payment'
+export * from './billing'
+export * from './dte'
+export * from './payment-link'
+export * from './reconciliation'
+export * from './exchange-rate'
 
 // Notification management actions
 export * from './notification'
@@ -4,7 +4,10 @@ import { revalidatePath } from 'next/cache'
 import { prisma } from '@/lib/prisma'
 import { getTenantContext } from '@/lib/auth'
 import type { ActionResult } from '@/types/database'
-import crypto from 'crypto'
+import { RATE_LIMIT_POLICIES } from '@/lib/utils/rate-limit'
+import { ApiKeyService } from '@/services/api-key.service'
+import { RateLimitService } from '@/services/rate-limit.service'
+import { WebhookService } from '@/services/webhook.service'
 import {
   createApiKeySchema,
   createWebhookSchema,
@@ -33,8 +36,14 @@ import {
   executeDataMigrationSchema,
   rollbackDataMigrationSchema,
   testWebhookSchema,
+  rotateWebhookSecretSchema,
+  redeliverWebhookSchema,
   testExternalServiceSchema,
   rotateApiKeySchema,
+  revokeApiKeySchema,
+  saveTenantRateLimitSchema,
+  deleteTenantRateLimitSchema,
+  TenantRateLimitPolicySchema,
   importDataSchema,
   exportDataSchema,
   type CreateApiKeyRequest,
@@ -64,14 +73,20 @@ import {
   type ExecuteDataMigrationRequest,
   type RollbackDataMigrationRequest,
   type TestWebhookRequest,
+  type RotateWebhookSecretRequest,
+  type RedeliverWebhookRequest,
   type TestExternalServiceRequest,
   type RotateApiKeyRequest,
+  type RevokeApiKeyRequest,
+  type SaveTenantRateLimitRequest,
+  type DeleteTenantRateLimitRequest,
   type ImportDataRequest,
   type ExportDataRequest,
 } from '@/lib/validations/integration'
 
 /**
- * Create a new API key
+ * Create an API key for the REST API (admin only). Requests made with it act on behalf of the
+ * admin that creates it.
  */
 export async function createApiKeyAction(data: CreateApiKeyRequest): Promise<ActionResult<any>> {
   try {
@@ -81,64 +96,257 @@ export async function createApiKeyAction(data: CreateApiKeyRequest): Promise<Act
       return { success: false, error: 'Authentication required' }
     }
 
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
     // Validate input data
     const validatedData = createApiKeySchema.parse(data)
 
-    // Generate API key if not provided
-    let apiKey = validatedData.key
-    if (!apiKey) {
-      const prefix = validatedData.prefix || 'sk_'
-      const randomBytes = crypto.randomBytes(32).toString('hex')
-      apiKey = `${prefix}${randomBytes}`
+    const result = await ApiKeyService.getInstance().createApiKey({
+      tenantId,
+      userId: user.id,
+      ...validatedData,
+    })
+
+    revalidatePath('/integrations/api-keys')
+
+    // The key is returned only this once, it is stored hashed
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Create API key error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
     }
 
-    // Hash the API key for storage
-    const hashedKey = crypto.createHash('sha256').update(apiKey).digest('hex')
+    return { success: false, error: error.message || 'Failed to create API key' }
+  }
+}
 
-    // Create API key record
-    const apiKeyRecord = await prisma.apiKey.create({
-      data: {
-        ...validatedData,
-        tenantId,
-        key: hashedKey, // Store hashed version
-        scopes: JSON.stringify(validatedData.scopes),
-        permissions: JSON.stringify(validatedData.permissions),
-        rateLimit: JSON.stringify(validatedData.rateLimit),
-        allowedIPs: JSON.stringify(validatedData.allowedIPs),
-        allowedDomains: JSON.stringify(validatedData.allowedDomains),
-        metadata: validatedData.metadata ? JSON.stringify(validatedData.metadata) : null,
-        createdBy: user.id,
-      },
-      include: {
-        tenant: true,
-        createdByUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
-    })
+/**
+ * Update an API key's name, scopes, IP allow-list or expiration (admin only)
+ */
+export async function updateApiKeyAction(data: UpdateApiKeyRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const { id, ...validatedData } = updateApiKeySchema.parse(data)
+
+    const apiKey = await ApiKeyService.getInstance().updateApiKey(tenantId, id, validatedData)
 
     revalidatePath('/integrations/api-keys')
-    
-    return { 
-      success: true, 
-      data: {
-        ...apiKeyRecord,
-        key: apiKey, // Return original key only once
-        scopes: JSON.parse(apiKeyRecord.scopes),
-        permissions: JSON.parse(apiKeyRecord.permissions),
-        rateLimit: JSON.parse(apiKeyRecord.rateLimit),
-        allowedIPs: JSON.parse(apiKeyRecord.allowedIPs),
-        allowedDomains: JSON.parse(apiKeyRecord.allowedDomains),
-        metadata: apiKeyRecord.metadata ? JSON.parse(apiKeyRecord.metadata) : null,
+
+    return { success: true, data: apiKey }
+  } catch (error: any) {
+    console.error('Update API key error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
       }
     }
+
+    return { success: false, error: error.message || 'Failed to update API key' }
+  }
+}
+
+/**
+ * Replace an API key with a new one; the old key keeps working for the grace period (admin only)
+ */
+export async function rotateApiKeyAction(data: RotateApiKeyRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = rotateApiKeySchema.parse(data)
+
+    const result = await ApiKeyService.getInstance().rotateApiKey(
+      tenantId,
+      validatedData.id,
+      validatedData.gracePeriodHours
+    )
+
+    revalidatePath('/integrations/api-keys')
+
+    return { success: true, data: result }
   } catch (error: any) {
-    console.error('Create API key error:', error)
-    
+    console.error('Rotate API key error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'API key not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to rotate API key' }
+  }
+}
+
+/**
+ * Revoke an API key for good (admin only)
+ */
+export async function revokeApiKeyAction(data: RevokeApiKeyRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = revokeApiKeySchema.parse(data)
+
+    const apiKey = await ApiKeyService.getInstance().revokeApiKey(tenantId, validatedData.id)
+
+    revalidatePath('/integrations/api-keys')
+
+    return { success: true, data: apiKey }
+  } catch (error: any) {
+    console.error('Revoke API key error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'API key not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to revoke API key' }
+  }
+}
+
+/**
+ * Delete an API key along with its usage history (admin only)
+ */
+export async function deleteApiKeyAction(data: DeleteApiKeyRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteApiKeySchema.parse(data)
+
+    await ApiKeyService.getInstance().deleteApiKey(tenantId, validatedData.id)
+
+    revalidatePath('/integrations/api-keys')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete API key error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'API key not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to delete API key' }
+  }
+}
+
+/**
+ * Rate limits of the tenant's public endpoints, with the default of the ones not changed (admin only)
+ */
+export async function listRateLimitsAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const tenantLimits = await RateLimitService.getInstance().listTenantLimits(tenantId)
+
+    return {
+      success: true,
+      data: TenantRateLimitPolicySchema.options.map(policy => {
+        const tenantLimit = tenantLimits.find(limit => limit.policy === policy)
+
+        return {
+          policy,
+          limit: tenantLimit?.limit ?? RATE_LIMIT_POLICIES[policy].limit,
+          windowSeconds: tenantLimit?.windowSeconds ?? RATE_LIMIT_POLICIES[policy].windowSeconds,
+          isDefault: !tenantLimit,
+        }
+      }),
+    }
+  } catch (error: any) {
+    console.error('List rate limits error:', error)
+    return { success: false, error: error.message || 'Failed to list rate limits' }
+  }
+}
+
+/**
+ * Change the rate limit of a group of endpoints for the tenant (admin only)
+ */
+export async function saveRateLimitAction(data: SaveTenantRateLimitRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const { policy, ...rule } = saveTenantRateLimitSchema.parse(data)
+
+    const tenantLimit = await RateLimitService.getInstance().saveTenantLimit(tenantId, policy, rule)
+
+    revalidatePath('/integrations/api-keys')
+
+    return { success: true, data: tenantLimit }
+  } catch (error: any) {
+    console.error('Save rate limit error:', error)
+
     if (error.name === 'ZodError') {
       return {
         success: false,
@@ -150,12 +358,47 @@ export async function createApiKeyAction(data: CreateApiKeyRequest): Promise<Act
       }
     }
 
-    return { success: false, error: 'Failed to create API key' }
+    return { success: false, error: error.message || 'Failed to save rate limit' }
   }
 }
 
 /**
- * Create a new webhook
+ * Go back to the platform's default rate limit for a group of endpoints (admin only)
+ */
+export async function deleteRateLimitAction(data: DeleteTenantRateLimitRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteTenantRateLimitSchema.parse(data)
+
+    await RateLimitService.getInstance().deleteTenantLimit(tenantId, validatedData.policy)
+
+    revalidatePath('/integrations/api-keys')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete rate limit error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Rate limit not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to reset rate limit' }
+  }
+}
+
+/**
+ * Create a new webhook (admin only)
  */
 export async function createWebhookAction(data: CreateWebhookRequest): Promise<ActionResult<any>> {
   try {
@@ -165,63 +408,152 @@ export async function createWebhookAction(data: CreateWebhookRequest): Promise<A
       return { success: false, error: 'Authentication required' }
     }
 
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
     // Validate input data
     const validatedData = createWebhookSchema.parse(data)
 
-    // Create webhook record
-    const webhook = await prisma.webhook.create({
-      data: {
-        ...validatedData,
-        tenantId,
-        events: JSON.stringify(validatedData.events),
-        eventFilters: JSON.stringify(validatedData.eventFilters),
-        headers: JSON.stringify(validatedData.headers),
-        authConfig: JSON.stringify(validatedData.authConfig),
-        expectedResponseCodes: JSON.stringify(validatedData.expectedResponseCodes),
-        metadata: validatedData.metadata ? JSON.stringify(validatedData.metadata) : null,
-        createdBy: user.id,
-      },
-      include: {
-        tenant: true,
-        createdByUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-      },
+    const webhook = await WebhookService.getInstance().createWebhook({
+      tenantId,
+      userId: user.id,
+      ...validatedData,
     })
 
-    revalidatePath('/integrations/webhooks')
-    
-    return { 
-      success: true, 
-      data: {
-        ...webhook,
-        events: JSON.parse(webhook.events),
-        eventFilters: JSON.parse(webhook.eventFilters),
-        headers: JSON.parse(webhook.headers),
-        authConfig: JSON.parse(webhook.authConfig),
-        expectedResponseCodes: JSON.parse(webhook.expectedResponseCodes),
-        metadata: webhook.metadata ? JSON.parse(webhook.metadata) : null,
-      }
+    revalidatePath('/integrations/webhooks')
+
+    // The secret is returned so the receiver can be configured to verify signatures
+    return { success: true, data: webhook }
+  } catch (error: any) {
+    console.error('Create webhook error:', error)
+    
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to create webhook' }
+  }
+}
+
+/**
+ * Update a webhook's endpoint, events or status (admin only)
+ */
+export async function updateWebhookAction(data: UpdateWebhookRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const { id, ...validatedData } = updateWebhookSchema.parse(data)
+
+    const webhook = await WebhookService.getInstance().updateWebhook(tenantId, id, validatedData)
+
+    revalidatePath('/integrations/webhooks')
+    revalidatePath(`/integrations/webhooks/${id}`)
+
+    return { success: true, data: webhook }
+  } catch (error: any) {
+    console.error('Update webhook error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to update webhook' }
+  }
+}
+
+/**
+ * Delete a webhook along with its delivery log (admin only)
+ */
+export async function deleteWebhookAction(data: DeleteWebhookRequest): Promise<ActionResult<void>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = deleteWebhookSchema.parse(data)
+
+    await WebhookService.getInstance().deleteWebhook(tenantId, validatedData.id)
+
+    revalidatePath('/integrations/webhooks')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete webhook error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Webhook not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to delete webhook' }
+  }
+}
+
+/**
+ * Replace a webhook's signing secret (admin only)
+ */
+export async function rotateWebhookSecretAction(data: RotateWebhookSecretRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
     }
+
+    // Validate input data
+    const validatedData = rotateWebhookSecretSchema.parse(data)
+
+    const webhook = await WebhookService.getInstance().rotateSecret(tenantId, validatedData.id)
+
+    revalidatePath(`/integrations/webhooks/${webhook.id}`)
+
+    return { success: true, data: { id: webhook.id, secret: webhook.secret } }
   } catch (error: any) {
-    console.error('Create webhook error:', error)
-    
+    console.error('Rotate webhook secret error:', error)
+
     if (error.name === 'ZodError') {
-      return {
-        success: false,
-        error: 'Validation failed',
-        fieldErrors: error.errors.reduce((acc: any, err: any) => {
-          acc[err.path.join('.')] = err.message
-          return acc
-        }, {}),
-      }
+      return { success: false, error: 'Webhook not found' }
     }
 
-    return { success: false, error: 'Failed to create webhook' }
+    return { success: false, error: error.message || 'Failed to rotate webhook secret' }
   }
 }
 
@@ -380,120 +712,98 @@ export async function createDataMigrationAction(data: CreateDataMigrationRequest
 }
 
 /**
- * List API keys with filtering and pagination
+ * List the tenant's API keys with their requests over the last 30 days (admin only)
  */
-export async function listApiKeysAction(data: ListApiKeysRequest = {}): Promise<ActionResult<any>> {
+export async function listApiKeysAction(data: Partial<ListApiKeysRequest> = {}): Promise<ActionResult<any>> {
   try {
     // Get tenant context and validate auth
-    const { tenantId } = await getTenantContext()
-    if (!tenantId) {
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
       return { success: false, error: 'Authentication required' }
     }
 
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
     // Validate input data
     const validatedData = listApiKeysSchema.parse(data)
 
-    // Build where clause
-    const where: any = {
-      tenantId,
-      deletedAt: null,
-    }
+    const since = new Date()
+    since.setUTCDate(since.getUTCDate() - 30)
 
-    if (validatedData.search) {
-      where.OR = [
-        { name: { contains: validatedData.search, mode: 'insensitive' } },
-        { description: { contains: validatedData.search, mode: 'insensitive' } },
-      ]
-    }
+    const apiKeys = await prisma.apiKey.findMany({
+      where: {
+        tenantId,
+        ...(validatedData.includeRevoked ? {} : { revokedAt: null }),
+      },
+      orderBy: { createdAt: 'desc' },
+      omit: { keyHash: true, previousKeyHash: true },
+      include: {
+        usage: {
+          where: { date: { gte: since } },
+          select: { requests: true, errors: true },
+        },
+      },
+    })
 
-    if (validatedData.isActive !== undefined) {
-      where.isActive = validatedData.isActive
+    return {
+      success: true,
+      data: apiKeys.map(({ usage, ...apiKey }) => ({
+        ...apiKey,
+        recentRequests: usage.reduce((total, day) => total + day.requests, 0),
+        recentErrors: usage.reduce((total, day) => total + day.errors, 0),
+      })),
     }
+  } catch (error: any) {
+    console.error('List API keys error:', error)
+    return { success: false, error: error.message || 'Failed to list API keys' }
+  }
+}
 
-    if (validatedData.environment) {
-      where.environment = validatedData.environment
+/**
+ * Get an API key with its daily usage (admin only)
+ */
+export async function getApiKeyAction(data: GetApiKeyRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
     }
 
-    // Build order by
-    const orderBy: any = {}
-    orderBy[validatedData.sortBy] = validatedData.sortOrder
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
 
-    // Get total count
-    const total = await prisma.apiKey.count({ where })
+    // Validate input data
+    const validatedData = getApiKeySchema.parse(data)
 
-    // Get API keys (excluding actual key values)
-    const apiKeys = await prisma.apiKey.findMany({
-      where,
-      orderBy,
-      skip: (validatedData.page - 1) * validatedData.limit,
-      take: validatedData.limit,
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        prefix: true,
-        scopes: true,
-        permissions: true,
-        rateLimit: true,
-        allowedIPs: true,
-        allowedDomains: true,
-        isActive: true,
-        environment: true,
-        expiresAt: true,
-        lastUsedAt: true,
-        createdAt: true,
-        updatedAt: true,
-        metadata: true,
-        tenant: true,
-        createdByUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
+    const apiKey = await prisma.apiKey.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
       },
+      omit: { keyHash: true, previousKeyHash: true },
     })
 
-    // Process JSON fields
-    const processedApiKeys = apiKeys.map(apiKey => ({
-      ...apiKey,
-      scopes: JSON.parse(apiKey.scopes),
-      permissions: JSON.parse(apiKey.permissions),
-      rateLimit: JSON.parse(apiKey.rateLimit),
-      allowedIPs: JSON.parse(apiKey.allowedIPs),
-      allowedDomains: JSON.parse(apiKey.allowedDomains),
-      metadata: apiKey.metadata ? JSON.parse(apiKey.metadata) : null,
-      keyPreview: `${apiKey.prefix || 'sk_'}****`, // Show only prefix
-    }))
-    
-    return { 
-      success: true, 
-      data: {
-        apiKeys: processedApiKeys,
-        pagination: {
-          page: validatedData.page,
-          limit: validatedData.limit,
-          total,
-          pages: Math.ceil(total / validatedData.limit),
-        },
-      }
+    if (!apiKey) {
+      return { success: false, error: 'API key not found' }
     }
+
+    const usage = await ApiKeyService.getInstance().getUsage(tenantId, apiKey.id, validatedData.days)
+
+    return { success: true, data: { ...apiKey, usage } }
   } catch (error: any) {
-    console.error('List API keys error:', error)
-    
+    console.error('Get API key error:', error)
+
     if (error.name === 'ZodError') {
-      return {
-        success: false,
-        error: 'Validation failed',
-        fieldErrors: error.errors.reduce((acc: any, err: any) => {
-          acc[err.path.join('.')] = err.message
-          return acc
-        }, {}),
-      }
+      return { success: false, error: 'API key not found' }
     }
 
-    return { success: false, error: 'Failed to list API keys' }
+    return { success: false, error: error.message || 'Failed to get API key' }
   }
 }
 
@@ -598,76 +908,38 @@ export async function executeDataMigrationAction(data: ExecuteDataMigrationReque
 }
 
 /**
- * Test a webhook
+ * Send a test event to a webhook and return the delivery result (admin only)
  */
 export async function testWebhookAction(data: TestWebhookRequest): Promise<ActionResult<any>> {
   try {
     // Get tenant context and validate auth
-    const { tenantId } = await getTenantContext()
-    if (!tenantId) {
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
       return { success: false, error: 'Authentication required' }
     }
 
-    // Validate input data
-    const validatedData = testWebhookSchema.parse(data)
-
-    // Get webhook
-    const webhook = await prisma.webhook.findFirst({
-      where: {
-        id: validatedData.id,
-        tenantId,
-      },
-    })
-
-    if (!webhook) {
-      return { success: false, error: 'Webhook not found' }
-    }
-
-    // Parse webhook configuration
-    const events = JSON.parse(webhook.events)
-    const headers = JSON.parse(webhook.headers)
-    const authConfig = JSON.parse(webhook.authConfig)
-
-    // Check if webhook supports the test event
-    if (!events.includes(validatedData.event)) {
-      return { success: false, error: 'Webhook does not support this event type' }
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
     }
 
-    // Prepare test payload
-    const testPayload = {
-      id: crypto.randomUUID(),
-      event: validatedData.event,
-      timestamp: new Date().toISOString(),
-      data: validatedData.testData,
-      test: true,
-    }
+    // Validate input data
+    const validatedData = testWebhookSchema.parse(data)
 
-    // Send test webhook
-    const result = await sendWebhook(webhook, testPayload)
+    const delivery = await WebhookService.getInstance().sendTest(tenantId, validatedData.id, validatedData.event)
 
-    // Create delivery log
-    await prisma.webhookDelivery.create({
-      data: {
-        webhookId: webhook.id,
-        event: validatedData.event,
-        payload: JSON.stringify(testPayload),
-        response: result.response ? JSON.stringify(result.response) : null,
-        status: result.success ? 'SUCCESS' : 'FAILED',
-        responseTime: result.responseTime,
-        errorMessage: result.error,
-        isTest: true,
-      },
-    })
+    revalidatePath(`/integrations/webhooks/${validatedData.id}`)
 
     return { 
       success: true, 
       data: {
         webhookId: validatedData.id,
         event: validatedData.event,
-        success: result.success,
-        responseTime: result.responseTime,
-        response: result.response,
-        error: result.error,
+        deliveryId: delivery.id,
+        success: delivery.status === 'SUCCEEDED',
+        responseStatus: delivery.responseStatus,
+        responseTime: delivery.responseTimeMs,
+        error: delivery.errorMessage,
       }
     }
   } catch (error: any) {
@@ -684,7 +956,171 @@ export async function testWebhookAction(data: TestWebhookRequest): Promise<Actio
       }
     }
 
-    return { success: false, error: 'Failed to test webhook' }
+    return { success: false, error: error.message || 'Failed to test webhook' }
+  }
+}
+
+/**
+ * List the tenant's webhooks with their latest delivery (admin only)
+ */
+export async function listWebhooksAction(data: Partial<ListWebhooksRequest> = {}): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = listWebhooksSchema.parse(data)
+
+    const where: any = { tenantId }
+
+    if (validatedData.search) {
+      where.OR = [
+        { name: { contains: validatedData.search, mode: 'insensitive' } },
+        { url: { contains: validatedData.search, mode: 'insensitive' } },
+      ]
+    }
+
+    if (validatedData.events?.length) {
+      where.events = { hasSome: validatedData.events }
+    }
+
+    if (validatedData.isActive !== undefined) {
+      where.isActive = validatedData.isActive
+    }
+
+    const [total, webhooks] = await Promise.all([
+      prisma.webhook.count({ where }),
+      prisma.webhook.findMany({
+        where,
+        orderBy: { [validatedData.sortBy]: validatedData.sortOrder },
+        skip: (validatedData.page - 1) * validatedData.limit,
+        take: validatedData.limit,
+        omit: { secret: true },
+        include: {
+          deliveries: {
+            where: { isTest: false },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { status: true, createdAt: true },
+          },
+          _count: {
+            select: { deliveries: { where: { status: 'DEAD_LETTER' } } },
+          },
+        },
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        webhooks: webhooks.map(({ deliveries, _count, ...webhook }) => ({
+          ...webhook,
+          lastDelivery: deliveries[0] || null,
+          deadLetterCount: _count.deliveries,
+        })),
+        pagination: {
+          page: validatedData.page,
+          limit: validatedData.limit,
+          total,
+          pages: Math.ceil(total / validatedData.limit),
+        },
+      },
+    }
+  } catch (error: any) {
+    console.error('List webhooks error:', error)
+    return { success: false, error: error.message || 'Failed to list webhooks' }
+  }
+}
+
+/**
+ * Get a webhook with its delivery log (admin only)
+ */
+export async function getWebhookAction(data: GetWebhookRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = getWebhookSchema.parse(data)
+
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        id: validatedData.id,
+        tenantId,
+      },
+      include: {
+        deliveries: {
+          where: validatedData.status ? { status: validatedData.status } : undefined,
+          orderBy: { createdAt: 'desc' },
+          take: validatedData.limit || 50,
+        },
+      },
+    })
+
+    if (!webhook) {
+      return { success: false, error: 'Webhook not found' }
+    }
+
+    return { success: true, data: webhook }
+  } catch (error: any) {
+    console.error('Get webhook error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Webhook not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to get webhook' }
+  }
+}
+
+/**
+ * Send a delivered or dead-lettered event again (admin only)
+ */
+export async function redeliverWebhookAction(data: RedeliverWebhookRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = redeliverWebhookSchema.parse(data)
+
+    const delivery = await WebhookService.getInstance().redeliver(tenantId, validatedData.deliveryId)
+
+    revalidatePath(`/integrations/webhooks/${delivery.webhookId}`)
+
+    return { success: true, data: delivery }
+  } catch (error: any) {
+    console.error('Redeliver webhook error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Delivery not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to redeliver webhook' }
   }
 }
 
@@ -928,76 +1364,3 @@ async function insertRecord(record: any, target: any, tenantId: string): Promise
     // Add more entities as needed
   }
 }
-
-async function sendWebhook(webhook: any, payload: any): Promise<{ success: boolean; responseTime: number; response?: any; error?: string }> {
-  const startTime = Date.now()
-  
-  try {
-    const headers = JSON.parse(webhook.headers)
-    const authConfig = JSON.parse(webhook.authConfig)
-    
-    // Prepare request headers
-    const requestHeaders: Record<string, string> = {
-      'Content-Type': webhook.contentType,
-      'User-Agent': 'SweetSpot-Webhook/1.0',
-      ...headers,
-    }
-    
-    // Add authentication headers
-    switch (webhook.authMethod) {
-      case 'API_KEY':
-        if (authConfig.apiKey) {
-          requestHeaders['Authorization'] = `Bearer ${authConfig.apiKey}`
-        }
-        break
-      case 'BEARER_TOKEN':
-        if (authConfig.bearerToken) {
-          requestHeaders['Authorization'] = `Bearer ${authConfig.bearerToken}`
-        }
-        break
-      case 'BASIC_AUTH':
-        if (authConfig.basicAuth) {
-          const credentials = Buffer.from(`${authConfig.basicAuth.username}:${authConfig.basicAuth.password}`).toString('base64')
-          requestHeaders['Authorization'] = `Basic ${credentials}`
-        }
-        break
-      case 'HMAC':
-        if (authConfig.hmacSecret) {
-          const signature = crypto.createHmac('sha256', authConfig.hmacSecret)
-            .update(JSON.stringify(payload))
-            .digest('hex')
-          requestHeaders['X-Signature'] = `sha256=${signature}`
-        }
-        break
-    }
-    
-    // Send webhook
-    const response = await fetch(webhook.url, {
-      method: webhook.httpMethod,
-      headers: requestHeaders,
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(webhook.timeout * 1000),
-    })
-    
-    const responseTime = Date.now() - startTime
-    const responseData = await response.text()
-    
-    return {
-      success: response.ok,
-      responseTime,
-      response: {
-        status: response.status,
-        headers: Object.fromEntries(response.headers.entries()),
-        body: responseData,
-      },
-      error: response.ok ? undefined : `HTTP ${response.status}: ${response.statusText}`,
-    }
-  } catch (error) {
-    const responseTime = Date.now() - startTime
-    return {
-      success: false,
-      responseTime,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    }
-  }
-}
\ No newline at end of file
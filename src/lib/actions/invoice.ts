@@ -22,6 +22,36 @@ import {
 } from '../validations/invoice'
 import { ActionResult } from '@/types/database'
 import { QueryBuilder } from '../utils/search'
+import { DunningService } from '@/services/dunning.service'
+import { PaymentLinkService } from '@/services/payment-link.service'
+import { Resend } from 'resend'
+import { TaxService } from '@/services/tax.service'
+import { calculateDocumentTaxes } from '../utils/tax'
+import { getTenantContext } from '@/lib/auth'
+import { ExchangeRateService } from '@/services/exchange-rate.service'
+import { sumInCurrency } from '../utils/exchange-rate'
+import { WebhookService } from '@/services/webhook.service'
+
+/**
+ * Taxes of invoice items with the tax rules of the client's tenant
+ */
+async function calculateInvoiceItemTaxes(
+  prisma: Awaited<ReturnType<typeof getTenantPrisma>>,
+  clientId: string,
+  items: CreateInvoiceRequest['items']
+) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { tenantId: true },
+  })
+
+  if (!client) {
+    throw new Error('Client not found')
+  }
+
+  const { rules, context } = await TaxService.getInstance().getDocumentTaxSettings(client.tenantId, clientId)
+  return { ...calculateDocumentTaxes(items, rules, context), taxIncluded: context.pricesIncludeTax }
+}
 
 /**
  * Invoice CRUD Operations
@@ -64,13 +94,12 @@ export async function createInvoiceAction(data: CreateInvoiceRequest): Promise<A
       invoiceNumber = `INV-${String(lastNumber + 1).padStart(6, '0')}`
     }
 
-    // Calculate totals
-    const subtotal = validatedData.items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unitPrice
-      return sum + itemTotal
-    }, 0)
+    // Calculate totals, with the tax of every item unless a tax amount is given
+    const taxes = await calculateInvoiceItemTaxes(prisma, validatedData.clientId, validatedData.items)
+    const manualTax = validatedData.tax !== undefined
 
-    const tax = validatedData.tax || 0
+    const subtotal = manualTax ? taxes.amount : taxes.subtotal
+    const tax = manualTax ? validatedData.tax! : taxes.tax
     const total = subtotal + tax
 
     // Create invoice with items
@@ -82,16 +111,18 @@ export async function createInvoiceAction(data: CreateInvoiceRequest): Promise<A
         description: validatedData.description,
         subtotal,
         tax,
+        taxIncluded: !manualTax && taxes.taxIncluded,
         total,
         currency: validatedData.currency,
         dueDate: validatedData.dueDate,
         createdById: (await requireAuth()).id,
         items: {
-          create: validatedData.items.map(item => ({
-            description: item.description,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            total: item.quantity * item.unitPrice,
+          create: taxes.lines.map(line => ({
+            description: line.description,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            total: line.total,
+            ...(manualTax ? {} : { taxRuleId: line.taxRuleId, taxRate: line.taxRate, taxAmount: line.taxAmount }),
           })),
         },
       },
@@ -263,15 +294,19 @@ export async function updateInvoiceAction(id: string, data: UpdateInvoiceRequest
     }
 
     // If items are being updated, recalculate totals
-    if (validatedData.items) {
-      const subtotal = validatedData.items.reduce((sum, item) => {
-        return sum + (item.quantity * item.unitPrice)
-      }, 0)
+    const taxes = validatedData.items
+      ? await calculateInvoiceItemTaxes(prisma, existingInvoice.clientId, validatedData.items)
+      : null
+    const manualTax = validatedData.tax !== undefined
 
-      const tax = validatedData.tax || existingInvoice.tax
-      const total = subtotal + Number(tax)
+    if (taxes) {
+      const subtotal = manualTax ? taxes.amount : taxes.subtotal
+      const tax = manualTax ? validatedData.tax! : taxes.tax
+      const total = subtotal + tax
 
       updateData.subtotal = subtotal
+      updateData.tax = tax
+      updateData.taxIncluded = !manualTax && taxes.taxIncluded
       updateData.total = total
 
       // Delete existing items and create new ones
@@ -305,14 +340,15 @@ export async function updateInvoiceAction(id: string, data: UpdateInvoiceRequest
     })
 
     // Create new items if provided
-    if (validatedData.items) {
+    if (taxes) {
       await prisma.invoiceItem.createMany({
-        data: validatedData.items.map(item => ({
+        data: taxes.lines.map(line => ({
           invoiceId: id,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          total: item.quantity * item.unitPrice,
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          total: line.total,
+          ...(manualTax ? {} : { taxRuleId: line.taxRuleId, taxRate: line.taxRate, taxAmount: line.taxAmount }),
         })),
       })
 
@@ -644,14 +680,47 @@ export async function sendInvoiceAction(data: SendInvoiceRequest): Promise<Actio
       },
     })
 
-    // TODO: Implement email sending logic here
-    // This would integrate with your email service (SendGrid, etc.)
+    // Share the invoice's payment page so the client can pay online
+    const paymentLinks = PaymentLinkService.getInstance()
+    const paymentLink = await paymentLinks.getOrCreateLink({
+      tenantId: invoice.tenantId,
+      invoiceId: invoice.id,
+    })
+    const paymentLinkUrl = paymentLinks.getLinkUrl(paymentLink.token)
+
+    let sent = false
+    if (validatedData.sendEmail && process.env.RESEND_API_KEY) {
+      const resend = new Resend(process.env.RESEND_API_KEY)
+      const total = `${Number(updatedInvoice.total).toLocaleString('es-ES')} ${updatedInvoice.currency}`
+
+      const { error } = await resend.emails.send({
+        from: process.env.FROM_EMAIL || 'noreply@sweetspotcowork.com',
+        to: [updatedInvoice.client.email],
+        subject: `Factura ${updatedInvoice.number}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; line-height: 1.6;">
+            <p>Estimado/a ${updatedInvoice.client.name},</p>
+            <p>Le enviamos la factura ${updatedInvoice.number} por ${total}, con vencimiento el ${updatedInvoice.dueDate.toLocaleDateString('es-ES')}.</p>
+            ${validatedData.emailMessage ? `<p style="white-space: pre-line;">${validatedData.emailMessage}</p>` : ''}
+            <p><a href="${paymentLinkUrl}" style="display: inline-block; background: #2563eb; color: #ffffff; padding: 10px 20px; border-radius: 6px; text-decoration: none;">Ver y pagar factura</a></p>
+            <p style="color: #6b7280; font-size: 12px;">Este enlace vence el ${paymentLink.expiresAt.toLocaleDateString('es-ES')}.</p>
+          </div>
+        `,
+      })
+
+      if (error) {
+        console.error('Invoice email error:', error)
+      } else {
+        sent = true
+      }
+    }
 
     return {
       success: true,
       data: {
         invoice: updatedInvoice,
-        sent: validatedData.sendEmail,
+        sent,
+        paymentLinkUrl,
         message: 'Invoice sent successfully',
       },
     }
@@ -726,7 +795,7 @@ export async function markInvoicePaidAction(data: MarkInvoicePaidRequest): Promi
     const paidAt = validatedData.paidAt || new Date()
 
     // Create payment record
-    await prisma.payment.create({
+    const payment = await prisma.payment.create({
       data: {
         clientId: invoice.clientId,
         invoiceId: invoice.id,
@@ -759,6 +828,12 @@ export async function markInvoicePaidAction(data: MarkInvoicePaidRequest): Promi
       },
     })
 
+    // Lift any dunning suspension the invoice caused
+    await DunningService.getInstance().resolveInvoice(updatedInvoice.id)
+
+    await WebhookService.getInstance().emitPaymentReceived(payment.id)
+    await WebhookService.getInstance().emitInvoicePaid(updatedInvoice.id)
+
     return {
       success: true,
       data: updatedInvoice,
@@ -802,12 +877,19 @@ export async function getInvoiceStatsAction(filters: InvoiceStatsFilters = {}):
 
     // Check authentication
     await requireAuth()
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      }
+    }
     
     const validatedFilters = validation.data
     const prisma = await getTenantPrisma()
 
     // Build filters
-    const whereClause: any = {}
+    const whereClause: any = { tenantId }
 
     if (validatedFilters.clientIds && validatedFilters.clientIds.length > 0) {
       whereClause.clientId = { in: validatedFilters.clientIds }
@@ -829,24 +911,44 @@ export async function getInvoiceStatsAction(filters: InvoiceStatsFilters = {}):
       whereClause.createdAt = { ...whereClause.createdAt, lte: validatedFilters.dateTo }
     }
 
-    const stats: any = {}
-
-    // Basic statistics
-    const totalInvoices = await prisma.invoice.count({ where: whereClause })
-    
-    const invoicesByStatus = await prisma.invoice.groupBy({
-      by: ['status'],
+    // Invoices can be in different currencies, so amounts are added up in the base currency,
+    // each invoice converted at the rate of the day it was issued
+    const { baseCurrency, rates } = await ExchangeRateService.getInstance().getCurrencyContext(tenantId)
+    const invoices = await prisma.invoice.findMany({
       where: whereClause,
-      _count: true,
-      _sum: { total: true },
+      select: {
+        status: true,
+        subtotal: true,
+        tax: true,
+        total: true,
+        currency: true,
+        dueDate: true,
+        createdAt: true,
+      },
     })
 
+    const sumInvoices = (selected: typeof invoices, field: 'subtotal' | 'tax' | 'total' = 'total') => sumInCurrency(
+      rates,
+      selected.map(invoice => ({ amount: Number(invoice[field]), currency: invoice.currency, date: invoice.createdAt })),
+      baseCurrency
+    )
+
+    const stats: any = { currency: baseCurrency }
+
+    // Basic statistics
+    const totalInvoices = invoices.length
+    const statuses = Array.from(new Set(invoices.map(invoice => invoice.status)))
+
     stats.overview = {
       totalInvoices,
-      byStatus: invoicesByStatus.reduce((acc, item) => {
-        acc[item.status] = {
-          count: item._count,
-          totalAmount: item._sum.total || 0,
+      byStatus: statuses.reduce((acc, status) => {
+        const statusInvoices = invoices.filter(invoice => invoice.status === status)
+        const { total, unconverted } = sumInvoices(statusInvoices)
+
+        acc[status] = {
+          count: statusInvoices.length,
+          totalAmount: total,
+          unconverted,
         }
         return acc
       }, {} as Record<string, any>),
@@ -854,41 +956,31 @@ export async function getInvoiceStatsAction(filters: InvoiceStatsFilters = {}):
 
     // Revenue statistics
     if (validatedFilters.includeRevenue) {
-      const revenueStats = await prisma.invoice.aggregate({
-        where: {
-          ...whereClause,
-          status: { in: ['PAID', 'SENT'] },
-        },
-        _sum: { total: true, subtotal: true, tax: true },
-        _avg: { total: true },
-        _count: true,
-      })
+      const revenueInvoices = invoices.filter(invoice => ['PAID', 'SENT'].includes(invoice.status))
+      const revenue = sumInvoices(revenueInvoices)
 
       stats.revenue = {
-        totalRevenue: revenueStats._sum.total || 0,
-        totalSubtotal: revenueStats._sum.subtotal || 0,
-        totalTax: revenueStats._sum.tax || 0,
-        averageInvoiceValue: revenueStats._avg.total || 0,
-        invoiceCount: revenueStats._count,
+        totalRevenue: revenue.total,
+        totalSubtotal: sumInvoices(revenueInvoices, 'subtotal').total,
+        totalTax: sumInvoices(revenueInvoices, 'tax').total,
+        averageInvoiceValue: revenue.count > 0 ? revenue.total / revenue.count : 0,
+        invoiceCount: revenueInvoices.length,
+        unconverted: revenue.unconverted,
       }
     }
 
     // Overdue analysis
     if (validatedFilters.includeOverdue) {
       const now = new Date()
-      const overdueInvoices = await prisma.invoice.aggregate({
-        where: {
-          ...whereClause,
-          dueDate: { lt: now },
-          status: { notIn: ['PAID', 'CANCELLED'] },
-        },
-        _sum: { total: true },
-        _count: true,
-      })
+      const overdueInvoices = invoices.filter(invoice =>
+        invoice.dueDate < now && !['PAID', 'CANCELLED'].includes(invoice.status)
+      )
+      const { total, unconverted } = sumInvoices(overdueInvoices)
 
       stats.overdue = {
-        count: overdueInvoices._count,
-        totalAmount: overdueInvoices._sum.total || 0,
+        count: overdueInvoices.length,
+        totalAmount: total,
+        unconverted,
       }
     }
 
@@ -3,6 +3,7 @@
 import { currentUser } from '@clerk/nextjs/server'
 import { db } from '@/lib/db'
 import { revalidatePath } from 'next/cache'
+import { WebhookService } from '@/services/webhook.service'
 import { 
   createLeadSchema, 
   updateLeadSchema, 
@@ -149,6 +150,18 @@ export async function createLead(input: CreateLeadInput, targetTenantId?: string
       email: lead.email,
       tenantId: lead.tenantId
     })
+
+    await WebhookService.getInstance().emit(lead.tenantId, 'lead.created', {
+      id: lead.id,
+      firstName: lead.firstName,
+      lastName: lead.lastName,
+      email: lead.email,
+      phone: lead.phone,
+      company: lead.company,
+      source: lead.source,
+      status: lead.status,
+      assignedToId: lead.assignedToId,
+    })
     
     revalidatePath('/leads')
 
@@ -4,6 +4,8 @@ import { revalidatePath } from 'next/cache'
 import { prisma } from '@/lib/prisma'
 import { getTenantContext } from '@/lib/auth'
 import type { ActionResult } from '@/types/database'
+import { NotificationDeliveryService } from '@/services/notification-delivery.service'
+import { calculateNotificationRates } from '@/lib/utils/notification-delivery'
 import {
   createNotificationTemplateSchema,
   createNotificationSchema,
@@ -93,7 +95,8 @@ export async function createNotificationTemplateAction(data: CreateNotificationT
         createdByUser: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
@@ -146,6 +149,7 @@ export async function createNotificationAction(data: CreateNotificationRequest):
 
     // Validate input data
     const validatedData = createNotificationSchema.parse(data)
+    const { recipients, sendImmediately, validateTemplate, ...notificationData } = validatedData
 
     // Validate template if specified
     let template = null
@@ -164,7 +168,7 @@ export async function createNotificationAction(data: CreateNotificationRequest):
 
       // Validate template supports the notification type
       const supportedTypes = JSON.parse(template.supportedTypes)
-      if (!supportedTypes.includes(validatedData.type)) {
+      if (validateTemplate && !supportedTypes.includes(validatedData.type)) {
         return { success: false, error: 'Template does not support this notification type' }
       }
     }
@@ -182,10 +186,10 @@ export async function createNotificationAction(data: CreateNotificationRequest):
 
     // Create notification records for each recipient
     const notifications = []
-    for (const recipient of validatedData.recipients) {
+    for (const recipient of recipients) {
       const notification = await prisma.notification.create({
         data: {
-          ...validatedData,
+          ...notificationData,
           tenantId,
           content: processedContent,
           subject: processedSubject,
@@ -205,10 +209,14 @@ export async function createNotificationAction(data: CreateNotificationRequest):
       notifications.push(notification)
     }
 
-    // Send notifications immediately if requested
-    if (validatedData.sendImmediately && validatedData.deliveryMethod === 'IMMEDIATE') {
+    // Queue notifications that are sent now or at a scheduled time
+    const sendAt = validatedData.deliveryMethod === 'SCHEDULED'
+      ? validatedData.scheduleConfig?.sendAt
+      : validatedData.deliveryMethod === 'IMMEDIATE' && sendImmediately ? new Date() : undefined
+
+    if (sendAt) {
       for (const notification of notifications) {
-        await sendNotificationInternal(notification)
+        await NotificationDeliveryService.getInstance().enqueue(notification.id, sendAt)
       }
     }
 
@@ -406,7 +414,8 @@ export async function listNotificationTemplatesAction(data: ListNotificationTemp
         createdByUser: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
@@ -538,7 +547,8 @@ export async function listNotificationsAction(data: ListNotificationsRequest = {
         user: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
@@ -659,7 +669,6 @@ export async function sendNotificationAction(data: SendNotificationRequest): Pro
           type: notificationType,
           category: template?.category || 'SYSTEM',
           priority: validatedData.priority,
-          status: validatedData.scheduleAt ? 'QUEUED' : 'PENDING',
           recipient: JSON.stringify(recipient),
           subject,
           content,
@@ -671,12 +680,9 @@ export async function sendNotificationAction(data: SendNotificationRequest): Pro
         },
       })
 
-      notifications.push(notification)
-
-      // Send immediately if not scheduled
-      if (!validatedData.scheduleAt) {
-        await sendNotificationInternal(notification)
-      }
+      // Sent now, or by the delivery job once it is due
+      await NotificationDeliveryService.getInstance().enqueue(notification.id, validatedData.scheduleAt)
+      notifications.push(await prisma.notification.findUniqueOrThrow({ where: { id: notification.id } }))
     }
 
     revalidatePath('/notifications')
@@ -736,7 +742,8 @@ export async function getNotificationTemplateAction(data: GetNotificationTemplat
         createdByUser: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
@@ -815,7 +822,8 @@ export async function getNotificationAction(data: GetNotificationRequest): Promi
         user: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
@@ -964,7 +972,8 @@ export async function updateNotificationTemplateAction(data: UpdateNotificationT
         createdByUser: {
           select: {
             id: true,
-            name: true,
+            firstName: true,
+            lastName: true,
             email: true,
           },
         },
@@ -1333,6 +1342,88 @@ export async function markNotificationReadAction(data: MarkNotificationReadReque
   }
 }
 
+/**
+ * Queue a failed or cancelled notification again
+ */
+export async function resendNotificationAction(data: ResendNotificationRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = resendNotificationSchema.parse(data)
+
+    const notification = await NotificationDeliveryService.getInstance().resend(
+      tenantId,
+      validatedData.id,
+      validatedData.resetRetryCount
+    )
+
+    revalidatePath('/notifications')
+
+    return { success: true, data: notification }
+  } catch (error: any) {
+    console.error('Resend notification error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to resend notification' }
+  }
+}
+
+/**
+ * Cancel a notification that has not been sent yet
+ */
+export async function cancelNotificationAction(data: CancelNotificationRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Validate input data
+    const validatedData = cancelNotificationSchema.parse(data)
+
+    const notification = await NotificationDeliveryService.getInstance().cancel(
+      tenantId,
+      validatedData.id,
+      validatedData.reason
+    )
+
+    revalidatePath('/notifications')
+
+    return { success: true, data: notification }
+  } catch (error: any) {
+    console.error('Cancel notification error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to cancel notification' }
+  }
+}
+
 /**
  * Get notification analytics
  */
@@ -1383,11 +1474,15 @@ export async function getNotificationAnalyticsAction(data: GetNotificationAnalyt
     // Get summary metrics
     const summary = await getNotificationSummaryMetrics(where, validatedData)
 
+    // Attempts, retries and the receipts providers sent back in the period
+    const deliveryEvents = await getDeliveryEventCounts(tenantId, startDate, endDate)
+
     return { 
       success: true, 
       data: {
         analytics,
         summary,
+        deliveryEvents,
         period: {
           startDate,
           endDate,
@@ -1428,90 +1523,6 @@ function processTemplateContent(content: string, variables: Record<string, any>)
   return processedContent
 }
 
-async function sendNotificationInternal(notification: any): Promise<void> {
-  try {
-    // Update status to sending
-    await prisma.notification.update({
-      where: { id: notification.id },
-      data: { status: 'SENDING' },
-    })
-
-    // Here you would integrate with actual notification services
-    // For now, simulate sending
-    const recipient = JSON.parse(notification.recipient)
-    
-    switch (notification.type) {
-      case 'EMAIL':
-        await sendEmailNotification(notification, recipient)
-        break
-      case 'SMS':
-        await sendSMSNotification(notification, recipient)
-        break
-      case 'PUSH':
-        await sendPushNotification(notification, recipient)
-        break
-      case 'WEBHOOK':
-        await sendWebhookNotification(notification, recipient)
-        break
-    }
-
-    // Update status to sent
-    await prisma.notification.update({
-      where: { id: notification.id },
-      data: { 
-        status: 'SENT',
-        sentAt: new Date(),
-      },
-    })
-  } catch (error) {
-    // Update status to failed
-    await prisma.notification.update({
-      where: { id: notification.id },
-      data: { 
-        status: 'FAILED',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-      },
-    })
-  }
-}
-
-async function sendEmailNotification(notification: any, recipient: any): Promise<void> {
-  // TODO: Integrate with email service (SendGrid, SES, etc.)
-  console.log('Sending email notification:', {
-    to: recipient.email,
-    subject: notification.subject,
-    content: notification.content,
-  })
-}
-
-async function sendSMSNotification(notification: any, recipient: any): Promise<void> {
-  // TODO: Integrate with SMS service (Twilio, etc.)
-  console.log('Sending SMS notification:', {
-    to: recipient.phone,
-    message: notification.content,
-  })
-}
-
-async function sendPushNotification(notification: any, recipient: any): Promise<void> {
-  // TODO: Integrate with push notification service (FCM, etc.)
-  console.log('Sending push notification:', {
-    token: recipient.pushToken,
-    title: notification.subject,
-    body: notification.content,
-  })
-}
-
-async function sendWebhookNotification(notification: any, recipient: any): Promise<void> {
-  // TODO: Integrate with webhook service
-  console.log('Sending webhook notification:', {
-    url: recipient.webhookUrl,
-    payload: {
-      subject: notification.subject,
-      content: notification.content,
-    },
-  })
-}
-
 async function getTimeBasedNotificationAnalytics(where: any, groupBy: string) {
   const result = await prisma.notification.groupBy({
     by: ['createdAt'],
@@ -1550,23 +1561,52 @@ async function getStatusBasedAnalytics(where: any) {
 }
 
 async function getNotificationSummaryMetrics(where: any, options: any) {
-  const [total, sent, delivered, failed] = await Promise.all([
+  const [total, queued, sent, delivered, failed, opened, clicked] = await Promise.all([
     prisma.notification.count({ where }),
-    prisma.notification.count({ where: { ...where, status: 'SENT' } }),
+    prisma.notification.count({ where: { ...where, status: { in: ['PENDING', 'QUEUED', 'SENDING'] } } }),
+    // Everything the provider accepted, including what bounced afterwards
+    prisma.notification.count({ where: { ...where, sentAt: { not: null } } }),
     prisma.notification.count({ where: { ...where, status: 'DELIVERED' } }),
-    prisma.notification.count({ where: { ...where, status: 'FAILED' } }),
+    prisma.notification.count({ where: { ...where, status: { in: ['FAILED', 'BOUNCED', 'REJECTED'] } } }),
+    prisma.notification.count({ where: { ...where, openedAt: { not: null } } }),
+    prisma.notification.count({ where: { ...where, clickedAt: { not: null } } }),
   ])
 
   // Calculate delivery and engagement rates
-  const deliveryRate = total > 0 ? (sent / total) * 100 : 0
-  const engagementRate = sent > 0 ? (delivered / sent) * 100 : 0
+  const rates = calculateNotificationRates({ total, sent, delivered, failed, opened, clicked })
 
   return {
     total,
+    queued,
     sent,
     delivered,
     failed,
-    deliveryRate,
-    engagementRate,
+    opened,
+    clicked,
+    ...(options.includeDeliveryRates && {
+      deliveryRate: rates.deliveryRate,
+      failureRate: rates.failureRate,
+    }),
+    ...(options.includeEngagementRates && {
+      engagementRate: rates.openRate,
+      openRate: rates.openRate,
+      clickRate: rates.clickRate,
+    }),
   }
+}
+
+async function getDeliveryEventCounts(tenantId: string, startDate: Date, endDate: Date) {
+  const events = await prisma.notificationDeliveryEvent.groupBy({
+    by: ['type'],
+    where: {
+      tenantId,
+      occurredAt: {
+        gte: startDate,
+        lte: endDate,
+      },
+    },
+    _count: true,
+  })
+
+  return Object.fromEntries(events.map(event => [event.type, event._count]))
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { currentUser } from '@clerk/nextjs/server'
 import { db } from '@/lib/db'
 import { revalidatePath } from 'next/cache'
+import { WebhookService } from '@/services/webhook.service'
 import { 
   createOpportunitySchema, 
   updateOpportunitySchema,
@@ -371,6 +372,17 @@ export async function changeOpportunityStage(id: string, input: ChangeStageInput
       duration: `${endTime - startTime}ms`,
     })
 
+    await WebhookService.getInstance().emit(existingOpportunity.tenantId, 'opportunity.stage_changed', {
+      id: opportunity.id,
+      title: opportunity.title,
+      fromStage: existingOpportunity.stage,
+      toStage: opportunity.stage,
+      probability: opportunity.probability,
+      value: Number(opportunity.value),
+      clientId: opportunity.clientId,
+      leadId: opportunity.leadId,
+    })
+
     // Revalidate relevant paths
     revalidatePath('/opportunities')
     revalidatePath('/dashboard')
@@ -0,0 +1,222 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { headers } from 'next/headers'
+import { getTenantContext } from '@/lib/auth'
+import { checkIpRateLimit } from '@/lib/server/rate-limit'
+import type { ActionResult } from '@/types/database'
+import { PaymentLinkService } from '@/services/payment-link.service'
+import {
+  createPaymentLinkSchema,
+  revokePaymentLinkSchema,
+  paymentLinkTokenSchema,
+  payInvoiceOnlineSchema,
+  reportBankTransferSchema,
+  type CreatePaymentLinkRequest,
+  type RevokePaymentLinkRequest,
+  type PaymentLinkTokenRequest,
+  type PayInvoiceOnlineRequest,
+  type ReportBankTransferRequest,
+} from '@/lib/validations/payment-link'
+
+/**
+ * Get the shareable payment link of an invoice, creating it if needed (admin only)
+ */
+export async function createPaymentLinkAction(data: CreatePaymentLinkRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = createPaymentLinkSchema.parse(data)
+
+    const service = PaymentLinkService.getInstance()
+    const link = await service.getOrCreateLink({
+      tenantId,
+      invoiceId: validatedData.invoiceId,
+      createdById: user.id,
+      regenerate: validatedData.regenerate,
+    })
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        id: link.id,
+        url: service.getLinkUrl(link.token),
+        expiresAt: link.expiresAt,
+      },
+    }
+  } catch (error: any) {
+    console.error('Create payment link error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to create payment link' }
+  }
+}
+
+/**
+ * Disable a payment link so it can no longer be used to view or pay the invoice (admin only)
+ */
+export async function revokePaymentLinkAction(data: RevokePaymentLinkRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = revokePaymentLinkSchema.parse(data)
+
+    const link = await PaymentLinkService.getInstance().revokeLink(tenantId, validatedData.linkId)
+
+    revalidatePath('/billing')
+
+    return { success: true, data: { id: link.id, revokedAt: link.revokedAt } }
+  } catch (error: any) {
+    console.error('Revoke payment link error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to revoke payment link' }
+  }
+}
+
+/**
+ * Get the invoice behind a payment link for the public payment page. The link token is
+ * the only credential, no session is needed.
+ */
+export async function getPublicInvoiceAction(data: PaymentLinkTokenRequest): Promise<ActionResult<any>> {
+  try {
+    // Validate input data
+    const validatedData = paymentLinkTokenSchema.parse(data)
+
+    const invoice = await PaymentLinkService.getInstance().getPublicInvoice(validatedData.token)
+    if (!invoice) {
+      return { success: false, error: 'Payment link not found' }
+    }
+
+    return { success: true, data: invoice }
+  } catch (error: any) {
+    console.error('Get public invoice error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Payment link not found' }
+    }
+
+    return { success: false, error: 'Failed to load invoice' }
+  }
+}
+
+/**
+ * Start an online payment of all or part of the invoice from its payment link. Returns the
+ * gateway page the client continues on.
+ */
+export async function payInvoiceOnlineAction(data: PayInvoiceOnlineRequest): Promise<ActionResult<any>> {
+  try {
+    // Validate input data
+    const validatedData = payInvoiceOnlineSchema.parse(data)
+
+    // The link token is the only credential, so payments are limited per address
+    if (await checkPaymentLinkRateLimitInternal()) {
+      return { success: false, error: 'Too many requests, try again later' }
+    }
+
+    const service = PaymentLinkService.getInstance()
+    return await service.payOnline({
+      ...validatedData,
+      returnUrl: `${service.getLinkUrl(validatedData.token)}?returned=1`,
+    })
+  } catch (error: any) {
+    console.error('Pay invoice online error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to start the payment' }
+  }
+}
+
+/**
+ * Let the client report a bank transfer from the payment link, for an admin to confirm
+ */
+export async function reportBankTransferAction(data: ReportBankTransferRequest): Promise<ActionResult<any>> {
+  try {
+    // Validate input data
+    const validatedData = reportBankTransferSchema.parse(data)
+
+    // The link token is the only credential, so reports are limited per address
+    if (await checkPaymentLinkRateLimitInternal()) {
+      return { success: false, error: 'Too many requests, try again later' }
+    }
+
+    return await PaymentLinkService.getInstance().reportBankTransfer(validatedData)
+  } catch (error: any) {
+    console.error('Report bank transfer error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: 'Failed to report the transfer' }
+  }
+}
+
+/**
+ * Internal helper to count a call from a public payment page against the per-address limit.
+ * Returns whether the address is over the limit.
+ */
+async function checkPaymentLinkRateLimitInternal(): Promise<boolean> {
+  // The path is logged with breaches, so it leaves the token out
+  const result = await checkIpRateLimit('payment-link', await headers(), '/pay')
+  return result !== null && !result.allowed
+}
@@ -7,6 +7,8 @@ import {
   updatePaymentSchema, 
   paymentFiltersSchema,
   processPaymentSchema,
+  capturePaymentSchema,
+  savePaymentMethodSchema,
   refundPaymentSchema,
   bulkPaymentActionSchema,
   createReconciliationSchema,
@@ -18,6 +20,8 @@ import {
   type UpdatePaymentRequest,
   type PaymentFilters,
   type ProcessPaymentRequest,
+  type CapturePaymentRequest,
+  type SavePaymentMethodRequest,
   type RefundPaymentRequest,
   type BulkPaymentActionRequest,
   type CreateReconciliationRequest,
@@ -28,6 +32,13 @@ import {
 } from '../validations/payment'
 import { ActionResult } from '@/types/database'
 import { QueryBuilder } from '../utils/search'
+import { PaymentRefundService } from '@/services/payment-refund.service'
+import { DunningService } from '@/services/dunning.service'
+import { PaymentGatewayService } from '@/services/payment-gateway.service'
+import { getTenantContext } from '@/lib/auth'
+import { ExchangeRateService } from '@/services/exchange-rate.service'
+import { sumInCurrency } from '../utils/exchange-rate'
+import { WebhookService } from '@/services/webhook.service'
 
 /**
  * Payment CRUD Operations
@@ -282,6 +293,10 @@ export async function updatePaymentAction(id: string, data: UpdatePaymentRequest
       },
     })
 
+    if (validatedData.status === 'COMPLETED' && existingPayment.status !== 'COMPLETED') {
+      await WebhookService.getInstance().emitPaymentReceived(payment.id)
+    }
+
     // If payment is being marked as completed and has an invoice,
     // check if invoice should be marked as paid
     if (validatedData.status === 'COMPLETED' && payment.invoice) {
@@ -305,6 +320,10 @@ export async function updatePaymentAction(id: string, data: UpdatePaymentRequest
             paidAt: new Date(),
           },
         })
+
+        // Lift any dunning suspension the invoice caused
+        await DunningService.getInstance().resolveInvoice(invoice.id)
+        await WebhookService.getInstance().emitInvoicePaid(invoice.id)
       }
     }
 
@@ -517,6 +536,17 @@ export async function processPaymentAction(data: ProcessPaymentRequest): Promise
       }
     }
 
+    // Charge through a payment gateway when one is requested or the payment was already sent to one
+    if (validatedData.provider || validatedData.paymentMethodId || existingPayment.provider) {
+      return await PaymentGatewayService.getInstance().chargePayment({
+        paymentId: existingPayment.id,
+        provider: validatedData.provider,
+        paymentMethodId: validatedData.paymentMethodId,
+        capture: validatedData.capture,
+        returnUrl: validatedData.returnUrl,
+      })
+    }
+
     // Update payment status
     const payment = await prisma.payment.update({
       where: { id: validatedData.paymentId },
@@ -547,26 +577,7 @@ export async function processPaymentAction(data: ProcessPaymentRequest): Promise
 
     // If payment has an invoice, check if it should be marked as paid
     if (payment.invoice) {
-      const totalPaid = await prisma.payment.aggregate({
-        where: {
-          invoiceId: payment.invoice.id,
-          status: 'COMPLETED',
-        },
-        _sum: { amount: true },
-      })
-
-      const paidAmount = Number(totalPaid._sum.amount || 0)
-      const invoiceTotal = Number(payment.invoice.total)
-
-      if (paidAmount >= invoiceTotal && payment.invoice.status !== 'PAID') {
-        await prisma.invoice.update({
-          where: { id: payment.invoice.id },
-          data: {
-            status: 'PAID',
-            paidAt: new Date(),
-          },
-        })
-      }
+      await PaymentGatewayService.getInstance().settleInvoice(payment.invoice.id)
     }
 
     return {
@@ -591,10 +602,10 @@ export async function processPaymentAction(data: ProcessPaymentRequest): Promise
   }
 }
 
-export async function refundPaymentAction(data: RefundPaymentRequest): Promise<ActionResult<any>> {
+export async function capturePaymentAction(data: CapturePaymentRequest): Promise<ActionResult<any>> {
   try {
     // Validate input
-    const validation = validateData(refundPaymentSchema, data)
+    const validation = validateData(capturePaymentSchema, data)
     if (!validation.success) {
       return {
         success: false,
@@ -609,111 +620,105 @@ export async function refundPaymentAction(data: RefundPaymentRequest): Promise<A
     // Check authentication and permissions
     await requireAuth()
     await requireAdmin()
-    
-    const validatedData = validation.data
-    const prisma = await getTenantPrisma()
 
-    // Check if payment exists
-    const existingPayment = await prisma.payment.findUnique({
-      where: { id: validatedData.paymentId },
-      include: { invoice: true, client: true },
-    })
+    return await PaymentGatewayService.getInstance().capturePayment(validation.data)
 
-    if (!existingPayment) {
+  } catch (error: any) {
+    console.error('Payment capture error:', error)
+    
+    if (error.message.includes('Authentication required')) {
       return {
         success: false,
-        error: 'Payment not found',
+        error: 'Authentication required',
       }
     }
 
-    // Check if payment can be refunded
-    if (existingPayment.status !== 'COMPLETED') {
+    return {
+      success: false,
+      error: 'Failed to capture payment',
+    }
+  }
+}
+
+export async function savePaymentMethodAction(data: SavePaymentMethodRequest): Promise<ActionResult<any>> {
+  try {
+    // Validate input
+    const validation = validateData(savePaymentMethodSchema, data)
+    if (!validation.success) {
       return {
         success: false,
-        error: 'Only completed payments can be refunded',
+        error: 'Validation failed',
+        fieldErrors: validation.errors.reduce((acc, err) => {
+          acc[err.field] = err.message
+          return acc
+        }, {} as Record<string, string>),
       }
     }
 
-    const refundAmount = validatedData.refundAmount || Number(existingPayment.amount)
+    // Check authentication and permissions
+    await requireAuth()
+    await requireAdmin()
+    
+    const validatedData = validation.data
+    const prisma = await getTenantPrisma()
+
+    const client = await prisma.client.findUnique({
+      where: { id: validatedData.clientId },
+      select: { tenantId: true },
+    })
 
-    if (refundAmount > Number(existingPayment.amount)) {
+    if (!client) {
       return {
         success: false,
-        error: 'Refund amount cannot exceed original payment amount',
+        error: 'Client not found',
       }
     }
 
-    // Create refund payment record
-    const refundPayment = await prisma.payment.create({
-      data: {
-        clientId: existingPayment.clientId,
-        invoiceId: existingPayment.invoiceId,
-        amount: -refundAmount, // Negative amount for refund
-        currency: existingPayment.currency,
-        method: existingPayment.method,
-        reference: validatedData.refundReference || `REFUND-${existingPayment.reference}`,
-        status: 'COMPLETED',
-        processedAt: new Date(),
-      },
+    return await PaymentGatewayService.getInstance().savePaymentMethod({
+      ...validatedData,
+      tenantId: client.tenantId,
     })
 
-    // Update original payment status
-    const updatedPayment = await prisma.payment.update({
-      where: { id: validatedData.paymentId },
-      data: { status: 'REFUNDED' },
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        invoice: {
-          select: {
-            id: true,
-            number: true,
-            total: true,
-            status: true,
-          },
-        },
-      },
-    })
-
-    // If payment had an invoice, recalculate invoice status
-    if (existingPayment.invoice) {
-      const totalPaid = await prisma.payment.aggregate({
-        where: {
-          invoiceId: existingPayment.invoice.id,
-          status: 'COMPLETED',
-        },
-        _sum: { amount: true },
-      })
-
-      const paidAmount = Number(totalPaid._sum.amount || 0)
-      const invoiceTotal = Number(existingPayment.invoice.total)
-
-      if (paidAmount < invoiceTotal && existingPayment.invoice.status === 'PAID') {
-        await prisma.invoice.update({
-          where: { id: existingPayment.invoice.id },
-          data: {
-            status: 'SENT',
-            paidAt: null,
-          },
-        })
+  } catch (error: any) {
+    console.error('Save payment method error:', error)
+    
+    if (error.message.includes('Authentication required')) {
+      return {
+        success: false,
+        error: 'Authentication required',
       }
     }
 
     return {
-      success: true,
-      data: {
-        originalPayment: updatedPayment,
-        refundPayment,
-        refundAmount,
-        reason: validatedData.reason,
-      },
+      success: false,
+      error: 'Failed to save payment method',
+    }
+  }
+}
+
+export async function refundPaymentAction(data: RefundPaymentRequest): Promise<ActionResult<any>> {
+  try {
+    // Validate input
+    const validation = validateData(refundPaymentSchema, data)
+    if (!validation.success) {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: validation.errors.reduce((acc, err) => {
+          acc[err.field] = err.message
+          return acc
+        }, {} as Record<string, string>),
+      }
     }
 
+    // Check authentication and permissions
+    await requireAuth()
+    await requireAdmin()
+    
+    const validatedData = validation.data
+
+    return await PaymentRefundService.getInstance().refundPayment(validatedData)
+
   } catch (error: any) {
     console.error('Payment refund error:', error)
     
@@ -752,12 +757,20 @@ export async function getPaymentStatsAction(filters: PaymentStatsFilters = {}):
 
     // Check authentication
     await requireAuth()
+    const { tenantId } = await getTenantContext()
+    if (!tenantId) {
+      return {
+        success: false,
+        error: 'Authentication required',
+      }
+    }
     
     const validatedFilters = validation.data
     const prisma = await getTenantPrisma()
 
-    // Build filters
-    const whereClause: any = {}
+    // Build filters. Credit applied from credit notes is recorded as payments but is not money
+    // received, so it stays out of the statistics
+    const whereClause: any = { tenantId, method: { not: 'CREDIT_NOTE' } }
 
     if (validatedFilters.clientIds && validatedFilters.clientIds.length > 0) {
       whereClause.clientId = { in: validatedFilters.clientIds }
@@ -768,7 +781,7 @@ export async function getPaymentStatsAction(filters: PaymentStatsFilters = {}):
     }
 
     if (validatedFilters.methods && validatedFilters.methods.length > 0) {
-      whereClause.method = { in: validatedFilters.methods }
+      whereClause.method = { ...whereClause.method, in: validatedFilters.methods }
     }
 
     if (validatedFilters.currency && validatedFilters.currency.length > 0) {
@@ -783,85 +796,95 @@ export async function getPaymentStatsAction(filters: PaymentStatsFilters = {}):
       whereClause.createdAt = { ...whereClause.createdAt, lte: validatedFilters.dateTo }
     }
 
-    const stats: any = {}
-
-    // Basic statistics
-    const totalPayments = await prisma.payment.count({ where: whereClause })
-    
-    const paymentsByStatus = await prisma.payment.groupBy({
-      by: ['status'],
+    // Payments can be in different currencies, so amounts are added up in the base currency,
+    // each payment converted at the rate of the day it was received
+    const { baseCurrency, rates } = await ExchangeRateService.getInstance().getCurrencyContext(tenantId)
+    const payments = await prisma.payment.findMany({
       where: whereClause,
-      _count: true,
-      _sum: { amount: true },
+      select: {
+        status: true,
+        method: true,
+        amount: true,
+        currency: true,
+        processedAt: true,
+        createdAt: true,
+      },
     })
 
+    const sumPayments = (selected: typeof payments) => sumInCurrency(
+      rates,
+      selected.map(payment => ({
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        date: payment.processedAt || payment.createdAt,
+      })),
+      baseCurrency
+    )
+
+    const stats: any = { currency: baseCurrency }
+
+    // Basic statistics
+    const totalPayments = payments.length
+    const statuses = Array.from(new Set(payments.map(payment => payment.status)))
+
     stats.overview = {
       totalPayments,
-      byStatus: paymentsByStatus.reduce((acc, item) => {
-        acc[item.status] = {
-          count: item._count,
-          totalAmount: item._sum.amount || 0,
+      byStatus: statuses.reduce((acc, status) => {
+        const statusPayments = payments.filter(payment => payment.status === status)
+        const { total, unconverted } = sumPayments(statusPayments)
+
+        acc[status] = {
+          count: statusPayments.length,
+          totalAmount: total,
+          unconverted,
         }
         return acc
       }, {} as Record<string, any>),
     }
 
+    const completedPayments = payments.filter(payment => payment.status === 'COMPLETED')
+
     // Method breakdown
     if (validatedFilters.includeMethodBreakdown) {
-      const paymentsByMethod = await prisma.payment.groupBy({
-        by: ['method'],
-        where: {
-          ...whereClause,
-          status: 'COMPLETED',
-        },
-        _count: true,
-        _sum: { amount: true },
-        _avg: { amount: true },
-      })
+      const methods = Array.from(new Set(completedPayments.map(payment => payment.method)))
+
+      stats.methodBreakdown = methods.map(method => {
+        const methodPayments = completedPayments.filter(payment => payment.method === method)
+        const { total, count, unconverted } = sumPayments(methodPayments)
 
-      stats.methodBreakdown = paymentsByMethod.map(item => ({
-        method: item.method,
-        count: item._count,
-        totalAmount: item._sum.amount || 0,
-        averageAmount: item._avg.amount || 0,
-      }))
+        return {
+          method,
+          count: methodPayments.length,
+          totalAmount: total,
+          averageAmount: count > 0 ? total / count : 0,
+          unconverted,
+        }
+      })
     }
 
     // Revenue analysis
-    const completedPayments = await prisma.payment.aggregate({
-      where: {
-        ...whereClause,
-        status: 'COMPLETED',
-        amount: { gt: 0 }, // Exclude refunds
-      },
-      _sum: { amount: true },
-      _avg: { amount: true },
-      _count: true,
-    })
+    const revenuePayments = completedPayments.filter(payment => Number(payment.amount) > 0) // Exclude refunds
+    const revenue = sumPayments(revenuePayments)
 
     stats.revenue = {
-      totalRevenue: completedPayments._sum.amount || 0,
-      averagePayment: completedPayments._avg.amount || 0,
-      paymentCount: completedPayments._count,
+      totalRevenue: revenue.total,
+      averagePayment: revenue.count > 0 ? revenue.total / revenue.count : 0,
+      paymentCount: revenuePayments.length,
+      unconverted: revenue.unconverted,
     }
 
     // Refunds analysis
     if (validatedFilters.includeRefunds) {
-      const refunds = await prisma.payment.aggregate({
-        where: {
-          ...whereClause,
-          amount: { lt: 0 }, // Negative amounts are refunds
-        },
-        _sum: { amount: true },
-        _count: true,
-      })
+      const refundPayments = payments.filter(payment => Number(payment.amount) < 0) // Negative amounts are refunds
+      const refunds = sumPayments(refundPayments)
 
       stats.refunds = {
-        totalRefunded: Math.abs(Number(refunds._sum.amount || 0)),
-        refundCount: refunds._count,
-        refundRate: completedPayments._count > 0 
-          ? (refunds._count / completedPayments._count) * 100 
+        totalRefunded: Math.abs(refunds.total),
+        refundCount: refundPayments.length,
+        refundRate: revenuePayments.length > 0 
+          ? (refundPayments.length / revenuePayments.length) * 100 
           : 0,
+        unconverted: refunds.unconverted,
       }
     }
 
@@ -5,9 +5,15 @@ import { getTenantContext } from '@/lib/auth'
 import { db } from '@/lib/db'
 import type { ActionResult } from '@/types/database'
 import { z } from 'zod'
-import { renderToBuffer } from '@react-pdf/renderer'
-import { createElement } from 'react'
+import { renderToBuffer, type DocumentProps } from '@react-pdf/renderer'
+import { createElement, type ReactElement } from 'react'
 import QuotationPDFTemplate from '@/components/quotations/QuotationPDFTemplate'
+import CreditNotePDFTemplate from '@/components/billing/CreditNotePDFTemplate'
+import InvoicePDFTemplate from '@/components/billing/InvoicePDFTemplate'
+import type { DtePDFInfo } from '@/components/billing/DtePDFSections'
+import { getDisplayLineAmounts } from '@/lib/utils/tax'
+import { DTE_TYPE_NAMES, formatRut, usesGrossAmounts } from '@/lib/utils/dte'
+import { DteService } from '@/services/dte.service'
 
 
 // Schema for PDF generation request
@@ -71,57 +77,8 @@ export async function generateQuotationPDFAction(data: GenerateQuotationPDFReque
     })
 
     // Get tenant/cowork information for PDF header
-    const tenant = await db.tenant.findUnique({
-      where: { id: tenantId },
-      select: {
-        id: true,
-        name: true,
-        settings: true,
-        logo: true,
-        logoBase64: true,
-      }
-    })
-    
-    // Debug: Log tenant data to understand the structure
-    console.log('🔍 PDF Debug - Tenant data:', {
-      tenantId,
-      name: tenant?.name,
-      settings: tenant?.settings,
-      logo: tenant?.logo
-    })
-    
-    // Cast settings to any to access nested properties (Prisma JSON field)
-    const settings = tenant?.settings as any
-    
-    // Use base64 logo for reliable PDF rendering, fallback to URL if needed
-    const getLogoForPDF = (logoBase64?: string | null, logoUrl?: string | null) => {
-      // Prioritize base64 for PDF generation (reliable across environments)
-      if (logoBase64) {
-        return logoBase64
-      }
-      
-      // Fallback to absolute URL if base64 not available
-      if (logoUrl) {
-        if (logoUrl.startsWith('http://') || logoUrl.startsWith('https://')) {
-          return logoUrl
-        }
-        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'
-        return `${baseUrl}${logoUrl.startsWith('/') ? logoUrl : `/${logoUrl}`}`
-      }
-      
-      return undefined
-    }
-
-    const coworkInfo = {
-      name: tenant?.name || 'SweetSpot Cowork',
-      address: settings?.address || settings?.contactInfo?.address || 'Dirección no configurada',
-      phone: settings?.contactInfo?.phone || settings?.phone || 'Teléfono no configurado',
-      email: settings?.contactInfo?.email || settings?.email || 'Email no configurado',
-      website: settings?.contactInfo?.website || settings?.website,
-      logo: getLogoForPDF(tenant?.logoBase64, tenant?.logo), // Use base64 first, fallback to URL
-    }
-
-    console.log('🔍 PDF Debug - Cowork info:', coworkInfo)
+    const coworkInfo = await getCoworkInfoForPDF(tenantId)
+    const taxDisplay = await getTaxDisplayForPDF(tenantId)
 
     // Helper function to safely convert Decimal to number
     const toNumber = (value: any) => {
@@ -143,6 +100,7 @@ export async function generateQuotationPDFAction(data: GenerateQuotationPDFReque
       subtotal: toNumber(quotation.subtotal),
       discounts: toNumber(quotation.discounts),
       taxes: toNumber(quotation.taxes),
+      taxIncluded: quotation.taxIncluded,
       total: toNumber(quotation.total),
       currency: quotation.currency,
       validUntil: quotation.validUntil.toISOString(),
@@ -159,8 +117,16 @@ export async function generateQuotationPDFAction(data: GenerateQuotationPDFReque
         id: item.id,
         description: item.description,
         quantity: item.quantity,
-        unitPrice: toNumber(item.unitPrice),
-        total: toNumber(item.total),
+        ...getDisplayLineAmounts(
+          {
+            quantity: item.quantity,
+            unitPrice: toNumber(item.unitPrice),
+            total: toNumber(item.total),
+            taxAmount: toNumber(item.taxAmount),
+          },
+          quotation.taxIncluded,
+          taxDisplay
+        ),
       })),
       // opportunity information removed - internal use only, not for client PDFs
       createdBy: createdByUser,
@@ -340,4 +306,366 @@ export async function previewQuotationPDFAction(data: PreviewQuotationPDFRequest
       error: error instanceof Error ? error.message : 'Error al previsualizar PDF' 
     }
   }
-}
\ No newline at end of file
+}
+// Schema for credit note PDF generation request
+const GenerateCreditNotePDFSchema = z.object({
+  creditNoteId: z.string().min(1, 'El ID de la nota de crédito es requerido'),
+})
+
+type GenerateCreditNotePDFRequest = z.infer<typeof GenerateCreditNotePDFSchema>
+
+export async function generateCreditNotePDFAction(data: GenerateCreditNotePDFRequest): Promise<ActionResult<any>> {
+  try {
+    const context = await getTenantContext()
+
+    if (!context.tenantId) {
+      return { success: false, error: 'Tenant no encontrado' }
+    }
+
+    const { user, tenantId } = context
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = GenerateCreditNotePDFSchema.parse(data)
+
+    const creditNote = await db.creditNote.findFirst({
+      where: {
+        id: validatedData.creditNoteId,
+        tenantId,
+      },
+      include: {
+        items: true,
+        client: true,
+        invoice: {
+          select: {
+            number: true,
+            createdAt: true,
+          }
+        }
+      }
+    })
+
+    if (!creditNote) {
+      return { success: false, error: 'Nota de crédito no encontrada' }
+    }
+
+    const coworkInfo = await getCoworkInfoForPDF(tenantId)
+    const taxDisplay = await getTaxDisplayForPDF(tenantId)
+    const dte = await getDteInfoForPDF(tenantId, { creditNoteId: creditNote.id })
+
+    const pdfData = {
+      id: creditNote.id,
+      number: creditNote.number,
+      reason: creditNote.reason,
+      subtotal: Number(creditNote.subtotal),
+      tax: Number(creditNote.tax),
+      total: Number(creditNote.total),
+      appliedAmount: Number(creditNote.appliedAmount),
+      currency: creditNote.currency,
+      status: creditNote.status,
+      createdAt: creditNote.createdAt.toISOString(),
+      invoice: {
+        number: creditNote.invoice.number,
+        createdAt: creditNote.invoice.createdAt.toISOString(),
+      },
+      client: {
+        name: creditNote.client.name,
+        email: creditNote.client.email,
+        phone: creditNote.client.phone || undefined,
+        address: creditNote.client.address || undefined,
+        taxId: creditNote.client.taxId || undefined,
+      },
+      items: creditNote.items.map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        ...getDisplayLineAmounts(
+          {
+            quantity: item.quantity,
+            unitPrice: Number(item.unitPrice),
+            total: Number(item.total),
+            taxAmount: Number(item.taxAmount),
+          },
+          creditNote.taxIncluded,
+          taxDisplay
+        ),
+      })),
+    }
+
+    const pdfDocument = createElement(CreditNotePDFTemplate, {
+      creditNote: pdfData,
+      coworkInfo,
+      dte,
+    }) as ReactElement<DocumentProps>
+
+    const pdfBuffer = await renderToBuffer(pdfDocument)
+
+    return {
+      success: true,
+      data: {
+        creditNote: pdfData,
+        pdfBuffer: Buffer.from(pdfBuffer).toString('base64'),
+        fileName: `${creditNote.number}.pdf`,
+        generatedAt: new Date().toISOString(),
+      }
+    }
+
+  } catch (error) {
+    console.error('Error generating credit note PDF:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Error al generar PDF'
+    }
+  }
+}
+
+// Schema for invoice PDF generation request
+const GenerateInvoicePDFSchema = z.object({
+  invoiceId: z.string().min(1, 'El ID de la factura es requerido'),
+})
+
+type GenerateInvoicePDFRequest = z.infer<typeof GenerateInvoicePDFSchema>
+
+/**
+ * Generate the PDF of an invoice, with the timbre electrónico when it was issued as a DTE
+ */
+export async function generateInvoicePDFAction(data: GenerateInvoicePDFRequest): Promise<ActionResult<any>> {
+  try {
+    const context = await getTenantContext()
+
+    if (!context.tenantId) {
+      return { success: false, error: 'Tenant no encontrado' }
+    }
+
+    const { user, tenantId } = context
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = GenerateInvoicePDFSchema.parse(data)
+
+    const invoice = await db.invoice.findFirst({
+      where: {
+        id: validatedData.invoiceId,
+        tenantId,
+      },
+      include: {
+        items: true,
+        client: true,
+        payments: {
+          where: { status: 'COMPLETED' },
+          select: { amount: true },
+        },
+        creditNoteApplications: {
+          select: { amount: true },
+        },
+      }
+    })
+
+    if (!invoice) {
+      return { success: false, error: 'Factura no encontrada' }
+    }
+
+    const coworkInfo = await getCoworkInfoForPDF(tenantId)
+    const dte = await getDteInfoForPDF(tenantId, { invoiceId: invoice.id })
+    // Lines of a DTE are printed as they were documented: with IVA on boletas, net otherwise
+    const taxDisplay = dte
+      ? (dte.gross ? 'INCLUSIVE' : 'EXCLUSIVE')
+      : await getTaxDisplayForPDF(tenantId)
+
+    const paidAmount = [...invoice.payments, ...invoice.creditNoteApplications]
+      .reduce((sum, payment) => sum + Number(payment.amount), 0)
+
+    const pdfData = {
+      id: invoice.id,
+      number: invoice.number,
+      title: invoice.title || undefined,
+      description: invoice.description || undefined,
+      subtotal: Number(invoice.subtotal),
+      tax: Number(invoice.tax),
+      taxIncluded: invoice.taxIncluded,
+      total: Number(invoice.total),
+      paidAmount,
+      currency: invoice.currency,
+      status: invoice.status,
+      dueDate: invoice.dueDate.toISOString(),
+      createdAt: invoice.createdAt.toISOString(),
+      client: {
+        name: invoice.client.company || invoice.client.name,
+        email: invoice.client.email,
+        phone: invoice.client.phone || undefined,
+        address: invoice.client.address || undefined,
+        taxId: invoice.client.taxId || undefined,
+      },
+      items: invoice.items.map(item => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        ...getDisplayLineAmounts(
+          {
+            quantity: item.quantity,
+            unitPrice: Number(item.unitPrice),
+            total: Number(item.total),
+            taxAmount: Number(item.taxAmount),
+          },
+          invoice.taxIncluded,
+          taxDisplay
+        ),
+      })),
+    }
+
+    const pdfDocument = createElement(InvoicePDFTemplate, {
+      invoice: pdfData,
+      coworkInfo,
+      dte,
+    }) as ReactElement<DocumentProps>
+
+    const pdfBuffer = await renderToBuffer(pdfDocument)
+
+    return {
+      success: true,
+      data: {
+        invoice: pdfData,
+        pdfBuffer: Buffer.from(pdfBuffer).toString('base64'),
+        fileName: dte ? `${invoice.number}-folio-${dte.folio}.pdf` : `${invoice.number}.pdf`,
+        generatedAt: new Date().toISOString(),
+      }
+    }
+
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Error al generar PDF'
+    }
+  }
+}
+
+/**
+ * Electronic document an invoice or credit note was issued as, with its timbre image.
+ * Rejected documents are not printed.
+ */
+async function getDteInfoForPDF(
+  tenantId: string,
+  where: { invoiceId?: string; creditNoteId?: string }
+): Promise<(DtePDFInfo & { gross: boolean }) | undefined> {
+  const [document, settings] = await Promise.all([
+    db.dteDocument.findFirst({
+      where: { tenantId, ...where, status: { not: 'REJECTED' } },
+      orderBy: { createdAt: 'desc' },
+    }),
+    db.dteSettings.findUnique({
+      where: { tenantId },
+      select: { rut: true, resolutionNumber: true, resolutionDate: true },
+    }),
+  ])
+
+  if (!document || !settings) {
+    return undefined
+  }
+
+  return {
+    issuerRut: formatRut(settings.rut),
+    documentName: DTE_TYPE_NAMES[document.documentType],
+    folio: document.folio,
+    timbre: await DteService.getInstance().renderTimbre(document.ted),
+    resolutionNumber: settings.resolutionNumber,
+    resolutionYear: settings.resolutionDate.getFullYear(),
+    totals: {
+      net: Number(document.netAmount),
+      exempt: Number(document.exemptAmount),
+      tax: Number(document.taxAmount),
+      total: Number(document.totalAmount),
+    },
+    gross: usesGrossAmounts(document.documentType),
+  }
+}
+
+/**
+ * Whether generated PDFs show line amounts with or without their tax
+ */
+async function getTaxDisplayForPDF(tenantId: string) {
+  const settings = await db.billingSettings.findUnique({
+    where: { tenantId },
+    select: { taxDisplay: true },
+  })
+
+  return settings?.taxDisplay ?? 'EXCLUSIVE'
+}
+
+interface TenantContactDetails {
+  address?: string
+  phone?: string
+  email?: string
+  website?: string
+}
+
+interface TenantContactSettings extends TenantContactDetails {
+  contactInfo?: TenantContactDetails
+}
+
+/**
+ * Cowork details shown in the header of generated PDFs
+ */
+async function getCoworkInfoForPDF(tenantId: string) {
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: {
+      id: true,
+      name: true,
+      settings: true,
+      logo: true,
+      logoBase64: true,
+    }
+  })
+
+  // Debug: Log tenant data to understand the structure
+  console.log('🔍 PDF Debug - Tenant data:', {
+    tenantId,
+    name: tenant?.name,
+    settings: tenant?.settings,
+    logo: tenant?.logo
+  })
+
+  // Contact details live in the tenant settings JSON, at the top level or under contactInfo
+  const settings = tenant?.settings as TenantContactSettings | null
+
+  // Use base64 logo for reliable PDF rendering, fallback to URL if needed
+  const getLogoForPDF = (logoBase64?: string | null, logoUrl?: string | null) => {
+    // Prioritize base64 for PDF generation (reliable across environments)
+    if (logoBase64) {
+      return logoBase64
+    }
+
+    // Fallback to absolute URL if base64 not available
+    if (logoUrl) {
+      if (logoUrl.startsWith('http://') || logoUrl.startsWith('https://')) {
+        return logoUrl
+      }
+      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'
+      return `${baseUrl}${logoUrl.startsWith('/') ? logoUrl : `/${logoUrl}`}`
+    }
+
+    return undefined
+  }
+
+  const coworkInfo = {
+    name: tenant?.name || 'SweetSpot Cowork',
+    address: settings?.address || settings?.contactInfo?.address || 'Dirección no configurada',
+    phone: settings?.contactInfo?.phone || settings?.phone || 'Teléfono no configurado',
+    email: settings?.contactInfo?.email || settings?.email || 'Email no configurado',
+    website: settings?.contactInfo?.website || settings?.website,
+    logo: getLogoForPDF(tenant?.logoBase64, tenant?.logo), // Use base64 first, fallback to URL
+  }
+
+  console.log('🔍 PDF Debug - Cowork info:', coworkInfo)
+
+  return coworkInfo
+}
@@ -19,6 +19,7 @@ import {
   RemoveServiceFromQuotationSchema,
   UpdateQuotationItemSchema,
   ApplyDiscountToQuotationSchema,
+  PreviewQuotationTaxesSchema,
   generateQuotationNumber,
   generateQuotationVersion,
   calculateQuotationTotals,
@@ -37,7 +38,12 @@ import {
   type RemoveServiceFromQuotationRequest,
   type UpdateQuotationItemRequest,
   type ApplyDiscountToQuotationRequest,
+  type PreviewQuotationTaxesRequest,
+  type QuotationItem,
 } from '@/lib/validations/quotations'
+import { TaxService } from '@/services/tax.service'
+import { ExchangeRateService } from '@/services/exchange-rate.service'
+import { sumInCurrency } from '@/lib/utils/exchange-rate'
 
 // Helper function to get user with tenant info
 async function getUserWithTenant() {
@@ -45,6 +51,50 @@ async function getUserWithTenant() {
   return { user: context.user, tenantId: context.tenantId }
 }
 
+// Helper function to calculate quotation totals with the tenant tax rules
+async function calculateTaxedQuotationTotals(
+  tenantId: string,
+  clientId: string | null | undefined,
+  items: QuotationItem[],
+  discountType: 'FIXED' | 'PERCENTAGE',
+  discountValue: number
+) {
+  const serviceIds = items.map(item => item.serviceId).filter((id): id is string => Boolean(id))
+
+  const [tax, services] = await Promise.all([
+    TaxService.getInstance().getDocumentTaxSettings(tenantId, clientId),
+    serviceIds.length > 0
+      ? db.service.findMany({
+        where: { id: { in: serviceIds }, tenantId },
+        select: { id: true, category: true },
+      })
+      : [],
+  ])
+
+  // Service items are taxed by the rule of their service category
+  const categories = new Map(services.map(service => [service.id, service.category as string]))
+
+  return calculateQuotationTotals(
+    items.map(item => ({ ...item, category: item.serviceId ? categories.get(item.serviceId) : undefined })),
+    discountType,
+    discountValue,
+    tax
+  )
+}
+
+// Helper function to map taxed items to quotation item rows
+function toQuotationItemRows(items: Awaited<ReturnType<typeof calculateTaxedQuotationTotals>>['items']) {
+  return items.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    total: item.total,
+    taxRuleId: item.taxRuleId,
+    taxRate: item.taxRate,
+    taxAmount: item.taxAmount,
+  }))
+}
+
 // Helper function to serialize quotation data
 function serializeQuotation(quotation: any) {
   // Helper function to safely convert Decimal to number
@@ -74,6 +124,8 @@ function serializeQuotation(quotation: any) {
       ...item,
       unitPrice: toNumber(item.unitPrice),
       total: toNumber(item.total),
+      taxRate: toNumber(item.taxRate),
+      taxAmount: toNumber(item.taxAmount),
       createdAt: item.createdAt ? item.createdAt.toISOString() : null,
     })) || [],
     // Handle nested objects with potential Decimal values
@@ -128,8 +180,10 @@ export async function createQuotationAction(data: CreateQuotationRequest): Promi
       return { success: false, error: 'Los totales de los items no son válidos' }
     }
 
-    // Calculate totals with automatic tax calculation
-    const { subtotal, discounts, taxes, total } = calculateQuotationTotals(
+    // Calculate totals with the tax rule of every item
+    const { subtotal, discounts, taxes, total, taxIncluded, items } = await calculateTaxedQuotationTotals(
+      tenantId,
+      validatedData.clientId,
       validatedData.items,
       validatedData.discountType,
       validatedData.discountValue
@@ -161,6 +215,7 @@ export async function createQuotationAction(data: CreateQuotationRequest): Promi
         discountValue: validatedData.discountValue,
         discounts,
         taxes,
+        taxIncluded,
         total,
         currency: validatedData.currency,
         validUntil: new Date(validatedData.validUntil),
@@ -168,12 +223,7 @@ export async function createQuotationAction(data: CreateQuotationRequest): Promi
         notes: validatedData.notes,
         createdBy: user.id,
         items: {
-          create: validatedData.items.map(item => ({
-            description: item.description,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            total: item.total,
-          })),
+          create: toQuotationItemRows(items),
         },
       },
       include: {
@@ -261,8 +311,10 @@ export async function updateQuotationAction(data: UpdateQuotationRequest): Promi
         return { success: false, error: 'Los totales de los items no son válidos' }
       }
 
-      // Calculate new totals with automatic tax calculation
-      const { subtotal, discounts, taxes, total } = calculateQuotationTotals(
+      // Calculate new totals with the tax rule of every item
+      const { subtotal, discounts, taxes, total, taxIncluded, items } = await calculateTaxedQuotationTotals(
+        tenantId,
+        existingQuotation.clientId,
         validatedData.items,
         discountTypeValue,
         discountValueAmount
@@ -271,27 +323,27 @@ export async function updateQuotationAction(data: UpdateQuotationRequest): Promi
       updateData.subtotal = subtotal
       updateData.discounts = discounts
       updateData.taxes = taxes
+      updateData.taxIncluded = taxIncluded
       updateData.total = total
 
       // Delete existing items and create new ones
       updateData.items = {
         deleteMany: { quotationId: validatedData.id },
-        create: validatedData.items.map(item => ({
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          total: item.total,
-        })),
+        create: toQuotationItemRows(items),
       }
     } else {
       // Recalculate totals if discount type or value changed
       if (validatedData.discountType !== undefined || validatedData.discountValue !== undefined) {
-        const { subtotal, discounts, taxes, total } = calculateQuotationTotals(
+        // Items keep the tax rule they were priced with
+        const { subtotal, discounts, taxes, total, taxIncluded, items } = await calculateTaxedQuotationTotals(
+          tenantId,
+          existingQuotation.clientId,
           existingQuotation.items.map(item => ({
             description: item.description,
             quantity: item.quantity,
             unitPrice: Number(item.unitPrice),
             total: Number(item.total),
+            taxRuleId: item.taxRuleId ?? undefined,
           })),
           discountTypeValue,
           discountValueAmount
@@ -299,7 +351,12 @@ export async function updateQuotationAction(data: UpdateQuotationRequest): Promi
         updateData.subtotal = subtotal
         updateData.discounts = discounts
         updateData.taxes = taxes
+        updateData.taxIncluded = taxIncluded
         updateData.total = total
+        updateData.items = {
+          deleteMany: { quotationId: validatedData.id },
+          create: toQuotationItemRows(items),
+        }
       }
     }
 
@@ -730,6 +787,7 @@ export async function duplicateQuotationAction(data: DuplicateQuotationRequest):
         discountValue: originalQuotation.discountValue,
         discounts: originalQuotation.discounts,
         taxes: originalQuotation.taxes,
+        taxIncluded: originalQuotation.taxIncluded,
         total: originalQuotation.total,
         currency: originalQuotation.currency,
         validUntil: validatedData.validUntil
@@ -744,6 +802,9 @@ export async function duplicateQuotationAction(data: DuplicateQuotationRequest):
             quantity: item.quantity,
             unitPrice: item.unitPrice,
             total: item.total,
+            taxRuleId: item.taxRuleId,
+            taxRate: item.taxRate,
+            taxAmount: item.taxAmount,
           })),
         },
       },
@@ -806,41 +867,48 @@ export async function getQuotationStatsAction(data: GetQuotationStatsRequest): P
       where.opportunityId = validatedData.opportunityId
     }
 
-    // Get basic stats
-    const [totalCount, totalValue, statusCounts] = await Promise.all([
-      db.quotation.count({ where }),
-      db.quotation.aggregate({
+    // Quotations can be in different currencies (UF, USD, CLP...), so values are added up in
+    // the base currency, each quotation converted at the rate of the day it was issued
+    const [{ baseCurrency, rates }, quotations] = await Promise.all([
+      ExchangeRateService.getInstance().getCurrencyContext(tenantId),
+      db.quotation.findMany({
         where,
-        _sum: { total: true },
-      }),
-      db.quotation.groupBy({
-        by: ['status'],
-        where,
-        _count: { _all: true },
-        _sum: { total: true },
+        select: { status: true, total: true, currency: true, createdAt: true },
       }),
     ])
 
+    const sumQuotations = (selected: typeof quotations) => sumInCurrency(
+      rates,
+      selected.map(quotation => ({ amount: Number(quotation.total), currency: quotation.currency, date: quotation.createdAt })),
+      baseCurrency
+    )
+
     // Calculate conversion rate
-    const acceptedCount = statusCounts.find(s => s.status === 'ACCEPTED')?._count._all || 0
-    const sentCount = statusCounts.find(s => s.status === 'SENT')?._count._all || 0
+    const acceptedCount = quotations.filter(q => q.status === 'ACCEPTED').length
+    const sentCount = quotations.filter(q => q.status === 'SENT').length
     const conversionRate = sentCount > 0 ? (acceptedCount / sentCount) * 100 : 0
 
     // Format status statistics
-    const statusStats = statusCounts.reduce((acc, stat) => {
-      acc[stat.status] = {
-        count: stat._count._all,
-        value: Number(stat._sum.total || 0),
+    const statusStats = Array.from(new Set(quotations.map(q => q.status))).reduce((acc, status) => {
+      const statusQuotations = quotations.filter(q => q.status === status)
+
+      acc[status] = {
+        count: statusQuotations.length,
+        value: sumQuotations(statusQuotations).total,
       }
       return acc
     }, {} as Record<string, { count: number; value: number }>)
 
+    const totalValue = sumQuotations(quotations)
+
     const stats = {
-      totalCount,
-      totalValue: Number(totalValue._sum.total || 0),
-      averageValue: totalCount > 0 ? Number(totalValue._sum.total || 0) / totalCount : 0,
+      currency: baseCurrency,
+      totalCount: quotations.length,
+      totalValue: totalValue.total,
+      averageValue: totalValue.count > 0 ? totalValue.total / totalValue.count : 0,
       conversionRate: Math.round(conversionRate * 100) / 100,
       statusBreakdown: statusStats,
+      unconverted: totalValue.unconverted,
     }
 
     return { 
@@ -855,4 +923,39 @@ export async function getQuotationStatsAction(data: GetQuotationStatsRequest): P
       error: error instanceof Error ? error.message : 'Error al obtener estadísticas de cotizaciones' 
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * Preview the taxes of quotation items before saving
+ */
+export async function previewQuotationTaxesAction(data: PreviewQuotationTaxesRequest): Promise<ActionResult<any>> {
+  try {
+    const { tenantId } = await getUserWithTenant()
+
+    if (!tenantId) {
+      return { success: false, error: 'Tenant no encontrado' }
+    }
+
+    // Validate input data
+    const validatedData = PreviewQuotationTaxesSchema.parse(data)
+
+    const { subtotal, discounts, taxes, total, taxIncluded, breakdown } = await calculateTaxedQuotationTotals(
+      tenantId,
+      validatedData.clientId,
+      validatedData.items,
+      validatedData.discountType,
+      validatedData.discountValue
+    )
+
+    return {
+      success: true,
+      data: { subtotal, discounts, taxes, total, taxIncluded, breakdown },
+    }
+
+  } catch (error) {
+    console.error('Error previewing quotation taxes:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Error al calcular los impuestos'
+    }
+  }
+}
@@ -0,0 +1,430 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { prisma } from '@/lib/prisma'
+import { getTenantContext } from '@/lib/auth'
+import type { ActionResult } from '@/types/database'
+import { BankReconciliationService } from '@/services/bank-reconciliation.service'
+import { calculateInvoiceBalance } from '@/lib/utils/payment-link'
+import {
+  importBankStatementSchema,
+  reconciliationSchema,
+  matchReconciliationItemSchema,
+  excludeReconciliationItemSchema,
+  type ImportBankStatementRequest,
+  type ReconciliationRequest,
+  type MatchReconciliationItemRequest,
+  type ExcludeReconciliationItemRequest,
+} from '@/lib/validations/reconciliation'
+
+/**
+ * Get the latest bank statement reconciliations (admin only)
+ */
+export async function getReconciliationsAction(): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    const reconciliations = await prisma.paymentReconciliation.findMany({
+      where: {
+        tenantId,
+        reconciliationType: 'BANK_RECONCILIATION',
+      },
+      include: {
+        reconciler: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    })
+
+    return {
+      success: true,
+      data: reconciliations.map(reconciliation => ({
+        ...reconciliation,
+        bankStatementTotal: Number(reconciliation.bankStatementTotal),
+        recordedPaymentsTotal: Number(reconciliation.recordedPaymentsTotal),
+        variance: Number(reconciliation.variance),
+        autoMatchPercentage: Number(reconciliation.autoMatchPercentage),
+      })),
+    }
+  } catch (error: any) {
+    console.error('Get reconciliations error:', error)
+    return { success: false, error: error.message || 'Failed to get reconciliations' }
+  }
+}
+
+/**
+ * Get a reconciliation with its items, and the open invoices and unreconciled transfers
+ * its lines can be matched to by hand (admin only)
+ */
+export async function getReconciliationAction(data: ReconciliationRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = reconciliationSchema.parse(data)
+
+    const reconciliation = await prisma.paymentReconciliation.findFirst({
+      where: {
+        id: validatedData.reconciliationId,
+        tenantId,
+      },
+      include: {
+        transactions: {
+          include: {
+            payment: {
+              select: {
+                id: true,
+                amount: true,
+                status: true,
+                reference: true,
+                processedAt: true,
+                client: { select: { name: true } },
+                invoice: { select: { number: true } },
+              },
+            },
+            invoice: { select: { id: true, number: true, client: { select: { name: true } } } },
+          },
+          orderBy: [{ requiresAction: 'desc' }, { transactionDate: 'asc' }],
+        },
+      },
+    })
+
+    if (!reconciliation) {
+      return { success: false, error: 'Reconciliation not found' }
+    }
+
+    const [invoices, payments] = await Promise.all([
+      prisma.invoice.findMany({
+        where: {
+          tenantId,
+          status: { in: ['SENT', 'OVERDUE'] },
+        },
+        select: {
+          id: true,
+          number: true,
+          total: true,
+          currency: true,
+          client: { select: { name: true } },
+          payments: { where: { status: 'COMPLETED' }, select: { amount: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 200,
+      }),
+      prisma.payment.findMany({
+        where: {
+          tenantId,
+          method: 'BANK_TRANSFER',
+          status: { in: ['PENDING', 'COMPLETED'] },
+          amount: { gt: 0 },
+          reconciliationItems: {
+            none: {
+              matchStatus: { in: ['MATCHED', 'MANUALLY_MATCHED'] },
+              reconciliation: { status: { not: 'REJECTED' } },
+            },
+          },
+        },
+        select: {
+          id: true,
+          amount: true,
+          currency: true,
+          status: true,
+          reference: true,
+          client: { select: { name: true } },
+          invoice: { select: { number: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 200,
+      }),
+    ])
+
+    return {
+      success: true,
+      data: {
+        ...reconciliation,
+        bankStatementTotal: Number(reconciliation.bankStatementTotal),
+        recordedPaymentsTotal: Number(reconciliation.recordedPaymentsTotal),
+        variance: Number(reconciliation.variance),
+        autoMatchPercentage: Number(reconciliation.autoMatchPercentage),
+        transactions: reconciliation.transactions.map(item => ({
+          ...item,
+          amount: Number(item.amount),
+          matchConfidence: Number(item.matchConfidence),
+          discrepancyAmount: item.discrepancyAmount === null ? null : Number(item.discrepancyAmount),
+          payment: item.payment && { ...item.payment, amount: Number(item.payment.amount) },
+        })),
+        candidates: {
+          invoices: invoices
+            .map(({ payments: invoicePayments, total, ...invoice }) => ({
+              ...invoice,
+              balance: calculateInvoiceBalance(
+                Number(total),
+                invoicePayments.reduce((sum, payment) => sum + Number(payment.amount), 0),
+                invoice.currency
+              ),
+            }))
+            .filter(invoice => invoice.balance > 0),
+          payments: payments.map(payment => ({ ...payment, amount: Number(payment.amount) })),
+        },
+      },
+    }
+  } catch (error: any) {
+    console.error('Get reconciliation error:', error)
+
+    if (error.name === 'ZodError') {
+      return { success: false, error: 'Reconciliation not found' }
+    }
+
+    return { success: false, error: error.message || 'Failed to get reconciliation' }
+  }
+}
+
+/**
+ * Import a CSV, OFX or CAMT.053 bank statement and match its lines automatically (admin only)
+ */
+export async function importBankStatementAction(data: ImportBankStatementRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = importBankStatementSchema.parse(data)
+
+    const reconciliation = await BankReconciliationService.getInstance().importStatement({
+      tenantId,
+      userId: user.id,
+      ...validatedData,
+    })
+
+    revalidatePath('/billing')
+
+    return {
+      success: true,
+      data: {
+        id: reconciliation.id,
+        status: reconciliation.status,
+        matchedTransactions: reconciliation.matchedTransactions,
+        unmatchedTransactions: reconciliation.unmatchedTransactions,
+        duplicateTransactions: reconciliation.duplicateTransactions,
+        missingTransactions: reconciliation.missingTransactions,
+      },
+    }
+  } catch (error: any) {
+    console.error('Import bank statement error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to import bank statement' }
+  }
+}
+
+/**
+ * Match a statement line by hand to a recorded transfer or an open invoice (admin only)
+ */
+export async function matchReconciliationItemAction(data: MatchReconciliationItemRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = matchReconciliationItemSchema.parse(data)
+
+    const reconciliation = await BankReconciliationService.getInstance().matchItem({
+      tenantId,
+      userId: user.id,
+      ...validatedData,
+    })
+
+    revalidatePath(`/billing/reconciliations/${reconciliation.id}`)
+
+    return { success: true, data: { id: reconciliation.id, status: reconciliation.status } }
+  } catch (error: any) {
+    console.error('Match reconciliation item error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to match item' }
+  }
+}
+
+/**
+ * Leave a statement line or a missing transfer out of the reconciliation (admin only)
+ */
+export async function excludeReconciliationItemAction(data: ExcludeReconciliationItemRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = excludeReconciliationItemSchema.parse(data)
+
+    const reconciliation = await BankReconciliationService.getInstance().excludeItem({
+      tenantId,
+      userId: user.id,
+      ...validatedData,
+    })
+
+    revalidatePath(`/billing/reconciliations/${reconciliation.id}`)
+
+    return { success: true, data: { id: reconciliation.id, status: reconciliation.status } }
+  } catch (error: any) {
+    console.error('Exclude reconciliation item error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to exclude item' }
+  }
+}
+
+/**
+ * Approve a reviewed reconciliation and record the matched transfers as payments (admin only)
+ */
+export async function approveReconciliationAction(data: ReconciliationRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = reconciliationSchema.parse(data)
+
+    const result = await BankReconciliationService.getInstance().approve(tenantId, user.id, validatedData.reconciliationId)
+
+    revalidatePath('/billing')
+    revalidatePath(`/billing/reconciliations/${result.id}`)
+
+    return { success: true, data: result }
+  } catch (error: any) {
+    console.error('Approve reconciliation error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to approve reconciliation' }
+  }
+}
+
+/**
+ * Discard a reconciliation that has not been approved (admin only)
+ */
+export async function deleteReconciliationAction(data: ReconciliationRequest): Promise<ActionResult<any>> {
+  try {
+    // Get tenant context and validate auth
+    const { tenantId, user } = await getTenantContext()
+    if (!tenantId || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    // Check if user is admin
+    if (!['COWORK_ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+      return { success: false, error: 'Admin access required' }
+    }
+
+    // Validate input data
+    const validatedData = reconciliationSchema.parse(data)
+
+    await BankReconciliationService.getInstance().deleteReconciliation(tenantId, validatedData.reconciliationId)
+
+    revalidatePath('/billing')
+
+    return { success: true }
+  } catch (error: any) {
+    console.error('Delete reconciliation error:', error)
+
+    if (error.name === 'ZodError') {
+      return {
+        success: false,
+        error: 'Validation failed',
+        fieldErrors: error.errors.reduce((acc: any, err: any) => {
+          acc[err.path.join('.')] = err.message
+          return acc
+        }, {}),
+      }
+    }
+
+    return { success: false, error: error.message || 'Failed to delete reconciliation' }
+  }
+}
@@ -346,6 +346,7 @@ export async function getServicesByCategoryAction(category?: string): Promise<Ac
         serviceType: true,
         availability: true,
         maxQuantity: true,
+        inventoryQuantity: true,
         minimumOrder: true,
         pricingTiers: true,
         dynamicPricing: true,
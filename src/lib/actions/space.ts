@@ -65,6 +65,7 @@ function serializeSpaceData(space: any) {
   return {
     ...space,
     hourlyRate: space.hourlyRate ? Number(space.hourlyRate) : null,
+    noShowFee: space.noShowFee !== null && space.noShowFee !== undefined ? Number(space.noShowFee) : null,
     area: space.area ? Number(space.area) : null,
     amenities: safeJsonParse(space.amenities, []),
     location: safeJsonParse(space.location, null),
@@ -104,6 +105,8 @@ export async function createSpaceFormAction(formData: FormData) {
       cancellationHours: formData.get('cancellationHours') ? parseInt(formData.get('cancellationHours') as string) : undefined,
       requiresApproval: formData.get('requiresApproval') === 'on' || formData.get('requiresApproval') === 'true',
       allowRecurring: formData.get('allowRecurring') === 'on' || formData.get('allowRecurring') === 'true',
+      noShowGraceMinutes: formData.get('noShowGraceMinutes') ? parseInt(formData.get('noShowGraceMinutes') as string) : undefined,
+      noShowFee: formData.get('noShowFee') ? parseFloat(formData.get('noShowFee') as string) : undefined,
     }
 
     // Validate and create space
@@ -152,6 +155,8 @@ export async function updateSpaceFormAction(spaceId: string, formData: FormData)
       cancellationHours: formData.get('cancellationHours') ? parseInt(formData.get('cancellationHours') as string) : undefined,
       requiresApproval: formData.get('requiresApproval') === 'on' || formData.get('requiresApproval') === 'true',
       allowRecurring: formData.get('allowRecurring') === 'on' || formData.get('allowRecurring') === 'true',
+      noShowGraceMinutes: formData.get('noShowGraceMinutes') ? parseInt(formData.get('noShowGraceMinutes') as string) : undefined,
+      noShowFee: formData.get('noShowFee') ? parseFloat(formData.get('noShowFee') as string) : undefined,
     }
 
     // Validate and update space
@@ -220,6 +225,8 @@ export async function createSpaceAction(data: CreateSpaceRequest): Promise<Actio
         cancellationHours: validatedData.cancellationHours,
         requiresApproval: validatedData.requiresApproval,
         allowRecurring: validatedData.allowRecurring,
+        noShowGraceMinutes: validatedData.noShowGraceMinutes,
+        noShowFee: validatedData.noShowFee,
         amenities: validatedData.amenities ? JSON.stringify(validatedData.amenities) : null,
         images: validatedData.images ? JSON.stringify(validatedData.images) : null,
       },
@@ -299,6 +306,8 @@ export async function updateSpaceAction(data: UpdateSpaceRequest): Promise<Actio
     if (updateData.cancellationHours !== undefined) processedUpdateData.cancellationHours = updateData.cancellationHours
     if (updateData.requiresApproval !== undefined) processedUpdateData.requiresApproval = updateData.requiresApproval
     if (updateData.allowRecurring !== undefined) processedUpdateData.allowRecurring = updateData.allowRecurring
+    if (updateData.noShowGraceMinutes !== undefined) processedUpdateData.noShowGraceMinutes = updateData.noShowGraceMinutes
+    if (updateData.noShowFee !== undefined) processedUpdateData.noShowFee = updateData.noShowFee
 
     // Handle JSON fields
     if (updateData.amenities !== undefined) {
@@ -1556,6 +1565,18 @@ export async function createRecurringBookingAction(data: any): Promise<ActionRes
       return { success: false, error: 'Authentication required' }
     }
 
+    const space = await prisma.space.findFirst({
+      where: { id: data.spaceId, tenantId }
+    })
+
+    if (!space) {
+      return { success: false, error: 'Space not found' }
+    }
+
+    if (data.recurrence && !space.allowRecurring) {
+      return { success: false, error: 'This space does not allow recurring bookings' }
+    }
+
     // Create main booking
     const booking = await prisma.booking.create({
       data: {
@@ -1566,7 +1587,8 @@ export async function createRecurringBookingAction(data: any): Promise<ActionRes
         description: data.description,
         startTime: data.startTime,
         endTime: data.endTime,
-        status: 'CONFIRMED'
+        status: 'CONFIRMED',
+        occurrenceDate: data.recurrence ? data.startTime : undefined,
       }
     })
 
@@ -29,6 +29,7 @@ import {
   type GetVisitorStatsRequest,
 } from '@/lib/validations/visitor'
 import { randomBytes } from 'crypto'
+import { WebhookService } from '@/services/webhook.service'
 
 /**
  * Create a new visitor
@@ -668,6 +669,15 @@ export async function checkInVisitorAction(data: CheckInVisitorRequest): Promise
       },
     })
 
+    await WebhookService.getInstance().emit(tenantId, 'visitor.checked_in', {
+      id: visitor.id,
+      firstName: visitor.firstName,
+      lastName: visitor.lastName,
+      company: visitor.company,
+      hostUserId: visitor.hostUserId,
+      checkedInAt: new Date().toISOString(),
+    })
+
     revalidatePath('/visitors')
     revalidatePath(`/visitors/${validatedData.id}`)
     
@@ -781,6 +791,15 @@ export async function checkOutVisitorAction(data: CheckOutVisitorRequest): Promi
       },
     })
 
+    await WebhookService.getInstance().emit(tenantId, 'visitor.checked_out', {
+      id: visitor.id,
+      firstName: visitor.firstName,
+      lastName: visitor.lastName,
+      company: visitor.company,
+      hostUserId: visitor.hostUserId,
+      checkedOutAt: new Date().toISOString(),
+    })
+
     revalidatePath('/visitors')
     revalidatePath(`/visitors/${validatedData.id}`)
     
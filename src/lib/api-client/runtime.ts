@@ -0,0 +1,67 @@
+/**
+ * API client runtime
+ * Sends the requests of the generated clients and unwraps the { success, data } responses
+ */
+
+/**
+ * Sends a request to a path of the API. The frontend passes the request function of useApi(),
+ * which adds the base URL and the session token; integrators can use createApiKeyFetcher().
+ */
+export type ApiFetcher = (path: string, init: RequestInit) => Promise<Response>
+
+export class ApiClientError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly fieldErrors?: Record<string, string[]>
+  ) {
+    super(message)
+    this.name = 'ApiClientError'
+  }
+}
+
+export function createApiKeyFetcher(baseUrl: string, apiKey: string): ApiFetcher {
+  return (path, init) => fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      Authorization: `Bearer ${apiKey}`,
+    },
+  })
+}
+
+export async function requestApi<T>(
+  fetcher: ApiFetcher,
+  method: string,
+  path: string,
+  options: { query?: object; body?: unknown } = {}
+): Promise<T> {
+  const search = toSearchParams(options.query)
+  const response = await fetcher(search ? `${path}?${search}` : path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  })
+
+  const payload = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw new ApiClientError(payload?.error || response.statusText, response.status, payload?.fieldErrors)
+  }
+
+  return payload?.data as T
+}
+
+/**
+ * Query string of the defined values; arrays are sent comma separated
+ */
+export function toSearchParams(query?: object): string {
+  const params = new URLSearchParams()
+
+  for (const [name, value] of Object.entries(query || {})) {
+    if (value === undefined || value === null) continue
+    params.set(name, Array.isArray(value) ? value.join(',') : String(value))
+  }
+
+  return params.toString()
+}
@@ -0,0 +1,923 @@
+/**
+ * Typed client for the SweetSpot Cowork API 1.0.0
+ * Generated from the OpenAPI document by `npm run api:client`; do not edit by hand.
+ */
+
+import { requestApi, type ApiFetcher } from './runtime'
+
+export interface CreateBookingBody {
+  spaceId?: string
+  userId: string
+  type?: 'SPACE_ONLY' | 'SPACE_WITH_SERVICES' | 'SERVICES_ONLY' | 'PACKAGE' | 'RECURRING' | 'EVENT'
+  title: string
+  description?: string
+  startTime: string
+  endTime: string
+  status?: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW' | 'CHECKED_IN' | 'CHECKED_OUT'
+  participants?: Array<{
+    userId?: string
+    name: string
+    email?: string
+    phone?: string
+    role?: 'ORGANIZER' | 'ATTENDEE' | 'PRESENTER' | 'ASSISTANT'
+    isRequired?: boolean
+    hasCheckedIn?: boolean
+    checkedInAt?: string
+  }>
+  services?: Array<{
+    serviceId: string
+    quantity?: number
+    unitPrice: number
+    totalPrice: number
+    status?: 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED'
+    notes?: string
+    startTime?: string
+    endTime?: string
+    metadata?: Record<string, unknown>
+  }>
+  totalAmount?: number
+  discountCode?: string
+  setupTime?: number
+  cleanupTime?: number
+  notes?: string
+  internalNotes?: string
+  specialRequests?: string
+  checkInMethod?: 'MANUAL' | 'QR_CODE' | 'RFID' | 'MOBILE_APP' | 'AUTOMATIC'
+  isRecurring?: boolean
+  recurrenceRule?: {
+    type: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'CUSTOM'
+    interval?: number
+    endDate?: string
+    maxOccurrences?: number
+    daysOfWeek?: Array<number>
+    dayOfMonth?: number
+    exceptions?: Array<string>
+  }
+  parentBookingId?: string
+  paymentId?: string
+  approvedBy?: string
+  approvedAt?: string
+  checkedInAt?: string
+  checkedOutAt?: string
+  cancellationReason?: 'CLIENT_REQUEST' | 'SPACE_UNAVAILABLE' | 'SERVICE_UNAVAILABLE' | 'MAINTENANCE' | 'WEATHER' | 'EMERGENCY' | 'NO_SHOW' | 'PAYMENT_FAILED' | 'POLICY_VIOLATION' | 'OTHER'
+  cancellationNotes?: string
+  cancelledAt?: string
+  cancelledBy?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface UpdateBookingBody {
+  refundMethod?: 'REFUND' | 'CREDIT'
+  spaceId?: string
+  userId?: string
+  type?: 'SPACE_ONLY' | 'SPACE_WITH_SERVICES' | 'SERVICES_ONLY' | 'PACKAGE' | 'RECURRING' | 'EVENT'
+  title?: string
+  description?: string
+  startTime?: string
+  endTime?: string
+  status?: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW' | 'CHECKED_IN' | 'CHECKED_OUT'
+  participants?: Array<{
+    userId?: string
+    name: string
+    email?: string
+    phone?: string
+    role?: 'ORGANIZER' | 'ATTENDEE' | 'PRESENTER' | 'ASSISTANT'
+    isRequired?: boolean
+    hasCheckedIn?: boolean
+    checkedInAt?: string
+  }>
+  services?: Array<{
+    serviceId: string
+    quantity?: number
+    unitPrice: number
+    totalPrice: number
+    status?: 'PENDING' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED'
+    notes?: string
+    startTime?: string
+    endTime?: string
+    metadata?: Record<string, unknown>
+  }>
+  totalAmount?: number
+  discountCode?: string
+  setupTime?: number
+  cleanupTime?: number
+  notes?: string
+  internalNotes?: string
+  specialRequests?: string
+  checkInMethod?: 'MANUAL' | 'QR_CODE' | 'RFID' | 'MOBILE_APP' | 'AUTOMATIC'
+  isRecurring?: boolean
+  recurrenceRule?: {
+    type: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'CUSTOM'
+    interval?: number
+    endDate?: string
+    maxOccurrences?: number
+    daysOfWeek?: Array<number>
+    dayOfMonth?: number
+    exceptions?: Array<string>
+  }
+  parentBookingId?: string
+  paymentId?: string
+  approvedBy?: string
+  approvedAt?: string
+  checkedInAt?: string
+  checkedOutAt?: string
+  cancellationReason?: 'CLIENT_REQUEST' | 'SPACE_UNAVAILABLE' | 'SERVICE_UNAVAILABLE' | 'MAINTENANCE' | 'WEATHER' | 'EMERGENCY' | 'NO_SHOW' | 'PAYMENT_FAILED' | 'POLICY_VIOLATION' | 'OTHER'
+  cancellationNotes?: string
+  cancelledAt?: string
+  cancelledBy?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface CancelBookingBody {
+  reason?: 'CLIENT_REQUEST' | 'SPACE_UNAVAILABLE' | 'SERVICE_UNAVAILABLE' | 'MAINTENANCE' | 'WEATHER' | 'EMERGENCY' | 'NO_SHOW' | 'PAYMENT_FAILED' | 'POLICY_VIOLATION' | 'OTHER'
+  notes?: string
+}
+
+export interface CheckBookingConflictsBody {
+  spaceId: string
+  startTime: string
+  endTime: string
+  excludeBookingId?: string
+}
+
+export interface CreateSpaceBody {
+  name: string
+  description?: string
+  type: 'MEETING_ROOM' | 'CONFERENCE_ROOM' | 'PHONE_BOOTH' | 'EVENT_SPACE' | 'COMMON_AREA' | 'KITCHEN' | 'LOUNGE' | 'DESK_AREA'
+  capacity: number
+  amenities?: Array<{
+    id?: string
+    name: string
+    description?: string
+    isIncluded?: boolean
+    additionalCost?: number
+  }>
+  hourlyRate?: number
+  isActive?: boolean
+  floor?: string
+  zone?: string
+  images?: Array<string>
+  area?: number
+  color?: string
+  maxAdvanceBooking?: number
+  minBookingDuration?: number
+  maxBookingDuration?: number
+  cancellationHours?: number
+  requiresApproval?: boolean
+  allowRecurring?: boolean
+  noShowGraceMinutes?: number
+  noShowFee?: number
+}
+
+export interface UpdateSpaceBody {
+  name?: string
+  description?: string
+  type?: 'MEETING_ROOM' | 'CONFERENCE_ROOM' | 'PHONE_BOOTH' | 'EVENT_SPACE' | 'COMMON_AREA' | 'KITCHEN' | 'LOUNGE' | 'DESK_AREA'
+  capacity?: number
+  amenities?: Array<{
+    id?: string
+    name: string
+    description?: string
+    isIncluded?: boolean
+    additionalCost?: number
+  }>
+  hourlyRate?: number
+  isActive?: boolean
+  floor?: string
+  zone?: string
+  images?: Array<string>
+  area?: number
+  color?: string
+  maxAdvanceBooking?: number
+  minBookingDuration?: number
+  maxBookingDuration?: number
+  cancellationHours?: number
+  requiresApproval?: boolean
+  allowRecurring?: boolean
+  noShowGraceMinutes?: number
+  noShowFee?: number
+}
+
+export interface CheckSpaceAvailabilityBody {
+  startTime: string
+  endTime: string
+  excludeBookingId?: string
+}
+
+export interface CreateResourceBody {
+  name: string
+  description?: string
+  type: 'EQUIPMENT' | 'AMENITY' | 'VEHICLE' | 'ROOM_FEATURE' | 'TECHNOLOGY' | 'FURNITURE' | 'CONSUMABLE' | 'TOOL' | 'SAFETY_EQUIPMENT' | 'CLEANING_SUPPLY' | 'OFFICE_SUPPLY' | 'OTHER'
+  status?: 'AVAILABLE' | 'IN_USE' | 'RESERVED' | 'MAINTENANCE' | 'OUT_OF_ORDER' | 'DISCONTINUED' | 'LOST_DAMAGED'
+  condition?: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR' | 'NEEDS_REPAIR' | 'DAMAGED'
+  assetTag?: string
+  barcode?: string
+  qrCode?: string
+  location?: {
+    spaceId?: string
+    building?: string
+    floor?: string
+    room?: string
+    coordinates?: {
+      x?: number
+      y?: number
+      z?: number
+    }
+  }
+  specifications?: {
+    brand?: string
+    model?: string
+    serialNumber?: string
+    dimensions?: {
+      length?: number
+      width?: number
+      height?: number
+      unit?: 'cm' | 'in' | 'm' | 'ft'
+    }
+    weight?: {
+      value: number
+      unit?: 'kg' | 'lb' | 'g'
+    }
+    capacity?: number
+    powerRequirements?: string
+    connectivity?: Array<string>
+    operatingSystem?: string
+    softwareInstalled?: Array<string>
+    accessories?: Array<string>
+    manualUrl?: string
+    warrantyInfo?: {
+      provider: string
+      expiryDate: string
+      terms?: string
+    }
+  }
+  purchaseInfo?: {
+    vendor: string
+    purchaseDate: string
+    purchasePrice: number
+    currency?: string
+    invoiceNumber?: string
+    warrantyPeriod?: number
+  }
+  financialInfo?: {
+    currentValue?: number
+    depreciationRate?: number
+    lastValuationDate?: string
+    insuranceCoverage?: number
+    insuranceProvider?: string
+  }
+  maintenanceSchedule?: {
+    frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'AS_NEEDED'
+    lastMaintenance?: string
+    nextMaintenance?: string
+    maintenanceInstructions?: string
+  }
+  usage?: {
+    totalUsageHours?: number
+    usageThisMonth?: number
+    maxUsagePerDay?: number
+    requiresTraining?: boolean
+    trainingRequired?: string
+  }
+  availability?: {
+    isBookable?: boolean
+    advanceBookingDays?: number
+    maxBookingDuration?: number
+    bookingIncrements?: number
+    simultaneousUsers?: number
+  }
+  images?: Array<string>
+  documents?: Array<{
+    name: string
+    url: string
+    type: 'MANUAL' | 'WARRANTY' | 'INVOICE' | 'CERTIFICATE' | 'OTHER'
+  }>
+  tags?: Array<string>
+  isActive?: boolean
+  isShared?: boolean
+  requiresCheckout?: boolean
+  metadata?: Record<string, unknown>
+}
+
+export interface UpdateResourceBody {
+  name?: string
+  description?: string
+  type?: 'EQUIPMENT' | 'AMENITY' | 'VEHICLE' | 'ROOM_FEATURE' | 'TECHNOLOGY' | 'FURNITURE' | 'CONSUMABLE' | 'TOOL' | 'SAFETY_EQUIPMENT' | 'CLEANING_SUPPLY' | 'OFFICE_SUPPLY' | 'OTHER'
+  status?: 'AVAILABLE' | 'IN_USE' | 'RESERVED' | 'MAINTENANCE' | 'OUT_OF_ORDER' | 'DISCONTINUED' | 'LOST_DAMAGED'
+  condition?: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR' | 'NEEDS_REPAIR' | 'DAMAGED'
+  assetTag?: string
+  barcode?: string
+  qrCode?: string
+  location?: {
+    spaceId?: string
+    building?: string
+    floor?: string
+    room?: string
+    coordinates?: {
+      x?: number
+      y?: number
+      z?: number
+    }
+  }
+  specifications?: {
+    brand?: string
+    model?: string
+    serialNumber?: string
+    dimensions?: {
+      length?: number
+      width?: number
+      height?: number
+      unit?: 'cm' | 'in' | 'm' | 'ft'
+    }
+    weight?: {
+      value: number
+      unit?: 'kg' | 'lb' | 'g'
+    }
+    capacity?: number
+    powerRequirements?: string
+    connectivity?: Array<string>
+    operatingSystem?: string
+    softwareInstalled?: Array<string>
+    accessories?: Array<string>
+    manualUrl?: string
+    warrantyInfo?: {
+      provider: string
+      expiryDate: string
+      terms?: string
+    }
+  }
+  purchaseInfo?: {
+    vendor: string
+    purchaseDate: string
+    purchasePrice: number
+    currency?: string
+    invoiceNumber?: string
+    warrantyPeriod?: number
+  }
+  financialInfo?: {
+    currentValue?: number
+    depreciationRate?: number
+    lastValuationDate?: string
+    insuranceCoverage?: number
+    insuranceProvider?: string
+  }
+  maintenanceSchedule?: {
+    frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'AS_NEEDED'
+    lastMaintenance?: string
+    nextMaintenance?: string
+    maintenanceInstructions?: string
+  }
+  usage?: {
+    totalUsageHours?: number
+    usageThisMonth?: number
+    maxUsagePerDay?: number
+    requiresTraining?: boolean
+    trainingRequired?: string
+  }
+  availability?: {
+    isBookable?: boolean
+    advanceBookingDays?: number
+    maxBookingDuration?: number
+    bookingIncrements?: number
+    simultaneousUsers?: number
+  }
+  images?: Array<string>
+  documents?: Array<{
+    name: string
+    url: string
+    type: 'MANUAL' | 'WARRANTY' | 'INVOICE' | 'CERTIFICATE' | 'OTHER'
+  }>
+  tags?: Array<string>
+  isActive?: boolean
+  isShared?: boolean
+  requiresCheckout?: boolean
+  metadata?: Record<string, unknown>
+}
+
+export interface CheckoutResourceBody {
+  userId?: string
+  bookingId?: string
+  expectedReturnAt?: string
+  notes?: string
+  checkedOutCondition?: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR' | 'NEEDS_REPAIR' | 'DAMAGED'
+}
+
+export interface CheckinResourceBody {
+  checkedInCondition: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR' | 'NEEDS_REPAIR' | 'DAMAGED'
+  notes?: string
+  damageReport?: string
+}
+
+export interface CreateVisitorBody {
+  firstName: string
+  lastName: string
+  company?: string
+  type?: 'GUEST' | 'CLIENT_VISITOR' | 'DELIVERY' | 'CONTRACTOR' | 'INTERVIEW' | 'EVENT_ATTENDEE' | 'VENDOR' | 'MAINTENANCE' | 'GOVERNMENT' | 'OTHER'
+  status?: 'PRE_REGISTERED' | 'REGISTERED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW' | 'BLACKLISTED'
+  purpose: 'MEETING' | 'DELIVERY' | 'SERVICE' | 'INTERVIEW' | 'EVENT' | 'TOUR' | 'PERSONAL' | 'OTHER'
+  contactInfo: {
+    email?: string
+    phone: string
+    alternatePhone?: string
+    address?: {
+      street?: string
+      city?: string
+      state?: string
+      country?: string
+      postalCode?: string
+    }
+  }
+  emergencyContact?: {
+    name: string
+    relationship?: string
+    phone: string
+    alternatePhone?: string
+  }
+  idVerification?: {
+    type: 'DRIVERS_LICENSE' | 'PASSPORT' | 'NATIONAL_ID' | 'COMPANY_ID' | 'OTHER'
+    number: string
+    issuingCountry?: string
+    expiryDate?: string
+    verifiedAt?: string
+    verifiedBy?: string
+    documentImageUrl?: string
+  }
+  vehicleInfo?: {
+    make?: string
+    model?: string
+    color?: string
+    licensePlate: string
+    parkingSpot?: string
+  }
+  accessPermissions?: {
+    allowedAreas?: Array<string>
+    restrictedAreas?: Array<string>
+    escortRequired?: boolean
+    temporaryBadgeNumber?: string
+    accessCardNumber?: string
+    specialInstructions?: string
+  }
+  healthSafety?: {
+    healthDeclaration?: boolean
+    temperatureCheck?: {
+      required?: boolean
+      value?: number
+      checkedAt?: string
+      checkedBy?: string
+    }
+    vaccinationStatus?: 'FULLY_VACCINATED' | 'PARTIALLY_VACCINATED' | 'NOT_VACCINATED' | 'NOT_DISCLOSED'
+    safetyBriefingCompleted?: boolean
+    ndaSigned?: boolean
+    photoConsent?: boolean
+  }
+  hostUserId?: string
+  hostName?: string
+  clientId?: string
+  expectedArrival: string
+  expectedDeparture?: string
+  actualArrival?: string
+  actualDeparture?: string
+  notes?: string
+  specialRequirements?: string
+  photoUrl?: string
+  signatureUrl?: string
+  preRegistrationCode?: string
+  preRegisteredBy?: string
+  preRegistrationExpiresAt?: string
+  isRecurring?: boolean
+  recurrenceRule?: {
+    frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+    interval?: number
+    daysOfWeek?: Array<number>
+    endDate?: string
+    occurrences?: number
+  }
+  isBlacklisted?: boolean
+  blacklistReason?: string
+  blacklistedAt?: string
+  blacklistedBy?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface UpdateVisitorBody {
+  firstName?: string
+  lastName?: string
+  company?: string
+  type?: 'GUEST' | 'CLIENT_VISITOR' | 'DELIVERY' | 'CONTRACTOR' | 'INTERVIEW' | 'EVENT_ATTENDEE' | 'VENDOR' | 'MAINTENANCE' | 'GOVERNMENT' | 'OTHER'
+  status?: 'PRE_REGISTERED' | 'REGISTERED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW' | 'BLACKLISTED'
+  purpose?: 'MEETING' | 'DELIVERY' | 'SERVICE' | 'INTERVIEW' | 'EVENT' | 'TOUR' | 'PERSONAL' | 'OTHER'
+  contactInfo?: {
+    email?: string
+    phone: string
+    alternatePhone?: string
+    address?: {
+      street?: string
+      city?: string
+      state?: string
+      country?: string
+      postalCode?: string
+    }
+  }
+  emergencyContact?: {
+    name: string
+    relationship?: string
+    phone: string
+    alternatePhone?: string
+  }
+  idVerification?: {
+    type: 'DRIVERS_LICENSE' | 'PASSPORT' | 'NATIONAL_ID' | 'COMPANY_ID' | 'OTHER'
+    number: string
+    issuingCountry?: string
+    expiryDate?: string
+    verifiedAt?: string
+    verifiedBy?: string
+    documentImageUrl?: string
+  }
+  vehicleInfo?: {
+    make?: string
+    model?: string
+    color?: string
+    licensePlate: string
+    parkingSpot?: string
+  }
+  accessPermissions?: {
+    allowedAreas?: Array<string>
+    restrictedAreas?: Array<string>
+    escortRequired?: boolean
+    temporaryBadgeNumber?: string
+    accessCardNumber?: string
+    specialInstructions?: string
+  }
+  healthSafety?: {
+    healthDeclaration?: boolean
+    temperatureCheck?: {
+      required?: boolean
+      value?: number
+      checkedAt?: string
+      checkedBy?: string
+    }
+    vaccinationStatus?: 'FULLY_VACCINATED' | 'PARTIALLY_VACCINATED' | 'NOT_VACCINATED' | 'NOT_DISCLOSED'
+    safetyBriefingCompleted?: boolean
+    ndaSigned?: boolean
+    photoConsent?: boolean
+  }
+  hostUserId?: string
+  hostName?: string
+  clientId?: string
+  expectedArrival?: string
+  expectedDeparture?: string
+  actualArrival?: string
+  actualDeparture?: string
+  notes?: string
+  specialRequirements?: string
+  photoUrl?: string
+  signatureUrl?: string
+  preRegistrationCode?: string
+  preRegisteredBy?: string
+  preRegistrationExpiresAt?: string
+  isRecurring?: boolean
+  recurrenceRule?: {
+    frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+    interval?: number
+    daysOfWeek?: Array<number>
+    endDate?: string
+    occurrences?: number
+  }
+  isBlacklisted?: boolean
+  blacklistReason?: string
+  blacklistedAt?: string
+  blacklistedBy?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface CheckInVisitorBody {
+  actualArrival?: string
+  badgeNumber?: string
+  accessCardNumber?: string
+  parkingSpot?: string
+  photoUrl?: string
+  signatureUrl?: string
+  healthDeclaration?: boolean
+  temperature?: number
+  notes?: string
+}
+
+export interface CheckOutVisitorBody {
+  actualDeparture?: string
+  badgeReturned?: boolean
+  accessCardReturned?: boolean
+  feedback?: string
+  rating?: number
+  notes?: string
+}
+
+export interface CreateAccessPointBody {
+  name: string
+  description?: string
+  type: 'MAIN_ENTRANCE' | 'SIDE_ENTRANCE' | 'EMERGENCY_EXIT' | 'PARKING_GATE' | 'ELEVATOR' | 'FLOOR_ACCESS' | 'ROOM_DOOR' | 'TURNSTILE' | 'BARRIER'
+  status?: 'ACTIVE' | 'INACTIVE' | 'MAINTENANCE' | 'EMERGENCY_OPEN' | 'LOCKED_DOWN' | 'FAULT'
+  location: {
+    building: string
+    floor?: string
+    zone?: string
+    coordinates?: {
+      lat: number
+      lng: number
+    }
+  }
+  hardware?: {
+    manufacturer: string
+    model: string
+    serialNumber: string
+    macAddress?: string
+    ipAddress?: string
+    firmwareVersion?: string
+    installDate?: string
+  }
+  config?: {
+    schedules?: Array<{
+      name: string
+      daysOfWeek: Array<number>
+      startTime: string
+      endTime: string
+      allowedUserTypes?: Array<string>
+      requiresMultiFactor?: boolean
+    }>
+    antiPassback?: {
+      enabled?: boolean
+      softAntiPassback?: boolean
+      resetTime?: number
+    }
+    occupancyLimit?: {
+      enabled?: boolean
+      maxOccupancy: number
+      currentOccupancy?: number
+    }
+    doorHeldOpenTime?: number
+    unlockDuration?: number
+    requiresEscort?: boolean
+    allowedMethods?: Array<'CARD' | 'PIN' | 'BIOMETRIC' | 'MOBILE_APP' | 'QR_CODE' | 'FACIAL_RECOGNITION' | 'MANUAL' | 'TEMPORARY_CODE'>
+  }
+  currentState?: {
+    doorStatus?: 'OPEN' | 'CLOSED' | 'LOCKED' | 'UNLOCKED' | 'FORCED_OPEN' | 'HELD_OPEN' | 'FAULT'
+    lastStatusChange?: string
+    online?: boolean
+    batteryLevel?: number
+    signalStrength?: number
+  }
+  maintenanceSchedule?: {
+    frequency: 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY'
+    lastMaintenance?: string
+    nextMaintenance?: string
+  }
+  isActive?: boolean
+  metadata?: Record<string, unknown>
+}
+
+export interface ControlAccessPointBody {
+  action: 'LOCK' | 'UNLOCK' | 'EMERGENCY_OPEN' | 'RESET' | 'RESTART'
+  duration?: number
+  reason?: string
+}
+
+export interface GrantAccessBody {
+  userId?: string
+  visitorId?: string
+  duration?: number
+  reason?: string
+  override?: boolean
+}
+
+export interface ListBookingsQuery {
+  page?: number
+  limit?: number
+  search?: string
+  spaceId?: string
+  userId?: string
+  status?: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW' | 'CHECKED_IN' | 'CHECKED_OUT'
+  type?: 'SPACE_ONLY' | 'SPACE_WITH_SERVICES' | 'SERVICES_ONLY' | 'PACKAGE' | 'RECURRING' | 'EVENT'
+  startDate?: string
+  endDate?: string
+  isRecurring?: boolean
+  sortBy?: 'startTime' | 'endTime' | 'title' | 'status' | 'totalAmount' | 'createdAt' | 'updatedAt'
+  sortOrder?: 'asc' | 'desc'
+}
+
+export interface GetBookingConflictsQuery {
+  spaceId: string
+  startTime: string
+  endTime: string
+  excludeBookingId?: string
+}
+
+export interface ListSpacesQuery {
+  page?: number
+  limit?: number
+  search?: string
+  type?: 'MEETING_ROOM' | 'CONFERENCE_ROOM' | 'PHONE_BOOTH' | 'EVENT_SPACE' | 'COMMON_AREA' | 'KITCHEN' | 'LOUNGE' | 'DESK_AREA'
+  status?: 'AVAILABLE' | 'OCCUPIED' | 'MAINTENANCE' | 'OUT_OF_ORDER' | 'RESERVED' | 'UNAVAILABLE'
+  isActive?: boolean
+  sortBy?: 'name' | 'type' | 'capacity' | 'basePrice' | 'createdAt' | 'updatedAt'
+  sortOrder?: 'asc' | 'desc'
+  /** Minimum capacity */
+  capacity?: number
+  minPrice?: number
+  maxPrice?: number
+}
+
+export interface GetSpaceAvailabilityQuery {
+  startTime: string
+  endTime: string
+  excludeBookingId?: string
+}
+
+export interface ListResourcesQuery {
+  page?: number
+  limit?: number
+  search?: string
+  type?: 'EQUIPMENT' | 'AMENITY' | 'VEHICLE' | 'ROOM_FEATURE' | 'TECHNOLOGY' | 'FURNITURE' | 'CONSUMABLE' | 'TOOL' | 'SAFETY_EQUIPMENT' | 'CLEANING_SUPPLY' | 'OFFICE_SUPPLY' | 'OTHER'
+  status?: 'AVAILABLE' | 'IN_USE' | 'RESERVED' | 'MAINTENANCE' | 'OUT_OF_ORDER' | 'DISCONTINUED' | 'LOST_DAMAGED'
+  condition?: 'EXCELLENT' | 'GOOD' | 'FAIR' | 'POOR' | 'NEEDS_REPAIR' | 'DAMAGED'
+  spaceId?: string
+  isBookable?: boolean
+  isActive?: boolean
+  tags?: Array<string>
+  sortBy?: 'name' | 'type' | 'status' | 'condition' | 'purchaseDate' | 'createdAt' | 'updatedAt'
+  sortOrder?: 'asc' | 'desc'
+}
+
+export interface ListVisitorsQuery {
+  page?: number
+  limit?: number
+  search?: string
+  type?: 'GUEST' | 'CLIENT_VISITOR' | 'DELIVERY' | 'CONTRACTOR' | 'INTERVIEW' | 'EVENT_ATTENDEE' | 'VENDOR' | 'MAINTENANCE' | 'GOVERNMENT' | 'OTHER'
+  status?: 'PRE_REGISTERED' | 'REGISTERED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW' | 'BLACKLISTED'
+  purpose?: 'MEETING' | 'DELIVERY' | 'SERVICE' | 'INTERVIEW' | 'EVENT' | 'TOUR' | 'PERSONAL' | 'OTHER'
+  hostUserId?: string
+  clientId?: string
+  dateFrom?: string
+  dateTo?: string
+  isBlacklisted?: boolean
+  isRecurring?: boolean
+  sortBy?: 'firstName' | 'lastName' | 'company' | 'expectedArrival' | 'actualArrival' | 'createdAt' | 'updatedAt'
+  sortOrder?: 'asc' | 'desc'
+}
+
+export interface ListAccessPointsQuery {
+  page?: number
+  limit?: number
+  search?: string
+  type?: 'MAIN_ENTRANCE' | 'SIDE_ENTRANCE' | 'EMERGENCY_EXIT' | 'PARKING_GATE' | 'ELEVATOR' | 'FLOOR_ACCESS' | 'ROOM_DOOR' | 'TURNSTILE' | 'BARRIER'
+  status?: 'ACTIVE' | 'INACTIVE' | 'MAINTENANCE' | 'EMERGENCY_OPEN' | 'LOCKED_DOWN' | 'FAULT'
+  building?: string
+  floor?: string
+  isActive?: boolean
+  sortBy?: 'name' | 'type' | 'status' | 'location' | 'createdAt'
+  sortOrder?: 'asc' | 'desc'
+}
+
+export interface GetAccessAnalyticsQuery {
+  startDate?: string
+  endDate?: string
+  groupBy?: 'hour' | 'day' | 'week' | 'month' | 'accessPoint' | 'user' | 'method' | 'type'
+  accessPointIds?: Array<string>
+  includeVisitors?: boolean
+}
+
+export function createApiV1Client(fetcher: ApiFetcher) {
+  return {
+    /** List bookings with filtering and pagination */
+    listBookings: <T = unknown>(query: ListBookingsQuery = {}) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/bookings', { query }),
+
+    /** Create a new booking */
+    createBooking: <T = unknown>(body: CreateBookingBody) =>
+      requestApi<T>(fetcher, 'POST', '/api/v1/bookings', { body }),
+
+    /** Get a booking by ID */
+    getBooking: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'GET', `/api/v1/bookings/${encodeURIComponent(id)}`),
+
+    /** Update a booking */
+    updateBooking: <T = unknown>(id: string, body: UpdateBookingBody = {}) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/bookings/${encodeURIComponent(id)}`, { body }),
+
+    /** Cancel a booking */
+    cancelBooking: <T = unknown>(id: string, body: CancelBookingBody = {}) =>
+      requestApi<T>(fetcher, 'DELETE', `/api/v1/bookings/${encodeURIComponent(id)}`, { body }),
+
+    /** Get the bookings that overlap a time range of a space */
+    getBookingConflicts: <T = unknown>(query: GetBookingConflictsQuery) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/bookings/conflicts', { query }),
+
+    /** Check a time range of a space for conflicting bookings */
+    checkBookingConflicts: <T = unknown>(body: CheckBookingConflictsBody) =>
+      requestApi<T>(fetcher, 'POST', '/api/v1/bookings/conflicts', { body }),
+
+    /** List spaces with filtering and pagination */
+    listSpaces: <T = unknown>(query: ListSpacesQuery = {}) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/spaces', { query }),
+
+    /** Create a new space */
+    createSpace: <T = unknown>(body: CreateSpaceBody) =>
+      requestApi<T>(fetcher, 'POST', '/api/v1/spaces', { body }),
+
+    /** Get a space by ID */
+    getSpace: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'GET', `/api/v1/spaces/${encodeURIComponent(id)}`),
+
+    /** Update a space */
+    updateSpace: <T = unknown>(id: string, body: UpdateSpaceBody = {}) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/spaces/${encodeURIComponent(id)}`, { body }),
+
+    /** Delete a space */
+    deleteSpace: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'DELETE', `/api/v1/spaces/${encodeURIComponent(id)}`),
+
+    /** Get the availability of a space for a time range */
+    getSpaceAvailability: <T = unknown>(id: string, query: GetSpaceAvailabilityQuery) =>
+      requestApi<T>(fetcher, 'GET', `/api/v1/spaces/${encodeURIComponent(id)}/availability`, { query }),
+
+    /** Check whether a space is available for a time range */
+    checkSpaceAvailability: <T = unknown>(id: string, body: CheckSpaceAvailabilityBody) =>
+      requestApi<T>(fetcher, 'POST', `/api/v1/spaces/${encodeURIComponent(id)}/availability`, { body }),
+
+    /** List resources with filtering and pagination */
+    listResources: <T = unknown>(query: ListResourcesQuery = {}) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/resources', { query }),
+
+    /** Create a new resource */
+    createResource: <T = unknown>(body: CreateResourceBody) =>
+      requestApi<T>(fetcher, 'POST', '/api/v1/resources', { body }),
+
+    /** Get a resource by ID */
+    getResource: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'GET', `/api/v1/resources/${encodeURIComponent(id)}`),
+
+    /** Update a resource */
+    updateResource: <T = unknown>(id: string, body: UpdateResourceBody = {}) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/resources/${encodeURIComponent(id)}`, { body }),
+
+    /** Delete a resource */
+    deleteResource: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'DELETE', `/api/v1/resources/${encodeURIComponent(id)}`),
+
+    /** Check out a resource */
+    checkoutResource: <T = unknown>(id: string, body: CheckoutResourceBody = {}) =>
+      requestApi<T>(fetcher, 'POST', `/api/v1/resources/${encodeURIComponent(id)}/checkout`, { body }),
+
+    /** Check a resource back in */
+    checkinResource: <T = unknown>(id: string, body: CheckinResourceBody) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/resources/${encodeURIComponent(id)}/checkout`, { body }),
+
+    /** List visitors with filtering and pagination */
+    listVisitors: <T = unknown>(query: ListVisitorsQuery = {}) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/visitors', { query }),
+
+    /** Register a new visitor */
+    createVisitor: <T = unknown>(body: CreateVisitorBody) =>
+      requestApi<T>(fetcher, 'POST', '/api/v1/visitors', { body }),
+
+    /** Get a visitor by ID */
+    getVisitor: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'GET', `/api/v1/visitors/${encodeURIComponent(id)}`),
+
+    /** Update a visitor */
+    updateVisitor: <T = unknown>(id: string, body: UpdateVisitorBody = {}) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/visitors/${encodeURIComponent(id)}`, { body }),
+
+    /** Cancel a visit */
+    cancelVisitor: <T = unknown>(id: string) =>
+      requestApi<T>(fetcher, 'DELETE', `/api/v1/visitors/${encodeURIComponent(id)}`),
+
+    /** Check a visitor in */
+    checkInVisitor: <T = unknown>(id: string, body: CheckInVisitorBody = {}) =>
+      requestApi<T>(fetcher, 'POST', `/api/v1/visitors/${encodeURIComponent(id)}/checkin`, { body }),
+
+    /** Check a visitor out */
+    checkOutVisitor: <T = unknown>(id: string, body: CheckOutVisitorBody = {}) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/visitors/${encodeURIComponent(id)}/checkin`, { body }),
+
+    /** List access points with filtering and pagination */
+    listAccessPoints: <T = unknown>(query: ListAccessPointsQuery = {}) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/access-control/points', { query }),
+
+    /** Create a new access point */
+    createAccessPoint: <T = unknown>(body: CreateAccessPointBody) =>
+      requestApi<T>(fetcher, 'POST', '/api/v1/access-control/points', { body }),
+
+    /** Lock, unlock or reset an access point */
+    controlAccessPoint: <T = unknown>(id: string, body: ControlAccessPointBody) =>
+      requestApi<T>(fetcher, 'POST', `/api/v1/access-control/points/${encodeURIComponent(id)}/control`, { body }),
+
+    /** Grant a user or visitor access through an access point */
+    grantAccess: <T = unknown>(id: string, body: GrantAccessBody = {}) =>
+      requestApi<T>(fetcher, 'PUT', `/api/v1/access-control/points/${encodeURIComponent(id)}/control`, { body }),
+
+    /** Get access analytics for a period */
+    getAccessAnalytics: <T = unknown>(query: GetAccessAnalyticsQuery = {}) =>
+      requestApi<T>(fetcher, 'GET', '/api/v1/access-control/analytics', { query }),
+  }
+}
+
+export type ApiV1Client = ReturnType<typeof createApiV1Client>
@@ -1,5 +1,6 @@
 import { currentUser } from '@clerk/nextjs/server'
 import { db } from '@/lib/db'
+import { getApiKeyContext } from '@/lib/server/api-key-context'
 
 // Client-side auth types and interfaces
 export type { AuthUser, UserRole } from "@/types/database";
@@ -22,6 +23,17 @@ export interface TenantContext {
 // Helper function to get user with tenant info for server actions
 // For Super Admins, they can optionally pass a tenantId to operate on a specific cowork
 export async function getTenantContext(targetTenantId?: string): Promise<TenantContext> {
+  // REST API requests made with an API key act as the user that created the key
+  const apiKeyContext = getApiKeyContext()
+  if (apiKeyContext) {
+    return {
+      user: apiKeyContext.user,
+      tenantId: apiKeyContext.tenantId,
+      effectiveTenantId: apiKeyContext.tenantId,
+      isSuper: false
+    }
+  }
+
   const user = await currentUser()
   
   if (!user) {
@@ -0,0 +1,409 @@
+/**
+ * OpenAPI document of the REST API
+ * Lists the /api/v1 operations an API key can call with the Zod schemas behind each one. The
+ * contract test in __tests__/api/v1 checks this list against the route handlers.
+ */
+
+import { z } from 'zod'
+import {
+  buildOpenApiDocument,
+  type ApiOperationDefinition,
+  type OpenApiDocument,
+} from '@/lib/utils/openapi'
+import { getRequiredApiKeyScope } from '@/lib/utils/api-key'
+import {
+  checkBookingConflictsSchema,
+  createBookingSchema,
+  deleteBookingSchema,
+  getBookingSchema,
+  listBookingsSchema,
+  updateBookingSchema,
+} from '@/lib/validations/booking'
+import {
+  checkSpaceAvailabilitySchema,
+  createSpaceSchema,
+  getSpaceSchema,
+  listSpacesSchema,
+  updateSpaceSchema,
+} from '@/lib/validations/space'
+import {
+  checkinResourceSchema,
+  checkoutResourceSchema,
+  createResourceSchema,
+  getResourceSchema,
+  listResourcesSchema,
+  updateResourceSchema,
+} from '@/lib/validations/resource'
+import {
+  checkInVisitorSchema,
+  checkOutVisitorSchema,
+  createVisitorSchema,
+  getVisitorSchema,
+  listVisitorsSchema,
+  updateVisitorSchema,
+} from '@/lib/validations/visitor'
+import {
+  controlAccessPointSchema,
+  createAccessPointSchema,
+  getAccessAnalyticsSchema,
+  grantAccessSchema,
+  listAccessPointsSchema,
+} from '@/lib/validations/access-control'
+
+const bookingConflictsSchema = checkBookingConflictsSchema.innerType().omit({ includeSetupCleanup: true })
+const spaceAvailabilitySchema = checkSpaceAvailabilitySchema.innerType().omit({ spaceId: true })
+const accessPointParamsSchema = z.object({ id: controlAccessPointSchema.shape.id })
+
+// Ranges are sent as separate bounds instead of nested objects
+const listSpacesQuerySchema = listSpacesSchema
+  .omit({ capacity: true, priceRange: true, amenities: true, location: true })
+  .extend({
+    capacity: z.number().int().min(1).optional().describe('Minimum capacity'),
+    minPrice: z.number().min(0).optional(),
+    maxPrice: z.number().min(0).optional(),
+  })
+
+export const API_V1_OPERATIONS: ApiOperationDefinition[] = [
+  // Bookings
+  {
+    method: 'get',
+    path: '/api/v1/bookings',
+    operationId: 'listBookings',
+    summary: 'List bookings with filtering and pagination',
+    tag: 'Bookings',
+    query: listBookingsSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/bookings',
+    operationId: 'createBooking',
+    summary: 'Create a new booking',
+    tag: 'Bookings',
+    body: createBookingSchema,
+    created: true,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/bookings/{id}',
+    operationId: 'getBooking',
+    summary: 'Get a booking by ID',
+    tag: 'Bookings',
+    params: getBookingSchema,
+    notFound: true,
+  },
+  {
+    method: 'put',
+    path: '/api/v1/bookings/{id}',
+    operationId: 'updateBooking',
+    summary: 'Update a booking',
+    tag: 'Bookings',
+    params: getBookingSchema,
+    body: updateBookingSchema.omit({ id: true }),
+    notFound: true,
+  },
+  {
+    method: 'delete',
+    path: '/api/v1/bookings/{id}',
+    operationId: 'cancelBooking',
+    summary: 'Cancel a booking',
+    tag: 'Bookings',
+    params: getBookingSchema,
+    body: deleteBookingSchema.omit({ id: true, refundMethod: true }),
+    notFound: true,
+    response: 'message',
+  },
+  {
+    method: 'get',
+    path: '/api/v1/bookings/conflicts',
+    operationId: 'getBookingConflicts',
+    summary: 'Get the bookings that overlap a time range of a space',
+    tag: 'Bookings',
+    query: bookingConflictsSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/bookings/conflicts',
+    operationId: 'checkBookingConflicts',
+    summary: 'Check a time range of a space for conflicting bookings',
+    tag: 'Bookings',
+    scope: 'bookings:read',
+    body: bookingConflictsSchema,
+  },
+
+  // Spaces
+  {
+    method: 'get',
+    path: '/api/v1/spaces',
+    operationId: 'listSpaces',
+    summary: 'List spaces with filtering and pagination',
+    tag: 'Spaces',
+    query: listSpacesQuerySchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/spaces',
+    operationId: 'createSpace',
+    summary: 'Create a new space',
+    tag: 'Spaces',
+    body: createSpaceSchema,
+    created: true,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/spaces/{id}',
+    operationId: 'getSpace',
+    summary: 'Get a space by ID',
+    tag: 'Spaces',
+    params: getSpaceSchema,
+    notFound: true,
+  },
+  {
+    method: 'put',
+    path: '/api/v1/spaces/{id}',
+    operationId: 'updateSpace',
+    summary: 'Update a space',
+    tag: 'Spaces',
+    params: getSpaceSchema,
+    body: updateSpaceSchema.omit({ id: true }),
+    notFound: true,
+  },
+  {
+    method: 'delete',
+    path: '/api/v1/spaces/{id}',
+    operationId: 'deleteSpace',
+    summary: 'Delete a space',
+    tag: 'Spaces',
+    params: getSpaceSchema,
+    notFound: true,
+    response: 'message',
+  },
+  {
+    method: 'get',
+    path: '/api/v1/spaces/{id}/availability',
+    operationId: 'getSpaceAvailability',
+    summary: 'Get the availability of a space for a time range',
+    tag: 'Spaces',
+    params: getSpaceSchema,
+    query: spaceAvailabilitySchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/spaces/{id}/availability',
+    operationId: 'checkSpaceAvailability',
+    summary: 'Check whether a space is available for a time range',
+    tag: 'Spaces',
+    scope: 'spaces:read',
+    params: getSpaceSchema,
+    body: spaceAvailabilitySchema,
+  },
+
+  // Resources
+  {
+    method: 'get',
+    path: '/api/v1/resources',
+    operationId: 'listResources',
+    summary: 'List resources with filtering and pagination',
+    tag: 'Resources',
+    query: listResourcesSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/resources',
+    operationId: 'createResource',
+    summary: 'Create a new resource',
+    tag: 'Resources',
+    body: createResourceSchema,
+    created: true,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/resources/{id}',
+    operationId: 'getResource',
+    summary: 'Get a resource by ID',
+    tag: 'Resources',
+    params: getResourceSchema,
+    notFound: true,
+  },
+  {
+    method: 'put',
+    path: '/api/v1/resources/{id}',
+    operationId: 'updateResource',
+    summary: 'Update a resource',
+    tag: 'Resources',
+    params: getResourceSchema,
+    body: updateResourceSchema.omit({ id: true }),
+    notFound: true,
+  },
+  {
+    method: 'delete',
+    path: '/api/v1/resources/{id}',
+    operationId: 'deleteResource',
+    summary: 'Delete a resource',
+    tag: 'Resources',
+    params: getResourceSchema,
+    notFound: true,
+    response: 'message',
+  },
+  {
+    method: 'post',
+    path: '/api/v1/resources/{id}/checkout',
+    operationId: 'checkoutResource',
+    summary: 'Check out a resource',
+    tag: 'Resources',
+    params: getResourceSchema,
+    body: checkoutResourceSchema.omit({ resourceId: true }),
+  },
+  {
+    method: 'put',
+    path: '/api/v1/resources/{id}/checkout',
+    operationId: 'checkinResource',
+    summary: 'Check a resource back in',
+    tag: 'Resources',
+    params: getResourceSchema,
+    body: checkinResourceSchema.omit({ resourceId: true }),
+  },
+
+  // Visitors
+  {
+    method: 'get',
+    path: '/api/v1/visitors',
+    operationId: 'listVisitors',
+    summary: 'List visitors with filtering and pagination',
+    tag: 'Visitors',
+    query: listVisitorsSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/visitors',
+    operationId: 'createVisitor',
+    summary: 'Register a new visitor',
+    tag: 'Visitors',
+    body: createVisitorSchema,
+    created: true,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/visitors/{id}',
+    operationId: 'getVisitor',
+    summary: 'Get a visitor by ID',
+    tag: 'Visitors',
+    params: getVisitorSchema,
+    notFound: true,
+  },
+  {
+    method: 'put',
+    path: '/api/v1/visitors/{id}',
+    operationId: 'updateVisitor',
+    summary: 'Update a visitor',
+    tag: 'Visitors',
+    params: getVisitorSchema,
+    body: updateVisitorSchema.omit({ id: true }),
+    notFound: true,
+  },
+  {
+    method: 'delete',
+    path: '/api/v1/visitors/{id}',
+    operationId: 'cancelVisitor',
+    summary: 'Cancel a visit',
+    tag: 'Visitors',
+    params: getVisitorSchema,
+    notFound: true,
+    response: 'message',
+  },
+  {
+    method: 'post',
+    path: '/api/v1/visitors/{id}/checkin',
+    operationId: 'checkInVisitor',
+    summary: 'Check a visitor in',
+    tag: 'Visitors',
+    params: getVisitorSchema,
+    body: checkInVisitorSchema.omit({ id: true }),
+  },
+  {
+    method: 'put',
+    path: '/api/v1/visitors/{id}/checkin',
+    operationId: 'checkOutVisitor',
+    summary: 'Check a visitor out',
+    tag: 'Visitors',
+    params: getVisitorSchema,
+    body: checkOutVisitorSchema.omit({ id: true }),
+  },
+
+  // Access control
+  {
+    method: 'get',
+    path: '/api/v1/access-control/points',
+    operationId: 'listAccessPoints',
+    summary: 'List access points with filtering and pagination',
+    tag: 'Access control',
+    query: listAccessPointsSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/access-control/points',
+    operationId: 'createAccessPoint',
+    summary: 'Create a new access point',
+    tag: 'Access control',
+    body: createAccessPointSchema,
+    created: true,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/access-control/points/{id}/control',
+    operationId: 'controlAccessPoint',
+    summary: 'Lock, unlock or reset an access point',
+    tag: 'Access control',
+    params: accessPointParamsSchema,
+    body: controlAccessPointSchema.omit({ id: true }),
+  },
+  {
+    method: 'put',
+    path: '/api/v1/access-control/points/{id}/control',
+    operationId: 'grantAccess',
+    summary: 'Grant a user or visitor access through an access point',
+    tag: 'Access control',
+    params: accessPointParamsSchema,
+    body: grantAccessSchema.omit({ accessPointId: true }),
+  },
+  {
+    method: 'get',
+    path: '/api/v1/access-control/analytics',
+    operationId: 'getAccessAnalytics',
+    summary: 'Get access analytics for a period',
+    tag: 'Access control',
+    query: getAccessAnalyticsSchema,
+  },
+]
+
+/**
+ * The operations with the API key scope each one needs: the one worked out from the path and
+ * method unless the route sets its own
+ */
+export function getApiV1Operations(): ApiOperationDefinition[] {
+  return API_V1_OPERATIONS.map((operation) => ({
+    ...operation,
+    scope: operation.scope ?? getRequiredApiKeyScope(operation.path, operation.method) ?? undefined,
+  }))
+}
+
+export function getApiV1Document(serverUrl?: string): OpenApiDocument {
+  return buildOpenApiDocument(
+    {
+      title: 'SweetSpot Cowork API',
+      version: '1.0.0',
+      description:
+        'REST API for bookings, spaces, resources, visitors and access control. Authenticate with an ' +
+        'API key created under Integrations > API Keys, sent as Authorization: Bearer <key>. Dates ' +
+        'are ISO 8601 strings.',
+      serverUrl,
+      tags: [
+        { name: 'Bookings' },
+        { name: 'Spaces' },
+        { name: 'Resources' },
+        { name: 'Visitors' },
+        { name: 'Access control' },
+      ],
+    },
+    getApiV1Operations()
+  )
+}
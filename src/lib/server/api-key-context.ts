@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { ApiKeyContext } from '@/services/api-key.service'
+
+const apiKeyStorage = new AsyncLocalStorage<ApiKeyContext>()
+
+/**
+ * Key the current request was authenticated with, when it came in through the REST API with
+ * an API key instead of a session
+ */
+export function getApiKeyContext(): ApiKeyContext | null {
+  return apiKeyStorage.getStore() ?? null
+}
+
+export function runWithApiKeyContext<T>(context: ApiKeyContext, callback: () => T): T {
+  return apiKeyStorage.run(context, callback)
+}
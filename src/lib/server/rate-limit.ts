@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import prisma from '@/lib/server/prisma'
+import { RateLimitService, type RateLimitRequest } from '@/services/rate-limit.service'
+import { getClientIp } from '@/lib/utils/api-key'
+import {
+  getRateLimitHeaders,
+  getRateLimitRoute,
+  type RateLimitPolicy,
+  type RateLimitResult,
+} from '@/lib/utils/rate-limit'
+import { getApiKeyContext } from './api-key-context'
+
+/**
+ * Wrap a public route handler with the policy's rate limit. Requests are counted per route and
+ * per API key, per signed-in user or per address, in that order, and get RateLimit-* headers;
+ * the ones over the limit are answered with a 429 without reaching the handler.
+ */
+export function withRateLimit<C>(
+  policy: RateLimitPolicy,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const limitRequest = await resolveRateLimitRequest(policy, request)
+    const result = await RateLimitService.getInstance().limit(limitRequest)
+
+    if (!result) return handler(request, context)
+
+    const headers = getRateLimitHeaders(result)
+
+    if (!result.allowed) {
+      return tooManyRequests(headers)
+    }
+
+    const response = await handler(request, context)
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value)
+    }
+
+    return response
+  }
+}
+
+/**
+ * Count a request against the policy per address alone, for checks that run before the caller
+ * is known. Returns the 429 to answer with when the address is over the limit.
+ */
+export async function limitByIp(policy: RateLimitPolicy, request: NextRequest): Promise<Response | null> {
+  const result = await checkIpRateLimit(policy, request.headers, request.nextUrl.pathname)
+  return result && !result.allowed ? tooManyRequests(getRateLimitHeaders(result)) : null
+}
+
+/**
+ * Count a request against the policy per address alone. Server actions, which have no request
+ * object, pass the headers of the call.
+ */
+export async function checkIpRateLimit(
+  policy: RateLimitPolicy,
+  headers: Headers,
+  path?: string
+): Promise<RateLimitResult | null> {
+  const ip = getClientIp(headers)
+  return RateLimitService.getInstance().limit({
+    policy,
+    subject: `ip:${ip || 'unknown'}`,
+    ip,
+    userAgent: headers.get('user-agent'),
+    path,
+  })
+}
+
+function tooManyRequests(headers: Record<string, string>): Response {
+  return NextResponse.json(
+    { success: false, error: 'Too many requests, try again later' },
+    { status: 429, headers }
+  )
+}
+
+async function resolveRateLimitRequest(policy: RateLimitPolicy, request: NextRequest): Promise<RateLimitRequest> {
+  const ip = getClientIp(request.headers)
+  const base = {
+    policy,
+    ip,
+    userAgent: request.headers.get('user-agent'),
+    route: getRateLimitRoute(request.method, request.nextUrl.pathname),
+    path: request.nextUrl.pathname,
+  }
+
+  const apiKey = getApiKeyContext()
+  if (apiKey) {
+    return {
+      ...base,
+      subject: `key:${apiKey.apiKeyId}`,
+      tenantId: apiKey.tenantId,
+      userId: apiKey.user.id,
+      apiKeyId: apiKey.apiKeyId,
+      rule: apiKey.rateLimitPerMinute ? { limit: apiKey.rateLimitPerMinute, windowSeconds: 60 } : null,
+    }
+  }
+
+  // Invitations are accepted before the user belongs to a tenant, so they are limited per address
+  if (policy !== 'invitation-accept') {
+    const { userId: clerkId } = await auth()
+    const user = clerkId
+      ? await prisma.user.findUnique({ where: { clerkId }, select: { id: true, tenantId: true } })
+      : null
+
+    if (user) {
+      return {
+        ...base,
+        subject: `user:${user.id}`,
+        tenantId: user.tenantId,
+        userId: user.id,
+      }
+    }
+  }
+
+  return { ...base, subject: `ip:${ip || 'unknown'}` }
+}
@@ -0,0 +1,138 @@
+/**
+ * API key utilities
+ * Generation, hashing and the scope and IP checks of the keys integrators use on /api/v1
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { BlockList, isIP } from 'net'
+import { ApiKeyScopeSchema, type ApiKeyScope } from '@/lib/validations/integration'
+
+export interface GeneratedApiKey {
+  key: string
+  prefix: string
+  keyHash: string
+}
+
+const API_KEY_PREFIX = 'sk_'
+
+// Characters of the key kept in clear to tell keys apart in the admin
+const VISIBLE_KEY_LENGTH = API_KEY_PREFIX.length + 8
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+
+  return {
+    key,
+    prefix: key.slice(0, VISIBLE_KEY_LENGTH),
+    keyHash: hashApiKey(key),
+  }
+}
+
+/**
+ * Keys are only stored as a SHA-256 hash; they are long and random, so no salt is needed
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+export function parseBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i)
+  return match ? match[1] : null
+}
+
+/**
+ * Whether a bearer token is one of our API keys rather than a session token, which the
+ * frontend also sends as a bearer token
+ */
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX)
+}
+
+/**
+ * Address of the caller, taken from the proxy headers the platform sets. Clients can send
+ * their own X-Forwarded-For, so only the entry appended by the proxy in front of us, the
+ * last one, is trusted; x-real-ip, which Vercel sets itself, takes precedence.
+ */
+export function getClientIp(headers: Headers): string | null {
+  const realIp = headers.get('x-real-ip')?.trim()
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  return normalizeIp(realIp || forwardedFor || null)
+}
+
+/**
+ * Whether a value is an address or a CIDR range that can go on a key's allow-list
+ */
+export function isValidIpRange(value: string): boolean {
+  const [address, bits, ...rest] = value.split('/')
+  const version = isIP(address)
+
+  if (!version || rest.length > 0) return false
+  if (bits === undefined) return true
+
+  const prefixLength = Number(bits)
+  return /^\d+$/.test(bits) && prefixLength <= (version === 4 ? 32 : 128)
+}
+
+/**
+ * Whether the caller's address is on the allow-list. An empty list allows any address.
+ */
+export function isIpAllowed(ip: string | null, allowedIps: string[]): boolean {
+  if (allowedIps.length === 0) return true
+
+  const address = normalizeIp(ip)
+  if (!address) return false
+
+  const version = isIP(address)
+  const blockList = new BlockList()
+
+  for (const range of allowedIps) {
+    if (!isValidIpRange(range)) continue
+
+    const [rangeAddress, bits] = range.split('/')
+    const rangeType = isIP(rangeAddress) === 4 ? 'ipv4' : 'ipv6'
+
+    if (bits === undefined) {
+      blockList.addAddress(rangeAddress, rangeType)
+    } else {
+      blockList.addSubnet(rangeAddress, Number(bits), rangeType)
+    }
+  }
+
+  return blockList.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Scope a request to the REST API needs: the resource is the first segment after /api/v1,
+ * read for safe methods and write for everything else. Null when no scope covers the path.
+ */
+export function getRequiredApiKeyScope(pathname: string, method: string): ApiKeyScope | null {
+  const resource = pathname.match(/^\/api\/v1\/([^/]+)/)?.[1]
+  if (!resource) return null
+
+  const access = READ_METHODS.includes(method.toUpperCase()) ? 'read' : 'write'
+  const scope = ApiKeyScopeSchema.safeParse(`${resource}:${access}`)
+
+  return scope.success ? scope.data : null
+}
+
+/**
+ * Write access to a resource includes reading it
+ */
+export function hasApiKeyScope(scopes: string[], required: ApiKeyScope): boolean {
+  if (scopes.includes(required)) return true
+
+  const [resource, access] = required.split(':')
+  return access === 'read' && scopes.includes(`${resource}:write`)
+}
+
+function normalizeIp(ip: string | null): string | null {
+  if (!ip) return null
+
+  // IPv4 clients can show up as IPv4-mapped IPv6 addresses
+  const mapped = ip.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i)
+  const address = mapped ? mapped[1] : ip
+
+  return isIP(address) ? address : null
+}
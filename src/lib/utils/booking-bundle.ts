@@ -0,0 +1,33 @@
+/**
+ * Booking bundle utilities
+ * Splits a bundle request into the booking of each space and adds up the bundle total
+ */
+
+export interface BundleBookingRequest<TService> {
+  spaceId: string
+  services: TService[]
+  discountCode?: string
+}
+
+/**
+ * One booking per space, in the requested order. The services and the discount code are
+ * reserved once for the whole bundle, so they go with the first space only.
+ */
+export function splitBundleRequest<TService>(
+  spaceIds: string[],
+  services: TService[],
+  discountCode?: string
+): BundleBookingRequest<TService>[] {
+  return spaceIds.map((spaceId, index) => ({
+    spaceId,
+    services: index === 0 ? services : [],
+    discountCode: index === 0 ? discountCode : undefined,
+  }))
+}
+
+/**
+ * Total of a bundle: the sum of the cost of its bookings
+ */
+export function getBundleCost(bookings: Array<{ total: number }>): number {
+  return Math.round(bookings.reduce((sum, booking) => sum + booking.total, 0) * 100) / 100
+}
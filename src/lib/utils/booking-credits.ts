@@ -0,0 +1,120 @@
+/**
+ * Meeting-room credit utilities for membership plans
+ * Works out the billing period a booking falls in, how many unused credits roll
+ * over into the next period and how much of a booking the credits cover
+ */
+
+import { addDays, addWeeks, differenceInMinutes, getDaysInMonth, startOfDay, subDays } from 'date-fns'
+
+export type BookingCreditUnit = 'HOURS' | 'CURRENCY'
+export type CreditBillingCycle = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY'
+
+export interface CreditCycleConfig {
+  cycle: CreditBillingCycle
+  dayOfMonth?: number | null // Monthly, quarterly and yearly periods start on this day (1-31)
+  dayOfWeek?: number | null // Weekly periods start on this day (0=Sunday, 6=Saturday)
+}
+
+export interface CreditPeriod {
+  start: Date
+  end: Date // Exclusive
+}
+
+export interface CreditBalanceSnapshot {
+  granted: number
+  rolledOver: number
+  used: number
+}
+
+export interface CreditAllocation {
+  credits: number // Credits consumed, in the plan unit
+  coveredAmount: number // Part of the booking cost paid with credits
+  overageAmount: number // Part of the booking cost still to be charged
+}
+
+const CYCLE_MONTHS: Record<string, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+}
+
+/**
+ * Billing period that contains a date. Quarterly and yearly periods follow the calendar
+ * quarters and year, starting on the configured day of the month.
+ */
+export function getCreditPeriod(date: Date, config: CreditCycleConfig): CreditPeriod {
+  if (config.cycle === 'DAILY') {
+    const start = startOfDay(date)
+    return { start, end: addDays(start, 1) }
+  }
+
+  if (config.cycle === 'WEEKLY') {
+    const dayOfWeek = config.dayOfWeek ?? 1
+    const start = subDays(startOfDay(date), (date.getDay() - dayOfWeek + 7) % 7)
+    return { start, end: addWeeks(start, 1) }
+  }
+
+  const step = CYCLE_MONTHS[config.cycle] || 1
+  const day = config.dayOfMonth || 1
+  const anchor = (year: number, month: number) => {
+    const first = new Date(year, month, 1)
+    return new Date(first.getFullYear(), first.getMonth(), Math.min(day, getDaysInMonth(first)))
+  }
+
+  let month = date.getMonth() - (date.getMonth() % step)
+  if (date < anchor(date.getFullYear(), month)) {
+    month -= step
+  }
+
+  return {
+    start: anchor(date.getFullYear(), month),
+    end: anchor(date.getFullYear(), month + step),
+  }
+}
+
+/**
+ * Credits carried into a new period: what was left unused, capped at the plan rollover.
+ * Without a rollover limit the balance resets every period.
+ */
+export function getRolloverCredits(previous: CreditBalanceSnapshot | null, maxRollover: number | null): number {
+  if (!previous || maxRollover === null || maxRollover <= 0) {
+    return 0
+  }
+
+  const remaining = Math.max(0, previous.granted + previous.rolledOver - previous.used)
+  return roundCredits(Math.min(remaining, maxRollover))
+}
+
+/**
+ * Credits still available in a balance
+ */
+export function getAvailableCredits(balance: CreditBalanceSnapshot): number {
+  return roundCredits(Math.max(0, balance.granted + balance.rolledOver - balance.used))
+}
+
+/**
+ * Cover a booking with the available credits. Hour credits cover the booking time and
+ * the matching share of its cost; currency credits cover the cost directly.
+ */
+export function allocateBookingCredits(
+  available: number,
+  unit: BookingCreditUnit,
+  booking: { startTime: Date; endTime: Date; amount: number }
+): CreditAllocation {
+  const amount = Math.max(0, booking.amount)
+  const needed = unit === 'HOURS'
+    ? Math.max(0, differenceInMinutes(booking.endTime, booking.startTime) / 60)
+    : amount
+  const credits = roundCredits(Math.min(Math.max(0, available), needed))
+
+  const coveredAmount = needed > 0 ? roundCredits(amount * credits / needed) : 0
+  return {
+    credits,
+    coveredAmount,
+    overageAmount: roundCredits(amount - coveredAmount),
+  }
+}
+
+function roundCredits(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,243 @@
+/**
+ * Booking policy validation for spaces
+ * Checks opening hours, advance booking window, duration limits, maintenance
+ * windows and cancellation notice, returning structured, localized violations
+ */
+
+import { differenceInMinutes } from 'date-fns'
+import type { Language } from '@/lib/i18n'
+import { formatZonedDateTime, getZonedMinutesOfDay, getZonedParts } from './time-zone'
+
+export type BookingPolicyViolationCode =
+  | 'START_IN_PAST'
+  | 'TOO_FAR_IN_ADVANCE'
+  | 'DURATION_TOO_SHORT'
+  | 'DURATION_TOO_LONG'
+  | 'SPACE_CLOSED'
+  | 'OUTSIDE_OPENING_HOURS'
+  | 'SPACE_UNAVAILABLE'
+  | 'MAINTENANCE_WINDOW'
+  | 'RECURRING_NOT_ALLOWED'
+  | 'CANCELLATION_TOO_LATE'
+
+export interface BookingPolicyViolation {
+  code: BookingPolicyViolationCode
+  field: 'startTime' | 'endTime' | 'recurrence' | 'status'
+  message: string
+  params?: Record<string, string | number>
+}
+
+export interface OpeningHoursWindow {
+  dayOfWeek: number // 0 = Sunday, 6 = Saturday
+  startTime: string // "09:00"
+  endTime: string // "18:00"
+}
+
+export interface UnavailableWindow extends OpeningHoursWindow {
+  reason?: string | null
+}
+
+export interface MaintenanceWindow {
+  id: string
+  title: string
+  startTime: Date
+  endTime: Date
+}
+
+export interface BookingPolicyConfig {
+  maxAdvanceBookingDays: number
+  minBookingDuration: number // minutes
+  maxBookingDuration?: number | null // minutes, null = no limit
+  cancellationHours: number
+  allowRecurring: boolean
+  openingHours: OpeningHoursWindow[] // Empty = open at any time
+  unavailableWindows: UnavailableWindow[]
+  maintenanceWindows: MaintenanceWindow[]
+  timeZone?: string | null // Tenant time zone opening hours are given in, server local time when not set
+}
+
+export interface ValidateBookingOptions {
+  now?: Date
+  isRecurring?: boolean
+}
+
+const POLICY_MESSAGES: Record<Language, Record<BookingPolicyViolationCode, string>> = {
+  es: {
+    START_IN_PAST: 'La reserva no puede comenzar en el pasado',
+    TOO_FAR_IN_ADVANCE: 'Este espacio solo se puede reservar con hasta {days} días de anticipación',
+    DURATION_TOO_SHORT: 'La duración mínima de una reserva es de {minutes} minutos',
+    DURATION_TOO_LONG: 'La duración máxima de una reserva es de {minutes} minutos',
+    SPACE_CLOSED: 'El espacio no está disponible los {day}',
+    OUTSIDE_OPENING_HOURS: 'El horario del espacio los {day} es {hours}',
+    SPACE_UNAVAILABLE: 'El espacio no está disponible de {startTime} a {endTime}{reason}',
+    MAINTENANCE_WINDOW: 'El espacio tiene mantenimiento programado ({title}) del {startTime} al {endTime}',
+    RECURRING_NOT_ALLOWED: 'Este espacio no admite reservas recurrentes',
+    CANCELLATION_TOO_LATE: 'Las reservas de este espacio deben cancelarse con al menos {hours} horas de anticipación',
+  },
+  en: {
+    START_IN_PAST: 'Bookings cannot start in the past',
+    TOO_FAR_IN_ADVANCE: 'This space can only be booked up to {days} days in advance',
+    DURATION_TOO_SHORT: 'Bookings must last at least {minutes} minutes',
+    DURATION_TOO_LONG: 'Bookings can last at most {minutes} minutes',
+    SPACE_CLOSED: 'The space is not available on {day}',
+    OUTSIDE_OPENING_HOURS: 'Opening hours on {day} are {hours}',
+    SPACE_UNAVAILABLE: 'The space is not available from {startTime} to {endTime}{reason}',
+    MAINTENANCE_WINDOW: 'The space has scheduled maintenance ({title}) from {startTime} to {endTime}',
+    RECURRING_NOT_ALLOWED: 'This space does not allow recurring bookings',
+    CANCELLATION_TOO_LATE: 'Bookings for this space must be cancelled at least {hours} hours in advance',
+  },
+}
+
+const DAY_NAMES: Record<Language, string[]> = {
+  es: ['domingos', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábados'],
+  en: ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'],
+}
+
+export class BookingPolicyValidator {
+  constructor(
+    private config: BookingPolicyConfig,
+    private language: Language = 'es'
+  ) {}
+
+  /**
+   * Validate a booking slot against the space policy
+   */
+  validateBooking(startTime: Date, endTime: Date, options: ValidateBookingOptions = {}): BookingPolicyViolation[] {
+    const now = options.now || new Date()
+    const violations: BookingPolicyViolation[] = []
+
+    // Advance booking window
+    if (startTime < now) {
+      violations.push(this.violation('START_IN_PAST', 'startTime'))
+    } else if (differenceInMinutes(startTime, now) > this.config.maxAdvanceBookingDays * 24 * 60) {
+      violations.push(this.violation('TOO_FAR_IN_ADVANCE', 'startTime', { days: this.config.maxAdvanceBookingDays }))
+    }
+
+    // Duration limits
+    const duration = differenceInMinutes(endTime, startTime)
+    if (duration < this.config.minBookingDuration) {
+      violations.push(this.violation('DURATION_TOO_SHORT', 'endTime', { minutes: this.config.minBookingDuration }))
+    }
+    if (this.config.maxBookingDuration && duration > this.config.maxBookingDuration) {
+      violations.push(this.violation('DURATION_TOO_LONG', 'endTime', { minutes: this.config.maxBookingDuration }))
+    }
+
+    if (options.isRecurring && !this.config.allowRecurring) {
+      violations.push(this.violation('RECURRING_NOT_ALLOWED', 'recurrence'))
+    }
+
+    violations.push(...this.validateOpeningHours(startTime, endTime))
+
+    // Maintenance windows overlapping the slot
+    for (const window of this.config.maintenanceWindows) {
+      if (window.startTime < endTime && window.endTime > startTime) {
+        violations.push(this.violation('MAINTENANCE_WINDOW', 'startTime', {
+          title: window.title,
+          startTime: formatZonedDateTime(window.startTime, this.config.timeZone),
+          endTime: formatZonedDateTime(window.endTime, this.config.timeZone),
+        }))
+      }
+    }
+
+    return violations
+  }
+
+  /**
+   * Validate that a booking starting at the given time can still be cancelled
+   */
+  validateCancellation(startTime: Date, now: Date = new Date()): BookingPolicyViolation[] {
+    // Bookings that already started are handled by check-out, not cancellation notice
+    if (startTime <= now) {
+      return []
+    }
+
+    if (differenceInMinutes(startTime, now) < this.config.cancellationHours * 60) {
+      return [this.violation('CANCELLATION_TOO_LATE', 'status', { hours: this.config.cancellationHours })]
+    }
+
+    return []
+  }
+
+  /**
+   * The slot must fit in one opening window of its day and avoid unavailable periods.
+   * Days and hours are those of the tenant time zone.
+   */
+  private validateOpeningHours(startTime: Date, endTime: Date): BookingPolicyViolation[] {
+    const { dayOfWeek } = getZonedParts(startTime, this.config.timeZone)
+    const startMinutes = getZonedMinutesOfDay(startTime, this.config.timeZone)
+    const endMinutes = startMinutes + differenceInMinutes(endTime, startTime)
+    const violations: BookingPolicyViolation[] = []
+
+    if (this.config.openingHours.length > 0) {
+      const windows = this.config.openingHours
+        .filter(window => window.dayOfWeek === dayOfWeek)
+        .map(window => ({ ...window, ...toMinuteRange(window) }))
+        .sort((a, b) => a.start - b.start)
+
+      if (windows.length === 0) {
+        violations.push(this.violation('SPACE_CLOSED', 'startTime', { day: DAY_NAMES[this.language][dayOfWeek] }))
+      } else if (!windows.some(window => window.start <= startMinutes && window.end >= endMinutes)) {
+        violations.push(this.violation('OUTSIDE_OPENING_HOURS', 'startTime', {
+          day: DAY_NAMES[this.language][dayOfWeek],
+          hours: windows.map(window => `${window.startTime}-${window.endTime}`).join(', '),
+        }))
+      }
+    }
+
+    for (const window of this.config.unavailableWindows) {
+      if (window.dayOfWeek !== dayOfWeek) continue
+
+      const range = toMinuteRange(window)
+      if (range.start < endMinutes && range.end > startMinutes) {
+        violations.push(this.violation('SPACE_UNAVAILABLE', 'startTime', {
+          startTime: window.startTime,
+          endTime: window.endTime,
+          reason: window.reason ? ` (${window.reason})` : '',
+        }))
+      }
+    }
+
+    return violations
+  }
+
+  private violation(
+    code: BookingPolicyViolationCode,
+    field: BookingPolicyViolation['field'],
+    params?: Record<string, string | number>
+  ): BookingPolicyViolation {
+    const template = POLICY_MESSAGES[this.language][code]
+    const message = Object.entries(params || {}).reduce(
+      (text, [key, value]) => text.replace(`{${key}}`, String(value)),
+      template
+    )
+
+    return { code, field, message, params }
+  }
+}
+
+/**
+ * Collapse violations into the first message per field, for form field errors
+ */
+export function toPolicyFieldErrors(violations: BookingPolicyViolation[]): Record<string, string> {
+  return violations.reduce((acc: Record<string, string>, violation) => {
+    if (!acc[violation.field]) {
+      acc[violation.field] = violation.message
+    }
+    return acc
+  }, {})
+}
+
+/**
+ * Convert "HH:mm" times to minutes since midnight. A window ending at or
+ * before its start (e.g. "00:00") is treated as closing at midnight.
+ */
+function toMinuteRange(window: OpeningHoursWindow): { start: number; end: number } {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number)
+    return hours * 60 + (minutes || 0)
+  }
+
+  const start = toMinutes(window.startTime)
+  const end = toMinutes(window.endTime)
+  return { start, end: end <= start ? 24 * 60 : end }
+}
@@ -0,0 +1,120 @@
+/**
+ * Booking service utilities
+ * Prices the add-on services of a booking from its price breakdown, checks them against
+ * the units other bookings hold and builds the service consumptions a completed booking
+ * leaves for invoicing
+ */
+
+import type { BookingPriceBreakdown, BookingPriceLine } from './pricing-integration'
+
+export interface PricedBookingService {
+  serviceId: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+}
+
+export interface ConsumableBookingService<TAmount> {
+  id: string
+  serviceId: string
+  quantity: number
+  unitPrice: TAmount
+  totalPrice: TAmount
+  status: string
+  serviceConsumptionId: string | null
+}
+
+/**
+ * Take quantity and prices of each requested service from the breakdown line of the same
+ * service. A service requested twice takes its lines in order; services the breakdown does
+ * not price keep their requested amounts.
+ */
+export function priceBookingServices<T extends PricedBookingService>(
+  services: T[],
+  breakdown: BookingPriceBreakdown | null
+): T[] {
+  const linesByService = new Map<string, BookingPriceLine[]>()
+  for (const line of breakdown?.lines || []) {
+    if (line.type !== 'SERVICE' || !line.referenceId) continue
+    linesByService.set(line.referenceId, [...(linesByService.get(line.referenceId) || []), line])
+  }
+
+  return services.map(service => {
+    const line = linesByService.get(service.serviceId)?.shift()
+    if (!line) return service
+
+    return {
+      ...service,
+      quantity: line.quantity ?? service.quantity,
+      unitPrice: line.unitPrice ?? service.unitPrice,
+      totalPrice: line.amount,
+    }
+  })
+}
+
+export interface ServiceShortage {
+  serviceId: string
+  name: string
+  requested: number
+  available: number
+}
+
+/**
+ * Services with limited units that cannot cover a request. Units are held by the services
+ * of overlapping bookings (`reserved`); a service requested on several lines counts once
+ * with the sum of its quantities.
+ */
+export function findServiceShortages(
+  requestedServices: Array<{ serviceId: string; quantity: number }>,
+  inventory: Array<{ id: string; name: string; inventoryQuantity: number | null }>,
+  reserved: Array<{ serviceId: string; quantity: number }>
+): ServiceShortage[] {
+  const requested = new Map<string, number>()
+  for (const service of requestedServices) {
+    requested.set(service.serviceId, (requested.get(service.serviceId) || 0) + service.quantity)
+  }
+
+  return inventory
+    .filter(service => service.inventoryQuantity !== null && requested.has(service.id))
+    .map(service => {
+      const reservedQuantity = reserved
+        .filter(row => row.serviceId === service.id)
+        .reduce((sum, row) => sum + row.quantity, 0)
+
+      return {
+        serviceId: service.id,
+        name: service.name,
+        requested: requested.get(service.id) || 0,
+        available: Math.max(0, (service.inventoryQuantity || 0) - reservedQuantity),
+      }
+    })
+    .filter(service => service.requested > service.available)
+}
+
+/**
+ * Service consumptions for the services of a completed booking, dated at its end.
+ * Cancelled services and those already recorded are skipped.
+ */
+export function buildServiceConsumptions<TAmount>(
+  tenantId: string,
+  booking: {
+    userId: string
+    endTime: Date
+    bookingServices: ConsumableBookingService<TAmount>[]
+  }
+) {
+  return booking.bookingServices
+    .filter(bookingService => bookingService.status !== 'CANCELLED' && !bookingService.serviceConsumptionId)
+    .map(bookingService => ({
+      bookingServiceId: bookingService.id,
+      consumption: {
+        tenantId,
+        serviceId: bookingService.serviceId,
+        userId: booking.userId,
+        quantity: bookingService.quantity,
+        unitPrice: bookingService.unitPrice,
+        total: bookingService.totalPrice,
+        date: booking.endTime,
+      },
+    }))
+}
@@ -0,0 +1,153 @@
+/**
+ * Cancellation policy evaluation for bookings
+ * Maps the notice given on a cancellation to a refund percentage and a late
+ * cancellation fee, and decides whether the money goes back as a refund or as credit
+ */
+
+import { differenceInMinutes, format } from 'date-fns'
+
+export type CancellationRefundMethod = 'REFUND' | 'CREDIT' | 'CHOICE'
+export type CancellationResolution = 'REFUND' | 'CREDIT' | 'NONE'
+
+export interface CancellationTier {
+  minNoticeHours: number // Applies when cancelling at least this many hours before the start
+  refundPercent: number // 0-100 of the amount paid
+  feeAmount?: number // Late cancellation fee
+}
+
+export interface CancellationPolicyConfig {
+  tiers: CancellationTier[]
+  refundMethod: CancellationRefundMethod
+}
+
+export interface EvaluateCancellationInput {
+  startTime: Date
+  cancelledAt?: Date
+  paidAmount: number
+  preferredMethod?: 'REFUND' | 'CREDIT' // Only honoured when the policy lets the member choose
+}
+
+export interface CancellationOutcome {
+  noticeHours: number
+  tier: CancellationTier | null
+  refundPercent: number
+  refundAmount: number // Returned to the member after deducting the fee
+  feeAmount: number
+  outstandingFee: number // Part of the fee not covered by the refund, to be billed
+  resolution: CancellationResolution
+}
+
+export interface CancellationFeeUsage {
+  tenantId: string
+  clientId: string
+  resourceType: 'SPACE_BOOKING'
+  resourceId: string
+  quantity: number
+  unit: string
+  unitPrice: number
+  totalCost: number
+  usageDate: Date
+  billingPeriod: string
+  metadata: { bookingId: string; description: string }
+}
+
+/**
+ * Parse the tiers stored on a CancellationPolicy, ordered from the longest notice down.
+ * Invalid entries are dropped.
+ */
+export function parseCancellationTiers(value: unknown): CancellationTier[] {
+  const raw = typeof value === 'string' ? safeParse(value) : value
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .map((tier: any) => ({
+      minNoticeHours: Number(tier?.minNoticeHours),
+      refundPercent: Number(tier?.refundPercent),
+      feeAmount: tier?.feeAmount !== undefined && tier?.feeAmount !== null ? Number(tier.feeAmount) : undefined,
+    }))
+    .filter(tier =>
+      Number.isFinite(tier.minNoticeHours) && tier.minNoticeHours >= 0 &&
+      Number.isFinite(tier.refundPercent) && tier.refundPercent >= 0 && tier.refundPercent <= 100 &&
+      (tier.feeAmount === undefined || (Number.isFinite(tier.feeAmount) && tier.feeAmount >= 0))
+    )
+    .sort((a, b) => b.minNoticeHours - a.minNoticeHours)
+}
+
+/**
+ * Evaluate a cancellation against a policy. The notice picks the first tier whose
+ * minimum it meets; without a matching tier nothing is refunded and no fee applies.
+ * The fee is deducted from the refund first and only the remainder is billed.
+ */
+export function evaluateCancellation(
+  policy: CancellationPolicyConfig,
+  input: EvaluateCancellationInput
+): CancellationOutcome {
+  const cancelledAt = input.cancelledAt || new Date()
+  const noticeHours = Math.max(0, differenceInMinutes(input.startTime, cancelledAt) / 60)
+  const tiers = [...policy.tiers].sort((a, b) => b.minNoticeHours - a.minNoticeHours)
+  const tier = tiers.find(candidate => noticeHours >= candidate.minNoticeHours) || null
+
+  const refundPercent = tier?.refundPercent || 0
+  const grossRefund = roundCurrency(Math.max(0, input.paidAmount) * refundPercent / 100)
+  const feeAmount = roundCurrency(tier?.feeAmount || 0)
+  const refundAmount = roundCurrency(Math.max(0, grossRefund - feeAmount))
+  const outstandingFee = roundCurrency(Math.max(0, feeAmount - grossRefund))
+
+  let resolution: CancellationResolution = 'NONE'
+  if (refundAmount > 0) {
+    resolution = policy.refundMethod === 'CHOICE'
+      ? input.preferredMethod || 'REFUND'
+      : policy.refundMethod
+  }
+
+  return {
+    noticeHours: Math.round(noticeHours * 100) / 100,
+    tier,
+    refundPercent,
+    refundAmount,
+    feeAmount,
+    outstandingFee,
+    resolution,
+  }
+}
+
+/**
+ * Usage record that bills the late cancellation fee the refund did not cover with the
+ * member's next invoice. Null when nothing is outstanding or there is no client to bill.
+ */
+export function buildCancellationFeeUsage(
+  booking: { id: string; tenantId: string; spaceId: string; title: string },
+  clientId: string | null | undefined,
+  outstandingFee: number,
+  cancelledAt: Date
+): CancellationFeeUsage | null {
+  if (outstandingFee <= 0 || !clientId) {
+    return null
+  }
+
+  return {
+    tenantId: booking.tenantId,
+    clientId,
+    resourceType: 'SPACE_BOOKING',
+    resourceId: booking.spaceId,
+    quantity: 1,
+    unit: 'items',
+    unitPrice: outstandingFee,
+    totalCost: outstandingFee,
+    usageDate: cancelledAt,
+    billingPeriod: format(cancelledAt, 'yyyy-MM'),
+    metadata: { bookingId: booking.id, description: `Cancelación tardía: ${booking.title}` },
+  }
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
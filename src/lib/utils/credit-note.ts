@@ -0,0 +1,139 @@
+/**
+ * Credit note utilities
+ * Turns credit requests against invoice lines into credit note lines that give back
+ * the tax each line was charged, and spreads a client's credit balance over an invoice
+ */
+
+export interface CreditableInvoiceItem {
+  id: string
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number
+  credited: number // Amount of the line already credited by earlier credit notes
+  taxRate: number // Percentage the invoice charged on the line
+}
+
+export interface CreditNoteLineRequest {
+  invoiceItemId: string
+  quantity?: number // Units to credit at the line unit price
+  amount?: number // Net amount to credit, the rest of the line when neither is given
+}
+
+export interface CreditNoteLine {
+  invoiceItemId: string | null
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number // In the same terms as the invoice line, with tax when the invoice prices include it
+  taxRate: number
+  taxAmount: number
+}
+
+export interface CreditNoteTotals {
+  subtotal: number
+  tax: number
+  total: number
+}
+
+/**
+ * Credit note lines for the requested invoice lines. A line can never be credited
+ * beyond what is left of it after earlier credit notes, and gives back tax at the
+ * rate the invoice charged on it.
+ */
+export function buildCreditNoteLines(
+  items: CreditableInvoiceItem[],
+  requests: CreditNoteLineRequest[],
+  taxIncluded = false
+): { lines: CreditNoteLine[]; errors: string[] } {
+  const lines: CreditNoteLine[] = []
+  const errors: string[] = []
+  const remaining = new Map(items.map(item => [item.id, roundAmount(item.total - item.credited)]))
+
+  for (const request of requests) {
+    const item = items.find(candidate => candidate.id === request.invoiceItemId)
+    if (!item) {
+      errors.push(`Invoice line ${request.invoiceItemId} not found`)
+      continue
+    }
+
+    const available = remaining.get(item.id) || 0
+    const amount = roundAmount(
+      request.amount ?? (request.quantity !== undefined ? request.quantity * item.unitPrice : available)
+    )
+
+    if (amount <= 0) {
+      errors.push(`Nothing left to credit on "${item.description}"`)
+      continue
+    }
+
+    if (amount > available) {
+      errors.push(`"${item.description}" can be credited up to ${available}`)
+      continue
+    }
+
+    const quantity = request.quantity ?? (amount === roundAmount(item.total) ? item.quantity : 1)
+    remaining.set(item.id, roundAmount(available - amount))
+    lines.push({
+      invoiceItemId: item.id,
+      description: item.description,
+      quantity,
+      unitPrice: roundAmount(amount / quantity),
+      total: amount,
+      taxRate: item.taxRate,
+      taxAmount: taxIncluded
+        ? roundAmount(amount - amount / (1 + item.taxRate / 100))
+        : roundAmount(amount * item.taxRate / 100),
+    })
+  }
+
+  return { lines, errors }
+}
+
+/**
+ * Totals of a credit note from its lines
+ */
+export function calculateCreditNoteTotals(lines: CreditNoteLine[], taxIncluded = false): CreditNoteTotals {
+  const tax = roundAmount(lines.reduce((sum, line) => sum + line.taxAmount, 0))
+  const amount = roundAmount(lines.reduce((sum, line) => sum + line.total, 0))
+  const subtotal = taxIncluded ? roundAmount(amount - tax) : amount
+
+  return { subtotal, tax, total: roundAmount(subtotal + tax) }
+}
+
+/**
+ * Split an amount that includes tax, such as a refund, into net and tax using the invoice tax ratio
+ */
+export function splitCreditAmount(gross: number, invoice: { subtotal: number; tax: number }): CreditNoteTotals {
+  const subtotal = invoice.subtotal > 0
+    ? roundAmount(gross * invoice.subtotal / (invoice.subtotal + invoice.tax))
+    : roundAmount(gross)
+
+  return { subtotal, tax: roundAmount(gross - subtotal), total: roundAmount(gross) }
+}
+
+/**
+ * Spread an amount over the available credit notes, oldest first
+ */
+export function allocateCreditBalance(
+  creditNotes: Array<{ id: string; available: number }>,
+  amount: number
+): Array<{ creditNoteId: string; amount: number }> {
+  const allocations: Array<{ creditNoteId: string; amount: number }> = []
+  let pending = roundAmount(amount)
+
+  for (const creditNote of creditNotes) {
+    if (pending <= 0) break
+    if (creditNote.available <= 0) continue
+
+    const used = roundAmount(Math.min(creditNote.available, pending))
+    allocations.push({ creditNoteId: creditNote.id, amount: used })
+    pending = roundAmount(pending - used)
+  }
+
+  return allocations
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
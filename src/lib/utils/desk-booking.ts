@@ -0,0 +1,86 @@
+/**
+ * Desk booking utilities
+ * Works out the time window of a day or half-day desk booking, which periods
+ * collide with each other and what a member pays for a desk
+ */
+
+export type DeskBookingPeriod = 'FULL_DAY' | 'MORNING' | 'AFTERNOON'
+
+export interface DeskDayHours {
+  openHour: number
+  middayHour: number // Morning bookings end and afternoon bookings start at this hour
+  closeHour: number
+}
+
+export interface DeskPeriodWindow {
+  start: Date
+  end: Date
+}
+
+export const DEFAULT_DESK_DAY_HOURS: DeskDayHours = {
+  openHour: 8,
+  middayHour: 13,
+  closeHour: 18,
+}
+
+/**
+ * Plan types that include hot desk access, so their members book desks at no charge
+ */
+export const DESK_PLAN_TYPES = ['HOT_DESK', 'DEDICATED_DESK']
+
+/**
+ * Start and end of a desk booking on the given day
+ */
+export function getDeskPeriodWindow(
+  date: Date,
+  period: DeskBookingPeriod,
+  hours: DeskDayHours = DEFAULT_DESK_DAY_HOURS
+): DeskPeriodWindow {
+  const at = (hour: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour)
+
+  switch (period) {
+    case 'MORNING':
+      return { start: at(hours.openHour), end: at(hours.middayHour) }
+    case 'AFTERNOON':
+      return { start: at(hours.middayHour), end: at(hours.closeHour) }
+    default:
+      return { start: at(hours.openHour), end: at(hours.closeHour) }
+  }
+}
+
+/**
+ * Whether two bookings of the same desk on the same day collide. A full day takes
+ * the desk for both halves.
+ */
+export function deskPeriodsOverlap(a: DeskBookingPeriod, b: DeskBookingPeriod): boolean {
+  return a === 'FULL_DAY' || b === 'FULL_DAY' || a === b
+}
+
+/**
+ * Price of a desk booking. Members whose plan includes desks pay nothing and
+ * half days are charged half the daily rate.
+ */
+export function getDeskBookingPrice(
+  dailyRate: number | null,
+  period: DeskBookingPeriod,
+  planType?: string | null
+): number {
+  if (!dailyRate || (planType && DESK_PLAN_TYPES.includes(planType))) {
+    return 0
+  }
+
+  const price = period === 'FULL_DAY' ? dailyRate : dailyRate / 2
+  return Math.round(price * 100) / 100
+}
+
+/**
+ * Desks left in a space for a period once the bookings and dedicated desks already
+ * in use are counted against its occupancy limit. Without a limit every desk counts.
+ */
+export function getRemainingDeskCapacity(occupied: number, maxCapacity: number | null): number {
+  if (maxCapacity === null) {
+    return Infinity
+  }
+
+  return Math.max(0, maxCapacity - occupied)
+}
@@ -0,0 +1,515 @@
+/**
+ * Chilean electronic tax documents (DTE)
+ * RUT validation, CAF folio files and the signed XML the SII expects for invoices,
+ * exempt invoices, boletas and credit notes. Amounts are whole Chilean pesos.
+ */
+
+import { createHash, createPublicKey, createSign } from 'crypto'
+import { format } from 'date-fns'
+
+export type DteDocumentType = 'FACTURA' | 'FACTURA_EXENTA' | 'BOLETA' | 'BOLETA_EXENTA' | 'NOTA_CREDITO'
+
+export const DTE_TYPE_CODES: Record<DteDocumentType, number> = {
+  FACTURA: 33,
+  FACTURA_EXENTA: 34,
+  BOLETA: 39,
+  BOLETA_EXENTA: 41,
+  NOTA_CREDITO: 61,
+}
+
+export const DTE_TYPE_NAMES: Record<DteDocumentType, string> = {
+  FACTURA: 'Factura Electrónica',
+  FACTURA_EXENTA: 'Factura No Afecta o Exenta Electrónica',
+  BOLETA: 'Boleta Electrónica',
+  BOLETA_EXENTA: 'Boleta No Afecta o Exenta Electrónica',
+  NOTA_CREDITO: 'Nota de Crédito Electrónica',
+}
+
+export const CHILE_VAT_RATE = 19
+export const GENERIC_RECEIVER_RUT = '66666666-6' // Boletas to buyers without a RUT
+
+const SII_NAMESPACE = 'http://www.sii.cl/SiiDte'
+const DSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#'
+const MAX_ITEM_NAME_LENGTH = 80
+const MAX_TED_TEXT_LENGTH = 40
+
+export interface CafFile {
+  issuerRut: string
+  documentTypeCode: number
+  rangeStart: number
+  rangeEnd: number
+  authorizedAt: Date
+  cafElement: string // <CAF> element as it is copied into every timbre
+  privateKeyPem: string // Key the SII issued with the range, signs the timbre
+}
+
+export interface DteIssuer {
+  rut: string
+  businessName: string
+  businessActivity: string
+  activityCode: number
+  address: string
+  commune: string
+  city?: string | null
+}
+
+export interface DteReceiver {
+  rut: string
+  name: string
+  businessActivity?: string | null
+  address?: string | null
+  commune?: string | null
+}
+
+export interface DteSourceLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number
+  taxRate: number // Percentage charged on the line
+  taxAmount: number
+}
+
+export interface DteLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  amount: number // With IVA on boletas, net on every other document
+  exempt: boolean
+}
+
+export interface DteDiscount {
+  description: string
+  amount: number
+  exempt: boolean
+}
+
+export interface DteTotals {
+  net: number
+  exempt: number
+  taxRate: number
+  tax: number
+  total: number
+}
+
+export interface DteReference {
+  documentType: DteDocumentType
+  folio: number
+  date: Date
+  code: 1 | 2 | 3 // Voids the document, corrects its text or corrects its amounts
+  reason: string
+}
+
+export interface DteDraft {
+  documentType: DteDocumentType
+  folio: number
+  issueDate: Date
+  dueDate?: Date | null
+  issuer: DteIssuer
+  receiver: DteReceiver
+  lines: DteLine[]
+  discounts: DteDiscount[]
+  totals: DteTotals
+  reference?: DteReference | null
+}
+
+export interface DteCertificate {
+  certificatePem: string
+  privateKeyPem: string
+}
+
+export interface BuiltDteDocument {
+  id: string
+  content: string // Children of the <Documento> element
+  ted: string
+}
+
+/**
+ * RUT without dots, dash or spaces and with an upper case check digit
+ */
+export function cleanRut(rut: string): string {
+  return rut.replace(/[.\-\s]/g, '').toUpperCase()
+}
+
+/**
+ * Check digit of a RUT body using the modulo 11 algorithm
+ */
+export function computeRutCheckDigit(body: string | number): string {
+  let sum = 0
+  let factor = 2
+
+  for (const digit of String(body).split('').reverse()) {
+    sum += Number(digit) * factor
+    factor = factor === 7 ? 2 : factor + 1
+  }
+
+  const rest = 11 - (sum % 11)
+  if (rest === 11) return '0'
+  if (rest === 10) return 'K'
+  return String(rest)
+}
+
+export function isValidRut(rut: string): boolean {
+  const clean = cleanRut(rut)
+  if (!/^\d{7,8}[0-9K]$/.test(clean)) return false
+
+  return computeRutCheckDigit(clean.slice(0, -1)) === clean.slice(-1)
+}
+
+/**
+ * RUT as the SII expects it in documents, e.g. 76123456-7
+ */
+export function toSiiRut(rut: string): string {
+  const clean = cleanRut(rut)
+  return `${clean.slice(0, -1).replace(/^0+/, '')}-${clean.slice(-1)}`
+}
+
+/**
+ * RUT as people write it, e.g. 76.123.456-7
+ */
+export function formatRut(rut: string): string {
+  const [body, checkDigit] = toSiiRut(rut).split('-')
+  return `${body.replace(/\B(?=(\d{3})+(?!\d))/g, '.')}-${checkDigit}`
+}
+
+export function getDteDocumentType(code: number): DteDocumentType | undefined {
+  return (Object.keys(DTE_TYPE_CODES) as DteDocumentType[]).find(type => DTE_TYPE_CODES[type] === code)
+}
+
+/**
+ * Boletas show amounts with IVA included, every other document shows them net
+ */
+export function usesGrossAmounts(documentType: DteDocumentType): boolean {
+  return documentType === 'BOLETA' || documentType === 'BOLETA_EXENTA'
+}
+
+/**
+ * Document an invoice is issued as: a factura when the client has a valid RUT and a
+ * boleta otherwise, exempt when none of its lines carry IVA
+ */
+export function selectDteDocumentType(receiverRut: string | null | undefined, lines: DteSourceLine[]): DteDocumentType {
+  const taxable = lines.some(line => line.taxRate > 0)
+
+  if (!receiverRut || !isValidRut(receiverRut)) {
+    return taxable ? 'BOLETA' : 'BOLETA_EXENTA'
+  }
+  return taxable ? 'FACTURA' : 'FACTURA_EXENTA'
+}
+
+/**
+ * Reads a CAF file (Código de Autorización de Folios) downloaded from the SII
+ */
+export function parseCaf(xml: string): CafFile {
+  const cafElement = xml.match(/<CAF\b[\s\S]*?<\/CAF>/)?.[0]
+  const privateKeyPem = xml.match(/<RSASK>([\s\S]*?)<\/RSASK>/)?.[1]?.trim()
+
+  if (!cafElement || !privateKeyPem) {
+    throw new Error('Invalid CAF file: the CAF element or its private key is missing')
+  }
+
+  const read = (tag: string) => cafElement.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.trim()
+  const issuerRut = read('RE')
+  const documentTypeCode = Number(read('TD'))
+  const rangeStart = Number(read('D'))
+  const rangeEnd = Number(read('H'))
+  const authorizedAt = read('FA')
+
+  if (!issuerRut || !getDteDocumentType(documentTypeCode) || !authorizedAt) {
+    throw new Error('Invalid CAF file: issuer, document type or authorization date is missing')
+  }
+  if (!Number.isInteger(rangeStart) || !Number.isInteger(rangeEnd) || rangeStart < 1 || rangeEnd < rangeStart) {
+    throw new Error('Invalid CAF file: the folio range is not valid')
+  }
+
+  return {
+    issuerRut: toSiiRut(issuerRut),
+    documentTypeCode,
+    rangeStart,
+    rangeEnd,
+    authorizedAt: new Date(`${authorizedAt}T00:00:00`),
+    cafElement: cafElement.replace(/>\s+</g, '><').trim(),
+    privateKeyPem,
+  }
+}
+
+/**
+ * DTE lines for invoice or credit note lines. Only 19% IVA and exempt lines can be
+ * documented; negative lines, such as proration credits, become global discounts.
+ */
+export function toDteLines(
+  lines: DteSourceLine[],
+  taxIncluded: boolean,
+  documentType: DteDocumentType
+): { lines: DteLine[]; discounts: DteDiscount[] } {
+  const gross = usesGrossAmounts(documentType)
+  const exemptDocument = documentType === 'FACTURA_EXENTA' || documentType === 'BOLETA_EXENTA'
+  const dteLines: DteLine[] = []
+  const discounts: DteDiscount[] = []
+
+  for (const line of lines) {
+    if (line.taxRate !== 0 && line.taxRate !== CHILE_VAT_RATE) {
+      throw new Error(`DTE lines must carry ${CHILE_VAT_RATE}% IVA or be exempt, "${line.description}" carries ${line.taxRate}%`)
+    }
+
+    const exempt = line.taxRate === 0
+    if (exemptDocument && !exempt) {
+      throw new Error(`An exempt document cannot include "${line.description}", which carries IVA`)
+    }
+
+    const net = taxIncluded ? line.total - line.taxAmount : line.total
+    const amount = Math.round(gross && !exempt ? net + line.taxAmount : net)
+
+    if (amount < 0) {
+      discounts.push({ description: line.description, amount: -amount, exempt })
+    } else if (amount > 0) {
+      const quantity = line.quantity > 0 ? line.quantity : 1
+      dteLines.push({
+        description: line.description,
+        quantity,
+        unitPrice: Math.round(amount / quantity * 1000000) / 1000000,
+        amount,
+        exempt,
+      })
+    }
+  }
+
+  if (dteLines.length === 0) {
+    throw new Error('A DTE needs at least one line with an amount')
+  }
+
+  return { lines: dteLines, discounts }
+}
+
+/**
+ * Document totals. IVA is worked out on the net total the way the SII checks it, so it
+ * can differ by a peso from the sum of per-line taxes.
+ */
+export function calculateDteTotals(lines: DteLine[], discounts: DteDiscount[], documentType: DteDocumentType): DteTotals {
+  const sum = (amounts: Array<{ amount: number }>) => amounts.reduce((total, item) => total + item.amount, 0)
+
+  const taxable = sum(lines.filter(line => !line.exempt)) - sum(discounts.filter(discount => !discount.exempt))
+  const exempt = sum(lines.filter(line => line.exempt)) - sum(discounts.filter(discount => discount.exempt))
+
+  if (taxable < 0 || exempt < 0) {
+    throw new Error('Discounts cannot exceed the lines they apply to')
+  }
+
+  const net = usesGrossAmounts(documentType)
+    ? Math.round(taxable / (1 + CHILE_VAT_RATE / 100))
+    : taxable
+  const tax = usesGrossAmounts(documentType)
+    ? taxable - net
+    : Math.round(net * CHILE_VAT_RATE / 100)
+
+  return {
+    net,
+    exempt,
+    taxRate: CHILE_VAT_RATE,
+    tax,
+    total: net + tax + exempt,
+  }
+}
+
+/**
+ * Builds the <Documento> of a DTE and stamps it with the timbre electrónico (TED),
+ * signed with the key of the CAF the folio belongs to
+ */
+export function buildDteDocument(draft: DteDraft, caf: CafFile, signedAt: Date): BuiltDteDocument {
+  const code = DTE_TYPE_CODES[draft.documentType]
+  const boleta = usesGrossAmounts(draft.documentType)
+
+  if (caf.documentTypeCode !== code) {
+    throw new Error(`The CAF authorizes document type ${caf.documentTypeCode}, not ${code}`)
+  }
+  if (draft.folio < caf.rangeStart || draft.folio > caf.rangeEnd) {
+    throw new Error(`Folio ${draft.folio} is outside the CAF range ${caf.rangeStart}-${caf.rangeEnd}`)
+  }
+  if (toSiiRut(caf.issuerRut) !== toSiiRut(draft.issuer.rut)) {
+    throw new Error('The CAF was issued to a different RUT')
+  }
+
+  const issuerRut = toSiiRut(draft.issuer.rut)
+  const receiverRut = toSiiRut(draft.receiver.rut)
+  const issueDate = format(draft.issueDate, 'yyyy-MM-dd')
+  const { totals } = draft
+
+  const idDoc = element('IdDoc', [
+    element('TipoDTE', code),
+    element('Folio', draft.folio),
+    element('FchEmis', issueDate),
+    boleta ? element('IndServicio', 3) : '',
+    !boleta && draft.dueDate ? element('FchVenc', format(draft.dueDate, 'yyyy-MM-dd')) : '',
+  ])
+
+  const issuer = boleta
+    ? element('Emisor', [
+      element('RUTEmisor', issuerRut),
+      element('RznSocEmisor', text(draft.issuer.businessName, 100)),
+      element('GiroEmisor', text(draft.issuer.businessActivity, 80)),
+      element('DirOrigen', text(draft.issuer.address, 70)),
+      element('CmnaOrigen', text(draft.issuer.commune, 20)),
+      draft.issuer.city ? element('CiudadOrigen', text(draft.issuer.city, 20)) : '',
+    ])
+    : element('Emisor', [
+      element('RUTEmisor', issuerRut),
+      element('RznSoc', text(draft.issuer.businessName, 100)),
+      element('GiroEmis', text(draft.issuer.businessActivity, 80)),
+      element('Acteco', draft.issuer.activityCode),
+      element('DirOrigen', text(draft.issuer.address, 70)),
+      element('CmnaOrigen', text(draft.issuer.commune, 20)),
+      draft.issuer.city ? element('CiudadOrigen', text(draft.issuer.city, 20)) : '',
+    ])
+
+  const receiver = element('Receptor', [
+    element('RUTRecep', receiverRut),
+    element('RznSocRecep', text(draft.receiver.name, 100)),
+    !boleta && draft.receiver.businessActivity ? element('GiroRecep', text(draft.receiver.businessActivity, 40)) : '',
+    draft.receiver.address ? element('DirRecep', text(draft.receiver.address, 70)) : '',
+    draft.receiver.commune ? element('CmnaRecep', text(draft.receiver.commune, 20)) : '',
+  ])
+
+  const totalsElement = element('Totales', [
+    totals.net > 0 ? element('MntNeto', totals.net) : '',
+    totals.exempt > 0 ? element('MntExe', totals.exempt) : '',
+    !boleta && totals.net > 0 ? element('TasaIVA', totals.taxRate) : '',
+    totals.net > 0 ? element('IVA', totals.tax) : '',
+    element('MntTotal', totals.total),
+  ])
+
+  const details = draft.lines.map((line, index) => element('Detalle', [
+    element('NroLinDet', index + 1),
+    line.exempt ? element('IndExe', 1) : '',
+    element('NmbItem', text(line.description, MAX_ITEM_NAME_LENGTH)),
+    element('QtyItem', line.quantity),
+    element('PrcItem', line.unitPrice),
+    element('MontoItem', line.amount),
+  ]))
+
+  const discounts = draft.discounts.map((discount, index) => element('DscRcgGlobal', [
+    element('NroLinDR', index + 1),
+    element('TpoMov', 'D'),
+    element('GlosaDR', text(discount.description, 45)),
+    element('TpoValor', '$'),
+    element('ValorDR', discount.amount),
+    discount.exempt ? element('IndExeDR', 1) : '',
+  ]))
+
+  const reference = draft.reference
+    ? element('Referencia', [
+      element('NroLinRef', 1),
+      element('TpoDocRef', DTE_TYPE_CODES[draft.reference.documentType]),
+      element('FolioRef', draft.reference.folio),
+      element('FchRef', format(draft.reference.date, 'yyyy-MM-dd')),
+      element('CodRef', draft.reference.code),
+      element('RazonRef', text(draft.reference.reason, 90)),
+    ])
+    : ''
+
+  const ted = buildTed(draft, caf, issuerRut, receiverRut, issueDate, signedAt)
+
+  return {
+    id: `F${draft.folio}T${code}`,
+    content: [
+      element('Encabezado', [idDoc, issuer, receiver, totalsElement]),
+      ...details,
+      ...discounts,
+      reference,
+      ted,
+      element('TmstFirma', format(signedAt, "yyyy-MM-dd'T'HH:mm:ss")),
+    ].join(''),
+    ted,
+  }
+}
+
+/**
+ * Wraps a built document in a <DTE> with its enveloped XML signature (RSA-SHA1 over the
+ * canonical form of the <Documento>, as the SII schema requires)
+ */
+export function signDte(document: BuiltDteDocument, certificate: DteCertificate): string {
+  const canonicalDocument = `<Documento xmlns="${SII_NAMESPACE}" ID="${document.id}">${document.content}</Documento>`
+  const digest = createHash('sha1').update(canonicalDocument, 'utf8').digest('base64')
+
+  const signedInfo = (namespace: string) =>
+    `<SignedInfo${namespace}>`
+    + '<CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"></CanonicalizationMethod>'
+    + `<SignatureMethod Algorithm="${DSIG_NAMESPACE}rsa-sha1"></SignatureMethod>`
+    + `<Reference URI="#${document.id}">`
+    + `<Transforms><Transform Algorithm="${DSIG_NAMESPACE}enveloped-signature"></Transform></Transforms>`
+    + `<DigestMethod Algorithm="${DSIG_NAMESPACE}sha1"></DigestMethod>`
+    + `<DigestValue>${digest}</DigestValue>`
+    + '</Reference>'
+    + '</SignedInfo>'
+
+  const signatureValue = createSign('RSA-SHA1')
+    .update(signedInfo(` xmlns="${DSIG_NAMESPACE}"`), 'utf8')
+    .sign(certificate.privateKeyPem, 'base64')
+
+  const publicKey = createPublicKey(certificate.privateKeyPem).export({ format: 'jwk' })
+  const certificateBody = certificate.certificatePem
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '')
+
+  const signature = `<Signature xmlns="${DSIG_NAMESPACE}">`
+    + signedInfo('')
+    + element('SignatureValue', signatureValue)
+    + element('KeyInfo', [
+      element('KeyValue', element('RSAKeyValue', [
+        element('Modulus', Buffer.from(publicKey.n ?? '', 'base64url').toString('base64')),
+        element('Exponent', Buffer.from(publicKey.e ?? '', 'base64url').toString('base64')),
+      ])),
+      element('X509Data', element('X509Certificate', certificateBody)),
+    ])
+    + '</Signature>'
+
+  return '<?xml version="1.0" encoding="ISO-8859-1"?>\n'
+    + `<DTE xmlns="${SII_NAMESPACE}" version="1.0">`
+    + `<Documento ID="${document.id}">${document.content}</Documento>`
+    + signature
+    + '</DTE>'
+}
+
+function buildTed(
+  draft: DteDraft,
+  caf: CafFile,
+  issuerRut: string,
+  receiverRut: string,
+  issueDate: string,
+  signedAt: Date
+): string {
+  // Quotes are dropped from the timbre so its signed text reads the same escaped or not
+  const tedText = (value: string) => text(value.replace(/["']/g, ''), MAX_TED_TEXT_LENGTH)
+
+  const dd = element('DD', [
+    element('RE', issuerRut),
+    element('TD', DTE_TYPE_CODES[draft.documentType]),
+    element('F', draft.folio),
+    element('FE', issueDate),
+    element('RR', receiverRut),
+    element('RSR', tedText(draft.receiver.name)),
+    element('MNT', draft.totals.total),
+    element('IT1', tedText(draft.lines[0]?.description ?? '')),
+    caf.cafElement,
+    element('TSTED', format(signedAt, "yyyy-MM-dd'T'HH:mm:ss")),
+  ])
+
+  const signature = createSign('RSA-SHA1')
+    .update(Buffer.from(dd, 'latin1'))
+    .sign(caf.privateKeyPem, 'base64')
+
+  return `<TED version="1.0">${dd}<FRMT algoritmo="SHA1withRSA">${signature}</FRMT></TED>`
+}
+
+function element(name: string, content: string | number | string[]): string {
+  const body = Array.isArray(content) ? content.join('') : String(content)
+  return `<${name}>${body}</${name}>`
+}
+
+function text(value: string, maxLength: number): string {
+  return value
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
@@ -0,0 +1,130 @@
+/**
+ * Dunning utilities
+ * Builds the collection schedule of an unpaid invoice from the tenant billing settings
+ * and decides which steps are due: overdue marking, reminders, late fee, payment
+ * retries and the final suspension
+ */
+
+import { addDays } from 'date-fns'
+
+export type DunningStepType = 'OVERDUE' | 'REMINDER' | 'LATE_FEE' | 'PAYMENT_RETRY' | 'SUSPENSION'
+
+export interface DunningStep {
+  type: DunningStepType
+  step: number // Reminder number or retry attempt, 0 for one-off steps
+  at: Date
+}
+
+export interface DunningConfig {
+  reminderDays: number[] // Days after the due date a reminder goes out
+  gracePeriodDays: number // Days after the due date before access is suspended
+  lateFee: number
+  lateFeeType: 'FIXED' | 'PERCENTAGE'
+  retryPayments: boolean
+  maxRetryAttempts: number
+  retryIntervalDays: number
+}
+
+export interface DunningTemplate {
+  subject: string
+  body: string
+}
+
+export const DEFAULT_DUNNING_TEMPLATE: DunningTemplate = {
+  subject: 'Recordatorio de pago: factura {{number}}',
+  body: `Estimado/a {{client}},
+
+La factura {{number}} por {{total}} venció el {{dueDate}} y aún no registra pago ({{days}} días de atraso).
+
+Le agradecemos regularizar el pago a la brevedad para evitar recargos o la suspensión de su acceso.
+
+Saludos cordiales,
+{{tenant}}`,
+}
+
+interface DunningSettingsRecord {
+  dunningReminderDays?: number[] | null
+  gracePeriodDays: number
+  latePaymentFee: number | string | { toString(): string }
+  latePaymentFeeType: 'FIXED' | 'PERCENTAGE'
+  retryFailedPayments: boolean
+  autoCollectPayments: boolean
+  maxRetryAttempts: number
+  retryIntervalDays: number
+}
+
+/**
+ * Dunning configuration of a tenant. Payment retries need automatic collection to be on.
+ */
+export function resolveDunningConfig(settings: DunningSettingsRecord): DunningConfig {
+  return {
+    reminderDays: [...new Set((settings.dunningReminderDays || []).filter(day => day >= 0))].sort((a, b) => a - b),
+    gracePeriodDays: Math.max(0, settings.gracePeriodDays),
+    lateFee: Math.max(0, Number(settings.latePaymentFee)),
+    lateFeeType: settings.latePaymentFeeType,
+    retryPayments: settings.retryFailedPayments && settings.autoCollectPayments,
+    maxRetryAttempts: Math.max(0, settings.maxRetryAttempts),
+    retryIntervalDays: Math.max(1, settings.retryIntervalDays),
+  }
+}
+
+/**
+ * Every step of the collection schedule of an invoice, in date order. The invoice turns
+ * overdue and takes the late fee the moment it passes its due date.
+ */
+export function getDunningSchedule(dueDate: Date, config: DunningConfig): DunningStep[] {
+  const steps: DunningStep[] = [{ type: 'OVERDUE', step: 0, at: dueDate }]
+
+  if (config.lateFee > 0) {
+    steps.push({ type: 'LATE_FEE', step: 0, at: dueDate })
+  }
+
+  config.reminderDays.forEach((days, index) => {
+    steps.push({ type: 'REMINDER', step: index + 1, at: addDays(dueDate, days) })
+  })
+
+  if (config.retryPayments) {
+    for (let attempt = 1; attempt <= config.maxRetryAttempts; attempt++) {
+      steps.push({ type: 'PAYMENT_RETRY', step: attempt, at: addDays(dueDate, attempt * config.retryIntervalDays) })
+    }
+  }
+
+  steps.push({ type: 'SUSPENSION', step: 0, at: addDays(dueDate, config.gracePeriodDays) })
+
+  return steps.sort((a, b) => a.at.getTime() - b.at.getTime())
+}
+
+/**
+ * Steps whose date has passed and that did not run yet. `done` holds `TYPE:step` keys.
+ */
+export function getDueDunningSteps(
+  dueDate: Date,
+  now: Date,
+  config: DunningConfig,
+  done: Set<string>
+): DunningStep[] {
+  if (now <= dueDate) {
+    return []
+  }
+
+  return getDunningSchedule(dueDate, config).filter(step =>
+    step.at <= now && !done.has(`${step.type}:${step.step}`)
+  )
+}
+
+/**
+ * Late fee for an unpaid amount. Percentage fees are expressed in percent (5 = 5%).
+ */
+export function calculateLateFee(amount: number, config: Pick<DunningConfig, 'lateFee' | 'lateFeeType'>): number {
+  const fee = config.lateFeeType === 'PERCENTAGE' ? amount * config.lateFee / 100 : config.lateFee
+  return Math.round(fee * 100) / 100
+}
+
+/**
+ * Replace `{{name}}` placeholders of a reminder template. Unknown placeholders stay as they are.
+ */
+export function renderDunningTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) =>
+    values[key] !== undefined ? String(values[key]) : match
+  )
+}
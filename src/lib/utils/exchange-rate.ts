@@ -0,0 +1,195 @@
+/**
+ * Exchange rate utilities
+ * Conversion of document amounts to a single currency at the rate in effect on the document
+ * date, and parsing of exchange rate files
+ */
+
+import { roundCurrencyAmount } from '@/lib/utils/payment-link'
+import {
+  normalizeHeader,
+  parseStatementAmount,
+  parseStatementDate,
+  splitCsvRow,
+} from '@/lib/utils/reconciliation'
+
+export interface ExchangeRateRecord {
+  fromCurrency: string
+  toCurrency: string
+  rate: number // Units of toCurrency per unit of fromCurrency
+  effectiveDate: Date
+}
+
+export interface ConvertibleAmount {
+  amount: number
+  currency: string
+  date: Date
+}
+
+export interface CurrencyTotal {
+  currency: string
+  total: number
+  count: number // Amounts included in the total
+  // Amounts left out of the total because no rate applies to them, by currency
+  unconverted: Record<string, number>
+}
+
+// Codes people use for units that have an ISO code of their own
+const CURRENCY_ALIASES: Record<string, string> = {
+  UF: 'CLF',
+}
+
+const RATE_FILE_COLUMNS: Record<string, string[]> = {
+  date: ['date', 'fecha', 'effective date', 'fecha vigencia', 'dia'],
+  from: ['from', 'from currency', 'currency', 'moneda', 'moneda origen', 'desde', 'divisa'],
+  to: ['to', 'to currency', 'moneda destino', 'hacia', 'en'],
+  rate: ['rate', 'exchange rate', 'value', 'valor', 'tasa', 'tipo de cambio', 'tipo cambio', 'cambio'],
+}
+
+/**
+ * Uppercase ISO 4217 code, with "UF" taken as CLF. Returns null for anything else.
+ */
+export function normalizeCurrencyCode(value: string): string | null {
+  const code = value.trim().toUpperCase()
+  const normalized = CURRENCY_ALIASES[code] || code
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null
+}
+
+/**
+ * Rate to convert from one currency to another on a date: the latest rate in effect that day,
+ * stored either way round. Currencies without a rate between them are converted through a
+ * currency both have a rate to, e.g. UF to USD through CLP. Returns null when no rate applies.
+ */
+export function findExchangeRate(
+  rates: ExchangeRateRecord[],
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date
+): number | null {
+  if (fromCurrency === toCurrency) return 1
+
+  const direct = findDirectRate(rates, fromCurrency, toCurrency, date)
+  if (direct !== null) return direct
+
+  const intermediates = new Set(rates.flatMap(rate => [rate.fromCurrency, rate.toCurrency]))
+  for (const currency of intermediates) {
+    if (currency === fromCurrency || currency === toCurrency) continue
+
+    const first = findDirectRate(rates, fromCurrency, currency, date)
+    const second = first !== null ? findDirectRate(rates, currency, toCurrency, date) : null
+    if (first !== null && second !== null) return first * second
+  }
+
+  return null
+}
+
+/**
+ * Amount in another currency at the rate in effect on the date, rounded to the units that
+ * currency has. Returns null when no rate applies.
+ */
+export function convertAmount(
+  rates: ExchangeRateRecord[],
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date
+): number | null {
+  const rate = findExchangeRate(rates, fromCurrency, toCurrency, date)
+  return rate === null ? null : roundCurrencyAmount(amount * rate, toCurrency)
+}
+
+/**
+ * Total of amounts in several currencies, each converted at the rate of its own date. Amounts
+ * without a rate are kept apart rather than added as if they were in the same currency.
+ */
+export function sumInCurrency(
+  rates: ExchangeRateRecord[],
+  amounts: ConvertibleAmount[],
+  currency: string
+): CurrencyTotal {
+  let total = 0
+  let count = 0
+  const unconverted: Record<string, number> = {}
+
+  amounts.forEach(item => {
+    const converted = convertAmount(rates, item.amount, item.currency, currency, item.date)
+
+    if (converted === null) {
+      unconverted[item.currency] = roundCurrencyAmount((unconverted[item.currency] || 0) + item.amount, item.currency)
+    } else {
+      total += converted
+      count++
+    }
+  })
+
+  return { currency, total: roundCurrencyAmount(total, currency), count, unconverted }
+}
+
+/**
+ * Rates from a CSV file with date, currency and rate columns, such as a UF or dollar series
+ * downloaded from the central bank. Files without a target currency column are taken to be
+ * in the given currency. Later rows win when a day appears twice.
+ */
+export function parseExchangeRateFile(content: string, defaultToCurrency: string): ExchangeRateRecord[] {
+  const rows = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(row => row.trim())
+  const delimiter = [';', '\t', ','].find(candidate => rows.slice(0, 20).some(row => row.includes(candidate))) || ','
+
+  let headerIndex = -1
+  let columns: Record<string, number> = {}
+  for (let i = 0; i < Math.min(rows.length, 20) && headerIndex < 0; i++) {
+    const headers = splitCsvRow(rows[i], delimiter).map(normalizeHeader)
+    const found: Record<string, number> = {}
+
+    Object.entries(RATE_FILE_COLUMNS).forEach(([column, aliases]) => {
+      const index = headers.findIndex(header => aliases.includes(header))
+      if (index > -1) found[column] = index
+    })
+
+    if (found.date !== undefined && found.from !== undefined && found.rate !== undefined) {
+      headerIndex = i
+      columns = found
+    }
+  }
+
+  if (headerIndex < 0) {
+    throw new Error('The file needs date, currency and rate columns')
+  }
+
+  const records = new Map<string, ExchangeRateRecord>()
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const cells = splitCsvRow(row, delimiter)
+    const cell = (column: string) => (columns[column] !== undefined ? cells[columns[column]] || '' : '')
+
+    const effectiveDate = parseStatementDate(cell('date'))
+    const rate = parseStatementAmount(cell('rate'))
+
+    // Days without a published value are left empty in most series
+    if (!effectiveDate || rate === null) return
+
+    const fromCurrency = normalizeCurrencyCode(cell('from'))
+    const toCurrency = normalizeCurrencyCode(cell('to') || defaultToCurrency)
+    if (!fromCurrency || !toCurrency || fromCurrency === toCurrency || rate <= 0) {
+      throw new Error(`Invalid exchange rate on line ${headerIndex + index + 2}`)
+    }
+
+    const key = `${fromCurrency}:${toCurrency}:${effectiveDate.toISOString()}`
+    records.set(key, { fromCurrency, toCurrency, rate, effectiveDate })
+  })
+
+  return Array.from(records.values())
+}
+
+function findDirectRate(rates: ExchangeRateRecord[], fromCurrency: string, toCurrency: string, date: Date): number | null {
+  let latest: ExchangeRateRecord | null = null
+
+  for (const rate of rates) {
+    const matches = (rate.fromCurrency === fromCurrency && rate.toCurrency === toCurrency)
+      || (rate.fromCurrency === toCurrency && rate.toCurrency === fromCurrency)
+
+    if (matches && rate.effectiveDate <= date && (!latest || rate.effectiveDate > latest.effectiveDate)) {
+      latest = rate
+    }
+  }
+
+  if (!latest) return null
+  return latest.fromCurrency === fromCurrency ? latest.rate : 1 / latest.rate
+}
@@ -0,0 +1,139 @@
+/**
+ * No-show policy utilities for bookings
+ * Resolves the grace period, fee and strike rules that apply to a space and
+ * decides when an unclaimed booking becomes a no-show
+ */
+
+import { addDays, addMinutes, format, subDays } from 'date-fns'
+
+export interface NoShowPolicy {
+  graceMinutes: number // Minutes after the start before an unclaimed booking is released
+  fee: number // Charged to the member per no-show, 0 = no fee
+  maxStrikes: number // No-shows allowed inside the strike window, 0 = strikes disabled
+  strikeWindowDays: number
+  suspensionDays: number // Days a member cannot book after reaching the strike limit
+}
+
+export interface NoShowStrikeStatus {
+  strikes: number
+  blockedUntil: Date | null
+}
+
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+  graceMinutes: 15,
+  fee: 0,
+  maxStrikes: 0,
+  strikeWindowDays: 30,
+  suspensionDays: 7,
+}
+
+export interface NoShowFeeUsage {
+  tenantId: string
+  clientId: string
+  resourceType: 'SPACE_BOOKING'
+  resourceId: string
+  quantity: number
+  unit: string
+  unitPrice: number
+  totalCost: number
+  usageDate: Date
+  billingPeriod: string
+  metadata: { bookingId: string; description: string }
+}
+
+interface NoShowSpaceSettings {
+  noShowGraceMinutes?: number | null
+  noShowFee?: number | string | { toString(): string } | null
+}
+
+/**
+ * Resolve the no-show policy of a space. Tenant settings (`settings.noShowPolicy`)
+ * override the defaults, and the space grace period and fee override the tenant.
+ */
+export function resolveNoShowPolicy(tenantSettings: unknown, space?: NoShowSpaceSettings | null): NoShowPolicy {
+  const settings = tenantSettings as { noShowPolicy?: Partial<Record<keyof NoShowPolicy, unknown>> } | null
+  const tenantPolicy = settings?.noShowPolicy || {}
+  const policy: NoShowPolicy = { ...DEFAULT_NO_SHOW_POLICY }
+
+  for (const key of Object.keys(DEFAULT_NO_SHOW_POLICY) as (keyof NoShowPolicy)[]) {
+    const value = Number(tenantPolicy[key])
+    if (tenantPolicy[key] !== undefined && tenantPolicy[key] !== null && Number.isFinite(value) && value >= 0) {
+      policy[key] = value
+    }
+  }
+
+  if (space?.noShowGraceMinutes !== undefined && space.noShowGraceMinutes !== null) {
+    policy.graceMinutes = space.noShowGraceMinutes
+  }
+  if (space?.noShowFee !== undefined && space.noShowFee !== null) {
+    policy.fee = Number(space.noShowFee)
+  }
+
+  return policy
+}
+
+/**
+ * Moment after which a booking without check-in is considered a no-show
+ */
+export function getNoShowDeadline(startTime: Date, policy: NoShowPolicy): Date {
+  return addMinutes(startTime, policy.graceMinutes)
+}
+
+/**
+ * Whether a confirmed booking that nobody checked in to has passed its grace period
+ */
+export function isNoShow(
+  booking: { status: string; startTime: Date; hasCheckIn: boolean },
+  policy: NoShowPolicy,
+  now: Date = new Date()
+): boolean {
+  return booking.status === 'CONFIRMED' &&
+    !booking.hasCheckIn &&
+    now >= getNoShowDeadline(booking.startTime, policy)
+}
+
+/**
+ * Count the member's no-shows inside the strike window. Reaching the strike limit
+ * blocks new bookings for the suspension period after the latest no-show.
+ */
+export function evaluateNoShowStrikes(noShowDates: Date[], policy: NoShowPolicy, now: Date = new Date()): NoShowStrikeStatus {
+  const windowStart = subDays(now, policy.strikeWindowDays)
+  const recent = noShowDates
+    .filter(date => date >= windowStart && date <= now)
+    .sort((a, b) => a.getTime() - b.getTime())
+
+  if (policy.maxStrikes <= 0 || recent.length < policy.maxStrikes) {
+    return { strikes: recent.length, blockedUntil: null }
+  }
+
+  const blockedUntil = addDays(recent[recent.length - 1], policy.suspensionDays)
+  return { strikes: recent.length, blockedUntil: blockedUntil > now ? blockedUntil : null }
+}
+
+/**
+ * Usage record that bills a no-show fee with the member's next invoice. Null when the
+ * policy charges no fee or the member has no client account to bill.
+ */
+export function buildNoShowFeeUsage(
+  booking: { id: string; tenantId: string; spaceId: string; title: string; startTime: Date },
+  clientId: string | null | undefined,
+  fee: number
+): NoShowFeeUsage | null {
+  if (fee <= 0 || !clientId) {
+    return null
+  }
+
+  return {
+    tenantId: booking.tenantId,
+    clientId,
+    resourceType: 'SPACE_BOOKING',
+    resourceId: booking.spaceId,
+    quantity: 1,
+    unit: 'items',
+    unitPrice: fee,
+    totalCost: fee,
+    usageDate: booking.startTime,
+    billingPeriod: format(booking.startTime, 'yyyy-MM'),
+    metadata: { bookingId: booking.id, description: `Inasistencia: ${booking.title}` },
+  }
+}
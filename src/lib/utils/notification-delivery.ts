@@ -0,0 +1,224 @@
+/**
+ * Notification delivery utilities
+ * Retry schedule of the outbound queue, delivery receipts, provider signatures and the
+ * email format the SMTP transport sends
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { DEFAULT_WEBHOOK_TOLERANCE_SECONDS } from './payment-gateway'
+
+export type DeliveryReceiptType = 'SENT' | 'DELIVERED' | 'OPENED' | 'CLICKED' | 'BOUNCED' | 'FAILED'
+
+export interface DeliveryReceipt {
+  providerMessageId: string
+  type: DeliveryReceiptType
+  occurredAt: Date
+  errorMessage?: string
+}
+
+export interface ReceiptTarget {
+  status: string
+  sentAt: Date | null
+  deliveredAt: Date | null
+  openedAt: Date | null
+  clickedAt: Date | null
+}
+
+export interface ReceiptUpdate {
+  status?: string
+  sentAt?: Date
+  deliveredAt?: Date
+  openedAt?: Date
+  clickedAt?: Date
+  errorMessage?: string
+}
+
+export interface NotificationDeliveryCounts {
+  total: number
+  sent: number // Left for the provider, whatever happened afterwards
+  delivered: number
+  failed: number
+  opened: number
+  clicked: number
+}
+
+export interface EmailMessage {
+  from: string
+  to: string[]
+  cc?: string[]
+  replyTo?: string
+  subject: string
+  text: string
+  html?: string
+  messageId: string
+  date?: Date
+}
+
+const MAX_RETRY_DELAY_SECONDS = 24 * 60 * 60
+
+// Statuses a notification moves through on its way to the recipient, in order
+const DELIVERY_PROGRESS = ['PENDING', 'QUEUED', 'SENDING', 'SENT', 'DELIVERED']
+
+/**
+ * When to try a failed notification again: retryDelay seconds after the first failure,
+ * doubling each time up to a day. Returns null once the retries are used up.
+ */
+export function calculateNextNotificationAttempt(
+  attempts: number,
+  maxRetries: number,
+  retryDelaySeconds: number,
+  now: Date = new Date()
+): Date | null {
+  if (attempts > maxRetries) return null
+
+  const delay = Math.min(retryDelaySeconds * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_SECONDS)
+  return new Date(now.getTime() + delay * 1000)
+}
+
+/**
+ * Changes a provider receipt makes to a notification. Receipts only move a notification
+ * forward, so late or repeated ones are ignored; returns null when nothing changes.
+ * Opens and clicks prove the message arrived even when the delivery receipt was lost.
+ */
+export function getReceiptUpdate(notification: ReceiptTarget, receipt: DeliveryReceipt): ReceiptUpdate | null {
+  const update: ReceiptUpdate = {}
+  const progress = DELIVERY_PROGRESS.indexOf(notification.status)
+  const at = receipt.occurredAt
+
+  switch (receipt.type) {
+    case 'SENT':
+      if (progress >= 0 && progress < DELIVERY_PROGRESS.indexOf('SENT')) update.status = 'SENT'
+      if (!notification.sentAt) update.sentAt = at
+      break
+    case 'CLICKED':
+      if (!notification.clickedAt) update.clickedAt = at
+    // falls through
+    case 'OPENED':
+      if (!notification.openedAt) update.openedAt = at
+    // falls through
+    case 'DELIVERED':
+      if (progress >= 0 && progress < DELIVERY_PROGRESS.indexOf('DELIVERED')) update.status = 'DELIVERED'
+      if (!notification.deliveredAt && progress >= 0) update.deliveredAt = at
+      break
+    case 'BOUNCED':
+    case 'FAILED':
+      if (notification.status === 'SENDING' || notification.status === 'SENT') {
+        update.status = receipt.type
+        update.errorMessage = receipt.errorMessage || (receipt.type === 'BOUNCED' ? 'Bounced' : 'Delivery failed')
+      }
+      break
+  }
+
+  return Object.keys(update).length > 0 ? update : null
+}
+
+/**
+ * Delivery and engagement rates as percentages with one decimal
+ */
+export function calculateNotificationRates(counts: NotificationDeliveryCounts) {
+  const percentage = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0
+
+  return {
+    deliveryRate: percentage(counts.delivered, counts.sent),
+    failureRate: percentage(counts.failed, counts.total),
+    openRate: percentage(counts.opened, counts.delivered),
+    clickRate: percentage(counts.clicked, counts.delivered),
+  }
+}
+
+/**
+ * Resend signs its webhooks through Svix: an HMAC-SHA256 of "id.timestamp.body" keyed with
+ * the base64 part of the whsec_ secret, sent as space separated "v1,<signature>" entries
+ */
+export function verifyResendSignature(
+  body: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+): boolean {
+  if (!headers.id || !headers.timestamp || !headers.signature) return false
+
+  const timestamp = Number(headers.timestamp)
+  if (!Number.isFinite(timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key).update(`${headers.id}.${headers.timestamp}.${body}`).digest()
+
+  return headers.signature.split(' ').some(entry => {
+    const [version, signature] = entry.split(',')
+    return version === 'v1' && safeEqual(Buffer.from(signature || '', 'base64'), expected)
+  })
+}
+
+/**
+ * Twilio signs status callbacks with an HMAC-SHA1 of the callback URL followed by every
+ * form parameter, sorted by name, as name and value pairs
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null,
+  authToken: string
+): boolean {
+  if (!signature) return false
+
+  const data = Object.keys(params).sort().reduce((acc, name) => `${acc}${name}${params[name]}`, url)
+  const expected = createHmac('sha1', authToken).update(data).digest()
+
+  return safeEqual(Buffer.from(signature, 'base64'), expected)
+}
+
+/**
+ * RFC 5322 message with a plain text part and, when given, an HTML alternative. Parts are
+ * base64 encoded so any character survives 7-bit servers.
+ */
+export function buildEmailMessage(message: EmailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    ...(message.cc && message.cc.length > 0 ? [`Cc: ${message.cc.join(', ')}`] : []),
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(message.date || new Date()).toUTCString()}`,
+    `Message-ID: <${message.messageId}>`,
+    'MIME-Version: 1.0',
+  ]
+
+  const part = (contentType: string, content: string) => [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...wrapBase64(content),
+  ]
+
+  if (!message.html) {
+    return [...headers, ...part('text/plain', message.text)].join('\r\n')
+  }
+
+  const boundary = `alt_${message.messageId.replace(/\W/g, '')}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', message.text),
+    `--${boundary}`,
+    ...part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n')
+}
+
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function wrapBase64(content: string): string[] {
+  return Buffer.from(content).toString('base64').match(/.{1,76}/g) || ['']
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b)
+}
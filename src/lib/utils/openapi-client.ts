@@ -0,0 +1,185 @@
+/**
+ * API client generator
+ * Writes the TypeScript client of an OpenAPI document: request types and one method per operation
+ */
+
+import type { JsonSchema, OpenApiDocument, OpenApiOperation, OpenApiParameter } from './openapi'
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const
+
+/**
+ * Source of the client module. It imports the runtime from ./runtime next to it.
+ */
+export function generateApiClient(document: OpenApiDocument, factoryName = 'createApiV1Client'): string {
+  const declarations: string[] = []
+  const methods: string[] = []
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    if (name === 'Error') continue
+    declarations.push(renderDeclaration(name, schema))
+  }
+
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method]
+      if (!operation) continue
+
+      const queryParameters = (operation.parameters || []).filter((parameter) => parameter.in === 'query')
+      const queryType = queryParameters.length > 0 ? `${pascalCase(operation.operationId)}Query` : null
+
+      if (queryType) declarations.push(renderDeclaration(queryType, getQuerySchema(queryParameters)))
+      methods.push(renderMethod(path, method, operation, queryType, queryParameters))
+    }
+  }
+
+  return [
+    '/**',
+    ` * Typed client for the ${document.info.title} ${document.info.version}`,
+    ' * Generated from the OpenAPI document by `npm run api:client`; do not edit by hand.',
+    ' */',
+    '',
+    "import { requestApi, type ApiFetcher } from './runtime'",
+    '',
+    ...declarations.flatMap((declaration) => [declaration, '']),
+    `export function ${factoryName}(fetcher: ApiFetcher) {`,
+    '  return {',
+    methods.join('\n\n'),
+    '  }',
+    '}',
+    '',
+    `export type ${pascalCase(factoryName.replace(/^create/, ''))} = ReturnType<typeof ${factoryName}>`,
+    '',
+  ].join('\n')
+}
+
+function renderMethod(
+  path: string,
+  method: string,
+  operation: OpenApiOperation,
+  queryType: string | null,
+  queryParameters: OpenApiParameter[]
+): string {
+  const pathParameters = (operation.parameters || []).filter((parameter) => parameter.in === 'path')
+  const args = pathParameters.map((parameter) => `${parameter.name}: string`)
+  const options: string[] = []
+
+  const bodyRef = operation.requestBody?.content['application/json'].schema.$ref
+  if (bodyRef) {
+    const bodyType = bodyRef.split('/').pop()
+    args.push(operation.requestBody!.required ? `body: ${bodyType}` : `body: ${bodyType} = {}`)
+    options.push('body')
+  }
+
+  if (queryType) {
+    const queryRequired = queryParameters.some((parameter) => parameter.required)
+    args.push(queryRequired ? `query: ${queryType}` : `query: ${queryType} = {}`)
+    options.push('query')
+  }
+
+  const url = pathParameters.length > 0
+    ? `\`${path.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(${name})}`)}\``
+    : `'${path}'`
+  const call = [
+    'fetcher',
+    `'${method.toUpperCase()}'`,
+    url,
+    ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : []),
+  ].join(', ')
+
+  return [
+    `    /** ${operation.summary} */`,
+    `    ${operation.operationId}: <T = unknown>(${args.join(', ')}) =>`,
+    `      requestApi<T>(${call}),`,
+  ].join('\n')
+}
+
+function getQuerySchema(parameters: OpenApiParameter[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+
+  for (const parameter of parameters) {
+    properties[parameter.name] = parameter.description
+      ? { ...parameter.schema, description: parameter.description }
+      : parameter.schema
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+  }
+}
+
+function renderDeclaration(name: string, schema: JsonSchema): string {
+  if (schema.type === 'object' && schema.properties && !schema.nullable) {
+    return `export interface ${name} ${renderType(schema, '')}`
+  }
+
+  return `export type ${name} = ${renderType(schema, '')}`
+}
+
+/**
+ * TypeScript type of the values a schema accepts
+ */
+export function renderType(schema: JsonSchema, indent: string): string {
+  const type = renderBaseType(schema, indent)
+  return schema.nullable ? `${type} | null` : type
+}
+
+function renderBaseType(schema: JsonSchema, indent: string): string {
+  if (schema.$ref) return schema.$ref.split('/').pop()!
+  if (schema.enum) return schema.enum.map(renderLiteral).join(' | ')
+  if (schema.anyOf) return schema.anyOf.map((item) => wrapUnionMember(renderType(item, indent))).join(' | ')
+  if (schema.allOf) return schema.allOf.map((item) => wrapUnionMember(renderType(item, indent))).join(' & ')
+
+  switch (schema.type) {
+    case 'string':
+      return 'string'
+    case 'number':
+    case 'integer':
+      return 'number'
+    case 'boolean':
+      return 'boolean'
+    case 'array':
+      return `Array<${schema.items ? renderType(schema.items, indent) : 'unknown'}>`
+    case 'object':
+      return renderObject(schema, indent)
+    default:
+      return 'unknown'
+  }
+}
+
+function renderObject(schema: JsonSchema, indent: string): string {
+  const entries = Object.entries(schema.properties || {})
+  const additional = schema.additionalProperties
+  const valueType = typeof additional === 'object' ? renderType(additional, indent) : 'unknown'
+
+  if (entries.length === 0) return `Record<string, ${valueType}>`
+
+  const inner = `${indent}  `
+  const required = schema.required || []
+  const lines = entries.flatMap(([key, property]) => [
+    ...(property.description ? [`${inner}/** ${property.description} */`] : []),
+    `${inner}${renderKey(key)}${required.includes(key) ? '' : '?'}: ${renderType(property, inner)}`,
+  ])
+
+  // Typed properties only fit an index signature of unknown
+  if (additional) lines.push(`${inner}[key: string]: unknown`)
+
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+function renderKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : renderLiteral(key)
+}
+
+function renderLiteral(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/[\\']/g, '\\$&')}'` : String(value)
+}
+
+function wrapUnionMember(type: string): string {
+  return /[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type
+}
+
+function pascalCase(value: string): string {
+  return `${value.charAt(0).toUpperCase()}${value.slice(1)}`
+}
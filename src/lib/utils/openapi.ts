@@ -0,0 +1,465 @@
+/**
+ * OpenAPI utilities
+ * Turns the Zod schemas the actions validate with into an OpenAPI 3 document of the REST API
+ */
+
+import { z, ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod'
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  format?: string
+  pattern?: string
+  enum?: unknown[]
+  nullable?: boolean
+  description?: string
+  default?: unknown
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: boolean
+  exclusiveMaximum?: boolean
+  multipleOf?: number
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  $ref?: string
+}
+
+export interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query'
+  required: boolean
+  description?: string
+  schema: JsonSchema
+  style?: 'form'
+  explode?: boolean
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  description?: string
+  tags: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: {
+    required: boolean
+    content: { 'application/json': { schema: JsonSchema } }
+  }
+  responses: Record<string, { $ref: string } | { description: string; content?: Record<string, { schema: JsonSchema }> }>
+  'x-api-key-scope'?: string
+}
+
+export interface OpenApiDocument {
+  openapi: string
+  info: { title: string; version: string; description?: string }
+  servers?: { url: string }[]
+  tags: { name: string; description?: string }[]
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>
+  components: {
+    schemas: Record<string, JsonSchema>
+    responses: Record<string, { description: string; headers?: Record<string, unknown>; content?: Record<string, { schema: JsonSchema }> }>
+    securitySchemes: Record<string, Record<string, string>>
+  }
+  security: Record<string, string[]>[]
+}
+
+/**
+ * One operation of the API. Path, query and body are described with the Zod schemas the action
+ * behind the route validates with, as they arrive on the wire: dates are ISO 8601 strings.
+ */
+export interface ApiOperationDefinition {
+  method: HttpMethod
+  path: string // With {param} placeholders
+  operationId: string
+  summary: string
+  description?: string
+  tag: string
+  scope?: string // API key scope the route requires
+  params?: z.AnyZodObject
+  query?: z.AnyZodObject
+  body?: ZodTypeAny
+  created?: boolean // Answers 201 instead of 200
+  notFound?: boolean // Answers 404 when the record does not exist
+  response?: 'data' | 'message'
+}
+
+export interface ApiDocumentInfo {
+  title: string
+  version: string
+  description?: string
+  serverUrl?: string
+  tags: { name: string; description?: string }[]
+}
+
+/**
+ * JSON Schema (OpenAPI 3.0 dialect) of the input a Zod schema accepts. Refinements and
+ * transforms can't be expressed, so the schema they wrap is described instead.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const result = convertZodType(schema)
+  return schema.description ? { ...result, description: schema.description } : result
+}
+
+function convertZodType(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return convertString(def.checks)
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(def.checks)
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' }
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] }
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const values = def.values as Record<string, string | number>
+      // Numeric enums also map each value back to its name; only the values are accepted
+      const accepted = Object.keys(values)
+        .filter((key) => typeof values[values[key]] !== 'number')
+        .map((key) => values[key])
+      return { type: accepted.every((value) => typeof value === 'number') ? 'number' : 'string', enum: accepted }
+    }
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: literalType(def.value), enum: [def.value] }
+    case ZodFirstPartyTypeKind.ZodArray:
+      return convertArray(def)
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return { type: 'array', items: { anyOf: def.items.map(zodToJsonSchema) }, minItems: def.items.length }
+    case ZodFirstPartyTypeKind.ZodSet:
+      return { type: 'array', items: zodToJsonSchema(def.valueType) }
+    case ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject)
+    case ZodFirstPartyTypeKind.ZodRecord:
+    case ZodFirstPartyTypeKind.ZodMap:
+      return { type: 'object', additionalProperties: isUnconstrained(def.valueType) ? true : zodToJsonSchema(def.valueType) }
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return convertUnion(def.options)
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType)
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToJsonSchema(def.innerType), nullable: true }
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return withDefault(zodToJsonSchema(def.innerType), def.defaultValue())
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema(def.innerType)
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type)
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema)
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in)
+    default:
+      // any, unknown and the types that can't be sent as JSON
+      return {}
+  }
+}
+
+function convertString(checks: z.ZodStringCheck[]): JsonSchema {
+  const result: JsonSchema = { type: 'string' }
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = check.value
+        break
+      case 'max':
+        result.maxLength = check.value
+        break
+      case 'length':
+        result.minLength = check.value
+        result.maxLength = check.value
+        break
+      case 'email':
+        result.format = 'email'
+        break
+      case 'url':
+        result.format = 'uri'
+        break
+      case 'uuid':
+        result.format = 'uuid'
+        break
+      case 'datetime':
+        result.format = 'date-time'
+        break
+      case 'date':
+        result.format = 'date'
+        break
+      case 'regex':
+        result.pattern = check.regex.source
+        break
+    }
+  }
+
+  return result
+}
+
+function convertNumber(checks: z.ZodNumberCheck[]): JsonSchema {
+  const result: JsonSchema = { type: 'number' }
+
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer'
+        break
+      case 'min':
+        result.minimum = check.value
+        if (!check.inclusive) result.exclusiveMinimum = true
+        break
+      case 'max':
+        result.maximum = check.value
+        if (!check.inclusive) result.exclusiveMaximum = true
+        break
+      case 'multipleOf':
+        result.multipleOf = check.value
+        break
+    }
+  }
+
+  return result
+}
+
+function convertArray(def: z.ZodArrayDef): JsonSchema {
+  const result: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) }
+
+  if (def.exactLength) {
+    result.minItems = def.exactLength.value
+    result.maxItems = def.exactLength.value
+  }
+  if (def.minLength) result.minItems = def.minLength.value
+  if (def.maxLength) result.maxItems = def.maxLength.value
+
+  return result
+}
+
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+
+  for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+    properties[key] = zodToJsonSchema(value)
+    if (!value.isOptional()) required.push(key)
+  }
+
+  const result: JsonSchema = { type: 'object', properties }
+  if (required.length > 0) result.required = required
+
+  const catchall: ZodTypeAny = schema._def.catchall
+  if (catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+    result.additionalProperties = zodToJsonSchema(catchall)
+  } else if (schema._def.unknownKeys === 'passthrough') {
+    result.additionalProperties = true
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false
+  }
+
+  return result
+}
+
+function convertUnion(options: ZodTypeAny[]): JsonSchema {
+  const schemas = options.map(zodToJsonSchema)
+
+  // Unions of literals read better as a single enum
+  if (schemas.every((item) => item.enum && !item.nullable && item.type === schemas[0].type)) {
+    return { type: schemas[0].type, enum: schemas.flatMap((item) => item.enum!) }
+  }
+
+  return { anyOf: schemas }
+}
+
+function withDefault(schema: JsonSchema, value: unknown): JsonSchema {
+  // Date defaults are usually computed per call, like "now", so they are left out
+  if (value instanceof Date || value === undefined) return schema
+
+  return { ...schema, default: value }
+}
+
+function literalType(value: unknown): JsonSchema['type'] {
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'boolean') return 'boolean'
+  return 'string'
+}
+
+function isUnconstrained(schema: ZodTypeAny): boolean {
+  const typeName = schema._def.typeName
+  return typeName === ZodFirstPartyTypeKind.ZodAny || typeName === ZodFirstPartyTypeKind.ZodUnknown
+}
+
+/**
+ * Parameters of the operation: one per field of the path and query schemas. Arrays in the
+ * query are sent comma separated.
+ */
+export function getOperationParameters(operation: ApiOperationDefinition): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = []
+
+  for (const [location, schema] of [['path', operation.params], ['query', operation.query]] as const) {
+    if (!schema) continue
+
+    const { properties = {}, required = [] } = zodToJsonSchema(schema)
+    for (const [name, property] of Object.entries(properties)) {
+      const { description, ...propertySchema } = property
+      const parameter: OpenApiParameter = {
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        schema: propertySchema,
+      }
+
+      if (description) parameter.description = description
+      if (propertySchema.type === 'array') {
+        parameter.style = 'form'
+        parameter.explode = false
+      }
+
+      parameters.push(parameter)
+    }
+  }
+
+  return parameters
+}
+
+/**
+ * Name under components.schemas of an operation's request body
+ */
+export function getRequestBodyName(operationId: string): string {
+  return `${operationId.charAt(0).toUpperCase()}${operationId.slice(1)}Body`
+}
+
+export function buildOpenApiDocument(
+  info: ApiDocumentInfo,
+  operations: ApiOperationDefinition[]
+): OpenApiDocument {
+  const document: OpenApiDocument = {
+    openapi: '3.0.3',
+    info: { title: info.title, version: info.version, description: info.description },
+    tags: info.tags,
+    paths: {},
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            fieldErrors: {
+              type: 'object',
+              additionalProperties: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          required: ['error'],
+        },
+      },
+      responses: {
+        BadRequest: errorResponse('The request is not valid; fieldErrors lists the fields that failed'),
+        Unauthorized: errorResponse('The API key or session is missing, invalid, expired or revoked'),
+        Forbidden: errorResponse('The API key lacks the scope the operation needs or the caller address is not allowed'),
+        NotFound: errorResponse('The record does not exist'),
+        TooManyRequests: {
+          ...errorResponse('The rate limit was exceeded; retry after the seconds in Retry-After'),
+          headers: {
+            'Retry-After': { schema: { type: 'integer' } },
+            'RateLimit-Limit': { schema: { type: 'integer' } },
+            'RateLimit-Remaining': { schema: { type: 'integer' } },
+            'RateLimit-Reset': { schema: { type: 'integer' } },
+          },
+        },
+        InternalError: errorResponse('Unexpected error'),
+      },
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key sent as Authorization: Bearer sk_...',
+        },
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: '__session',
+          description: 'Session of a signed-in user',
+        },
+      },
+    },
+    security: [{ apiKey: [] }, { session: [] }],
+  }
+
+  if (info.serverUrl) document.servers = [{ url: info.serverUrl }]
+
+  for (const operation of operations) {
+    const spec: OpenApiOperation = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      tags: [operation.tag],
+      responses: {
+        [operation.created ? '201' : '200']: successResponse(operation.response ?? 'data'),
+        '400': { $ref: '#/components/responses/BadRequest' },
+        '401': { $ref: '#/components/responses/Unauthorized' },
+        '403': { $ref: '#/components/responses/Forbidden' },
+        ...(operation.notFound ? { '404': { $ref: '#/components/responses/NotFound' } } : {}),
+        '429': { $ref: '#/components/responses/TooManyRequests' },
+        '500': { $ref: '#/components/responses/InternalError' },
+      },
+    }
+
+    if (operation.description) spec.description = operation.description
+    if (operation.scope) spec['x-api-key-scope'] = operation.scope
+
+    const parameters = getOperationParameters(operation)
+    if (parameters.length > 0) spec.parameters = parameters
+
+    if (operation.body) {
+      const name = getRequestBodyName(operation.operationId)
+      const schema = zodToJsonSchema(operation.body)
+
+      document.components.schemas[name] = schema
+      spec.requestBody = {
+        // A body whose fields are all optional can be left out
+        required: (schema.required || []).length > 0,
+        content: { 'application/json': { schema: { $ref: `#/components/schemas/${name}` } } },
+      }
+    }
+
+    document.paths[operation.path] = { ...document.paths[operation.path], [operation.method]: spec }
+  }
+
+  return document
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  }
+}
+
+function successResponse(kind: 'data' | 'message') {
+  return {
+    description: 'Success',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object' as const,
+          properties: {
+            success: { type: 'boolean' as const, enum: [true] },
+            ...(kind === 'data' ? { data: {} } : { message: { type: 'string' as const } }),
+          },
+          required: ['success'],
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Payment gateway utilities
+ * Idempotency keys for gateway requests, webhook signature checks and conversion
+ * between amounts and the minor units the gateways charge in
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+
+// Currencies without a fractional unit, charged as whole amounts
+const ZERO_DECIMAL_CURRENCIES = ['CLP', 'JPY', 'KRW', 'PYG', 'VND', 'ISK', 'UGX', 'XAF', 'XOF']
+
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300
+
+/**
+ * Deterministic key for a gateway request. Retrying the same operation yields the same
+ * key, so the gateway returns the original result instead of charging twice.
+ */
+export function createIdempotencyKey(scope: string, ...parts: Array<string | number>): string {
+  const digest = createHash('sha256').update(parts.join(':')).digest('hex')
+  return `${scope}_${digest.slice(0, 40)}`
+}
+
+export function isZeroDecimalCurrency(currency: string): boolean {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency) ? Math.round(amount) : Math.round(amount * 100)
+}
+
+export function fromMinorUnits(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency) ? amount : amount / 100
+}
+
+/**
+ * Split a signature header such as "t=1700000000,v1=abc,v1=def" into its values
+ */
+export function parseSignatureHeader(header: string): Record<string, string[]> {
+  return header.split(',').reduce((acc, part) => {
+    const [key, ...rest] = part.trim().split('=')
+    if (key && rest.length > 0) {
+      acc[key] = [...(acc[key] || []), rest.join('=')]
+    }
+    return acc
+  }, {} as Record<string, string[]>)
+}
+
+/**
+ * Check a Stripe-Signature header: an HMAC-SHA256 of "timestamp.body" with the endpoint
+ * secret, rejected when older than the tolerance to stop replayed events
+ */
+export function verifyStripeSignature(
+  body: string,
+  header: string,
+  secret: string,
+  now: Date = new Date(),
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+): boolean {
+  const values = parseSignatureHeader(header)
+  const timestamp = Number(values.t?.[0])
+  const signatures = values.v1 || []
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    return false
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return signatures.some(signature => safeEqual(signature, expected))
+}
+
+/**
+ * Check a Mercado Pago x-signature header. The signed manifest is built from the
+ * notified resource ID, the x-request-id header and the timestamp; parts that are
+ * missing from the notification are left out of the manifest.
+ */
+export function verifyMercadoPagoSignature(
+  header: string,
+  secret: string,
+  params: { dataId?: string | null; requestId?: string | null },
+  now: Date = new Date(),
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+): boolean {
+  const values = parseSignatureHeader(header)
+  const timestamp = values.ts?.[0]
+  const signature = values.v1?.[0]
+
+  if (!timestamp || !signature) {
+    return false
+  }
+
+  // Mercado Pago sends the timestamp in milliseconds
+  if (Math.abs(now.getTime() - Number(timestamp)) > toleranceSeconds * 1000) {
+    return false
+  }
+
+  // Alphanumeric resource IDs are signed in lowercase
+  const dataId = params.dataId && /^[a-z0-9]+$/i.test(params.dataId) ? params.dataId.toLowerCase() : params.dataId
+  const manifest = [
+    dataId && `id:${dataId};`,
+    params.requestId && `request-id:${params.requestId};`,
+    `ts:${timestamp};`,
+  ].filter(Boolean).join('')
+
+  const expected = createHmac('sha256', secret).update(manifest).digest('hex')
+  return safeEqual(signature, expected)
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
@@ -0,0 +1,76 @@
+/**
+ * Payment link utilities
+ * Tokens and lifecycle of the shareable links to an invoice's hosted payment page, and
+ * the checks on what a client can pay from it
+ */
+
+import { randomBytes } from 'crypto'
+import { addDays } from 'date-fns'
+import { isZeroDecimalCurrency } from '@/lib/utils/payment-gateway'
+
+export type PaymentLinkStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+
+export const DEFAULT_PAYMENT_LINK_EXPIRY_DAYS = 30
+
+// Invoices a client can still pay
+export const PAYABLE_INVOICE_STATUSES = ['SENT', 'OVERDUE']
+
+interface PaymentLinkRecord {
+  expiresAt: Date
+  revokedAt?: Date | null
+}
+
+/**
+ * URL-safe random token; it is the only secret protecting the invoice, so it is long enough
+ * that it cannot be guessed
+ */
+export function generatePaymentLinkToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Links expire a number of days after they are created, but never before the invoice is due
+ */
+export function calculatePaymentLinkExpiry(createdAt: Date, dueDate: Date, expiryDays: number): Date {
+  const expiresAt = addDays(createdAt, expiryDays)
+  return expiresAt < dueDate ? addDays(dueDate, 1) : expiresAt
+}
+
+export function getPaymentLinkStatus(link: PaymentLinkRecord, now: Date = new Date()): PaymentLinkStatus {
+  if (link.revokedAt) return 'REVOKED'
+  if (link.expiresAt <= now) return 'EXPIRED'
+  return 'ACTIVE'
+}
+
+export function roundCurrencyAmount(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency) ? Math.round(amount) : Math.round(amount * 100) / 100
+}
+
+/**
+ * Amount left to pay on an invoice after its completed payments and refunds
+ */
+export function calculateInvoiceBalance(total: number, paid: number, currency: string): number {
+  return Math.max(0, roundCurrencyAmount(total - paid, currency))
+}
+
+/**
+ * Check an amount a client wants to pay. Partial payments are allowed, but never more than
+ * the balance or fractions the currency does not have. Returns the error, or null.
+ */
+export function validatePaymentAmount(amount: number, balance: number, currency: string): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Payment amount must be positive'
+  }
+
+  if (roundCurrencyAmount(amount, currency) !== amount) {
+    return isZeroDecimalCurrency(currency)
+      ? `${currency.toUpperCase()} amounts cannot have decimals`
+      : 'Payment amount cannot have more than two decimals'
+  }
+
+  if (amount > balance) {
+    return 'Payment amount cannot exceed the invoice balance'
+  }
+
+  return null
+}
@@ -4,11 +4,13 @@
  */
 
 import { PricingCalculator, type LineItem, type PricingContext } from './pricing'
+import { getZonedParts } from './time-zone'
 
 export interface SpacePricingConfig {
   basePrice: number
   currency: string
   pricingMode: 'HOURLY' | 'DAILY' | 'MONTHLY' | 'FIXED'
+  timeZone?: string // Tenant time zone hours and days are read in, server local time when not set
   minimumDuration?: number // in hours
   maximumDuration?: number // in hours
   pricingTiers?: Array<{
@@ -76,6 +78,62 @@ export interface BookingPricingCalculation {
   }
 }
 
+export interface RoomPricingRuleConfig {
+  id: string
+  name: string
+  basePrice?: number | null
+  priceModifier: number
+  modifierType: 'MULTIPLIER' | 'ADDITION' | 'DISCOUNT' | 'REPLACEMENT'
+  priority: number
+  conditions?: {
+    daysOfWeek?: number[] // 0-6, Sunday = 0
+    startHour?: number // 0-23
+    endHour?: number // 0-23
+    minDuration?: number // in hours
+    maxDuration?: number // in hours
+  }
+  validFrom?: Date | null
+  validTo?: Date | null
+}
+
+export interface PriceAdjustmentConfig {
+  id: string
+  name: string
+  adjustmentType: string
+  value: number
+  valueType: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'MULTIPLIER'
+  priority: number
+  conditions?: {
+    daysOfWeek?: number[]
+    startHour?: number
+    endHour?: number
+    minDaysInAdvance?: number // EARLY_BIRD
+    maxHoursInAdvance?: number // LAST_MINUTE
+  }
+  validFrom?: Date | null
+  validTo?: Date | null
+}
+
+export interface BookingPriceLine {
+  type: 'SPACE' | 'SERVICE' | 'PRICING_RULE' | 'ADJUSTMENT' | 'DISCOUNT' | 'CREDIT'
+  description: string
+  quantity?: number
+  unitPrice?: number
+  amount: number
+  referenceId?: string
+}
+
+export interface BookingPriceBreakdown {
+  currency: string
+  lines: BookingPriceLine[]
+  subtotal: number
+  discounts: number
+  total: number
+  discountCode?: string
+  calculatedAt: string
+  override?: { calculatedTotal: number; setBy: string } // Total set by an admin instead
+}
+
 export class SpaceServicePricingCalculator {
   private pricingCalculator: PricingCalculator
 
@@ -140,7 +198,8 @@ export class SpaceServicePricingCalculator {
       const peakMultiplier = this.calculatePeakHourMultiplier(
         startTime,
         endTime,
-        spaceConfig.peakHours
+        spaceConfig.peakHours,
+        spaceConfig.timeZone
       )
       baseAmount *= peakMultiplier
     }
@@ -305,6 +364,226 @@ export class SpaceServicePricingCalculator {
     }
   }
 
+  /**
+   * Calculate a space booking price from its hourly rate, room pricing rules,
+   * tenant price adjustments and an optional discount code.
+   * Every step that changes the amount is recorded as a breakdown line.
+   */
+  calculateSpaceBookingPrice(
+    spaceConfig: SpacePricingConfig,
+    options: {
+      spaceId: string
+      spaceName: string
+      startTime: Date
+      endTime: Date
+      bookedAt?: Date
+      pricingRules?: RoomPricingRuleConfig[]
+      priceAdjustments?: PriceAdjustmentConfig[]
+      services?: Array<{
+        serviceConfig: ServicePricingConfig
+        quantity: number
+        duration?: number
+        serviceId: string
+        serviceName: string
+      }>
+      discountCode?: string
+    },
+    context: PricingContext
+  ): BookingPriceBreakdown {
+    const { startTime, endTime } = options
+    const bookedAt = options.bookedAt || new Date()
+    const hours = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60)
+    const lines: BookingPriceLine[] = []
+
+    const [spaceItem] = this.calculateSpacePricing(spaceConfig, startTime, endTime, context)
+    let spaceAmount = spaceItem.unitPrice
+    lines.push({
+      type: 'SPACE',
+      description: `${options.spaceName} (${hours.toFixed(2)} h)`,
+      quantity: hours,
+      unitPrice: spaceConfig.basePrice,
+      amount: roundAmount(spaceAmount),
+      referenceId: options.spaceId,
+    })
+
+    // Room pricing rules: lower priority first so higher priority rules have the last word
+    const rules = (options.pricingRules || [])
+      .filter(rule => isWithinValidity(rule.validFrom, rule.validTo, startTime))
+      .filter(rule => this.matchesTimeConditions(rule.conditions, startTime, hours, spaceConfig.timeZone))
+      .sort((a, b) => a.priority - b.priority)
+
+    for (const rule of rules) {
+      const before = spaceAmount
+      switch (rule.modifierType) {
+        case 'MULTIPLIER':
+          spaceAmount = spaceAmount * rule.priceModifier
+          break
+        case 'ADDITION':
+          // basePrice is an hourly surcharge, otherwise the modifier is a fraction of the amount
+          spaceAmount = rule.basePrice != null
+            ? spaceAmount + rule.basePrice * hours
+            : spaceAmount * (1 + rule.priceModifier)
+          break
+        case 'DISCOUNT':
+          spaceAmount = rule.basePrice != null
+            ? spaceAmount - rule.basePrice * hours
+            : spaceAmount * (1 - rule.priceModifier)
+          break
+        case 'REPLACEMENT':
+          spaceAmount = (rule.basePrice ?? spaceConfig.basePrice) * hours
+          break
+      }
+      spaceAmount = Math.max(0, spaceAmount)
+
+      if (spaceAmount !== before) {
+        lines.push({
+          type: 'PRICING_RULE',
+          description: rule.name,
+          amount: roundAmount(spaceAmount - before),
+          referenceId: rule.id,
+        })
+      }
+    }
+
+    // Tenant price adjustments, highest priority first
+    const adjustments = (options.priceAdjustments || [])
+      .filter(adjustment => isWithinValidity(adjustment.validFrom, adjustment.validTo, startTime))
+      .filter(adjustment => this.isAdjustmentApplicable(adjustment, startTime, hours, bookedAt, spaceConfig.timeZone))
+      .sort((a, b) => b.priority - a.priority)
+
+    for (const adjustment of adjustments) {
+      let delta = 0
+      switch (adjustment.valueType) {
+        case 'PERCENTAGE':
+          delta = (spaceAmount * adjustment.value) / 100
+          break
+        case 'FIXED_AMOUNT':
+          delta = adjustment.value
+          break
+        case 'MULTIPLIER':
+          delta = spaceAmount * (adjustment.value - 1)
+          break
+      }
+      // Early bird is the only adjustment that lowers the price
+      if (adjustment.adjustmentType === 'EARLY_BIRD' && delta > 0) {
+        delta = -delta
+      }
+      delta = Math.max(-spaceAmount, delta)
+
+      if (delta !== 0) {
+        spaceAmount += delta
+        lines.push({
+          type: 'ADJUSTMENT',
+          description: adjustment.name,
+          amount: roundAmount(delta),
+          referenceId: adjustment.id,
+        })
+      }
+    }
+
+    const lineItems: LineItem[] = [{
+      ...spaceItem,
+      unitPrice: spaceAmount,
+      spaceId: options.spaceId,
+    }]
+
+    const serviceItems = this.calculateServicePricing(options.services || [], context)
+    for (const item of serviceItems) {
+      lines.push({
+        type: 'SERVICE',
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: roundAmount(item.unitPrice),
+        amount: roundAmount(item.unitPrice * item.quantity),
+        referenceId: item.serviceId,
+      })
+    }
+    lineItems.push(...serviceItems)
+
+    const pricingResult = this.pricingCalculator.calculatePricing(lineItems, {
+      ...context,
+      bookingDuration: hours,
+      discountCodes: options.discountCode ? [options.discountCode] : context.discountCodes,
+    })
+
+    for (const discount of pricingResult.discounts) {
+      lines.push({
+        type: 'DISCOUNT',
+        description: discount.rule.name,
+        amount: -roundAmount(discount.amount),
+        referenceId: discount.rule.id,
+      })
+    }
+
+    return {
+      currency: spaceConfig.currency,
+      lines,
+      subtotal: roundAmount(pricingResult.subtotal),
+      discounts: roundAmount(pricingResult.totalDiscounts),
+      total: roundAmount(pricingResult.subtotal - pricingResult.totalDiscounts),
+      discountCode: pricingResult.discounts.length > 0 ? options.discountCode : undefined,
+      calculatedAt: bookedAt.toISOString(),
+    }
+  }
+
+  /**
+   * Check day-of-week, hour window and duration conditions of a rule, in the tenant time zone
+   */
+  private matchesTimeConditions(
+    conditions: RoomPricingRuleConfig['conditions'],
+    startTime: Date,
+    hours: number,
+    timeZone?: string
+  ): boolean {
+    if (!conditions) return true
+
+    const { dayOfWeek, hours: startHour } = getZonedParts(startTime, timeZone)
+    if (conditions.daysOfWeek && conditions.daysOfWeek.length > 0 &&
+        !conditions.daysOfWeek.includes(dayOfWeek)) {
+      return false
+    }
+
+    if (conditions.startHour !== undefined && startHour < conditions.startHour) return false
+    if (conditions.endHour !== undefined && startHour >= conditions.endHour) return false
+
+    if (conditions.minDuration !== undefined && hours < conditions.minDuration) return false
+    if (conditions.maxDuration !== undefined && hours > conditions.maxDuration) return false
+
+    return true
+  }
+
+  /**
+   * Check whether a tenant price adjustment applies to a booking
+   */
+  private isAdjustmentApplicable(
+    adjustment: PriceAdjustmentConfig,
+    startTime: Date,
+    hours: number,
+    bookedAt: Date,
+    timeZone?: string
+  ): boolean {
+    const conditions = adjustment.conditions || {}
+    const hoursInAdvance = (startTime.getTime() - bookedAt.getTime()) / (1000 * 60 * 60)
+
+    switch (adjustment.adjustmentType) {
+      case 'PEAK_HOURS':
+        return this.matchesTimeConditions({
+          daysOfWeek: conditions.daysOfWeek || [1, 2, 3, 4, 5],
+          startHour: conditions.startHour ?? 9,
+          endHour: conditions.endHour ?? 18,
+        }, startTime, hours, timeZone)
+      case 'WEEKEND':
+        return (conditions.daysOfWeek || [0, 6]).includes(getZonedParts(startTime, timeZone).dayOfWeek)
+      case 'EARLY_BIRD':
+        return hoursInAdvance >= (conditions.minDaysInAdvance ?? 7) * 24
+      case 'LAST_MINUTE':
+        return hoursInAdvance >= 0 && hoursInAdvance <= (conditions.maxHoursInAdvance ?? 24)
+      default:
+        // Other adjustment types (loyalty, referral...) are not time-based
+        return false
+    }
+  }
+
   /**
    * Calculate peak hour multiplier based on booking time
    */
@@ -316,7 +595,8 @@ export class SpaceServicePricingCalculator {
       startHour: number
       endHour: number
       multiplier: number
-    }>
+    }>,
+    timeZone?: string
   ): number {
     const duration = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60)
     let weightedMultiplier = 0
@@ -325,8 +605,7 @@ export class SpaceServicePricingCalculator {
     // Check each hour of the booking
     for (let i = 0; i < Math.ceil(duration); i++) {
       const currentTime = new Date(startTime.getTime() + i * 60 * 60 * 1000)
-      const dayOfWeek = currentTime.getDay()
-      const hour = currentTime.getHours()
+      const { dayOfWeek, hours: hour } = getZonedParts(currentTime, timeZone)
 
       let hourMultiplier = 1
       for (const peak of peakHours) {
@@ -413,6 +692,16 @@ export class SpaceServicePricingCalculator {
   }
 }
 
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function isWithinValidity(validFrom: Date | null | undefined, validTo: Date | null | undefined, date: Date): boolean {
+  if (validFrom && date < validFrom) return false
+  if (validTo && date > validTo) return false
+  return true
+}
+
 /**
  * Helper function to extract pricing config from space data
  */
@@ -442,4 +731,22 @@ export function extractServicePricingConfig(service: any): ServicePricingConfig
     pricingTiers: service.pricingTiers || [],
     bundleDiscounts: service.bundleDiscounts || [],
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Breakdown with the amount an admin charges instead of the calculated total. The calculated
+ * total and who set the amount are kept; an amount of 0 or the calculated total changes nothing.
+ */
+export function applyPriceOverride(
+  breakdown: BookingPriceBreakdown,
+  amount: number | undefined,
+  setBy: string
+): BookingPriceBreakdown {
+  if (!amount || amount === breakdown.total) return breakdown
+
+  return {
+    ...breakdown,
+    total: amount,
+    override: { calculatedTotal: breakdown.total, setBy },
+  }
+}
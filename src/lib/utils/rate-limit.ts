@@ -0,0 +1,142 @@
+/**
+ * Rate limiting utilities
+ * Sliding window counters for the public endpoints, over a store that can be kept in memory or
+ * shared between instances
+ */
+
+export type RateLimitPolicy = 'api' | 'api-auth' | 'search' | 'invitation-accept' | 'payment-link'
+
+export interface RateLimitRule {
+  limit: number
+  windowSeconds: number
+}
+
+export interface RateLimitResult extends RateLimitRule {
+  allowed: boolean
+  remaining: number
+  resetSeconds: number // Until the current window closes
+  firstBreach: boolean // This request is the one that went over the limit
+}
+
+/**
+ * Counters per fixed window. The limiter weighs the previous window's count by how much of it
+ * still overlaps the sliding window, so only two counters per key are kept.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowStart: number, windowMs: number): Promise<{ current: number; previous: number }>
+}
+
+// Defaults per group of endpoints, counted per route; tenants and API keys can replace the ones
+// that apply to them
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicy, RateLimitRule> = {
+  api: { limit: 120, windowSeconds: 60 },
+  'api-auth': { limit: 300, windowSeconds: 60 }, // Per address, before the API key is checked
+  search: { limit: 60, windowSeconds: 60 },
+  'invitation-accept': { limit: 10, windowSeconds: 15 * 60 },
+  'payment-link': { limit: 10, windowSeconds: 15 * 60 }, // Payments started from a public link
+}
+
+// Expired windows are swept after this many hits
+const MEMORY_STORE_SWEEP_INTERVAL = 1000
+
+/**
+ * Store for a single instance: development, tests and self-hosted setups with one server
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>()
+  private hits = 0
+
+  async hit(key: string, windowStart: number, windowMs: number) {
+    if (++this.hits % MEMORY_STORE_SWEEP_INTERVAL === 0) {
+      this.sweep(Date.now())
+    }
+
+    const currentKey = `${key}:${windowStart}`
+    const counter = this.counters.get(currentKey)
+    const current = (counter?.count ?? 0) + 1
+
+    // Kept until it has slid out as the previous window too
+    this.counters.set(currentKey, { count: current, expiresAt: windowStart + windowMs * 2 })
+
+    return {
+      current,
+      previous: this.counters.get(`${key}:${windowStart - windowMs}`)?.count ?? 0,
+    }
+  }
+
+  private sweep(now: number) {
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key)
+    }
+  }
+}
+
+// Path segments that identify a record rather than a route: cuids, uuids and numbers
+const ID_SEGMENT = /^(c[a-z0-9]{20,}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+)$/i
+
+/**
+ * Route a request is counted under, e.g. "GET /api/v1/spaces/:id", so the requests to one
+ * record and another share a counter
+ */
+export function getRateLimitRoute(method: string, pathname: string): string {
+  const path = pathname
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/')
+
+  return `${method.toUpperCase()} ${path}`
+}
+
+/**
+ * The result that decides a request counted against several limits: a rejection if there is
+ * one, otherwise the limit with the fewest requests left
+ */
+export function pickRateLimitResult(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((strictest, result) => {
+    if (strictest.allowed !== result.allowed) return result.allowed ? strictest : result
+    return result.remaining < strictest.remaining ? result : strictest
+  })
+}
+
+/**
+ * Count a request against the rule and tell whether it may go through
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowSeconds * 1000
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const { current, previous } = await store.hit(key, windowStart, windowMs)
+
+  const previousWeight = 1 - (now - windowStart) / windowMs
+  const count = previous * previousWeight + current
+
+  return {
+    ...rule,
+    allowed: count <= rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - count)),
+    resetSeconds: Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000)),
+    firstBreach: count > rule.limit && count - 1 <= rule.limit,
+  }
+}
+
+/**
+ * Headers from the IETF RateLimit fields draft, plus Retry-After on rejected requests
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.resetSeconds)
+  }
+
+  return headers
+}
@@ -0,0 +1,422 @@
+/**
+ * Bank reconciliation utilities
+ * Parsing of bank statements (CSV, OFX and CAMT.053) and scoring of statement lines against
+ * recorded payments and open invoices
+ */
+
+import { createHash } from 'crypto'
+import { differenceInCalendarDays } from 'date-fns'
+
+export type BankStatementFormat = 'CSV' | 'OFX' | 'CAMT053'
+
+export type ReconciliationDiscrepancy =
+  | 'AMOUNT_MISMATCH'
+  | 'DATE_MISMATCH'
+  | 'MISSING_TRANSACTION'
+  | 'DUPLICATE_TRANSACTION'
+  | 'CURRENCY_MISMATCH'
+  | 'REFERENCE_MISMATCH'
+
+export interface BankStatementLine {
+  transactionReference: string // Bank's ID for the movement, or a hash of it when the file has none
+  bankReference: string | null // Reference entered by the payer
+  amount: number // Negative for debits
+  currency: string
+  transactionDate: Date
+  description: string
+}
+
+export interface ReconciliationCandidate {
+  type: 'PAYMENT' | 'INVOICE'
+  id: string
+  amount: number // Payment amount, or what is left to pay on the invoice
+  currency: string
+  date: Date // When the payment was made or the invoice issued
+  dueDate?: Date
+  references: string[] // Payment references and invoice numbers the payer may quote
+}
+
+export interface ReconciliationScore {
+  confidence: number // 0 to 100
+  discrepancyType: ReconciliationDiscrepancy | null
+  discrepancyAmount: number
+}
+
+export interface ReconciliationMatch extends ReconciliationScore {
+  candidate: ReconciliationCandidate
+}
+
+// Lines at or above this confidence are matched without review, as long as the amount agrees
+export const AUTO_MATCH_CONFIDENCE = 80
+// Lines between this and the auto match confidence are suggested for review
+export const REVIEW_MATCH_CONFIDENCE = 50
+
+const REFERENCE_SCORE = 50
+const AMOUNT_SCORE = 35
+const DATE_SCORE = 15
+const MIN_REFERENCE_LENGTH = 4
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['date', 'fecha', 'fecha operacion', 'fecha contable', 'fecha movimiento', 'booking date', 'transaction date', 'value date'],
+  amount: ['amount', 'monto', 'importe', 'valor'],
+  credit: ['credit', 'abono', 'abonos', 'deposito', 'depositos', 'haber', 'ingreso', 'ingresos'],
+  debit: ['debit', 'cargo', 'cargos', 'giro', 'giros', 'debe', 'egreso', 'egresos'],
+  description: ['description', 'descripcion', 'detalle', 'glosa', 'concepto', 'memo', 'narrative'],
+  reference: ['reference', 'referencia', 'n documento', 'nro documento', 'numero documento', 'documento', 'transaction id'],
+  currency: ['currency', 'moneda', 'divisa'],
+}
+
+export function detectBankStatementFormat(content: string): BankStatementFormat {
+  if (/<BkToCstmrStmt\b/.test(content)) return 'CAMT053'
+  if (/OFXHEADER|<OFX>/i.test(content)) return 'OFX'
+  return 'CSV'
+}
+
+/**
+ * Movements in a bank statement, in file order. Throws when the file cannot be read in the
+ * given format.
+ */
+export function parseBankStatement(content: string, format: BankStatementFormat, defaultCurrency: string): BankStatementLine[] {
+  switch (format) {
+    case 'OFX':
+      return parseOfx(content, defaultCurrency)
+    case 'CAMT053':
+      return parseCamt053(content, defaultCurrency)
+    default:
+      return parseCsv(content, defaultCurrency)
+  }
+}
+
+/**
+ * Amount written the way banks export them: "1.234,56", "1,234.56", "(50.00)" or "$ 12.000".
+ * A lone separator followed by three digits is taken as thousands, as in CLP statements.
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim().replace(/[^\d,.()+-]/g, '')
+  if (!text) return null
+
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-') || text.endsWith('-')
+  text = text.replace(/[()+-]/g, '')
+
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+  const decimalSeparator = lastComma > -1 && lastDot > -1
+    ? (lastComma > lastDot ? ',' : '.')
+    : [',', '.'].find(separator => {
+      const parts = text.split(separator)
+      return parts.length === 2 && parts[1].length !== 3
+    })
+
+  const normalized = decimalSeparator
+    ? text.split(decimalSeparator).map(part => part.replace(/[.,]/g, '')).join('.')
+    : text.replace(/[.,]/g, '')
+  const amount = Number(normalized)
+
+  if (!normalized || !Number.isFinite(amount)) return null
+  return negative ? -amount : amount
+}
+
+/**
+ * Dates as ISO (2026-05-10), day first (10/05/2026, 10-05-2026, 10.05.2026) or compact
+ * (20260510, as in OFX). Returned at UTC midnight.
+ */
+export function parseStatementDate(value: string): Date | null {
+  const text = value.trim()
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/)
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/)
+
+  let parts: [number, number, number] | null = null
+  if (iso) parts = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  else if (dayFirst) parts = [Number(dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1])]
+  else if (compact) parts = [Number(compact[1]), Number(compact[2]), Number(compact[3])]
+
+  if (!parts) return null
+
+  const [year, month, day] = parts
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null
+}
+
+/**
+ * Uppercase letters and digits only, so "INV-2026-0012" is found in "PAGO FACT INV 2026 0012"
+ */
+export function normalizeReference(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * How likely a statement line is to be the given payment or a payment of the given invoice.
+ * The reference the payer quoted weighs most, then the amount and then the date.
+ */
+export function scoreReconciliationMatch(line: BankStatementLine, candidate: ReconciliationCandidate): ReconciliationScore {
+  const discrepancyAmount = Math.round((line.amount - candidate.amount) * 100) / 100
+
+  if (line.currency.toUpperCase() !== candidate.currency.toUpperCase()) {
+    return { confidence: 0, discrepancyType: 'CURRENCY_MISMATCH', discrepancyAmount }
+  }
+
+  const lineText = normalizeReference(`${line.bankReference || ''} ${line.description} ${line.transactionReference}`)
+  const referenceMatches = candidate.references
+    .map(normalizeReference)
+    .some(reference => reference.length >= MIN_REFERENCE_LENGTH && lineText.includes(reference))
+
+  const absoluteDifference = Math.abs(discrepancyAmount)
+  let amountScore = 0
+  if (absoluteDifference < 0.005) amountScore = AMOUNT_SCORE
+  else if (absoluteDifference <= candidate.amount * 0.01) amountScore = 25 // Bank fees or rounding
+  else if (line.amount < candidate.amount) amountScore = 10 // Partial payment of an invoice
+
+  const days = differenceInCalendarDays(line.transactionDate, candidate.date)
+  let dateScore = 0
+  if (candidate.type === 'PAYMENT') {
+    if (Math.abs(days) <= 3) dateScore = DATE_SCORE
+    else if (Math.abs(days) <= 10) dateScore = 5
+  } else if (days >= -1) {
+    const daysAfterDue = candidate.dueDate ? differenceInCalendarDays(line.transactionDate, candidate.dueDate) : 0
+    dateScore = daysAfterDue <= 30 ? DATE_SCORE : 5
+  }
+
+  const confidence = (referenceMatches ? REFERENCE_SCORE : 0) + amountScore + dateScore
+
+  let discrepancyType: ReconciliationDiscrepancy | null = null
+  if (amountScore < AMOUNT_SCORE) discrepancyType = 'AMOUNT_MISMATCH'
+  else if (!referenceMatches) discrepancyType = 'REFERENCE_MISMATCH'
+  else if (dateScore < DATE_SCORE) discrepancyType = 'DATE_MISMATCH'
+
+  return { confidence, discrepancyType, discrepancyAmount }
+}
+
+/**
+ * Lines confident enough to be matched without review. Amount differences always need a
+ * person to look at them.
+ */
+export function isAutoMatch(score: ReconciliationScore): boolean {
+  return score.confidence >= AUTO_MATCH_CONFIDENCE && score.discrepancyType !== 'AMOUNT_MISMATCH'
+}
+
+/**
+ * Best candidate for each line, with each candidate used at most once. The most confident
+ * pairs are taken first; on ties, earlier candidates win, so callers list the payments
+ * already recorded before the invoices they belong to.
+ */
+export function matchStatementLines(
+  lines: BankStatementLine[],
+  candidates: ReconciliationCandidate[]
+): (ReconciliationMatch | null)[] {
+  const pairs: { lineIndex: number, candidateIndex: number, score: ReconciliationScore }[] = []
+
+  lines.forEach((line, lineIndex) => {
+    candidates.forEach((candidate, candidateIndex) => {
+      const score = scoreReconciliationMatch(line, candidate)
+      if (score.confidence >= REVIEW_MATCH_CONFIDENCE) {
+        pairs.push({ lineIndex, candidateIndex, score })
+      }
+    })
+  })
+
+  pairs.sort((a, b) => b.score.confidence - a.score.confidence || a.candidateIndex - b.candidateIndex || a.lineIndex - b.lineIndex)
+
+  const matches: (ReconciliationMatch | null)[] = lines.map(() => null)
+  const usedCandidates = new Set<number>()
+
+  for (const pair of pairs) {
+    if (matches[pair.lineIndex] || usedCandidates.has(pair.candidateIndex)) continue
+
+    matches[pair.lineIndex] = { ...pair.score, candidate: candidates[pair.candidateIndex] }
+    usedCandidates.add(pair.candidateIndex)
+  }
+
+  return matches
+}
+
+/**
+ * Lines already imported in an earlier reconciliation, or repeated in the same statement
+ */
+export function findDuplicateLines(lines: BankStatementLine[], importedReferences: Set<string>): boolean[] {
+  const seen = new Set<string>()
+
+  return lines.map(line => {
+    const duplicate = importedReferences.has(line.transactionReference) || seen.has(line.transactionReference)
+    seen.add(line.transactionReference)
+    return duplicate
+  })
+}
+
+function createLineReference(date: Date, amount: number, description: string): string {
+  return `H${createHash('sha256').update(`${date.toISOString()}|${amount}|${description}`).digest('hex').slice(0, 24)}`
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+/**
+ * Column headers compared without accents, case or punctuation ("Fecha Operación" is "fecha operacion")
+ */
+export function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Cells of a CSV row; delimiters inside quotes are kept and doubled quotes unescaped
+ */
+export function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+
+    if (char === '"') {
+      if (quoted && row[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  cells.push(cell.trim())
+  return cells
+}
+
+function parseCsv(content: string, defaultCurrency: string): BankStatementLine[] {
+  const rows = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(row => row.trim())
+  const delimiter = [';', '\t', ','].find(candidate => rows.slice(0, 20).some(row => row.includes(candidate))) || ','
+
+  // Banks often put the account details above the column headers
+  let headerIndex = -1
+  let columns: Record<string, number> = {}
+  for (let i = 0; i < Math.min(rows.length, 20) && headerIndex < 0; i++) {
+    const headers = splitCsvRow(rows[i], delimiter).map(normalizeHeader)
+    const found: Record<string, number> = {}
+
+    Object.entries(CSV_COLUMNS).forEach(([column, aliases]) => {
+      const index = headers.findIndex(header => aliases.includes(header))
+      if (index > -1) found[column] = index
+    })
+
+    if (found.date !== undefined && (found.amount !== undefined || found.credit !== undefined)) {
+      headerIndex = i
+      columns = found
+    }
+  }
+
+  if (headerIndex < 0) {
+    throw new Error('The statement needs date and amount columns')
+  }
+
+  const lines: BankStatementLine[] = []
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cells = splitCsvRow(row, delimiter)
+    const cell = (column: string) => (columns[column] !== undefined ? cells[columns[column]] || '' : '')
+
+    const transactionDate = parseStatementDate(cell('date'))
+    const credit = parseStatementAmount(cell('credit'))
+    const debit = parseStatementAmount(cell('debit'))
+    const amount = columns.amount !== undefined
+      ? parseStatementAmount(cell('amount'))
+      : credit ? Math.abs(credit) : debit ? -Math.abs(debit) : null
+
+    // Balance and total rows have no date or amount
+    if (!transactionDate || amount === null || amount === 0) continue
+
+    const description = cell('description')
+    const reference = cell('reference')
+
+    lines.push({
+      transactionReference: reference || createLineReference(transactionDate, amount, description),
+      bankReference: reference || null,
+      amount,
+      currency: (cell('currency') || defaultCurrency).toUpperCase(),
+      transactionDate,
+      description,
+    })
+  }
+
+  return lines
+}
+
+function parseOfx(content: string, defaultCurrency: string): BankStatementLine[] {
+  const currency = content.match(/<CURDEF>\s*([A-Z]{3})/i)?.[1] || defaultCurrency
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || []
+
+  // OFX 1.x is SGML, so leaf elements are not always closed
+  const read = (block: string, tag: string) => {
+    const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1]
+    return value ? decodeXmlEntities(value) : ''
+  }
+
+  return blocks.flatMap(block => {
+    const transactionDate = parseStatementDate(read(block, 'DTPOSTED'))
+    const amount = parseStatementAmount(read(block, 'TRNAMT'))
+    if (!transactionDate || amount === null) return []
+
+    const description = [read(block, 'NAME'), read(block, 'MEMO')].filter(Boolean).join(' ')
+
+    return [{
+      transactionReference: read(block, 'FITID') || createLineReference(transactionDate, amount, description),
+      bankReference: read(block, 'REFNUM') || read(block, 'CHECKNUM') || null,
+      amount,
+      currency: currency.toUpperCase(),
+      transactionDate,
+      description,
+    }]
+  })
+}
+
+function parseCamt053(content: string, defaultCurrency: string): BankStatementLine[] {
+  const entries = content.match(/<Ntry>[\s\S]*?<\/Ntry>/g) || []
+
+  const read = (block: string, path: string[]) => {
+    const pattern = path.map(tag => `<${tag}(?:\\s[^>]*)?>`).join('[\\s\\S]*?') + '([^<]*)<'
+    const value = block.match(new RegExp(pattern))?.[1]
+    return value ? decodeXmlEntities(value) : ''
+  }
+
+  return entries.flatMap(entry => {
+    // Pending entries may still change or be reversed by the bank
+    if (/<Sts>\s*(?:<Cd>)?\s*PDNG/.test(entry)) return []
+
+    const amountElement = entry.match(/<Amt\s+Ccy="([A-Z]{3})"\s*>([^<]+)<\/Amt>/)
+    const transactionDate = parseStatementDate(read(entry, ['BookgDt', 'Dt']) || read(entry, ['BookgDt', 'DtTm']) || read(entry, ['ValDt', 'Dt']))
+    if (!amountElement || !transactionDate) return []
+
+    const amount = Number(amountElement[2]) * (read(entry, ['CdtDbtInd']) === 'DBIT' ? -1 : 1)
+    const remittance = (entry.match(/<Ustrd>[^<]*<\/Ustrd>/g) || []).map(element => decodeXmlEntities(element.replace(/<\/?Ustrd>/g, '')))
+    const description = [read(entry, ['RltdPties', 'Dbtr', 'Nm']), ...remittance, read(entry, ['AddtlNtryInf'])].filter(Boolean).join(' ')
+    const endToEndId = read(entry, ['EndToEndId'])
+
+    return [{
+      transactionReference: read(entry, ['AcctSvcrRef']) || read(entry, ['NtryRef']) || createLineReference(transactionDate, amount, description),
+      bankReference: read(entry, ['CdtrRefInf', 'Ref']) || (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null),
+      amount,
+      currency: amountElement[1] || defaultCurrency,
+      transactionDate,
+      description,
+    }]
+  })
+}
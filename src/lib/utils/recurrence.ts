@@ -0,0 +1,274 @@
+/**
+ * Recurrence expansion utilities for recurring bookings
+ * Converts BookingRecurrence settings to and from RFC 5545 RRULE strings
+ * and materialises the concrete occurrences of a series
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  startOfWeek,
+} from 'date-fns'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RecurrenceConfig {
+  pattern: RecurrenceFrequency
+  interval: number
+  daysOfWeek?: number[] // 0 = Sunday, 6 = Saturday
+  dayOfMonth?: number
+  endDate?: Date | null
+  occurrences?: number | null
+  exceptions?: Date[]
+}
+
+export interface RecurrenceOccurrence {
+  index: number // Position in the series, counting the first occurrence as 0
+  occurrenceDate: Date // Scheduled start, used to identify the occurrence within the series
+  startTime: Date
+  endTime: Date
+}
+
+export interface ExpandRecurrenceOptions {
+  from?: Date // Only return occurrences starting at or after this date
+  until?: Date // Stop expanding after this date, even if the rule continues
+  limit?: number // Maximum number of occurrences to return
+}
+
+// Hard cap for open-ended rules so an expansion can never run away
+export const MAX_RECURRENCE_OCCURRENCES = 500
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+/**
+ * Build an RRULE string (without the "RRULE:" prefix) from a recurrence config
+ */
+export function buildRRule(config: RecurrenceConfig): string {
+  const parts = [`FREQ=${config.pattern}`, `INTERVAL=${Math.max(1, config.interval || 1)}`]
+
+  if (config.pattern === 'WEEKLY' && config.daysOfWeek?.length) {
+    const days = [...config.daysOfWeek].sort((a, b) => a - b)
+    parts.push(`BYDAY=${days.map(day => RRULE_WEEKDAYS[day]).join(',')}`)
+  }
+
+  if (config.pattern === 'MONTHLY' && config.dayOfMonth) {
+    parts.push(`BYMONTHDAY=${config.dayOfMonth}`)
+  }
+
+  if (config.occurrences) {
+    parts.push(`COUNT=${config.occurrences}`)
+  } else if (config.endDate) {
+    parts.push(`UNTIL=${formatRRuleDate(config.endDate)}`)
+  }
+
+  return parts.join(';')
+}
+
+/**
+ * Parse an RRULE string into a recurrence config.
+ * Only the subset produced by buildRRule is supported; anything else throws.
+ */
+export function parseRRule(rule: string): RecurrenceConfig {
+  const config: RecurrenceConfig = { pattern: 'DAILY', interval: 1 }
+  const body = rule.trim().replace(/^RRULE:/i, '')
+
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, value] = part.split('=')
+    const key = rawKey.toUpperCase()
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value)) {
+          throw new Error(`Unsupported recurrence frequency: ${value}`)
+        }
+        config.pattern = value as RecurrenceFrequency
+        break
+      case 'INTERVAL':
+        config.interval = parseInt(value, 10)
+        break
+      case 'BYDAY':
+        config.daysOfWeek = value.split(',').map(day => {
+          const index = RRULE_WEEKDAYS.indexOf(day.toUpperCase())
+          if (index === -1) {
+            throw new Error(`Unsupported recurrence weekday: ${day}`)
+          }
+          return index
+        })
+        break
+      case 'BYMONTHDAY':
+        config.dayOfMonth = parseInt(value, 10)
+        break
+      case 'COUNT':
+        config.occurrences = parseInt(value, 10)
+        break
+      case 'UNTIL':
+        config.endDate = parseRRuleDate(value)
+        break
+      case 'WKST':
+        break
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`)
+    }
+  }
+
+  if (!Number.isInteger(config.interval) || config.interval < 1) {
+    throw new Error('Recurrence interval must be a positive integer')
+  }
+
+  return config
+}
+
+/**
+ * Expand a recurrence into concrete occurrences.
+ *
+ * The first occurrence is the series start itself. Following RFC 5545, COUNT
+ * is applied before exception dates are removed, so skipped dates still
+ * consume a slot in a counted series.
+ */
+export function expandRecurrence(
+  config: RecurrenceConfig,
+  seriesStart: Date,
+  durationMs: number,
+  options: ExpandRecurrenceOptions = {}
+): RecurrenceOccurrence[] {
+  const interval = Math.max(1, config.interval || 1)
+  const limit = Math.min(options.limit ?? MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES)
+  const exceptionKeys = new Set((config.exceptions || []).map(getOccurrenceKey))
+  const occurrences: RecurrenceOccurrence[] = []
+
+  let index = 0
+  for (const candidate of generateCandidates(config, seriesStart, interval)) {
+    if (config.occurrences && index >= config.occurrences) break
+    if (config.endDate && candidate > config.endDate) break
+    if (options.until && candidate > options.until) break
+    if (index >= MAX_RECURRENCE_OCCURRENCES) break
+
+    const isException = exceptionKeys.has(getOccurrenceKey(candidate))
+    const isBeforeWindow = options.from && candidate < options.from
+
+    if (!isException && !isBeforeWindow) {
+      occurrences.push({
+        index,
+        occurrenceDate: candidate,
+        startTime: candidate,
+        endTime: new Date(candidate.getTime() + durationMs),
+      })
+
+      if (occurrences.length >= limit) break
+    }
+
+    index++
+  }
+
+  return occurrences
+}
+
+/**
+ * Count how many occurrences of a series fall strictly before a given date,
+ * including exception dates (they still consume a COUNT slot)
+ */
+export function countOccurrencesBefore(config: RecurrenceConfig, seriesStart: Date, before: Date): number {
+  const withoutExceptions = { ...config, exceptions: [] }
+  return expandRecurrence(withoutExceptions, seriesStart, 0, { until: new Date(before.getTime() - 1) }).length
+}
+
+/**
+ * Stable per-day key used to match occurrences and exception dates
+ */
+export function getOccurrenceKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Candidate start dates in chronological order, before COUNT/UNTIL/exceptions are applied
+ */
+function* generateCandidates(config: RecurrenceConfig, seriesStart: Date, interval: number): Generator<Date> {
+  const hours = seriesStart.getHours()
+  const minutes = seriesStart.getMinutes()
+  const seconds = seriesStart.getSeconds()
+  const atSeriesTime = (date: Date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, seconds)
+
+  // Guard against rules that never produce a valid date (e.g. BYMONTHDAY=31 every 12 months from June)
+  const maxPeriods = MAX_RECURRENCE_OCCURRENCES * 4
+
+  switch (config.pattern) {
+    case 'DAILY': {
+      for (let period = 0; period < maxPeriods; period++) {
+        yield atSeriesTime(addDays(seriesStart, period * interval))
+      }
+      return
+    }
+
+    case 'WEEKLY': {
+      const days = config.daysOfWeek?.length
+        ? [...new Set(config.daysOfWeek)].sort((a, b) => a - b)
+        : [seriesStart.getDay()]
+      // RFC 5545 default week start is Monday
+      const firstWeek = startOfWeek(seriesStart, { weekStartsOn: 1 })
+
+      for (let period = 0; period < maxPeriods; period++) {
+        const weekStart = addWeeks(firstWeek, period * interval)
+        const weekDates = days
+          .map(day => atSeriesTime(addDays(weekStart, (day + 6) % 7)))
+          .sort((a, b) => a.getTime() - b.getTime())
+
+        for (const date of weekDates) {
+          if (differenceInCalendarDays(date, seriesStart) >= 0) {
+            yield date
+          }
+        }
+      }
+      return
+    }
+
+    case 'MONTHLY': {
+      const dayOfMonth = config.dayOfMonth || seriesStart.getDate()
+      const firstMonth = new Date(seriesStart.getFullYear(), seriesStart.getMonth(), 1)
+
+      for (let period = 0; period < maxPeriods; period++) {
+        const month = addMonths(firstMonth, period * interval)
+        // Months without the requested day are skipped, as RFC 5545 does
+        if (dayOfMonth > getDaysInMonth(month)) continue
+
+        const date = atSeriesTime(new Date(month.getFullYear(), month.getMonth(), dayOfMonth))
+        if (date >= seriesStart) {
+          yield date
+        }
+      }
+      return
+    }
+
+    case 'YEARLY': {
+      for (let period = 0; period < maxPeriods; period++) {
+        const year = addYears(seriesStart, period * interval).getFullYear()
+        // Skip years where the anniversary does not exist (29 February)
+        if (seriesStart.getDate() > getDaysInMonth(new Date(year, seriesStart.getMonth(), 1))) continue
+
+        yield atSeriesTime(new Date(year, seriesStart.getMonth(), seriesStart.getDate()))
+      }
+      return
+    }
+  }
+}
+
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function parseRRuleDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) {
+    throw new Error(`Invalid recurrence UNTIL date: ${value}`)
+  }
+
+  const [, year, month, day, hour = '23', minute = '59', second = '59', utc] = match
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const
+
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+}
@@ -0,0 +1,178 @@
+/**
+ * Subscription billing utilities
+ * Advances a subscription to its next billing period, turns the plan fee and
+ * the usage of a period into taxed invoice lines and prorates plan changes by day
+ */
+
+import { addDays, differenceInCalendarDays, subDays } from 'date-fns'
+import { getCreditPeriod, type CreditCycleConfig } from './booking-credits'
+import { calculateDocumentTaxes, type TaxContext } from './tax'
+import type { TaxRule } from './pricing'
+
+export interface BillingPeriod {
+  start: Date
+  end: Date // Exclusive, also the date the period is billed on
+}
+
+export interface BillableUsage {
+  id: string
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number
+  category?: string // Usage type or service category, picks the tax rule of the line
+}
+
+export interface SubscriptionInvoiceLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number
+  taxRuleId?: string | null
+  taxRate?: number
+  taxAmount?: number
+}
+
+export interface SubscriptionInvoiceDraft {
+  lines: SubscriptionInvoiceLine[]
+  subtotal: number
+  tax: number
+  total: number
+}
+
+export const PLAN_FEE_CATEGORY = 'MEMBERSHIP_PLAN'
+
+export interface ProrationDays {
+  used: number
+  remaining: number
+  total: number
+}
+
+/**
+ * Period that follows the current one. It starts where the current period ends and
+ * runs to the next billing day of the cycle.
+ */
+export function getNextBillingPeriod(current: BillingPeriod, config: CreditCycleConfig): BillingPeriod {
+  return {
+    start: current.end,
+    end: getCreditPeriod(current.end, config).end,
+  }
+}
+
+/**
+ * Last moment usage is billed with a period. Usage after the cutoff waits for the next invoice.
+ */
+export function getUsageCutoff(period: BillingPeriod, cutoffDays: number): Date {
+  return cutoffDays > 0 ? subDays(period.end, cutoffDays) : period.end
+}
+
+/**
+ * Invoice lines for one period: the plan fee followed by every usage line, each taxed
+ * by its own rule. Usage quantities are rounded up to whole units because invoice
+ * items count units.
+ */
+export function buildSubscriptionInvoice(
+  plan: { name: string; price: number },
+  period: BillingPeriod,
+  usage: BillableUsage[],
+  tax: { rules: TaxRule[]; context: TaxContext }
+): SubscriptionInvoiceDraft {
+  const lines = [
+    {
+      description: `${plan.name} (${formatPeriodDate(period.start)} - ${formatPeriodDate(subDays(period.end, 1))})`,
+      quantity: 1,
+      unitPrice: roundAmount(plan.price),
+      total: roundAmount(plan.price),
+      category: PLAN_FEE_CATEGORY,
+    },
+    ...usage.map(record => {
+      const quantity = Math.max(1, Math.ceil(record.quantity))
+      return {
+        description: record.description,
+        quantity,
+        unitPrice: roundAmount(record.total / quantity),
+        total: roundAmount(record.total),
+        category: record.category,
+      }
+    }),
+  ]
+
+  const taxes = calculateDocumentTaxes(lines, tax.rules, tax.context)
+
+  return {
+    lines: taxes.lines.map(line => ({
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      total: line.total,
+      taxRuleId: line.taxRuleId,
+      taxRate: line.taxRate,
+      taxAmount: line.taxAmount,
+    })),
+    subtotal: taxes.subtotal,
+    tax: taxes.tax,
+    total: taxes.total,
+  }
+}
+
+/**
+ * Days of the period already used at a given moment. The day of the change counts as remaining.
+ */
+export function getProrationDays(period: BillingPeriod, at: Date): ProrationDays {
+  const total = Math.max(1, differenceInCalendarDays(period.end, period.start))
+  const used = Math.min(total, Math.max(0, differenceInCalendarDays(at, period.start)))
+
+  return { used, remaining: total - used, total }
+}
+
+/**
+ * Plan fee for the part of the period used before a given moment
+ */
+export function getProratedPlanFee(price: number, period: BillingPeriod, at: Date): number {
+  const days = getProrationDays(period, at)
+  return roundAmount(price * days.used / days.total)
+}
+
+/**
+ * Adjustment lines for a plan change in the middle of a period. Periods are billed when
+ * they end with the plan active at that moment, so the days used before the change are
+ * charged at the previous plan and credited at the new one.
+ */
+export function buildPlanChangeProration(
+  from: { name: string; price: number },
+  to: { name: string; price: number },
+  period: BillingPeriod,
+  at: Date
+): SubscriptionInvoiceLine[] {
+  const days = getProrationDays(period, at)
+  if (days.used === 0) {
+    return []
+  }
+
+  const range = `${formatPeriodDate(period.start)} - ${formatPeriodDate(addDays(period.start, days.used - 1))}`
+  const charge = getProratedPlanFee(from.price, period, at)
+  const credit = getProratedPlanFee(to.price, period, at)
+
+  return [
+    {
+      description: `Cambio de plan: ${from.name} (${range})`,
+      quantity: days.used,
+      unitPrice: roundAmount(charge / days.used),
+      total: charge,
+    },
+    {
+      description: `Cambio de plan: crédito ${to.name} (${range})`,
+      quantity: days.used,
+      unitPrice: roundAmount(-credit / days.used),
+      total: -credit,
+    },
+  ]
+}
+
+function formatPeriodDate(date: Date): string {
+  return `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
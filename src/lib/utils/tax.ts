@@ -0,0 +1,206 @@
+/**
+ * Tax engine
+ * Picks the tax rule of every document line and works out net, tax and gross amounts
+ * for prices entered with or without tax
+ */
+
+import type { TaxRule } from '@/lib/utils/pricing'
+
+export interface TaxableLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  total?: number // Line amount when it is not exactly quantity times a rounded unit price
+  category?: string // Service category or usage type, matched against the rule service types
+  taxRuleId?: string | null // Rule chosen by hand for the line
+}
+
+export interface TaxContext {
+  pricesIncludeTax: boolean
+  exempt: boolean // Tax-exempt client
+  fallbackRate?: number // Percentage used when the tenant has no tax rules
+}
+
+export interface TaxedLine extends TaxableLine {
+  total: number // Line amount as entered
+  taxRuleId: string | null
+  taxRate: number // Percentage
+  taxAmount: number
+}
+
+export interface TaxBreakdownEntry {
+  taxRuleId: string | null
+  name: string
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
+export interface TaxCalculation {
+  lines: TaxedLine[]
+  amount: number // Sum of the line totals as entered
+  discount: number
+  subtotal: number // Taxable amount after the discount, without tax
+  tax: number
+  total: number
+  breakdown: TaxBreakdownEntry[]
+}
+
+export const EXEMPT_TAX_NAME = 'Exento'
+export const FALLBACK_TAX_NAME = 'Impuesto'
+
+/**
+ * Rule for one line. A rule chosen by hand wins; otherwise a rule limited to the line
+ * category beats a general one, and the first matching rule of each kind is used.
+ */
+export function selectTaxRule(line: TaxableLine, rules: TaxRule[], amount: number): TaxRule | null {
+  const activeRules = rules.filter(rule => rule.isActive)
+
+  if (line.taxRuleId) {
+    const chosen = activeRules.find(rule => rule.id === line.taxRuleId)
+    if (chosen) return chosen
+  }
+
+  const applicable = activeRules.filter(rule => {
+    const threshold = rule.conditions?.amountThreshold
+    return !threshold || amount >= threshold
+  })
+
+  const specific = applicable.find(rule =>
+    line.category && rule.conditions?.serviceTypes?.includes(line.category)
+  )
+  if (specific) return specific
+
+  return applicable.find(rule => !rule.conditions?.serviceTypes?.length) || null
+}
+
+/**
+ * Taxes of a document. A document-level discount is spread over the lines in proportion
+ * to their amount before the tax is worked out.
+ */
+export function calculateDocumentTaxes(
+  lines: TaxableLine[],
+  rules: TaxRule[],
+  context: TaxContext,
+  discount = 0
+): TaxCalculation {
+  const totals = lines.map(line => roundAmount(line.total ?? line.quantity * line.unitPrice))
+  const amount = roundAmount(totals.reduce((sum, total) => sum + total, 0))
+  const appliedDiscount = roundAmount(Math.min(Math.max(discount, 0), amount))
+
+  const breakdown = new Map<string, TaxBreakdownEntry>()
+  let subtotal = 0
+  let tax = 0
+
+  const taxedLines = lines.map((line, index) => {
+    const total = totals[index]
+    const discountShare = amount > 0 ? appliedDiscount * total / amount : 0
+    const base = total - discountShare
+
+    let rule: TaxRule | null = null
+    let rate = 0
+    let name = EXEMPT_TAX_NAME
+
+    if (!context.exempt) {
+      if (rules.length > 0) {
+        rule = selectTaxRule(line, rules, total)
+        rate = rule?.rate ?? 0
+        name = rule?.name ?? EXEMPT_TAX_NAME
+      } else if (context.fallbackRate) {
+        rate = context.fallbackRate
+        name = FALLBACK_TAX_NAME
+      }
+    }
+
+    const taxAmount = context.pricesIncludeTax
+      ? roundAmount(base - base / (1 + rate / 100))
+      : roundAmount(base * rate / 100)
+    const net = context.pricesIncludeTax ? base - taxAmount : base
+
+    subtotal += net
+    tax += taxAmount
+
+    const key = `${rule?.id ?? ''}:${rate}`
+    const entry = breakdown.get(key) || { taxRuleId: rule?.id ?? null, name, rate, taxableAmount: 0, taxAmount: 0 }
+    entry.taxableAmount = roundAmount(entry.taxableAmount + net)
+    entry.taxAmount = roundAmount(entry.taxAmount + taxAmount)
+    breakdown.set(key, entry)
+
+    return {
+      ...line,
+      total,
+      taxRuleId: rule?.id ?? null,
+      taxRate: rate,
+      taxAmount,
+    }
+  })
+
+  subtotal = roundAmount(subtotal)
+  tax = roundAmount(tax)
+
+  return {
+    lines: taxedLines,
+    amount,
+    discount: appliedDiscount,
+    subtotal,
+    tax,
+    total: roundAmount(subtotal + tax),
+    breakdown: Array.from(breakdown.values()),
+  }
+}
+
+/**
+ * Amounts of a stored line as documents show them, with or without its tax
+ */
+export function getDisplayLineAmounts(
+  line: { quantity: number; unitPrice: number; total: number; taxAmount: number },
+  taxIncluded: boolean,
+  display: 'EXCLUSIVE' | 'INCLUSIVE'
+): { unitPrice: number; total: number } {
+  if (taxIncluded === (display === 'INCLUSIVE')) {
+    return { unitPrice: line.unitPrice, total: line.total }
+  }
+
+  const total = roundAmount(taxIncluded ? line.total - line.taxAmount : line.total + line.taxAmount)
+  return { unitPrice: roundAmount(total / Math.max(1, line.quantity)), total }
+}
+
+/**
+ * Tax report rows per rule and rate: invoiced tax minus the tax given back by credit notes
+ */
+export function summarizeTaxes(
+  invoiced: TaxBreakdownEntry[],
+  credited: TaxBreakdownEntry[]
+): Array<TaxBreakdownEntry & { creditedAmount: number; netTaxAmount: number }> {
+  const rows = new Map<string, TaxBreakdownEntry & { creditedAmount: number; netTaxAmount: number }>()
+
+  const rowFor = (entry: TaxBreakdownEntry) => {
+    const key = `${entry.taxRuleId ?? ''}:${entry.rate}`
+    let row = rows.get(key)
+    if (!row) {
+      row = { ...entry, taxableAmount: 0, taxAmount: 0, creditedAmount: 0, netTaxAmount: 0 }
+      rows.set(key, row)
+    }
+    return row
+  }
+
+  for (const entry of invoiced) {
+    const row = rowFor(entry)
+    row.taxableAmount = roundAmount(row.taxableAmount + entry.taxableAmount)
+    row.taxAmount = roundAmount(row.taxAmount + entry.taxAmount)
+  }
+
+  for (const entry of credited) {
+    const row = rowFor(entry)
+    row.taxableAmount = roundAmount(row.taxableAmount - entry.taxableAmount)
+    row.creditedAmount = roundAmount(row.creditedAmount + entry.taxAmount)
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, netTaxAmount: roundAmount(row.taxAmount - row.creditedAmount) }))
+    .sort((a, b) => b.rate - a.rate || a.name.localeCompare(b.name))
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,103 @@
+/**
+ * Time zone helpers
+ * Dates are stored as instants; rules written in wall-clock terms (opening hours, peak
+ * hours, weekends) have to be evaluated in the tenant's time zone, not the server's
+ */
+
+export interface ZonedDateParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hours: number // 0-23
+  minutes: number
+  dayOfWeek: number // 0 = Sunday, 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Whether the name is an IANA time zone the runtime knows, e.g. "America/Santiago"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wall-clock parts of a date in a time zone. Without a time zone the server's local
+ * time is used; unknown time zones fall back to UTC.
+ */
+export function getZonedParts(date: Date, timeZone?: string | null): ZonedDateParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      dayOfWeek: date.getDay(),
+    }
+  }
+
+  const parts = getFormatter(timeZone).formatToParts(date)
+  const value = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || ''
+
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hours: Number(value('hour')) % 24,
+    minutes: Number(value('minute')),
+    dayOfWeek: WEEKDAYS.indexOf(value('weekday')),
+  }
+}
+
+/**
+ * Minutes since midnight of the date's day in a time zone
+ */
+export function getZonedMinutesOfDay(date: Date, timeZone?: string | null): number {
+  const { hours, minutes } = getZonedParts(date, timeZone)
+  return hours * 60 + minutes
+}
+
+/**
+ * Last millisecond of the date's day in a time zone
+ */
+export function endOfZonedDay(date: Date, timeZone?: string | null): Date {
+  const startOfMinute = Math.floor(date.getTime() / 60000) * 60000
+  return new Date(startOfMinute + (24 * 60 - getZonedMinutesOfDay(date, timeZone)) * 60000 - 1)
+}
+
+/**
+ * Format a date as "dd/MM HH:mm" in a time zone
+ */
+export function formatZonedDateTime(date: Date, timeZone?: string | null): string {
+  const { day, month, hours, minutes } = getZonedParts(date, timeZone)
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${pad(day)}/${pad(month)} ${pad(hours)}:${pad(minutes)}`
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC'
+  let formatter = formatters.get(zone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+    formatters.set(zone, formatter)
+  }
+  return formatter
+}
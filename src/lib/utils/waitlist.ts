@@ -0,0 +1,73 @@
+/**
+ * Booking waitlist utilities
+ * Decides which waitlisted requests are offered a freed slot, how long the hold lasts
+ * and what happens when a hold runs out
+ */
+
+export interface WaitlistCandidate {
+  id: string
+  startTime: Date
+  endTime: Date
+  createdAt: Date
+}
+
+export type WaitlistPromotionStep =
+  | { entryId: string; action: 'EXPIRE' } // The requested slot already started
+  | { entryId: string; action: 'OFFER'; offerExpiresAt: Date }
+
+/**
+ * End of the hold on a freed slot. The hold never runs past the start of the slot.
+ */
+export function getWaitlistHoldExpiry(now: Date, slotStart: Date, holdMinutes: number): Date {
+  return new Date(Math.min(now.getTime() + holdMinutes * 60 * 1000, slotStart.getTime()))
+}
+
+/**
+ * Plan the offers for a freed slot. Requests are served in the order they joined; each
+ * one whose slot is free gets a timed hold, which keeps the overlapping requests behind it
+ * waiting. `unavailableIds` are the requests whose slot is still taken by a booking or
+ * held for someone else.
+ */
+export function planWaitlistPromotion(
+  candidates: WaitlistCandidate[],
+  unavailableIds: Set<string>,
+  now: Date,
+  holdMinutes: number
+): WaitlistPromotionStep[] {
+  const steps: WaitlistPromotionStep[] = []
+  const offered: WaitlistCandidate[] = []
+
+  const ordered = [...candidates].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+  for (const entry of ordered) {
+    if (entry.startTime <= now) {
+      steps.push({ entryId: entry.id, action: 'EXPIRE' })
+      continue
+    }
+
+    const heldForEarlierEntry = offered.some(other => other.startTime < entry.endTime && other.endTime > entry.startTime)
+    if (unavailableIds.has(entry.id) || heldForEarlierEntry) {
+      continue
+    }
+
+    offered.push(entry)
+    steps.push({
+      entryId: entry.id,
+      action: 'OFFER',
+      offerExpiresAt: getWaitlistHoldExpiry(now, entry.startTime, holdMinutes),
+    })
+  }
+
+  return steps
+}
+
+/**
+ * What happens to an offer whose hold ran out: members that opted in are booked
+ * automatically while the slot is still ahead, otherwise the slot passes to the next person
+ */
+export function resolveExpiredWaitlistOffer(
+  entry: { autoConfirm: boolean; startTime: Date },
+  now: Date
+): 'CONFIRM' | 'EXPIRE' {
+  return entry.autoConfirm && entry.startTime > now ? 'CONFIRM' : 'EXPIRE'
+}
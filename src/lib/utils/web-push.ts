@@ -0,0 +1,110 @@
+/**
+ * Web Push utilities
+ * Payload encryption (RFC 8291) and VAPID authorization (RFC 8292) for the push channel
+ */
+
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto'
+
+export interface PushSubscription {
+  endpoint: string
+  keys: {
+    p256dh: string // Browser's public key, base64url
+    auth: string // Browser's authentication secret, base64url
+  }
+}
+
+export interface VapidKeys {
+  publicKey: string // Uncompressed P-256 point, base64url
+  privateKey: string // P-256 private scalar, base64url
+  subject: string // mailto: or https: contact for the push service
+}
+
+// Payloads go in a single record; push services reject bodies over 4 KB anyway
+const RECORD_SIZE = 4096
+
+// VAPID tokens are accepted for up to a day; they are signed per request anyway
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60
+
+/**
+ * Push tokens are stored as the JSON of the browser's PushSubscription. Returns null for
+ * anything else, such as tokens of native push services.
+ */
+export function parsePushSubscription(token: string): PushSubscription | null {
+  try {
+    const subscription = JSON.parse(token)
+    if (
+      typeof subscription?.endpoint === 'string' &&
+      /^https:\/\//.test(subscription.endpoint) &&
+      typeof subscription.keys?.p256dh === 'string' &&
+      typeof subscription.keys?.auth === 'string'
+    ) {
+      return subscription as PushSubscription
+    }
+  } catch {
+    // Not JSON
+  }
+  return null
+}
+
+/**
+ * Encrypt a payload for a subscription with the aes128gcm content encoding. The salt and
+ * sender keys are only passed in tests; every message gets fresh ones otherwise.
+ */
+export function encryptPushPayload(
+  payload: string,
+  subscription: PushSubscription,
+  options: { salt?: Buffer; senderPrivateKey?: Buffer } = {}
+): Buffer {
+  const receiverPublicKey = Buffer.from(subscription.keys.p256dh, 'base64url')
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url')
+  const salt = options.salt || randomBytes(16)
+
+  const sender = createECDH('prime256v1')
+  if (options.senderPrivateKey) sender.setPrivateKey(options.senderPrivateKey)
+  else sender.generateKeys()
+  const senderPublicKey = sender.getPublicKey()
+  const sharedSecret = sender.computeSecret(receiverPublicKey)
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey])
+  const inputKey = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32))
+  const contentKey = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16))
+  const nonce = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12))
+
+  // A 0x02 delimiter marks the last (and only) record
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce)
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(payload)), cipher.update(Buffer.from([2])), cipher.final(), cipher.getAuthTag()])
+
+  const header = Buffer.alloc(21)
+  salt.copy(header, 0)
+  header.writeUInt32BE(RECORD_SIZE, 16)
+  header.writeUInt8(senderPublicKey.length, 20)
+
+  return Buffer.concat([header, senderPublicKey, ciphertext])
+}
+
+/**
+ * Authorization header value that identifies us to the push service of the endpoint
+ */
+export function createVapidAuthorization(endpoint: string, keys: VapidKeys, now: Date = new Date()): string {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url')
+  const privateKey = createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+  })
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_SECONDS,
+    sub: keys.subject,
+  })}`
+  const signature = sign('sha256', Buffer.from(unsigned), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${keys.publicKey}`
+}
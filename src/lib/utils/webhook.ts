@@ -0,0 +1,138 @@
+/**
+ * Outbound webhook utilities
+ * Payloads, signing, the retry schedule and the address checks of the deliveries to the
+ * endpoints tenants subscribe
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { lookup } from 'dns'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import type { WebhookEvent } from '@/lib/validations/integration'
+
+export interface WebhookPayload {
+  id: string
+  type: WebhookEvent
+  createdAt: string
+  tenantId: string
+  data: Record<string, unknown>
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-SweetSpot-Signature'
+
+// Attempts before a delivery is moved to the dead letter state
+export const MAX_WEBHOOK_ATTEMPTS = 8
+
+const RETRY_BASE_SECONDS = 5 * 60
+const MAX_RETRY_DELAY_SECONDS = 24 * 60 * 60
+
+// Stored response bodies are cut to this length
+export const MAX_WEBHOOK_RESPONSE_LENGTH = 2000
+
+// Loopback, private, link-local and other ranges that are not on the public internet
+const NON_PUBLIC_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'], // Multicast and reserved
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'], // NAT64, embeds IPv4 addresses
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+const nonPublicAddresses = new BlockList()
+for (const [address, prefix, type] of NON_PUBLIC_RANGES) {
+  nonPublicAddresses.addSubnet(address, prefix, type)
+}
+
+/**
+ * Secret the tenant uses to verify that deliveries come from us
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`
+}
+
+export function createWebhookPayload(
+  tenantId: string,
+  type: WebhookEvent,
+  data: Record<string, unknown>,
+  createdAt: Date = new Date()
+): WebhookPayload {
+  return {
+    id: `evt_${randomUUID().replace(/-/g, '')}`,
+    type,
+    createdAt: createdAt.toISOString(),
+    tenantId,
+    data,
+  }
+}
+
+/**
+ * Signature header for a delivery: an HMAC-SHA256 of "timestamp.body" with the webhook
+ * secret, in the same "t=...,v1=..." format Stripe uses so receivers can reuse their checks
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: Date = new Date()): string {
+  const seconds = Math.floor(timestamp.getTime() / 1000)
+  const signature = createHmac('sha256', secret).update(`${seconds}.${body}`).digest('hex')
+  return `t=${seconds},v1=${signature}`
+}
+
+/**
+ * When to try a failed delivery again: five minutes after the first attempt, doubling each
+ * time up to a day. Returns null once the attempts are used up.
+ */
+export function calculateNextWebhookAttempt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) return null
+
+  const delay = Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_SECONDS)
+  return new Date(now.getTime() + delay * 1000)
+}
+
+export function isSuccessfulWebhookResponse(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+/**
+ * Whether deliveries may be sent to an address. Anything that is not a public address is
+ * refused, so webhooks cannot reach the servers and services on our own network.
+ */
+export function isPublicWebhookAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+  const version = isIP(address)
+
+  if (!version) return false
+  return !nonPublicAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * DNS lookup for the delivery connection that fails when the host resolves to any address
+ * that is not public. Checking while connecting, rather than before, means the request goes
+ * to the address that was checked even if the host's DNS answer changes in between.
+ */
+export const lookupPublicWebhookAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicWebhookAddress(address))) {
+      callback(new Error('Webhook URL resolves to a private network address'), '')
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod'
+import { GatewayProviderSchema } from './payment'
+
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
+// Subscription schemas
+export const changeSubscriptionPlanSchema = z.object({
+  subscriptionId: cuidValidation,
+  planId: cuidValidation,
+})
+
+export const cancelSubscriptionSchema = z.object({
+  subscriptionId: cuidValidation,
+  atPeriodEnd: z.boolean().default(true),
+})
+
+// Dunning schemas
+export const FeeTypeSchema = z.enum([
+  'FIXED',
+  'PERCENTAGE'
+])
+
+export const updateDunningSettingsSchema = z.object({
+  dunningEnabled: z.boolean(),
+  dunningReminderDays: z.array(z.number().int().min(0, 'Reminder days cannot be negative').max(365, 'Reminder days must be within a year')).max(10, 'At most 10 reminders'),
+  gracePeriodDays: z.number().int().min(0, 'Grace period cannot be negative').max(365, 'Grace period must be within a year'),
+  latePaymentFee: z.number().min(0, 'Late fee cannot be negative'),
+  latePaymentFeeType: FeeTypeSchema,
+  retryFailedPayments: z.boolean(),
+  maxRetryAttempts: z.number().int().min(0, 'Retry attempts cannot be negative').max(10, 'At most 10 retry attempts'),
+  retryIntervalDays: z.number().int().min(1, 'Retry interval must be at least 1 day').max(90, 'Retry interval must be within 90 days'),
+  reminderSubject: z.string().max(200, 'Subject must be less than 200 characters').optional(),
+  reminderBody: z.string().max(5000, 'Message must be less than 5000 characters').optional(),
+}).refine(data => data.latePaymentFeeType !== 'PERCENTAGE' || data.latePaymentFee <= 100, {
+  message: 'Percentage late fee cannot exceed 100',
+  path: ['latePaymentFee'],
+})
+
+// Credit note schemas
+export const creditNoteLineSchema = z.object({
+  invoiceItemId: cuidValidation,
+  quantity: z.number().int().positive('Quantity must be positive').optional(),
+  amount: z.number().positive('Amount must be positive').optional(),
+})
+
+export const createCreditNoteSchema = z.object({
+  invoiceId: cuidValidation,
+  reason: z.string().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters'),
+  lines: z.array(creditNoteLineSchema).max(100, 'Too many lines').optional(),
+  amount: z.number().positive('Amount must be positive').optional(),
+}).refine(data => (data.lines && data.lines.length > 0) || data.amount, {
+  message: 'Select invoice lines or enter an amount to credit',
+  path: ['lines'],
+})
+
+export const applyCreditBalanceSchema = z.object({
+  invoiceId: cuidValidation,
+})
+
+export const voidCreditNoteSchema = z.object({
+  creditNoteId: cuidValidation,
+})
+
+// Tax schemas
+export const TaxTypeSchema = z.enum([
+  'SALES_TAX',
+  'VAT',
+  'SERVICE_TAX',
+  'OTHER'
+])
+
+export const TaxDisplaySchema = z.enum([
+  'EXCLUSIVE',
+  'INCLUSIVE'
+])
+
+// Line categories a rule can be limited to: service categories and usage types
+export const TAX_CATEGORY_LABELS: Record<string, string> = {
+  MEMBERSHIP_PLAN: 'Cuota del plan',
+  SPACE_BOOKING: 'Reservas de espacios',
+  PRINTING: 'Impresión',
+  COFFEE: 'Café',
+  FOOD: 'Comida',
+  PARKING: 'Estacionamiento',
+  STORAGE: 'Almacenamiento',
+  MAIL: 'Correo',
+  PHONE: 'Teléfono',
+  INTERNET: 'Internet',
+  CLEANING: 'Limpieza',
+  BUSINESS_SUPPORT: 'Soporte Empresarial',
+  EVENT_SERVICES: 'Servicios de Eventos',
+  WELLNESS: 'Bienestar',
+  TRANSPORTATION: 'Transporte',
+  CONSULTING: 'Consultoría',
+  MAINTENANCE: 'Mantenimiento',
+  OTHER: 'Otros',
+}
+
+export const TAX_TYPE_LABELS: Record<string, string> = {
+  VAT: 'IVA',
+  SALES_TAX: 'Impuesto a las ventas',
+  SERVICE_TAX: 'Impuesto a los servicios',
+  OTHER: 'Otro',
+}
+
+const taxRuleFields = {
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  rate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate cannot exceed 100'),
+  type: TaxTypeSchema,
+  jurisdiction: z.string().max(100, 'Jurisdiction must be less than 100 characters'),
+  serviceTypes: z.array(z.string().min(1).max(50)).max(50, 'Too many service types'),
+  amountThreshold: z.number().positive('Threshold must be positive').nullable().optional(),
+  isActive: z.boolean(),
+}
+
+export const taxRuleSchema = z.object({
+  ...taxRuleFields,
+  type: taxRuleFields.type.default('VAT'),
+  jurisdiction: taxRuleFields.jurisdiction.default(''),
+  serviceTypes: taxRuleFields.serviceTypes.default([]),
+  isActive: taxRuleFields.isActive.default(true),
+})
+
+export const updateTaxRuleSchema = z.object(taxRuleFields).partial().extend({
+  taxRuleId: cuidValidation,
+})
+
+export const deleteTaxRuleSchema = z.object({
+  taxRuleId: cuidValidation,
+})
+
+export const updateTaxSettingsSchema = z.object({
+  taxRate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate cannot exceed 100'), // Percentage used when there are no tax rules
+  taxIncluded: z.boolean(),
+  taxDisplay: TaxDisplaySchema,
+})
+
+// Online payment schemas
+export const updateOnlinePaymentSettingsSchema = z.object({
+  onlinePaymentProvider: GatewayProviderSchema.nullable(), // Null turns card payments on the hosted page off
+  bankTransferInstructions: z.string().max(1000, 'Instructions must be less than 1000 characters').nullable(),
+  paymentLinkExpiryDays: z.number().int().min(1, 'Links must last at least 1 day').max(365, 'Links must expire within a year'),
+})
+
+export const taxSummarySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(data => data.from < data.to, {
+  message: 'Start date must be before end date',
+  path: ['to'],
+})
+
+// Type exports
+export type ChangeSubscriptionPlanRequest = z.infer<typeof changeSubscriptionPlanSchema>
+export type CancelSubscriptionRequest = z.infer<typeof cancelSubscriptionSchema>
+export type UpdateDunningSettingsRequest = z.infer<typeof updateDunningSettingsSchema>
+export type UpdateOnlinePaymentSettingsRequest = z.infer<typeof updateOnlinePaymentSettingsSchema>
+export type CreateCreditNoteRequest = z.infer<typeof createCreditNoteSchema>
+export type ApplyCreditBalanceRequest = z.infer<typeof applyCreditBalanceSchema>
+export type VoidCreditNoteRequest = z.infer<typeof voidCreditNoteSchema>
+export type TaxRuleRequest = z.infer<typeof taxRuleSchema>
+export type UpdateTaxRuleRequest = z.infer<typeof updateTaxRuleSchema>
+export type DeleteTaxRuleRequest = z.infer<typeof deleteTaxRuleSchema>
+export type UpdateTaxSettingsRequest = z.infer<typeof updateTaxSettingsSchema>
+export type TaxSummaryRequest = z.infer<typeof taxSummarySchema>
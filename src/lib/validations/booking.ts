@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { SpaceTypeSchema } from './space'
 
 // CUID validation helper
 const cuidRegex = /^c[^\s-]{8,}$/i
@@ -32,6 +33,20 @@ export const RecurrenceTypeSchema = z.enum([
   'CUSTOM'
 ])
 
+export const SeriesEditScopeSchema = z.enum([
+  'THIS',
+  'FOLLOWING',
+  'ALL'
+])
+
+export const WaitlistStatusSchema = z.enum([
+  'WAITING',
+  'OFFERED',
+  'CONFIRMED',
+  'EXPIRED',
+  'CANCELLED'
+])
+
 export const CheckInMethodSchema = z.enum([
   'MANUAL',
   'QR_CODE',
@@ -53,6 +68,11 @@ export const CancellationReasonSchema = z.enum([
   'OTHER'
 ])
 
+export const CancellationRefundMethodSchema = z.enum(['REFUND', 'CREDIT', 'CHOICE'])
+
+// What the member wants back when the policy lets them choose
+export const RefundPreferenceSchema = z.enum(['REFUND', 'CREDIT'])
+
 // Booking participant schema
 export const BookingParticipantSchema = z.object({
   userId: cuidValidation.optional(),
@@ -108,6 +128,7 @@ const baseBookingObject = z.object({
   participants: z.array(BookingParticipantSchema).default([]),
   services: z.array(BookingServiceSchema).default([]),
   totalAmount: z.number().min(0, 'Total amount cannot be negative').default(0),
+  discountCode: z.string().trim().min(1).max(50, 'Discount code must be less than 50 characters').optional(),
   setupTime: z.number().min(0, 'Setup time cannot be negative').default(0), // in minutes
   cleanupTime: z.number().min(0, 'Cleanup time cannot be negative').default(0), // in minutes
   notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
@@ -117,6 +138,7 @@ const baseBookingObject = z.object({
   isRecurring: z.boolean().default(false),
   recurrenceRule: RecurrenceRuleSchema.optional(),
   parentBookingId: cuidValidation.optional(), // For recurring bookings
+  paymentId: cuidValidation.optional(), // Payment that settled the booking
   approvedBy: cuidValidation.optional(),
   approvedAt: z.date().optional(),
   checkedInAt: z.date().optional(),
@@ -149,6 +171,7 @@ export const createBookingSchema = baseBookingSchema
 // Update booking schema (all fields optional except ID)
 export const updateBookingSchema = z.object({
   id: cuidValidation,
+  refundMethod: RefundPreferenceSchema.optional(), // Used when the update cancels the booking
 }).merge(baseBookingObject.partial())
 
 // Delete booking schema
@@ -156,6 +179,7 @@ export const deleteBookingSchema = z.object({
   id: cuidValidation,
   reason: CancellationReasonSchema.optional(),
   notes: z.string().max(500).optional(),
+  refundMethod: RefundPreferenceSchema.optional(),
 })
 
 // Get booking schema
@@ -198,6 +222,44 @@ export const checkBookingConflictsSchema = z.object({
   }
 )
 
+// Booking price calculation schema
+export const calculateBookingPriceSchema = z.object({
+  spaceId: cuidValidation,
+  startTime: z.date({
+    required_error: 'Start time is required',
+  }),
+  endTime: z.date({
+    required_error: 'End time is required',
+  }),
+  services: z.array(BookingServiceSchema.pick({ serviceId: true, quantity: true })).default([]),
+  discountCode: z.string().trim().min(1).max(50).optional(),
+}).refine(
+  (data) => data.endTime > data.startTime,
+  {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }
+)
+
+// Booking policy check schema
+export const checkBookingPolicySchema = z.object({
+  spaceId: cuidValidation,
+  startTime: z.date({
+    required_error: 'Start time is required',
+  }),
+  endTime: z.date({
+    required_error: 'End time is required',
+  }),
+  isRecurring: z.boolean().default(false),
+  language: z.enum(['es', 'en']).default('es'),
+}).refine(
+  (data) => data.endTime > data.startTime,
+  {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }
+)
+
 // Booking check-in schema
 export const checkInBookingSchema = z.object({
   id: cuidValidation,
@@ -293,14 +355,154 @@ export const generateRecurringBookingsSchema = z.object({
   maxBookings: z.number().int().min(1).max(1000).default(100),
   skipConflicts: z.boolean().default(true),
   notifyConflicts: z.boolean().default(true),
+  dryRun: z.boolean().default(false), // Report occurrences and conflicts without creating bookings
+})
+
+// Recurring series edit schema
+export const updateBookingSeriesSchema = z.object({
+  id: cuidValidation,
+  scope: SeriesEditScopeSchema,
+  spaceId: cuidValidation.optional(),
+  title: z.string().min(1, 'Booking title is required').max(200, 'Title must be less than 200 characters').optional(),
+  description: z.string().max(1000, 'Description must be less than 1000 characters').optional(),
+  startTime: z.date().optional(),
+  endTime: z.date().optional(),
+}).refine(
+  (data) => !data.startTime || !data.endTime || data.endTime > data.startTime,
+  {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }
+)
+
+// Recurring series cancellation schema
+export const cancelBookingSeriesSchema = z.object({
+  id: cuidValidation,
+  scope: SeriesEditScopeSchema,
+  reason: CancellationReasonSchema.optional(),
+  refundMethod: RefundPreferenceSchema.optional(),
+})
+
+// Cancellation policy schemas
+export const CancellationTierSchema = z.object({
+  minNoticeHours: z.number().min(0, 'Notice cannot be negative'),
+  refundPercent: z.number().min(0).max(100, 'Refund cannot exceed 100%'),
+  feeAmount: z.number().min(0, 'Fee cannot be negative').optional(),
+})
+
+export const upsertCancellationPolicySchema = z.object({
+  id: cuidValidation.optional(),
+  planId: cuidValidation.nullable().optional(), // null = tenant default
+  name: z.string().min(1, 'Policy name is required').max(100),
+  tiers: z.array(CancellationTierSchema).min(1, 'At least one tier is required').max(10),
+  refundMethod: CancellationRefundMethodSchema.default('REFUND'),
+  isActive: z.boolean().default(true),
+}).refine(
+  (data) => new Set(data.tiers.map(tier => tier.minNoticeHours)).size === data.tiers.length,
+  {
+    message: 'Each tier must have a different notice period',
+    path: ['tiers'],
+  }
+)
+
+export const deleteCancellationPolicySchema = z.object({
+  id: cuidValidation,
+})
+
+export const previewBookingCancellationSchema = z.object({
+  id: cuidValidation,
+  refundMethod: RefundPreferenceSchema.optional(),
+})
+
+// Booking bundle schemas
+export const createBookingBundleSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(255, 'Title must be less than 255 characters'),
+  description: z.string().max(1000, 'Description must be less than 1000 characters').optional(),
+  userId: cuidValidation,
+  startTime: z.date(),
+  endTime: z.date(),
+  spaceIds: z.array(cuidValidation).min(1, 'At least one space is required').max(10, 'A bundle cannot have more than 10 spaces'),
+  services: z.array(BookingServiceSchema).default([]), // Reserved once for the whole bundle
+  discountCode: z.string().trim().min(1).max(50, 'Discount code must be less than 50 characters').optional(),
+}).refine(
+  (data) => data.endTime > data.startTime,
+  {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }
+).refine(
+  (data) => new Set(data.spaceIds).size === data.spaceIds.length,
+  {
+    message: 'Each space can only be added once',
+    path: ['spaceIds'],
+  }
+)
+
+export const getBookingBundleSchema = z.object({
+  id: cuidValidation,
+})
+
+export const cancelBookingBundleSchema = z.object({
+  id: cuidValidation,
+  reason: CancellationReasonSchema.optional(),
+  refundMethod: RefundPreferenceSchema.optional(),
+})
+
+// Booking credit schemas
+export const BookingCreditUnitSchema = z.enum(['HOURS', 'CURRENCY'])
+
+export const updatePlanBookingCreditsSchema = z.object({
+  planId: cuidValidation,
+  bookingCredits: z.number().min(0, 'Credits cannot be negative').nullable(), // null = no credits
+  bookingCreditUnit: BookingCreditUnitSchema.default('HOURS'),
+  bookingCreditRollover: z.number().min(0, 'Rollover cannot be negative').nullable().default(null), // null = reset each period
+  bookingCreditSpaceTypes: z.array(SpaceTypeSchema).min(1, 'Select at least one space type').default(['MEETING_ROOM', 'CONFERENCE_ROOM']),
+})
+
+// Waitlist schemas
+export const joinWaitlistSchema = z.object({
+  spaceId: cuidValidation,
+  title: z.string().min(1, 'Booking title is required').max(200, 'Title must be less than 200 characters'),
+  startTime: z.date({
+    required_error: 'Start time is required',
+  }),
+  endTime: z.date({
+    required_error: 'End time is required',
+  }),
+  notes: z.string().max(500).optional(),
+  autoConfirm: z.boolean().default(false),
+}).refine(
+  (data) => data.endTime > data.startTime,
+  {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }
+)
+
+export const leaveWaitlistSchema = z.object({
+  id: cuidValidation,
+})
+
+export const acceptWaitlistOfferSchema = z.object({
+  id: cuidValidation,
+})
+
+export const listWaitlistSchema = z.object({
+  spaceId: cuidValidation.optional(),
+  bookingId: cuidValidation.optional(), // Entries waiting for this booking's slot
+  status: WaitlistStatusSchema.optional(),
 })
 
 // Type exports
 export type BookingStatus = z.infer<typeof BookingStatusSchema>
 export type BookingType = z.infer<typeof BookingTypeSchema>
 export type RecurrenceType = z.infer<typeof RecurrenceTypeSchema>
+export type SeriesEditScope = z.infer<typeof SeriesEditScopeSchema>
+export type WaitlistStatus = z.infer<typeof WaitlistStatusSchema>
 export type CheckInMethod = z.infer<typeof CheckInMethodSchema>
 export type CancellationReason = z.infer<typeof CancellationReasonSchema>
+export type RefundPreference = z.infer<typeof RefundPreferenceSchema>
+export type BookingCreditUnit = z.infer<typeof BookingCreditUnitSchema>
 export type BookingParticipant = z.infer<typeof BookingParticipantSchema>
 export type BookingService = z.infer<typeof BookingServiceSchema>
 export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>
@@ -311,6 +513,8 @@ export type DeleteBookingRequest = z.infer<typeof deleteBookingSchema>
 export type GetBookingRequest = z.infer<typeof getBookingSchema>
 export type ListBookingsRequest = z.infer<typeof listBookingsSchema>
 export type CheckBookingConflictsRequest = z.infer<typeof checkBookingConflictsSchema>
+export type CalculateBookingPriceRequest = z.infer<typeof calculateBookingPriceSchema>
+export type CheckBookingPolicyRequest = z.infer<typeof checkBookingPolicySchema>
 export type CheckInBookingRequest = z.infer<typeof checkInBookingSchema>
 export type CheckOutBookingRequest = z.infer<typeof checkOutBookingSchema>
 export type ApproveBookingRequest = z.infer<typeof approveBookingSchema>
@@ -318,4 +522,17 @@ export type ModifyBookingRequest = z.infer<typeof modifyBookingSchema>
 export type BulkUpdateBookingsRequest = z.infer<typeof bulkUpdateBookingsSchema>
 export type GetBookingStatsRequest = z.infer<typeof getBookingStatsSchema>
 export type GetBookingUtilizationRequest = z.infer<typeof getBookingUtilizationSchema>
-export type GenerateRecurringBookingsRequest = z.infer<typeof generateRecurringBookingsSchema>
\ No newline at end of file
+export type GenerateRecurringBookingsRequest = z.infer<typeof generateRecurringBookingsSchema>
+export type UpdateBookingSeriesRequest = z.infer<typeof updateBookingSeriesSchema>
+export type CancelBookingSeriesRequest = z.infer<typeof cancelBookingSeriesSchema>
+export type JoinWaitlistRequest = z.infer<typeof joinWaitlistSchema>
+export type LeaveWaitlistRequest = z.infer<typeof leaveWaitlistSchema>
+export type AcceptWaitlistOfferRequest = z.infer<typeof acceptWaitlistOfferSchema>
+export type ListWaitlistRequest = z.infer<typeof listWaitlistSchema>
+export type UpsertCancellationPolicyRequest = z.infer<typeof upsertCancellationPolicySchema>
+export type DeleteCancellationPolicyRequest = z.infer<typeof deleteCancellationPolicySchema>
+export type PreviewBookingCancellationRequest = z.infer<typeof previewBookingCancellationSchema>
+export type CreateBookingBundleRequest = z.infer<typeof createBookingBundleSchema>
+export type GetBookingBundleRequest = z.infer<typeof getBookingBundleSchema>
+export type CancelBookingBundleRequest = z.infer<typeof cancelBookingBundleSchema>
+export type UpdatePlanBookingCreditsRequest = z.infer<typeof updatePlanBookingCreditsSchema>
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { isValidRut } from '@/lib/utils/dte'
 
 // Client status enum
 export const CLIENT_STATUS = {
@@ -46,7 +47,8 @@ const baseClientSchema = z.object({
   email: z.string().email('Email inválido'),
   phone: z.string().optional(),
   address: z.string().optional(),
-  taxId: z.string().optional(),
+  taxId: z.string().refine(value => !value.trim() || isValidRut(value), 'RUT inválido').optional(),
+  taxExempt: z.boolean().default(false), // Only honored while the client has a tax ID
   contactPerson: z.string().optional(),
   status: z.nativeEnum(CLIENT_STATUS).default('LEAD'),
   notes: z.string().optional(),
@@ -112,6 +114,7 @@ export interface ClientWithRelations {
   phone?: string
   address?: string
   taxId?: string
+  taxExempt?: boolean
   contactPerson?: string
   status: ClientStatus
   notes?: string
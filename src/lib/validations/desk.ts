@@ -0,0 +1,88 @@
+import { z } from 'zod'
+
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
+// Enums for desk-related fields (matches Prisma enums)
+export const DeskTypeSchema = z.enum([
+  'HOT',
+  'DEDICATED'
+])
+
+export const DeskBookingPeriodSchema = z.enum([
+  'FULL_DAY',
+  'MORNING',
+  'AFTERNOON'
+])
+
+// Floor plan positions are percentages of the plan size
+const positionValidation = z.number().min(0, 'Position must be between 0 and 100').max(100, 'Position must be between 0 and 100')
+
+// Desk schemas
+export const upsertDeskSchema = z.object({
+  id: cuidValidation.optional(), // Updates the desk when present
+  spaceId: cuidValidation,
+  label: z.string().min(1, 'Label is required').max(50, 'Label must be less than 50 characters'),
+  type: DeskTypeSchema.default('HOT'),
+  positionX: positionValidation.default(0),
+  positionY: positionValidation.default(0),
+  amenities: z.array(z.string()).default([]),
+  dailyRate: z.number().min(0, 'Daily rate cannot be negative').nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+
+export const deleteDeskSchema = z.object({
+  id: cuidValidation,
+})
+
+export const updateSpaceFloorPlanSchema = z.object({
+  spaceId: cuidValidation,
+  floorPlanImage: z.string().url('Floor plan must be a valid URL').nullable(),
+})
+
+export const getDeskMapSchema = z.object({
+  spaceId: cuidValidation,
+  date: z.date(),
+})
+
+// Desk booking schemas
+export const createDeskBookingSchema = z.object({
+  deskId: cuidValidation,
+  userId: cuidValidation,
+  date: z.date(),
+  period: DeskBookingPeriodSchema.default('FULL_DAY'),
+})
+
+export const cancelDeskBookingSchema = z.object({
+  id: cuidValidation,
+})
+
+export const listMyDeskBookingsSchema = z.object({
+  from: z.date().optional(),
+})
+
+// Dedicated desk schemas
+export const assignDeskSchema = z.object({
+  deskId: cuidValidation,
+  membershipId: cuidValidation,
+  startDate: z.date().optional(),
+})
+
+export const releaseDeskAssignmentSchema = z.object({
+  id: cuidValidation,
+  endDate: z.date().optional(),
+})
+
+// Type exports
+export type DeskType = z.infer<typeof DeskTypeSchema>
+export type DeskBookingPeriod = z.infer<typeof DeskBookingPeriodSchema>
+export type UpsertDeskRequest = z.infer<typeof upsertDeskSchema>
+export type DeleteDeskRequest = z.infer<typeof deleteDeskSchema>
+export type UpdateSpaceFloorPlanRequest = z.infer<typeof updateSpaceFloorPlanSchema>
+export type GetDeskMapRequest = z.infer<typeof getDeskMapSchema>
+export type CreateDeskBookingRequest = z.infer<typeof createDeskBookingSchema>
+export type CancelDeskBookingRequest = z.infer<typeof cancelDeskBookingSchema>
+export type ListMyDeskBookingsRequest = z.infer<typeof listMyDeskBookingsSchema>
+export type AssignDeskRequest = z.infer<typeof assignDeskSchema>
+export type ReleaseDeskAssignmentRequest = z.infer<typeof releaseDeskAssignmentSchema>
@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import { isValidRut } from '@/lib/utils/dte'
+
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
+// Electronic invoicing (DTE) schemas
+export const DteDocumentTypeSchema = z.enum([
+  'FACTURA',
+  'FACTURA_EXENTA',
+  'BOLETA',
+  'BOLETA_EXENTA',
+  'NOTA_CREDITO'
+])
+
+export const DteEnvironmentSchema = z.enum([
+  'CERTIFICATION',
+  'PRODUCTION'
+])
+
+export const DteStatusSchema = z.enum([
+  'SIGNED',
+  'SUBMITTED',
+  'ACCEPTED',
+  'ACCEPTED_WITH_REPAIRS',
+  'REJECTED'
+])
+
+export const DTE_STATUS_LABELS: Record<z.infer<typeof DteStatusSchema>, string> = {
+  SIGNED: 'Firmado',
+  SUBMITTED: 'Enviado al SII',
+  ACCEPTED: 'Aceptado',
+  ACCEPTED_WITH_REPAIRS: 'Aceptado con reparos',
+  REJECTED: 'Rechazado',
+}
+
+export const DTE_ENVIRONMENT_LABELS: Record<z.infer<typeof DteEnvironmentSchema>, string> = {
+  CERTIFICATION: 'Certificación',
+  PRODUCTION: 'Producción',
+}
+
+export const updateDteSettingsSchema = z.object({
+  rut: z.string().refine(isValidRut, 'Invalid RUT'),
+  businessName: z.string().min(1, 'Business name is required').max(100, 'Business name must be less than 100 characters'),
+  businessActivity: z.string().min(1, 'Business activity is required').max(80, 'Business activity must be less than 80 characters'),
+  activityCode: z.number().int().positive('Activity code is required'),
+  address: z.string().min(1, 'Address is required').max(70, 'Address must be less than 70 characters'),
+  commune: z.string().min(1, 'Commune is required').max(20, 'Commune must be less than 20 characters'),
+  city: z.string().max(20, 'City must be less than 20 characters').optional(),
+  resolutionNumber: z.number().int().min(0, 'Resolution number cannot be negative'),
+  resolutionDate: z.coerce.date(),
+  environment: DteEnvironmentSchema,
+  certificatePem: z.string().includes('BEGIN CERTIFICATE', { message: 'Certificate must be in PEM format' }).optional(), // Kept when omitted
+  privateKeyPem: z.string().includes('PRIVATE KEY', { message: 'Private key must be in PEM format' }).optional(),
+  submissionAdapter: z.string().min(1).default('stub'),
+}).refine(data => Boolean(data.certificatePem) === Boolean(data.privateKeyPem), {
+  message: 'Upload the certificate together with its private key',
+  path: ['certificatePem'],
+})
+
+export const uploadCafSchema = z.object({
+  cafXml: z.string().min(1, 'CAF file is required').max(20000, 'CAF file is too large'),
+})
+
+export const issueInvoiceDteSchema = z.object({
+  invoiceId: cuidValidation,
+  documentType: DteDocumentTypeSchema.exclude(['NOTA_CREDITO']).optional(), // Chosen from the client and lines when omitted
+})
+
+export const issueCreditNoteDteSchema = z.object({
+  creditNoteId: cuidValidation,
+})
+
+export const dteDocumentSchema = z.object({
+  documentId: cuidValidation,
+})
+
+export type UpdateDteSettingsRequest = z.infer<typeof updateDteSettingsSchema>
+export type UploadCafRequest = z.infer<typeof uploadCafSchema>
+export type IssueInvoiceDteRequest = z.infer<typeof issueInvoiceDteSchema>
+export type IssueCreditNoteDteRequest = z.infer<typeof issueCreditNoteDteSchema>
+export type DteDocumentRequest = z.infer<typeof dteDocumentSchema>
@@ -0,0 +1,67 @@
+import { z } from 'zod'
+
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
+// ISO 4217 code; the UF is entered as CLF
+const currencyCodeValidation = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code')
+
+// Exchange rate schemas
+export const ExchangeRateSourceSchema = z.enum([
+  'MANUAL',
+  'IMPORT'
+])
+
+export const EXCHANGE_RATE_SOURCE_LABELS: Record<z.infer<typeof ExchangeRateSourceSchema>, string> = {
+  MANUAL: 'Manual',
+  IMPORT: 'Importado',
+}
+
+// Currencies offered in the settings; any other ISO code can still be imported
+export const COMMON_CURRENCIES = ['CLP', 'CLF', 'USD', 'EUR', 'ARS', 'BRL', 'COP', 'MXN', 'PEN', 'UYU'] as const
+
+export const CURRENCY_LABELS: Record<string, string> = {
+  CLP: 'Peso chileno (CLP)',
+  CLF: 'Unidad de Fomento (UF)',
+  USD: 'Dólar estadounidense (USD)',
+  EUR: 'Euro (EUR)',
+  ARS: 'Peso argentino (ARS)',
+  BRL: 'Real brasileño (BRL)',
+  COP: 'Peso colombiano (COP)',
+  MXN: 'Peso mexicano (MXN)',
+  PEN: 'Sol peruano (PEN)',
+  UYU: 'Peso uruguayo (UYU)',
+}
+
+export const saveExchangeRateSchema = z.object({
+  fromCurrency: currencyCodeValidation,
+  toCurrency: currencyCodeValidation,
+  rate: z.number().positive('Rate must be greater than zero'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date'), // Day the rate applies from
+}).refine(data => data.fromCurrency !== data.toCurrency, {
+  message: 'Choose two different currencies',
+  path: ['toCurrency'],
+})
+
+export const importExchangeRatesSchema = z.object({
+  fileName: z.string().min(1, 'File name is required').max(255),
+  content: z.string().min(1, 'Exchange rate file is empty').max(5_000_000, 'Exchange rate file is too large'),
+  toCurrency: currencyCodeValidation.optional(), // For files without a target currency column
+})
+
+export const deleteExchangeRateSchema = z.object({
+  rateId: cuidValidation,
+})
+
+export const updateBaseCurrencySchema = z.object({
+  baseCurrency: currencyCodeValidation,
+})
+
+export type SaveExchangeRateRequest = z.infer<typeof saveExchangeRateSchema>
+export type ImportExchangeRatesRequest = z.infer<typeof importExchangeRatesSchema>
+export type DeleteExchangeRateRequest = z.infer<typeof deleteExchangeRateSchema>
+export type UpdateBaseCurrencyRequest = z.infer<typeof updateBaseCurrencySchema>
@@ -59,7 +59,7 @@ export const createFinancialReportSchema = z.object({
   compareWithPreviousPeriod: z.boolean().default(false),
   includeCharts: z.boolean().default(true),
   includeDetails: z.boolean().default(true),
-  currency: z.string().length(3, 'Currency must be 3 characters').default('USD'),
+  currency: z.string().length(3, 'Currency must be 3 characters').optional(), // The tenant's base currency when omitted
   filters: z.object({
     clientIds: z.array(z.string().uuid()).optional(),
     spaceIds: z.array(z.string().uuid()).optional(),
@@ -98,7 +98,7 @@ export const revenueAnalysisSchema = z.object({
   breakdownBy: z.enum(['client', 'space', 'service', 'booking_type']).optional(),
   includeProjections: z.boolean().default(false),
   projectionMonths: z.number().int().min(1).max(24).default(6),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 }).refine(
   (data) => data.endDate > data.startDate,
   {
@@ -117,7 +117,7 @@ export const expenseAnalysisSchema = z.object({
   includeOneTime: z.boolean().default(true),
   minAmount: z.number().min(0).optional(),
   maxAmount: z.number().positive().optional(),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 }).refine(
   (data) => data.endDate > data.startDate,
   {
@@ -135,7 +135,7 @@ export const cashFlowAnalysisSchema = z.object({
   includeOperatingActivities: z.boolean().default(true),
   includeInvestingActivities: z.boolean().default(true),
   includeFinancingActivities: z.boolean().default(true),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 }).refine(
   (data) => data.endDate > data.startDate,
   {
@@ -153,7 +153,7 @@ export const profitLossAnalysisSchema = z.object({
   includeTrends: z.boolean().default(true),
   includeBreakdown: z.boolean().default(true),
   breakdownBy: z.enum(['client', 'space', 'service', 'month']).default('month'),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 }).refine(
   (data) => data.endDate > data.startDate,
   {
@@ -170,7 +170,7 @@ export const budgetVarianceAnalysisSchema = z.object({
   includeForecasts: z.boolean().default(true),
   varianceThreshold: z.number().min(0).max(100).default(10), // Percentage
   includeDetails: z.boolean().default(true),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 }).refine(
   (data) => data.endDate > data.startDate,
   {
@@ -193,7 +193,7 @@ export const createForecastSchema = z.object({
   seasonalityFactor: z.number().min(0).max(5).default(1),
   growthRate: z.number().min(-100).max(1000).optional(), // Percentage
   confidenceLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']).default('MEDIUM'),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 }).refine(
   (data) => data.basePeriodEnd > data.basePeriodStart,
   {
@@ -223,7 +223,7 @@ export const financialMetricsSchema = z.object({
   includeRatios: z.boolean().default(true),
   includeTrends: z.boolean().default(true),
   compareWithPrevious: z.boolean().default(false),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
   metrics: z.array(z.enum([
     'REVENUE_GROWTH',
     'PROFIT_MARGIN',
@@ -253,7 +253,7 @@ export const taxReportSchema = z.object({
   includeDeductions: z.boolean().default(true),
   includeCredits: z.boolean().default(true),
   includeSupporting: z.boolean().default(true),
-  currency: z.string().length(3).default('USD'),
+  currency: z.string().length(3).optional(),
 })
 
 // Types derived from schemas
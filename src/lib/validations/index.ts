@@ -83,6 +83,9 @@ export * from './resource'
 // Booking management validations
 export * from './booking'
 
+// Desk booking validations
+export * from './desk'
+
 // Visitor management validations
 export * from './visitor'
 
@@ -98,6 +101,11 @@ export * from './contract'
 // Financial management validations
 export * from './invoice'
 export * from './payment'
+export * from './billing'
+export * from './dte'
+export * from './payment-link'
+export * from './reconciliation'
+export * from './exchange-rate'
 export {
   FinancialReportTypeSchema,
   ReportPeriodSchema,
@@ -1,5 +1,7 @@
 import { z } from 'zod'
 
+const cuidRegex = /^c[^\s-]{8,}$/i
+
 // Enums for integration-related fields
 export const IntegrationTypeSchema = z.enum([
   'WEBHOOK',
@@ -28,32 +30,75 @@ export const IntegrationStatusSchema = z.enum([
   'DEPRECATED'
 ])
 
+// Events tenants can subscribe their webhooks to
 export const WebhookEventSchema = z.enum([
-  'CLIENT_CREATED',
-  'CLIENT_UPDATED',
-  'CLIENT_DELETED',
-  'BOOKING_CREATED',
-  'BOOKING_UPDATED',
-  'BOOKING_CANCELLED',
-  'PAYMENT_RECEIVED',
-  'PAYMENT_FAILED',
-  'INVOICE_GENERATED',
-  'INVOICE_PAID',
-  'MEMBERSHIP_CREATED',
-  'MEMBERSHIP_RENEWED',
-  'MEMBERSHIP_CANCELLED',
-  'USER_CREATED',
-  'USER_UPDATED',
-  'VISITOR_CHECKED_IN',
-  'VISITOR_CHECKED_OUT',
-  'ACCESS_GRANTED',
-  'ACCESS_DENIED',
-  'SPACE_OCCUPIED',
-  'SPACE_VACATED',
-  'MAINTENANCE_SCHEDULED',
-  'CUSTOM'
+  'booking.created',
+  'booking.cancelled',
+  'invoice.paid',
+  'payment.received',
+  'visitor.checked_in',
+  'visitor.checked_out',
+  'lead.created',
+  'opportunity.stage_changed',
+])
+
+export const WEBHOOK_EVENT_LABELS: Record<z.infer<typeof WebhookEventSchema>, string> = {
+  'booking.created': 'Reserva creada',
+  'booking.cancelled': 'Reserva cancelada',
+  'invoice.paid': 'Factura pagada',
+  'payment.received': 'Pago recibido',
+  'visitor.checked_in': 'Entrada de visitante',
+  'visitor.checked_out': 'Salida de visitante',
+  'lead.created': 'Lead creado',
+  'opportunity.stage_changed': 'Cambio de etapa de oportunidad',
+}
+
+export const WebhookDeliveryStatusSchema = z.enum(['PENDING', 'SUCCEEDED', 'DEAD_LETTER'])
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<z.infer<typeof WebhookDeliveryStatusSchema>, string> = {
+  PENDING: 'Pendiente',
+  SUCCEEDED: 'Entregado',
+  DEAD_LETTER: 'Fallido',
+}
+
+// Access an API key can be given to the /api/v1 REST layer; write access includes reading
+export const ApiKeyScopeSchema = z.enum([
+  'bookings:read',
+  'bookings:write',
+  'spaces:read',
+  'spaces:write',
+  'resources:read',
+  'resources:write',
+  'visitors:read',
+  'visitors:write',
+  'access-control:read',
+  'access-control:write',
 ])
 
+export const API_KEY_SCOPE_LABELS: Record<z.infer<typeof ApiKeyScopeSchema>, string> = {
+  'bookings:read': 'Ver reservas',
+  'bookings:write': 'Gestionar reservas',
+  'spaces:read': 'Ver espacios',
+  'spaces:write': 'Gestionar espacios',
+  'resources:read': 'Ver recursos',
+  'resources:write': 'Gestionar recursos',
+  'visitors:read': 'Ver visitantes',
+  'visitors:write': 'Gestionar visitantes',
+  'access-control:read': 'Ver control de acceso',
+  'access-control:write': 'Gestionar control de acceso',
+}
+
+// Groups of endpoints whose rate limit a tenant can change
+export const TenantRateLimitPolicySchema = z.enum(['api', 'search'])
+
+export const RATE_LIMIT_POLICY_LABELS: Record<z.infer<typeof TenantRateLimitPolicySchema>, string> = {
+  api: 'API REST (/api/v1)',
+  search: 'Búsqueda',
+}
+
+// An IPv4 or IPv6 address, optionally with a CIDR prefix length
+const ipRangeRegex = /^(?:(?:\d{1,3}\.){3}\d{1,3}(?:\/\d{1,2})?|[0-9a-f]*:[0-9a-f:.]*(?:\/\d{1,3})?)$/i
+
 export const AuthMethodSchema = z.enum([
   'NONE',
   'API_KEY',
@@ -93,91 +138,22 @@ export const MigrationStatusSchema = z.enum([
 export const apiKeySchema = z.object({
   name: z.string().min(1, 'API key name is required').max(200),
   description: z.string().max(1000).optional(),
-  
-  // Key configuration
-  key: z.string().min(32, 'API key must be at least 32 characters').max(256),
-  prefix: z.string().max(20).optional(), // e.g., "sk_", "pk_"
-  
-  // Permissions and scopes
-  scopes: z.array(z.string().max(100)).min(1, 'At least one scope is required'),
-  permissions: z.object({
-    read: z.boolean().default(true),
-    write: z.boolean().default(false),
-    delete: z.boolean().default(false),
-    admin: z.boolean().default(false),
-  }).default({ read: true, write: false, delete: false, admin: false }),
-  
-  // Rate limiting
-  rateLimit: z.object({
-    requestsPerMinute: z.number().int().min(1).max(10000).default(100),
-    requestsPerHour: z.number().int().min(1).max(100000).default(1000),
-    requestsPerDay: z.number().int().min(1).max(1000000).default(10000),
-  }).default({}),
-  
-  // Access restrictions
-  allowedIPs: z.array(z.string().ip()).default([]),
-  allowedDomains: z.array(z.string().max(200)).default([]),
-  
-  // Lifecycle
-  isActive: z.boolean().default(true),
-  expiresAt: z.date().optional(),
-  lastUsedAt: z.date().optional(),
-  
-  // Environment
-  environment: z.enum(['DEVELOPMENT', 'STAGING', 'PRODUCTION']).default('DEVELOPMENT'),
-  
-  metadata: z.record(z.any()).optional(),
+  scopes: z.array(ApiKeyScopeSchema).min(1, 'At least one scope is required'),
+  allowedIps: z.array(z.string().trim().regex(ipRangeRegex, 'Invalid IP address or range')).max(50).optional(),
+  expiresAt: z.date().refine(date => date > new Date(), 'Expiration date must be in the future').nullable().optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(100000).nullable().optional(), // The tenant's API limit when empty
 })
 
 // Webhook configuration schema
 export const webhookConfigSchema = z.object({
   name: z.string().min(1, 'Webhook name is required').max(200),
   description: z.string().max(1000).optional(),
-  url: z.string().url('Invalid webhook URL'),
-  
-  // Event configuration
+  url: z.string().url('Invalid webhook URL').refine(
+    url => /^https:\/\//i.test(url),
+    'The webhook URL must use https'
+  ),
   events: z.array(WebhookEventSchema).min(1, 'At least one event is required'),
-  eventFilters: z.record(z.any()).default({}),
-  
-  // HTTP configuration
-  httpMethod: z.enum(['POST', 'PUT', 'PATCH']).default('POST'),
-  headers: z.record(z.string()).default({}),
-  
-  // Authentication
-  authMethod: AuthMethodSchema.default('NONE'),
-  authConfig: z.object({
-    apiKey: z.string().max(500).optional(),
-    bearerToken: z.string().max(1000).optional(),
-    basicAuth: z.object({
-      username: z.string().max(200),
-      password: z.string().max(200),
-    }).optional(),
-    hmacSecret: z.string().max(500).optional(),
-    customHeaders: z.record(z.string()).default({}),
-  }).default({}),
-  
-  // Delivery options
-  timeout: z.number().int().min(1).max(300).default(30), // seconds
-  retryAttempts: z.number().int().min(0).max(10).default(3),
-  retryBackoff: z.enum(['FIXED', 'LINEAR', 'EXPONENTIAL']).default('EXPONENTIAL'),
-  
-  // Content format
-  contentType: z.string().max(100).default('application/json'),
-  dataFormat: DataFormatSchema.default('JSON'),
-  includeMetadata: z.boolean().default(true),
-  
-  // Filtering and transformation
-  payloadTemplate: z.string().max(10000).optional(),
-  responseValidation: z.boolean().default(false),
-  expectedResponseCodes: z.array(z.number().int().min(100).max(599)).default([200, 201, 202]),
-  
-  // Status and monitoring
-  isActive: z.boolean().default(true),
-  lastTriggered: z.date().optional(),
-  successCount: z.number().int().min(0).default(0),
-  failureCount: z.number().int().min(0).default(0),
-  
-  metadata: z.record(z.any()).optional(),
+  isActive: z.boolean().optional(),
 })
 
 // External service integration schema
@@ -449,11 +425,11 @@ export const createIntegrationMonitoringSchema = integrationMonitoringSchema
 
 // Update schemas
 export const updateApiKeySchema = z.object({
-  id: z.string().uuid('Invalid API key ID'),
+  id: z.string().regex(cuidRegex, 'Invalid API key ID'),
 }).merge(apiKeySchema.partial())
 
 export const updateWebhookSchema = z.object({
-  id: z.string().uuid('Invalid webhook ID'),
+  id: z.string().regex(cuidRegex, 'Invalid webhook ID'),
 }).merge(webhookConfigSchema.partial())
 
 export const updateExternalServiceSchema = z.object({
@@ -470,11 +446,11 @@ export const updateImportExportConfigSchema = z.object({
 
 // Delete schemas
 export const deleteApiKeySchema = z.object({
-  id: z.string().uuid('Invalid API key ID'),
+  id: z.string().regex(cuidRegex, 'Invalid API key ID'),
 })
 
 export const deleteWebhookSchema = z.object({
-  id: z.string().uuid('Invalid webhook ID'),
+  id: z.string().regex(cuidRegex, 'Invalid webhook ID'),
 })
 
 export const deleteExternalServiceSchema = z.object({
@@ -491,13 +467,14 @@ export const deleteImportExportConfigSchema = z.object({
 
 // Get schemas
 export const getApiKeySchema = z.object({
-  id: z.string().uuid('Invalid API key ID'),
-  includeUsageStats: z.boolean().default(false),
+  id: z.string().regex(cuidRegex, 'Invalid API key ID'),
+  days: z.number().int().min(1).max(90).optional(), // Days of usage history
 })
 
 export const getWebhookSchema = z.object({
-  id: z.string().uuid('Invalid webhook ID'),
-  includeDeliveries: z.boolean().default(false),
+  id: z.string().regex(cuidRegex, 'Invalid webhook ID'),
+  status: WebhookDeliveryStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).optional(),
 })
 
 export const getExternalServiceSchema = z.object({
@@ -516,13 +493,7 @@ export const getImportExportConfigSchema = z.object({
 
 // List schemas
 export const listApiKeysSchema = z.object({
-  page: z.number().int().min(1).default(1),
-  limit: z.number().int().min(1).max(100).default(20),
-  search: z.string().max(100).optional(),
-  isActive: z.boolean().optional(),
-  environment: z.enum(['DEVELOPMENT', 'STAGING', 'PRODUCTION']).optional(),
-  sortBy: z.enum(['name', 'createdAt', 'lastUsedAt', 'expiresAt']).default('name'),
-  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+  includeRevoked: z.boolean().optional(),
 })
 
 export const listWebhooksSchema = z.object({
@@ -531,7 +502,7 @@ export const listWebhooksSchema = z.object({
   search: z.string().max(100).optional(),
   events: z.array(WebhookEventSchema).optional(),
   isActive: z.boolean().optional(),
-  sortBy: z.enum(['name', 'createdAt', 'lastTriggered']).default('name'),
+  sortBy: z.enum(['name', 'createdAt', 'lastDeliveryAt']).default('name'),
   sortOrder: z.enum(['asc', 'desc']).default('asc'),
 })
 
@@ -568,9 +539,16 @@ export const rollbackDataMigrationSchema = z.object({
 })
 
 export const testWebhookSchema = z.object({
-  id: z.string().uuid('Invalid webhook ID'),
+  id: z.string().regex(cuidRegex, 'Invalid webhook ID'),
   event: WebhookEventSchema,
-  testData: z.record(z.any()).default({}),
+})
+
+export const rotateWebhookSecretSchema = z.object({
+  id: z.string().regex(cuidRegex, 'Invalid webhook ID'),
+})
+
+export const redeliverWebhookSchema = z.object({
+  deliveryId: z.string().regex(cuidRegex, 'Invalid delivery ID'),
 })
 
 export const testExternalServiceSchema = z.object({
@@ -579,8 +557,22 @@ export const testExternalServiceSchema = z.object({
 })
 
 export const rotateApiKeySchema = z.object({
-  id: z.string().uuid('Invalid API key ID'),
-  newKey: z.string().min(32).max(256).optional(), // If not provided, will be generated
+  id: z.string().regex(cuidRegex, 'Invalid API key ID'),
+  gracePeriodHours: z.number().int().min(0).max(168).optional(), // How long the replaced key keeps working
+})
+
+export const revokeApiKeySchema = z.object({
+  id: z.string().regex(cuidRegex, 'Invalid API key ID'),
+})
+
+export const saveTenantRateLimitSchema = z.object({
+  policy: TenantRateLimitPolicySchema,
+  limit: z.number().int().min(1, 'Limit must be at least 1').max(100000),
+  windowSeconds: z.number().int().min(1).max(24 * 60 * 60),
+})
+
+export const deleteTenantRateLimitSchema = z.object({
+  policy: TenantRateLimitPolicySchema,
 })
 
 export const importDataSchema = z.object({
@@ -608,6 +600,9 @@ export const exportDataSchema = z.object({
 export type IntegrationType = z.infer<typeof IntegrationTypeSchema>
 export type IntegrationStatus = z.infer<typeof IntegrationStatusSchema>
 export type WebhookEvent = z.infer<typeof WebhookEventSchema>
+export type WebhookDeliveryStatus = z.infer<typeof WebhookDeliveryStatusSchema>
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>
+export type TenantRateLimitPolicy = z.infer<typeof TenantRateLimitPolicySchema>
 export type AuthMethod = z.infer<typeof AuthMethodSchema>
 export type DataFormat = z.infer<typeof DataFormatSchema>
 export type SyncDirection = z.infer<typeof SyncDirectionSchema>
@@ -646,7 +641,12 @@ export type ListDataMigrationsRequest = z.infer<typeof listDataMigrationsSchema>
 export type ExecuteDataMigrationRequest = z.infer<typeof executeDataMigrationSchema>
 export type RollbackDataMigrationRequest = z.infer<typeof rollbackDataMigrationSchema>
 export type TestWebhookRequest = z.infer<typeof testWebhookSchema>
+export type RotateWebhookSecretRequest = z.infer<typeof rotateWebhookSecretSchema>
+export type RedeliverWebhookRequest = z.infer<typeof redeliverWebhookSchema>
 export type TestExternalServiceRequest = z.infer<typeof testExternalServiceSchema>
 export type RotateApiKeyRequest = z.infer<typeof rotateApiKeySchema>
+export type RevokeApiKeyRequest = z.infer<typeof revokeApiKeySchema>
+export type SaveTenantRateLimitRequest = z.infer<typeof saveTenantRateLimitSchema>
+export type DeleteTenantRateLimitRequest = z.infer<typeof deleteTenantRateLimitSchema>
 export type ImportDataRequest = z.infer<typeof importDataSchema>
 export type ExportDataRequest = z.infer<typeof exportDataSchema>
\ No newline at end of file
@@ -19,6 +19,8 @@ export const invoiceItemSchema = z.object({
   quantity: z.number().int().positive('Quantity must be positive'),
   unitPrice: z.number().positive('Unit price must be positive'),
   total: z.number().positive('Total must be positive').optional(), // Will be calculated
+  taxRuleId: z.string().optional(), // Tax rule chosen by hand, picked by category otherwise
+  category: z.string().optional(), // Service category or usage type of the item
 })
 
 // Invoice schemas
@@ -33,7 +35,7 @@ export const createInvoiceSchema = z.object({
     invalid_type_error: 'Due date must be a valid date',
   }),
   items: z.array(invoiceItemSchema).min(1, 'At least one item is required'),
-  tax: z.number().min(0, 'Tax cannot be negative').default(0),
+  tax: z.number().min(0, 'Tax cannot be negative').optional(), // Calculated per item from the tax rules when omitted
   notes: z.string().max(1000, 'Notes must be less than 1000 characters').optional(),
 }).refine(
   (data) => {
@@ -87,7 +89,7 @@ export const invoiceFiltersSchema = z.object({
 
 // Invoice operations
 export const sendInvoiceSchema = z.object({
-  invoiceId: z.string().uuid('Invalid invoice ID'),
+  invoiceId: z.string().regex(/^c[^\s-]{8,}$/i, 'Invalid invoice ID'),
   sendEmail: z.boolean().default(true),
   emailMessage: z.string().max(1000, 'Email message must be less than 1000 characters').optional(),
   reminderDate: z.date().optional(),
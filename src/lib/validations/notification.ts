@@ -1,5 +1,8 @@
 import { z } from 'zod'
 
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
 // Enums for notification-related fields
 export const NotificationTypeSchema = z.enum([
   'EMAIL',
@@ -72,7 +75,7 @@ export const DeliveryMethodSchema = z.enum([
 
 // Recipient schema
 export const NotificationRecipientSchema = z.object({
-  userId: z.string().uuid().optional(),
+  userId: cuidValidation.optional(),
   email: z.string().email().optional(),
   phone: z.string().max(20).optional(),
   name: z.string().max(200).optional(),
@@ -209,7 +212,7 @@ export const baseNotificationTemplateSchema = z.object({
   
   // Approval workflow
   requiresApproval: z.boolean().default(false),
-  approvedBy: z.string().uuid().optional(),
+  approvedBy: cuidValidation.optional(),
   approvedAt: z.date().optional(),
   
   metadata: z.record(z.any()).optional(),
@@ -217,7 +220,7 @@ export const baseNotificationTemplateSchema = z.object({
 
 // Base notification schema
 export const baseNotificationSchema = z.object({
-  templateId: z.string().uuid().optional(),
+  templateId: cuidValidation.optional(),
   type: NotificationTypeSchema,
   category: NotificationCategorySchema,
   priority: NotificationPrioritySchema.default('NORMAL'),
@@ -253,12 +256,12 @@ export const baseNotificationSchema = z.object({
   retryDelay: z.number().int().min(0).default(300), // seconds
   
   // Related entities
-  userId: z.string().uuid().optional(),
-  clientId: z.string().uuid().optional(),
-  bookingId: z.string().uuid().optional(),
-  membershipId: z.string().uuid().optional(),
-  contractId: z.string().uuid().optional(),
-  invoiceId: z.string().uuid().optional(),
+  userId: cuidValidation.optional(),
+  clientId: cuidValidation.optional(),
+  bookingId: cuidValidation.optional(),
+  membershipId: cuidValidation.optional(),
+  contractId: cuidValidation.optional(),
+  invoiceId: cuidValidation.optional(),
   
   // Delivery tracking
   sentAt: z.date().optional(),
@@ -275,7 +278,7 @@ export const baseNotificationSchema = z.object({
 
 // Notification preferences schema
 export const notificationPreferencesSchema = z.object({
-  userId: z.string().uuid('Invalid user ID'),
+  userId: z.string().regex(cuidRegex, 'Invalid user ID'),
   
   // Global preferences
   globalSettings: z.object({
@@ -349,11 +352,11 @@ export const createNotificationPreferencesSchema = notificationPreferencesSchema
 
 // Update schemas
 export const updateNotificationTemplateSchema = z.object({
-  id: z.string().uuid('Invalid template ID'),
+  id: z.string().regex(cuidRegex, 'Invalid template ID'),
 }).merge(baseNotificationTemplateSchema.partial())
 
 export const updateNotificationSchema = z.object({
-  id: z.string().uuid('Invalid notification ID'),
+  id: z.string().regex(cuidRegex, 'Invalid notification ID'),
   status: NotificationStatusSchema.optional(),
   errorMessage: z.string().max(1000).optional(),
   sentAt: z.date().optional(),
@@ -363,29 +366,29 @@ export const updateNotificationSchema = z.object({
 }).strict()
 
 export const updateNotificationPreferencesSchema = z.object({
-  userId: z.string().uuid('Invalid user ID'),
+  userId: z.string().regex(cuidRegex, 'Invalid user ID'),
 }).merge(notificationPreferencesSchema.omit({ userId: true }).partial())
 
 // Delete schemas
 export const deleteNotificationTemplateSchema = z.object({
-  id: z.string().uuid('Invalid template ID'),
+  id: z.string().regex(cuidRegex, 'Invalid template ID'),
 })
 
 export const deleteNotificationSchema = z.object({
-  id: z.string().uuid('Invalid notification ID'),
+  id: z.string().regex(cuidRegex, 'Invalid notification ID'),
 })
 
 // Get schemas
 export const getNotificationTemplateSchema = z.object({
-  id: z.string().uuid('Invalid template ID'),
+  id: z.string().regex(cuidRegex, 'Invalid template ID'),
 })
 
 export const getNotificationSchema = z.object({
-  id: z.string().uuid('Invalid notification ID'),
+  id: z.string().regex(cuidRegex, 'Invalid notification ID'),
 })
 
 export const getNotificationPreferencesSchema = z.object({
-  userId: z.string().uuid('Invalid user ID'),
+  userId: z.string().regex(cuidRegex, 'Invalid user ID'),
 })
 
 // List schemas
@@ -409,8 +412,8 @@ export const listNotificationsSchema = z.object({
   category: NotificationCategorySchema.optional(),
   status: NotificationStatusSchema.optional(),
   priority: NotificationPrioritySchema.optional(),
-  userId: z.string().uuid().optional(),
-  clientId: z.string().uuid().optional(),
+  userId: cuidValidation.optional(),
+  clientId: cuidValidation.optional(),
   dateFrom: z.date().optional(),
   dateTo: z.date().optional(),
   sortBy: z.enum(['createdAt', 'sentAt', 'priority', 'status']).default('createdAt'),
@@ -419,7 +422,7 @@ export const listNotificationsSchema = z.object({
 
 // Notification operations
 export const sendNotificationSchema = z.object({
-  templateId: z.string().uuid().optional(),
+  templateId: cuidValidation.optional(),
   recipients: z.array(NotificationRecipientSchema).min(1),
   variables: z.record(z.any()).default({}),
   priority: NotificationPrioritySchema.default('NORMAL'),
@@ -432,25 +435,25 @@ export const sendNotificationSchema = z.object({
 })
 
 export const resendNotificationSchema = z.object({
-  id: z.string().uuid('Invalid notification ID'),
+  id: z.string().regex(cuidRegex, 'Invalid notification ID'),
   resetRetryCount: z.boolean().default(false),
 })
 
 export const cancelNotificationSchema = z.object({
-  id: z.string().uuid('Invalid notification ID'),
+  id: z.string().regex(cuidRegex, 'Invalid notification ID'),
   reason: z.string().max(500).optional(),
 })
 
 export const markNotificationReadSchema = z.object({
-  id: z.string().uuid('Invalid notification ID'),
-  userId: z.string().uuid('Invalid user ID'),
+  id: z.string().regex(cuidRegex, 'Invalid notification ID'),
+  userId: z.string().regex(cuidRegex, 'Invalid user ID'),
 })
 
 export const bulkNotificationSchema = z.object({
-  templateId: z.string().uuid('Invalid template ID'),
+  templateId: z.string().regex(cuidRegex, 'Invalid template ID'),
   recipientQuery: z.object({
-    userIds: z.array(z.string().uuid()).optional(),
-    clientIds: z.array(z.string().uuid()).optional(),
+    userIds: z.array(cuidValidation).optional(),
+    clientIds: z.array(cuidValidation).optional(),
     roles: z.array(z.string()).optional(),
     membershipStatus: z.array(z.string()).optional(),
     customFilters: z.record(z.any()).default({}),
@@ -0,0 +1,39 @@
+import { z } from 'zod'
+
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
+// Tokens are 32 random bytes in base64url
+const tokenValidation = z.string().regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid payment link')
+
+// Invoice payment link schemas
+export const createPaymentLinkSchema = z.object({
+  invoiceId: cuidValidation,
+  regenerate: z.boolean().optional(), // Revoke the current link and share a new one
+})
+
+export const revokePaymentLinkSchema = z.object({
+  linkId: cuidValidation,
+})
+
+export const paymentLinkTokenSchema = z.object({
+  token: tokenValidation,
+})
+
+export const payInvoiceOnlineSchema = z.object({
+  token: tokenValidation,
+  amount: z.number().positive('Amount must be positive'),
+})
+
+export const reportBankTransferSchema = z.object({
+  token: tokenValidation,
+  amount: z.number().positive('Amount must be positive'),
+  reference: z.string().trim().min(1, 'Transfer reference is required').max(100, 'Reference must be less than 100 characters'),
+})
+
+export type CreatePaymentLinkRequest = z.infer<typeof createPaymentLinkSchema>
+export type RevokePaymentLinkRequest = z.infer<typeof revokePaymentLinkSchema>
+export type PaymentLinkTokenRequest = z.infer<typeof paymentLinkTokenSchema>
+export type PayInvoiceOnlineRequest = z.infer<typeof payInvoiceOnlineSchema>
+export type ReportBankTransferRequest = z.infer<typeof reportBankTransferSchema>
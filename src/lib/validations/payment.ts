@@ -4,6 +4,10 @@ import { z } from 'zod'
  * Validation schemas for Payment management
  */
 
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
 // Enums
 export const PaymentMethodSchema = z.enum([
   'CASH',
@@ -15,6 +19,19 @@ export const PaymentMethodSchema = z.enum([
   'OTHER'
 ])
 
+// Providers with a payment gateway adapter
+export const GatewayProviderSchema = z.enum([
+  'STRIPE',
+  'MERCADO_PAGO',
+  'TRANSBANK'
+])
+
+export const GATEWAY_PROVIDER_LABELS: Record<z.infer<typeof GatewayProviderSchema>, string> = {
+  STRIPE: 'Stripe',
+  MERCADO_PAGO: 'Mercado Pago',
+  TRANSBANK: 'Transbank Webpay',
+}
+
 export const PaymentStatusSchema = z.enum([
   'PENDING',
   'COMPLETED',
@@ -66,11 +83,29 @@ export const paymentFiltersSchema = z.object({
 
 // Payment processing schemas
 export const processPaymentSchema = z.object({
-  paymentId: z.string().uuid('Invalid payment ID'),
+  paymentId: cuidValidation,
   processorResponse: z.record(z.any()).optional(),
   transactionId: z.string().max(100).optional(),
   processorFee: z.number().min(0).optional(),
   notes: z.string().max(500).optional(),
+  // Charge through a payment gateway instead of recording a payment received elsewhere
+  provider: GatewayProviderSchema.optional(),
+  paymentMethodId: cuidValidation.optional(), // Saved card, otherwise the client pays on the gateway's page
+  capture: z.boolean().optional(), // Only authorize the amount when false
+  returnUrl: z.string().url('Invalid return URL').optional(),
+})
+
+export const capturePaymentSchema = z.object({
+  paymentId: cuidValidation,
+  amount: z.number().positive('Capture amount must be positive').optional(), // Whole authorized amount if not specified
+})
+
+export const savePaymentMethodSchema = z.object({
+  clientId: cuidValidation,
+  provider: GatewayProviderSchema,
+  cardToken: z.string().min(1).max(500).optional(), // Created by the gateway's card form in the browser
+  returnUrl: z.string().url('Invalid return URL').optional(),
+  isDefault: z.boolean().optional(),
 })
 
 export const refundPaymentSchema = z.object({
@@ -178,6 +213,8 @@ export type CreatePaymentRequest = z.infer<typeof createPaymentSchema>
 export type UpdatePaymentRequest = z.infer<typeof updatePaymentSchema>
 export type PaymentFilters = z.infer<typeof paymentFiltersSchema>
 export type ProcessPaymentRequest = z.infer<typeof processPaymentSchema>
+export type CapturePaymentRequest = z.infer<typeof capturePaymentSchema>
+export type SavePaymentMethodRequest = z.infer<typeof savePaymentMethodSchema>
 export type RefundPaymentRequest = z.infer<typeof refundPaymentSchema>
 export type BulkPaymentActionRequest = z.infer<typeof bulkPaymentActionSchema>
 export type CreateReconciliationRequest = z.infer<typeof createReconciliationSchema>
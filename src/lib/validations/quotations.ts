@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { calculateDocumentTaxes, type TaxContext } from '@/lib/utils/tax'
+import type { TaxRule } from '@/lib/utils/pricing'
 
 // Enum schemas for quotation-related fields
 export const QuotationStatusSchema = z.enum([
@@ -24,6 +26,7 @@ export const QuotationItemSchema = z.object({
   quantity: z.number().int().min(1, 'La cantidad debe ser mayor a 0'),
   unitPrice: z.number().min(0, 'El precio unitario debe ser mayor o igual a 0'),
   total: z.number().min(0, 'El total debe ser mayor o igual a 0'),
+  taxRuleId: z.string().optional(), // Tax rule chosen by hand, picked by service category otherwise
   metadata: z.record(z.any()).optional(), // For custom data like service configurations
 })
 
@@ -191,6 +194,13 @@ export const ApplyDiscountToQuotationSchema = z.object({
   description: z.string().optional(),
 })
 
+export const PreviewQuotationTaxesSchema = z.object({
+  clientId: z.string().optional(),
+  items: z.array(QuotationItemSchema),
+  discountType: DiscountTypeSchema.default('FIXED'),
+  discountValue: z.number().min(0).default(0),
+})
+
 // Type exports
 export type QuotationStatus = z.infer<typeof QuotationStatusSchema>
 export type DiscountType = z.infer<typeof DiscountTypeSchema>
@@ -209,12 +219,14 @@ export type AddServiceToQuotationRequest = z.infer<typeof AddServiceToQuotationS
 export type RemoveServiceFromQuotationRequest = z.infer<typeof RemoveServiceFromQuotationSchema>
 export type UpdateQuotationItemRequest = z.infer<typeof UpdateQuotationItemSchema>
 export type ApplyDiscountToQuotationRequest = z.infer<typeof ApplyDiscountToQuotationSchema>
+export type PreviewQuotationTaxesRequest = z.infer<typeof PreviewQuotationTaxesSchema>
 
 // Utility functions for quotation calculations
 export const calculateQuotationTotals = (
-  items: QuotationItem[],
+  items: Array<QuotationItem & { category?: string }>,
   discountType: 'FIXED' | 'PERCENTAGE' = 'FIXED',
-  discountValue: number = 0
+  discountValue: number = 0,
+  tax: { rules: TaxRule[]; context: TaxContext }
 ) => {
   const subtotal = items.reduce((sum, item) => sum + item.total, 0)
 
@@ -223,22 +235,19 @@ export const calculateQuotationTotals = (
     ? (subtotal * discountValue) / 100
     : discountValue
 
-  // Calculate taxable amount (subtotal - discount)
-  const taxableAmount = Math.max(0, subtotal - discountAmount)
-
-  // Calculate IVA (19% of taxable amount)
-  const taxes = taxableAmount * 0.19
-
-  // Calculate total
-  const total = subtotal - discountAmount + taxes
+  // Calculate taxes per item with its tax rule, after spreading the discount
+  const taxes = calculateDocumentTaxes(items, tax.rules, tax.context, discountAmount)
 
   return {
     subtotal,
     discountType,
     discountValue,
-    discounts: discountAmount,
-    taxes,
-    total: Math.max(0, total) // Ensure total is never negative
+    discounts: taxes.discount,
+    taxes: taxes.tax,
+    total: taxes.total,
+    taxIncluded: tax.context.pricesIncludeTax,
+    items: taxes.lines,
+    breakdown: taxes.breakdown,
   }
 }
 
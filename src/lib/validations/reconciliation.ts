@@ -0,0 +1,81 @@
+import { z } from 'zod'
+
+// CUID validation helper
+const cuidRegex = /^c[^\s-]{8,}$/i
+const cuidValidation = z.string().regex(cuidRegex, 'Invalid ID format')
+
+// Bank reconciliation schemas
+export const BankStatementFormatSchema = z.enum([
+  'CSV',
+  'OFX',
+  'CAMT053'
+])
+
+export const MatchStatusSchema = z.enum([
+  'MATCHED',
+  'UNMATCHED',
+  'PARTIAL_MATCH',
+  'DISPUTED',
+  'MANUALLY_MATCHED'
+])
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<z.infer<typeof BankStatementFormatSchema>, string> = {
+  CSV: 'CSV',
+  OFX: 'OFX',
+  CAMT053: 'CAMT.053',
+}
+
+export const MATCH_STATUS_LABELS: Record<z.infer<typeof MatchStatusSchema>, string> = {
+  MATCHED: 'Conciliado',
+  UNMATCHED: 'Sin conciliar',
+  PARTIAL_MATCH: 'Por revisar',
+  DISPUTED: 'Excluido',
+  MANUALLY_MATCHED: 'Conciliado manualmente',
+}
+
+export const RECONCILIATION_STATUS_LABELS: Record<string, string> = {
+  IN_PROGRESS: 'En proceso',
+  COMPLETED: 'Lista para aprobar',
+  REQUIRES_REVIEW: 'Requiere revisión',
+  APPROVED: 'Aprobada',
+  REJECTED: 'Rechazada',
+}
+
+export const DISCREPANCY_TYPE_LABELS: Record<string, string> = {
+  AMOUNT_MISMATCH: 'Monto distinto',
+  DATE_MISMATCH: 'Fecha distinta',
+  MISSING_TRANSACTION: 'No aparece en la cartola',
+  DUPLICATE_TRANSACTION: 'Movimiento duplicado',
+  CURRENCY_MISMATCH: 'Moneda distinta',
+  REFERENCE_MISMATCH: 'Sin referencia',
+}
+
+export const importBankStatementSchema = z.object({
+  fileName: z.string().min(1, 'File name is required').max(255),
+  content: z.string().min(1, 'Statement file is empty').max(5_000_000, 'Statement file is too large'),
+  format: BankStatementFormatSchema.optional(), // Detected from the content when omitted
+  currency: z.string().length(3, 'Currency must be a 3-letter code').optional(), // For CSV files without a currency column
+})
+
+export const reconciliationSchema = z.object({
+  reconciliationId: cuidValidation,
+})
+
+export const matchReconciliationItemSchema = z.object({
+  itemId: cuidValidation,
+  paymentId: cuidValidation.optional(),
+  invoiceId: cuidValidation.optional(),
+}).refine(data => Boolean(data.paymentId) !== Boolean(data.invoiceId), {
+  message: 'Choose either a payment or an invoice',
+  path: ['paymentId'],
+})
+
+export const excludeReconciliationItemSchema = z.object({
+  itemId: cuidValidation,
+  notes: z.string().min(1, 'Explain why the item is excluded').max(500, 'Notes must be less than 500 characters'),
+})
+
+export type ImportBankStatementRequest = z.infer<typeof importBankStatementSchema>
+export type ReconciliationRequest = z.infer<typeof reconciliationSchema>
+export type MatchReconciliationItemRequest = z.infer<typeof matchReconciliationItemSchema>
+export type ExcludeReconciliationItemRequest = z.infer<typeof excludeReconciliationItemSchema>
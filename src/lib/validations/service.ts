@@ -47,6 +47,7 @@ export const baseServiceSchema = z.object({
   serviceType: ServiceTypeSchema.default('CONSUMABLE'),
   availability: ServiceAvailabilitySchema.default('ALWAYS'),
   maxQuantity: z.number().int().min(1).optional(),
+  inventoryQuantity: z.number().int().min(1).optional(), // Units overlapping bookings can reserve at once, e.g. projectors
   requiresApproval: z.boolean().default(false),
   estimatedDeliveryTime: z.string().optional(), // e.g., "2 hours", "Next business day"
   instructions: z.string().optional(),
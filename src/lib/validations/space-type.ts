@@ -113,6 +113,15 @@ export const DEFAULT_SPACE_TYPES = [
     sortOrder: 7,
     isDefault: true,
   },
+  {
+    key: 'DESK_AREA',
+    name: 'Área de Escritorios',
+    description: 'Escritorios reservables por día o asignados a un miembro',
+    icon: 'monitor',
+    color: '#14B8A6',
+    sortOrder: 8,
+    isDefault: true,
+  },
 ] as const
 
 export type DefaultSpaceType = typeof DEFAULT_SPACE_TYPES[number]
\ No newline at end of file
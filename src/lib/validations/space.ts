@@ -11,7 +11,8 @@ export const SpaceTypeSchema = z.enum([
   'EVENT_SPACE',
   'COMMON_AREA',
   'KITCHEN',
-  'LOUNGE'
+  'LOUNGE',
+  'DESK_AREA'
 ])
 
 export const SpaceStatusSchema = z.enum([
@@ -142,6 +143,8 @@ export const baseSpaceSchema = z.object({
   cancellationHours: z.number().int().min(0, 'Las horas de cancelación no pueden ser negativas').default(24), // Hours
   requiresApproval: z.boolean().default(false),
   allowRecurring: z.boolean().default(true),
+  noShowGraceMinutes: z.preprocess((val) => val === '' ? undefined : val, z.number().int().min(0, 'El período de gracia no puede ser negativo').optional()), // Minutes
+  noShowFee: z.preprocess((val) => val === '' ? undefined : val, z.number().min(0, 'El cargo por inasistencia no puede ser negativo').optional()),
 
 })
 
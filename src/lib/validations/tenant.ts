@@ -246,6 +246,13 @@ export const updateTenantSettingsSchema = z.object({
     smsBookingReminder: z.boolean().optional(),
     pushBookingReminder: z.boolean().optional(),
   }).optional(),
+  noShowPolicy: z.object({
+    graceMinutes: z.number().int().min(0).max(240).optional(), // Minutes after start
+    fee: z.number().min(0).optional(),
+    maxStrikes: z.number().int().min(0).max(20).optional(), // 0 = no strike policy
+    strikeWindowDays: z.number().int().min(1).max(365).optional(),
+    suspensionDays: z.number().int().min(1).max(365).optional(),
+  }).optional(),
   integrations: z.object({
     googleCalendar: z.boolean().optional(),
     outlookCalendar: z.boolean().optional(),
@@ -0,0 +1,372 @@
+import prisma from '@/lib/server/prisma'
+import { logger } from '@/lib/logger'
+import type { ApiKeyScope } from '@/lib/validations/integration'
+import {
+  generateApiKey,
+  hasApiKeyScope,
+  hashApiKey,
+  isIpAllowed,
+  isValidIpRange,
+} from '@/lib/utils/api-key'
+
+// How long a rotated key keeps working unless the admin chooses otherwise
+const DEFAULT_ROTATION_GRACE_HOURS = 24
+
+const DEFAULT_USAGE_DAYS = 30
+
+// The hashes never leave the service
+const API_KEY_OMIT = { keyHash: true, previousKeyHash: true } as const
+
+export interface CreateApiKeyParams {
+  tenantId: string
+  userId: string
+  name: string
+  description?: string
+  scopes: ApiKeyScope[]
+  allowedIps?: string[]
+  expiresAt?: Date | null
+  rateLimitPerMinute?: number | null
+}
+
+export interface UpdateApiKeyParams {
+  name?: string
+  description?: string
+  scopes?: ApiKeyScope[]
+  allowedIps?: string[]
+  expiresAt?: Date | null
+  rateLimitPerMinute?: number | null
+}
+
+export interface AuthenticateApiKeyParams {
+  key: string
+  ip: string | null
+  scope: ApiKeyScope
+}
+
+/**
+ * Who a request authenticated with an API key acts as: the user that created the key, limited
+ * to the key's scopes
+ */
+export interface ApiKeyContext {
+  apiKeyId: string
+  tenantId: string
+  scopes: string[]
+  rateLimitPerMinute: number | null
+  user: {
+    id: string
+    email: string
+    firstName: string | null
+    lastName: string | null
+    role: string
+    tenantId: string | null
+  }
+}
+
+export type ApiKeyAuthResult =
+  | { success: true; context: ApiKeyContext }
+  | { success: false; status: 401 | 403; error: string; apiKeyId?: string; tenantId?: string }
+
+export class ApiKeyService {
+  private static instance: ApiKeyService
+
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService()
+    }
+    return ApiKeyService.instance
+  }
+
+  /**
+   * Create a key. The key itself is returned only here; afterwards only its prefix is known.
+   */
+  async createApiKey(params: CreateApiKeyParams) {
+    const allowedIps = this.normalizeAllowedIps(params.allowedIps)
+    const { key, prefix, keyHash } = generateApiKey()
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        tenantId: params.tenantId,
+        name: params.name,
+        description: params.description,
+        prefix,
+        keyHash,
+        scopes: params.scopes,
+        allowedIps,
+        expiresAt: params.expiresAt,
+        rateLimitPerMinute: params.rateLimitPerMinute,
+        createdById: params.userId,
+      },
+      omit: API_KEY_OMIT,
+    })
+
+    logger.info('API key created', {
+      operation: 'api_key_create',
+      tenantId: params.tenantId,
+      apiKeyId: apiKey.id,
+    })
+
+    return { apiKey, key }
+  }
+
+  async updateApiKey(tenantId: string, apiKeyId: string, params: UpdateApiKeyParams) {
+    const apiKey = await this.findApiKey(tenantId, apiKeyId)
+
+    if (apiKey.revokedAt) {
+      throw new Error('Revoked API keys cannot be changed')
+    }
+
+    return prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: {
+        ...params,
+        ...(params.allowedIps ? { allowedIps: this.normalizeAllowedIps(params.allowedIps) } : {}),
+      },
+      omit: API_KEY_OMIT,
+    })
+  }
+
+  /**
+   * Replace the key with a new one. The replaced key keeps working for the grace period so
+   * integrations can be switched over without downtime.
+   */
+  async rotateApiKey(tenantId: string, apiKeyId: string, gracePeriodHours = DEFAULT_ROTATION_GRACE_HOURS) {
+    const existing = await this.findApiKey(tenantId, apiKeyId)
+
+    if (existing.revokedAt) {
+      throw new Error('Revoked API keys cannot be rotated')
+    }
+
+    const { key, prefix, keyHash } = generateApiKey()
+    const apiKey = await prisma.apiKey.update({
+      where: { id: existing.id },
+      data: {
+        prefix,
+        keyHash,
+        previousKeyHash: gracePeriodHours > 0 ? existing.keyHash : null,
+        previousKeyExpiresAt: gracePeriodHours > 0 ? new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000) : null,
+      },
+      omit: API_KEY_OMIT,
+    })
+
+    logger.info('API key rotated', {
+      operation: 'api_key_rotate',
+      tenantId,
+      apiKeyId: apiKey.id,
+      gracePeriodHours,
+    })
+
+    return { apiKey, key }
+  }
+
+  /**
+   * Stop accepting the key, and the one it replaced, for good. The key and its usage stay
+   * listed for reference.
+   */
+  async revokeApiKey(tenantId: string, apiKeyId: string) {
+    const apiKey = await this.findApiKey(tenantId, apiKeyId)
+
+    if (apiKey.revokedAt) {
+      throw new Error('The API key is already revoked')
+    }
+
+    const revoked = await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: {
+        revokedAt: new Date(),
+        previousKeyHash: null,
+        previousKeyExpiresAt: null,
+      },
+      omit: API_KEY_OMIT,
+    })
+
+    logger.info('API key revoked', {
+      operation: 'api_key_revoke',
+      tenantId,
+      apiKeyId: apiKey.id,
+    })
+
+    return revoked
+  }
+
+  async deleteApiKey(tenantId: string, apiKeyId: string) {
+    const apiKey = await this.findApiKey(tenantId, apiKeyId)
+    await prisma.apiKey.delete({ where: { id: apiKey.id } })
+  }
+
+  /**
+   * Requests per day over the last days, oldest first
+   */
+  async getUsage(tenantId: string, apiKeyId: string, days = DEFAULT_USAGE_DAYS) {
+    const apiKey = await this.findApiKey(tenantId, apiKeyId)
+    const since = this.startOfDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000))
+
+    return prisma.apiKeyUsage.findMany({
+      where: {
+        apiKeyId: apiKey.id,
+        date: { gte: since },
+      },
+      select: { date: true, requests: true, errors: true },
+      orderBy: { date: 'asc' },
+    })
+  }
+
+  /**
+   * Resolve the tenant and the acting user of a request from its key, checking that the key is
+   * still valid, the caller's address is allowed and the key has the scope the request needs
+   */
+  async authenticate(params: AuthenticateApiKeyParams): Promise<ApiKeyAuthResult> {
+    const keyHash = hashApiKey(params.key)
+    const now = new Date()
+
+    const apiKey = await prisma.apiKey.findFirst({
+      where: {
+        OR: [
+          { keyHash },
+          { previousKeyHash: keyHash, previousKeyExpiresAt: { gt: now } },
+        ],
+      },
+      select: {
+        id: true,
+        tenantId: true,
+        scopes: true,
+        allowedIps: true,
+        expiresAt: true,
+        rateLimitPerMinute: true,
+        revokedAt: true,
+        createdById: true,
+      },
+    })
+
+    if (!apiKey) {
+      return { success: false, status: 401, error: 'Invalid API key' }
+    }
+
+    const rejection = { apiKeyId: apiKey.id, tenantId: apiKey.tenantId }
+
+    if (apiKey.revokedAt) {
+      return { success: false, status: 401, error: 'API key has been revoked', ...rejection }
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      return { success: false, status: 401, error: 'API key has expired', ...rejection }
+    }
+
+    if (!isIpAllowed(params.ip, apiKey.allowedIps)) {
+      logger.warn('API key used from an address outside its allow-list', {
+        operation: 'api_key_authenticate',
+        tenantId: apiKey.tenantId,
+        apiKeyId: apiKey.id,
+        ip: params.ip,
+      })
+      return { success: false, status: 403, error: 'Requests from this IP address are not allowed', ...rejection }
+    }
+
+    if (!hasApiKeyScope(apiKey.scopes, params.scope)) {
+      return { success: false, status: 403, error: `API key is missing the ${params.scope} scope`, ...rejection }
+    }
+
+    // Keys stop working when their creator leaves the tenant or is suspended
+    const user = await prisma.user.findFirst({
+      where: {
+        id: apiKey.createdById,
+        tenantId: apiKey.tenantId,
+        status: 'ACTIVE',
+        isActive: true,
+      },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        tenantId: true,
+      },
+    })
+
+    if (!user) {
+      return { success: false, status: 401, error: 'The user that created this API key no longer has access', ...rejection }
+    }
+
+    return {
+      success: true,
+      context: {
+        apiKeyId: apiKey.id,
+        tenantId: apiKey.tenantId,
+        scopes: apiKey.scopes,
+        rateLimitPerMinute: apiKey.rateLimitPerMinute,
+        user,
+      },
+    }
+  }
+
+  /**
+   * Count a request made with a key. Never throws, so tracking does not fail the request.
+   */
+  async recordUsage(apiKeyId: string, tenantId: string, status: number, ip: string | null): Promise<void> {
+    try {
+      const isError = status >= 400
+      const date = this.startOfDay(new Date())
+
+      await prisma.$transaction([
+        prisma.apiKeyUsage.upsert({
+          where: { apiKeyId_date: { apiKeyId, date } },
+          update: {
+            requests: { increment: 1 },
+            ...(isError ? { errors: { increment: 1 } } : {}),
+          },
+          create: {
+            tenantId,
+            apiKeyId,
+            date,
+            requests: 1,
+            errors: isError ? 1 : 0,
+          },
+        }),
+        prisma.apiKey.update({
+          where: { id: apiKeyId },
+          data: {
+            lastUsedAt: new Date(),
+            lastUsedIp: ip,
+            usageCount: { increment: 1 },
+          },
+        }),
+      ])
+    } catch (error) {
+      logger.error('Failed to record API key usage', error as Error, {
+        operation: 'api_key_usage',
+        apiKeyId,
+      })
+    }
+  }
+
+  private normalizeAllowedIps(allowedIps: string[] = []): string[] {
+    const ranges = Array.from(new Set(allowedIps.map(range => range.trim()).filter(Boolean)))
+    const invalid = ranges.find(range => !isValidIpRange(range))
+
+    if (invalid) {
+      throw new Error(`Invalid IP address or range: ${invalid}`)
+    }
+
+    return ranges
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+
+  private async findApiKey(tenantId: string, apiKeyId: string) {
+    const apiKey = await prisma.apiKey.findFirst({
+      where: {
+        id: apiKeyId,
+        tenantId,
+      },
+      select: { id: true, keyHash: true, revokedAt: true },
+    })
+
+    if (!apiKey) {
+      throw new Error('API key not found')
+    }
+
+    return apiKey
+  }
+}
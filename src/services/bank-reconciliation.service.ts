@@ -0,0 +1,565 @@
+import prisma from '@/lib/server/prisma'
+import type { Prisma } from '@prisma/client'
+import { addDays } from 'date-fns'
+import { logger } from '@/lib/logger'
+import {
+  detectBankStatementFormat,
+  findDuplicateLines,
+  isAutoMatch,
+  matchStatementLines,
+  parseBankStatement,
+  scoreReconciliationMatch,
+  type BankStatementFormat,
+  type ReconciliationCandidate,
+} from '@/lib/utils/reconciliation'
+import { calculateInvoiceBalance } from '@/lib/utils/payment-link'
+import { PaymentGatewayService } from '@/services/payment-gateway.service'
+import { WebhookService } from '@/services/webhook.service'
+
+export interface ImportBankStatementParams {
+  tenantId: string
+  userId: string
+  fileName: string
+  content: string
+  format?: BankStatementFormat
+  currency?: string
+}
+
+export interface MatchReconciliationItemParams {
+  tenantId: string
+  userId: string
+  itemId: string
+  paymentId?: string
+  invoiceId?: string
+}
+
+export interface ExcludeReconciliationItemParams {
+  tenantId: string
+  userId: string
+  itemId: string
+  notes: string
+}
+
+type CandidatePayment = Prisma.PaymentGetPayload<{ include: { invoice: { select: { number: true } } } }>
+type CandidateInvoice = Prisma.InvoiceGetPayload<{ include: { payments: { select: { amount: true } } } }>
+
+// Recorded transfers are looked for this many days around the statement period
+const PAYMENT_DATE_WINDOW_DAYS = 7
+
+// Transfers already reconciled are not offered again
+const RECONCILED_ITEM_FILTER: Prisma.PaymentReconciliationItemWhereInput = {
+  matchStatus: { in: ['MATCHED', 'MANUALLY_MATCHED'] },
+  reconciliation: { status: { not: 'REJECTED' } },
+}
+
+export class BankReconciliationService {
+  private static instance: BankReconciliationService
+
+  public static getInstance(): BankReconciliationService {
+    if (!BankReconciliationService.instance) {
+      BankReconciliationService.instance = new BankReconciliationService()
+    }
+    return BankReconciliationService.instance
+  }
+
+  /**
+   * Import a bank statement and match the money received against recorded bank transfers
+   * and open invoices. Confident matches are taken as is; everything else is left for review,
+   * together with the recorded transfers the statement does not show.
+   */
+  async importStatement(params: ImportBankStatementParams) {
+    const settings = await prisma.billingSettings.findUnique({
+      where: { tenantId: params.tenantId },
+      select: { currency: true },
+    })
+
+    const format = params.format || detectBankStatementFormat(params.content)
+    // Only money received is reconciled, charges and outgoing transfers are left out
+    const lines = parseBankStatement(params.content, format, params.currency || settings?.currency || 'USD')
+      .filter(line => line.amount > 0)
+
+    if (lines.length === 0) {
+      throw new Error('The statement has no incoming transactions')
+    }
+
+    const dates = lines.map(line => line.transactionDate.getTime())
+    const startDate = new Date(Math.min(...dates))
+    const endDate = new Date(Math.max(...dates))
+
+    const [imported, payments, invoices] = await Promise.all([
+      prisma.paymentReconciliationItem.findMany({
+        where: {
+          transactionReference: { in: lines.map(line => line.transactionReference) },
+          reconciliation: {
+            tenantId: params.tenantId,
+            status: { not: 'REJECTED' },
+          },
+        },
+        select: { transactionReference: true },
+      }),
+      prisma.payment.findMany({
+        where: {
+          tenantId: params.tenantId,
+          method: 'BANK_TRANSFER',
+          amount: { gt: 0 },
+          OR: [
+            { status: 'PENDING' },
+            {
+              status: 'COMPLETED',
+              processedAt: {
+                gte: addDays(startDate, -PAYMENT_DATE_WINDOW_DAYS),
+                lte: addDays(endDate, PAYMENT_DATE_WINDOW_DAYS),
+              },
+            },
+          ],
+          reconciliationItems: { none: RECONCILED_ITEM_FILTER },
+        },
+        include: { invoice: { select: { number: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.invoice.findMany({
+        where: {
+          tenantId: params.tenantId,
+          status: { in: ['SENT', 'OVERDUE'] },
+        },
+        include: { payments: { where: { status: 'COMPLETED' }, select: { amount: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ])
+
+    // Recorded transfers go first so a line is matched to the transfer rather than its invoice
+    const candidates = [
+      ...payments.map(payment => this.toPaymentCandidate(payment)),
+      ...invoices.map(invoice => this.toInvoiceCandidate(invoice)).filter(candidate => candidate.amount > 0),
+    ]
+
+    const duplicates = findDuplicateLines(lines, new Set(imported.map(item => item.transactionReference)))
+    const uniqueLines = lines.filter((_, index) => !duplicates[index])
+    const matches = matchStatementLines(uniqueLines, candidates)
+    const now = new Date()
+    let uniqueIndex = 0
+
+    const items: Prisma.PaymentReconciliationItemCreateManyReconciliationInput[] = lines.map((line, index) => {
+      const match = duplicates[index] ? null : matches[uniqueIndex++]
+      const autoMatched = Boolean(match && isAutoMatch(match))
+
+      return {
+        transactionReference: line.transactionReference,
+        bankReference: line.bankReference,
+        amount: line.amount,
+        currency: line.currency,
+        transactionDate: line.transactionDate,
+        description: line.description || null,
+        paymentId: match?.candidate.type === 'PAYMENT' ? match.candidate.id : null,
+        invoiceId: match?.candidate.type === 'INVOICE' ? match.candidate.id : null,
+        matchStatus: !match ? 'UNMATCHED' : autoMatched ? 'MATCHED' : 'PARTIAL_MATCH',
+        matchConfidence: match?.confidence ?? 0,
+        matchedAt: autoMatched ? now : null,
+        discrepancyType: duplicates[index] ? 'DUPLICATE_TRANSACTION' : match?.discrepancyType ?? null,
+        discrepancyAmount: match?.discrepancyAmount || null,
+        requiresAction: !autoMatched,
+      }
+    })
+
+    // Completed transfers in the period that no line of the statement accounts for
+    const matchedPaymentIds = new Set(items.map(item => item.paymentId).filter(Boolean))
+    const periodEnd = addDays(endDate, 1)
+    payments
+      .filter(payment => payment.status === 'COMPLETED' && !matchedPaymentIds.has(payment.id))
+      .filter(payment => payment.processedAt && payment.processedAt >= startDate && payment.processedAt < periodEnd)
+      .forEach(payment => {
+        items.push({
+          transactionReference: `payment:${payment.id}`,
+          bankReference: payment.reference,
+          amount: payment.amount,
+          currency: payment.currency,
+          transactionDate: payment.processedAt || payment.createdAt,
+          description: payment.invoice ? `Invoice ${payment.invoice.number}` : null,
+          paymentId: payment.id,
+          matchStatus: 'UNMATCHED',
+          discrepancyType: 'MISSING_TRANSACTION',
+          requiresAction: true,
+        })
+      })
+
+    const recordedPayments = await prisma.payment.aggregate({
+      where: {
+        tenantId: params.tenantId,
+        method: 'BANK_TRANSFER',
+        status: 'COMPLETED',
+        processedAt: { gte: startDate, lt: periodEnd },
+      },
+      _sum: { amount: true },
+    })
+
+    const bankStatementTotal = uniqueLines.reduce((sum, line) => sum + line.amount, 0)
+    const recordedPaymentsTotal = Number(recordedPayments._sum.amount || 0)
+
+    const reconciliation = await prisma.paymentReconciliation.create({
+      data: {
+        tenantId: params.tenantId,
+        reconciliationType: 'BANK_RECONCILIATION',
+        period: 'CUSTOM',
+        startDate,
+        endDate,
+        bankStatementTotal,
+        recordedPaymentsTotal,
+        variance: bankStatementTotal - recordedPaymentsTotal,
+        statementFormat: format,
+        statementFileName: params.fileName,
+        reconciledBy: params.userId,
+        ...this.summarize(items),
+        discrepancies: items
+          .filter(item => item.discrepancyType)
+          .map(item => ({
+            transactionReference: item.transactionReference,
+            type: item.discrepancyType,
+            amount: item.discrepancyAmount ?? null,
+          })) as Prisma.InputJsonValue,
+        transactions: { createMany: { data: items } },
+      },
+    })
+
+    logger.info('Bank statement imported', {
+      operation: 'reconciliation_import',
+      tenantId: params.tenantId,
+      reconciliationId: reconciliation.id,
+      format,
+      lines: lines.length,
+      matched: reconciliation.matchedTransactions,
+    })
+
+    return reconciliation
+  }
+
+  /**
+   * Match a statement line by hand to a recorded payment or to an open invoice
+   */
+  async matchItem(params: MatchReconciliationItemParams) {
+    const item = await this.getOpenItem(params.tenantId, params.itemId)
+
+    if (item.discrepancyType === 'MISSING_TRANSACTION') {
+      throw new Error('Payments missing from the statement can only be excluded')
+    }
+
+    let candidate: ReconciliationCandidate
+    if (params.paymentId) {
+      const payment = await prisma.payment.findFirst({
+        where: {
+          id: params.paymentId,
+          tenantId: params.tenantId,
+          status: { in: ['PENDING', 'COMPLETED'] },
+          amount: { gt: 0 },
+          reconciliationItems: { none: { ...RECONCILED_ITEM_FILTER, id: { not: item.id } } },
+        },
+        include: { invoice: { select: { number: true } } },
+      })
+
+      if (!payment) {
+        throw new Error('Payment not found or already reconciled')
+      }
+      candidate = this.toPaymentCandidate(payment)
+    } else {
+      const invoice = await prisma.invoice.findFirst({
+        where: {
+          id: params.invoiceId,
+          tenantId: params.tenantId,
+          status: { in: ['SENT', 'OVERDUE'] },
+        },
+        include: { payments: { where: { status: 'COMPLETED' }, select: { amount: true } } },
+      })
+
+      if (!invoice) {
+        throw new Error('Invoice not found or not open for payment')
+      }
+      candidate = this.toInvoiceCandidate(invoice)
+    }
+
+    const taken = await prisma.paymentReconciliationItem.findFirst({
+      where: {
+        reconciliationId: item.reconciliationId,
+        id: { not: item.id },
+        matchStatus: { in: ['MATCHED', 'MANUALLY_MATCHED', 'PARTIAL_MATCH'] },
+        ...(params.paymentId ? { paymentId: params.paymentId } : { invoiceId: params.invoiceId }),
+      },
+      select: { id: true },
+    })
+
+    if (taken) {
+      throw new Error('Another line of this statement is already matched to it')
+    }
+
+    const score = scoreReconciliationMatch({
+      transactionReference: item.transactionReference,
+      bankReference: item.bankReference,
+      amount: Number(item.amount),
+      currency: item.currency,
+      transactionDate: item.transactionDate,
+      description: item.description || '',
+    }, candidate)
+
+    if (score.discrepancyType === 'CURRENCY_MISMATCH') {
+      throw new Error('The payment is in a different currency')
+    }
+
+    await prisma.paymentReconciliationItem.update({
+      where: { id: item.id },
+      data: {
+        paymentId: params.paymentId || null,
+        invoiceId: params.invoiceId || null,
+        matchStatus: 'MANUALLY_MATCHED',
+        matchConfidence: score.confidence,
+        matchedBy: params.userId,
+        matchedAt: new Date(),
+        discrepancyType: score.discrepancyType,
+        discrepancyAmount: score.discrepancyAmount || null,
+        requiresAction: false,
+      },
+    })
+
+    return await this.refreshSummary(item.reconciliationId)
+  }
+
+  /**
+   * Leave a line or a missing payment out of the reconciliation, with the reason. Lines that
+   * are not payments from clients, like interest, are excluded this way.
+   */
+  async excludeItem(params: ExcludeReconciliationItemParams) {
+    const item = await this.getOpenItem(params.tenantId, params.itemId)
+
+    await prisma.paymentReconciliationItem.update({
+      where: { id: item.id },
+      data: {
+        // Missing payments keep their payment so the exclusion can be traced back
+        paymentId: item.discrepancyType === 'MISSING_TRANSACTION' ? item.paymentId : null,
+        invoiceId: null,
+        matchStatus: 'DISPUTED',
+        matchedBy: params.userId,
+        matchedAt: new Date(),
+        notes: params.notes,
+        requiresAction: false,
+      },
+    })
+
+    return await this.refreshSummary(item.reconciliationId)
+  }
+
+  /**
+   * Approve a reviewed reconciliation. Matched transfers become completed payments: the ones
+   * clients reported are confirmed and transfers to open invoices are recorded, and the
+   * invoices they pay in full are marked as paid.
+   */
+  async approve(tenantId: string, userId: string, reconciliationId: string) {
+    const reconciliation = await prisma.paymentReconciliation.findFirst({
+      where: {
+        id: reconciliationId,
+        tenantId,
+      },
+      include: {
+        transactions: {
+          include: {
+            payment: { select: { id: true, status: true, invoiceId: true } },
+            invoice: { select: { id: true, number: true, status: true, clientId: true } },
+          },
+        },
+      },
+    })
+
+    if (!reconciliation) {
+      throw new Error('Reconciliation not found')
+    }
+
+    if (['APPROVED', 'REJECTED'].includes(reconciliation.status)) {
+      throw new Error('Reconciliation is already closed')
+    }
+
+    if (reconciliation.transactions.some(item => item.requiresAction)) {
+      throw new Error('Review the pending items before approving')
+    }
+
+    const matched = reconciliation.transactions.filter(item =>
+      ['MATCHED', 'MANUALLY_MATCHED'].includes(item.matchStatus) && item.discrepancyType !== 'MISSING_TRANSACTION'
+    )
+
+    // An invoice may have been paid another way since the statement was imported
+    const closedInvoice = matched.find(item => item.invoice && !['SENT', 'OVERDUE'].includes(item.invoice.status))
+    if (closedInvoice?.invoice) {
+      throw new Error(`Invoice ${closedInvoice.invoice.number} is no longer open for payment`)
+    }
+
+    const invoiceIds = new Set<string>()
+    const receivedPaymentIds: string[] = []
+
+    await prisma.$transaction(async (tx) => {
+      // Claim the approval first, so a concurrent approval cannot record the payments twice
+      const claimed = await tx.paymentReconciliation.updateMany({
+        where: {
+          id: reconciliation.id,
+          status: { notIn: ['APPROVED', 'REJECTED'] },
+        },
+        data: {
+          status: 'APPROVED',
+          approvedBy: userId,
+          approvedAt: new Date(),
+        },
+      })
+
+      if (claimed.count === 0) {
+        throw new Error('Reconciliation is already closed')
+      }
+
+      for (const item of matched) {
+        if (item.payment) {
+          if (item.payment.status === 'PENDING') {
+            await tx.payment.update({
+              where: { id: item.payment.id },
+              data: {
+                status: 'COMPLETED',
+                processedAt: item.transactionDate,
+              },
+            })
+            receivedPaymentIds.push(item.payment.id)
+          }
+          if (item.payment.invoiceId) invoiceIds.add(item.payment.invoiceId)
+        } else if (item.invoice) {
+          const payment = await tx.payment.create({
+            data: {
+              tenantId,
+              clientId: item.invoice.clientId,
+              invoiceId: item.invoice.id,
+              amount: item.amount,
+              currency: item.currency,
+              method: 'BANK_TRANSFER',
+              reference: item.bankReference || item.transactionReference,
+              status: 'COMPLETED',
+              processedAt: item.transactionDate,
+            },
+          })
+
+          await tx.paymentReconciliationItem.update({
+            where: { id: item.id },
+            data: { paymentId: payment.id },
+          })
+          receivedPaymentIds.push(payment.id)
+          invoiceIds.add(item.invoice.id)
+        }
+      }
+    })
+
+    for (const paymentId of receivedPaymentIds) {
+      await WebhookService.getInstance().emitPaymentReceived(paymentId)
+    }
+
+    const gateway = PaymentGatewayService.getInstance()
+    for (const invoiceId of invoiceIds) {
+      await gateway.settleInvoice(invoiceId)
+    }
+
+    logger.info('Bank reconciliation approved', {
+      operation: 'reconciliation_approve',
+      tenantId,
+      reconciliationId: reconciliation.id,
+      payments: matched.length,
+      invoices: invoiceIds.size,
+    })
+
+    return { id: reconciliation.id, payments: matched.length, invoices: invoiceIds.size }
+  }
+
+  /**
+   * Discard an imported statement that has not been approved, so it can be imported again
+   */
+  async deleteReconciliation(tenantId: string, reconciliationId: string) {
+    const reconciliation = await prisma.paymentReconciliation.findFirst({
+      where: {
+        id: reconciliationId,
+        tenantId,
+      },
+      select: { id: true, status: true },
+    })
+
+    if (!reconciliation) {
+      throw new Error('Reconciliation not found')
+    }
+
+    if (reconciliation.status === 'APPROVED') {
+      throw new Error('Approved reconciliations cannot be deleted')
+    }
+
+    await prisma.paymentReconciliation.delete({ where: { id: reconciliation.id } })
+  }
+
+  private toPaymentCandidate(payment: CandidatePayment): ReconciliationCandidate {
+    return {
+      type: 'PAYMENT',
+      id: payment.id,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      date: payment.processedAt || payment.createdAt,
+      references: [payment.reference, payment.providerPaymentId, payment.invoice?.number]
+        .filter((reference): reference is string => Boolean(reference)),
+    }
+  }
+
+  private toInvoiceCandidate(invoice: CandidateInvoice): ReconciliationCandidate {
+    const paid = invoice.payments.reduce((sum, payment) => sum + Number(payment.amount), 0)
+
+    return {
+      type: 'INVOICE',
+      id: invoice.id,
+      amount: calculateInvoiceBalance(Number(invoice.total), paid, invoice.currency),
+      currency: invoice.currency,
+      date: invoice.createdAt,
+      dueDate: invoice.dueDate,
+      references: [invoice.number],
+    }
+  }
+
+  private async getOpenItem(tenantId: string, itemId: string) {
+    const item = await prisma.paymentReconciliationItem.findFirst({
+      where: {
+        id: itemId,
+        reconciliation: { tenantId },
+      },
+      include: { reconciliation: { select: { status: true } } },
+    })
+
+    if (!item) {
+      throw new Error('Reconciliation item not found')
+    }
+
+    if (['APPROVED', 'REJECTED'].includes(item.reconciliation.status)) {
+      throw new Error('Reconciliation is already closed')
+    }
+
+    return item
+  }
+
+  private async refreshSummary(reconciliationId: string) {
+    const items = await prisma.paymentReconciliationItem.findMany({
+      where: { reconciliationId },
+      select: { matchStatus: true, discrepancyType: true, requiresAction: true },
+    })
+
+    return await prisma.paymentReconciliation.update({
+      where: { id: reconciliationId },
+      data: this.summarize(items),
+    })
+  }
+
+  private summarize(items: Pick<Prisma.PaymentReconciliationItemCreateManyInput, 'matchStatus' | 'discrepancyType' | 'requiresAction'>[]) {
+    const statementItems = items.filter(item => item.discrepancyType !== 'MISSING_TRANSACTION')
+    const autoMatched = statementItems.filter(item => item.matchStatus === 'MATCHED').length
+    const pending = items.some(item => item.requiresAction)
+
+    return {
+      matchedTransactions: items.filter(item => item.matchStatus === 'MATCHED' || item.matchStatus === 'MANUALLY_MATCHED').length,
+      unmatchedTransactions: statementItems.filter(item => item.requiresAction && item.discrepancyType !== 'DUPLICATE_TRANSACTION').length,
+      duplicateTransactions: items.filter(item => item.discrepancyType === 'DUPLICATE_TRANSACTION').length,
+      missingTransactions: items.filter(item => item.discrepancyType === 'MISSING_TRANSACTION').length,
+      autoMatchPercentage: statementItems.length ? Math.round((autoMatched / statementItems.length) * 10000) / 100 : 0,
+      manualReview: pending,
+      status: pending ? 'REQUIRES_REVIEW' as const : 'COMPLETED' as const,
+    }
+  }
+}
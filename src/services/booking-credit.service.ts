@@ -0,0 +1,393 @@
+import prisma from '@/lib/server/prisma'
+import { Prisma, type BookingCreditBalance, type SpaceType } from '@prisma/client'
+import { differenceInMinutes, format } from 'date-fns'
+import { logger } from '@/lib/logger'
+import {
+  allocateBookingCredits,
+  getAvailableCredits,
+  getCreditPeriod,
+  getRolloverCredits,
+  type BookingCreditUnit,
+  type CreditAllocation,
+  type CreditCycleConfig,
+  type CreditPeriod,
+} from '@/lib/utils/booking-credits'
+import type { BookingPriceBreakdown } from '@/lib/utils/pricing-integration'
+
+export interface BookingCreditBalanceSummary {
+  balanceId: string
+  membershipId: string
+  planId: string
+  planName: string
+  unit: BookingCreditUnit
+  periodStart: Date
+  periodEnd: Date
+  granted: number
+  rolledOver: number
+  used: number
+  available: number
+}
+
+export interface BookingCreditApplication extends CreditAllocation {
+  balanceId: string
+  unit: BookingCreditUnit
+  usageRecordId: string | null
+}
+
+interface CreditBooking {
+  id: string
+  userId: string
+  spaceId: string
+  title: string
+  startTime: Date
+  endTime: Date
+  cost: Prisma.Decimal | number | null
+  priceBreakdown?: Prisma.JsonValue
+}
+
+// Tries to consume a balance that other bookings keep changing before giving up
+const MAX_BALANCE_ATTEMPTS = 3
+
+export class BookingCreditService {
+  private static instance: BookingCreditService
+
+  public static getInstance(): BookingCreditService {
+    if (!BookingCreditService.instance) {
+      BookingCreditService.instance = new BookingCreditService()
+    }
+    return BookingCreditService.instance
+  }
+
+  /**
+   * Credit balance of a member for the billing period containing `at`, opening the period
+   * with any rollover when needed. Null when the member's plan grants no credits.
+   */
+  async getBalance(tenantId: string, userId: string, at: Date = new Date()): Promise<BookingCreditBalanceSummary | null> {
+    const membership = await this.findCreditMembership(tenantId, userId)
+    if (!membership) {
+      return null
+    }
+
+    const { period } = await this.resolvePeriod(tenantId, membership, at)
+    const balance = await this.openBalance(tenantId, membership, period)
+
+    return this.toSummary(balance, membership.plan.name)
+  }
+
+  /**
+   * Pay for a booking with the member's credits before charging. The booking cost drops by
+   * the covered amount and the rest is billed as overage through a UsageRecord.
+   * Returns null when the member has no credits for this kind of space.
+   * The balance is only consumed if nobody used it since it was read, otherwise the
+   * allocation is worked out again from the new balance.
+   */
+  async applyToBooking(tenantId: string, booking: CreditBooking, spaceType: SpaceType): Promise<BookingCreditApplication | null> {
+    const membership = await this.findCreditMembership(tenantId, booking.userId)
+    if (!membership || !membership.plan.bookingCreditSpaceTypes.includes(spaceType)) {
+      return null
+    }
+
+    const { period, subscriptionId } = await this.resolvePeriod(tenantId, membership, booking.startTime)
+    const { id: balanceId } = await this.openBalance(tenantId, membership, period)
+
+    const amount = booking.cost !== null ? Number(booking.cost) : 0
+    const hours = differenceInMinutes(booking.endTime, booking.startTime) / 60
+
+    let result: BookingCreditApplication | null = null
+    for (let attempt = 0; !result && attempt < MAX_BALANCE_ATTEMPTS; attempt++) {
+      result = await prisma.$transaction(async (tx) => {
+        const balance = await tx.bookingCreditBalance.findUniqueOrThrow({
+          where: { id: balanceId },
+        })
+
+        const allocation = allocateBookingCredits(
+          getAvailableCredits(this.toSnapshot(balance)),
+          balance.unit,
+          { startTime: booking.startTime, endTime: booking.endTime, amount }
+        )
+
+        // Consume the credits only if the balance is still the one the allocation was based on
+        const consumed = await tx.bookingCreditBalance.updateMany({
+          where: { id: balance.id, used: balance.used },
+          data: { used: { increment: allocation.credits } },
+        })
+        if (consumed.count === 0) {
+          return null
+        }
+
+        return await this.recordApplication(tx, tenantId, booking, balance, allocation, {
+          amount,
+          hours,
+          clientId: membership.clientId,
+          subscriptionId,
+        })
+      })
+    }
+
+    if (!result) {
+      throw new Error('Booking credit balance is being used by another booking, try again')
+    }
+
+    logger.info('Booking credits applied', {
+      operation: 'booking_credits_apply',
+      tenantId,
+      bookingId: booking.id,
+      credits: result.credits,
+      overageAmount: result.overageAmount,
+    })
+
+    return result
+  }
+
+  /**
+   * Give back the credits of a cancelled or re-priced booking and drop its overage
+   * unless it was already invoiced
+   */
+  async releaseForBooking(tenantId: string, bookingId: string): Promise<void> {
+    const usage = await prisma.bookingCreditUsage.findFirst({
+      where: { tenantId, bookingId },
+    })
+
+    if (!usage) {
+      return
+    }
+
+    await prisma.$transaction([
+      prisma.bookingCreditBalance.update({
+        where: { id: usage.balanceId },
+        data: { used: { decrement: usage.credits } },
+      }),
+      prisma.bookingCreditUsage.delete({
+        where: { id: usage.id },
+      }),
+      ...(usage.usageRecordId ? [
+        prisma.usageRecord.deleteMany({
+          where: { id: usage.usageRecordId, invoiced: false },
+        }),
+      ] : []),
+    ])
+  }
+
+  /**
+   * Record credits consumed by a booking: bill the overage, log the usage and drop the
+   * covered amount from the booking cost
+   */
+  private async recordApplication(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    booking: CreditBooking,
+    balance: BookingCreditBalance,
+    allocation: CreditAllocation,
+    billing: { amount: number; hours: number; clientId: string; subscriptionId: string | null }
+  ): Promise<BookingCreditApplication> {
+    const overageHours = billing.amount > 0
+      ? Math.round(billing.hours * allocation.overageAmount / billing.amount * 1000) / 1000
+      : 0
+
+    const usageRecord = allocation.overageAmount > 0
+      ? await tx.usageRecord.create({
+        data: {
+          tenantId,
+          clientId: billing.clientId,
+          subscriptionId: billing.subscriptionId,
+          resourceType: 'SPACE_BOOKING',
+          resourceId: booking.spaceId,
+          quantity: overageHours,
+          unit: 'hours',
+          unitPrice: overageHours > 0 ? Math.round(allocation.overageAmount / overageHours * 100) / 100 : 0,
+          totalCost: allocation.overageAmount,
+          usageDate: booking.startTime,
+          billingPeriod: format(booking.startTime, 'yyyy-MM'),
+          metadata: { bookingId: booking.id, description: booking.title },
+        },
+      })
+      : null
+
+    await tx.bookingCreditUsage.create({
+      data: {
+        tenantId,
+        balanceId: balance.id,
+        bookingId: booking.id,
+        credits: allocation.credits,
+        coveredAmount: allocation.coveredAmount,
+        overageAmount: allocation.overageAmount,
+        usageRecordId: usageRecord?.id,
+      },
+    })
+
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: {
+        cost: allocation.overageAmount,
+        ...(booking.priceBreakdown && {
+          priceBreakdown: this.withCreditLine(
+            booking.priceBreakdown as unknown as BookingPriceBreakdown,
+            allocation,
+            balance.unit
+          ) as unknown as Prisma.InputJsonValue,
+        }),
+      },
+    })
+
+    return { ...allocation, balanceId: balance.id, unit: balance.unit, usageRecordId: usageRecord?.id || null }
+  }
+
+  /**
+   * Active membership of a member whose plan grants booking credits
+   */
+  private async findCreditMembership(tenantId: string, userId: string) {
+    return await prisma.membership.findFirst({
+      where: {
+        tenantId,
+        userId,
+        status: 'ACTIVE',
+        plan: {
+          bookingCredits: { gt: 0 },
+        },
+      },
+      include: { plan: true },
+      orderBy: { startDate: 'desc' },
+    })
+  }
+
+  /**
+   * Billing period of a date under the member's subscription billing cycle, falling back
+   * to the plan billing cycle when the member has no subscription
+   */
+  private async resolvePeriod(
+    tenantId: string,
+    membership: { clientId: string; planId: string; plan: { billingCycle: string } },
+    at: Date
+  ): Promise<{ period: CreditPeriod; subscriptionId: string | null }> {
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        tenantId,
+        clientId: membership.clientId,
+        planId: membership.planId,
+        status: 'ACTIVE',
+      },
+      include: { billingCycle: true },
+      orderBy: { startDate: 'desc' },
+    })
+
+    const config: CreditCycleConfig = subscription
+      ? {
+        cycle: subscription.billingCycle.cycle,
+        dayOfMonth: subscription.billingCycle.dayOfMonth,
+        dayOfWeek: subscription.billingCycle.dayOfWeek,
+      }
+      : { cycle: membership.plan.billingCycle as CreditCycleConfig['cycle'] }
+
+    return { period: getCreditPeriod(at, config), subscriptionId: subscription?.id || null }
+  }
+
+  /**
+   * Balance for a period, granting the plan credits plus the rollover of the previous period
+   */
+  private async openBalance(
+    tenantId: string,
+    membership: {
+      id: string
+      userId: string
+      planId: string
+      plan: {
+        bookingCredits: Prisma.Decimal | null
+        bookingCreditUnit: BookingCreditUnit
+        bookingCreditRollover: Prisma.Decimal | null
+      }
+    },
+    period: CreditPeriod
+  ) {
+    const existing = await prisma.bookingCreditBalance.findUnique({
+      where: {
+        membershipId_periodStart: {
+          membershipId: membership.id,
+          periodStart: period.start,
+        },
+      },
+    })
+
+    if (existing) {
+      return existing
+    }
+
+    const previous = await prisma.bookingCreditBalance.findFirst({
+      where: {
+        membershipId: membership.id,
+        periodEnd: { lte: period.start },
+      },
+      orderBy: { periodEnd: 'desc' },
+    })
+
+    const maxRollover = membership.plan.bookingCreditRollover !== null ? Number(membership.plan.bookingCreditRollover) : null
+    const rolledOver = previous && previous.unit === membership.plan.bookingCreditUnit
+      ? getRolloverCredits(this.toSnapshot(previous), maxRollover)
+      : 0
+
+    return await prisma.bookingCreditBalance.upsert({
+      where: {
+        membershipId_periodStart: {
+          membershipId: membership.id,
+          periodStart: period.start,
+        },
+      },
+      create: {
+        tenantId,
+        membershipId: membership.id,
+        userId: membership.userId,
+        planId: membership.planId,
+        unit: membership.plan.bookingCreditUnit,
+        periodStart: period.start,
+        periodEnd: period.end,
+        granted: Number(membership.plan.bookingCredits),
+        rolledOver,
+      },
+      update: {},
+    })
+  }
+
+  private withCreditLine(priceBreakdown: BookingPriceBreakdown, allocation: CreditAllocation, unit: BookingCreditUnit): BookingPriceBreakdown {
+    if (allocation.coveredAmount <= 0) {
+      return priceBreakdown
+    }
+
+    return {
+      ...priceBreakdown,
+      lines: [
+        ...priceBreakdown.lines,
+        {
+          type: 'CREDIT',
+          description: unit === 'HOURS'
+            ? `Plan credits (${allocation.credits.toFixed(2)} h)`
+            : 'Plan credits',
+          amount: -allocation.coveredAmount,
+        },
+      ],
+      total: allocation.overageAmount,
+    }
+  }
+
+  private toSnapshot(balance: Pick<BookingCreditBalance, 'granted' | 'rolledOver' | 'used'>) {
+    return {
+      granted: Number(balance.granted),
+      rolledOver: Number(balance.rolledOver),
+      used: Number(balance.used),
+    }
+  }
+
+  private toSummary(balance: BookingCreditBalance, planName: string): BookingCreditBalanceSummary {
+    const snapshot = this.toSnapshot(balance)
+
+    return {
+      balanceId: balance.id,
+      membershipId: balance.membershipId,
+      planId: balance.planId,
+      planName,
+      unit: balance.unit,
+      periodStart: balance.periodStart,
+      periodEnd: balance.periodEnd,
+      ...snapshot,
+      available: getAvailableCredits(snapshot),
+    }
+  }
+}
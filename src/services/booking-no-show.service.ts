@@ -0,0 +1,211 @@
+import prisma from '@/lib/server/prisma'
+import { startOfDay, subDays, subHours } from 'date-fns'
+import { logger } from '@/lib/logger'
+import { BookingWaitlistService } from '@/services/booking-waitlist.service'
+import {
+  buildNoShowFeeUsage,
+  evaluateNoShowStrikes,
+  isNoShow,
+  resolveNoShowPolicy,
+  type NoShowStrikeStatus,
+} from '@/lib/utils/no-show'
+
+export interface NoShowRunOptions {
+  tenantId?: string // Limit the run to one tenant, all tenants otherwise
+  now?: Date
+  limit?: number // Maximum bookings inspected per run
+  lookbackHours?: number // Bookings that started earlier than this are left alone
+}
+
+export interface NoShowRunResult {
+  inspected: number
+  noShows: Array<{
+    bookingId: string
+    tenantId: string
+    spaceId: string
+    userId: string
+    feeAmount: number
+    usageRecordId: string | null
+  }>
+  errors: Array<{
+    bookingId: string
+    message: string
+  }>
+}
+
+const DEFAULT_RUN_LIMIT = 200
+// Longer than any grace period in use, so a missed run is caught up by the next one
+const DEFAULT_LOOKBACK_HOURS = 24
+
+export class BookingNoShowService {
+  private static instance: BookingNoShowService
+
+  public static getInstance(): BookingNoShowService {
+    if (!BookingNoShowService.instance) {
+      BookingNoShowService.instance = new BookingNoShowService()
+    }
+    return BookingNoShowService.instance
+  }
+
+  /**
+   * Mark confirmed bookings nobody checked in to as NO_SHOW once their grace period passed.
+   * A NO_SHOW booking no longer blocks its space, so the remaining time can be booked again,
+   * and the no-show fee is billed as usage with the member's next invoice. Bookings that failed
+   * in an earlier run are skipped so they cannot hold up the rest of the queue.
+   */
+  async processNoShows(options: NoShowRunOptions = {}): Promise<NoShowRunResult> {
+    const now = options.now || new Date()
+    const result: NoShowRunResult = { inspected: 0, noShows: [], errors: [] }
+
+    const candidates = await prisma.booking.findMany({
+      where: {
+        ...(options.tenantId && { tenantId: options.tenantId }),
+        status: 'CONFIRMED',
+        startTime: {
+          gte: subHours(now, options.lookbackHours ?? DEFAULT_LOOKBACK_HOURS),
+          lte: now,
+        },
+        noShow: null,
+        noShowFailedAt: null,
+        checkIns: { none: {} },
+        checkInOuts: { none: {} },
+      },
+      include: {
+        space: true,
+        tenant: {
+          select: { settings: true },
+        },
+        user: {
+          select: { clientId: true },
+        },
+      },
+      orderBy: { startTime: 'asc' },
+      take: options.limit || DEFAULT_RUN_LIMIT,
+    })
+
+    result.inspected = candidates.length
+
+    for (const booking of candidates) {
+      const policy = resolveNoShowPolicy(booking.tenant.settings, booking.space)
+
+      if (!isNoShow({ status: booking.status, startTime: booking.startTime, hasCheckIn: false }, policy, now)) {
+        continue
+      }
+
+      try {
+        const usageRecordId = await prisma.$transaction(async (tx) => {
+          await tx.booking.update({
+            where: { id: booking.id },
+            data: { status: 'NO_SHOW' },
+          })
+
+          const feeUsage = buildNoShowFeeUsage(booking, booking.user.clientId, policy.fee)
+          const usageRecord = feeUsage
+            ? await tx.usageRecord.create({ data: feeUsage })
+            : null
+
+          await tx.bookingNoShow.create({
+            data: {
+              tenantId: booking.tenantId,
+              bookingId: booking.id,
+              spaceId: booking.spaceId,
+              userId: booking.userId,
+              detectedAt: now,
+              graceMinutes: policy.graceMinutes,
+              feeAmount: policy.fee,
+              usageRecordId: usageRecord?.id,
+            },
+          })
+
+          // Services that were never delivered are not billed
+          await tx.bookingService.updateMany({
+            where: {
+              bookingId: booking.id,
+              status: { in: ['PENDING', 'CONFIRMED'] },
+            },
+            data: { status: 'CANCELLED' },
+          })
+
+          await tx.roomUsageAnalytics.upsert({
+            where: {
+              tenantId_spaceId_date: {
+                tenantId: booking.tenantId,
+                spaceId: booking.spaceId,
+                date: startOfDay(booking.startTime),
+              },
+            },
+            create: {
+              tenantId: booking.tenantId,
+              spaceId: booking.spaceId,
+              date: startOfDay(booking.startTime),
+              noShowCount: 1,
+            },
+            update: {
+              noShowCount: { increment: 1 },
+            },
+          })
+
+          return usageRecord?.id || null
+        })
+
+        result.noShows.push({
+          bookingId: booking.id,
+          tenantId: booking.tenantId,
+          spaceId: booking.spaceId,
+          userId: booking.userId,
+          feeAmount: policy.fee,
+          usageRecordId,
+        })
+
+        // The released slot goes to the next person on the waitlist
+        await BookingWaitlistService.getInstance()
+          .promote(booking.tenantId, booking.spaceId, booking.startTime, booking.endTime, now)
+          .catch(error => logger.error('Failed to offer no-show slot to the waitlist', error, { bookingId: booking.id }))
+      } catch (error: any) {
+        logger.error('Failed to mark booking as no-show', error, { bookingId: booking.id })
+        result.errors.push({ bookingId: booking.id, message: error.message || 'Unknown error' })
+
+        await prisma.booking.update({
+          where: { id: booking.id },
+          data: { noShowFailedAt: now },
+        }).catch(() => undefined)
+      }
+    }
+
+    logger.info('No-show detection completed', {
+      operation: 'no_show_detection',
+      tenantId: options.tenantId,
+      inspected: result.inspected,
+      noShows: result.noShows.length,
+      errors: result.errors.length,
+    })
+
+    return result
+  }
+
+  /**
+   * Strike status of a member under the tenant no-show policy
+   */
+  async getStrikeStatus(tenantId: string, userId: string, now: Date = new Date()): Promise<NoShowStrikeStatus> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { settings: true },
+    })
+
+    const policy = resolveNoShowPolicy(tenant?.settings)
+    if (policy.maxStrikes <= 0) {
+      return { strikes: 0, blockedUntil: null }
+    }
+
+    const noShows = await prisma.bookingNoShow.findMany({
+      where: {
+        tenantId,
+        userId,
+        detectedAt: { gte: subDays(now, policy.strikeWindowDays) },
+      },
+      select: { detectedAt: true },
+    })
+
+    return evaluateNoShowStrikes(noShows.map(noShow => noShow.detectedAt), policy, now)
+  }
+}
@@ -0,0 +1,129 @@
+import prisma from '@/lib/server/prisma'
+import type { BookingStatus } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import { planWaitlistPromotion } from '@/lib/utils/waitlist'
+
+// How long a freed slot is held for the next person on the waitlist
+export const WAITLIST_HOLD_MINUTES = 30
+
+// Bookings in these statuses keep their slot taken
+const BLOCKING_BOOKING_STATUSES: BookingStatus[] = ['PENDING', 'CONFIRMED', 'CHECKED_IN']
+
+export class BookingWaitlistService {
+  private static instance: BookingWaitlistService
+
+  public static getInstance(): BookingWaitlistService {
+    if (!BookingWaitlistService.instance) {
+      BookingWaitlistService.instance = new BookingWaitlistService()
+    }
+    return BookingWaitlistService.instance
+  }
+
+  /**
+   * Offer a freed slot to the waitlist. Requests are served in the order they joined; each
+   * one whose slot is now free, and not held for someone else, gets a timed hold on it.
+   * Returns the number of offers made.
+   */
+  async promote(tenantId: string, spaceId: string, startTime: Date, endTime: Date, now: Date = new Date()): Promise<number> {
+    const candidates = await prisma.bookingWaitlistEntry.findMany({
+      where: {
+        tenantId,
+        spaceId,
+        status: 'WAITING',
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const unavailableIds = new Set<string>()
+    for (const entry of candidates) {
+      if (entry.startTime <= now) continue
+
+      const [conflict, hold] = await Promise.all([
+        this.findConflictingBooking(tenantId, spaceId, entry.startTime, entry.endTime),
+        this.findHold(tenantId, spaceId, entry.startTime, entry.endTime, entry.userId, now),
+      ])
+
+      if (conflict || hold) {
+        unavailableIds.add(entry.id)
+      }
+    }
+
+    const steps = planWaitlistPromotion(candidates, unavailableIds, now, WAITLIST_HOLD_MINUTES)
+
+    for (const step of steps) {
+      await prisma.bookingWaitlistEntry.update({
+        where: { id: step.entryId },
+        data: step.action === 'OFFER'
+          ? { status: 'OFFERED', offeredAt: now, offerExpiresAt: step.offerExpiresAt }
+          : { status: 'EXPIRED' },
+      })
+    }
+
+    const offers = steps.filter(step => step.action === 'OFFER').length
+    if (offers > 0) {
+      logger.info('Freed slot offered to the waitlist', {
+        operation: 'waitlist_promotion',
+        tenantId,
+        spaceId,
+        offers,
+      })
+    }
+
+    return offers
+  }
+
+  /**
+   * Active waitlist hold on a slot for someone other than the given user
+   */
+  async findHold(
+    tenantId: string,
+    spaceId: string,
+    startTime: Date,
+    endTime: Date,
+    userId: string,
+    now: Date = new Date()
+  ) {
+    return prisma.bookingWaitlistEntry.findFirst({
+      where: {
+        tenantId,
+        spaceId,
+        status: 'OFFERED',
+        offerExpiresAt: { gt: now },
+        userId: { not: userId },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+    })
+  }
+
+  /**
+   * Tenants with waitlist holds that ran out, for the scheduled job
+   */
+  async getTenantsWithExpiredOffers(now: Date = new Date()): Promise<string[]> {
+    const entries = await prisma.bookingWaitlistEntry.findMany({
+      where: {
+        status: 'OFFERED',
+        offerExpiresAt: { lte: now },
+      },
+      select: { tenantId: true },
+      distinct: ['tenantId'],
+    })
+
+    return entries.map(entry => entry.tenantId)
+  }
+
+  private async findConflictingBooking(tenantId: string, spaceId: string, startTime: Date, endTime: Date) {
+    return prisma.booking.findFirst({
+      where: {
+        tenantId,
+        spaceId,
+        status: { in: BLOCKING_BOOKING_STATUSES },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      select: { id: true },
+    })
+  }
+}
@@ -0,0 +1,365 @@
+import prisma from '@/lib/server/prisma'
+import { Prisma } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import {
+  allocateCreditBalance,
+  buildCreditNoteLines,
+  calculateCreditNoteTotals,
+  splitCreditAmount,
+  type CreditNoteLine,
+  type CreditNoteLineRequest,
+} from '@/lib/utils/credit-note'
+import { DunningService } from '@/services/dunning.service'
+
+export interface IssueCreditNoteParams {
+  tenantId: string
+  invoiceId: string
+  reason: string
+  lines?: CreditNoteLineRequest[] // Credit specific invoice lines
+  amount?: number // Or an amount including tax that is not tied to a line, such as a refund
+  paymentId?: string // Refund payment the credit note documents
+  createdById?: string
+}
+
+interface ApplicableInvoice {
+  id: string
+  tenantId: string
+  clientId: string
+  number: string
+  total: Prisma.Decimal | number
+  currency: string
+  status: string
+}
+
+export class CreditNoteService {
+  private static instance: CreditNoteService
+
+  public static getInstance(): CreditNoteService {
+    if (!CreditNoteService.instance) {
+      CreditNoteService.instance = new CreditNoteService()
+    }
+    return CreditNoteService.instance
+  }
+
+  /**
+   * Issue a credit note against an invoice. A credit note documenting a refund settles the
+   * refunded part of its invoice; any other credit note first settles what is still owed on
+   * the invoice and leaves the rest as client balance for future invoices.
+   * Callers are responsible for authorization.
+   */
+  async issueCreditNote(params: IssueCreditNoteParams) {
+    const creditNote = await prisma.$transaction(async (tx) => {
+      return await this.issueCreditNoteInTransaction(tx, params)
+    })
+
+    await DunningService.getInstance().resolveInvoice(creditNote.invoiceId)
+
+    logger.info('Credit note issued', {
+      operation: 'credit_note',
+      tenantId: creditNote.tenantId,
+      invoiceId: creditNote.invoiceId,
+      creditNoteId: creditNote.id,
+      total: Number(creditNote.total),
+    })
+
+    return creditNote
+  }
+
+  /**
+   * Issue a credit note inside the caller's transaction, so it commits together with the
+   * change it documents. Callers resolve dunning on the invoice once the transaction commits.
+   */
+  async issueCreditNoteInTransaction(tx: Prisma.TransactionClient, params: IssueCreditNoteParams) {
+    const invoice = await tx.invoice.findFirst({
+      where: {
+        id: params.invoiceId,
+        tenantId: params.tenantId,
+      },
+      include: {
+        items: {
+          include: {
+            creditNoteItems: {
+              where: { creditNote: { status: { not: 'VOID' } } },
+              select: { total: true },
+            },
+          },
+        },
+        creditNotes: {
+          where: { status: { not: 'VOID' } },
+          select: { total: true },
+        },
+      },
+    })
+
+    if (!invoice) {
+      throw new Error('Invoice not found')
+    }
+
+    if (invoice.status === 'CANCELLED') {
+      throw new Error('Cannot credit a cancelled invoice')
+    }
+
+    const invoiceAmounts = { subtotal: Number(invoice.subtotal), tax: Number(invoice.tax) }
+    const invoiceTaxRate = invoiceAmounts.subtotal > 0 ? invoiceAmounts.tax / invoiceAmounts.subtotal * 100 : 0
+    // Invoices from before per-line taxes only know their overall tax
+    const hasLineTaxes = invoice.items.some(item => Number(item.taxAmount) > 0)
+    let lines: CreditNoteLine[]
+    let totals
+
+    if (params.lines && params.lines.length > 0) {
+      const built = buildCreditNoteLines(
+        invoice.items.map(item => ({
+          id: item.id,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: Number(item.unitPrice),
+          total: Number(item.total),
+          credited: item.creditNoteItems.reduce((sum, credited) => sum + Number(credited.total), 0),
+          taxRate: hasLineTaxes ? Number(item.taxRate) : invoiceTaxRate,
+        })),
+        params.lines,
+        invoice.taxIncluded
+      )
+
+      if (built.errors.length > 0) {
+        throw new Error(built.errors.join('; '))
+      }
+
+      lines = built.lines
+      totals = calculateCreditNoteTotals(lines, invoice.taxIncluded)
+    } else if (params.amount && params.amount > 0) {
+      totals = splitCreditAmount(params.amount, invoiceAmounts)
+      const lineTotal = invoice.taxIncluded ? totals.total : totals.subtotal
+      lines = [{
+        invoiceItemId: null,
+        description: params.reason,
+        quantity: 1,
+        unitPrice: lineTotal,
+        total: lineTotal,
+        taxRate: Math.round(invoiceTaxRate * 100) / 100,
+        taxAmount: totals.tax,
+      }]
+    } else {
+      throw new Error('Credit note needs invoice lines or an amount')
+    }
+
+    const alreadyCredited = invoice.creditNotes.reduce((sum, creditNote) => sum + Number(creditNote.total), 0)
+    if (totals.total > Number(invoice.total) - alreadyCredited + 0.005) {
+      throw new Error('Credit notes cannot exceed the invoice total')
+    }
+
+    const settings = await tx.billingSettings.findUnique({
+      where: { tenantId: invoice.tenantId },
+      select: { creditNotePrefix: true, creditNoteNumberStart: true },
+    })
+    const number = await this.nextCreditNoteNumber(tx, invoice.tenantId, settings)
+
+    const created = await tx.creditNote.create({
+      data: {
+        tenantId: invoice.tenantId,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        paymentId: params.paymentId,
+        number,
+        reason: params.reason,
+        subtotal: totals.subtotal,
+        tax: totals.tax,
+        taxIncluded: invoice.taxIncluded,
+        total: totals.total,
+        currency: invoice.currency,
+        createdById: params.createdById,
+        items: {
+          create: lines,
+        },
+      },
+    })
+
+    // A refund already returned the money, so the credit note stands in for it on the invoice
+    const amountToApply = params.paymentId
+      ? totals.total
+      : Math.min(totals.total, await this.getOutstandingAmount(tx, invoice))
+
+    if (amountToApply > 0) {
+      await this.applyToInvoice(tx, created, invoice, amountToApply)
+    }
+
+    return created
+  }
+
+  /**
+   * Use the client's unused credit notes to settle an invoice, oldest first.
+   * Runs inside the caller's transaction and returns the amount applied.
+   */
+  async applyCreditBalance(tx: Prisma.TransactionClient, invoice: ApplicableInvoice): Promise<number> {
+    const outstanding = await this.getOutstandingAmount(tx, invoice)
+    if (outstanding <= 0) {
+      return 0
+    }
+
+    const creditNotes = await tx.creditNote.findMany({
+      where: {
+        tenantId: invoice.tenantId,
+        clientId: invoice.clientId,
+        currency: invoice.currency,
+        status: 'ISSUED',
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const allocations = allocateCreditBalance(
+      creditNotes.map(creditNote => ({
+        id: creditNote.id,
+        available: Number(creditNote.total) - Number(creditNote.appliedAmount),
+      })),
+      outstanding
+    )
+
+    for (const allocation of allocations) {
+      const creditNote = creditNotes.find(candidate => candidate.id === allocation.creditNoteId)!
+      await this.applyToInvoice(tx, creditNote, invoice, allocation.amount)
+    }
+
+    return allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+  }
+
+  /**
+   * Unused credit of a client per currency
+   */
+  async getClientCreditBalance(tenantId: string, clientId: string): Promise<Record<string, number>> {
+    const creditNotes = await prisma.creditNote.findMany({
+      where: {
+        tenantId,
+        clientId,
+        status: 'ISSUED',
+      },
+      select: { total: true, appliedAmount: true, currency: true },
+    })
+
+    return creditNotes.reduce((balance, creditNote) => {
+      balance[creditNote.currency] = Math.round(
+        ((balance[creditNote.currency] || 0) + Number(creditNote.total) - Number(creditNote.appliedAmount)) * 100
+      ) / 100
+      return balance
+    }, {} as Record<string, number>)
+  }
+
+  /**
+   * Void a credit note that was never used against an invoice
+   */
+  async voidCreditNote(tenantId: string, creditNoteId: string) {
+    const creditNote = await prisma.creditNote.findFirst({
+      where: {
+        id: creditNoteId,
+        tenantId,
+      },
+    })
+
+    if (!creditNote) {
+      throw new Error('Credit note not found')
+    }
+
+    if (creditNote.status === 'VOID') {
+      throw new Error('Credit note is already void')
+    }
+
+    if (Number(creditNote.appliedAmount) > 0) {
+      throw new Error('Credit notes applied to invoices cannot be voided')
+    }
+
+    return await prisma.creditNote.update({
+      where: { id: creditNote.id },
+      data: { status: 'VOID' },
+    })
+  }
+
+  /**
+   * Settle part of an invoice with a credit note through a CREDIT_NOTE payment, so paid
+   * amounts keep adding up from payments alone
+   */
+  private async applyToInvoice(
+    tx: Prisma.TransactionClient,
+    creditNote: { id: string; number: string; total: Prisma.Decimal; appliedAmount: Prisma.Decimal },
+    invoice: ApplicableInvoice,
+    amount: number
+  ): Promise<void> {
+    const now = new Date()
+
+    const payment = await tx.payment.create({
+      data: {
+        tenantId: invoice.tenantId,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        amount,
+        currency: invoice.currency,
+        method: 'CREDIT_NOTE',
+        reference: creditNote.number,
+        status: 'COMPLETED',
+        processedAt: now,
+      },
+    })
+
+    await tx.creditNoteApplication.create({
+      data: {
+        creditNoteId: creditNote.id,
+        invoiceId: invoice.id,
+        paymentId: payment.id,
+        amount,
+      },
+    })
+
+    const appliedAmount = Math.round((Number(creditNote.appliedAmount) + amount) * 100) / 100
+    await tx.creditNote.update({
+      where: { id: creditNote.id },
+      data: {
+        appliedAmount,
+        ...(appliedAmount >= Number(creditNote.total) && { status: 'APPLIED' }),
+      },
+    })
+
+    if (invoice.status !== 'PAID' && await this.getOutstandingAmount(tx, invoice) <= 0) {
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: 'PAID',
+          paidAt: now,
+        },
+      })
+    }
+  }
+
+  private async getOutstandingAmount(tx: Prisma.TransactionClient, invoice: ApplicableInvoice): Promise<number> {
+    const paid = await tx.payment.aggregate({
+      where: {
+        invoiceId: invoice.id,
+        status: 'COMPLETED',
+      },
+      _sum: { amount: true },
+    })
+
+    return Math.round((Number(invoice.total) - Number(paid._sum.amount || 0)) * 100) / 100
+  }
+
+  /**
+   * Next number in the tenant's credit note sequence, never below the configured start
+   */
+  private async nextCreditNoteNumber(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    settings: { creditNotePrefix: string; creditNoteNumberStart: number } | null
+  ): Promise<string> {
+    const prefix = settings?.creditNotePrefix || 'NC'
+    const lastCreditNote = await tx.creditNote.findFirst({
+      where: {
+        tenantId,
+        number: { startsWith: `${prefix}-` },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { number: true },
+    })
+
+    const lastNumber = lastCreditNote ? parseInt(lastCreditNote.number.replace(/[^\d]/g, '')) || 0 : 0
+    const next = Math.max(lastNumber + 1, settings?.creditNoteNumberStart ?? 1)
+
+    return `${prefix}-${String(next).padStart(6, '0')}`
+  }
+}
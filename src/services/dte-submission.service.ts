@@ -0,0 +1,96 @@
+import type { DteDocumentType, DteEnvironment, DteStatus } from '@prisma/client'
+import { logger } from '@/lib/logger'
+
+export interface DteSubmission {
+  tenantId: string
+  environment: DteEnvironment
+  issuerRut: string
+  documentType: DteDocumentType
+  folio: number
+  xml: string
+}
+
+export interface DteStatusQuery {
+  tenantId: string
+  environment: DteEnvironment
+  issuerRut: string
+  documentType: DteDocumentType
+  folio: number
+  trackId: string
+}
+
+export interface DteSubmissionResult {
+  status: DteStatus
+  trackId: string
+  message?: string
+}
+
+/**
+ * Sends signed documents to the SII. Tenants pick an adapter by name in their DTE
+ * settings; adapters for the SII web services or an invoicing provider register
+ * themselves with registerDteSubmissionAdapter.
+ */
+export interface DteSubmissionAdapter {
+  readonly name: string
+  submit(submission: DteSubmission): Promise<DteSubmissionResult>
+  getStatus(query: DteStatusQuery): Promise<DteSubmissionResult>
+}
+
+/**
+ * Accepts documents locally without contacting the SII, for development and testing.
+ * Documents missing their timbre or signature are rejected the way the SII would.
+ */
+export class LocalStubDteAdapter implements DteSubmissionAdapter {
+  readonly name = 'stub'
+  private submissions = new Map<string, DteSubmissionResult>()
+  private sequence = 0
+
+  async submit(submission: DteSubmission): Promise<DteSubmissionResult> {
+    this.sequence += 1
+    const trackId = `STUB-${Date.now()}-${this.sequence}`
+
+    const missing = [
+      !submission.xml.includes('<TED ') && 'timbre',
+      !submission.xml.includes('<Signature ') && 'signature',
+    ].filter(Boolean)
+
+    const result: DteSubmissionResult = missing.length > 0
+      ? { status: 'REJECTED', trackId, message: `Document without ${missing.join(' and ')}` }
+      : { status: 'ACCEPTED', trackId, message: 'Accepted by the local stub' }
+
+    this.submissions.set(trackId, result)
+    logger.info('DTE submitted to local stub', {
+      tenantId: submission.tenantId,
+      documentType: submission.documentType,
+      folio: submission.folio,
+      trackId,
+    })
+
+    return { status: 'SUBMITTED', trackId }
+  }
+
+  async getStatus(query: DteStatusQuery): Promise<DteSubmissionResult> {
+    return this.submissions.get(query.trackId)
+      ?? { status: 'REJECTED', trackId: query.trackId, message: 'Unknown submission' }
+  }
+}
+
+const adapters = new Map<string, DteSubmissionAdapter>()
+
+export function registerDteSubmissionAdapter(adapter: DteSubmissionAdapter) {
+  adapters.set(adapter.name, adapter)
+}
+
+export function getDteSubmissionAdapter(name: string): DteSubmissionAdapter {
+  const adapter = adapters.get(name)
+  if (!adapter) {
+    throw new Error(`DTE submission adapter "${name}" is not registered`)
+  }
+  return adapter
+}
+
+export function getDteSubmissionAdapterNames(): string[] {
+  return Array.from(adapters.keys())
+}
+
+registerDteSubmissionAdapter(new LocalStubDteAdapter())
@@ -0,0 +1,415 @@
+import prisma from '@/lib/server/prisma'
+import type { DteDocumentType, DteSettings, Prisma } from '@prisma/client'
+import QRCode from 'qrcode'
+import { logger } from '@/lib/logger'
+import {
+  buildDteDocument,
+  calculateDteTotals,
+  DTE_TYPE_CODES,
+  GENERIC_RECEIVER_RUT,
+  getDteDocumentType,
+  isValidRut,
+  parseCaf,
+  selectDteDocumentType,
+  signDte,
+  toDteLines,
+  toSiiRut,
+  type DteReceiver,
+  type DteReference,
+  type DteSourceLine,
+} from '@/lib/utils/dte'
+import { getDteSubmissionAdapter } from '@/services/dte-submission.service'
+
+interface DteSource {
+  tenantId: string
+  documentType: DteDocumentType
+  lines: DteSourceLine[]
+  taxIncluded: boolean
+  receiver: DteReceiver
+  dueDate?: Date | null
+  reference?: DteReference & { dteId: string }
+  invoiceId?: string
+  creditNoteId?: string
+  clientId: string
+}
+
+interface DteClient {
+  name: string
+  company: string | null
+  address: string | null
+  taxId: string | null
+}
+
+export class DteService {
+  private static instance: DteService
+
+  public static getInstance(): DteService {
+    if (!DteService.instance) {
+      DteService.instance = new DteService()
+    }
+    return DteService.instance
+  }
+
+  /**
+   * Add the folios of a CAF file downloaded from the SII. The CAF must be issued to the
+   * tenant's RUT and cannot overlap folios already loaded for the same document type.
+   */
+  async addFolioRange(tenantId: string, cafXml: string) {
+    const settings = await this.requireSettings(tenantId)
+    const caf = parseCaf(cafXml)
+    const documentType = getDteDocumentType(caf.documentTypeCode)
+
+    if (!documentType) {
+      throw new Error(`Document type ${caf.documentTypeCode} is not supported`)
+    }
+    if (caf.issuerRut !== toSiiRut(settings.rut)) {
+      throw new Error(`The CAF was issued to ${caf.issuerRut}, not to ${toSiiRut(settings.rut)}`)
+    }
+
+    const overlapping = await prisma.dteFolioRange.findFirst({
+      where: {
+        tenantId,
+        documentType,
+        rangeStart: { lte: caf.rangeEnd },
+        rangeEnd: { gte: caf.rangeStart },
+      },
+    })
+
+    if (overlapping) {
+      throw new Error(`Folios ${caf.rangeStart}-${caf.rangeEnd} overlap the loaded range ${overlapping.rangeStart}-${overlapping.rangeEnd}`)
+    }
+
+    return prisma.dteFolioRange.create({
+      data: {
+        tenantId,
+        documentType,
+        rangeStart: caf.rangeStart,
+        rangeEnd: caf.rangeEnd,
+        nextFolio: caf.rangeStart,
+        cafXml,
+        authorizedAt: caf.authorizedAt,
+      },
+    })
+  }
+
+  /**
+   * Issue the DTE of an invoice: a factura for clients with a valid RUT or a boleta
+   * otherwise, exempt when no line carries IVA, unless a document type is given.
+   * Callers are responsible for authorization.
+   */
+  async issueInvoiceDocument(tenantId: string, invoiceId: string, documentType?: DteDocumentType) {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId },
+      include: {
+        items: true,
+        client: { select: { name: true, company: true, address: true, taxId: true } },
+      },
+    })
+
+    if (!invoice) {
+      throw new Error('Invoice not found')
+    }
+    if (invoice.status === 'DRAFT' || invoice.status === 'CANCELLED') {
+      throw new Error('Only issued invoices can be documented with the SII')
+    }
+    await this.assertNotDocumented({ invoiceId })
+
+    const lines = toSourceLines(invoice.items, Number(invoice.tax))
+    const type = documentType ?? selectDteDocumentType(invoice.client.taxId, lines)
+
+    if (type === 'NOTA_CREDITO') {
+      throw new Error('Credit notes are issued from their own credit note')
+    }
+
+    return this.issueDocument({
+      tenantId,
+      documentType: type,
+      lines,
+      taxIncluded: invoice.taxIncluded,
+      receiver: toReceiver(invoice.client, type),
+      dueDate: invoice.dueDate,
+      invoiceId: invoice.id,
+      clientId: invoice.clientId,
+      currency: invoice.currency,
+    })
+  }
+
+  /**
+   * Issue the nota de crédito of a credit note, referencing the DTE of its invoice.
+   * Crediting the whole invoice voids that document, anything less corrects its amounts.
+   */
+  async issueCreditNoteDocument(tenantId: string, creditNoteId: string) {
+    const creditNote = await prisma.creditNote.findFirst({
+      where: { id: creditNoteId, tenantId },
+      include: {
+        items: true,
+        invoice: { select: { id: true, total: true } },
+        client: { select: { name: true, company: true, address: true, taxId: true } },
+      },
+    })
+
+    if (!creditNote) {
+      throw new Error('Credit note not found')
+    }
+    if (creditNote.status === 'VOID') {
+      throw new Error('Cannot document a void credit note')
+    }
+    await this.assertNotDocumented({ creditNoteId })
+
+    const invoiceDocument = await prisma.dteDocument.findFirst({
+      where: { tenantId, invoiceId: creditNote.invoiceId, status: { not: 'REJECTED' } },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!invoiceDocument) {
+      throw new Error('Issue the DTE of the invoice before documenting its credit notes')
+    }
+
+    const voidsInvoice = Number(creditNote.total) >= Number(creditNote.invoice.total)
+    const receiver = toReceiver(creditNote.client, invoiceDocument.documentType)
+
+    return this.issueDocument({
+      tenantId,
+      documentType: 'NOTA_CREDITO',
+      lines: toSourceLines(creditNote.items, Number(creditNote.tax)),
+      taxIncluded: creditNote.taxIncluded,
+      receiver,
+      reference: {
+        dteId: invoiceDocument.id,
+        documentType: invoiceDocument.documentType,
+        folio: invoiceDocument.folio,
+        date: invoiceDocument.issueDate,
+        code: voidsInvoice ? 1 : 3,
+        reason: creditNote.reason,
+      },
+      creditNoteId: creditNote.id,
+      clientId: creditNote.clientId,
+      currency: creditNote.currency,
+    })
+  }
+
+  /**
+   * Send a signed document to the SII through the tenant's submission adapter
+   */
+  async submitDocument(tenantId: string, documentId: string) {
+    const [settings, document] = await Promise.all([
+      this.requireSettings(tenantId),
+      prisma.dteDocument.findFirst({ where: { id: documentId, tenantId } }),
+    ])
+
+    if (!document) {
+      throw new Error('Document not found')
+    }
+    if (document.status !== 'SIGNED') {
+      throw new Error('Only signed documents that were not sent yet can be submitted')
+    }
+
+    const result = await getDteSubmissionAdapter(settings.submissionAdapter).submit({
+      tenantId,
+      environment: settings.environment,
+      issuerRut: toSiiRut(settings.rut),
+      documentType: document.documentType,
+      folio: document.folio,
+      xml: document.xml,
+    })
+
+    logger.info('DTE submitted', {
+      tenantId,
+      documentId,
+      adapter: settings.submissionAdapter,
+      trackId: result.trackId,
+      status: result.status,
+    })
+
+    return prisma.dteDocument.update({
+      where: { id: document.id },
+      data: {
+        status: result.status,
+        trackId: result.trackId,
+        statusMessage: result.message ?? null,
+        submittedAt: new Date(),
+      },
+    })
+  }
+
+  /**
+   * Ask the submission adapter whether the SII accepted a submitted document
+   */
+  async refreshDocumentStatus(tenantId: string, documentId: string) {
+    const [settings, document] = await Promise.all([
+      this.requireSettings(tenantId),
+      prisma.dteDocument.findFirst({ where: { id: documentId, tenantId } }),
+    ])
+
+    if (!document) {
+      throw new Error('Document not found')
+    }
+    if (!document.trackId) {
+      throw new Error('The document has not been submitted')
+    }
+
+    const result = await getDteSubmissionAdapter(settings.submissionAdapter).getStatus({
+      tenantId,
+      environment: settings.environment,
+      issuerRut: toSiiRut(settings.rut),
+      documentType: document.documentType,
+      folio: document.folio,
+      trackId: document.trackId,
+    })
+
+    return prisma.dteDocument.update({
+      where: { id: document.id },
+      data: {
+        status: result.status,
+        statusMessage: result.message ?? null,
+      },
+    })
+  }
+
+  /**
+   * Image of the timbre electrónico for printed documents.
+   * The SII specifies a PDF417 barcode; no PDF417 encoder is available to the app, so the
+   * same TED content is printed as a QR code until one is added here.
+   */
+  async renderTimbre(ted: string): Promise<string> {
+    return QRCode.toDataURL(ted, { errorCorrectionLevel: 'M', margin: 1 })
+  }
+
+  private async requireSettings(tenantId: string): Promise<DteSettings> {
+    const settings = await prisma.dteSettings.findUnique({ where: { tenantId } })
+    if (!settings) {
+      throw new Error('Electronic invoicing is not configured')
+    }
+    return settings
+  }
+
+  private async assertNotDocumented(where: { invoiceId?: string; creditNoteId?: string }) {
+    const existing = await prisma.dteDocument.findFirst({
+      where: { ...where, status: { not: 'REJECTED' } },
+      select: { documentType: true, folio: true },
+    })
+
+    if (existing) {
+      throw new Error(`Already documented as ${existing.documentType} folio ${existing.folio}`)
+    }
+  }
+
+  /**
+   * Takes the next folio of an active range and stores the signed document in the same
+   * transaction, so a folio is never used twice nor lost to a failed document
+   */
+  private async issueDocument(source: DteSource & { currency: string }) {
+    if (source.currency !== 'CLP') {
+      throw new Error(`DTE documents are issued in CLP, not ${source.currency}`)
+    }
+
+    const settings = await this.requireSettings(source.tenantId)
+    if (!settings.certificatePem || !settings.privateKeyPem) {
+      throw new Error('Upload the signing certificate before issuing documents')
+    }
+    const certificate = { certificatePem: settings.certificatePem, privateKeyPem: settings.privateKeyPem }
+
+    const { lines, discounts } = toDteLines(source.lines, source.taxIncluded, source.documentType)
+    const totals = calculateDteTotals(lines, discounts, source.documentType)
+    const issueDate = new Date()
+
+    const document = await prisma.$transaction(async (tx) => {
+      const range = await tx.dteFolioRange.findFirst({
+        where: { tenantId: source.tenantId, documentType: source.documentType, isActive: true },
+        orderBy: { rangeStart: 'asc' },
+      })
+
+      if (!range) {
+        throw new Error(`No folios available for ${source.documentType}, upload a new CAF`)
+      }
+
+      const reserved = await tx.dteFolioRange.update({
+        where: { id: range.id },
+        data: { nextFolio: { increment: 1 } },
+      })
+      const folio = reserved.nextFolio - 1
+
+      if (folio > reserved.rangeEnd) {
+        throw new Error(`Folios ${range.rangeStart}-${range.rangeEnd} are used up, upload a new CAF`)
+      }
+      if (folio === reserved.rangeEnd) {
+        await tx.dteFolioRange.update({ where: { id: range.id }, data: { isActive: false } })
+      }
+
+      const built = buildDteDocument({
+        documentType: source.documentType,
+        folio,
+        issueDate,
+        dueDate: source.dueDate,
+        issuer: settings,
+        receiver: source.receiver,
+        lines,
+        discounts,
+        totals,
+        reference: source.reference,
+      }, parseCaf(range.cafXml), issueDate)
+
+      return tx.dteDocument.create({
+        data: {
+          tenantId: source.tenantId,
+          documentType: source.documentType,
+          folio,
+          folioRangeId: range.id,
+          invoiceId: source.invoiceId,
+          creditNoteId: source.creditNoteId,
+          clientId: source.clientId,
+          referencedDteId: source.reference?.dteId,
+          issueDate,
+          netAmount: totals.net,
+          exemptAmount: totals.exempt,
+          taxAmount: totals.tax,
+          totalAmount: totals.total,
+          xml: signDte(built, certificate),
+          ted: built.ted,
+        },
+      })
+    })
+
+    logger.info('DTE issued', {
+      tenantId: source.tenantId,
+      documentType: source.documentType,
+      code: DTE_TYPE_CODES[source.documentType],
+      folio: document.folio,
+    })
+
+    return document
+  }
+}
+
+function toSourceLines(
+  items: Array<{ description: string; quantity: number; unitPrice: Prisma.Decimal; total: Prisma.Decimal; taxRate: Prisma.Decimal; taxAmount: Prisma.Decimal }>,
+  documentTax: number
+): DteSourceLine[] {
+  // Documents issued before line taxes were recorded cannot tell which lines carry IVA
+  if (documentTax > 0 && items.every(item => Number(item.taxAmount) === 0)) {
+    throw new Error('The document has no tax recorded per line, update it before issuing its DTE')
+  }
+
+  return items.map(item => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: Number(item.unitPrice),
+    total: Number(item.total),
+    taxRate: Number(item.taxRate),
+    taxAmount: Number(item.taxAmount),
+  }))
+}
+
+function toReceiver(client: DteClient, documentType: DteDocumentType): DteReceiver {
+  const hasRut = Boolean(client.taxId && isValidRut(client.taxId))
+
+  if (!hasRut && documentType !== 'BOLETA' && documentType !== 'BOLETA_EXENTA') {
+    throw new Error('Facturas and credit notes need a client with a valid RUT')
+  }
+
+  return {
+    rut: hasRut && client.taxId ? client.taxId : GENERIC_RECEIVER_RUT,
+    name: client.company || client.name,
+    address: client.address,
+  }
+}
@@ -0,0 +1,545 @@
+import prisma from '@/lib/server/prisma'
+import { Prisma } from '@prisma/client'
+import { differenceInCalendarDays } from 'date-fns'
+import { Resend } from 'resend'
+import { logger } from '@/lib/logger'
+import { createIdempotencyKey } from '@/lib/utils/payment-gateway'
+import { PaymentGatewayService } from '@/services/payment-gateway.service'
+import {
+  DEFAULT_DUNNING_TEMPLATE,
+  calculateLateFee,
+  getDueDunningSteps,
+  renderDunningTemplate,
+  resolveDunningConfig,
+  type DunningConfig,
+  type DunningStep,
+  type DunningTemplate,
+} from '@/lib/utils/dunning'
+
+export interface DunningRunOptions {
+  tenantId?: string // Limit the run to one tenant, all tenants otherwise
+  now?: Date
+  limit?: number // Maximum invoices inspected per run
+}
+
+export interface DunningRunResult {
+  inspected: number
+  steps: Array<{
+    invoiceId: string
+    tenantId: string
+    type: string
+    step: number
+    success: boolean
+  }>
+  reinstated: string[] // Invoices whose suspension was lifted
+  errors: Array<{
+    invoiceId: string
+    message: string
+  }>
+}
+
+type DunningInvoice = Prisma.InvoiceGetPayload<{
+  include: {
+    client: true
+    tenant: { select: { name: true } }
+    dunningEvents: true
+  }
+}>
+
+interface StepOutcome {
+  success: boolean
+  amount?: number
+  message?: string
+  metadata?: Prisma.InputJsonObject
+}
+
+const DEFAULT_RUN_LIMIT = 200
+
+export class DunningService {
+  private static instance: DunningService
+
+  public static getInstance(): DunningService {
+    if (!DunningService.instance) {
+      DunningService.instance = new DunningService()
+    }
+    return DunningService.instance
+  }
+
+  /**
+   * Walk unpaid invoices past their due date through the tenant's collection schedule.
+   * Every step is recorded once per invoice, so rerunning the job never repeats a step.
+   */
+  async runDunning(options: DunningRunOptions = {}): Promise<DunningRunResult> {
+    const now = options.now || new Date()
+    const result: DunningRunResult = { inspected: 0, steps: [], reinstated: [], errors: [] }
+
+    // Lift suspensions of invoices that were settled outside the payment actions
+    result.reinstated = await this.reinstateSettledInvoices(options.tenantId, now)
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        ...(options.tenantId && { tenantId: options.tenantId }),
+        status: { in: ['SENT', 'OVERDUE'] },
+        dueDate: { lt: now },
+      },
+      include: {
+        client: true,
+        tenant: { select: { name: true } },
+        dunningEvents: true,
+      },
+      orderBy: { dueDate: 'asc' },
+      take: options.limit || DEFAULT_RUN_LIMIT,
+    })
+
+    result.inspected = invoices.length
+    const settingsByTenant = new Map<string, Prisma.BillingSettingsGetPayload<object> | null>()
+
+    for (const invoice of invoices) {
+      if (!settingsByTenant.has(invoice.tenantId)) {
+        settingsByTenant.set(invoice.tenantId, await prisma.billingSettings.findUnique({
+          where: { tenantId: invoice.tenantId },
+        }))
+      }
+
+      const settings = settingsByTenant.get(invoice.tenantId)
+      if (!settings?.dunningEnabled) {
+        continue
+      }
+
+      const config = resolveDunningConfig(settings)
+      const done = new Set(invoice.dunningEvents.map(event => `${event.type}:${event.step}`))
+      const templates = settings.emailTemplates as { dunningReminder?: Partial<DunningTemplate> } | null
+
+      for (const step of getDueDunningSteps(invoice.dueDate, now, config, done)) {
+        try {
+          const outcome = await this.runStep(invoice, step, () =>
+            this.executeStep(invoice, step, config, now, templates?.dunningReminder)
+          )
+
+          // Another run claimed the step first
+          if (!outcome) {
+            continue
+          }
+
+          result.steps.push({
+            invoiceId: invoice.id,
+            tenantId: invoice.tenantId,
+            type: step.type,
+            step: step.step,
+            success: outcome.success,
+          })
+
+          // A successful retry settles the invoice, the remaining steps no longer apply
+          if (step.type === 'PAYMENT_RETRY' && outcome.success) {
+            break
+          }
+        } catch (error: any) {
+          logger.error('Dunning step failed', error, {
+            operation: 'dunning',
+            tenantId: invoice.tenantId,
+            invoiceId: invoice.id,
+            step: `${step.type}:${step.step}`,
+          })
+          result.errors.push({ invoiceId: invoice.id, message: error.message })
+          break
+        }
+      }
+    }
+
+    logger.info('Dunning run completed', {
+      operation: 'dunning',
+      tenantId: options.tenantId,
+      inspected: result.inspected,
+      steps: result.steps.length,
+      reinstated: result.reinstated.length,
+      errors: result.errors.length,
+    })
+
+    return result
+  }
+
+  /**
+   * Undo the consequences of dunning once an invoice is settled: reactivate the memberships
+   * it suspended (unless another unpaid invoice keeps the client suspended) and put the
+   * subscription back in good standing. Safe to call for any invoice.
+   */
+  async resolveInvoice(invoiceId: string, now: Date = new Date()): Promise<boolean> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { dunningEvents: true },
+    })
+
+    if (!invoice || !['PAID', 'CANCELLED'].includes(invoice.status)) {
+      return false
+    }
+
+    if (invoice.subscriptionId) {
+      const stillOverdue = await prisma.invoice.count({
+        where: {
+          subscriptionId: invoice.subscriptionId,
+          status: 'OVERDUE',
+        },
+      })
+
+      if (stillOverdue === 0) {
+        await prisma.subscription.updateMany({
+          where: {
+            id: invoice.subscriptionId,
+            billingStatus: { in: ['PAST_DUE', 'SUSPENDED'] },
+          },
+          data: { billingStatus: 'ACTIVE' },
+        })
+      }
+    }
+
+    const suspension = invoice.dunningEvents.find(event => event.type === 'SUSPENSION')
+    const reinstated = invoice.dunningEvents.some(event => event.type === 'REINSTATEMENT')
+    if (!suspension || reinstated) {
+      return false
+    }
+
+    // Another unpaid invoice of the client still holds the suspension
+    const otherSuspensions = await prisma.dunningEvent.count({
+      where: {
+        tenantId: invoice.tenantId,
+        type: 'SUSPENSION',
+        invoiceId: { not: invoice.id },
+        invoice: {
+          clientId: invoice.clientId,
+          status: { notIn: ['PAID', 'CANCELLED'] },
+        },
+      },
+    })
+
+    // The last settled invoice restores every membership the client's suspensions took away
+    const suspensions = otherSuspensions === 0
+      ? await prisma.dunningEvent.findMany({
+        where: {
+          tenantId: invoice.tenantId,
+          type: 'SUSPENSION',
+          invoice: { clientId: invoice.clientId },
+        },
+        select: { metadata: true },
+      })
+      : []
+    const membershipIds = [...new Set(suspensions.flatMap(event =>
+      (event.metadata as { membershipIds?: string[] } | null)?.membershipIds || []
+    ))]
+
+    await prisma.$transaction(async (tx) => {
+      if (membershipIds.length > 0) {
+        await tx.membership.updateMany({
+          where: {
+            id: { in: membershipIds },
+            status: 'SUSPENDED',
+          },
+          data: { status: 'ACTIVE' },
+        })
+      }
+
+      await tx.dunningEvent.create({
+        data: {
+          tenantId: invoice.tenantId,
+          invoiceId: invoice.id,
+          type: 'REINSTATEMENT',
+          success: otherSuspensions === 0,
+          message: otherSuspensions === 0
+            ? `Reactivated ${membershipIds.length} memberships`
+            : 'Client remains suspended for other unpaid invoices',
+          metadata: { membershipIds, resolvedAt: now.toISOString() },
+        },
+      })
+    })
+
+    logger.info('Dunning suspension resolved', {
+      operation: 'dunning',
+      tenantId: invoice.tenantId,
+      invoiceId: invoice.id,
+      membershipIds,
+    })
+
+    return true
+  }
+
+  /**
+   * Whether a client lost access because of unpaid invoices
+   */
+  async isClientSuspended(tenantId: string, clientId: string | null): Promise<boolean> {
+    if (!clientId) {
+      return false
+    }
+
+    const suspensions = await prisma.dunningEvent.count({
+      where: {
+        tenantId,
+        type: 'SUSPENSION',
+        invoice: {
+          clientId,
+          status: { notIn: ['PAID', 'CANCELLED'] },
+          dunningEvents: { none: { type: 'REINSTATEMENT' } },
+        },
+      },
+    })
+
+    return suspensions > 0
+  }
+
+  private async executeStep(
+    invoice: DunningInvoice,
+    step: DunningStep,
+    config: DunningConfig,
+    now: Date,
+    template?: Partial<DunningTemplate>
+  ): Promise<StepOutcome> {
+    switch (step.type) {
+      case 'OVERDUE':
+        return await this.markOverdue(invoice)
+      case 'LATE_FEE':
+        return await this.applyLateFee(invoice, config)
+      case 'REMINDER':
+        return await this.sendReminder(invoice, now, template)
+      case 'PAYMENT_RETRY':
+        return await this.retryPayment(invoice, step)
+      case 'SUSPENSION':
+        return await this.suspendClient(invoice)
+    }
+  }
+
+  private async markOverdue(invoice: DunningInvoice): Promise<StepOutcome> {
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { status: 'OVERDUE' },
+    })
+
+    if (invoice.subscriptionId) {
+      await prisma.subscription.updateMany({
+        where: {
+          id: invoice.subscriptionId,
+          billingStatus: 'ACTIVE',
+        },
+        data: { billingStatus: 'PAST_DUE' },
+      })
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Add the late fee as a new line of the invoice, outside the taxable amount
+   */
+  private async applyLateFee(invoice: DunningInvoice, config: DunningConfig): Promise<StepOutcome> {
+    const fee = calculateLateFee(Number(invoice.total), config)
+    if (fee <= 0) {
+      return { success: false, message: 'Late fee amount is zero' }
+    }
+
+    await prisma.$transaction([
+      prisma.invoiceItem.create({
+        data: {
+          invoiceId: invoice.id,
+          description: config.lateFeeType === 'PERCENTAGE'
+            ? `Recargo por pago atrasado (${config.lateFee}%)`
+            : 'Recargo por pago atrasado',
+          quantity: 1,
+          unitPrice: fee,
+          total: fee,
+        },
+      }),
+      prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          subtotal: { increment: fee },
+          total: { increment: fee },
+        },
+      }),
+    ])
+
+    return { success: true, amount: fee }
+  }
+
+  private async sendReminder(
+    invoice: DunningInvoice,
+    now: Date,
+    template?: Partial<DunningTemplate>
+  ): Promise<StepOutcome> {
+    if (!process.env.RESEND_API_KEY) {
+      return { success: false, message: 'Email delivery is not configured' }
+    }
+
+    const values = {
+      number: invoice.number,
+      client: invoice.client.name,
+      total: `${Number(invoice.total).toLocaleString('es-ES')} ${invoice.currency}`,
+      dueDate: invoice.dueDate.toLocaleDateString('es-ES'),
+      days: differenceInCalendarDays(now, invoice.dueDate),
+      tenant: invoice.tenant.name,
+    }
+    const subject = renderDunningTemplate(template?.subject || DEFAULT_DUNNING_TEMPLATE.subject, values)
+    const body = renderDunningTemplate(template?.body || DEFAULT_DUNNING_TEMPLATE.body, values)
+
+    const resend = new Resend(process.env.RESEND_API_KEY)
+    const { error } = await resend.emails.send({
+      from: process.env.FROM_EMAIL || 'noreply@sweetspotcowork.com',
+      to: [invoice.client.email],
+      subject,
+      html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; white-space: pre-line; line-height: 1.6;">${body}</div>`,
+    })
+
+    if (error) {
+      return { success: false, message: error.message }
+    }
+
+    return { success: true, metadata: { to: invoice.client.email, subject } }
+  }
+
+  /**
+   * Charge the outstanding amount to the client's default stored payment method. The
+   * attempt number is part of the idempotency key, so a rerun never charges it twice.
+   */
+  private async retryPayment(invoice: DunningInvoice, step: DunningStep): Promise<StepOutcome> {
+    const paymentMethod = await prisma.storedPaymentMethod.findFirst({
+      where: {
+        tenantId: invoice.tenantId,
+        clientId: invoice.clientId,
+        isDefault: true,
+        isActive: true,
+      },
+    })
+
+    if (!paymentMethod) {
+      return { success: false, message: 'Client has no default payment method' }
+    }
+
+    const paid = await prisma.payment.aggregate({
+      where: {
+        invoiceId: invoice.id,
+        status: 'COMPLETED',
+      },
+      _sum: { amount: true },
+    })
+    const outstanding = Number(invoice.total) - Number(paid._sum.amount || 0)
+
+    const charge = await PaymentGatewayService.getInstance().chargeInvoice({
+      tenantId: invoice.tenantId,
+      invoiceId: invoice.id,
+      paymentMethodId: paymentMethod.id,
+      amount: outstanding,
+      idempotencyKey: createIdempotencyKey('dunning', invoice.id, step.step),
+    })
+
+    const metadata = { paymentMethodId: paymentMethod.id, paymentId: charge.data?.id }
+    if (!charge.success) {
+      return { success: false, amount: outstanding, message: charge.error, metadata }
+    }
+
+    // Saved cards that need the client to confirm the charge stay pending until the gateway reports back
+    if (charge.data.status !== 'COMPLETED') {
+      return { success: false, amount: outstanding, message: 'Payment is waiting for the client', metadata }
+    }
+
+    return { success: true, amount: outstanding, metadata }
+  }
+
+  /**
+   * Suspend the client's active memberships once the grace period is over
+   */
+  private async suspendClient(invoice: DunningInvoice): Promise<StepOutcome> {
+    const memberships = await prisma.membership.findMany({
+      where: {
+        tenantId: invoice.tenantId,
+        clientId: invoice.clientId,
+        status: 'ACTIVE',
+      },
+      select: { id: true },
+    })
+    const membershipIds = memberships.map(membership => membership.id)
+
+    if (membershipIds.length > 0) {
+      await prisma.membership.updateMany({
+        where: { id: { in: membershipIds } },
+        data: { status: 'SUSPENDED' },
+      })
+    }
+
+    if (invoice.subscriptionId) {
+      await prisma.subscription.update({
+        where: { id: invoice.subscriptionId },
+        data: { billingStatus: 'SUSPENDED' },
+      })
+    }
+
+    return { success: true, message: `Suspended ${membershipIds.length} memberships`, metadata: { membershipIds } }
+  }
+
+  /**
+   * Claim a step before running it so concurrent runs never repeat it, then store its outcome.
+   * Null when the step was already claimed. A step that throws is released to run again later.
+   */
+  private async runStep(
+    invoice: DunningInvoice,
+    step: DunningStep,
+    execute: () => Promise<StepOutcome>
+  ): Promise<StepOutcome | null> {
+    let eventId: string
+
+    try {
+      const event = await prisma.dunningEvent.create({
+        data: {
+          tenantId: invoice.tenantId,
+          invoiceId: invoice.id,
+          type: step.type,
+          step: step.step,
+          success: false,
+        },
+      })
+      eventId = event.id
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        return null
+      }
+      throw error
+    }
+
+    try {
+      const outcome = await execute()
+
+      await prisma.dunningEvent.update({
+        where: { id: eventId },
+        data: {
+          success: outcome.success,
+          amount: outcome.amount,
+          message: outcome.message,
+          metadata: outcome.metadata || {},
+        },
+      })
+
+      return outcome
+    } catch (error) {
+      await prisma.dunningEvent.delete({ where: { id: eventId } })
+      throw error
+    }
+  }
+
+  private async reinstateSettledInvoices(tenantId: string | undefined, now: Date): Promise<string[]> {
+    const settled = await prisma.invoice.findMany({
+      where: {
+        ...(tenantId && { tenantId }),
+        status: { in: ['PAID', 'CANCELLED'] },
+        dunningEvents: {
+          some: { type: 'SUSPENSION' },
+          none: { type: 'REINSTATEMENT' },
+        },
+      },
+      select: { id: true },
+    })
+
+    const reinstated: string[] = []
+    for (const invoice of settled) {
+      if (await this.resolveInvoice(invoice.id, now)) {
+        reinstated.push(invoice.id)
+      }
+    }
+
+    return reinstated
+  }
+}
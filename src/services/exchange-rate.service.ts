@@ -0,0 +1,167 @@
+import prisma from '@/lib/server/prisma'
+import { logger } from '@/lib/logger'
+import { parseExchangeRateFile, type ExchangeRateRecord } from '@/lib/utils/exchange-rate'
+
+export interface SaveExchangeRateParams {
+  tenantId: string
+  userId: string
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  effectiveDate: Date
+}
+
+export interface ImportExchangeRatesParams {
+  tenantId: string
+  userId: string
+  content: string
+  toCurrency?: string
+}
+
+export interface CurrencyContext {
+  baseCurrency: string
+  rates: ExchangeRateRecord[]
+}
+
+export class ExchangeRateService {
+  private static instance: ExchangeRateService
+
+  public static getInstance(): ExchangeRateService {
+    if (!ExchangeRateService.instance) {
+      ExchangeRateService.instance = new ExchangeRateService()
+    }
+    return ExchangeRateService.instance
+  }
+
+  /**
+   * Currency the tenant's reports are aggregated in; the billing currency unless a different
+   * one has been chosen
+   */
+  async getBaseCurrency(tenantId: string): Promise<string> {
+    const settings = await prisma.billingSettings.findUnique({
+      where: { tenantId },
+      select: { currency: true, baseCurrency: true },
+    })
+
+    return settings?.baseCurrency || settings?.currency || 'USD'
+  }
+
+  /**
+   * Base currency and every stored rate, to convert documents of any date
+   */
+  async getCurrencyContext(tenantId: string): Promise<CurrencyContext> {
+    const [baseCurrency, rates] = await Promise.all([
+      this.getBaseCurrency(tenantId),
+      prisma.exchangeRate.findMany({
+        where: { tenantId },
+        select: { fromCurrency: true, toCurrency: true, rate: true, effectiveDate: true },
+      }),
+    ])
+
+    return {
+      baseCurrency,
+      rates: rates.map(rate => ({ ...rate, rate: Number(rate.rate) })),
+    }
+  }
+
+  async updateBaseCurrency(tenantId: string, baseCurrency: string) {
+    return prisma.billingSettings.upsert({
+      where: { tenantId },
+      update: { baseCurrency },
+      create: { tenantId, baseCurrency },
+    })
+  }
+
+  /**
+   * Store the rate for a day, replacing the one already entered for it
+   */
+  async saveRate(params: SaveExchangeRateParams) {
+    if (params.fromCurrency === params.toCurrency) {
+      throw new Error('Choose two different currencies')
+    }
+
+    return prisma.exchangeRate.upsert({
+      where: {
+        tenantId_fromCurrency_toCurrency_effectiveDate: {
+          tenantId: params.tenantId,
+          fromCurrency: params.fromCurrency,
+          toCurrency: params.toCurrency,
+          effectiveDate: params.effectiveDate,
+        },
+      },
+      update: {
+        rate: params.rate,
+        source: 'MANUAL',
+        createdById: params.userId,
+      },
+      create: {
+        tenantId: params.tenantId,
+        fromCurrency: params.fromCurrency,
+        toCurrency: params.toCurrency,
+        rate: params.rate,
+        effectiveDate: params.effectiveDate,
+        source: 'MANUAL',
+        createdById: params.userId,
+      },
+    })
+  }
+
+  /**
+   * Import a rate file. Rates already stored for the same days are replaced, so a series can be
+   * imported again after it is corrected.
+   */
+  async importRates(params: ImportExchangeRatesParams) {
+    const toCurrency = params.toCurrency || await this.getBaseCurrency(params.tenantId)
+    const records = parseExchangeRateFile(params.content, toCurrency)
+
+    if (records.length === 0) {
+      throw new Error('The file has no exchange rates')
+    }
+
+    await prisma.$transaction(records.map(record => prisma.exchangeRate.upsert({
+      where: {
+        tenantId_fromCurrency_toCurrency_effectiveDate: {
+          tenantId: params.tenantId,
+          fromCurrency: record.fromCurrency,
+          toCurrency: record.toCurrency,
+          effectiveDate: record.effectiveDate,
+        },
+      },
+      update: {
+        rate: record.rate,
+        source: 'IMPORT',
+        createdById: params.userId,
+      },
+      create: {
+        tenantId: params.tenantId,
+        ...record,
+        source: 'IMPORT',
+        createdById: params.userId,
+      },
+    })))
+
+    logger.info('Exchange rates imported', {
+      operation: 'exchange_rate_import',
+      tenantId: params.tenantId,
+      rates: records.length,
+    })
+
+    return { imported: records.length }
+  }
+
+  async deleteRate(tenantId: string, rateId: string) {
+    const rate = await prisma.exchangeRate.findFirst({
+      where: {
+        id: rateId,
+        tenantId,
+      },
+      select: { id: true },
+    })
+
+    if (!rate) {
+      throw new Error('Exchange rate not found')
+    }
+
+    await prisma.exchangeRate.delete({ where: { id: rate.id } })
+  }
+}
@@ -0,0 +1,63 @@
+import { createHmac } from 'crypto'
+import type { DeliveryReceipt } from '@/lib/utils/notification-delivery'
+import type { NotificationType } from '@/lib/validations/notification'
+import {
+  NotificationChannelError,
+  NotificationReceiptSignatureError,
+  type ChannelMessage,
+  type ChannelReceiptRequest,
+  type ChannelSendResult,
+  type NotificationChannel,
+} from './types'
+
+// Recipients that make the fake transport fail the way real providers do
+export const FAKE_REJECTED_RECIPIENT = 'rejected@fake.test'
+export const FAKE_UNAVAILABLE_RECIPIENT = 'unavailable@fake.test'
+
+/**
+ * In-memory transport for development and tests, used for every channel when
+ * NOTIFICATION_TRANSPORT=fake. Sent messages are kept in `sent`, and receipts posted to
+ * /api/webhooks/notifications/fake are signed with an HMAC of the body in x-fake-signature.
+ */
+export class FakeNotificationChannel implements NotificationChannel {
+  readonly provider = 'fake'
+  readonly sent: Array<ChannelMessage & { providerMessageId: string }> = []
+  private sequence = 0
+
+  constructor(readonly type: NotificationType) {}
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const recipient = Object.values(message.recipient)
+
+    if (recipient.includes(FAKE_REJECTED_RECIPIENT)) {
+      throw new NotificationChannelError('Recipient rejected by the fake transport', false)
+    }
+    if (recipient.includes(FAKE_UNAVAILABLE_RECIPIENT)) {
+      throw new NotificationChannelError('Fake transport unavailable')
+    }
+
+    this.sequence += 1
+    const providerMessageId = `fake_${this.type.toLowerCase()}_${Date.now()}_${this.sequence}`
+    this.sent.push({ ...message, providerMessageId })
+
+    return { providerMessageId }
+  }
+
+  async parseReceipts(request: ChannelReceiptRequest): Promise<DeliveryReceipt[]> {
+    const signature = request.headers.get('x-fake-signature') || ''
+    if (signature !== signFakeReceipt(request.body)) {
+      throw new NotificationReceiptSignatureError(this.provider)
+    }
+
+    const receipts = JSON.parse(request.body) as Array<Omit<DeliveryReceipt, 'occurredAt'> & { occurredAt?: string }>
+    return receipts.map(receipt => ({
+      ...receipt,
+      occurredAt: receipt.occurredAt ? new Date(receipt.occurredAt) : new Date(),
+    }))
+  }
+}
+
+export function signFakeReceipt(body: string): string {
+  const secret = process.env.FAKE_NOTIFICATION_WEBHOOK_SECRET || 'fake_webhook_secret'
+  return createHmac('sha256', secret).update(body).digest('hex')
+}
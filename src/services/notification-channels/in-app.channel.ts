@@ -0,0 +1,13 @@
+import type { ChannelMessage, ChannelSendResult, NotificationChannel } from './types'
+
+/**
+ * In-app notifications are read from the notification itself, so storing it delivers it
+ */
+export class InAppNotificationChannel implements NotificationChannel {
+  readonly type = 'IN_APP' as const
+  readonly provider = 'in-app'
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    return { providerMessageId: message.notificationId, delivered: true }
+  }
+}
@@ -0,0 +1,90 @@
+import type { NotificationType } from '@/lib/validations/notification'
+import { FakeNotificationChannel } from './fake.channel'
+import { InAppNotificationChannel } from './in-app.channel'
+import { ResendEmailChannel } from './resend.channel'
+import { SmtpEmailChannel } from './smtp.channel'
+import { TwilioSmsChannel } from './twilio.channel'
+import { WebPushChannel } from './web-push.channel'
+import { WebhookNotificationChannel } from './webhook.channel'
+import { NotificationChannelError, type NotificationChannel } from './types'
+
+export * from './types'
+export { FakeNotificationChannel, FAKE_REJECTED_RECIPIENT, FAKE_UNAVAILABLE_RECIPIENT, signFakeReceipt } from './fake.channel'
+
+const channels = new Map<string, NotificationChannel>()
+const fakeChannels = new Map<NotificationType, FakeNotificationChannel>()
+
+export function registerNotificationChannel(channel: NotificationChannel) {
+  channels.set(channel.provider, channel)
+}
+
+/**
+ * Where a provider posts its delivery receipts
+ */
+export function getNotificationReceiptUrl(provider: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  return `${appUrl.replace(/\/+$/, '')}/api/webhooks/notifications/${provider}`
+}
+
+/**
+ * Channel sending notifications of a type. Email goes through Resend, or through SMTP when
+ * NOTIFICATION_EMAIL_PROVIDER=smtp or only SMTP_HOST is configured. With
+ * NOTIFICATION_TRANSPORT=fake everything but in-app notifications stays in memory.
+ */
+export function getNotificationChannel(type: NotificationType): NotificationChannel {
+  if (process.env.NOTIFICATION_TRANSPORT === 'fake' && type !== 'IN_APP') {
+    return getFakeNotificationChannel(type)
+  }
+
+  const channel = channels.get(getChannelProvider(type))
+  if (!channel || channel.type !== type) {
+    throw new NotificationChannelError(`${type} notifications are not supported`, false)
+  }
+
+  return channel
+}
+
+/**
+ * Channel whose provider sends receipts to /api/webhooks/notifications/[provider]
+ */
+export function getReceiptChannel(provider: string): NotificationChannel | null {
+  if (provider === 'fake') {
+    // Never accept fake receipts outside development, their secret is well known
+    return process.env.NOTIFICATION_TRANSPORT === 'fake' ? getFakeNotificationChannel('EMAIL') : null
+  }
+
+  const channel = channels.get(provider)
+  return channel?.parseReceipts ? channel : null
+}
+
+export function getFakeNotificationChannel(type: NotificationType): FakeNotificationChannel {
+  let channel = fakeChannels.get(type)
+  if (!channel) {
+    channel = new FakeNotificationChannel(type)
+    fakeChannels.set(type, channel)
+  }
+  return channel
+}
+
+function getChannelProvider(type: NotificationType): string {
+  switch (type) {
+    case 'EMAIL':
+      return process.env.NOTIFICATION_EMAIL_PROVIDER
+        || (!process.env.RESEND_API_KEY && process.env.SMTP_HOST ? 'smtp' : 'resend')
+    case 'SMS':
+      return 'twilio'
+    case 'PUSH':
+      return 'web-push'
+    case 'IN_APP':
+      return 'in-app'
+    default:
+      return type.toLowerCase()
+  }
+}
+
+registerNotificationChannel(new ResendEmailChannel())
+registerNotificationChannel(new SmtpEmailChannel())
+registerNotificationChannel(new TwilioSmsChannel(getNotificationReceiptUrl('twilio')))
+registerNotificationChannel(new WebPushChannel())
+registerNotificationChannel(new WebhookNotificationChannel())
+registerNotificationChannel(new InAppNotificationChannel())
@@ -0,0 +1,96 @@
+import { Resend } from 'resend'
+import { verifyResendSignature, type DeliveryReceipt, type DeliveryReceiptType } from '@/lib/utils/notification-delivery'
+import {
+  NotificationChannelError,
+  NotificationReceiptSignatureError,
+  type ChannelMessage,
+  type ChannelReceiptRequest,
+  type ChannelSendResult,
+  type NotificationChannel,
+} from './types'
+
+// Resend errors worth another attempt; the rest mean the message itself is wrong
+const RETRYABLE_ERRORS = ['rate_limit_exceeded', 'application_error', 'internal_server_error', 'concurrent_idempotent_requests']
+
+const RECEIPT_TYPES: Record<string, DeliveryReceiptType> = {
+  'email.sent': 'SENT',
+  'email.delivered': 'DELIVERED',
+  'email.opened': 'OPENED',
+  'email.clicked': 'CLICKED',
+  'email.bounced': 'BOUNCED',
+  'email.complained': 'DELIVERED', // Reached the inbox before being marked as spam
+  'email.failed': 'FAILED',
+}
+
+/**
+ * Email through Resend. Needs RESEND_API_KEY, and RESEND_WEBHOOK_SECRET for the receipts
+ * sent to /api/webhooks/notifications/resend.
+ */
+export class ResendEmailChannel implements NotificationChannel {
+  readonly type = 'EMAIL' as const
+  readonly provider = 'resend'
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const apiKey = process.env.RESEND_API_KEY
+    if (!apiKey) {
+      throw new NotificationChannelError('Email delivery is not configured', false)
+    }
+
+    const to = message.recipient.email
+    if (!to) {
+      throw new NotificationChannelError('The recipient has no email address', false)
+    }
+
+    const config = message.emailConfig || {}
+    const fromEmail = config.fromEmail || process.env.FROM_EMAIL || 'noreply@sweetspotcowork.com'
+
+    const resend = new Resend(apiKey)
+    const { data, error } = await resend.emails.send({
+      from: config.fromName ? `${config.fromName} <${fromEmail}>` : fromEmail,
+      to: [to],
+      cc: config.cc,
+      bcc: config.bcc,
+      replyTo: config.replyTo,
+      subject: config.subject || message.subject || '',
+      text: message.content,
+      ...(message.htmlContent && { html: message.htmlContent }),
+      tags: [{ name: 'notification_id', value: message.notificationId }],
+    }, {
+      // Retries after a timeout must not send the email twice
+      idempotencyKey: message.idempotencyKey,
+    })
+
+    if (error || !data) {
+      throw new NotificationChannelError(
+        `Resend request failed: ${error?.message || 'No response'}`,
+        !error || RETRYABLE_ERRORS.includes(error.name)
+      )
+    }
+
+    return { providerMessageId: data.id }
+  }
+
+  async parseReceipts(request: ChannelReceiptRequest): Promise<DeliveryReceipt[]> {
+    const secret = process.env.RESEND_WEBHOOK_SECRET || ''
+    const valid = secret && verifyResendSignature(request.body, {
+      id: request.headers.get('svix-id'),
+      timestamp: request.headers.get('svix-timestamp'),
+      signature: request.headers.get('svix-signature'),
+    }, secret)
+
+    if (!valid) {
+      throw new NotificationReceiptSignatureError(this.provider)
+    }
+
+    const event = JSON.parse(request.body)
+    const type = RECEIPT_TYPES[event.type]
+    if (!type || !event.data?.email_id) return []
+
+    return [{
+      providerMessageId: event.data.email_id,
+      type,
+      occurredAt: new Date(event.created_at || Date.now()),
+      errorMessage: event.data.bounce?.message,
+    }]
+  }
+}
@@ -0,0 +1,191 @@
+import { connect as connectTcp, type Socket } from 'net'
+import { connect as connectTls } from 'tls'
+import { buildEmailMessage } from '@/lib/utils/notification-delivery'
+import {
+  NotificationChannelError,
+  type ChannelMessage,
+  type ChannelSendResult,
+  type NotificationChannel,
+} from './types'
+
+// Servers that take longer are counted as failed and retried later
+const SMTP_TIMEOUT_MS = 20_000
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/**
+ * Email through any SMTP server. Needs SMTP_HOST, plus SMTP_PORT (587), SMTP_USER and
+ * SMTP_PASSWORD when the server asks for them. Port 465, or SMTP_SECURE=true, connects over
+ * TLS; otherwise the connection is upgraded with STARTTLS when the server offers it.
+ * SMTP has no delivery receipts: notifications stay SENT once the server accepts them.
+ */
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly type = 'EMAIL' as const
+  readonly provider = 'smtp'
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const host = process.env.SMTP_HOST
+    if (!host) {
+      throw new NotificationChannelError('Email delivery is not configured', false)
+    }
+
+    const to = message.recipient.email
+    if (!to) {
+      throw new NotificationChannelError('The recipient has no email address', false)
+    }
+
+    const config = message.emailConfig || {}
+    const fromEmail = config.fromEmail || process.env.FROM_EMAIL || 'noreply@sweetspotcowork.com'
+    const messageId = `${message.notificationId}@${fromEmail.split('@')[1]}`
+    const recipients = [to, ...(config.cc || []), ...(config.bcc || [])]
+
+    const data = buildEmailMessage({
+      from: config.fromName ? `${config.fromName} <${fromEmail}>` : fromEmail,
+      to: [to],
+      cc: config.cc,
+      replyTo: config.replyTo,
+      subject: config.subject || message.subject || '',
+      text: message.content,
+      html: message.htmlContent || undefined,
+      messageId,
+    })
+
+    const port = Number(process.env.SMTP_PORT || 587)
+    const session = new SmtpSession(host, port, process.env.SMTP_SECURE === 'true' || port === 465)
+
+    try {
+      await session.expect(null, 220)
+      const features = await session.expect(`EHLO ${getClientName()}`, 250)
+
+      if (!session.secure && /^STARTTLS$/im.test(features.text)) {
+        await session.expect('STARTTLS', 220)
+        session.upgrade()
+        await session.expect(`EHLO ${getClientName()}`, 250)
+      }
+
+      if (process.env.SMTP_USER) {
+        if (!session.secure) {
+          throw new NotificationChannelError('The SMTP server does not offer TLS, credentials were not sent', false)
+        }
+        const credentials = Buffer.from(`\0${process.env.SMTP_USER}\0${process.env.SMTP_PASSWORD || ''}`).toString('base64')
+        await session.expect(`AUTH PLAIN ${credentials}`, 235)
+      }
+
+      await session.expect(`MAIL FROM:<${fromEmail}>`, 250)
+      for (const recipient of recipients) {
+        await session.expect(`RCPT TO:<${recipient}>`, 250, 251)
+      }
+      await session.expect('DATA', 354)
+      // Lines starting with a dot are escaped so they do not end the message early
+      await session.expect(`${data.replace(/^\./gm, '..')}\r\n.`, 250)
+      session.quit()
+
+      return { providerMessageId: messageId }
+    } finally {
+      session.close()
+    }
+  }
+}
+
+function getClientName(): string {
+  try {
+    return new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost').hostname
+  } catch {
+    return 'localhost'
+  }
+}
+
+/**
+ * One SMTP conversation: each command waits for the complete reply of the server
+ */
+class SmtpSession {
+  private socket: Socket
+  private buffer = ''
+  private lines: string[] = []
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private readonly host: string, port: number, public secure: boolean) {
+    this.socket = secure
+      ? connectTls({ host, port, servername: host })
+      : connectTcp({ host, port })
+    this.listen()
+  }
+
+  /**
+   * Send a command (or only wait for the greeting when null) and check the reply code
+   */
+  async expect(command: string | null, ...codes: number[]): Promise<SmtpReply> {
+    const reply = new Promise<SmtpReply>((resolve, reject) => {
+      if (this.failure) return reject(this.failure)
+      this.pending = { resolve, reject }
+      this.flush()
+    })
+
+    if (command !== null) this.socket.write(`${command}\r\n`)
+
+    const result = await reply
+    if (!codes.includes(result.code)) {
+      // 4xx replies are temporary, such as a full mailbox or greylisting
+      throw new NotificationChannelError(`SMTP server answered ${result.code}: ${result.text}`, result.code < 500)
+    }
+    return result
+  }
+
+  upgrade() {
+    // Errors of the plain socket still end up in fail()
+    for (const event of ['data', 'close', 'timeout']) this.socket.removeAllListeners(event)
+    this.socket = connectTls({ socket: this.socket, servername: this.host })
+    this.secure = true
+    this.listen()
+  }
+
+  quit() {
+    this.socket.write('QUIT\r\n')
+  }
+
+  close() {
+    this.socket.end(() => this.socket.destroy())
+  }
+
+  private listen() {
+    this.socket.setEncoding('utf8')
+    this.socket.setTimeout(SMTP_TIMEOUT_MS, () => this.fail(new NotificationChannelError('SMTP server timed out')))
+    this.socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      const lines = this.buffer.split('\r\n')
+      this.buffer = lines.pop() || ''
+      this.lines.push(...lines)
+      this.flush()
+    })
+    this.socket.on('error', (error) => this.fail(new NotificationChannelError(`SMTP connection failed: ${error.message}`)))
+    this.socket.on('close', () => this.fail(new NotificationChannelError('SMTP connection closed')))
+  }
+
+  // Multi-line replies repeat the code with a dash; the last line has a space after it
+  private flush() {
+    if (!this.pending) return
+
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line))
+    if (last === -1) return
+
+    const replyLines = this.lines.splice(0, last + 1)
+    const { resolve } = this.pending
+    this.pending = null
+    resolve({
+      code: Number(replyLines[last].slice(0, 3)),
+      text: replyLines.map((line) => line.slice(4)).join('\n'),
+    })
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error
+    if (this.pending) {
+      this.pending.reject(this.failure)
+      this.pending = null
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { verifyTwilioSignature, type DeliveryReceipt, type DeliveryReceiptType } from '@/lib/utils/notification-delivery'
+import {
+  NotificationChannelError,
+  NotificationReceiptSignatureError,
+  toHttpChannelError,
+  type ChannelMessage,
+  type ChannelReceiptRequest,
+  type ChannelSendResult,
+  type NotificationChannel,
+} from './types'
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01'
+const TWILIO_TIMEOUT_MS = 10_000
+
+const RECEIPT_TYPES: Record<string, DeliveryReceiptType> = {
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'OPENED', // WhatsApp and RCS only
+  undelivered: 'FAILED',
+  failed: 'FAILED',
+}
+
+/**
+ * SMS through the Twilio Messages API, or any service that speaks it. Needs
+ * TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and either TWILIO_MESSAGING_SERVICE_SID or
+ * TWILIO_FROM_NUMBER; TWILIO_API_URL points it at a compatible provider.
+ */
+export class TwilioSmsChannel implements NotificationChannel {
+  readonly type = 'SMS' as const
+  readonly provider = 'twilio'
+
+  constructor(private readonly receiptUrl: string) {}
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    if (!accountSid || !authToken) {
+      throw new NotificationChannelError('SMS delivery is not configured', false)
+    }
+
+    const to = message.recipient.phone
+    if (!to) {
+      throw new NotificationChannelError('The recipient has no phone number', false)
+    }
+
+    const form = new URLSearchParams({
+      To: to,
+      Body: message.smsConfig?.message || message.content,
+      StatusCallback: this.receiptUrl,
+    })
+    if (process.env.TWILIO_MESSAGING_SERVICE_SID) {
+      form.set('MessagingServiceSid', process.env.TWILIO_MESSAGING_SERVICE_SID)
+    } else {
+      form.set('From', process.env.TWILIO_FROM_NUMBER || '')
+    }
+
+    const response = await fetch(`${process.env.TWILIO_API_URL || TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+      signal: AbortSignal.timeout(TWILIO_TIMEOUT_MS),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw toHttpChannelError('Twilio', response.status, data.message || response.statusText)
+    }
+
+    return { providerMessageId: data.sid }
+  }
+
+  async parseReceipts(request: ChannelReceiptRequest): Promise<DeliveryReceipt[]> {
+    const params = Object.fromEntries(new URLSearchParams(request.body))
+
+    // Twilio signs the URL it was given, which may differ from the one behind a proxy
+    const valid = verifyTwilioSignature(
+      this.receiptUrl,
+      params,
+      request.headers.get('x-twilio-signature'),
+      process.env.TWILIO_AUTH_TOKEN || ''
+    )
+
+    if (!valid) {
+      throw new NotificationReceiptSignatureError(this.provider)
+    }
+
+    const type = RECEIPT_TYPES[params.MessageStatus]
+    if (!type || !params.MessageSid) return []
+
+    return [{
+      providerMessageId: params.MessageSid,
+      type,
+      occurredAt: new Date(),
+      errorMessage: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : undefined,
+    }]
+  }
+}
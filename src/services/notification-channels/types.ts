@@ -0,0 +1,78 @@
+import type { DeliveryReceipt } from '@/lib/utils/notification-delivery'
+import type {
+  EmailConfig,
+  NotificationRecipient,
+  NotificationType,
+  PushConfig,
+  SMSConfig,
+  WebhookConfig,
+} from '@/lib/validations/notification'
+
+export interface ChannelMessage {
+  notificationId: string
+  tenantId: string
+  idempotencyKey: string // Same for the retries of one send, so providers can drop duplicates
+  recipient: NotificationRecipient
+  subject: string | null
+  content: string
+  htmlContent: string | null
+  priority: string
+  emailConfig?: Partial<EmailConfig>
+  smsConfig?: Partial<SMSConfig>
+  pushConfig?: Partial<PushConfig>
+  webhookConfig?: Partial<WebhookConfig>
+}
+
+export interface ChannelSendResult {
+  providerMessageId?: string
+  delivered?: boolean // The provider confirmed delivery in its answer, no receipt will follow
+}
+
+export interface ChannelReceiptRequest {
+  body: string // Raw body, signatures are computed over the exact bytes received
+  headers: Headers
+  url: string
+}
+
+/**
+ * A way of reaching recipients. Adapters translate notifications into the provider's
+ * API; they never touch the database.
+ */
+export interface NotificationChannel {
+  readonly type: NotificationType
+  readonly provider: string
+  send(message: ChannelMessage): Promise<ChannelSendResult>
+  /**
+   * Verify and read the delivery receipts of a provider callback. Throws
+   * NotificationReceiptSignatureError for forged requests.
+   */
+  parseReceipts?(request: ChannelReceiptRequest): Promise<DeliveryReceipt[]>
+}
+
+/**
+ * Sending failed. Retryable failures (timeouts, rate limits, provider outages) are tried
+ * again later; the rest, such as an invalid address, fail the notification right away.
+ */
+export class NotificationChannelError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message)
+    this.name = 'NotificationChannelError'
+  }
+}
+
+export class NotificationReceiptSignatureError extends Error {
+  constructor(provider: string) {
+    super(`Invalid ${provider} receipt signature`)
+    this.name = 'NotificationReceiptSignatureError'
+  }
+}
+
+/**
+ * Failure for an HTTP answer of a provider: throttling and server errors are retried
+ */
+export function toHttpChannelError(provider: string, status: number, message: string): NotificationChannelError {
+  return new NotificationChannelError(
+    `${provider} request failed (${status}): ${message}`,
+    status === 408 || status === 429 || status >= 500
+  )
+}
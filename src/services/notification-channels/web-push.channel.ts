@@ -0,0 +1,75 @@
+import { createVapidAuthorization, encryptPushPayload, parsePushSubscription } from '@/lib/utils/web-push'
+import {
+  NotificationChannelError,
+  toHttpChannelError,
+  type ChannelMessage,
+  type ChannelSendResult,
+  type NotificationChannel,
+} from './types'
+
+const PUSH_TIMEOUT_MS = 10_000
+
+// Seconds the push service keeps a message for a browser that is offline
+const DEFAULT_PUSH_TTL = 24 * 60 * 60
+
+/**
+ * Browser notifications through the Web Push protocol. The recipient's push token is the
+ * JSON of its PushSubscription. Needs VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT.
+ */
+export class WebPushChannel implements NotificationChannel {
+  readonly type = 'PUSH' as const
+  readonly provider = 'web-push'
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const publicKey = process.env.VAPID_PUBLIC_KEY
+    const privateKey = process.env.VAPID_PRIVATE_KEY
+    if (!publicKey || !privateKey) {
+      throw new NotificationChannelError('Push delivery is not configured', false)
+    }
+
+    const subscription = message.recipient.pushToken ? parsePushSubscription(message.recipient.pushToken) : null
+    if (!subscription) {
+      throw new NotificationChannelError('The recipient has no valid push subscription', false)
+    }
+
+    const config = message.pushConfig || {}
+    const payload = JSON.stringify({
+      notificationId: message.notificationId,
+      title: config.title || message.subject || '',
+      body: config.body || message.content,
+      icon: config.icon,
+      image: config.image,
+      badge: config.badge,
+      url: config.clickAction,
+      data: config.data,
+    })
+
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': createVapidAuthorization(subscription.endpoint, {
+          publicKey,
+          privateKey,
+          subject: process.env.VAPID_SUBJECT || `mailto:${process.env.FROM_EMAIL || 'noreply@sweetspotcowork.com'}`,
+        }),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(config.ttl ?? DEFAULT_PUSH_TTL),
+        'Urgency': message.priority === 'URGENT' || message.priority === 'HIGH' ? 'high' : 'normal',
+      },
+      body: new Uint8Array(encryptPushPayload(payload, subscription)),
+      signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+    })
+
+    // The browser unsubscribed or the subscription expired; it will never work again
+    if (response.status === 404 || response.status === 410) {
+      throw new NotificationChannelError('The push subscription has expired', false)
+    }
+
+    if (!response.ok) {
+      throw toHttpChannelError('Web Push', response.status, await response.text().catch(() => response.statusText))
+    }
+
+    return { providerMessageId: response.headers.get('location') || undefined }
+  }
+}
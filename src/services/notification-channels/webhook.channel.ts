@@ -0,0 +1,62 @@
+import {
+  NotificationChannelError,
+  toHttpChannelError,
+  type ChannelMessage,
+  type ChannelSendResult,
+  type NotificationChannel,
+} from './types'
+
+const DEFAULT_TIMEOUT_SECONDS = 30
+
+/**
+ * Notification posted to a URL of the recipient. A 2xx answer counts as delivered.
+ */
+export class WebhookNotificationChannel implements NotificationChannel {
+  readonly type = 'WEBHOOK' as const
+  readonly provider = 'webhook'
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const config = message.webhookConfig || {}
+    const url = config.url || message.recipient.webhookUrl
+    if (!url) {
+      throw new NotificationChannelError('The recipient has no webhook URL', false)
+    }
+
+    const method = config.method || 'POST'
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'SweetSpot-Notification/1.0',
+      'X-SweetSpot-Notification': message.notificationId,
+      ...config.headers,
+    }
+
+    const auth = config.authentication
+    if (auth?.type === 'BASIC') {
+      headers['Authorization'] = `Basic ${Buffer.from(`${auth.username || ''}:${auth.password || ''}`).toString('base64')}`
+    } else if (auth?.type === 'BEARER') {
+      headers['Authorization'] = `Bearer ${auth.token || ''}`
+    } else if (auth?.type === 'API_KEY') {
+      headers[auth.apiKeyHeader || 'X-API-Key'] = auth.apiKey || ''
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: method === 'GET' ? undefined : JSON.stringify({
+        id: message.notificationId,
+        subject: message.subject,
+        content: message.content,
+        priority: message.priority,
+        ...config.payload,
+      }),
+      redirect: 'manual',
+      signal: AbortSignal.timeout((config.timeout || DEFAULT_TIMEOUT_SECONDS) * 1000),
+    })
+
+    if (response.status < 200 || response.status >= 300) {
+      throw toHttpChannelError('Webhook', response.status, (await response.text().catch(() => '')).slice(0, 200))
+    }
+
+    return { delivered: true }
+  }
+}
@@ -0,0 +1,387 @@
+import prisma from '@/lib/server/prisma'
+import type { Notification } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import type { NotificationRecipient, NotificationType } from '@/lib/validations/notification'
+import { calculateNextNotificationAttempt, getReceiptUpdate } from '@/lib/utils/notification-delivery'
+import {
+  NotificationChannelError,
+  getNotificationChannel,
+  getReceiptChannel,
+  type ChannelMessage,
+  type ChannelReceiptRequest,
+} from '@/services/notification-channels'
+
+// Time a claimed notification is hidden from other workers while its attempt runs
+const DELIVERY_LEASE_MS = 2 * 60 * 1000
+
+export interface ProcessNotificationsResult {
+  processed: number
+  sent: number
+  retrying: number
+  failed: number
+}
+
+export interface HandleReceiptsResult {
+  received: number
+  applied: number
+}
+
+export class NotificationDeliveryService {
+  private static instance: NotificationDeliveryService
+
+  public static getInstance(): NotificationDeliveryService {
+    if (!NotificationDeliveryService.instance) {
+      NotificationDeliveryService.instance = new NotificationDeliveryService()
+    }
+    return NotificationDeliveryService.instance
+  }
+
+  /**
+   * Put a notification in the outbound queue. Notifications due now get their first attempt
+   * right away; later ones, and whatever fails, are picked up by the delivery job. Never
+   * throws, so the operation that created the notification is not affected.
+   */
+  async enqueue(notificationId: string, sendAt: Date = new Date()): Promise<void> {
+    try {
+      const notification = await prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          status: 'QUEUED',
+          nextAttemptAt: sendAt,
+          errorMessage: null,
+        },
+      })
+      await this.recordEvent(notification, 'QUEUED', null, sendAt > new Date() ? `Scheduled for ${sendAt.toISOString()}` : null)
+
+      if (sendAt <= new Date()) {
+        await this.attemptDelivery(notificationId)
+      }
+    } catch (error) {
+      logger.error('Notification could not be queued', error as Error, {
+        operation: 'notification_enqueue',
+        notificationId,
+      })
+    }
+  }
+
+  /**
+   * Send a queued notification once. Failures are retried with exponential backoff until
+   * maxRetries is used up, or fail at once when retrying cannot help. Returns null when
+   * the notification is not due or another worker already claimed it.
+   */
+  async attemptDelivery(notificationId: string) {
+    const now = new Date()
+    // SENDING notifications whose lease ran out were left behind by a worker that died
+    const claimed = await prisma.notification.updateMany({
+      where: {
+        id: notificationId,
+        status: { in: ['QUEUED', 'SENDING'] },
+        nextAttemptAt: { lte: now },
+        deletedAt: null,
+      },
+      data: {
+        status: 'SENDING',
+        nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS),
+        lastAttemptAt: now,
+      },
+    })
+
+    if (claimed.count === 0) {
+      return null
+    }
+
+    const notification = await prisma.notification.findUniqueOrThrow({ where: { id: notificationId } })
+    const attempts = notification.attempts + 1
+
+    if (notification.expiresAt && notification.expiresAt <= now) {
+      return await this.fail(notification, attempts, 'The notification expired before it could be sent')
+    }
+
+    let provider: string | null = null
+
+    try {
+      const channel = getNotificationChannel(notification.type as NotificationType)
+      provider = channel.provider
+
+      const result = await channel.send(await this.buildMessage(notification))
+      const sentAt = new Date()
+
+      const updated = await prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: result.delivered ? 'DELIVERED' : 'SENT',
+          attempts,
+          nextAttemptAt: null,
+          provider,
+          providerMessageId: result.providerMessageId || null,
+          sentAt,
+          deliveredAt: result.delivered ? sentAt : null,
+          errorMessage: null,
+        },
+      })
+      await this.recordEvent(updated, result.delivered ? 'DELIVERED' : 'SENT', provider, null)
+
+      return updated
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const retryable = !(error instanceof NotificationChannelError) || error.retryable
+      const nextAttemptAt = retryable
+        ? calculateNextNotificationAttempt(attempts, notification.maxRetries, notification.retryDelay)
+        : null
+
+      if (!nextAttemptAt) {
+        return await this.fail(notification, attempts, message, provider)
+      }
+
+      const updated = await prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: 'QUEUED',
+          attempts,
+          nextAttemptAt,
+          provider,
+          errorMessage: message,
+        },
+      })
+      await this.recordEvent(updated, 'RETRY_SCHEDULED', provider, message)
+
+      return updated
+    }
+  }
+
+  /**
+   * Send the queued notifications that are due, most urgent and oldest first
+   */
+  async processDueNotifications(limit = 100): Promise<ProcessNotificationsResult> {
+    const due = await prisma.notification.findMany({
+      where: {
+        status: { in: ['QUEUED', 'SENDING'] },
+        nextAttemptAt: { lte: new Date() },
+        deletedAt: null,
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true, priority: true },
+    })
+
+    // URGENT and HIGH go first; the sort is stable, so the due order holds within a priority
+    const urgency = (priority: string) => ['URGENT', 'HIGH'].indexOf(priority) + 1 || 3
+    due.sort((a, b) => urgency(a.priority) - urgency(b.priority))
+
+    const result: ProcessNotificationsResult = { processed: 0, sent: 0, retrying: 0, failed: 0 }
+
+    for (const { id } of due) {
+      try {
+        const notification = await this.attemptDelivery(id)
+        if (!notification) continue
+
+        result.processed++
+        if (notification.status === 'SENT' || notification.status === 'DELIVERED') result.sent++
+        else if (notification.status === 'QUEUED') result.retrying++
+        else result.failed++
+      } catch (error) {
+        logger.error('Notification delivery attempt failed', error as Error, {
+          operation: 'notification_delivery',
+          notificationId: id,
+        })
+      }
+    }
+
+    logger.info('Notification deliveries processed', {
+      operation: 'notification_delivery_job',
+      ...result,
+    })
+
+    return result
+  }
+
+  /**
+   * Apply the delivery receipts of a provider callback. Receipts for messages we did not
+   * send, and repeated ones, are acknowledged without changes. Returns null for providers
+   * that do not send receipts.
+   */
+  async handleReceipts(provider: string, request: ChannelReceiptRequest): Promise<HandleReceiptsResult | null> {
+    const channel = getReceiptChannel(provider)
+    if (!channel?.parseReceipts) return null
+
+    const receipts = await channel.parseReceipts(request)
+    let applied = 0
+
+    for (const receipt of receipts) {
+      const notification = await prisma.notification.findFirst({
+        where: {
+          provider: channel.provider,
+          providerMessageId: receipt.providerMessageId,
+        },
+      })
+
+      const update = notification ? getReceiptUpdate(notification, receipt) : null
+      if (!notification || !update) continue
+
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: update,
+      })
+      await this.recordEvent(notification, receipt.type, channel.provider, receipt.errorMessage || null, receipt.occurredAt)
+      applied++
+    }
+
+    return { received: receipts.length, applied }
+  }
+
+  /**
+   * Queue a notification that failed or was cancelled again. Keeping the retry count
+   * leaves it a single attempt when its retries were already used up.
+   */
+  async resend(tenantId: string, notificationId: string, resetRetryCount: boolean) {
+    const notification = await this.findNotification(tenantId, notificationId)
+
+    if (['QUEUED', 'SENDING'].includes(notification.status)) {
+      throw new Error('The notification is already queued')
+    }
+
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        ...(resetRetryCount ? { attempts: 0 } : { maxRetries: Math.max(notification.maxRetries, notification.attempts) }),
+        provider: null,
+        providerMessageId: null,
+        sentAt: null,
+        deliveredAt: null,
+      },
+    })
+
+    await this.enqueue(notification.id)
+    return prisma.notification.findUniqueOrThrow({ where: { id: notification.id } })
+  }
+
+  /**
+   * Take a notification out of the queue before it is sent
+   */
+  async cancel(tenantId: string, notificationId: string, reason?: string) {
+    const notification = await this.findNotification(tenantId, notificationId)
+
+    // Only the queue's own statuses can be cancelled; SENDING is left to finish
+    const cancelled = await prisma.notification.updateMany({
+      where: {
+        id: notification.id,
+        status: { in: ['PENDING', 'QUEUED'] },
+      },
+      data: {
+        status: 'CANCELLED',
+        nextAttemptAt: null,
+        errorMessage: reason || null,
+      },
+    })
+
+    if (cancelled.count === 0) {
+      throw new Error('Only pending or queued notifications can be cancelled')
+    }
+
+    await this.recordEvent(notification, 'CANCELLED', null, reason || null)
+    return prisma.notification.findUniqueOrThrow({ where: { id: notification.id } })
+  }
+
+  private async fail(notification: Notification, attempts: number, message: string, provider: string | null = null) {
+    const updated = await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        status: 'FAILED',
+        attempts,
+        nextAttemptAt: null,
+        provider,
+        errorMessage: message,
+      },
+    })
+    await this.recordEvent(updated, 'FAILED', provider, message)
+
+    logger.warn('Notification delivery failed', {
+      operation: 'notification_delivery',
+      tenantId: notification.tenantId,
+      notificationId: notification.id,
+      type: notification.type,
+      attempts,
+      error: message,
+    })
+
+    return updated
+  }
+
+  /**
+   * Recipients given only as a user are reached at the user's email and phone
+   */
+  private async buildMessage(notification: Notification): Promise<ChannelMessage> {
+    const recipient: NotificationRecipient = JSON.parse(notification.recipient)
+    const userId = recipient.userId || notification.userId
+
+    if (userId && !recipient.email && !recipient.phone) {
+      const user = await prisma.user.findFirst({
+        where: { id: userId, tenantId: notification.tenantId },
+        select: { email: true, phone: true, firstName: true, lastName: true },
+      })
+
+      if (user) {
+        recipient.email = user.email
+        recipient.phone = user.phone || undefined
+        recipient.name = recipient.name || `${user.firstName} ${user.lastName}`.trim()
+      }
+    }
+
+    // Each time the notification is queued starts a new send; retries within it share the key
+    const sends = await prisma.notificationDeliveryEvent.count({
+      where: { notificationId: notification.id, type: 'QUEUED' },
+    })
+
+    const parse = (value: string | null) => value ? JSON.parse(value) : undefined
+
+    return {
+      notificationId: notification.id,
+      tenantId: notification.tenantId,
+      idempotencyKey: `notification-${notification.id}-${sends}`,
+      recipient,
+      subject: notification.subject,
+      content: notification.content,
+      htmlContent: notification.htmlContent,
+      priority: notification.priority,
+      emailConfig: parse(notification.emailConfig),
+      smsConfig: parse(notification.smsConfig),
+      pushConfig: parse(notification.pushConfig),
+      webhookConfig: parse(notification.webhookConfig),
+    }
+  }
+
+  private async recordEvent(
+    notification: Pick<Notification, 'id' | 'tenantId'>,
+    type: string,
+    provider: string | null,
+    detail: string | null,
+    occurredAt: Date = new Date()
+  ) {
+    await prisma.notificationDeliveryEvent.create({
+      data: {
+        tenantId: notification.tenantId,
+        notificationId: notification.id,
+        type,
+        provider,
+        detail: detail ? detail.slice(0, 1000) : null,
+        occurredAt,
+      },
+    })
+  }
+
+  private async findNotification(tenantId: string, notificationId: string) {
+    const notification = await prisma.notification.findFirst({
+      where: {
+        id: notificationId,
+        tenantId,
+        deletedAt: null,
+      },
+    })
+
+    if (!notification) {
+      throw new Error('Notification not found')
+    }
+
+    return notification
+  }
+}
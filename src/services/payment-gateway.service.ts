@@ -0,0 +1,567 @@
+import prisma from '@/lib/server/prisma'
+import { Prisma, type PaymentProvider } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import type { ActionResult } from '@/types/database'
+import { createIdempotencyKey } from '@/lib/utils/payment-gateway'
+import {
+  getPaymentGateway,
+  isGatewayProvider,
+  type GatewayChargeResult,
+  type GatewayWebhookRequest,
+} from '@/services/payment-gateways'
+import { DunningService } from '@/services/dunning.service'
+import { PaymentRefundService } from '@/services/payment-refund.service'
+import { WebhookService } from '@/services/webhook.service'
+
+export interface ChargePaymentParams {
+  paymentId: string
+  tenantId?: string // Restrict the lookup to one tenant
+  provider?: PaymentProvider // Defaults to the provider of the saved payment method
+  paymentMethodId?: string // Saved card charged without the client present
+  capture?: boolean // Only authorize the amount when false
+  returnUrl?: string // Where hosted checkouts send the client back
+}
+
+export interface CapturePaymentParams {
+  paymentId: string
+  tenantId?: string
+  amount?: number // Captures the whole authorized amount if not specified
+}
+
+export interface ChargeInvoiceParams {
+  tenantId: string
+  invoiceId: string
+  paymentMethodId: string
+  amount: number
+  idempotencyKey: string // Identifies the attempt, repeating it never charges twice
+}
+
+export interface SavePaymentMethodParams {
+  tenantId: string
+  clientId: string
+  provider: PaymentProvider
+  cardToken?: string
+  returnUrl?: string
+  isDefault?: boolean
+}
+
+export interface PaymentWebhookResult {
+  handled: boolean
+  duplicate?: boolean
+  paymentId?: string
+  returnUrl?: string // Page the client's browser goes back to, for gateways that return through the webhook
+}
+
+type GatewayPayment = Prisma.PaymentGetPayload<{
+  include: { client: true; invoice: true }
+}>
+
+export class PaymentGatewayService {
+  private static instance: PaymentGatewayService
+
+  public static getInstance(): PaymentGatewayService {
+    if (!PaymentGatewayService.instance) {
+      PaymentGatewayService.instance = new PaymentGatewayService()
+    }
+    return PaymentGatewayService.instance
+  }
+
+  /**
+   * Charge a pending payment through its gateway, with a saved card or on the gateway's
+   * hosted page. Every request carries the payment's idempotency key, so a retried charge
+   * returns the first result. Callers are responsible for authorization.
+   */
+  async chargePayment(params: ChargePaymentParams): Promise<ActionResult<any>> {
+    const payment = await prisma.payment.findFirst({
+      where: {
+        id: params.paymentId,
+        ...(params.tenantId && { tenantId: params.tenantId }),
+      },
+      include: { client: true, invoice: true },
+    })
+
+    if (!payment) {
+      return { success: false, error: 'Payment not found' }
+    }
+
+    if (payment.status !== 'PENDING' || payment.authorizedAt) {
+      return { success: false, error: 'Only pending payments can be charged' }
+    }
+
+    if (Number(payment.amount) <= 0) {
+      return { success: false, error: 'Payment amount must be positive' }
+    }
+
+    const paymentMethod = params.paymentMethodId
+      ? await prisma.storedPaymentMethod.findFirst({
+        where: {
+          id: params.paymentMethodId,
+          tenantId: payment.tenantId,
+          clientId: payment.clientId,
+          isActive: true,
+        },
+      })
+      : null
+
+    if (params.paymentMethodId && !paymentMethod) {
+      return { success: false, error: 'Payment method not found' }
+    }
+
+    const provider = paymentMethod?.provider || params.provider || payment.provider
+    if (!provider || !isGatewayProvider(provider)) {
+      return { success: false, error: `No payment gateway is connected for ${provider || payment.method}` }
+    }
+
+    const providerData = toRecord(paymentMethod?.providerData)
+    const idempotencyKey = payment.idempotencyKey
+      || createIdempotencyKey('charge', payment.id, provider, paymentMethod?.id || 'checkout')
+
+    // Recorded before calling the gateway, so an interrupted charge is retried with the same key
+    const pendingPayment = await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        provider,
+        idempotencyKey,
+        providerData: {
+          ...toRecord(payment.providerData),
+          ...(params.returnUrl && { returnUrl: params.returnUrl }),
+        },
+      },
+      include: { client: true, invoice: true },
+    })
+
+    const result = await getPaymentGateway(provider).charge({
+      tenantId: payment.tenantId,
+      paymentId: payment.id,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      description: payment.invoice ? `Factura ${payment.invoice.number}` : `Pago ${payment.reference || payment.id}`,
+      idempotencyKey,
+      capture: params.capture ?? true,
+      paymentMethodToken: providerData.token as string | undefined,
+      customer: {
+        email: payment.client.email,
+        name: payment.client.name,
+        providerCustomerId: providerData.customerId as string | undefined,
+      },
+      returnUrl: params.returnUrl,
+    })
+
+    const updatedPayment = await this.applyChargeResult(pendingPayment, result)
+
+    logger.info('Payment charged through gateway', {
+      operation: 'payment_gateway_charge',
+      tenantId: payment.tenantId,
+      paymentId: payment.id,
+      provider,
+      status: result.status,
+    })
+
+    if (result.status === 'FAILED') {
+      return { success: false, error: result.failureReason || 'Payment was declined', data: updatedPayment }
+    }
+
+    return {
+      success: true,
+      data: {
+        ...updatedPayment,
+        gatewayStatus: result.status,
+        redirectUrl: result.redirectUrl,
+      },
+    }
+  }
+
+  /**
+   * Capture all or part of an authorized payment. A partial capture releases the rest of
+   * the hold and the payment keeps the captured amount.
+   */
+  async capturePayment(params: CapturePaymentParams): Promise<ActionResult<any>> {
+    const payment = await prisma.payment.findFirst({
+      where: {
+        id: params.paymentId,
+        ...(params.tenantId && { tenantId: params.tenantId }),
+      },
+      include: { client: true, invoice: true },
+    })
+
+    if (!payment) {
+      return { success: false, error: 'Payment not found' }
+    }
+
+    if (payment.status !== 'PENDING' || !payment.authorizedAt || !payment.provider || !payment.providerPaymentId) {
+      return { success: false, error: 'Only authorized payments can be captured' }
+    }
+
+    const amount = params.amount ?? Number(payment.amount)
+    if (amount > Number(payment.amount)) {
+      return { success: false, error: 'Capture amount cannot exceed the authorized amount' }
+    }
+
+    const result = await getPaymentGateway(payment.provider).capture({
+      providerPaymentId: payment.providerPaymentId,
+      amount,
+      currency: payment.currency,
+      idempotencyKey: createIdempotencyKey('capture', payment.id, amount),
+      providerData: toRecord(payment.providerData),
+    })
+
+    if (result.status === 'SUCCEEDED' && amount < Number(payment.amount)) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { amount },
+      })
+    }
+
+    const updatedPayment = await this.applyChargeResult(payment, result)
+
+    if (result.status === 'FAILED') {
+      return { success: false, error: result.failureReason || 'Capture failed', data: updatedPayment }
+    }
+
+    return { success: true, data: updatedPayment }
+  }
+
+  /**
+   * Charge an amount owed on an invoice to a saved payment method, as dunning retries do.
+   * The payment is looked up by its idempotency key first, so repeating an attempt reuses
+   * the payment and the gateway returns the original result.
+   */
+  async chargeInvoice(params: ChargeInvoiceParams): Promise<ActionResult<any>> {
+    const paymentMethod = await prisma.storedPaymentMethod.findFirst({
+      where: {
+        id: params.paymentMethodId,
+        tenantId: params.tenantId,
+        isActive: true,
+      },
+    })
+
+    if (!paymentMethod) {
+      return { success: false, error: 'Payment method not found' }
+    }
+
+    if (!isGatewayProvider(paymentMethod.provider)) {
+      return { success: false, error: `No payment gateway is connected for ${paymentMethod.provider}` }
+    }
+
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        id: params.invoiceId,
+        tenantId: params.tenantId,
+      },
+    })
+
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found' }
+    }
+
+    const payment = await prisma.payment.upsert({
+      where: {
+        tenantId_idempotencyKey: {
+          tenantId: params.tenantId,
+          idempotencyKey: params.idempotencyKey,
+        },
+      },
+      create: {
+        tenantId: params.tenantId,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        amount: params.amount,
+        currency: invoice.currency,
+        method: paymentMethod.type,
+        provider: paymentMethod.provider,
+        idempotencyKey: params.idempotencyKey,
+        status: 'PENDING',
+      },
+      update: {},
+    })
+
+    if (payment.status !== 'PENDING') {
+      return payment.status === 'COMPLETED'
+        ? { success: true, data: payment }
+        : { success: false, error: payment.failureReason || 'Payment was declined', data: payment }
+    }
+
+    return await this.chargePayment({
+      paymentId: payment.id,
+      tenantId: params.tenantId,
+      paymentMethodId: paymentMethod.id,
+    })
+  }
+
+  /**
+   * Save a card for future charges. Gateways that enroll cards on their own page return
+   * the page to send the client to, and are called again with the token it returns.
+   */
+  async savePaymentMethod(params: SavePaymentMethodParams): Promise<ActionResult<any>> {
+    if (!isGatewayProvider(params.provider)) {
+      return { success: false, error: `No payment gateway is connected for ${params.provider}` }
+    }
+
+    const client = await prisma.client.findFirst({
+      where: {
+        id: params.clientId,
+        tenantId: params.tenantId,
+      },
+    })
+
+    if (!client) {
+      return { success: false, error: 'Client not found' }
+    }
+
+    // Cards of a client are kept under one customer at the gateway
+    const existingMethod = await prisma.storedPaymentMethod.findFirst({
+      where: {
+        tenantId: params.tenantId,
+        clientId: client.id,
+        provider: params.provider,
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const result = await getPaymentGateway(params.provider).tokenize({
+      tenantId: params.tenantId,
+      customer: {
+        email: client.email,
+        name: client.name,
+        providerCustomerId: toRecord(existingMethod?.providerData).customerId as string | undefined,
+      },
+      cardToken: params.cardToken,
+      returnUrl: params.returnUrl,
+    })
+
+    if (result.status === 'REQUIRES_ACTION') {
+      return { success: true, data: { redirectUrl: result.redirectUrl } }
+    }
+
+    const paymentMethod = await prisma.$transaction(async tx => {
+      if (params.isDefault) {
+        await tx.storedPaymentMethod.updateMany({
+          where: {
+            tenantId: params.tenantId,
+            clientId: client.id,
+          },
+          data: { isDefault: false },
+        })
+      }
+
+      return await tx.storedPaymentMethod.create({
+        data: {
+          tenantId: params.tenantId,
+          clientId: client.id,
+          type: 'CREDIT_CARD',
+          provider: params.provider,
+          providerData: {
+            token: result.token,
+            customerId: result.providerCustomerId,
+          },
+          last4: result.last4,
+          brand: result.brand,
+          expiryMonth: result.expiryMonth,
+          expiryYear: result.expiryYear,
+          isDefault: params.isDefault ?? false,
+        },
+        omit: { providerData: true },
+      })
+    })
+
+    return { success: true, data: paymentMethod }
+  }
+
+  /**
+   * Apply a notification from a gateway to its payment. Each event is processed once;
+   * refunds made on the gateway's side are recorded like refunds made here.
+   */
+  async handleWebhook(provider: PaymentProvider, request: GatewayWebhookRequest): Promise<PaymentWebhookResult> {
+    const event = await getPaymentGateway(provider).parseWebhook(request)
+    if (!event) {
+      return { handled: false }
+    }
+
+    const processed = await prisma.paymentWebhookEvent.findUnique({
+      where: {
+        provider_eventId: {
+          provider,
+          eventId: event.eventId,
+        },
+      },
+    })
+
+    const payment = await prisma.payment.findFirst({
+      where: event.paymentId
+        ? { id: event.paymentId }
+        : { provider, providerPaymentId: event.providerPaymentId ?? '' },
+      include: { client: true, invoice: true },
+    })
+    const returnUrl = event.clientReturn
+      ? toRecord(payment?.providerData).returnUrl as string | undefined
+      : undefined
+
+    if (processed) {
+      return { handled: true, duplicate: true, paymentId: payment?.id, returnUrl }
+    }
+
+    if (!payment) {
+      logger.warn('Payment webhook for unknown payment', {
+        operation: 'payment_webhook',
+        provider,
+        eventId: event.eventId,
+        type: event.type,
+      })
+    } else if (event.refund) {
+      await this.recordGatewayRefund(payment, event.refund)
+    } else if (event.status && ['PENDING', 'FAILED'].includes(payment.status)) {
+      await this.applyChargeResult(payment, { ...event, status: event.status })
+    }
+
+    try {
+      await prisma.paymentWebhookEvent.create({
+        data: {
+          provider,
+          eventId: event.eventId,
+          type: event.type,
+          paymentId: payment?.id,
+          payload: event as unknown as Prisma.InputJsonObject,
+        },
+      })
+    } catch (error: any) {
+      // The same event delivered twice at once, already applied by the other request
+      if (error.code !== 'P2002') throw error
+    }
+
+    logger.info('Payment webhook processed', {
+      operation: 'payment_webhook',
+      provider,
+      eventId: event.eventId,
+      type: event.type,
+      paymentId: payment?.id,
+    })
+
+    return { handled: true, paymentId: payment?.id, returnUrl }
+  }
+
+  /**
+   * Mark an invoice paid once its completed payments cover the total, and lift any
+   * dunning suspension it caused
+   */
+  async settleInvoice(invoiceId: string): Promise<boolean> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true, total: true, status: true },
+    })
+
+    if (!invoice || invoice.status === 'PAID') {
+      return false
+    }
+
+    const totalPaid = await prisma.payment.aggregate({
+      where: {
+        invoiceId: invoice.id,
+        status: 'COMPLETED',
+      },
+      _sum: { amount: true },
+    })
+
+    if (Number(totalPaid._sum.amount || 0) < Number(invoice.total)) {
+      return false
+    }
+
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        status: 'PAID',
+        paidAt: new Date(),
+      },
+    })
+
+    await DunningService.getInstance().resolveInvoice(invoice.id)
+    await WebhookService.getInstance().emitInvoicePaid(invoice.id)
+    return true
+  }
+
+  private async applyChargeResult(payment: GatewayPayment, result: GatewayChargeResult) {
+    const now = new Date()
+
+    const updatedPayment = await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: result.status === 'SUCCEEDED' ? 'COMPLETED' : result.status === 'FAILED' ? 'FAILED' : 'PENDING',
+        providerPaymentId: result.providerPaymentId || payment.providerPaymentId,
+        authorizedAt: result.status === 'AUTHORIZED' ? now : payment.authorizedAt,
+        processedAt: result.status === 'SUCCEEDED' ? now : payment.processedAt,
+        failureReason: result.status === 'FAILED' ? result.failureReason || 'Payment was declined' : null,
+        reference: payment.reference || result.providerPaymentId,
+        providerData: {
+          ...toRecord(payment.providerData),
+          ...result.providerData,
+          ...(result.redirectUrl && { redirectUrl: result.redirectUrl }),
+        } as Prisma.InputJsonObject,
+      },
+      include: {
+        client: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        invoice: {
+          select: {
+            id: true,
+            number: true,
+            total: true,
+            status: true,
+          },
+        },
+      },
+    })
+
+    if (result.status === 'SUCCEEDED') {
+      await WebhookService.getInstance().emitPaymentReceived(payment.id)
+
+      if (payment.invoiceId) {
+        await this.settleInvoice(payment.invoiceId)
+      }
+    }
+
+    return updatedPayment
+  }
+
+  private async recordGatewayRefund(
+    payment: GatewayPayment,
+    refund: { providerRefundId: string; amount: number }
+  ) {
+    // Refunds issued from here are already recorded under the gateway's refund ID
+    const recorded = await prisma.payment.count({
+      where: {
+        provider: payment.provider,
+        providerPaymentId: refund.providerRefundId,
+      },
+    })
+
+    if (recorded > 0) {
+      return
+    }
+
+    const result = await PaymentRefundService.getInstance().refundPayment({
+      paymentId: payment.id,
+      tenantId: payment.tenantId,
+      refundAmount: refund.amount,
+      reason: 'Reembolso realizado en la pasarela de pago',
+      providerRefundId: refund.providerRefundId,
+    })
+
+    if (!result.success) {
+      logger.warn('Gateway refund could not be recorded', {
+        operation: 'payment_webhook',
+        tenantId: payment.tenantId,
+        paymentId: payment.id,
+        providerRefundId: refund.providerRefundId,
+        error: result.error,
+      })
+    }
+  }
+}
+
+function toRecord(value: Prisma.JsonValue | undefined): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
@@ -0,0 +1,108 @@
+import { createHmac } from 'crypto'
+import type { PaymentProvider } from '@prisma/client'
+import {
+  PaymentWebhookSignatureError,
+  type GatewayCaptureRequest,
+  type GatewayChargeRequest,
+  type GatewayChargeResult,
+  type GatewayRefundRequest,
+  type GatewayRefundResult,
+  type GatewayTokenizeRequest,
+  type GatewayTokenizeResult,
+  type GatewayWebhookEvent,
+  type GatewayWebhookRequest,
+  type PaymentGateway,
+} from './types'
+
+// Card tokens that make the fake gateway misbehave the way real cards do
+export const FAKE_DECLINED_TOKEN = 'fake_declined'
+export const FAKE_REQUIRES_ACTION_TOKEN = 'fake_requires_action'
+
+/**
+ * In-memory gateway for development and tests, used for every provider when
+ * PAYMENT_GATEWAY_MODE=fake. Repeated idempotency keys return the first result, and
+ * webhooks are signed with an HMAC of the body in the x-fake-signature header.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  private results = new Map<string, GatewayChargeResult | GatewayRefundResult>()
+  private sequence = 0
+
+  constructor(readonly provider: PaymentProvider) {}
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    return this.once(request.idempotencyKey, () => {
+      const providerPaymentId = this.nextId('pay')
+
+      if (request.paymentMethodToken === FAKE_DECLINED_TOKEN) {
+        return { status: 'FAILED', providerPaymentId, failureReason: 'Card declined' }
+      }
+
+      // Without a saved card, or when the bank asks for 3-D Secure, the client finishes on a hosted page
+      if (!request.paymentMethodToken || request.paymentMethodToken === FAKE_REQUIRES_ACTION_TOKEN) {
+        const redirectUrl = new URL(request.returnUrl || 'http://localhost:3000/billing')
+        redirectUrl.searchParams.set('fake_payment', providerPaymentId)
+        return { status: 'REQUIRES_ACTION', providerPaymentId, redirectUrl: redirectUrl.toString() }
+      }
+
+      return {
+        status: request.capture ? 'SUCCEEDED' : 'AUTHORIZED',
+        providerPaymentId,
+        providerData: { amount: request.amount },
+      }
+    })
+  }
+
+  async capture(request: GatewayCaptureRequest): Promise<GatewayChargeResult> {
+    return this.once(request.idempotencyKey, () => ({
+      status: 'SUCCEEDED',
+      providerPaymentId: request.providerPaymentId,
+      providerData: { ...request.providerData, capturedAmount: request.amount },
+    }))
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    return this.once(request.idempotencyKey, () => ({
+      status: 'SUCCEEDED',
+      providerRefundId: this.nextId('re'),
+    }))
+  }
+
+  async tokenize(request: GatewayTokenizeRequest): Promise<GatewayTokenizeResult> {
+    return {
+      status: 'COMPLETED',
+      token: request.cardToken || this.nextId('card'),
+      providerCustomerId: request.customer.providerCustomerId || this.nextId('cus'),
+      last4: '4242',
+      brand: 'Visa',
+      expiryMonth: 12,
+      expiryYear: new Date().getFullYear() + 3,
+    }
+  }
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent | null> {
+    const signature = request.headers.get('x-fake-signature') || ''
+    if (signature !== signFakeWebhook(request.body)) {
+      throw new PaymentWebhookSignatureError(this.provider)
+    }
+
+    const event = JSON.parse(request.body) as GatewayWebhookEvent
+    return event.eventId ? event : null
+  }
+
+  private once<T extends GatewayChargeResult | GatewayRefundResult>(key: string, run: () => T): T {
+    if (!this.results.has(key)) {
+      this.results.set(key, run())
+    }
+    return this.results.get(key) as T
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1
+    return `fake_${prefix}_${Date.now()}_${this.sequence}`
+  }
+}
+
+export function signFakeWebhook(body: string): string {
+  const secret = process.env.FAKE_GATEWAY_WEBHOOK_SECRET || 'fake_webhook_secret'
+  return createHmac('sha256', secret).update(body).digest('hex')
+}
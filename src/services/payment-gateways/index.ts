@@ -0,0 +1,46 @@
+import type { PaymentProvider } from '@prisma/client'
+import { FakePaymentGateway } from './fake.gateway'
+import { MercadoPagoGateway } from './mercado-pago.gateway'
+import { StripeGateway } from './stripe.gateway'
+import { TransbankGateway } from './transbank.gateway'
+import type { PaymentGateway } from './types'
+
+export * from './types'
+export { FakePaymentGateway, FAKE_DECLINED_TOKEN, FAKE_REQUIRES_ACTION_TOKEN, signFakeWebhook } from './fake.gateway'
+
+const gateways = new Map<PaymentProvider, PaymentGateway>()
+const fakeGateways = new Map<PaymentProvider, FakePaymentGateway>()
+
+export function registerPaymentGateway(gateway: PaymentGateway) {
+  gateways.set(gateway.provider, gateway)
+}
+
+export function isGatewayProvider(provider: PaymentProvider): boolean {
+  return gateways.has(provider)
+}
+
+/**
+ * Gateway charging through the provider. With PAYMENT_GATEWAY_MODE=fake every provider
+ * is served by an in-memory fake, so nothing leaves the machine in development and tests.
+ */
+export function getPaymentGateway(provider: PaymentProvider): PaymentGateway {
+  const gateway = gateways.get(provider)
+  if (!gateway) {
+    throw new Error(`Payment gateway "${provider}" is not registered`)
+  }
+
+  if (process.env.PAYMENT_GATEWAY_MODE === 'fake') {
+    let fakeGateway = fakeGateways.get(provider)
+    if (!fakeGateway) {
+      fakeGateway = new FakePaymentGateway(provider)
+      fakeGateways.set(provider, fakeGateway)
+    }
+    return fakeGateway
+  }
+
+  return gateway
+}
+
+registerPaymentGateway(new StripeGateway())
+registerPaymentGateway(new MercadoPagoGateway())
+registerPaymentGateway(new TransbankGateway())
@@ -0,0 +1,210 @@
+import { verifyMercadoPagoSignature } from '@/lib/utils/payment-gateway'
+import {
+  PaymentGatewayRequestError,
+  PaymentWebhookSignatureError,
+  type GatewayCaptureRequest,
+  type GatewayChargeRequest,
+  type GatewayChargeResult,
+  type GatewayChargeStatus,
+  type GatewayRefundRequest,
+  type GatewayRefundResult,
+  type GatewayTokenizeRequest,
+  type GatewayTokenizeResult,
+  type GatewayWebhookEvent,
+  type GatewayWebhookRequest,
+  type PaymentGateway,
+} from './types'
+
+const MERCADO_PAGO_API_URL = 'https://api.mercadopago.com'
+
+/**
+ * Mercado Pago through its REST API: card payments for saved cards, Checkout Pro when
+ * the client pays on Mercado Pago's page. Needs MERCADO_PAGO_ACCESS_TOKEN and
+ * MERCADO_PAGO_WEBHOOK_SECRET.
+ */
+export class MercadoPagoGateway implements PaymentGateway {
+  readonly provider = 'MERCADO_PAGO' as const
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    const metadata = { payment_id: request.paymentId, tenant_id: request.tenantId }
+
+    if (!request.paymentMethodToken) {
+      const preference = await this.request('POST', '/checkout/preferences', {
+        items: [{
+          title: request.description,
+          quantity: 1,
+          unit_price: request.amount,
+          currency_id: request.currency,
+        }],
+        payer: { email: request.customer.email, name: request.customer.name },
+        external_reference: request.paymentId,
+        metadata,
+        ...(request.returnUrl && {
+          back_urls: { success: request.returnUrl, pending: request.returnUrl, failure: request.returnUrl },
+          auto_return: 'approved',
+        }),
+      }, request.idempotencyKey)
+
+      return {
+        status: 'REQUIRES_ACTION',
+        redirectUrl: preference.init_point,
+        providerData: { preferenceId: preference.id },
+      }
+    }
+
+    // Saved cards are charged with a one-time token issued for the customer's card
+    const customerId = request.customer.providerCustomerId
+    const cardToken = customerId
+      ? (await this.request('POST', '/v1/card_tokens', { card_id: request.paymentMethodToken, customer_id: customerId })).id
+      : request.paymentMethodToken
+
+    const payment = await this.request('POST', '/v1/payments', {
+      transaction_amount: request.amount,
+      token: cardToken,
+      description: request.description,
+      installments: 1,
+      capture: request.capture,
+      external_reference: request.paymentId,
+      metadata,
+      payer: customerId
+        ? { type: 'customer', id: customerId }
+        : { email: request.customer.email },
+    }, request.idempotencyKey)
+
+    return toChargeResult(payment)
+  }
+
+  async capture(request: GatewayCaptureRequest): Promise<GatewayChargeResult> {
+    const payment = await this.request('PUT', `/v1/payments/${request.providerPaymentId}`, {
+      capture: true,
+      transaction_amount: request.amount,
+    }, request.idempotencyKey)
+
+    return toChargeResult(payment)
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const refund = await this.request('POST', `/v1/payments/${request.providerPaymentId}/refunds`, {
+      amount: request.amount,
+    }, request.idempotencyKey)
+
+    return {
+      status: refund.status === 'approved' ? 'SUCCEEDED' : refund.status === 'rejected' ? 'FAILED' : 'PENDING',
+      providerRefundId: String(refund.id),
+      failureReason: refund.status === 'rejected' ? 'Refund rejected by Mercado Pago' : undefined,
+    }
+  }
+
+  async tokenize(request: GatewayTokenizeRequest): Promise<GatewayTokenizeResult> {
+    if (!request.cardToken) {
+      throw new Error('Mercado Pago cards are saved from a token created with the card form')
+    }
+
+    let customerId = request.customer.providerCustomerId
+    if (!customerId) {
+      const customer = await this.request('POST', '/v1/customers', {
+        email: request.customer.email,
+        first_name: request.customer.name,
+      })
+      customerId = customer.id as string
+    }
+
+    const card = await this.request('POST', `/v1/customers/${customerId}/cards`, { token: request.cardToken })
+
+    return {
+      status: 'COMPLETED',
+      token: String(card.id),
+      providerCustomerId: customerId,
+      last4: card.last_four_digits,
+      brand: card.payment_method?.name,
+      expiryMonth: card.expiration_month,
+      expiryYear: card.expiration_year,
+    }
+  }
+
+  /**
+   * Notifications only carry the payment ID, so the payment is read back from the API
+   */
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent | null> {
+    const secret = process.env.MERCADO_PAGO_WEBHOOK_SECRET
+    const signature = request.headers.get('x-signature')
+    const url = new URL(request.url)
+    const dataId = url.searchParams.get('data.id')
+
+    if (!secret || !signature || !verifyMercadoPagoSignature(signature, secret, {
+      dataId,
+      requestId: request.headers.get('x-request-id'),
+    })) {
+      throw new PaymentWebhookSignatureError(this.provider)
+    }
+
+    const notification = JSON.parse(request.body || '{}')
+    const paymentId = dataId || notification.data?.id
+    if (notification.type !== 'payment' || !paymentId) {
+      return null
+    }
+
+    const payment = await this.request('GET', `/v1/payments/${paymentId}`)
+    const base = {
+      eventId: `${notification.id || paymentId}:${payment.status}:${payment.date_last_updated}`,
+      type: `payment.${payment.status}`,
+      paymentId: payment.external_reference || payment.metadata?.payment_id,
+    }
+
+    // Refunds made from the Mercado Pago dashboard show up as refunds of the payment
+    const refund = payment.refunds?.[payment.refunds.length - 1]
+    if (refund && (payment.status === 'refunded' || payment.status_detail === 'partially_refunded')) {
+      return {
+        ...base,
+        providerPaymentId: String(payment.id),
+        refund: { providerRefundId: String(refund.id), amount: Number(refund.amount) },
+      }
+    }
+
+    return { ...base, ...toChargeResult(payment) }
+  }
+
+  private async request(method: 'GET' | 'POST' | 'PUT', path: string, body?: object, idempotencyKey?: string): Promise<any> {
+    const accessToken = process.env.MERCADO_PAGO_ACCESS_TOKEN
+    if (!accessToken) {
+      throw new Error('Mercado Pago is not configured')
+    }
+
+    const response = await fetch(`${MERCADO_PAGO_API_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        ...(idempotencyKey && { 'X-Idempotency-Key': idempotencyKey }),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new PaymentGatewayRequestError(this.provider, response.status, data.message || 'Unknown error')
+    }
+
+    return data
+  }
+}
+
+function toChargeResult(payment: any): GatewayChargeResult {
+  const statuses: Record<string, GatewayChargeStatus> = {
+    approved: 'SUCCEEDED',
+    authorized: 'AUTHORIZED',
+    pending: 'PENDING',
+    in_process: 'PENDING',
+    in_mediation: 'PENDING',
+    rejected: 'FAILED',
+    cancelled: 'FAILED',
+  }
+  const status = statuses[payment.status] || 'PENDING'
+
+  return {
+    status,
+    providerPaymentId: String(payment.id),
+    failureReason: status === 'FAILED' ? payment.status_detail || 'Payment rejected' : undefined,
+    providerData: { statusDetail: payment.status_detail },
+  }
+}
@@ -0,0 +1,227 @@
+import { fromMinorUnits, toMinorUnits, verifyStripeSignature } from '@/lib/utils/payment-gateway'
+import {
+  PaymentGatewayRequestError,
+  PaymentWebhookSignatureError,
+  type GatewayCaptureRequest,
+  type GatewayChargeRequest,
+  type GatewayChargeResult,
+  type GatewayChargeStatus,
+  type GatewayRefundRequest,
+  type GatewayRefundResult,
+  type GatewayTokenizeRequest,
+  type GatewayTokenizeResult,
+  type GatewayWebhookEvent,
+  type GatewayWebhookRequest,
+  type PaymentGateway,
+} from './types'
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1'
+
+type StripeParams = Record<string, string | number | boolean | undefined>
+
+/**
+ * Stripe through its REST API: PaymentIntents for saved cards, Checkout Sessions when the
+ * client pays on Stripe's page. Needs STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET.
+ */
+export class StripeGateway implements PaymentGateway {
+  readonly provider = 'STRIPE' as const
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    const metadata = {
+      'metadata[paymentId]': request.paymentId,
+      'metadata[tenantId]': request.tenantId,
+    }
+
+    if (!request.paymentMethodToken) {
+      const session = await this.request('POST', '/checkout/sessions', {
+        mode: 'payment',
+        'line_items[0][quantity]': 1,
+        'line_items[0][price_data][currency]': request.currency.toLowerCase(),
+        'line_items[0][price_data][unit_amount]': toMinorUnits(request.amount, request.currency),
+        'line_items[0][price_data][product_data][name]': request.description,
+        customer: request.customer.providerCustomerId,
+        customer_email: request.customer.providerCustomerId ? undefined : request.customer.email,
+        client_reference_id: request.paymentId,
+        success_url: request.returnUrl,
+        cancel_url: request.returnUrl,
+        'payment_intent_data[capture_method]': request.capture ? 'automatic' : 'manual',
+        'payment_intent_data[metadata][paymentId]': request.paymentId,
+        'payment_intent_data[metadata][tenantId]': request.tenantId,
+        ...metadata,
+      }, request.idempotencyKey)
+
+      return {
+        status: 'REQUIRES_ACTION',
+        redirectUrl: session.url,
+        providerData: { checkoutSessionId: session.id },
+      }
+    }
+
+    const intent = await this.request('POST', '/payment_intents', {
+      amount: toMinorUnits(request.amount, request.currency),
+      currency: request.currency.toLowerCase(),
+      customer: request.customer.providerCustomerId,
+      payment_method: request.paymentMethodToken,
+      description: request.description,
+      capture_method: request.capture ? 'automatic' : 'manual',
+      confirm: true,
+      // Saved cards are charged without the client, unless a return page is given for 3-D Secure
+      ...(request.returnUrl ? { return_url: request.returnUrl } : { off_session: true }),
+      ...metadata,
+    }, request.idempotencyKey, true)
+
+    return toChargeResult(intent)
+  }
+
+  async capture(request: GatewayCaptureRequest): Promise<GatewayChargeResult> {
+    const intent = await this.request('POST', `/payment_intents/${request.providerPaymentId}/capture`, {
+      amount_to_capture: toMinorUnits(request.amount, request.currency),
+    }, request.idempotencyKey)
+
+    return toChargeResult(intent)
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const refund = await this.request('POST', '/refunds', {
+      payment_intent: request.providerPaymentId,
+      amount: toMinorUnits(request.amount, request.currency),
+      reason: 'requested_by_customer',
+      'metadata[reason]': request.reason?.slice(0, 500),
+    }, request.idempotencyKey)
+
+    return {
+      status: refund.status === 'succeeded' ? 'SUCCEEDED' : refund.status === 'failed' ? 'FAILED' : 'PENDING',
+      providerRefundId: refund.id,
+      failureReason: refund.failure_reason,
+    }
+  }
+
+  async tokenize(request: GatewayTokenizeRequest): Promise<GatewayTokenizeResult> {
+    if (!request.cardToken) {
+      throw new Error('Stripe cards are saved from a payment method created with Stripe.js')
+    }
+
+    let customerId = request.customer.providerCustomerId
+    if (!customerId) {
+      const customer = await this.request('POST', '/customers', {
+        email: request.customer.email,
+        name: request.customer.name,
+        'metadata[tenantId]': request.tenantId,
+      })
+      customerId = customer.id as string
+    }
+
+    const paymentMethod = await this.request('POST', `/payment_methods/${request.cardToken}/attach`, {
+      customer: customerId,
+    })
+
+    return {
+      status: 'COMPLETED',
+      token: paymentMethod.id,
+      providerCustomerId: customerId,
+      last4: paymentMethod.card?.last4,
+      brand: paymentMethod.card?.brand,
+      expiryMonth: paymentMethod.card?.exp_month,
+      expiryYear: paymentMethod.card?.exp_year,
+    }
+  }
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent | null> {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET
+    const signature = request.headers.get('stripe-signature')
+
+    if (!secret || !signature || !verifyStripeSignature(request.body, signature, secret)) {
+      throw new PaymentWebhookSignatureError(this.provider)
+    }
+
+    const event = JSON.parse(request.body)
+    const object = event.data?.object || {}
+    const base = { eventId: event.id as string, type: event.type as string }
+
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+      case 'payment_intent.amount_capturable_updated':
+      case 'payment_intent.processing':
+      case 'payment_intent.payment_failed':
+      case 'payment_intent.canceled':
+        return { ...base, ...toChargeResult(object), paymentId: object.metadata?.paymentId }
+      case 'refund.created':
+      case 'refund.updated':
+      case 'charge.refund.updated':
+        if (object.status !== 'succeeded') return null
+        return {
+          ...base,
+          providerPaymentId: object.payment_intent,
+          refund: {
+            providerRefundId: object.id,
+            amount: fromMinorUnits(object.amount, object.currency),
+          },
+        }
+      default:
+        return null
+    }
+  }
+
+  private async request(
+    method: 'GET' | 'POST',
+    path: string,
+    params: StripeParams = {},
+    idempotencyKey?: string,
+    allowDeclines: boolean = false
+  ): Promise<any> {
+    const secretKey = process.env.STRIPE_SECRET_KEY
+    if (!secretKey) {
+      throw new Error('Stripe is not configured')
+    }
+
+    const body = new URLSearchParams()
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) body.set(key, String(value))
+    }
+
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+      },
+      body: method === 'POST' ? body : undefined,
+    })
+    const data = await response.json()
+
+    // Declined cards come back as 402 with the failed PaymentIntent attached
+    if (response.status === 402 && allowDeclines && data.error?.payment_intent) {
+      return { ...data.error.payment_intent, last_payment_error: data.error }
+    }
+
+    if (!response.ok) {
+      throw new PaymentGatewayRequestError(this.provider, response.status, data.error?.message || 'Unknown error')
+    }
+
+    return data
+  }
+}
+
+function toChargeResult(intent: any): GatewayChargeResult {
+  const statuses: Record<string, GatewayChargeStatus> = {
+    succeeded: 'SUCCEEDED',
+    requires_capture: 'AUTHORIZED',
+    processing: 'PENDING',
+    requires_action: 'REQUIRES_ACTION',
+    requires_confirmation: 'REQUIRES_ACTION',
+    requires_payment_method: 'FAILED',
+    canceled: 'FAILED',
+  }
+  const status = statuses[intent.status] || 'PENDING'
+
+  return {
+    status,
+    providerPaymentId: intent.id,
+    redirectUrl: intent.next_action?.redirect_to_url?.url,
+    failureReason: status === 'FAILED'
+      ? intent.last_payment_error?.message || intent.cancellation_reason || 'Payment failed'
+      : undefined,
+    providerData: { latestCharge: intent.latest_charge, amountReceived: intent.amount_received },
+  }
+}
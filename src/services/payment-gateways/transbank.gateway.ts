@@ -0,0 +1,252 @@
+import {
+  PaymentGatewayRequestError,
+  PaymentWebhookSignatureError,
+  type GatewayCaptureRequest,
+  type GatewayChargeRequest,
+  type GatewayChargeResult,
+  type GatewayRefundRequest,
+  type GatewayRefundResult,
+  type GatewayTokenizeRequest,
+  type GatewayTokenizeResult,
+  type GatewayWebhookEvent,
+  type GatewayWebhookRequest,
+  type PaymentGateway,
+} from './types'
+
+const TRANSBANK_API_URLS = {
+  integration: 'https://webpay3gint.transbank.cl',
+  production: 'https://webpay3g.transbank.cl',
+}
+const WEBPAY_PATH = '/rswebpaytransaction/api/webpay/v1.2'
+const ONECLICK_PATH = '/rswebpaytransaction/api/oneclick/v1.2'
+
+type TransbankProduct = 'webpay' | 'oneclick'
+
+/**
+ * Transbank through its REST API: Webpay Plus when the client pays on Transbank's page and
+ * Oneclick Mall for enrolled cards. Needs TRANSBANK_COMMERCE_CODE and TRANSBANK_API_KEY,
+ * plus the TRANSBANK_ONECLICK_* codes for saved cards.
+ *
+ * Transbank has no idempotency keys: the buy order, which is the payment ID, is unique per
+ * commerce and a repeated one is rejected. It does not send signed notifications either;
+ * the client's browser returns with the transaction token, and the result is only trusted
+ * after committing that token against the API with the commerce credentials.
+ */
+export class TransbankGateway implements PaymentGateway {
+  readonly provider = 'TRANSBANK' as const
+
+  async charge(request: GatewayChargeRequest): Promise<GatewayChargeResult> {
+    if (!request.capture && process.env.TRANSBANK_DEFERRED_CAPTURE !== 'true') {
+      return { status: 'FAILED', failureReason: 'The Transbank commerce code does not allow deferred capture' }
+    }
+
+    if (!request.paymentMethodToken) {
+      // Webpay sends the client back to the webhook, which commits the transaction and then
+      // redirects to the return URL kept with the payment
+      const transaction = await this.request('webpay', 'POST', '/transactions', {
+        buy_order: request.paymentId,
+        session_id: request.tenantId.slice(0, 61),
+        amount: Math.round(request.amount),
+        return_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/webhooks/payments/transbank`,
+      })
+      const redirectUrl = new URL(transaction.url)
+      redirectUrl.searchParams.set('token_ws', transaction.token)
+
+      return {
+        status: 'REQUIRES_ACTION',
+        providerPaymentId: transaction.token,
+        redirectUrl: redirectUrl.toString(),
+        providerData: { product: 'webpay', buyOrder: request.paymentId },
+      }
+    }
+
+    const detailBuyOrder = `C${request.paymentId}`
+    const transaction = await this.request('oneclick', 'POST', '/transactions', {
+      username: request.customer.providerCustomerId,
+      tbk_user: request.paymentMethodToken,
+      buy_order: request.paymentId,
+      details: [{
+        commerce_code: process.env.TRANSBANK_ONECLICK_CHILD_COMMERCE_CODE,
+        buy_order: detailBuyOrder,
+        amount: Math.round(request.amount),
+        installments_number: 1,
+      }],
+    })
+    const detail = transaction.details?.[0] || {}
+    const approved = detail.response_code === 0 && detail.status === 'AUTHORIZED'
+
+    return {
+      status: approved ? (request.capture ? 'SUCCEEDED' : 'AUTHORIZED') : 'FAILED',
+      providerPaymentId: request.paymentId,
+      failureReason: approved ? undefined : `Transaction rejected (code ${detail.response_code})`,
+      providerData: {
+        product: 'oneclick',
+        buyOrder: request.paymentId,
+        detailBuyOrder,
+        authorizationCode: detail.authorization_code,
+      },
+    }
+  }
+
+  async capture(request: GatewayCaptureRequest): Promise<GatewayChargeResult> {
+    const product = (request.providerData.product as TransbankProduct) || 'webpay'
+    const amount = Math.round(request.amount)
+
+    const result = product === 'oneclick'
+      ? await this.request('oneclick', 'PUT', '/transactions/capture', {
+        commerce_code: process.env.TRANSBANK_ONECLICK_CHILD_COMMERCE_CODE,
+        buy_order: request.providerData.detailBuyOrder,
+        authorization_code: request.providerData.authorizationCode,
+        capture_amount: amount,
+      })
+      : await this.request('webpay', 'PUT', `/transactions/${request.providerPaymentId}/capture`, {
+        buy_order: request.providerData.buyOrder,
+        authorization_code: request.providerData.authorizationCode,
+        capture_amount: amount,
+      })
+
+    return {
+      status: result.response_code === 0 ? 'SUCCEEDED' : 'FAILED',
+      providerPaymentId: request.providerPaymentId,
+      failureReason: result.response_code === 0 ? undefined : `Capture rejected (code ${result.response_code})`,
+      providerData: { ...request.providerData, capturedAmount: result.captured_amount },
+    }
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const product = (request.providerData.product as TransbankProduct) || 'webpay'
+    const amount = Math.round(request.amount)
+
+    const result = product === 'oneclick'
+      ? await this.request('oneclick', 'POST', `/transactions/${request.providerPaymentId}/refunds`, {
+        commerce_code: process.env.TRANSBANK_ONECLICK_CHILD_COMMERCE_CODE,
+        detail_buy_order: request.providerData.detailBuyOrder,
+        amount,
+      })
+      : await this.request('webpay', 'POST', `/transactions/${request.providerPaymentId}/refunds`, { amount })
+
+    // Same-day refunds are reversed and have no refund authorization of their own
+    const approved = result.type === 'REVERSED' || result.response_code === 0
+    return {
+      status: approved ? 'SUCCEEDED' : 'FAILED',
+      providerRefundId: result.authorization_code || `${request.providerPaymentId}:${result.type}:${amount}`,
+      failureReason: approved ? undefined : `Refund rejected (code ${result.response_code})`,
+    }
+  }
+
+  /**
+   * Oneclick enrolls cards on Transbank's page: the first call returns the enrollment page,
+   * the second finishes it with the TBK_TOKEN the client comes back with
+   */
+  async tokenize(request: GatewayTokenizeRequest): Promise<GatewayTokenizeResult> {
+    const username = request.customer.providerCustomerId || request.customer.email
+
+    if (!request.cardToken) {
+      if (!request.returnUrl) {
+        throw new Error('Oneclick enrollment needs a return URL')
+      }
+
+      const inscription = await this.request('oneclick', 'POST', '/inscriptions', {
+        username,
+        email: request.customer.email,
+        response_url: request.returnUrl,
+      })
+      const redirectUrl = new URL(inscription.url_webpay)
+      redirectUrl.searchParams.set('TBK_TOKEN', inscription.token)
+
+      return { status: 'REQUIRES_ACTION', providerCustomerId: username, redirectUrl: redirectUrl.toString() }
+    }
+
+    const inscription = await this.request('oneclick', 'PUT', `/inscriptions/${request.cardToken}`)
+    if (inscription.response_code !== 0) {
+      throw new Error(`Oneclick enrollment rejected (code ${inscription.response_code})`)
+    }
+
+    return {
+      status: 'COMPLETED',
+      token: inscription.tbk_user,
+      providerCustomerId: username,
+      last4: String(inscription.card_number || '').slice(-4),
+      brand: inscription.card_type,
+    }
+  }
+
+  async parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent | null> {
+    const params = new URL(request.url).searchParams
+    new URLSearchParams(request.body).forEach((value, key) => params.set(key, value))
+
+    const token = params.get('token_ws')
+    const abortedToken = params.get('TBK_TOKEN')
+
+    // Payment timed out on Transbank's page; there is no token to verify, so the payment stays pending
+    if (!token && !abortedToken) {
+      const buyOrder = params.get('TBK_ORDEN_COMPRA')
+      return buyOrder ? { eventId: `timeout:${buyOrder}`, type: 'webpay.timeout', paymentId: buyOrder, clientReturn: true } : null
+    }
+
+    let transaction: any
+    try {
+      transaction = token
+        // Committing twice fails, so a reloaded return page reads the result instead
+        ? await this.request('webpay', 'PUT', `/transactions/${token}`).catch(() => this.request('webpay', 'GET', `/transactions/${token}`))
+        : await this.request('webpay', 'GET', `/transactions/${abortedToken}`)
+    } catch {
+      throw new PaymentWebhookSignatureError(this.provider)
+    }
+
+    const approved = Boolean(token) && transaction.response_code === 0 && transaction.status === 'AUTHORIZED'
+    const deferred = process.env.TRANSBANK_DEFERRED_CAPTURE === 'true'
+
+    return {
+      eventId: `webpay:${token || abortedToken}:${transaction.status}`,
+      type: `webpay.${String(transaction.status).toLowerCase()}`,
+      paymentId: transaction.buy_order,
+      providerPaymentId: token || abortedToken || undefined,
+      status: approved ? (deferred ? 'AUTHORIZED' : 'SUCCEEDED') : 'FAILED',
+      failureReason: approved
+        ? undefined
+        : token ? `Transaction rejected (code ${transaction.response_code})` : 'Payment cancelled by the client',
+      providerData: {
+        product: 'webpay',
+        buyOrder: transaction.buy_order,
+        authorizationCode: transaction.authorization_code,
+        cardNumber: transaction.card_detail?.card_number,
+      },
+      clientReturn: true,
+    }
+  }
+
+  private async request(product: TransbankProduct, method: 'GET' | 'POST' | 'PUT', path: string, body?: object): Promise<any> {
+    const commerceCode = product === 'oneclick'
+      ? process.env.TRANSBANK_ONECLICK_COMMERCE_CODE
+      : process.env.TRANSBANK_COMMERCE_CODE
+    const apiKey = product === 'oneclick'
+      ? process.env.TRANSBANK_ONECLICK_API_KEY
+      : process.env.TRANSBANK_API_KEY
+
+    if (!commerceCode || !apiKey) {
+      throw new Error('Transbank is not configured')
+    }
+
+    const baseUrl = process.env.TRANSBANK_ENVIRONMENT === 'production'
+      ? TRANSBANK_API_URLS.production
+      : TRANSBANK_API_URLS.integration
+
+    const response = await fetch(`${baseUrl}${product === 'oneclick' ? ONECLICK_PATH : WEBPAY_PATH}${path}`, {
+      method,
+      headers: {
+        'Tbk-Api-Key-Id': commerceCode,
+        'Tbk-Api-Key-Secret': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    const data = response.status === 204 ? {} : await response.json()
+
+    if (!response.ok) {
+      throw new PaymentGatewayRequestError(this.provider, response.status, data.error_message || 'Unknown error')
+    }
+
+    return data
+  }
+}
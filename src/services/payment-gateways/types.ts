@@ -0,0 +1,123 @@
+import type { PaymentProvider } from '@prisma/client'
+
+export type GatewayChargeStatus = 'SUCCEEDED' | 'AUTHORIZED' | 'PENDING' | 'REQUIRES_ACTION' | 'FAILED'
+
+export interface GatewayCustomer {
+  email: string
+  name: string
+  providerCustomerId?: string // Customer at the gateway the saved card belongs to
+}
+
+export interface GatewayChargeRequest {
+  tenantId: string
+  paymentId: string // Sent to the gateway as metadata and echoed back in webhooks
+  amount: number
+  currency: string
+  description: string
+  idempotencyKey: string
+  capture: boolean // Only authorize the amount when false
+  paymentMethodToken?: string // Saved card, charged without the client present
+  customer: GatewayCustomer
+  returnUrl?: string // Where hosted checkouts send the client back
+}
+
+export interface GatewayChargeResult {
+  status: GatewayChargeStatus
+  providerPaymentId?: string
+  redirectUrl?: string // Hosted checkout or 3-D Secure page the client has to complete
+  failureReason?: string
+  providerData?: Record<string, unknown> // Kept with the payment for captures and refunds
+}
+
+export interface GatewayCaptureRequest {
+  providerPaymentId: string
+  amount: number
+  currency: string
+  idempotencyKey: string
+  providerData: Record<string, unknown>
+}
+
+export interface GatewayRefundRequest {
+  providerPaymentId: string
+  amount: number
+  currency: string
+  idempotencyKey: string
+  providerData: Record<string, unknown>
+  reason?: string
+}
+
+export interface GatewayRefundResult {
+  status: 'SUCCEEDED' | 'PENDING' | 'FAILED'
+  providerRefundId?: string
+  failureReason?: string
+}
+
+export interface GatewayTokenizeRequest {
+  tenantId: string
+  customer: GatewayCustomer
+  cardToken?: string // Created in the browser by the gateway's card form; card numbers never reach the server
+  returnUrl?: string
+}
+
+export interface GatewayTokenizeResult {
+  status: 'COMPLETED' | 'REQUIRES_ACTION'
+  token?: string // Reusable reference to the saved card
+  providerCustomerId?: string
+  redirectUrl?: string // Enrollment page for gateways that save cards on their own site
+  last4?: string
+  brand?: string
+  expiryMonth?: number
+  expiryYear?: number
+}
+
+export interface GatewayWebhookRequest {
+  body: string // Raw body, signatures are computed over the exact bytes received
+  headers: Headers
+  url: string
+}
+
+export interface GatewayWebhookEvent {
+  eventId: string
+  type: string
+  paymentId?: string
+  providerPaymentId?: string
+  status?: GatewayChargeStatus
+  failureReason?: string
+  refund?: {
+    providerRefundId: string
+    amount: number
+  }
+  providerData?: Record<string, unknown>
+  clientReturn?: boolean // Sent by the client's browser coming back from the gateway
+}
+
+/**
+ * A payment provider the billing module charges through. Adapters translate between
+ * payments and the provider's API; they never touch the database.
+ */
+export interface PaymentGateway {
+  readonly provider: PaymentProvider
+  charge(request: GatewayChargeRequest): Promise<GatewayChargeResult>
+  capture(request: GatewayCaptureRequest): Promise<GatewayChargeResult>
+  refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>
+  tokenize(request: GatewayTokenizeRequest): Promise<GatewayTokenizeResult>
+  /**
+   * Verify and read a notification from the provider. Returns null for events that do
+   * not concern payments and throws PaymentWebhookSignatureError for forged requests.
+   */
+  parseWebhook(request: GatewayWebhookRequest): Promise<GatewayWebhookEvent | null>
+}
+
+export class PaymentWebhookSignatureError extends Error {
+  constructor(provider: PaymentProvider) {
+    super(`Invalid ${provider} webhook signature`)
+    this.name = 'PaymentWebhookSignatureError'
+  }
+}
+
+export class PaymentGatewayRequestError extends Error {
+  constructor(provider: PaymentProvider, status: number, message: string) {
+    super(`${provider} request failed (${status}): ${message}`)
+    this.name = 'PaymentGatewayRequestError'
+  }
+}
@@ -0,0 +1,368 @@
+import prisma from '@/lib/server/prisma'
+import { logger } from '@/lib/logger'
+import type { ActionResult } from '@/types/database'
+import {
+  DEFAULT_PAYMENT_LINK_EXPIRY_DAYS,
+  PAYABLE_INVOICE_STATUSES,
+  calculateInvoiceBalance,
+  calculatePaymentLinkExpiry,
+  generatePaymentLinkToken,
+  getPaymentLinkStatus,
+  validatePaymentAmount,
+} from '@/lib/utils/payment-link'
+import { PaymentGatewayService } from '@/services/payment-gateway.service'
+
+export interface CreatePaymentLinkParams {
+  tenantId: string
+  invoiceId: string
+  createdById?: string
+  regenerate?: boolean // Revoke the active link and issue a new one
+}
+
+export interface PayInvoiceOnlineParams {
+  token: string
+  amount: number
+  returnUrl: string
+}
+
+export interface ReportBankTransferParams {
+  token: string
+  amount: number
+  reference: string
+}
+
+export class PaymentLinkService {
+  private static instance: PaymentLinkService
+
+  public static getInstance(): PaymentLinkService {
+    if (!PaymentLinkService.instance) {
+      PaymentLinkService.instance = new PaymentLinkService()
+    }
+    return PaymentLinkService.instance
+  }
+
+  /**
+   * Active payment link of an invoice, created if it has none. Sending an invoice again
+   * shares the same link. Callers are responsible for authorization.
+   */
+  async getOrCreateLink(params: CreatePaymentLinkParams) {
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        id: params.invoiceId,
+        tenantId: params.tenantId,
+      },
+      select: { id: true, dueDate: true, status: true },
+    })
+
+    if (!invoice) {
+      throw new Error('Invoice not found')
+    }
+
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new Error('Only sent or overdue invoices can be paid online')
+    }
+
+    const now = new Date()
+    const activeLink = await prisma.invoicePaymentLink.findFirst({
+      where: {
+        invoiceId: invoice.id,
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (activeLink && !params.regenerate) {
+      return activeLink
+    }
+
+    const settings = await prisma.billingSettings.findUnique({
+      where: { tenantId: params.tenantId },
+      select: { paymentLinkExpiryDays: true },
+    })
+    const expiryDays = settings?.paymentLinkExpiryDays ?? DEFAULT_PAYMENT_LINK_EXPIRY_DAYS
+
+    const [, link] = await prisma.$transaction([
+      prisma.invoicePaymentLink.updateMany({
+        where: {
+          invoiceId: invoice.id,
+          revokedAt: null,
+        },
+        data: { revokedAt: now },
+      }),
+      prisma.invoicePaymentLink.create({
+        data: {
+          tenantId: params.tenantId,
+          invoiceId: invoice.id,
+          token: generatePaymentLinkToken(),
+          expiresAt: calculatePaymentLinkExpiry(now, invoice.dueDate, expiryDays),
+          createdById: params.createdById,
+        },
+      }),
+    ])
+
+    logger.info('Invoice payment link created', {
+      operation: 'payment_link_create',
+      tenantId: params.tenantId,
+      invoiceId: invoice.id,
+      paymentLinkId: link.id,
+    })
+
+    return link
+  }
+
+  getLinkUrl(token: string): string {
+    return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/pay/${token}`
+  }
+
+  async revokeLink(tenantId: string, linkId: string) {
+    const link = await prisma.invoicePaymentLink.findFirst({
+      where: {
+        id: linkId,
+        tenantId,
+      },
+    })
+
+    if (!link) {
+      throw new Error('Payment link not found')
+    }
+
+    return await prisma.invoicePaymentLink.update({
+      where: { id: link.id },
+      data: { revokedAt: link.revokedAt || new Date() },
+    })
+  }
+
+  /**
+   * Invoice behind a payment link, as shown on the public payment page. Returns null for
+   * unknown tokens; revoked and expired links come back with their status and no invoice.
+   */
+  async getPublicInvoice(token: string) {
+    const link = await prisma.invoicePaymentLink.findUnique({
+      where: { token },
+      include: {
+        tenant: { select: { name: true, logo: true } },
+        invoice: {
+          include: {
+            client: { select: { name: true, email: true } },
+            items: {
+              select: {
+                id: true,
+                description: true,
+                quantity: true,
+                unitPrice: true,
+                total: true,
+                taxRate: true,
+                taxAmount: true,
+              },
+            },
+          },
+        },
+        payments: {
+          select: { id: true, status: true, method: true, amount: true, failureReason: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    })
+
+    if (!link) {
+      return null
+    }
+
+    const status = getPaymentLinkStatus(link)
+    if (status !== 'ACTIVE') {
+      return { status, tenant: link.tenant, invoice: null }
+    }
+
+    const [paid, settings] = await Promise.all([
+      prisma.payment.aggregate({
+        where: {
+          invoiceId: link.invoiceId,
+          status: 'COMPLETED',
+        },
+        _sum: { amount: true },
+      }),
+      prisma.billingSettings.findUnique({
+        where: { tenantId: link.tenantId },
+        select: { onlinePaymentProvider: true, bankTransferInstructions: true },
+      }),
+      prisma.invoicePaymentLink.update({
+        where: { id: link.id },
+        data: { lastViewedAt: new Date() },
+      }),
+    ])
+
+    const { invoice } = link
+    const paidAmount = Number(paid._sum.amount || 0)
+    const lastPayment = link.payments[0]
+
+    return {
+      status,
+      tenant: link.tenant,
+      expiresAt: link.expiresAt,
+      onlinePayments: Boolean(settings?.onlinePaymentProvider),
+      bankTransferInstructions: settings?.bankTransferInstructions || null,
+      lastPayment: lastPayment ? { ...lastPayment, amount: Number(lastPayment.amount) } : null,
+      invoice: {
+        number: invoice.number,
+        title: invoice.title,
+        status: invoice.status,
+        currency: invoice.currency,
+        dueDate: invoice.dueDate,
+        createdAt: invoice.createdAt,
+        taxIncluded: invoice.taxIncluded,
+        subtotal: Number(invoice.subtotal),
+        tax: Number(invoice.tax),
+        total: Number(invoice.total),
+        paid: paidAmount,
+        balance: calculateInvoiceBalance(Number(invoice.total), paidAmount, invoice.currency),
+        client: invoice.client,
+        items: invoice.items.map(item => ({
+          ...item,
+          unitPrice: Number(item.unitPrice),
+          total: Number(item.total),
+          taxRate: Number(item.taxRate),
+          taxAmount: Number(item.taxAmount),
+        })),
+      },
+    }
+  }
+
+  /**
+   * Start paying all or part of the invoice through the tenant's gateway. The client is
+   * sent to the gateway's page and the payment completes when the gateway reports back.
+   */
+  async payOnline(params: PayInvoiceOnlineParams): Promise<ActionResult<any>> {
+    const payable = await this.getPayableLink(params.token, params.amount)
+    if (!payable.success) {
+      return payable
+    }
+
+    const { link, invoice } = payable.data
+    const settings = await prisma.billingSettings.findUnique({
+      where: { tenantId: link.tenantId },
+      select: { onlinePaymentProvider: true },
+    })
+
+    if (!settings?.onlinePaymentProvider) {
+      return { success: false, error: 'Online payments are not enabled' }
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        tenantId: link.tenantId,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        paymentLinkId: link.id,
+        amount: params.amount,
+        currency: invoice.currency,
+        method: 'CREDIT_CARD',
+        status: 'PENDING',
+      },
+    })
+
+    const result = await PaymentGatewayService.getInstance().chargePayment({
+      paymentId: payment.id,
+      tenantId: link.tenantId,
+      provider: settings.onlinePaymentProvider,
+      returnUrl: params.returnUrl,
+    })
+
+    if (!result.success) {
+      return result
+    }
+
+    return {
+      success: true,
+      data: {
+        paymentId: payment.id,
+        status: result.data.status,
+        redirectUrl: result.data.redirectUrl,
+      },
+    }
+  }
+
+  /**
+   * Record a bank transfer the client says they made. The payment stays pending until an
+   * admin finds the money in the account and processes it.
+   */
+  async reportBankTransfer(params: ReportBankTransferParams): Promise<ActionResult<any>> {
+    const payable = await this.getPayableLink(params.token, params.amount)
+    if (!payable.success) {
+      return payable
+    }
+
+    const { link, invoice } = payable.data
+
+    // One report at a time, until an admin confirms or rejects it
+    const pendingReport = await prisma.payment.findFirst({
+      where: {
+        invoiceId: invoice.id,
+        method: 'BANK_TRANSFER',
+        status: 'PENDING',
+      },
+      select: { id: true },
+    })
+
+    if (pendingReport) {
+      return { success: false, error: 'A bank transfer for this invoice is already waiting for confirmation' }
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        tenantId: link.tenantId,
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        paymentLinkId: link.id,
+        amount: params.amount,
+        currency: invoice.currency,
+        method: 'BANK_TRANSFER',
+        reference: params.reference,
+        status: 'PENDING',
+      },
+      select: { id: true, status: true, amount: true },
+    })
+
+    logger.info('Bank transfer reported from payment link', {
+      operation: 'payment_link_transfer',
+      tenantId: link.tenantId,
+      invoiceId: invoice.id,
+      paymentId: payment.id,
+    })
+
+    return { success: true, data: { ...payment, amount: Number(payment.amount) } }
+  }
+
+  private async getPayableLink(token: string, amount: number) {
+    const link = await prisma.invoicePaymentLink.findUnique({
+      where: { token },
+      include: { invoice: true },
+    })
+
+    if (!link || getPaymentLinkStatus(link) !== 'ACTIVE') {
+      return { success: false as const, error: 'Payment link is no longer valid' }
+    }
+
+    const { invoice } = link
+    if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      return { success: false as const, error: 'Invoice is not open for payment' }
+    }
+
+    const paid = await prisma.payment.aggregate({
+      where: {
+        invoiceId: invoice.id,
+        status: 'COMPLETED',
+      },
+      _sum: { amount: true },
+    })
+    const balance = calculateInvoiceBalance(Number(invoice.total), Number(paid._sum.amount || 0), invoice.currency)
+
+    const amountError = validatePaymentAmount(amount, balance, invoice.currency)
+    if (amountError) {
+      return { success: false as const, error: amountError }
+    }
+
+    return { success: true as const, data: { link, invoice } }
+  }
+}
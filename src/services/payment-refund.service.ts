@@ -0,0 +1,208 @@
+import prisma from '@/lib/server/prisma'
+import { logger } from '@/lib/logger'
+import type { ActionResult } from '@/types/database'
+import { createIdempotencyKey } from '@/lib/utils/payment-gateway'
+import { CreditNoteService } from '@/services/credit-note.service'
+import { getPaymentGateway, isGatewayProvider } from '@/services/payment-gateways'
+
+export interface RefundPaymentParams {
+  paymentId: string
+  tenantId?: string // Restrict the lookup to one tenant
+  refundAmount?: number // Full refund if not specified
+  reason: string
+  refundReference?: string
+  createdById?: string // User issuing the refund credit note
+  providerRefundId?: string // Refund already made on the gateway, only recorded here
+}
+
+export class PaymentRefundService {
+  private static instance: PaymentRefundService
+
+  public static getInstance(): PaymentRefundService {
+    if (!PaymentRefundService.instance) {
+      PaymentRefundService.instance = new PaymentRefundService()
+    }
+    return PaymentRefundService.instance
+  }
+
+  /**
+   * Refund all or part of a completed payment with a negative payment record. Refunds of an
+   * invoiced payment are documented with a credit note against the invoice; the invoice is
+   * reopened if it is no longer fully paid. Payments charged through a gateway are refunded
+   * there first. Callers are responsible for authorization.
+   */
+  async refundPayment(params: RefundPaymentParams): Promise<ActionResult<any>> {
+    const existingPayment = await prisma.payment.findFirst({
+      where: {
+        id: params.paymentId,
+        ...(params.tenantId && { tenantId: params.tenantId }),
+      },
+      include: { invoice: true, client: true },
+    })
+
+    if (!existingPayment) {
+      return { success: false, error: 'Payment not found' }
+    }
+
+    // Check if payment can be refunded
+    if (existingPayment.status !== 'COMPLETED') {
+      return { success: false, error: 'Only completed payments can be refunded' }
+    }
+
+    // Credit applied from a credit note was never paid in money
+    if (existingPayment.method === 'CREDIT_NOTE') {
+      return { success: false, error: 'Credit applied from a credit note cannot be refunded' }
+    }
+
+    // Earlier partial refunds reduce what is left to refund
+    const previousRefunds = await prisma.payment.aggregate({
+      where: { refundedPaymentId: existingPayment.id },
+      _sum: { amount: true },
+    })
+    const refundableAmount = Math.round(
+      (Number(existingPayment.amount) + Number(previousRefunds._sum.amount || 0)) * 100
+    ) / 100
+    const refundAmount = params.refundAmount || refundableAmount
+
+    if (refundableAmount <= 0) {
+      return { success: false, error: 'Payment has already been fully refunded' }
+    }
+
+    if (refundAmount > refundableAmount) {
+      return { success: false, error: 'Refund amount cannot exceed the amount left to refund' }
+    }
+
+    // Money goes back through the gateway the payment was charged with
+    let providerRefundId = params.providerRefundId
+    if (!providerRefundId && existingPayment.provider && existingPayment.providerPaymentId
+      && isGatewayProvider(existingPayment.provider)) {
+      const gatewayRefund = await getPaymentGateway(existingPayment.provider).refund({
+        providerPaymentId: existingPayment.providerPaymentId,
+        amount: refundAmount,
+        currency: existingPayment.currency,
+        idempotencyKey: createIdempotencyKey('refund', existingPayment.id, refundableAmount, refundAmount),
+        providerData: (existingPayment.providerData || {}) as Record<string, unknown>,
+        reason: params.reason,
+      })
+
+      if (gatewayRefund.status === 'FAILED') {
+        return { success: false, error: gatewayRefund.failureReason || 'Refund was rejected by the payment gateway' }
+      }
+      providerRefundId = gatewayRefund.providerRefundId
+    }
+
+    // Create refund payment record
+    const refundPayment = await prisma.payment.create({
+      data: {
+        tenantId: existingPayment.tenantId,
+        clientId: existingPayment.clientId,
+        invoiceId: existingPayment.invoiceId,
+        refundedPaymentId: existingPayment.id,
+        amount: -refundAmount, // Negative amount for refund
+        currency: existingPayment.currency,
+        method: existingPayment.method,
+        reference: params.refundReference || `REFUND-${existingPayment.reference}`,
+        status: 'COMPLETED',
+        processedAt: new Date(),
+        provider: existingPayment.provider,
+        providerPaymentId: providerRefundId,
+      },
+    })
+
+    // A fully refunded payment and its refund records no longer count towards paid amounts
+    const fullyRefunded = refundAmount >= refundableAmount
+    if (fullyRefunded) {
+      await prisma.payment.updateMany({
+        where: { refundedPaymentId: existingPayment.id },
+        data: { status: 'REFUNDED' },
+      })
+    }
+
+    const updatedPayment = await prisma.payment.update({
+      where: { id: params.paymentId },
+      data: { status: fullyRefunded ? 'REFUNDED' : 'COMPLETED' },
+      include: {
+        client: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        invoice: {
+          select: {
+            id: true,
+            number: true,
+            total: true,
+            status: true,
+          },
+        },
+      },
+    })
+
+    let creditNote = null
+    if (existingPayment.invoice) {
+      try {
+        creditNote = await CreditNoteService.getInstance().issueCreditNote({
+          tenantId: existingPayment.tenantId,
+          invoiceId: existingPayment.invoice.id,
+          amount: refundAmount,
+          reason: `Reembolso del pago ${existingPayment.reference || existingPayment.id}: ${params.reason}`,
+          paymentId: refundPayment.id,
+          createdById: params.createdById,
+        })
+      } catch (error) {
+        // The money is already back with the client; the invoice is reopened below instead
+        logger.error('Failed to issue refund credit note', error as Error, {
+          operation: 'payment_refund',
+          tenantId: existingPayment.tenantId,
+          paymentId: existingPayment.id,
+        })
+      }
+    }
+
+    // If payment had an invoice, recalculate invoice status
+    if (existingPayment.invoice) {
+      const totalPaid = await prisma.payment.aggregate({
+        where: {
+          invoiceId: existingPayment.invoice.id,
+          status: 'COMPLETED',
+        },
+        _sum: { amount: true },
+      })
+
+      const paidAmount = Number(totalPaid._sum.amount || 0)
+      const invoiceTotal = Number(existingPayment.invoice.total)
+
+      if (paidAmount < invoiceTotal && existingPayment.invoice.status === 'PAID') {
+        await prisma.invoice.update({
+          where: { id: existingPayment.invoice.id },
+          data: {
+            status: 'SENT',
+            paidAt: null,
+          },
+        })
+      }
+    }
+
+    logger.info('Payment refunded', {
+      operation: 'payment_refund',
+      tenantId: existingPayment.tenantId,
+      paymentId: existingPayment.id,
+      refundPaymentId: refundPayment.id,
+      refundAmount,
+      creditNoteId: creditNote?.id,
+    })
+
+    return {
+      success: true,
+      data: {
+        originalPayment: updatedPayment,
+        refundPayment,
+        refundAmount,
+        creditNote,
+        reason: params.reason,
+      },
+    }
+  }
+}
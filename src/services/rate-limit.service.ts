@@ -0,0 +1,220 @@
+import prisma from '@/lib/server/prisma'
+import { logger } from '@/lib/logger'
+import {
+  MemoryRateLimitStore,
+  RATE_LIMIT_POLICIES,
+  checkRateLimit,
+  pickRateLimitResult,
+  type RateLimitPolicy,
+  type RateLimitResult,
+  type RateLimitRule,
+  type RateLimitStore,
+} from '@/lib/utils/rate-limit'
+
+// Tenant limits are read again after this long, so changes apply across instances
+const TENANT_RULE_CACHE_MS = 60 * 1000
+
+const REDIS_TIMEOUT_MS = 2000
+
+export interface RateLimitRequest {
+  policy: RateLimitPolicy
+  subject: string // API key, user or address the counter belongs to
+  route?: string | null // Counted apart per route when set, see getRateLimitRoute()
+  tenantId?: string | null
+  rule?: RateLimitRule | null // Replaces the tenant's and the default limit, e.g. an API key's own
+  userId?: string | null
+  apiKeyId?: string | null
+  ip?: string | null
+  userAgent?: string | null
+  path?: string
+}
+
+/**
+ * Store shared by every instance, over the Redis REST protocol Upstash and compatible proxies
+ * speak. Needs RATE_LIMIT_REDIS_REST_URL and RATE_LIMIT_REDIS_REST_TOKEN.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly url: string,
+    private readonly token: string
+  ) {}
+
+  async hit(key: string, windowStart: number, windowMs: number) {
+    const currentKey = `ratelimit:${key}:${windowStart}`
+    const previousKey = `ratelimit:${key}:${windowStart - windowMs}`
+
+    const response = await fetch(`${this.url.replace(/\/$/, '')}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify([
+        ['INCR', currentKey],
+        ['PEXPIRE', currentKey, windowMs * 2],
+        ['GET', previousKey],
+      ]),
+      signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Rate limit store responded with HTTP ${response.status}`)
+    }
+
+    const [current, , previous] = await response.json() as { result?: unknown; error?: string }[]
+    if (current?.error || previous?.error) {
+      throw new Error(`Rate limit store error: ${current?.error || previous?.error}`)
+    }
+
+    return {
+      current: Number(current?.result ?? 0),
+      previous: Number(previous?.result ?? 0),
+    }
+  }
+}
+
+export class RateLimitService {
+  private static instance: RateLimitService
+
+  private store: RateLimitStore
+  private tenantRules = new Map<string, { rule: RateLimitRule | null; expiresAt: number }>()
+
+  private constructor() {
+    const url = process.env.RATE_LIMIT_REDIS_REST_URL
+    const token = process.env.RATE_LIMIT_REDIS_REST_TOKEN
+
+    // Without a shared store each instance counts on its own
+    this.store = url && token ? new RedisRateLimitStore(url, token) : new MemoryRateLimitStore()
+  }
+
+  public static getInstance(): RateLimitService {
+    if (!RateLimitService.instance) {
+      RateLimitService.instance = new RateLimitService()
+    }
+    return RateLimitService.instance
+  }
+
+  setStore(store: RateLimitStore) {
+    this.store = store
+  }
+
+  /**
+   * Limit a tenant set for a policy, if any
+   */
+  async getTenantRule(policy: RateLimitPolicy, tenantId?: string | null): Promise<RateLimitRule | null> {
+    if (!tenantId) return null
+
+    const cacheKey = `${tenantId}:${policy}`
+    const cached = this.tenantRules.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rule
+    }
+
+    const tenantRule = await prisma.tenantRateLimit.findUnique({
+      where: { tenantId_policy: { tenantId, policy } },
+      select: { limit: true, windowSeconds: true },
+    })
+
+    this.tenantRules.set(cacheKey, { rule: tenantRule, expiresAt: Date.now() + TENANT_RULE_CACHE_MS })
+    return tenantRule
+  }
+
+  /**
+   * Count the request and tell whether it may go through. Each caller has its own counter; a
+   * limit the tenant set is also counted across all of the tenant's callers, so adding keys or
+   * users does not raise it. Returns null when the store cannot be reached, so an outage of the
+   * limiter does not take the endpoints down with it.
+   */
+  async limit(request: RateLimitRequest): Promise<RateLimitResult | null> {
+    try {
+      const scope = request.route ? `${request.policy}:${request.route}` : request.policy
+      const tenantRule = await this.getTenantRule(request.policy, request.tenantId)
+      const rule = request.rule ?? tenantRule ?? RATE_LIMIT_POLICIES[request.policy]
+
+      const results = await Promise.all([
+        checkRateLimit(this.store, `${scope}:${request.subject}`, rule),
+        ...(tenantRule ? [checkRateLimit(this.store, `${scope}:tenant:${request.tenantId}`, tenantRule)] : []),
+      ])
+
+      // One event per breach, not one per rejected request
+      const breach = results.find(result => result.firstBreach)
+      if (breach) {
+        await this.recordBreach(request, breach)
+      }
+
+      return pickRateLimitResult(results)
+    } catch (error) {
+      logger.error('Rate limit check failed', error as Error, {
+        operation: 'rate_limit',
+        policy: request.policy,
+      })
+      return null
+    }
+  }
+
+  async listTenantLimits(tenantId: string) {
+    return prisma.tenantRateLimit.findMany({
+      where: { tenantId },
+      select: { policy: true, limit: true, windowSeconds: true },
+    })
+  }
+
+  async saveTenantLimit(tenantId: string, policy: RateLimitPolicy, rule: RateLimitRule) {
+    const tenantRule = await prisma.tenantRateLimit.upsert({
+      where: { tenantId_policy: { tenantId, policy } },
+      update: rule,
+      create: { tenantId, policy, ...rule },
+    })
+
+    this.tenantRules.delete(`${tenantId}:${policy}`)
+    return tenantRule
+  }
+
+  /**
+   * Go back to the default limit of the policy
+   */
+  async deleteTenantLimit(tenantId: string, policy: RateLimitPolicy) {
+    await prisma.tenantRateLimit.deleteMany({ where: { tenantId, policy } })
+    this.tenantRules.delete(`${tenantId}:${policy}`)
+  }
+
+  private async recordBreach(request: RateLimitRequest, result: RateLimitResult) {
+    logger.warn('Rate limit exceeded', {
+      operation: 'rate_limit',
+      policy: request.policy,
+      subject: request.subject,
+      route: request.route || undefined,
+      tenantId: request.tenantId || undefined,
+      ip: request.ip,
+    })
+
+    try {
+      await prisma.securityEvent.create({
+        data: {
+          tenantId: request.tenantId || null,
+          eventType: 'RATE_LIMIT_EXCEEDED',
+          severity: 'MEDIUM',
+          source: 'api',
+          ipAddress: request.ip,
+          userAgent: request.userAgent,
+          performedById: request.userId,
+          description: `Rate limit of ${result.limit} requests per ${result.windowSeconds}s exceeded on ${request.path || request.policy}`,
+          metadata: {
+            policy: request.policy,
+            subject: request.subject,
+            route: request.route,
+            path: request.path,
+            apiKeyId: request.apiKeyId,
+            limit: result.limit,
+            windowSeconds: result.windowSeconds,
+          },
+        },
+      })
+    } catch (error) {
+      logger.error('Failed to record rate limit breach', error as Error, {
+        operation: 'rate_limit',
+        policy: request.policy,
+      })
+    }
+  }
+}
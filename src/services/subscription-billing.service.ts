@@ -0,0 +1,680 @@
+import prisma from '@/lib/server/prisma'
+import { Prisma } from '@prisma/client'
+import { addDays, addHours, format } from 'date-fns'
+import { logger } from '@/lib/logger'
+import type { CreditCycleConfig } from '@/lib/utils/booking-credits'
+import {
+  buildPlanChangeProration,
+  buildSubscriptionInvoice,
+  getNextBillingPeriod,
+  getProratedPlanFee,
+  getUsageCutoff,
+  PLAN_FEE_CATEGORY,
+  type BillableUsage,
+  type BillingPeriod,
+  type SubscriptionInvoiceLine,
+} from '@/lib/utils/subscription-billing'
+import { CreditNoteService } from '@/services/credit-note.service'
+import { TaxService } from '@/services/tax.service'
+
+export interface BillingRunOptions {
+  tenantId?: string // Limit the run to one tenant, all tenants otherwise
+  now?: Date
+  limit?: number // Maximum subscriptions billed per run
+  scheduled?: boolean // Scheduled runs respect the auto-generate switches and wait out billing retries
+  createdById?: string // User recorded as invoice creator, a tenant admin otherwise
+}
+
+export interface BillingRunResult {
+  inspected: number
+  invoiced: Array<{
+    subscriptionId: string
+    tenantId: string
+    invoiceId: string
+    number: string
+    total: number
+  }>
+  skipped: Array<{
+    subscriptionId: string
+    reason: string
+  }>
+  errors: Array<{
+    subscriptionId: string
+    message: string
+  }>
+}
+
+export interface PlanChangeOptions {
+  tenantId: string
+  subscriptionId: string
+  planId: string
+  now?: Date
+}
+
+export interface PlanChangeResult {
+  effective: 'IMMEDIATE' | 'PERIOD_END'
+  effectiveDate: Date
+  prorationLines: SubscriptionInvoiceLine[]
+}
+
+export interface CancelSubscriptionOptions {
+  tenantId: string
+  subscriptionId: string
+  atPeriodEnd: boolean
+  createdById: string
+  now?: Date
+}
+
+export interface CancelSubscriptionResult {
+  effectiveDate: Date
+  invoiceId?: string // Final invoice of an immediate cancellation
+}
+
+type DueSubscription = Prisma.SubscriptionGetPayload<{
+  include: {
+    plan: true
+    billingCycle: true
+    recurringInvoices: true
+  }
+}>
+
+type BillingSettingsRecord = Prisma.BillingSettingsGetPayload<object> | null
+
+const DEFAULT_RUN_LIMIT = 100
+// Wait before billing a subscription again after it failed, so it does not hold up the batch
+const BILLING_RETRY_HOURS = 24
+
+export class SubscriptionBillingService {
+  private static instance: SubscriptionBillingService
+
+  public static getInstance(): SubscriptionBillingService {
+    if (!SubscriptionBillingService.instance) {
+      SubscriptionBillingService.instance = new SubscriptionBillingService()
+    }
+    return SubscriptionBillingService.instance
+  }
+
+  /**
+   * Invoice every subscription whose billing date has passed and move it to its next period.
+   * A period is invoiced at most once, so rerunning the job never bills twice. Scheduled runs
+   * leave out subscriptions that are not generated automatically and those waiting to retry
+   * after a failure, so neither holds up the rest of the batch.
+   */
+  async runBilling(options: BillingRunOptions = {}): Promise<BillingRunResult> {
+    const now = options.now || new Date()
+    const result: BillingRunResult = { inspected: 0, invoiced: [], skipped: [], errors: [] }
+
+    const due = await prisma.subscription.findMany({
+      where: {
+        ...(options.tenantId && { tenantId: options.tenantId }),
+        status: 'ACTIVE',
+        billingStatus: { in: ['ACTIVE', 'PAST_DUE'] },
+        nextBillingDate: { lte: now },
+        ...(options.scheduled && {
+          OR: [
+            { billingRetryAt: null },
+            { billingRetryAt: { lte: now } },
+          ],
+          billingCycle: { autoGenerate: true },
+          tenant: {
+            billingSettings: { none: { autoGenerateInvoices: false } },
+          },
+        }),
+      },
+      include: {
+        plan: true,
+        billingCycle: true,
+        recurringInvoices: {
+          where: { status: 'ACTIVE' },
+        },
+      },
+      orderBy: { nextBillingDate: 'asc' },
+      take: options.limit || DEFAULT_RUN_LIMIT,
+    })
+
+    result.inspected = due.length
+
+    for (const subscription of due) {
+      try {
+        const outcome = await this.billSubscription(subscription, now, options)
+
+        if ('invoiceId' in outcome) {
+          result.invoiced.push({ subscriptionId: subscription.id, tenantId: subscription.tenantId, ...outcome })
+        } else {
+          result.skipped.push({ subscriptionId: subscription.id, reason: outcome.reason })
+
+          if (outcome.reason === 'NO_ADMIN_USER') {
+            await this.postponeBilling(subscription.id, now)
+          }
+        }
+      } catch (error: any) {
+        // Another run invoiced the same period first
+        if (error.code === 'P2002') {
+          result.skipped.push({ subscriptionId: subscription.id, reason: 'ALREADY_INVOICED' })
+          continue
+        }
+
+        logger.error('Subscription billing failed', error, {
+          operation: 'subscription_billing',
+          tenantId: subscription.tenantId,
+          subscriptionId: subscription.id,
+        })
+        result.errors.push({ subscriptionId: subscription.id, message: error.message })
+        await this.postponeBilling(subscription.id, now)
+      }
+    }
+
+    logger.info('Subscription billing run completed', {
+      operation: 'subscription_billing',
+      tenantId: options.tenantId,
+      inspected: result.inspected,
+      invoiced: result.invoiced.length,
+      skipped: result.skipped.length,
+      errors: result.errors.length,
+    })
+
+    return result
+  }
+
+  private async billSubscription(
+    subscription: DueSubscription,
+    now: Date,
+    options: BillingRunOptions
+  ): Promise<{ invoiceId: string; number: string; total: number } | { reason: string }> {
+    const settings = await prisma.billingSettings.findUnique({
+      where: { tenantId: subscription.tenantId },
+    })
+
+    if (options.scheduled && (settings?.autoGenerateInvoices === false || !subscription.billingCycle.autoGenerate)) {
+      return { reason: 'AUTO_GENERATE_DISABLED' }
+    }
+
+    const period: BillingPeriod = {
+      start: subscription.currentPeriodStart,
+      end: subscription.currentPeriodEnd,
+    }
+    const nextPeriod = getNextBillingPeriod(period, {
+      cycle: subscription.billingCycle.cycle,
+      dayOfMonth: subscription.billingCycle.dayOfMonth,
+      dayOfWeek: subscription.billingCycle.dayOfWeek,
+    } as CreditCycleConfig)
+
+    // The period was invoiced already but the subscription never moved on, so only advance it
+    const existing = await prisma.invoice.findUnique({
+      where: {
+        subscriptionId_periodStart: {
+          subscriptionId: subscription.id,
+          periodStart: period.start,
+        },
+      },
+    })
+
+    if (existing) {
+      await prisma.$transaction(tx => this.advance(tx, subscription, nextPeriod, now))
+      return { reason: 'ALREADY_INVOICED' }
+    }
+
+    const createdById = options.createdById || await this.findInvoiceCreator(subscription.tenantId)
+    if (!createdById) {
+      return { reason: 'NO_ADMIN_USER' }
+    }
+
+    const recurring = subscription.recurringInvoices[0]
+
+    const invoice = await this.createPeriodInvoice({
+      subscription,
+      settings,
+      period,
+      planPrice: Number(subscription.plan.price),
+      cutoff: getUsageCutoff(period, subscription.billingCycle.cutoffDays),
+      createdById,
+      now,
+      complete: async (tx) => {
+        await this.advance(tx, subscription, nextPeriod, now)
+
+        if (recurring) {
+          await tx.recurringInvoice.update({
+            where: { id: recurring.id },
+            data: {
+              lastGenerated: now,
+              nextGeneration: nextPeriod.end,
+            },
+          })
+        }
+      },
+    })
+
+    return { invoiceId: invoice.id, number: invoice.number, total: invoice.total }
+  }
+
+  /**
+   * Keep a subscription that could not be billed out of the job until its retry time
+   */
+  private async postponeBilling(subscriptionId: string, now: Date): Promise<void> {
+    await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { billingRetryAt: addHours(now, BILLING_RETRY_HOURS) },
+    }).catch(error => logger.error('Failed to postpone subscription billing', error, { subscriptionId }))
+  }
+
+  /**
+   * Move a subscription to another plan. With proration the change applies right away and
+   * the days already used are settled on the next invoice; downgrades wait for the end of
+   * the period when the tenant prefers it. Without proration every change waits for the period end.
+   */
+  async changePlan(options: PlanChangeOptions): Promise<PlanChangeResult> {
+    const now = options.now || new Date()
+
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        id: options.subscriptionId,
+        tenantId: options.tenantId,
+        status: 'ACTIVE',
+      },
+      include: { plan: true },
+    })
+
+    if (!subscription) {
+      throw new Error('Subscription not found')
+    }
+
+    if (subscription.planId === options.planId) {
+      throw new Error('Subscription is already on this plan')
+    }
+
+    const [plan, settings] = await Promise.all([
+      prisma.plan.findFirst({
+        where: {
+          id: options.planId,
+          tenantId: options.tenantId,
+          isActive: true,
+        },
+      }),
+      prisma.billingSettings.findUnique({
+        where: { tenantId: options.tenantId },
+      }),
+    ])
+
+    if (!plan) {
+      throw new Error('Plan not found')
+    }
+
+    const isDowngrade = Number(plan.price) < Number(subscription.plan.price)
+    const atPeriodEnd = !subscription.proration || (isDowngrade && (settings?.downgradeAtPeriodEnd ?? true))
+
+    if (atPeriodEnd) {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { pendingPlanId: plan.id },
+      })
+
+      return { effective: 'PERIOD_END', effectiveDate: subscription.currentPeriodEnd, prorationLines: [] }
+    }
+
+    const period: BillingPeriod = {
+      start: subscription.currentPeriodStart,
+      end: subscription.currentPeriodEnd,
+    }
+    const prorationLines = buildPlanChangeProration(
+      { name: subscription.plan.name, price: Number(subscription.plan.price) },
+      { name: plan.name, price: Number(plan.price) },
+      period,
+      now
+    )
+
+    await prisma.$transaction(async (tx) => {
+      // Proration lines wait as usage so the period invoice picks them up
+      if (prorationLines.length > 0) {
+        await tx.usageRecord.createMany({
+          data: prorationLines.map(line => ({
+            tenantId: subscription.tenantId,
+            clientId: subscription.clientId,
+            subscriptionId: subscription.id,
+            resourceType: 'PRORATION' as const,
+            resourceId: line.total < 0 ? plan.id : subscription.planId,
+            quantity: line.quantity,
+            unit: 'days',
+            unitPrice: line.unitPrice,
+            totalCost: line.total,
+            usageDate: now,
+            billingPeriod: format(period.start, 'yyyy-MM'),
+            metadata: { description: line.description },
+          })),
+        })
+      }
+
+      await this.switchPlan(tx, subscription, plan.id)
+    })
+
+    logger.info('Subscription plan changed', {
+      operation: 'subscription_plan_change',
+      tenantId: subscription.tenantId,
+      subscriptionId: subscription.id,
+      fromPlanId: subscription.planId,
+      toPlanId: plan.id,
+    })
+
+    return { effective: 'IMMEDIATE', effectiveDate: now, prorationLines }
+  }
+
+  /**
+   * Cancel a subscription at the end of its period, or right away with a final invoice for
+   * the days used (the full period fee when the subscription does not prorate)
+   */
+  async cancelSubscription(options: CancelSubscriptionOptions): Promise<CancelSubscriptionResult> {
+    const now = options.now || new Date()
+
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        id: options.subscriptionId,
+        tenantId: options.tenantId,
+        status: 'ACTIVE',
+      },
+      include: {
+        plan: true,
+        billingCycle: true,
+        recurringInvoices: {
+          where: { status: 'ACTIVE' },
+        },
+      },
+    })
+
+    if (!subscription) {
+      throw new Error('Subscription not found')
+    }
+
+    if (options.atPeriodEnd) {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          autoRenew: false,
+          endDate: subscription.currentPeriodEnd,
+          pendingPlanId: null,
+        },
+      })
+
+      return { effectiveDate: subscription.currentPeriodEnd }
+    }
+
+    const settings = await prisma.billingSettings.findUnique({
+      where: { tenantId: subscription.tenantId },
+    })
+
+    const period: BillingPeriod = {
+      start: subscription.currentPeriodStart,
+      end: subscription.currentPeriodEnd,
+    }
+    const planPrice = subscription.proration
+      ? getProratedPlanFee(Number(subscription.plan.price), period, now)
+      : Number(subscription.plan.price)
+
+    const invoice = await this.createPeriodInvoice({
+      subscription,
+      settings,
+      period: subscription.proration ? { start: period.start, end: now } : period,
+      planPrice,
+      cutoff: now,
+      createdById: options.createdById,
+      now,
+      complete: async (tx) => {
+        await tx.subscription.update({
+          where: { id: subscription.id },
+          data: {
+            status: 'CANCELLED',
+            billingStatus: 'CANCELLED',
+            endDate: now,
+            autoRenew: false,
+            pendingPlanId: null,
+            lastBillingDate: now,
+          },
+        })
+
+        await tx.recurringInvoice.updateMany({
+          where: { subscriptionId: subscription.id, status: 'ACTIVE' },
+          data: { status: 'CANCELLED' },
+        })
+      },
+    })
+
+    return { effectiveDate: now, invoiceId: invoice.id }
+  }
+
+  /**
+   * Invoice the plan fee and the un-invoiced usage of a period in one transaction, settled
+   * with any credit balance of the client. `complete` runs inside the same transaction to
+   * move the subscription on.
+   */
+  private async createPeriodInvoice(input: {
+    subscription: DueSubscription
+    settings: BillingSettingsRecord
+    period: BillingPeriod
+    planPrice: number
+    cutoff: Date
+    createdById: string
+    now: Date
+    complete: (tx: Prisma.TransactionClient) => Promise<void>
+  }): Promise<{ id: string; number: string; total: number }> {
+    const { subscription, settings, period, now } = input
+    const recurring = subscription.recurringInvoices[0]
+    const includeUsage = recurring?.includePreviousUsage ?? true
+
+    const [usageRecords, consumptions] = includeUsage
+      ? await Promise.all([
+        prisma.usageRecord.findMany({
+          where: {
+            tenantId: subscription.tenantId,
+            invoiced: false,
+            usageDate: { lt: input.cutoff },
+            OR: [
+              { subscriptionId: subscription.id },
+              { clientId: subscription.clientId, subscriptionId: null },
+            ],
+          },
+          orderBy: { usageDate: 'asc' },
+        }),
+        prisma.serviceConsumption.findMany({
+          where: {
+            tenantId: subscription.tenantId,
+            invoiced: false,
+            date: { lt: input.cutoff },
+            user: { clientId: subscription.clientId },
+          },
+          include: { service: { select: { name: true, category: true } } },
+          orderBy: { date: 'asc' },
+        }),
+      ])
+      : [[], []]
+
+    const usage: BillableUsage[] = [
+      ...usageRecords.map(record => ({
+        id: record.id,
+        description: this.describeUsage(record),
+        quantity: Number(record.quantity),
+        unitPrice: Number(record.unitPrice),
+        total: Number(record.totalCost),
+        // Prorated plan fees are taxed like the plan itself
+        category: record.resourceType === 'PRORATION' ? PLAN_FEE_CATEGORY : record.resourceType,
+      })),
+      ...consumptions.map(consumption => ({
+        id: consumption.id,
+        description: consumption.service.name,
+        quantity: consumption.quantity,
+        unitPrice: Number(consumption.unitPrice),
+        total: Number(consumption.total),
+        category: consumption.service.category,
+      })),
+    ]
+
+    const taxSettings = await TaxService.getInstance().getDocumentTaxSettings(subscription.tenantId, subscription.clientId)
+    const draft = buildSubscriptionInvoice(
+      { name: subscription.plan.name, price: input.planPrice },
+      period,
+      usage,
+      taxSettings
+    )
+
+    const autoSend = (settings?.autoSendInvoices ?? false) && (recurring?.autoSend ?? true)
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const number = await this.nextInvoiceNumber(tx, subscription.tenantId, settings)
+
+      const created = await tx.invoice.create({
+        data: {
+          tenantId: subscription.tenantId,
+          clientId: subscription.clientId,
+          subscriptionId: subscription.id,
+          periodStart: period.start,
+          periodEnd: period.end,
+          number,
+          title: subscription.name,
+          description: subscription.description,
+          subtotal: draft.subtotal,
+          tax: draft.tax,
+          taxIncluded: taxSettings.context.pricesIncludeTax,
+          total: draft.total,
+          currency: subscription.plan.currency || settings?.currency || 'USD',
+          status: autoSend ? 'SENT' : 'DRAFT',
+          dueDate: addDays(now, settings?.paymentTermsDays ?? 30),
+          createdById: input.createdById,
+          items: {
+            create: draft.lines,
+          },
+        },
+      })
+
+      if (usageRecords.length > 0) {
+        await tx.usageRecord.updateMany({
+          where: { id: { in: usageRecords.map(record => record.id) } },
+          data: { invoiced: true, invoiceId: created.id },
+        })
+      }
+
+      if (consumptions.length > 0) {
+        await tx.serviceConsumption.updateMany({
+          where: { id: { in: consumptions.map(consumption => consumption.id) } },
+          data: { invoiced: true, invoiceId: created.id },
+        })
+      }
+
+      // Unused credit notes of the client settle the new invoice first
+      await CreditNoteService.getInstance().applyCreditBalance(tx, created)
+
+      await input.complete(tx)
+
+      return created
+    })
+
+    logger.info('Subscription invoiced', {
+      operation: 'subscription_billing',
+      tenantId: subscription.tenantId,
+      subscriptionId: subscription.id,
+      invoiceId: invoice.id,
+      total: draft.total,
+    })
+
+    return { id: invoice.id, number: invoice.number, total: draft.total }
+  }
+
+  /**
+   * Move a subscription to its next period, or end it when it does not renew past its end date.
+   * A plan change scheduled for the period end takes over here.
+   */
+  private async advance(
+    tx: Prisma.TransactionClient,
+    subscription: DueSubscription,
+    nextPeriod: BillingPeriod,
+    now: Date
+  ): Promise<void> {
+    const ended = subscription.endDate !== null && nextPeriod.start >= subscription.endDate && !subscription.autoRenew
+
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: ended
+        ? { status: 'EXPIRED', lastBillingDate: now }
+        : {
+          currentPeriodStart: nextPeriod.start,
+          currentPeriodEnd: nextPeriod.end,
+          nextBillingDate: nextPeriod.end,
+          lastBillingDate: now,
+          billingRetryAt: null,
+        },
+    })
+
+    if (!ended && subscription.pendingPlanId) {
+      await this.switchPlan(tx, subscription, subscription.pendingPlanId)
+    }
+  }
+
+  /**
+   * Put the subscription and the client's active memberships on the current plan onto a new plan
+   */
+  private async switchPlan(
+    tx: Prisma.TransactionClient,
+    subscription: { id: string; tenantId: string; clientId: string; planId: string },
+    planId: string
+  ): Promise<void> {
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: { planId, pendingPlanId: null },
+    })
+
+    await tx.membership.updateMany({
+      where: {
+        tenantId: subscription.tenantId,
+        clientId: subscription.clientId,
+        planId: subscription.planId,
+        status: 'ACTIVE',
+      },
+      data: { planId },
+    })
+  }
+
+  private async findInvoiceCreator(tenantId: string): Promise<string | null> {
+    const admin = await prisma.user.findFirst({
+      where: {
+        tenantId,
+        role: { in: ['COWORK_ADMIN', 'SUPER_ADMIN'] },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return admin?.id || null
+  }
+
+  /**
+   * Next number in the tenant's invoice sequence, never below the configured start
+   */
+  private async nextInvoiceNumber(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    settings: { invoicePrefix: string; invoiceNumberStart: number } | null
+  ): Promise<string> {
+    const prefix = settings?.invoicePrefix || 'INV'
+    const lastInvoice = await tx.invoice.findFirst({
+      where: {
+        tenantId,
+        number: { startsWith: `${prefix}-` },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { number: true },
+    })
+
+    const lastNumber = lastInvoice ? parseInt(lastInvoice.number.replace(/[^\d]/g, '')) || 0 : 0
+    const next = Math.max(lastNumber + 1, settings?.invoiceNumberStart ?? 1)
+
+    return `${prefix}-${String(next).padStart(6, '0')}`
+  }
+
+  private describeUsage(record: { resourceType: string; usageDate: Date; metadata: Prisma.JsonValue }): string {
+    const metadata = record.metadata as { description?: string } | null
+
+    // Proration descriptions already carry their date range
+    if (record.resourceType === 'PRORATION' && metadata?.description) {
+      return metadata.description
+    }
+    const description = metadata?.description || record.resourceType.replace(/_/g, ' ').toLowerCase()
+
+    return `${description} (${record.usageDate.toISOString().slice(0, 10)})`
+  }
+}
@@ -0,0 +1,202 @@
+import prisma from '@/lib/server/prisma'
+import type { Prisma, TaxRule as TaxRuleRecord } from '@prisma/client'
+import type { TaxRule } from '@/lib/utils/pricing'
+import {
+  EXEMPT_TAX_NAME,
+  FALLBACK_TAX_NAME,
+  summarizeTaxes,
+  type TaxBreakdownEntry,
+  type TaxContext,
+} from '@/lib/utils/tax'
+
+export interface DocumentTaxSettings {
+  rules: TaxRule[]
+  context: TaxContext
+  display: 'EXCLUSIVE' | 'INCLUSIVE'
+}
+
+export interface TaxSummaryPeriod {
+  from: Date
+  to: Date // Exclusive
+}
+
+export class TaxService {
+  private static instance: TaxService
+
+  public static getInstance(): TaxService {
+    if (!TaxService.instance) {
+      TaxService.instance = new TaxService()
+    }
+    return TaxService.instance
+  }
+
+  /**
+   * Active tax rules of a tenant and how they apply to a client's documents. A client is
+   * only treated as tax exempt while it has a tax ID on file; tenants without rules fall
+   * back to the single rate of their billing settings.
+   */
+  async getDocumentTaxSettings(tenantId: string, clientId?: string | null): Promise<DocumentTaxSettings> {
+    const [rules, settings, client] = await Promise.all([
+      prisma.taxRule.findMany({
+        where: { tenantId, isActive: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.billingSettings.findUnique({
+        where: { tenantId },
+        select: { taxRate: true, taxIncluded: true, taxDisplay: true },
+      }),
+      clientId
+        ? prisma.client.findFirst({
+          where: { id: clientId, tenantId },
+          select: { taxId: true, taxExempt: true },
+        })
+        : null,
+    ])
+
+    return {
+      rules: rules.map(toTaxRule),
+      context: {
+        pricesIncludeTax: settings?.taxIncluded ?? false,
+        exempt: Boolean(client?.taxExempt && client.taxId),
+        fallbackRate: settings ? Number(settings.taxRate) * 100 : 0,
+      },
+      display: settings?.taxDisplay ?? 'EXCLUSIVE',
+    }
+  }
+
+  /**
+   * Tax per rule and rate for invoices issued in a period, net of the tax given back by
+   * credit notes issued in the same period. Drafts, cancelled invoices and void credit
+   * notes are left out.
+   */
+  async getTaxSummary(tenantId: string, period: TaxSummaryPeriod) {
+    const [invoices, creditNotes] = await Promise.all([
+      prisma.invoice.findMany({
+        where: {
+          tenantId,
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+          createdAt: { gte: period.from, lt: period.to },
+        },
+        select: {
+          subtotal: true,
+          tax: true,
+          taxIncluded: true,
+          items: {
+            select: {
+              total: true,
+              taxRuleId: true,
+              taxRate: true,
+              taxAmount: true,
+              taxRule: { select: { name: true } },
+            },
+          },
+        },
+      }),
+      prisma.creditNote.findMany({
+        where: {
+          tenantId,
+          status: { not: 'VOID' },
+          createdAt: { gte: period.from, lt: period.to },
+        },
+        select: {
+          taxIncluded: true,
+          items: {
+            select: {
+              total: true,
+              taxRate: true,
+              taxAmount: true,
+              invoiceItem: {
+                select: {
+                  taxRuleId: true,
+                  taxRule: { select: { name: true } },
+                },
+              },
+            },
+          },
+        },
+      }),
+    ])
+
+    const invoiced: TaxBreakdownEntry[] = invoices.flatMap(invoice => {
+      // Invoices issued before line taxes were recorded only carry a document tax
+      if (Number(invoice.tax) > 0 && invoice.items.every(item => Number(item.taxAmount) === 0)) {
+        const subtotal = Number(invoice.subtotal)
+        return [{
+          taxRuleId: null,
+          name: FALLBACK_TAX_NAME,
+          rate: subtotal > 0 ? Math.round(Number(invoice.tax) / subtotal * 10000) / 100 : 0,
+          taxableAmount: subtotal,
+          taxAmount: Number(invoice.tax),
+        }]
+      }
+
+      return invoice.items.map(item => toBreakdownEntry(
+        { ...item, taxRuleName: item.taxRule?.name },
+        invoice.taxIncluded
+      ))
+    })
+
+    const credited: TaxBreakdownEntry[] = creditNotes.flatMap(creditNote =>
+      creditNote.items.map(item => toBreakdownEntry(
+        {
+          ...item,
+          taxRuleId: item.invoiceItem?.taxRuleId ?? null,
+          taxRuleName: item.invoiceItem?.taxRule?.name,
+        },
+        creditNote.taxIncluded
+      ))
+    )
+
+    const rows = summarizeTaxes(invoiced, credited)
+
+    return {
+      rows,
+      totals: rows.reduce(
+        (totals, row) => ({
+          taxableAmount: Math.round((totals.taxableAmount + row.taxableAmount) * 100) / 100,
+          taxAmount: Math.round((totals.taxAmount + row.taxAmount) * 100) / 100,
+          creditedAmount: Math.round((totals.creditedAmount + row.creditedAmount) * 100) / 100,
+          netTaxAmount: Math.round((totals.netTaxAmount + row.netTaxAmount) * 100) / 100,
+        }),
+        { taxableAmount: 0, taxAmount: 0, creditedAmount: 0, netTaxAmount: 0 }
+      ),
+    }
+  }
+}
+
+function toTaxRule(record: TaxRuleRecord): TaxRule {
+  return {
+    id: record.id,
+    name: record.name,
+    rate: Number(record.rate),
+    type: record.type,
+    jurisdiction: record.jurisdiction,
+    conditions: {
+      serviceTypes: record.serviceTypes.length > 0 ? record.serviceTypes : undefined,
+      amountThreshold: record.amountThreshold ? Number(record.amountThreshold) : undefined,
+    },
+    isActive: record.isActive,
+  }
+}
+
+function toBreakdownEntry(
+  line: {
+    total: Prisma.Decimal
+    taxRuleId: string | null
+    taxRuleName?: string
+    taxRate: Prisma.Decimal
+    taxAmount: Prisma.Decimal
+  },
+  taxIncluded: boolean
+): TaxBreakdownEntry {
+  const rate = Number(line.taxRate)
+  const taxAmount = Number(line.taxAmount)
+
+  return {
+    taxRuleId: line.taxRuleId,
+    name: line.taxRuleName || (rate > 0 ? FALLBACK_TAX_NAME : EXEMPT_TAX_NAME),
+    rate,
+    taxableAmount: taxIncluded ? Number(line.total) - taxAmount : Number(line.total),
+    taxAmount,
+  }
+}
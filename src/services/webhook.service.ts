@@ -0,0 +1,485 @@
+import prisma from '@/lib/server/prisma'
+import { request as httpsRequest } from 'https'
+import { isIP } from 'net'
+import { Prisma, type WebhookDeliveryStatus } from '@prisma/client'
+import { logger } from '@/lib/logger'
+import type { WebhookEvent } from '@/lib/validations/integration'
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  MAX_WEBHOOK_RESPONSE_LENGTH,
+  calculateNextWebhookAttempt,
+  createWebhookPayload,
+  generateWebhookSecret,
+  isPublicWebhookAddress,
+  isSuccessfulWebhookResponse,
+  lookupPublicWebhookAddress,
+  signWebhookPayload,
+} from '@/lib/utils/webhook'
+
+// Receivers that take longer are counted as failed and retried later
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+// Time a claimed delivery is hidden from other workers while its attempt runs
+const DELIVERY_LEASE_MS = 2 * 60 * 1000
+
+export interface CreateWebhookParams {
+  tenantId: string
+  userId: string
+  name: string
+  description?: string
+  url: string
+  events: WebhookEvent[]
+  isActive?: boolean
+}
+
+export interface UpdateWebhookParams {
+  name?: string
+  description?: string
+  url?: string
+  events?: WebhookEvent[]
+  isActive?: boolean
+}
+
+export interface ProcessDeliveriesResult {
+  processed: number
+  succeeded: number
+  retrying: number
+  deadLettered: number
+}
+
+export class WebhookService {
+  private static instance: WebhookService
+
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService()
+    }
+    return WebhookService.instance
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it. The first attempt starts right
+   * away without being awaited; whatever it does not finish is picked up by the delivery job.
+   * Never throws, so the operation that raised the event is not affected by its subscribers.
+   */
+  async emit(tenantId: string, type: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+          events: { has: type },
+        },
+        select: { id: true },
+      })
+
+      if (webhooks.length === 0) return
+
+      const payload = createWebhookPayload(tenantId, type, data)
+      const deliveries = await prisma.$transaction(webhooks.map(webhook => prisma.webhookDelivery.create({
+        data: {
+          tenantId,
+          webhookId: webhook.id,
+          eventId: payload.id,
+          event: type,
+          payload: payload as unknown as Prisma.InputJsonObject,
+          nextAttemptAt: new Date(),
+        },
+        select: { id: true },
+      })))
+
+      logger.info('Webhook event queued', {
+        operation: 'webhook_emit',
+        tenantId,
+        event: type,
+        eventId: payload.id,
+        deliveries: deliveries.length,
+      })
+
+      for (const delivery of deliveries) {
+        this.attemptDelivery(delivery.id).catch(error => {
+          logger.error('Webhook delivery attempt failed', error, {
+            operation: 'webhook_delivery',
+            deliveryId: delivery.id,
+          })
+        })
+      }
+    } catch (error) {
+      logger.error('Webhook event could not be queued', error, {
+        operation: 'webhook_emit',
+        tenantId,
+        event: type,
+      })
+    }
+  }
+
+  /**
+   * Notify subscribers that an invoice is paid in full
+   */
+  async emitInvoicePaid(invoiceId: string): Promise<void> {
+    try {
+      const invoice = await prisma.invoice.findUnique({
+        where: { id: invoiceId },
+        select: { id: true, tenantId: true, clientId: true, number: true, total: true, currency: true, paidAt: true },
+      })
+
+      if (!invoice) return
+
+      await this.emit(invoice.tenantId, 'invoice.paid', {
+        id: invoice.id,
+        number: invoice.number,
+        clientId: invoice.clientId,
+        total: Number(invoice.total),
+        currency: invoice.currency,
+        paidAt: invoice.paidAt?.toISOString() || null,
+      })
+    } catch (error) {
+      logger.error('Invoice paid event could not be queued', error, {
+        operation: 'webhook_emit',
+        invoiceId,
+      })
+    }
+  }
+
+  /**
+   * Notify subscribers that a payment has been completed
+   */
+  async emitPaymentReceived(paymentId: string): Promise<void> {
+    try {
+      const payment = await prisma.payment.findUnique({
+        where: { id: paymentId },
+        select: {
+          id: true,
+          tenantId: true,
+          clientId: true,
+          invoiceId: true,
+          amount: true,
+          currency: true,
+          method: true,
+          provider: true,
+          reference: true,
+          processedAt: true,
+        },
+      })
+
+      if (!payment) return
+
+      await this.emit(payment.tenantId, 'payment.received', {
+        id: payment.id,
+        clientId: payment.clientId,
+        invoiceId: payment.invoiceId,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        method: payment.method,
+        provider: payment.provider,
+        reference: payment.reference,
+        processedAt: payment.processedAt?.toISOString() || null,
+      })
+    } catch (error) {
+      logger.error('Payment received event could not be queued', error, {
+        operation: 'webhook_emit',
+        paymentId,
+      })
+    }
+  }
+
+  /**
+   * Send a pending delivery once. Failures are scheduled again with exponential backoff and
+   * moved to the dead letter state when the attempts run out. Returns null when the delivery
+   * is not due or another worker already claimed it.
+   */
+  async attemptDelivery(deliveryId: string) {
+    const now = new Date()
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: 'PENDING',
+        OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }],
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+    })
+
+    if (claimed.count === 0) {
+      return null
+    }
+
+    const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: {
+        webhook: { select: { id: true, url: true, secret: true } },
+      },
+    })
+
+    const body = JSON.stringify(delivery.payload)
+    const startedAt = Date.now()
+    let responseStatus: number | null = null
+    let responseBody: string | null = null
+    let errorMessage: string | null = null
+
+    try {
+      const response = await this.post(delivery.webhook.url, body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SweetSpot-Webhook/1.0',
+        'X-SweetSpot-Event': delivery.event,
+        'X-SweetSpot-Delivery': delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, delivery.webhook.secret),
+      })
+
+      responseStatus = response.status
+      responseBody = response.body
+
+      if (!isSuccessfulWebhookResponse(response.status)) {
+        errorMessage = `HTTP ${response.status}`
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    }
+
+    const attempts = delivery.attempts + 1
+    const succeeded = errorMessage === null
+    // Test deliveries report their result right away and are never retried
+    const nextAttemptAt = succeeded || delivery.isTest ? null : calculateNextWebhookAttempt(attempts)
+    const status: WebhookDeliveryStatus = succeeded ? 'SUCCEEDED' : nextAttemptAt ? 'PENDING' : 'DEAD_LETTER'
+
+    const updated = await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        nextAttemptAt,
+        lastAttemptAt: new Date(),
+        deliveredAt: succeeded ? new Date() : null,
+        responseStatus,
+        responseBody,
+        responseTimeMs: Date.now() - startedAt,
+        errorMessage,
+      },
+    })
+
+    if (!delivery.isTest && status !== 'PENDING') {
+      await prisma.webhook.update({
+        where: { id: delivery.webhook.id },
+        data: succeeded
+          ? { lastDeliveryAt: new Date(), failureCount: 0 }
+          : { failureCount: { increment: 1 } },
+      })
+    }
+
+    if (status === 'DEAD_LETTER') {
+      logger.warn('Webhook delivery moved to dead letter', {
+        operation: 'webhook_delivery',
+        tenantId: delivery.tenantId,
+        webhookId: delivery.webhook.id,
+        deliveryId: delivery.id,
+        attempts,
+        error: errorMessage,
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * POST a delivery to a public https endpoint. The connection is made with the https module
+   * rather than fetch so its lookup can refuse loopback, private and other non-public
+   * addresses; fetch would resolve the host again after any check. Redirects are not followed.
+   */
+  private post(url: string, body: string, headers: Record<string, string>): Promise<{ status: number; body: string }> {
+    const { protocol, hostname } = new URL(url)
+    if (protocol !== 'https:') {
+      return Promise.reject(new Error('Webhook URL must use https'))
+    }
+
+    // Hosts given as an address are connected to without a lookup
+    const host = hostname.replace(/^\[|\]$/g, '')
+    if (isIP(host) && !isPublicWebhookAddress(host)) {
+      return Promise.reject(new Error('Webhook URL points to a private network address'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = httpsRequest(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        // A pooled socket could have been opened without this lookup
+        agent: false,
+        lookup: lookupPublicWebhookAddress,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      }, (response) => {
+        let text = ''
+        response.setEncoding('utf8')
+        response.on('data', (chunk: string) => {
+          if (text.length < MAX_WEBHOOK_RESPONSE_LENGTH) text += chunk
+        })
+        response.on('end', () => resolve({
+          status: response.statusCode || 0,
+          body: text.slice(0, MAX_WEBHOOK_RESPONSE_LENGTH),
+        }))
+        response.on('error', reject)
+      })
+
+      request.on('error', reject)
+      request.end(body)
+    })
+  }
+
+  /**
+   * Retry the deliveries that are due, oldest first. Deliveries of disabled webhooks wait
+   * until the webhook is enabled again.
+   */
+  async processDueDeliveries(limit = 50): Promise<ProcessDeliveriesResult> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: new Date() },
+        webhook: { isActive: true },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    })
+
+    const result: ProcessDeliveriesResult = { processed: 0, succeeded: 0, retrying: 0, deadLettered: 0 }
+
+    for (const { id } of due) {
+      try {
+        const delivery = await this.attemptDelivery(id)
+        if (!delivery) continue
+
+        result.processed++
+        if (delivery.status === 'SUCCEEDED') result.succeeded++
+        else if (delivery.status === 'DEAD_LETTER') result.deadLettered++
+        else result.retrying++
+      } catch (error) {
+        logger.error('Webhook delivery attempt failed', error, {
+          operation: 'webhook_delivery',
+          deliveryId: id,
+        })
+      }
+    }
+
+    logger.info('Webhook deliveries processed', {
+      operation: 'webhook_delivery_job',
+      ...result,
+    })
+
+    return result
+  }
+
+  /**
+   * Send an event again as a new delivery with the same event id, so receivers that already
+   * processed it can recognise the duplicate
+   */
+  async redeliver(tenantId: string, deliveryId: string) {
+    const original = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: deliveryId,
+        tenantId,
+      },
+    })
+
+    if (!original) {
+      throw new Error('Delivery not found')
+    }
+
+    if (original.status === 'PENDING') {
+      throw new Error('The delivery is still being retried')
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        tenantId,
+        webhookId: original.webhookId,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        isTest: original.isTest,
+        nextAttemptAt: new Date(),
+      },
+    })
+
+    return await this.attemptDelivery(delivery.id) ?? delivery
+  }
+
+  /**
+   * Send a sample event to check that the endpoint is reachable and verifies the signature
+   */
+  async sendTest(tenantId: string, webhookId: string, type: WebhookEvent) {
+    const webhook = await this.findWebhook(tenantId, webhookId)
+    const payload = createWebhookPayload(tenantId, type, { test: true })
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        tenantId,
+        webhookId: webhook.id,
+        eventId: payload.id,
+        event: type,
+        payload: payload as unknown as Prisma.InputJsonObject,
+        isTest: true,
+        nextAttemptAt: new Date(),
+      },
+    })
+
+    return await this.attemptDelivery(delivery.id) ?? delivery
+  }
+
+  async createWebhook(params: CreateWebhookParams) {
+    return prisma.webhook.create({
+      data: {
+        tenantId: params.tenantId,
+        name: params.name,
+        description: params.description,
+        url: params.url,
+        events: params.events,
+        isActive: params.isActive ?? true,
+        secret: generateWebhookSecret(),
+        createdById: params.userId,
+      },
+    })
+  }
+
+  async updateWebhook(tenantId: string, webhookId: string, params: UpdateWebhookParams) {
+    const webhook = await this.findWebhook(tenantId, webhookId)
+
+    return prisma.webhook.update({
+      where: { id: webhook.id },
+      data: {
+        ...params,
+        // Enabling a webhook again starts its failure streak over
+        ...(params.isActive ? { failureCount: 0 } : {}),
+      },
+    })
+  }
+
+  /**
+   * Replace the signing secret; deliveries from now on are signed with the new one
+   */
+  async rotateSecret(tenantId: string, webhookId: string) {
+    const webhook = await this.findWebhook(tenantId, webhookId)
+
+    return prisma.webhook.update({
+      where: { id: webhook.id },
+      data: { secret: generateWebhookSecret() },
+    })
+  }
+
+  async deleteWebhook(tenantId: string, webhookId: string) {
+    const webhook = await this.findWebhook(tenantId, webhookId)
+    await prisma.webhook.delete({ where: { id: webhook.id } })
+  }
+
+  private async findWebhook(tenantId: string, webhookId: string) {
+    const webhook = await prisma.webhook.findFirst({
+      where: {
+        id: webhookId,
+        tenantId,
+      },
+      select: { id: true },
+    })
+
+    if (!webhook) {
+      throw new Error('Webhook not found')
+    }
+
+    return webhook
+  }
+}